@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { redis } from "@/lib/redis";
+import {
+  clipUrl,
+  findIndexedChallenge,
+  loadEligibility,
+  loadTracks,
+  prepareClip,
+  secureRandom,
+} from "@/lib/beat-match-authoring";
+import {
+  BEAT_MATCH_KEYS,
+  BeatMatchError,
+  DAY_MS,
+  SCHEDULE_AHEAD_DAYS,
+  buildChallenge,
+  cancelChallenge,
+  claimBeatMatchDay,
+  eligibleTracks,
+  getChallenge,
+  getChallenges,
+  parseDay,
+  pickTrack,
+  releaseBeatMatchDay,
+  saveChallenge,
+  scheduleBlocker,
+  trackBlocker,
+} from "@/lib/beat-match";
+
+export const dynamic = "force-dynamic";
+// Fetching a master and pinning its clip can take a while on a large WAV
+export const maxDuration = 120;
+
+/**
+ * Curating Beat Match: which song plays which day. See lib/beat-match.ts.
+ *
+ *   POST /api/admin/beat-match
+ *   { action: "list" }                            → { challenges }  last week through the scheduling horizon
+ *   { action: "candidates", day }                 → { eligible, excluded }
+ *   { action: "schedule", day, tokenId? }         cuts and pins the clip; no tokenId picks at random
+ *   { action: "cancel", day, reason }             only before it is on-chain
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction(), with
+ * details "" for list, the day for candidates, `${day}:${tokenId || "random"}` for schedule and
+ * `${day}:${reason}` for cancel. Days nobody schedules are filled by the beat-match keeper. The
+ * contract owner creates each day's challenge on MusicBeatMatchV2 with the clip's CID from `list`.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function details(action: string, body: any): string {
+  switch (action) {
+    case "list":
+      return "";
+    case "candidates":
+      return String(body.day ?? "");
+    case "schedule":
+      return `${body.day}:${body.tokenId || "random"}`;
+    default:
+      return `${body.day}:${body.reason ?? ""}`;
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+
+    if (!["list", "candidates", "schedule", "cancel"].includes(action)) {
+      return fail("Unknown action");
+    }
+
+    const auth = await authenticateAdminAction({
+      action: `beat_match_${action}`,
+      details: details(action, body),
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    const now = Date.now();
+
+    if (action === "list") {
+      const days = (
+        await redis.zrange<string[]>(
+          BEAT_MATCH_KEYS.schedule,
+          now - 7 * DAY_MS,
+          now + SCHEDULE_AHEAD_DAYS * DAY_MS,
+          { byScore: true },
+        )
+      ).map(String);
+      const challenges = (await getChallenges(redis, days)).map((c) => ({
+        ...c,
+        clipUrl: clipUrl(c.clip.cid),
+      }));
+      return NextResponse.json({ success: true, challenges });
+    }
+
+    const day = parseDay(body.day);
+
+    if (action === "candidates") {
+      const [tracks, eligibility] = await Promise.all([
+        loadTracks(),
+        loadEligibility(redis),
+      ]);
+      const { eligible, excluded } = eligibleTracks(tracks, day, eligibility);
+      return NextResponse.json({
+        success: true,
+        day,
+        eligible: eligible.map((t) => ({
+          tokenId: t.tokenId,
+          songTitle: t.songTitle,
+          artistUsername: t.artistUsername,
+        })),
+        excluded,
+      });
+    }
+
+    if (!(await claimBeatMatchDay(redis, day))) {
+      return fail("That day is being worked on; try again shortly", 409);
+    }
+    try {
+      const existing = await getChallenge(redis, day);
+
+      if (action === "cancel") {
+        if (!existing) return fail("Nothing is scheduled that day", 404);
+        // The owner may have created it before the keeper noticed
+        if (
+          existing.status === "scheduled" &&
+          (await findIndexedChallenge(existing.clip.cid))
+        ) {
+          return fail("Challenge is already on-chain", 409);
+        }
+        cancelChallenge(
+          existing,
+          auth.address!,
+          String(body.reason ?? ""),
+          now,
+        );
+        await saveChallenge(redis, existing);
+        console.log(`[BeatMatch] ${day} cancelled by ${auth.address}`);
+        return NextResponse.json({ success: true, challenge: existing });
+      }
+
+      const blocked = scheduleBlocker(day, existing, now);
+      if (blocked) return fail(blocked, 409);
+
+      const [tracks, eligibility] = await Promise.all([
+        loadTracks(),
+        loadEligibility(redis),
+      ]);
+      let track;
+      if (body.tokenId) {
+        track = tracks.find((t) => t.tokenId === String(body.tokenId));
+        if (!track) return fail("Track not found", 404);
+        const reason = trackBlocker(track, day, eligibility);
+        if (reason) return fail(reason, 409);
+      } else {
+        track = pickTrack(
+          eligibleTracks(tracks, day, eligibility).eligible,
+          secureRandom,
+        );
+        if (!track) return fail("No eligible tracks for that day", 409);
+      }
+
+      const clip = await prepareClip(track, tracks);
+      const challenge = buildChallenge(day, track, clip, auth.address!, now);
+      await saveChallenge(redis, challenge);
+      console.log(
+        `[BeatMatch] ${day} scheduled by ${auth.address}: #${track.tokenId}`,
+      );
+      return NextResponse.json({
+        success: true,
+        challenge: { ...challenge, clipUrl: clipUrl(clip.cid) },
+      });
+    } finally {
+      await releaseBeatMatchDay(redis, day);
+    }
+  } catch (error: any) {
+    if (error instanceof BeatMatchError)
+      return fail(error.message, error.status);
+    console.error("[BeatMatch] admin POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { listFingerprintFlags } from "@/lib/audio-fingerprint";
+import { authenticateAdminAction } from "@/lib/auth";
+import { redis } from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The review queue the upload fingerprint check leaves behind (see lib/audio-fingerprint.ts).
+ *
+ *   POST /api/admin/fingerprints
+ *   { action: "list-flags", limit? }   → { flags }  newest first
+ *
+ * Flags are uploads that sounded close to something already indexed, or that could not be
+ * scanned at all. Blocked uploads never reach the index or this list. A flagged track that turns
+ * out to be stolen goes through /api/admin/burn-stolen like any other.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.action !== "list-flags") return fail("Unknown action");
+
+    const limit = Math.min(Math.max(Number(body.limit) || 100, 1), 1000);
+    const auth = await authenticateAdminAction({
+      action: "fingerprint_list_flags",
+      details: String(limit),
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    return NextResponse.json({
+      success: true,
+      flags: await listFingerprintFlags(redis, limit),
+    });
+  } catch (error: any) {
+    console.error("[Fingerprints] admin POST error:", error);
+    return fail(error.message, 500);
+  }
+}
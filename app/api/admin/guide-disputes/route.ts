@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { sendSafeTransaction } from "@/lib/pimlico-safe-aa";
+import { redis } from "@/lib/redis";
+import { registryCall } from "@/lib/guide-registry";
+import {
+  GUIDE_BOOKING_KEYS,
+  GuideBookingError,
+  claimGuideBookingAction,
+  disputeDecisionDetails,
+  getGuideBooking,
+  getGuideBookings,
+  recordCancellation,
+  refundPending,
+  releaseGuideBookingAction,
+  releaseSlot,
+  resolveGuideDispute,
+  saveGuideBooking,
+  type GuideBooking,
+} from "@/lib/guide-booking";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Deciding guide booking disputes opened through /api/guides/bookings. See lib/guide-booking.ts.
+ *
+ *   POST /api/admin/guide-disputes
+ *   { action: "list" }                          → { disputes }  open or awaiting refund, oldest first
+ *   { action: "resolve", id, outcome, reason }  outcome release | refund   details: disputeDecisionDetails()
+ *   { action: "refund", id }                    retry a decided refund whose cancellation failed
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction().
+ * A refund cancels the registry booking from the Platform Safe, which returns the escrow to the
+ * traveler.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+async function refund(b: GuideBooking, now: number): Promise<string> {
+  const reason = `Dispute refunded: ${b.dispute!.decision!.reason}`.slice(
+    0,
+    200,
+  );
+  const txHash = await sendSafeTransaction([
+    registryCall("cancelBooking", [BigInt(b.escrow!.bookingId), reason]),
+  ]);
+  recordCancellation(b, "admin", { reason, txHash }, now);
+  await releaseSlot(redis, b);
+  return txHash;
+}
+
+export async function POST(req: NextRequest) {
+  let locked: string | null = null;
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const id = String(body.id || "");
+
+    if (!["list", "resolve", "refund"].includes(action)) {
+      return fail("Unknown action");
+    }
+
+    const booking = action === "list" ? null : await getGuideBooking(redis, id);
+    if (action !== "list" && !booking) return fail("Booking not found", 404);
+
+    const auth = await authenticateAdminAction({
+      action: `guide_dispute_${action}`,
+      details:
+        action === "list"
+          ? "open"
+          : action === "resolve"
+            ? disputeDecisionDetails(
+                id,
+                body.outcome,
+                String(body.reason ?? ""),
+              )
+            : id,
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "list") {
+      const disputes = await getGuideBookings(
+        redis,
+        (await redis.smembers(GUIDE_BOOKING_KEYS.openDisputes)).map(String),
+      );
+      disputes.sort((a, b) => a.dispute!.openedAt - b.dispute!.openedAt);
+      return NextResponse.json({ success: true, disputes });
+    }
+
+    // A party answering, or the keeper completing, must not save over the decision
+    if (!(await claimGuideBookingAction(redis, id))) {
+      return fail("Another action on this booking is in progress", 409);
+    }
+    locked = id;
+    const b = (await getGuideBooking(redis, id)) ?? booking!;
+    const now = Date.now();
+
+    if (action === "refund") {
+      if (!refundPending(b))
+        return fail("No refund is waiting on this booking", 409);
+      const txHash = await refund(b, now);
+      await saveGuideBooking(redis, b, now);
+      return NextResponse.json({ success: true, booking: b, txHash });
+    }
+
+    resolveGuideDispute(
+      b,
+      { outcome: body.outcome, reason: body.reason, admin: auth.address! },
+      now,
+    );
+    // Save the decision before the refund, so a failed transaction leaves it retryable
+    await saveGuideBooking(redis, b, now);
+    console.log(
+      `[GuideDisputes] ${b.id} ${b.dispute!.decision!.outcome} by ${auth.address}`,
+    );
+
+    if (b.dispute!.decision!.outcome === "refund") {
+      const txHash = await refund(b, now);
+      await saveGuideBooking(redis, b, now);
+      return NextResponse.json({ success: true, booking: b, txHash });
+    }
+    return NextResponse.json({ success: true, booking: b });
+  } catch (error: any) {
+    if (error instanceof GuideBookingError)
+      return fail(error.message, error.status);
+    console.error("[GuideDisputes] admin POST error:", error);
+    return fail(error.message, 500);
+  } finally {
+    if (locked) await releaseGuideBookingAction(redis, locked);
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from "next/server";
+import { privateKeyToAccount } from "viem/accounts";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import {
+  getReport,
+  listMonthReports,
+  saveReport,
+  verifySignedReport,
+} from "@/lib/distribution-report";
+import { redis } from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Sign-off for listener reward distributions drafted by
+ * /api/cron/distribute-listener-rewards. See lib/distribution-report.ts.
+ *
+ *   POST /api/admin/listener-distribution
+ *   { action: "list",    monthId }           → { reports }  summaries, oldest first
+ *   { action: "get",     reportId }          → { report }   full signed report
+ *   { action: "approve", reportId }          signed details: the report's digest
+ *   { action: "reject",  reportId, note? }
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction().
+ * An approval signs the digest rather than the id, so it only ever covers the numbers the
+ * admin looked at. The next keeper run executes the approved report.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function keeperAddress() {
+  const key = process.env.DEPLOYER_PRIVATE_KEY;
+  return key ? privateKeyToAccount(key as `0x${string}`).address : null;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const reportId = String(body.reportId || "");
+    const monthId = Number(body.monthId);
+
+    if (!["list", "get", "approve", "reject"].includes(action)) {
+      return fail("Unknown action");
+    }
+    if (action === "list" && !(Number.isInteger(monthId) && monthId >= 0)) {
+      return fail("A valid monthId is required");
+    }
+
+    const signed = action === "list" ? null : await getReport(redis, reportId);
+    if (action !== "list" && !signed) return fail("Report not found", 404);
+
+    const auth = await authenticateAdminAction({
+      action: `listener_distribution_${action}`,
+      details:
+        action === "list"
+          ? String(monthId)
+          : action === "approve"
+            ? signed!.digest
+            : reportId,
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "list") {
+      const reports = await listMonthReports(redis, monthId);
+      return NextResponse.json({
+        success: true,
+        reports: reports.map((r) => ({
+          reportId: r.report.reportId,
+          status: r.status,
+          digest: r.digest,
+          createdAt: r.report.createdAt,
+          poolWei: r.report.poolWei,
+          totalPoints: r.report.totalPoints,
+          listenerCount: r.report.listenerCount,
+          heldCount: r.report.heldCount,
+          approval: r.approval,
+          rejection: r.rejection,
+          execution: r.execution,
+        })),
+      });
+    }
+
+    if (action === "get") {
+      return NextResponse.json({ success: true, report: signed });
+    }
+
+    if (signed!.status !== "draft") {
+      return fail(`Report is ${signed!.status}, not a draft`, 409);
+    }
+
+    if (action === "reject") {
+      signed!.status = "rejected";
+      signed!.rejection = {
+        by: auth.address!,
+        at: Date.now(),
+        note:
+          typeof body.note === "string" ? body.note.slice(0, 280) : undefined,
+      };
+      await saveReport(redis, signed!);
+      console.log(
+        `[ListenerDistribution] ${reportId} rejected by ${auth.address}`,
+      );
+      return NextResponse.json({ success: true, status: signed!.status });
+    }
+
+    const keeper = keeperAddress();
+    if (!keeper) return fail("DEPLOYER_PRIVATE_KEY is not configured", 500);
+    if (!(await verifySignedReport(signed!, keeper))) {
+      return fail("Report does not match its keeper signature", 409);
+    }
+
+    signed!.status = "approved";
+    signed!.approval = {
+      by: auth.address!,
+      at: Date.now(),
+      signature: body.signature,
+    };
+    await saveReport(redis, signed!);
+    console.log(
+      `[ListenerDistribution] ${reportId} (${signed!.digest}) approved by ${auth.address}`,
+    );
+    return NextResponse.json({
+      success: true,
+      status: signed!.status,
+      digest: signed!.digest,
+    });
+  } catch (error: any) {
+    console.error("[ListenerDistribution] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import {
+  PipelineError,
+  getPipeline,
+  listPipelines,
+  releaseStep,
+  savePipeline,
+  type PipelineFlow,
+} from "@/lib/month-pipeline";
+import { redis } from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Where each month's finalize and listener distribution stands, step by step.
+ * See lib/month-pipeline.ts.
+ *
+ *   POST /api/admin/month-pipeline
+ *   { action: "status" }                          → { pipelines }  most recently updated first
+ *   { action: "status",  monthId }                → { finalize, distribute }
+ *   { action: "release", flow, monthId, step }    → { pipeline }
+ *
+ * "release" is the one manual repair: a step stuck on a transaction with no receipt is
+ * never re-sent automatically. Once the hash is confirmed dropped (explorer, or the nonce
+ * has moved past it), releasing lets the next keeper run send a replacement.
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction().
+ */
+
+const FLOWS: PipelineFlow[] = ["finalize", "distribute"];
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action, flow, step } = body;
+    const hasMonth = body.monthId !== undefined && body.monthId !== null;
+    const monthId = Number(body.monthId);
+
+    if (action !== "status" && action !== "release") {
+      return fail("Unknown action");
+    }
+    if (
+      (hasMonth || action === "release") &&
+      !(Number.isInteger(monthId) && monthId >= 0)
+    ) {
+      return fail("A valid monthId is required");
+    }
+    if (action === "release") {
+      if (!FLOWS.includes(flow)) {
+        return fail('flow must be "finalize" or "distribute"');
+      }
+      if (typeof step !== "string" || !step) return fail("step is required");
+    }
+
+    const auth = await authenticateAdminAction({
+      action: `month_pipeline_${action}`,
+      details:
+        action === "release"
+          ? `${flow}:${monthId}:${step}`
+          : hasMonth
+            ? String(monthId)
+            : "recent",
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "status") {
+      if (!hasMonth) {
+        const pipelines = await listPipelines(redis);
+        return NextResponse.json({ success: true, pipelines });
+      }
+      const [finalize, distribute] = await Promise.all(
+        FLOWS.map((f) => getPipeline(redis, f, monthId)),
+      );
+      return NextResponse.json({ success: true, finalize, distribute });
+    }
+
+    const pipeline = await getPipeline(redis, flow, monthId);
+    if (!pipeline) return fail("No pipeline for that month", 404);
+    releaseStep(pipeline, step, Date.now());
+    await savePipeline(redis, pipeline);
+    console.log(
+      `[MonthPipeline] ${flow}:${monthId} step ${step} released by ${auth.address}`,
+    );
+    return NextResponse.json({ success: true, pipeline });
+  } catch (error: any) {
+    if (error instanceof PipelineError) {
+      return fail(error.message, error.status);
+    }
+    console.error("[MonthPipeline] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { redis } from "@/lib/redis";
+import { RIGHTS_HOLDS_KEY, applyRightsHold } from "@/lib/rights-declaration";
+import {
+  DISPUTE_KEYS,
+  DisputeError,
+  closeDisputeIndexes,
+  decisionDetails,
+  getDispute,
+  getDisputes,
+  getRefund,
+  listRefundsDue,
+  resolveDispute,
+  saveDispute,
+  saveSettledRefund,
+  settleClaimHold,
+  settleRefund,
+  verifyDisputeRecord,
+} from "@/lib/rights-dispute";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Deciding rights disputes filed through /api/rights/disputes. See lib/rights-dispute.ts.
+ *
+ *   POST /api/admin/rights-disputes
+ *   { action: "list" }                                 → { disputes }  open, oldest first
+ *   { action: "resolve", id, outcome, reason }         signed details: decisionDetails()
+ *   { action: "settle-hold", id, note, txHash? }       after an upheld decision
+ *   { action: "refunds" }                              → { refunds }  paid radio plays a hold cancelled
+ *   { action: "settle-refund", id, note, txHash? }     once the payer has been refunded
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction().
+ * Upholding revokes the master for good; rejecting lifts the hold once no other dispute against
+ * it is open, and releases the artist's held months.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const id = String(body.id || "");
+
+    if (
+      !["list", "resolve", "settle-hold", "refunds", "settle-refund"].includes(
+        action,
+      )
+    ) {
+      return fail("Unknown action");
+    }
+
+    const byId = ["resolve", "settle-hold"].includes(action);
+    const dispute = byId ? await getDispute(redis, id) : null;
+    if (byId && !dispute) return fail("Dispute not found", 404);
+    const refund =
+      action === "settle-refund" ? await getRefund(redis, id) : null;
+    if (action === "settle-refund" && !refund) {
+      return fail("Refund not found", 404);
+    }
+
+    const auth = await authenticateAdminAction({
+      action: `rights_dispute_${action.replace("-", "_")}`,
+      details:
+        action === "list" || action === "refunds"
+          ? "open"
+          : action === "resolve"
+            ? decisionDetails(id, body.outcome, String(body.reason ?? ""))
+            : id,
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "list") {
+      const open = await getDisputes(
+        redis,
+        await redis.smembers(DISPUTE_KEYS.open),
+      );
+      open.sort((a, b) => a.filedAt - b.filedAt);
+      return NextResponse.json({
+        success: true,
+        disputes: open.map((d) => ({ ...d, verified: verifyDisputeRecord(d) })),
+      });
+    }
+
+    if (action === "refunds") {
+      return NextResponse.json({
+        success: true,
+        refunds: await listRefundsDue(redis),
+      });
+    }
+
+    const now = Date.now();
+
+    if (action === "settle-refund") {
+      const r = refund!;
+      settleRefund(r, {
+        by: auth.address!,
+        at: now,
+        note: body.note,
+        txHash: body.txHash,
+      });
+      await saveSettledRefund(redis, r);
+      console.log(
+        `[RightsDisputes] refund ${r.id} recorded by ${auth.address}`,
+      );
+      return NextResponse.json({ success: true, refund: r });
+    }
+
+    const d = dispute!;
+
+    if (action === "settle-hold") {
+      settleClaimHold(d, {
+        by: auth.address!,
+        at: now,
+        note: body.note,
+        txHash: body.txHash,
+      });
+      await saveDispute(redis, d);
+      await redis.srem(DISPUTE_KEYS.holding(d.artist), d.id);
+      console.log(
+        `[RightsDisputes] ${d.id} claim hold settled by ${auth.address}`,
+      );
+      return NextResponse.json({ success: true, dispute: d });
+    }
+
+    const decision = resolveDispute(
+      d,
+      {
+        outcome: body.outcome,
+        reason: body.reason,
+        admin: auth.address!,
+        at: now,
+      },
+      body.signature,
+    );
+    await saveDispute(redis, d);
+    const stillOpen = await closeDisputeIndexes(redis, d);
+
+    if (decision.outcome === "upheld") {
+      await applyRightsHold(redis, d.tokenId, "revoked");
+    } else if (
+      stillOpen === 0 &&
+      (await redis.hget(RIGHTS_HOLDS_KEY, d.tokenId)) === "disputed"
+    ) {
+      await applyRightsHold(redis, d.tokenId, null);
+    }
+
+    console.log(
+      `[RightsDisputes] ${d.id} ${decision.outcome} by ${auth.address} (${decision.hash})`,
+    );
+    return NextResponse.json({ success: true, dispute: d });
+  } catch (error: any) {
+    if (error instanceof DisputeError) return fail(error.message, error.status);
+    console.error("[RightsDisputes] admin POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import { encodeFunctionData, type Address, type Hex } from "viem";
+
+import ERC20ABI from "@/lib/abis/ERC20.json";
+import { authenticateAdminAction } from "@/lib/auth";
+import { sendSafeTransaction } from "@/lib/pimlico-safe-aa";
+import { redis } from "@/lib/redis";
+import {
+  getSponsorship,
+  saveSponsorship,
+  shouldReleaseFunds,
+} from "@/lib/sponsorship";
+import {
+  SPONSORSHIP_DISPUTE_KEYS,
+  SponsorshipDisputeError,
+  castPanelVote,
+  getSponsorshipDispute,
+  panelRole,
+  ruleByAdmin,
+  saveSponsorshipDispute,
+  settleDispute,
+  splitPayout,
+  tallyPanel,
+  type SponsorshipDispute,
+} from "@/lib/sponsorship-dispute";
+
+export const dynamic = "force-dynamic";
+
+const WMON_ADDRESS = process.env.NEXT_PUBLIC_WMON as Address;
+
+/**
+ * Admin side of sponsorship disputes opened through /api/sponsorship/dispute.
+ * See lib/sponsorship-dispute.ts.
+ *
+ *   POST /api/admin/sponsorship-disputes
+ *   { action: "list" }                              → { disputes }  open or awaiting payout
+ *   { action: "vote", id, hostShareBps, note? }     sit on the panel   details: "SD-4:7500"
+ *   { action: "rule", id, hostShareBps, reason }    panel without quorum   details: "SD-4:7500:<reason>"
+ *   { action: "settle", id }                        pay out a decided dispute from the Platform Safe
+ *
+ * Every action carries { adminAddress, signature, timestamp } for authenticateAdminAction().
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function signedDetails(action: string, body: any, id: string) {
+  if (action === "list") return "open";
+  if (action === "vote") return `${id}:${body.hostShareBps}`;
+  if (action === "rule") {
+    return `${id}:${body.hostShareBps}:${String(body.reason ?? "")}`;
+  }
+  return id;
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const id = String(body.id || "");
+
+    if (!["list", "vote", "rule", "settle"].includes(action)) {
+      return fail("Unknown action");
+    }
+
+    const dispute =
+      action === "list" ? null : await getSponsorshipDispute(redis, id);
+    if (action !== "list" && !dispute) return fail("Dispute not found", 404);
+
+    const auth = await authenticateAdminAction({
+      action: `sponsorship_dispute_${action}`,
+      details: signedDetails(action, body, id),
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "list") {
+      const ids = await redis.smembers(SPONSORSHIP_DISPUTE_KEYS.open);
+      const disputes = (
+        await Promise.all(ids.map((d) => getSponsorshipDispute(redis, d)))
+      ).filter((d): d is SponsorshipDispute => d !== null);
+      disputes.sort((a, b) => a.openedAt - b.openedAt);
+      return NextResponse.json({
+        success: true,
+        disputes: disputes.map((d) => ({ ...d, tally: tallyPanel(d) })),
+      });
+    }
+
+    const d = dispute!;
+    const sponsorship = await getSponsorship(d.sponsorshipId);
+    if (!sponsorship) return fail("Sponsorship not found", 404);
+    const now = Date.now();
+
+    if (action === "vote") {
+      if (panelRole(sponsorship, auth.address!, true) !== "admin") {
+        return fail("A party to the sponsorship cannot sit on its panel", 403);
+      }
+      castPanelVote(d, {
+        voter: auth.address!,
+        role: "admin",
+        hostShareBps: body.hostShareBps,
+        note: body.note,
+        at: now,
+      });
+      await saveSponsorshipDispute(redis, d);
+      return NextResponse.json({
+        success: true,
+        dispute: d,
+        tally: tallyPanel(d),
+      });
+    }
+
+    if (action === "rule") {
+      ruleByAdmin(d, {
+        admin: auth.address!,
+        hostShareBps: body.hostShareBps,
+        reason: body.reason,
+        at: now,
+      });
+      await saveSponsorshipDispute(redis, d);
+      console.log(
+        `[SponsorshipDisputes] ${d.id} ruled by ${auth.address}: ${d.outcome!.hostShareBps}bps to host`,
+      );
+      return NextResponse.json({ success: true, dispute: d });
+    }
+
+    // settle
+    const release = shouldReleaseFunds(sponsorship, d);
+    if (release.locked || d.status !== "resolved") {
+      return fail("The dispute has not been decided", 409);
+    }
+    if (!WMON_ADDRESS) return fail("WMON not configured", 500);
+    if (!sponsorship.sponsorAddress || !sponsorship.hostAddress) {
+      return fail("Sponsorship is missing a party address", 409);
+    }
+
+    const { hostWei, sponsorWei } = splitPayout(
+      sponsorship.amount,
+      sponsorship.platformFee,
+      release.hostShareBps,
+    );
+    const calls: Array<{ to: Address; value: bigint; data: Hex }> = [];
+    for (const [to, amount] of [
+      [sponsorship.hostAddress, hostWei],
+      [sponsorship.sponsorAddress, sponsorWei],
+    ] as const) {
+      if (BigInt(amount) === 0n) continue;
+      calls.push({
+        to: WMON_ADDRESS,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ERC20ABI,
+          functionName: "transfer",
+          args: [to as Address, BigInt(amount)],
+        }),
+      });
+    }
+    const txHash = calls.length ? await sendSafeTransaction(calls) : null;
+
+    settleDispute(d, {
+      by: auth.address!,
+      at: now,
+      hostWei,
+      sponsorWei,
+      txHash,
+    });
+    sponsorship.status = release.hostShareBps > 0 ? "completed" : "refunded";
+    sponsorship.resolvedAt = now;
+    sponsorship.releaseTxHash = txHash;
+    await saveSponsorshipDispute(redis, d);
+    await saveSponsorship(sponsorship);
+
+    console.log(
+      `[SponsorshipDisputes] ${d.id} settled by ${auth.address}: ${hostWei} to host, ${sponsorWei} to sponsor (${txHash})`,
+    );
+    return NextResponse.json({ success: true, dispute: d, sponsorship });
+  } catch (error: any) {
+    if (error instanceof SponsorshipDisputeError) {
+      return fail(error.message, error.status);
+    }
+    console.error("[SponsorshipDisputes] admin POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createPublicClient, http, parseAbi, formatEther, type Address } from 'viem';
+import { redis } from '@/lib/redis';
+import { loadTrackPlays } from '@/lib/earnings-statement';
+import { claimHolds, listHoldingDisputes } from '@/lib/rights-dispute';
 
 const MUSIC_SUBSCRIPTION = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION as Address;
 const MONAD_RPC = process.env.NEXT_PUBLIC_MONAD_RPC || 'https://rpc.monad.xyz';
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || '';
 
 const SUBSCRIPTION_ABI = parseAbi([
   'function getCurrentMonthStats() external view returns (uint256 monthId, uint256 totalRevenue, uint256 totalPlays, bool finalized)',
@@ -64,7 +68,10 @@ export async function GET(req: NextRequest) {
       monthId: number;
       playCount: number;
       estimatedPayout: string;
+      payoutWei: string;
       toursClaimed: boolean;
+      /** Set while a rights dispute holds this month out of the claim button. Advisory only. */
+      held?: { heldAmount: string; masters: string[]; disputeIds: string[] };
     }[] = [];
 
     const checkPromises = [];
@@ -117,6 +124,7 @@ export async function GET(req: NextRequest) {
                 monthId,
                 playCount,
                 estimatedPayout: formatEther(estimatedPayout),
+                payoutWei: estimatedPayout.toString(),
                 toursClaimed,
               });
             }
@@ -132,14 +140,39 @@ export async function GET(req: NextRequest) {
     // Sort by month ID descending
     unclaimedMonths.sort((a, b) => b.monthId - a.monthId);
 
-    const totalUnclaimed = unclaimedMonths.reduce(
-      (sum, m) => sum + parseFloat(m.estimatedPayout), 0
-    );
+    // Rights disputes hold the whole month's claim (the contract pays a month at once) for
+    // every month the disputed masters earned in. See lib/rights-dispute.ts.
+    const holding = unclaimedMonths.length > 0 && ENVIO_ENDPOINT
+      ? await listHoldingDisputes(redis, artistAddress)
+      : [];
+    if (holding.length > 0) {
+      const masters = [...new Set(holding.map(d => d.tokenId))];
+      const trackPlays: Record<number, Record<string, number>> = {};
+      for (const m of unclaimedMonths) {
+        trackPlays[m.monthId] = await loadTrackPlays(masters, m.monthId, ENVIO_ENDPOINT);
+      }
+      for (const hold of claimHolds(unclaimedMonths, trackPlays, holding)) {
+        const month = unclaimedMonths.find(m => m.monthId === hold.monthId)!;
+        month.held = {
+          heldAmount: formatEther(BigInt(hold.heldWei)),
+          masters: hold.masters,
+          disputeIds: hold.disputeIds,
+        };
+      }
+    }
+
+    const totalUnclaimed = unclaimedMonths
+      .filter(m => !m.held)
+      .reduce((sum, m) => sum + parseFloat(m.estimatedPayout), 0);
+    const totalHeld = unclaimedMonths
+      .filter(m => m.held)
+      .reduce((sum, m) => sum + parseFloat(m.estimatedPayout), 0);
 
     return NextResponse.json({
       currentMonthId,
       unclaimedMonths,
       totalUnclaimed: totalUnclaimed.toFixed(6),
+      totalHeld: totalHeld.toFixed(6),
       toursEligible,
       masterCount,
       lifetimePlays,
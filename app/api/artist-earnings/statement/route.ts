@@ -0,0 +1,371 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPublicClient, formatEther, http, type Address } from "viem";
+
+import { activeChain } from "@/app/chains";
+import {
+  buildStatement,
+  loadStatementSources,
+  monthIdAt,
+  statementToCsv,
+  type EarningsStatement,
+} from "@/lib/earnings-statement";
+
+export const dynamic = "force-dynamic";
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || "";
+const MUSIC_SUBSCRIPTION = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION as
+  | Address
+  | undefined;
+const MONAD_RPC = process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
+
+/**
+ * GET /api/artist-earnings/statement?address=0x…&month=<monthId>&format=json|csv|pdf
+ *
+ * One artist's earnings for one subscription month (see lib/earnings-statement.ts).
+ * `month` defaults to the last complete month. Statements are public, like the
+ * on-chain data they are built from.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const address = searchParams.get("address") || "";
+    const format = searchParams.get("format") || "json";
+    const currentMonth = monthIdAt(Math.floor(Date.now() / 1000));
+    const monthParam = searchParams.get("month");
+    const monthId = monthParam === null ? currentMonth - 1 : Number(monthParam);
+
+    if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      return NextResponse.json(
+        { error: "address parameter required" },
+        { status: 400 },
+      );
+    }
+    if (!Number.isInteger(monthId) || monthId < 0 || monthId > currentMonth) {
+      return NextResponse.json({ error: "Invalid month" }, { status: 400 });
+    }
+    if (format !== "json" && format !== "csv" && format !== "pdf") {
+      return NextResponse.json(
+        { error: "format must be json, csv or pdf" },
+        { status: 400 },
+      );
+    }
+    if (!ENVIO_ENDPOINT) {
+      return NextResponse.json(
+        { error: "Indexer not configured" },
+        { status: 503 },
+      );
+    }
+
+    const client = createPublicClient({
+      chain: activeChain,
+      transport: http(MONAD_RPC),
+    });
+    const sources = await loadStatementSources(address, monthId, {
+      envioEndpoint: ENVIO_ENDPOINT,
+      client,
+      subscription: MUSIC_SUBSCRIPTION,
+    });
+    const statement = buildStatement(sources);
+
+    if (!statement.reconciliation.ok) {
+      console.warn(
+        `[EarningsStatement] ${statement.artist} month ${monthId} does not reconcile:`,
+        statement.reconciliation.checks.filter((c) => !c.ok).map((c) => c.name),
+      );
+    }
+
+    const filename = `empowertours-statement-${statement.artist.slice(0, 10)}-month-${monthId}`;
+
+    if (format === "csv") {
+      return new NextResponse(statementToCsv(statement), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    if (format === "pdf") {
+      const pdfBuffer = await generatePDFBuffer(statement);
+      return new NextResponse(pdfBuffer, {
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, statement });
+  } catch (error: any) {
+    console.error("[EarningsStatement] Error:", error?.message);
+    return NextResponse.json(
+      { error: error?.message || "Statement generation failed" },
+      { status: 500 },
+    );
+  }
+}
+
+const wmon = (wei: string) =>
+  `${Number(formatEther(BigInt(wei))).toFixed(4)} WMON`;
+const tours = (wei: string) =>
+  `${Number(formatEther(BigInt(wei))).toFixed(2)} TOURS`;
+const day = (at: number) => new Date(at * 1000).toISOString().slice(0, 10);
+const shortHash = (hash: string | null) =>
+  hash ? `${hash.slice(0, 10)}…${hash.slice(-6)}` : "—";
+
+/** Same pdfkit-without-React approach as /api/epk/pdf, laid out for printing. */
+async function generatePDFBuffer(
+  statement: EarningsStatement,
+): Promise<Buffer> {
+  const { default: PDFDocument } = await import("@react-pdf/pdfkit" as any);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      margin: 40,
+      size: "A4",
+      autoFirstPage: true,
+      bufferPages: true, // page numbers are stamped once the page count is known
+      info: {
+        Title: `Earnings statement — month ${statement.monthId}`,
+        Author: "EmpowerTours",
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    const PURPLE = "#7c3aed";
+    const INK = "#111827";
+    const MUTED = "#6b7280";
+    const RED = "#dc2626";
+    const GREEN = "#16a34a";
+    const W = doc.page.width - 80;
+    const BOTTOM = doc.page.height - 60;
+
+    const ensure = (height: number) => {
+      if (doc.y + height > BOTTOM) doc.addPage();
+    };
+    const heading = (text: string) => {
+      ensure(40);
+      doc.moveDown(0.8);
+      doc
+        .fillColor(PURPLE)
+        .fontSize(10)
+        .font("Helvetica-Bold")
+        .text(text, 40, doc.y, { characterSpacing: 0.5 });
+      doc
+        .moveTo(40, doc.y + 2)
+        .lineTo(40 + W, doc.y + 2)
+        .strokeColor(PURPLE)
+        .lineWidth(0.4)
+        .stroke();
+      doc.moveDown(0.4);
+    };
+    /** One row of fixed-width columns; widths are fractions of the page width. */
+    const row = (
+      cells: string[],
+      widths: number[],
+      opts: {
+        bold?: boolean;
+        color?: string;
+        align?: ("left" | "right")[];
+      } = {},
+    ) => {
+      ensure(14);
+      const y = doc.y;
+      let x = 40;
+      let bottom = y;
+      cells.forEach((cell, i) => {
+        const width = widths[i] * W;
+        doc
+          .fillColor(opts.color || INK)
+          .fontSize(8)
+          .font(opts.bold ? "Helvetica-Bold" : "Helvetica")
+          .text(cell, x, y, {
+            width: width - 4,
+            align: opts.align?.[i] || "left",
+          });
+        bottom = Math.max(bottom, doc.y);
+        x += width;
+      });
+      doc.y = bottom + 2;
+    };
+
+    // ── Header ────────────────────────────────────────────────────────────
+    doc
+      .fillColor(INK)
+      .fontSize(20)
+      .font("Helvetica-Bold")
+      .text("Artist Earnings Statement", 40, 40);
+    doc
+      .fillColor(MUTED)
+      .fontSize(9)
+      .font("Helvetica")
+      .text(`Artist wallet: ${statement.artist}`, 40, doc.y + 4)
+      .text(
+        `Subscription month ${statement.monthId}: ${statement.period.start.slice(0, 10)} to ${statement.period.end.slice(0, 10)} (UTC, end exclusive)`,
+      )
+      .text(`Generated ${statement.generatedAt}`);
+
+    // ── Summary ───────────────────────────────────────────────────────────
+    const t = statement.totals;
+    const pool = statement.artistPool;
+    heading("SUMMARY");
+    const sw = [0.55, 0.45];
+    const right: ("left" | "right")[] = ["left", "right"];
+    row(
+      [
+        `Artist pool share (${pool.status.replace("-", " ")})`,
+        wmon(t.artistPoolWei),
+      ],
+      sw,
+      { align: right },
+    );
+    row(["License sales (artist 90%)", wmon(t.licenseWei)], sw, {
+      align: right,
+    });
+    row(["Radio tips", wmon(t.tipsWei)], sw, { align: right });
+    row(["Total WMON", wmon(t.wmonWei)], sw, { bold: true, align: right });
+    row(["TOURS rewards", tours(t.toursWei)], sw, { align: right });
+    row(
+      [
+        "Plays (subscription / radio)",
+        `${t.subscriptionPlays} / ${t.radioPlays}`,
+      ],
+      sw,
+      { align: right },
+    );
+
+    // ── Artist pool ───────────────────────────────────────────────────────
+    heading("ARTIST POOL");
+    if (pool.status === "not-finalized") {
+      row(["This month has not been finalized on-chain yet."], [1], {
+        color: MUTED,
+      });
+    } else {
+      row(
+        [
+          `${pool.artistPlays} of ${pool.totalPlays} plays × pool ${wmon(pool.artistPoolWei || "0")}`,
+          wmon(pool.shareWei),
+        ],
+        sw,
+        { align: right },
+      );
+      row([`Finalize tx: ${pool.finalizeTxHash || "—"}`], [1], {
+        color: MUTED,
+      });
+      row([`Claim tx: ${pool.claimTxHash || "not claimed yet"}`], [1], {
+        color: MUTED,
+      });
+    }
+
+    // ── Tracks ────────────────────────────────────────────────────────────
+    heading("PLAYS AND SALES BY TRACK");
+    const tw = [0.08, 0.32, 0.12, 0.1, 0.1, 0.14, 0.14];
+    const tAlign: ("left" | "right")[] = [
+      "left",
+      "left",
+      "right",
+      "right",
+      "right",
+      "right",
+      "right",
+    ];
+    row(
+      [
+        "ID",
+        "Track",
+        "Subscription",
+        "Radio",
+        "Licenses",
+        "License WMON",
+        "Tips WMON",
+      ],
+      tw,
+      { bold: true, color: MUTED, align: tAlign },
+    );
+    if (!statement.tracks.length) {
+      row(["No plays or sales this month."], [1], { color: MUTED });
+    }
+    for (const track of statement.tracks) {
+      row(
+        [
+          `#${track.masterTokenId}`,
+          track.name,
+          String(track.subscriptionPlays),
+          String(track.radioPlays),
+          String(track.licensesSold),
+          Number(formatEther(BigInt(track.licenseWei))).toFixed(4),
+          Number(formatEther(BigInt(track.tipsWei))).toFixed(4),
+        ],
+        tw,
+        { align: tAlign },
+      );
+    }
+
+    // ── Ledger ────────────────────────────────────────────────────────────
+    heading("PAYMENTS");
+    const lw = [0.12, 0.44, 0.2, 0.24];
+    const lAlign: ("left" | "right")[] = ["left", "left", "right", "left"];
+    row(["Date", "Description", "Amount", "Transaction"], lw, {
+      bold: true,
+      color: MUTED,
+      align: lAlign,
+    });
+    if (!statement.lines.length) {
+      row(["No payments this month."], [1], { color: MUTED });
+    }
+    for (const line of statement.lines) {
+      row(
+        [
+          day(line.at),
+          line.description,
+          line.kind === "tours-reward"
+            ? tours(line.amountWei)
+            : wmon(line.amountWei),
+          shortHash(line.txHash),
+        ],
+        lw,
+        { align: lAlign },
+      );
+    }
+
+    // ── Reconciliation ────────────────────────────────────────────────────
+    heading("RECONCILIATION WITH ON-CHAIN RECORDS");
+    if (!statement.reconciliation.checks.length) {
+      row(["No on-chain records to reconcile against."], [1], { color: MUTED });
+    }
+    for (const c of statement.reconciliation.checks) {
+      row(
+        [
+          c.ok ? "OK" : "MISMATCH",
+          c.ok
+            ? c.name
+            : `${c.name} — chain ${c.expected}, indexed ${c.actual}`,
+        ],
+        [0.14, 0.86],
+        { color: c.ok ? GREEN : RED },
+      );
+    }
+
+    // ── Footer on every page ──────────────────────────────────────────────
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0; // writing inside the margin would otherwise add a page
+      doc
+        .fillColor(MUTED)
+        .fontSize(7.5)
+        .font("Helvetica")
+        .text(
+          `EmpowerTours on Monad · Earnings statement, month ${statement.monthId} · Page ${i + 1} of ${range.count}`,
+          40,
+          doc.page.height - 40,
+          { align: "center", width: W, lineBreak: false },
+        );
+    }
+
+    doc.flushPages(); // required when bufferPages: true
+    doc.end();
+  });
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import { clipUrl } from "@/lib/beat-match-authoring";
+import {
+  BeatMatchError,
+  dayKey,
+  getChallenge,
+  parseDay,
+  publicChallenge,
+} from "@/lib/beat-match";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The Beat Match challenge players see.
+ *
+ *   GET /api/beat-match              today's challenge
+ *   GET /api/beat-match?day=…        a past day's, with the answer once it is finalized
+ *
+ * A challenge appears once the keeper has found it on-chain; until then, and for any day still
+ * ahead, `challenge` is null, so the clip cannot be heard early. Guesses go through
+ * execute-delegated's `beat_match_submit_guess` with the `challengeId` returned here.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const today = dayKey(Date.now());
+    const dayParam = req.nextUrl.searchParams.get("day");
+    const day = dayParam ? parseDay(dayParam) : today;
+    if (day > today) return NextResponse.json({ success: true, challenge: null });
+
+    const c = await getChallenge(redis, day);
+    const visible =
+      c && c.status !== "scheduled" && c.status !== "cancelled" && c.challengeId;
+    return NextResponse.json({
+      success: true,
+      challenge: visible ? publicChallenge(c, clipUrl(c.clip.cid)) : null,
+    });
+  } catch (error: any) {
+    if (error instanceof BeatMatchError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status },
+      );
+    }
+    console.error("[BeatMatch] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { NeynarAPIClient } from "@neynar/nodejs-sdk";
+import { formatEther } from 'viem';
 
 const APP_URL = process.env.NEXT_PUBLIC_URL || 'https://fcempowertours-production-6551.up.railway.app';
 const NEYNAR_API_KEY = (process.env.NEYNAR_API_KEY || process.env.NEXT_PUBLIC_NEYNAR_API_KEY) || '';
 const BOT_SIGNER_UUID = process.env.BOT_SIGNER_UUID || '';
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
 
 export async function POST(req: NextRequest) {
   try {
     const {
-      type,           // 'passport' | 'music_mint' | 'music_purchase' | 'experience_created' | 'experience_purchased' | 'play_recorded' | 'top_artist' | 'radio_skip_random' | 'voice_note'
+      type,           // 'passport' | 'music_mint' | 'music_purchase' | 'experience_created' | 'experience_purchased' | 'play_recorded' | 'top_artist' | 'radio_skip_random' | 'voice_note' | 'beat_match_result'
       fid,            // Farcaster ID
       tokenId,        // NFT token ID
       txHash,         // Transaction hash
@@ -25,14 +27,22 @@ export async function POST(req: NextRequest) {
       creatorAddress, // Experience creator
       buyerAddress,   // Experience buyer
       // Play recording / Top artist fields
-      params,         // Additional params object for play_recorded and top_artist
+      params,         // Additional params object for play_recorded, top_artist and beat_match_result
       // Radio skip random fields
       userAddress,    // User's wallet address
     } = await req.json();
 
     console.log('🎵 [CAST] Posting cast:', { type, fid, tokenId, countryCode, songTitle });
 
-    if (!fid) {
+    // Beat Match results are the platform's own announcement, not cast on anyone's behalf, so
+    // only the keeper may post them
+    if (type === 'beat_match_result') {
+      const cronSecret = req.headers.get('x-cron-secret');
+      const authHeader = req.headers.get('authorization');
+      if (!CRON_SECRET || (cronSecret !== CRON_SECRET && authHeader !== `Bearer ${CRON_SECRET}`)) {
+        return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+      }
+    } else if (!fid) {
       console.log('ℹ️ No FID provided, skipping cast');
       return NextResponse.json({ success: true, message: 'No FID provided' });
     }
@@ -329,6 +339,34 @@ TX: https://monadscan.com/tx/${txHash}
       console.log('📢 Radio skip random cast text:', castText);
     }
 
+    // ==================== BEAT MATCH RESULTS CAST ====================
+    else if (type === 'beat_match_result') {
+      const { challengeId, artistUsername, winner, winnerUsername, rewardAmount, totalGuesses, correctGuesses } = params || {};
+      const reward = /^\d+$/.test(String(rewardAmount ?? '')) ? BigInt(String(rewardAmount)) : 0n;
+      // The answer's own music frame, so the reveal is one tap from the full track
+      const songUrl = `${APP_URL}/api/frames/music/${tokenId}`;
+
+      const winnerLine = winner
+        ? `🏆 Winner: ${winnerUsername ? `@${winnerUsername}` : `${winner.slice(0, 6)}...${winner.slice(-4)}`}${reward > 0n ? ` takes ${formatEther(reward)} in rewards` : ''}`
+        : '🤷 Nobody named it this time - the pot rolls on!';
+
+      castText = `🎧 Beat Match #${challengeId} results on @empowertours!
+
+The song was "${songTitle}" by @${artistUsername}
+
+${winnerLine}
+🎯 ${correctGuesses || 0} of ${totalGuesses || 0} guesses were right
+
+🎶 A new clip drops every day - think you can name it?
+
+TX: https://monadscan.com/tx/${txHash}
+
+@empowertours`;
+
+      embeds = [{ url: songUrl }];
+      console.log('📢 Beat Match result cast text:', castText);
+    }
+
     if (!castText) {
       return NextResponse.json(
         { success: false, error: `Unknown cast type: ${type}` },
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import {
+  ARTISTS_PER_WEEK,
+  CountryCollectorError,
+  completionField,
+  getCompletionLedger,
+  getStamped,
+  getWeek,
+  parseWeek,
+  publicWeek,
+  weekKey,
+} from "@/lib/country-collector";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * The Country Collector week players see.
+ *
+ *   GET /api/country-collector                       this week's challenge
+ *   GET /api/country-collector?week=…                another week's, by its Monday
+ *   GET /api/country-collector?address=0x…           with that player's progress
+ *
+ * `challenge` is null until the keeper has created the week on-chain and knows its weekId.
+ * Progress lists the artists the keeper has completed for the player's plays. Completions sent
+ * through execute-delegated's `country_collector_complete` are on-chain (`ArtistCompletion`) and
+ * count toward the stamp, but are not listed here.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const weekParam = req.nextUrl.searchParams.get("week");
+    const week = weekParam ? parseWeek(weekParam) : weekKey(Date.now());
+    const address = req.nextUrl.searchParams.get("address")?.toLowerCase();
+    if (address && !/^0x[a-f0-9]{40}$/.test(address)) {
+      throw new CountryCollectorError("Invalid address", 400);
+    }
+
+    const c = await getWeek(redis, week);
+    if (!c || !c.weekId || c.status === "skipped") {
+      return NextResponse.json({ success: true, challenge: null });
+    }
+
+    let progress: Record<string, unknown> | undefined;
+    if (address) {
+      const [ledger, stamped] = await Promise.all([
+        getCompletionLedger(redis, week),
+        getStamped(redis, week),
+      ]);
+      const completed = [...Array(ARTISTS_PER_WEEK).keys()].filter(
+        (i) => completionField(address, i) in ledger,
+      );
+      progress = {
+        completedArtists: completed,
+        stampedPassport: stamped[address] ?? null,
+      };
+    }
+
+    return NextResponse.json({
+      success: true,
+      challenge: publicWeek(c),
+      ...(progress ? { progress } : {}),
+    });
+  } catch (error: any) {
+    if (error instanceof CountryCollectorError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: error.status },
+      );
+    }
+    console.error("[CountryCollector] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,215 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import {
+  castResult,
+  findIndexedChallenge,
+  loadEligibility,
+  loadResult,
+  loadTracks,
+  prepareClip,
+  secureRandom,
+} from "@/lib/beat-match-authoring";
+import {
+  BEAT_MATCH_KEYS,
+  buildChallenge,
+  cancelChallenge,
+  claimBeatMatchDay,
+  dayKey,
+  eligibleTracks,
+  getChallenge,
+  getChallenges,
+  nextStep,
+  pickTrack,
+  releaseBeatMatchDay,
+  saveChallenge,
+  type BeatMatchChallengeRecord,
+} from "@/lib/beat-match";
+
+/**
+ * Beat Match Keeper
+ *
+ * Runs the daily challenge (lib/beat-match.ts). If nobody scheduled today it picks an eligible
+ * track at random and cuts its clip; then, for every day with work due, it picks up the
+ * challengeId once the contract owner's challenge is indexed, records the winner once it is
+ * finalized, and casts the results. It sends no transactions. Each step waits for the indexer, so
+ * a run that finds it behind simply leaves the rest to the next run.
+ *
+ * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to report what is due without scheduling or casting
+ */
+
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
+
+export const maxDuration = 120;
+
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+type Step = NonNullable<ReturnType<typeof nextStep>>;
+
+/** Performs `step` on `c`; false when it is waiting on the indexer. */
+async function run(
+  c: BeatMatchChallengeRecord,
+  step: Step,
+  now: number,
+): Promise<boolean> {
+  switch (step) {
+    case "resolve": {
+      const indexed = await findIndexedChallenge(c.clip.cid);
+      if (!indexed) {
+        if (now < c.endTime * 1000) return false;
+        cancelChallenge(
+          c,
+          "keeper",
+          "The day ended before it was created on-chain",
+          now,
+        );
+        return true;
+      }
+      c.challengeId = indexed.challengeId;
+      c.createTx = indexed.txHash;
+      c.status = "created";
+      return true;
+    }
+    case "record": {
+      const result = await loadResult(c.clip.cid);
+      if (!result) return false;
+      c.result = result;
+      c.status = "finalized";
+      return true;
+    }
+    case "publish": {
+      const castHash = await castResult(c);
+      if (castHash === null) throw new Error("Results cast did not go out");
+      if (castHash) c.castHash = castHash;
+      c.status = "published";
+      return true;
+    }
+  }
+}
+
+async function handle(req: NextRequest) {
+  const cronSecret = req.headers.get("x-cron-secret");
+  const authHeader = req.headers.get("authorization");
+  const authorized =
+    !!CRON_SECRET &&
+    (cronSecret === CRON_SECRET || authHeader === `Bearer ${CRON_SECRET}`);
+
+  if (!authorized) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+  const now = Date.now();
+  const today = dayKey(now);
+
+  try {
+    let scheduled: string | null = null;
+    let scheduleError: string | undefined;
+    const existing = await getChallenge(redis, today);
+    if (
+      (!existing || existing.status === "cancelled") &&
+      !dryRun &&
+      (await claimBeatMatchDay(redis, today))
+    ) {
+      try {
+        const [tracks, eligibility] = await Promise.all([
+          loadTracks(),
+          loadEligibility(redis),
+        ]);
+        const track = pickTrack(
+          eligibleTracks(tracks, today, eligibility).eligible,
+          secureRandom,
+        );
+        if (track) {
+          const clip = await prepareClip(track, tracks);
+          await saveChallenge(
+            redis,
+            buildChallenge(today, track, clip, "keeper", now),
+          );
+          scheduled = today;
+        } else {
+          scheduleError = `No eligible tracks for ${today}`;
+        }
+      } catch (err: any) {
+        // A track that cannot be clipped must not hold up finalizing yesterday
+        scheduleError = err.message || String(err);
+      } finally {
+        await releaseBeatMatchDay(redis, today);
+      }
+    }
+
+    const days = (
+      await redis.zrange<string[]>(BEAT_MATCH_KEYS.open, 0, now, {
+        byScore: true,
+      })
+    ).map(String);
+    const due = (await getChallenges(redis, days)).filter((c) =>
+      nextStep(c, now),
+    );
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun,
+        unscheduled: !existing || existing.status === "cancelled",
+        due: due.map((c) => ({ day: c.day, step: nextStep(c, now) })),
+      });
+    }
+
+    const results: { day: string; steps: Step[]; error?: string }[] = [];
+    for (const c of due) {
+      if (!(await claimBeatMatchDay(redis, c.day))) continue;
+      const steps: Step[] = [];
+      try {
+        // Three steps at most: resolve → record → publish when the indexer is already caught up
+        for (let step = nextStep(c, now); step && steps.length < 3; ) {
+          if (!(await run(c, step, now))) break;
+          steps.push(step);
+          c.error = undefined;
+          await saveChallenge(redis, c);
+          step = nextStep(c, now);
+        }
+        results.push({ day: c.day, steps });
+      } catch (err: any) {
+        console.error(`[BeatMatchKeeper] ${c.day} failed:`, err);
+        c.error = err.message || String(err);
+        await saveChallenge(redis, c);
+        results.push({ day: c.day, steps, error: c.error });
+      } finally {
+        await releaseBeatMatchDay(redis, c.day);
+      }
+    }
+
+    if (scheduleError) {
+      console.error(
+        `[BeatMatchKeeper] Could not schedule ${today}:`,
+        scheduleError,
+      );
+    }
+    console.log(
+      `[BeatMatchKeeper] scheduled ${scheduled ?? "nothing"}; ${results
+        .map((r) => `${r.day}: ${r.steps.join(" → ") || r.error || "waiting"}`)
+        .join(", ")}`,
+    );
+    // A failed day fails the run, so the workflow goes red instead of a challenge stalling quietly
+    const failed = !!scheduleError || results.some((r) => r.error);
+    return NextResponse.json(
+      { success: !failed, dryRun, scheduled, scheduleError, results },
+      { status: failed ? 500 : 200 },
+    );
+  } catch (error: any) {
+    console.error("[BeatMatchKeeper] Run failed:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Beat Match run failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import { getPlaylists } from "@/lib/playlists";
+import {
+  HALF_LIFE_DAYS,
+  SIGNAL_WINDOW_HALF_LIVES,
+  buildModel,
+  buildTasteProfiles,
+  loadCatalogue,
+  loadChainSignals,
+  loadSkips,
+  playlistSignals,
+  saveRecommendations,
+  skipSignals,
+} from "@/lib/recommendations";
+
+/**
+ * Recommendations Keeper
+ *
+ * Rebuilds every listener's taste profile and the item-item similarity model
+ * (lib/recommendations.ts) from scratch: on-chain plays, queues, licenses and
+ * tips from Envio, paid skips and playlists from Redis. The read endpoint
+ * (/api/music/recommendations) and the radio's taste bias only ever look up
+ * what the last run stored, so a failed run leaves yesterday's model serving.
+ *
+ * Run it a few times a day; nothing here touches the chain.
+ *
+ * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to build and report without writing
+ */
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT;
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Every stored playlist. The owner index is per FID, so walk the keys. */
+async function loadAllPlaylistIds(): Promise<string[]> {
+  const ids: string[] = [];
+  let cursor = 0;
+  do {
+    const [next, keys] = await redis.scan(cursor, {
+      match: "playlist:pl_*",
+      count: 200,
+    });
+    cursor = typeof next === "string" ? parseInt(next) : next;
+    ids.push(...keys.map((k) => String(k).slice("playlist:".length)));
+  } while (cursor !== 0);
+  return ids;
+}
+
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+async function handle(req: NextRequest) {
+  const cronSecret = req.headers.get("x-cron-secret");
+  const authHeader = req.headers.get("authorization");
+  const authorized =
+    !!CRON_SECRET &&
+    (cronSecret === CRON_SECRET || authHeader === `Bearer ${CRON_SECRET}`);
+
+  if (!authorized) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (!ENVIO_ENDPOINT) {
+    console.error("[RecsKeeper] Missing NEXT_PUBLIC_ENVIO_ENDPOINT");
+    return NextResponse.json(
+      { success: false, error: "Server configuration error" },
+      { status: 500 },
+    );
+  }
+
+  const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+  const now = Date.now();
+  const since = now - SIGNAL_WINDOW_HALF_LIVES * HALF_LIFE_DAYS * DAY_MS;
+
+  try {
+    const [catalogue, chain, skips, playlists] = await Promise.all([
+      loadCatalogue(ENVIO_ENDPOINT),
+      loadChainSignals(ENVIO_ENDPOINT, since),
+      loadSkips(redis),
+      loadAllPlaylistIds().then((ids) => getPlaylists(redis, ids)),
+    ]);
+
+    const signals = [
+      ...chain.signals,
+      ...skipSignals(skips),
+      ...playlistSignals(playlists, chain.fidAddresses),
+    ].filter((s) => s.at >= since);
+
+    const profiles = buildTasteProfiles(signals, catalogue, now);
+    const model = buildModel(profiles, catalogue, now);
+    const withNeighbours = Object.values(model.tracks).filter(
+      (t) => t.neighbours.length > 0,
+    ).length;
+
+    if (!dryRun) await saveRecommendations(redis, profiles, model);
+
+    console.log(
+      `[RecsKeeper] ${dryRun ? "Dry run: " : ""}${signals.length} signals, ` +
+        `${model.listeners} profiles, ${withNeighbours}/${catalogue.length} tracks with neighbours`,
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      signals: signals.length,
+      bySource: {
+        chain: chain.signals.length,
+        skips: skips.length,
+        playlists: playlists.length,
+      },
+      listeners: model.listeners,
+      tracks: catalogue.length,
+      tracksWithNeighbours: withNeighbours,
+    });
+  } catch (error: any) {
+    console.error("[RecsKeeper] Build failed:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Build failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,376 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendSafeTransaction } from "@/lib/pimlico-safe-aa";
+import { redis } from "@/lib/redis";
+import { secureRandom } from "@/lib/beat-match-authoring";
+import { ALL_COUNTRIES, getCountryByCode } from "@/lib/passport/countries";
+import { storeCollectorStamp } from "@/lib/stamp-images";
+import {
+  COUNTRY_COLLECTOR_V2,
+  completeCall,
+  findIndexedWeek,
+  loadArtistLocations,
+  loadClearedTracks,
+  loadExcludedPlayers,
+  loadIndexedCompletions,
+  loadPassports,
+  loadPlays,
+} from "@/lib/country-collector-authoring";
+import {
+  COUNTRY_COLLECTOR_KEYS,
+  MAX_COMPLETIONS_PER_RUN,
+  artistCountries,
+  buildWeek,
+  claimCollectorWeek,
+  completionField,
+  completionsDue,
+  createParams,
+  eligibleArtists,
+  getCollectorUsage,
+  getCompletionLedger,
+  getStamped,
+  getWeek,
+  getWeeks,
+  holdersByCountry,
+  nextStep,
+  pickArtists,
+  pickCountry,
+  recordCompletions,
+  recordStamp,
+  releaseCollectorWeek,
+  saveWeek,
+  skipWeek,
+  stampPassport,
+  stampsDue,
+  weekKey,
+  type CollectorCompletion,
+  type CollectorWeekRecord,
+} from "@/lib/country-collector";
+
+/**
+ * Country Collector Keeper
+ *
+ * Runs the weekly challenge (lib/country-collector.ts). On the first run of a week it draws the
+ * country from passport holders and three cleared artists from it. Until the contract's owner has
+ * created the week on CountryCollectorV2 and it is indexed, every run reports what to create it
+ * with (`awaiting`). Once the indexer has the weekId, every run completes artists from the Platform
+ * Safe for listeners whose plays of them are indexed, and stamps the passports of everyone who has
+ * all three. Completions stop when the week ends; stamps carry on until the week closes.
+ *
+ * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to report what is due without drawing, sending or stamping
+ */
+
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
+
+export const maxDuration = 120;
+
+/** Completions retried one at a time when their batch reverts, so one bad entry cannot stall the rest. */
+const MAX_SINGLE_RETRIES = 5;
+
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+type Step = NonNullable<ReturnType<typeof nextStep>>;
+
+/** Draws `week`'s country and artists; a reason when nothing can be drawn. */
+async function draw(
+  week: string,
+  now: number,
+): Promise<CollectorWeekRecord | string> {
+  const [passports, tracks, usage] = await Promise.all([
+    loadPassports(),
+    loadClearedTracks(redis),
+    getCollectorUsage(redis),
+  ]);
+  const byArtist = eligibleArtists(tracks, week, usage);
+  const artists = [...byArtist.keys()];
+  const countryOf = artistCountries(
+    artists,
+    await loadArtistLocations(artists),
+    passports,
+    ALL_COUNTRIES,
+  );
+  const perCountry: Record<string, number> = {};
+  for (const code of Object.values(countryOf)) {
+    perCountry[code] = (perCountry[code] || 0) + 1;
+  }
+
+  const holders = holdersByCountry(passports);
+  const pick = pickCountry(holders, perCountry, week, usage, secureRandom);
+  if (!pick) return `No passport country has three eligible artists`;
+
+  const fromCountry = new Map(
+    [...byArtist].filter(([artist]) => countryOf[artist] === pick.countryCode),
+  );
+  const chosen = pickArtists(fromCountry, secureRandom);
+  if (!chosen) return `Too few eligible artists in ${pick.countryCode}`;
+  return buildWeek(
+    week,
+    getCountryByCode(pick.countryCode)!,
+    holders[pick.countryCode],
+    chosen,
+    pick.cooldownWaived,
+    now,
+  );
+}
+
+/** Sends `due`; what went through, and the tx each went in. */
+async function sendCompletions(
+  weekId: string,
+  due: CollectorCompletion[],
+): Promise<{ sent: CollectorCompletion[]; txHash: string }[]> {
+  try {
+    const txHash = await sendSafeTransaction(
+      due.map((x) => completeCall(weekId, x)),
+    );
+    return [{ sent: due, txHash }];
+  } catch (err) {
+    if (due.length === 1) throw err;
+    console.error(
+      "[CountryCollectorKeeper] Batch reverted, retrying singly:",
+      err,
+    );
+  }
+  const results: { sent: CollectorCompletion[]; txHash: string }[] = [];
+  for (const x of due.slice(0, MAX_SINGLE_RETRIES)) {
+    try {
+      results.push({
+        sent: [x],
+        txHash: await sendSafeTransaction([completeCall(weekId, x)]),
+      });
+    } catch (err: any) {
+      console.error(
+        `[CountryCollectorKeeper] ${x.player} #${x.artistIndex} not completed:`,
+        err.message || err,
+      );
+    }
+  }
+  if (results.length === 0) throw new Error("No completion went through");
+  return results;
+}
+
+/** Completes what the week's plays have earned, then stamps whoever has all three. */
+async function sync(c: CollectorWeekRecord, now: number): Promise<void> {
+  const [ledger, indexed, stamped] = await Promise.all([
+    getCompletionLedger(redis, c.week),
+    loadIndexedCompletions(c.weekId!),
+    getStamped(redis, c.week),
+  ]);
+  const done = new Set([
+    ...Object.keys(ledger),
+    ...indexed.map((x) => completionField(x.player, x.artistIndex)),
+  ]);
+
+  // The contract closes the week at endTime; plays indexed late no longer count
+  if (now < c.endTime * 1000) {
+    const [plays, excluded] = await Promise.all([
+      loadPlays(c),
+      loadExcludedPlayers(redis),
+    ]);
+    const due = completionsDue(c, plays, done, excluded).slice(
+      0,
+      MAX_COMPLETIONS_PER_RUN,
+    );
+    if (due.length > 0) {
+      for (const { sent, txHash } of await sendCompletions(c.weekId!, due)) {
+        await recordCompletions(redis, c.week, sent, txHash);
+        c.completionsSent += sent.length;
+        for (const x of sent)
+          done.add(completionField(x.player, x.artistIndex));
+      }
+    }
+  }
+
+  const players = stampsDue(done, new Set(Object.keys(stamped)));
+  if (players.length === 0) return;
+  const passports = await loadPassports(players);
+  for (const player of players) {
+    // No passport yet: tried again every run until the week closes
+    const passport = stampPassport(passports, player, c.countryCode);
+    if (!passport) continue;
+    const stored = await storeCollectorStamp(BigInt(passport.tokenId), {
+      week: c.week,
+      countryCode: c.countryCode,
+      countryName: c.country,
+      stampedAt: Math.floor(now / 1000),
+    });
+    if (
+      stored &&
+      (await recordStamp(redis, c.week, player, passport.tokenId))
+    ) {
+      c.stampsAwarded++;
+    }
+  }
+}
+
+/** Performs `step` on `c`; false when it is waiting on the indexer. */
+async function run(
+  c: CollectorWeekRecord,
+  step: Step,
+  now: number,
+): Promise<boolean> {
+  switch (step) {
+    case "resolve": {
+      const weekId = await findIndexedWeek(c);
+      if (!weekId) {
+        if (now < c.endTime * 1000) return false;
+        skipWeek(c, "The week ended before it was created on-chain", now);
+        return true;
+      }
+      c.weekId = weekId;
+      c.status = "created";
+      return true;
+    }
+    case "sync":
+      await sync(c, now);
+      return true;
+    case "close":
+      await sync(c, now);
+      c.status = "closed";
+      return true;
+  }
+}
+
+async function handle(req: NextRequest) {
+  const cronSecret = req.headers.get("x-cron-secret");
+  const authHeader = req.headers.get("authorization");
+  const authorized =
+    !!CRON_SECRET &&
+    (cronSecret === CRON_SECRET || authHeader === `Bearer ${CRON_SECRET}`);
+
+  if (!authorized) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (!COUNTRY_COLLECTOR_V2) {
+    console.error(
+      "[CountryCollectorKeeper] Missing NEXT_PUBLIC_COUNTRY_COLLECTOR_V2",
+    );
+    return NextResponse.json(
+      { success: false, error: "Server configuration error" },
+      { status: 500 },
+    );
+  }
+
+  const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+  const now = Date.now();
+  const week = weekKey(now);
+
+  try {
+    let drawn: string | null = null;
+    let drawError: string | undefined;
+    const existing = await getWeek(redis, week);
+    if (!existing && !dryRun && (await claimCollectorWeek(redis, week))) {
+      try {
+        const result = await draw(week, now);
+        if (typeof result === "string") {
+          drawError = `${week}: ${result}`;
+        } else {
+          await saveWeek(redis, result);
+          drawn = `${week} ${result.countryCode}`;
+        }
+      } catch (err: any) {
+        // A failed draw must not hold up completions for last week's stragglers
+        drawError = err.message || String(err);
+      } finally {
+        await releaseCollectorWeek(redis, week);
+      }
+    }
+
+    const weeks = (
+      await redis.zrange<string[]>(COUNTRY_COLLECTOR_KEYS.open, 0, now, {
+        byScore: true,
+      })
+    ).map(String);
+    const due = (await getWeeks(redis, weeks)).filter((c) => nextStep(c, now));
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun,
+        undrawn: !existing,
+        due: due.map((c) => ({
+          week: c.week,
+          step: nextStep(c, now),
+          ...(c.status === "scheduled" ? { awaiting: createParams(c) } : {}),
+        })),
+      });
+    }
+
+    const results: {
+      week: string;
+      steps: Step[];
+      completionsSent: number;
+      stampsAwarded: number;
+      awaiting?: ReturnType<typeof createParams>;
+      error?: string;
+    }[] = [];
+    for (const c of due) {
+      if (!(await claimCollectorWeek(redis, c.week))) continue;
+      const steps: Step[] = [];
+      const before = {
+        completions: c.completionsSent,
+        stamps: c.stampsAwarded,
+      };
+      try {
+        // resolve → sync when the indexer is already caught up; sync is once per run
+        for (let step = nextStep(c, now); step && steps.length < 3; ) {
+          if (!(await run(c, step, now))) break;
+          steps.push(step);
+          c.error = undefined;
+          await saveWeek(redis, c);
+          if (step === "sync") break;
+          step = nextStep(c, now);
+        }
+      } catch (err: any) {
+        console.error(`[CountryCollectorKeeper] ${c.week} failed:`, err);
+        c.error = err.message || String(err);
+        await saveWeek(redis, c);
+      } finally {
+        await releaseCollectorWeek(redis, c.week);
+      }
+      results.push({
+        week: c.week,
+        steps,
+        completionsSent: c.completionsSent - before.completions,
+        stampsAwarded: c.stampsAwarded - before.stamps,
+        ...(c.status === "scheduled" ? { awaiting: createParams(c) } : {}),
+        ...(c.error ? { error: c.error } : {}),
+      });
+    }
+
+    if (drawError) {
+      console.error("[CountryCollectorKeeper] Could not draw:", drawError);
+    }
+    console.log(
+      `[CountryCollectorKeeper] drew ${drawn ?? "nothing"}; ${results
+        .map(
+          (r) =>
+            `${r.week}: ${r.steps.join(" → ") || r.error || "waiting"} (${r.completionsSent} completed, ${r.stampsAwarded} stamped)`,
+        )
+        .join(", ")}`,
+    );
+    // A failed week fails the run, so the workflow goes red instead of the challenge stalling quietly
+    const failed = !!drawError || results.some((r) => r.error);
+    return NextResponse.json(
+      { success: !failed, dryRun, drawn, drawError, results },
+      { status: failed ? 500 : 200 },
+    );
+  } catch (error: any) {
+    console.error("[CountryCollectorKeeper] Run failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message || "Country Collector run failed",
+      },
+      { status: 500 },
+    );
+  }
+}
@@ -1,10 +1,38 @@
 import { NextRequest, NextResponse } from "next/server";
 import { Redis } from "@upstash/redis";
 import {
-  computeListenerPoints,
   DISTRIBUTION_SNAPSHOT_KEY,
   LISTENER_STATS_KEY,
+  RESERVE_PERCENTAGE_FALLBACK,
+  expectedPoolFromRevenue,
+  planDistribution,
 } from "@/lib/listener-points";
+import { loadRiskStandings } from "@/lib/listener-risk";
+import {
+  REPORT_KEYS,
+  canonicalDigest,
+  diffReports,
+  executionBlocker,
+  getReport,
+  listMonthReports,
+  previousMonthReport,
+  saveReport,
+  storeDraft,
+  toReportEntries,
+  verifySignedReport,
+  type DistributionReport,
+  type ReserveSource,
+  type SignedReport,
+} from "@/lib/distribution-report";
+import {
+  PipelineError,
+  getPipeline,
+  isStepConfirmed,
+  pipelineTransactions,
+  receiptChain,
+  runPipeline,
+  type PipelineStep,
+} from "@/lib/month-pipeline";
 import {
   createWalletClient,
   createPublicClient,
@@ -20,15 +48,37 @@ import { activeChain } from "@/app/chains";
 /**
  * Monthly Listener WMON Distribution Cron
  *
- * Flow:
- * 1. Read listener stats from Redis (delta since last distribution)
- * 2. Withdraw WMON from MusicSubscriptionV5 DAO reserve → ListenerRewardPool
- * 3. Fund the monthly pool
- * 4. Set listener points (batched)
- * 5. Finalize the month → listeners can claim
+ * Nothing moves until the team has approved a report (lib/distribution-report.ts).
+ * Each run does one of three things for the month being distributed:
+ *
+ *   - an approved report exists → execute exactly that report
+ *   - a draft is awaiting approval → say so and stop
+ *   - otherwise → draft a signed report and stop
+ *
+ * Drafting:
+ * 1. Read listener stats from Redis (delta since last distribution), weighted
+ *    by each listener's risk standing (lib/listener-risk.ts)
+ * 2. Read the reserve balance, and the reserve percentage the month was
+ *    settled under, from MusicSubscriptionV6
+ * 3. Price every listener's points against that pool, diff against last
+ *    month, sign and persist. Approve via /api/admin/listener-distribution.
+ *
+ * Executing — the report's numbers, not a recomputation:
+ * 1. Withdraw the report's pool from the DAO reserve → deployer wallet
+ * 2. Fund the monthly pool
+ * 3. Set listener points (batched)
+ * 4. Finalize the month → listeners can claim
+ * 5. Write the snapshot captured at draft time
+ *
+ * Execution runs as a month pipeline (lib/month-pipeline.ts): each step's tx
+ * hash is persisted, a run that dies halfway is resumed by the next one before
+ * anything else happens, and a month that is already funded is never funded
+ * again. Status: /api/admin/month-pipeline.
  *
  * POST /api/cron/distribute-listener-rewards
  * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to draft a fresh report even if one is pending or approved
+ *         ?execute=<reportId> to execute one specific approved report now
  */
 
 const redis = new Redis({
@@ -50,6 +100,9 @@ const BATCH_SIZE = 50; // Max listeners per batchSetListenerPoints call
 const SUBSCRIPTION_ABI = parseAbi([
   "function getReserveBalance() external view returns (uint256)",
   "function withdrawReserveToDAO(address dao, uint256 amount) external",
+  "function RESERVE_PERCENTAGE() view returns (uint256)",
+  "function monthSplit(uint256 monthId) view returns (uint8 treasuryPct, uint8 reservePct, uint8 artistPoolPct, bool set)",
+  "function monthlyStats(uint256 monthId) view returns (uint256 totalRevenue, uint256 totalPlays, uint256 distributedAmount, bool finalized)",
 ]);
 
 const POOL_ABI = parseAbi([
@@ -58,11 +111,13 @@ const POOL_ABI = parseAbi([
   "function finalizeMonth(uint256 monthId) external",
   "function getCurrentMonthId() external view returns (uint256)",
   "function getMonthlyPool(uint256 monthId) external view returns (uint256 totalWMON, uint256 totalListenPoints, uint256 listenerCount, bool finalized, bool funded)",
+  "function listenerPoints(uint256 monthId, address listener) external view returns (uint256)",
 ]);
 
 const ERC20_ABI = parseAbi([
   "function approve(address spender, uint256 amount) external returns (bool)",
   "function balanceOf(address account) external view returns (uint256)",
+  "function allowance(address owner, address spender) external view returns (uint256)",
 ]);
 
 interface ListenerStats {
@@ -92,6 +147,454 @@ function verifyAuth(req: NextRequest): boolean {
   );
 }
 
+function keeperClients() {
+  const account = privateKeyToAccount(
+    process.env.DEPLOYER_PRIVATE_KEY as `0x${string}`,
+  );
+  const publicClient = createPublicClient({
+    chain: activeChain,
+    transport: http(MONAD_RPC),
+  });
+  const walletClient = createWalletClient({
+    account,
+    chain: activeChain,
+    transport: http(MONAD_RPC),
+  });
+  return { account, publicClient, walletClient };
+}
+
+type KeeperClients = ReturnType<typeof keeperClients>;
+
+/**
+ * The reserve percentage the month was settled under. V6 freezes a split per
+ * month at finalize time; the live RESERVE_PERCENTAGE() is the next best thing,
+ * and the fallback only applies when neither can be read.
+ */
+async function readReservePercentage(
+  { publicClient }: KeeperClients,
+  monthId: number,
+): Promise<{ percentage: bigint; source: ReserveSource }> {
+  try {
+    const [, reservePct, , set] = await publicClient.readContract({
+      address: MUSIC_SUBSCRIPTION,
+      abi: SUBSCRIPTION_ABI,
+      functionName: "monthSplit",
+      args: [BigInt(monthId)],
+    });
+    if (set) return { percentage: BigInt(reservePct), source: "month-split" };
+  } catch {
+    // Pre-V6 subscription without per-month splits.
+  }
+  try {
+    const percentage = await publicClient.readContract({
+      address: MUSIC_SUBSCRIPTION,
+      abi: SUBSCRIPTION_ABI,
+      functionName: "RESERVE_PERCENTAGE",
+    });
+    return { percentage, source: "current" };
+  } catch {
+    // Not exposed on this deployment.
+  }
+  return { percentage: RESERVE_PERCENTAGE_FALLBACK, source: "fallback" };
+}
+
+async function snapshotDigest() {
+  return canonicalDigest(
+    (await redis.hgetall<Record<string, number>>(DISTRIBUTION_SNAPSHOT_KEY)) ||
+      {},
+  );
+}
+
+async function draftReport(clients: KeeperClients, monthId: number) {
+  const { account, publicClient } = clients;
+
+  const allStats =
+    await redis.hgetall<Record<string, ListenerStats>>(LISTENER_STATS_KEY);
+  if (!allStats || Object.keys(allStats).length === 0) {
+    return NextResponse.json({
+      success: false,
+      message: "No listener stats found in Redis",
+    });
+  }
+
+  const snapshot =
+    (await redis.hgetall<Record<string, number>>(DISTRIBUTION_SNAPSHOT_KEY)) ||
+    {};
+  const standings = await loadRiskStandings(redis);
+
+  const reserveBalance = await publicClient.readContract({
+    address: MUSIC_SUBSCRIPTION,
+    abi: SUBSCRIPTION_ABI,
+    functionName: "getReserveBalance",
+  });
+  if (reserveBalance === 0n) {
+    return NextResponse.json({
+      success: false,
+      message: "No reserve balance to distribute",
+      reserveBalance: "0",
+    });
+  }
+
+  // Point maths lives in lib/listener-points so the estimate shown in the
+  // claim UI is computed by the same code that writes points on-chain here.
+  const plan = planDistribution(allStats, snapshot, standings, reserveBalance);
+  const entries = toReportEntries(plan);
+  const listenerCount = entries.filter((e) => e.points > 0).length;
+  if (listenerCount === 0) {
+    return NextResponse.json({
+      success: false,
+      message: "No new listens since last distribution",
+    });
+  }
+
+  const reserve = await readReservePercentage(clients, monthId);
+  let monthRevenue: bigint | null = null;
+  try {
+    [monthRevenue] = await publicClient.readContract({
+      address: MUSIC_SUBSCRIPTION,
+      abi: SUBSCRIPTION_ABI,
+      functionName: "monthlyStats",
+      args: [BigInt(monthId)],
+    });
+  } catch {
+    // Informational only; the report records null.
+  }
+
+  const createdAt = Date.now();
+  const body: Omit<DistributionReport, "diff"> = {
+    reportId: `${monthId}-${createdAt.toString(36)}`,
+    monthId,
+    createdAt,
+    chainId: activeChain.id,
+    pool: LISTENER_REWARD_POOL,
+    subscription: MUSIC_SUBSCRIPTION,
+    reserve: {
+      balanceWei: reserveBalance.toString(),
+      percentage: Number(reserve.percentage),
+      percentageSource: reserve.source,
+      monthRevenueWei: monthRevenue === null ? null : monthRevenue.toString(),
+      expectedFromRevenueWei:
+        monthRevenue === null
+          ? null
+          : expectedPoolFromRevenue(
+              monthRevenue,
+              reserve.percentage,
+            ).toString(),
+    },
+    poolWei: reserveBalance.toString(),
+    totalPoints: plan.totalPoints,
+    listenerCount,
+    heldCount: entries.filter((e) => e.held).length,
+    entries,
+    snapshotDigest: canonicalDigest(snapshot),
+    snapshotAfter: plan.snapshotAfter,
+  };
+  const report: DistributionReport = {
+    ...body,
+    diff: diffReports(body, await previousMonthReport(redis, monthId)),
+  };
+
+  const digest = canonicalDigest(report);
+  const signed: SignedReport = {
+    report,
+    digest,
+    signer: account.address,
+    signature: await account.signMessage({ message: { raw: digest } }),
+    status: "draft",
+  };
+  await storeDraft(redis, signed);
+
+  console.log(
+    `[DistributeCron] Month ${monthId}: report ${report.reportId} drafted, ${listenerCount} listeners, pool=${formatEther(reserveBalance)} WMON, awaiting approval`,
+  );
+
+  return NextResponse.json({
+    success: true,
+    dryRun: true,
+    executed: false,
+    status: "draft",
+    monthId,
+    reportId: report.reportId,
+    digest,
+    totalWMON: formatEther(reserveBalance),
+    reservePercentage: report.reserve.percentage,
+    reservePercentageSource: report.reserve.percentageSource,
+    listenerCount,
+    heldCount: report.heldCount,
+    totalListenPoints: report.totalPoints,
+    diff: report.diff && {
+      previousMonthId: report.diff.previousMonthId,
+      totalPoints: report.diff.totalPoints,
+      listeners: report.diff.listeners,
+      added: report.diff.added.length,
+      dropped: report.diff.dropped.length,
+    },
+  });
+}
+
+async function executeReport(
+  clients: KeeperClients,
+  monthId: number,
+  reportId: string,
+  startTime: number,
+) {
+  const { account, publicClient, walletClient } = clients;
+
+  const signed = await getReport(redis, reportId);
+  if (!signed) {
+    return NextResponse.json(
+      { success: false, error: `Report ${reportId} not found` },
+      { status: 404 },
+    );
+  }
+  if (!(await verifySignedReport(signed, account.address))) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Report ${reportId} does not match its signature; draft a new one`,
+      },
+      { status: 409 },
+    );
+  }
+
+  const pipeline = await getPipeline(redis, "distribute", monthId);
+  if (pipeline?.ref && pipeline.ref !== reportId) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: `Month ${monthId} is already being distributed from report ${pipeline.ref}`,
+        reportId,
+      },
+      { status: 409 },
+    );
+  }
+
+  const reserveBalance = await publicClient.readContract({
+    address: MUSIC_SUBSCRIPTION,
+    abi: SUBSCRIPTION_ABI,
+    functionName: "getReserveBalance",
+  });
+  const blocker = executionBlocker(signed, {
+    monthId,
+    reserveBalanceWei: reserveBalance,
+    snapshotDigest: await snapshotDigest(),
+    resume: pipeline
+      ? {
+          withdrawn: isStepConfirmed(pipeline, "withdraw"),
+          snapshotWritten: isStepConfirmed(pipeline, "snapshot"),
+        }
+      : undefined,
+  });
+  if (blocker) {
+    return NextResponse.json(
+      { success: false, error: blocker, reportId },
+      { status: 409 },
+    );
+  }
+
+  const { report } = signed;
+  const pool = BigInt(report.poolWei);
+  const paid = report.entries.filter((e) => e.points > 0);
+  const month = BigInt(monthId);
+
+  const monthlyPool = () =>
+    publicClient.readContract({
+      address: LISTENER_REWARD_POOL,
+      abi: POOL_ABI,
+      functionName: "getMonthlyPool",
+      args: [month],
+    });
+
+  // fundMonth adds to whatever is already there, so "funded" is the one fact
+  // that must come from the chain: the withdraw and approve before it are only
+  // ever redone while the month is still unfunded.
+  const funded = async () => {
+    const [totalWMON, , , , isFunded] = await monthlyPool();
+    if (!isFunded) return false;
+    if (totalWMON !== pool) {
+      throw new PipelineError(
+        `Month ${monthId} is funded with ${formatEther(totalWMON)} WMON but the report pays ${formatEther(pool)}; not funding again`,
+      );
+    }
+    return true;
+  };
+
+  const steps: PipelineStep[] = [
+    {
+      // Withdraw the report's pool from the DAO reserve → deployer wallet
+      name: "withdraw",
+      applied: funded,
+      send: () =>
+        walletClient.writeContract({
+          address: MUSIC_SUBSCRIPTION,
+          abi: SUBSCRIPTION_ABI,
+          functionName: "withdrawReserveToDAO",
+          args: [account.address, pool],
+        }),
+    },
+    {
+      name: "approve",
+      applied: async () =>
+        (await funded()) ||
+        (await publicClient.readContract({
+          address: WMON_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "allowance",
+          args: [account.address, LISTENER_REWARD_POOL],
+        })) >= pool,
+      send: () =>
+        walletClient.writeContract({
+          address: WMON_ADDRESS,
+          abi: ERC20_ABI,
+          functionName: "approve",
+          args: [LISTENER_REWARD_POOL, pool],
+        }),
+    },
+    {
+      name: "fund",
+      applied: funded,
+      send: () =>
+        walletClient.writeContract({
+          address: LISTENER_REWARD_POOL,
+          abi: POOL_ABI,
+          functionName: "fundMonth",
+          args: [month, pool],
+        }),
+    },
+  ];
+
+  // batchSetListenerPoints overwrites, so a batch is applied once every
+  // listener in it reads back the report's points.
+  for (let i = 0; i < paid.length; i += BATCH_SIZE) {
+    const batch = paid.slice(i, i + BATCH_SIZE);
+    steps.push({
+      name: `points-${i / BATCH_SIZE + 1}`,
+      applied: async () => {
+        for (const entry of batch) {
+          const onChain = await publicClient.readContract({
+            address: LISTENER_REWARD_POOL,
+            abi: POOL_ABI,
+            functionName: "listenerPoints",
+            args: [month, entry.address as Address],
+          });
+          if (onChain !== BigInt(entry.points)) return false;
+        }
+        return true;
+      },
+      send: () =>
+        walletClient.writeContract({
+          address: LISTENER_REWARD_POOL,
+          abi: POOL_ABI,
+          functionName: "batchSetListenerPoints",
+          args: [
+            month,
+            batch.map((e) => e.address as Address),
+            batch.map((e) => BigInt(e.points)),
+          ],
+        }),
+    });
+  }
+
+  steps.push(
+    {
+      name: "finalize",
+      applied: async () => (await monthlyPool())[3],
+      send: () =>
+        walletClient.writeContract({
+          address: LISTENER_REWARD_POOL,
+          abi: POOL_ABI,
+          functionName: "finalizeMonth",
+          args: [month],
+        }),
+    },
+    {
+      // Write the snapshot captured at draft time. Quarantined listeners are
+      // absent from it, so their points carry into a later month.
+      name: "snapshot",
+      run: async () => {
+        if (Object.keys(report.snapshotAfter).length > 0) {
+          await redis.hset(DISTRIBUTION_SNAPSHOT_KEY, report.snapshotAfter);
+        }
+        await redis.set(LAST_DISTRIBUTION_KEY, Date.now());
+        await redis.set(REPORT_KEYS.executed(monthId), reportId);
+      },
+    },
+  );
+
+  signed.status = "executing";
+  signed.execution = {
+    startedAt: signed.execution?.startedAt ?? Date.now(),
+    transactions: signed.execution?.transactions ?? {},
+  };
+  await saveReport(redis, signed);
+
+  console.log(
+    `[DistributeCron] Month ${monthId}: ${pipeline ? "resuming" : "executing"} report ${reportId}, ${paid.length} listeners, pool=${formatEther(pool)} WMON`,
+  );
+
+  let result;
+  try {
+    result = await runPipeline(
+      redis,
+      { flow: "distribute", monthId, ref: reportId },
+      steps,
+      receiptChain(publicClient),
+    );
+  } catch (error) {
+    if (error instanceof PipelineError) {
+      return NextResponse.json(
+        { success: false, error: error.message, reportId },
+        { status: error.status },
+      );
+    }
+    throw error;
+  }
+
+  const transactions = pipelineTransactions(result);
+  const done = result.status === "completed";
+  signed.status = done ? "executed" : "failed";
+  signed.execution = {
+    ...signed.execution,
+    transactions,
+    finishedAt: done ? Date.now() : undefined,
+    error: result.error,
+  };
+  await saveReport(redis, signed);
+
+  if (!done) {
+    console.error(
+      `[DistributeCron] Month ${monthId}: pipeline ${result.status} at ${result.error}`,
+    );
+    return NextResponse.json(
+      {
+        success: false,
+        executed: false,
+        monthId,
+        reportId,
+        pipeline: result.status,
+        error: result.error,
+        transactions,
+      },
+      { status: 500 },
+    );
+  }
+
+  console.log(`[DistributeCron] Month ${monthId}: report ${reportId} executed`);
+  return NextResponse.json({
+    success: true,
+    executed: true,
+    monthId,
+    reportId,
+    totalWMON: formatEther(pool),
+    listenerCount: paid.length,
+    totalListenPoints: report.totalPoints,
+    batches: steps.filter((s) => s.name.startsWith("points-")).length,
+    risk: { held: report.heldCount },
+    transactions,
+    elapsedMs: Date.now() - startTime,
+  });
+}
+
 export async function POST(req: NextRequest) {
   const startTime = Date.now();
 
@@ -130,28 +633,24 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    const account = privateKeyToAccount(
-      process.env.DEPLOYER_PRIVATE_KEY as `0x${string}`,
-    );
-
-    const publicClient = createPublicClient({
-      chain: activeChain,
-      transport: http(MONAD_RPC),
-    });
-
-    const walletClient = createWalletClient({
-      account,
-      chain: activeChain,
-      transport: http(MONAD_RPC),
-    });
+    const clients = keeperClients();
+    const { publicClient } = clients;
 
-    // Step 1: Get previous month ID (we distribute for the month that just ended)
+    // Get previous month ID (we distribute for the month that just ended)
     const currentMonthId = await publicClient.readContract({
       address: LISTENER_REWARD_POOL,
       abi: POOL_ABI,
       functionName: "getCurrentMonthId",
     });
     const monthToDistribute = Number(currentMonthId) - 1;
+    const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+
+    // A run that died halfway is finished before anything else — including
+    // after finalizeMonth, when only the snapshot write is left.
+    const open = await getPipeline(redis, "distribute", monthToDistribute);
+    if (!dryRun && open?.ref && open.status !== "completed") {
+      return executeReport(clients, monthToDistribute, open.ref, startTime);
+    }
 
     // Check if already finalized
     const poolInfo = await publicClient.readContract({
@@ -170,152 +669,36 @@ export async function POST(req: NextRequest) {
       });
     }
 
-    // Step 2: Read listener stats from Redis
-    const allStats =
-      await redis.hgetall<Record<string, ListenerStats>>(LISTENER_STATS_KEY);
-    if (!allStats || Object.keys(allStats).length === 0) {
-      return NextResponse.json({
-        success: false,
-        message: "No listener stats found in Redis",
-      });
+    const executeId = req.nextUrl.searchParams.get("execute");
+    if (executeId) {
+      return executeReport(clients, monthToDistribute, executeId, startTime);
     }
 
-    // Step 3: Calculate delta points (songs listened since last distribution)
-    const snapshot =
-      (await redis.hgetall<Record<string, number>>(
-        DISTRIBUTION_SNAPSHOT_KEY,
-      )) || {};
-
-    const listeners: Address[] = [];
-    const points: bigint[] = [];
-
-    // Point maths lives in lib/listener-points so the estimate shown in the
-    // claim UI is computed by the same code that writes points on-chain here.
-    for (const [address, stats] of Object.entries(allStats)) {
-      const delta = computeListenerPoints(
-        stats,
-        Number(snapshot[address] || 0),
-      );
-
-      if (delta > 0) {
-        listeners.push(address as Address);
-        points.push(BigInt(delta));
+    if (!dryRun) {
+      const reports = await listMonthReports(redis, monthToDistribute);
+      const approved = reports.filter((r) => r.status === "approved").at(-1);
+      if (approved) {
+        return executeReport(
+          clients,
+          monthToDistribute,
+          approved.report.reportId,
+          startTime,
+        );
       }
-    }
-
-    if (listeners.length === 0) {
-      return NextResponse.json({
-        success: false,
-        message: "No new listens since last distribution",
-      });
-    }
-
-    // Step 4: Check reserve balance
-    const reserveBalance = await publicClient.readContract({
-      address: MUSIC_SUBSCRIPTION,
-      abi: SUBSCRIPTION_ABI,
-      functionName: "getReserveBalance",
-    });
-
-    if (reserveBalance === 0n) {
-      return NextResponse.json({
-        success: false,
-        message: "No reserve balance to distribute",
-        reserveBalance: "0",
-      });
-    }
-
-    console.log(
-      `[DistributeCron] Month ${monthToDistribute}: ${listeners.length} listeners, reserve=${formatEther(reserveBalance)} WMON`,
-    );
 
-    // Step 5: Withdraw reserve from MusicSubscriptionV5 → deployer wallet
-    const withdrawHash = await walletClient.writeContract({
-      address: MUSIC_SUBSCRIPTION,
-      abi: SUBSCRIPTION_ABI,
-      functionName: "withdrawReserveToDAO",
-      args: [account.address, reserveBalance],
-    });
-    await publicClient.waitForTransactionReceipt({ hash: withdrawHash });
-    console.log(`[DistributeCron] Reserve withdrawn: ${withdrawHash}`);
-
-    // Step 6: Approve ListenerRewardPool to spend WMON
-    const approveHash = await walletClient.writeContract({
-      address: WMON_ADDRESS,
-      abi: ERC20_ABI,
-      functionName: "approve",
-      args: [LISTENER_REWARD_POOL, reserveBalance],
-    });
-    await publicClient.waitForTransactionReceipt({ hash: approveHash });
-
-    // Step 7: Fund the monthly pool
-    const fundHash = await walletClient.writeContract({
-      address: LISTENER_REWARD_POOL,
-      abi: POOL_ABI,
-      functionName: "fundMonth",
-      args: [BigInt(monthToDistribute), reserveBalance],
-    });
-    await publicClient.waitForTransactionReceipt({ hash: fundHash });
-    console.log(`[DistributeCron] Month funded: ${fundHash}`);
-
-    // Step 8: Set listener points in batches
-    const batchHashes: string[] = [];
-    for (let i = 0; i < listeners.length; i += BATCH_SIZE) {
-      const batchListeners = listeners.slice(i, i + BATCH_SIZE);
-      const batchPoints = points.slice(i, i + BATCH_SIZE);
-
-      const batchHash = await walletClient.writeContract({
-        address: LISTENER_REWARD_POOL,
-        abi: POOL_ABI,
-        functionName: "batchSetListenerPoints",
-        args: [BigInt(monthToDistribute), batchListeners, batchPoints],
-      });
-      await publicClient.waitForTransactionReceipt({ hash: batchHash });
-      batchHashes.push(batchHash);
-      console.log(
-        `[DistributeCron] Batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batchListeners.length} listeners set`,
-      );
-    }
-
-    // Step 9: Finalize the month
-    const finalizeHash = await walletClient.writeContract({
-      address: LISTENER_REWARD_POOL,
-      abi: POOL_ABI,
-      functionName: "finalizeMonth",
-      args: [BigInt(monthToDistribute)],
-    });
-    await publicClient.waitForTransactionReceipt({ hash: finalizeHash });
-    console.log(`[DistributeCron] Month finalized: ${finalizeHash}`);
-
-    // Step 10: Update snapshot in Redis
-    const newSnapshot: Record<string, number> = {};
-    for (const [address, stats] of Object.entries(allStats)) {
-      if (stats && typeof stats.totalSongsListened === "number") {
-        newSnapshot[address] = stats.totalSongsListened;
+      const pending = reports.filter((r) => r.status === "draft").at(-1);
+      if (pending) {
+        return NextResponse.json({
+          success: false,
+          message: `Report ${pending.report.reportId} is awaiting approval`,
+          monthId: monthToDistribute,
+          reportId: pending.report.reportId,
+          digest: pending.digest,
+        });
       }
     }
-    await redis.hset(DISTRIBUTION_SNAPSHOT_KEY, newSnapshot);
-    await redis.set(LAST_DISTRIBUTION_KEY, Date.now());
-
-    const totalPoints = points.reduce((sum, p) => sum + p, 0n);
-    const elapsed = Date.now() - startTime;
 
-    return NextResponse.json({
-      success: true,
-      monthId: monthToDistribute,
-      totalWMON: formatEther(reserveBalance),
-      listenerCount: listeners.length,
-      totalListenPoints: totalPoints.toString(),
-      batches: batchHashes.length,
-      transactions: {
-        withdraw: withdrawHash,
-        approve: approveHash,
-        fund: fundHash,
-        batchSets: batchHashes,
-        finalize: finalizeHash,
-      },
-      elapsedMs: elapsed,
-    });
+    return draftReport(clients, monthToDistribute);
   } catch (error: any) {
     console.error("[DistributeCron] Error:", error);
     return NextResponse.json(
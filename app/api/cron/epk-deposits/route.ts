@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { redis } from "@/lib/redis";
+import {
+  BOOKING_KEYS,
+  bookingStatus,
+  claimBookingAction,
+  depositLapsed,
+  getInquiry,
+  lapseBooking,
+  parseDepositMember,
+  releaseBookingAction,
+  releaseDate,
+  saveInquiry,
+  stopAwaitingDeposit,
+} from "@/lib/epk/booking";
+
+/**
+ * EPK Deposit Keeper
+ *
+ * Gives an artist their date back when the organizer never pays the deposit. Agreeing a booking
+ * takes the date and puts the booking in `epk:booking:awaiting-deposit`, scored by the end of the
+ * deposit's due date; paying the deposit or cancelling takes it out. Every booking still in the
+ * set past its score is cancelled as lapsed and its date freed. No money moves: nothing is in
+ * escrow until the deposit is.
+ *
+ * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to report what is due without cancelling
+ */
+
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
+
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+async function handle(req: NextRequest) {
+  const cronSecret = req.headers.get("x-cron-secret");
+  const authHeader = req.headers.get("authorization");
+  const authorized =
+    !!CRON_SECRET &&
+    (cronSecret === CRON_SECRET || authHeader === `Bearer ${CRON_SECRET}`);
+
+  if (!authorized) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+  const now = Date.now();
+
+  try {
+    const members = (
+      await redis.zrange<string[]>(BOOKING_KEYS.awaitingDeposit, 0, now, {
+        byScore: true,
+      })
+    ).map(String);
+
+    if (dryRun) {
+      return NextResponse.json({ success: true, dryRun, due: members });
+    }
+
+    const lapsed: string[] = [];
+    for (const member of members) {
+      const { artist, id } = parseDepositMember(member);
+      // A payment or cancellation in flight settles it either way; the next run looks again
+      if (!(await claimBookingAction(redis, id))) continue;
+      try {
+        const inquiry = await getInquiry(redis, artist, id);
+        if (!inquiry) {
+          await redis.zrem(BOOKING_KEYS.awaitingDeposit, member);
+          continue;
+        }
+        if (depositLapsed(inquiry, now)) {
+          lapseBooking(inquiry, now);
+          inquiry.status = bookingStatus(inquiry);
+          await saveInquiry(redis, inquiry);
+          await releaseDate(redis, artist, inquiry.eventDate, inquiry.id);
+          lapsed.push(member);
+        }
+        await stopAwaitingDeposit(redis, inquiry);
+      } finally {
+        await releaseBookingAction(redis, id);
+      }
+    }
+
+    if (lapsed.length > 0) {
+      console.log(`[EPKDepositKeeper] Lapsed ${lapsed.join(", ")}`);
+    }
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      due: members.length,
+      lapsed,
+    });
+  } catch (error: any) {
+    console.error("[EPKDepositKeeper] Run failed:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Deposit keeper failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -10,6 +10,13 @@ import {
 } from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { activeChain } from "@/app/chains";
+import {
+  getPipeline,
+  receiptChain,
+  runPipeline,
+  type PipelineStep,
+} from "@/lib/month-pipeline";
+import { redis } from "@/lib/redis";
 
 /**
  * Monthly Distribution Keeper
@@ -35,6 +42,11 @@ import { activeChain } from "@/app/chains";
  * quietly accruing revenue with zero plays is visible within a day instead of
  * being discovered after it is permanently unrecoverable.
  *
+ * Each finalize runs as a one-step month pipeline (lib/month-pipeline.ts), so
+ * its tx hash is on record before the receipt wait. A run that timed out
+ * waiting picks the same hash up next time instead of sending a second
+ * transaction into a nonce the first may still hold.
+ *
  * owner() is an EOA matching DEPLOYER_PRIVATE_KEY, so it signs directly.
  *
  * Header: x-cron-secret or Authorization: Bearer <secret>
@@ -169,6 +181,36 @@ async function handle(req: NextRequest) {
     const currentMonthId = Number(block.timestamp / (30n * 24n * 60n * 60n));
 
     const reports: MonthReport[] = [];
+    const chain = receiptChain(publicClient);
+
+    const finalizeStep = (monthId: number): PipelineStep => ({
+      name: "finalize",
+      applied: async () =>
+        (
+          await publicClient.readContract({
+            address: SUBSCRIPTION,
+            abi: SUBSCRIPTION_ABI,
+            functionName: "monthlyStats",
+            args: [BigInt(monthId)],
+          })
+        )[3],
+      send: async () => {
+        // Simulate first so a revert costs nothing and surfaces its reason.
+        await publicClient.simulateContract({
+          address: SUBSCRIPTION,
+          abi: SUBSCRIPTION_ABI,
+          functionName: "finalizeMonthlyDistribution",
+          args: [BigInt(monthId)],
+          account,
+        });
+        return walletClient.writeContract({
+          address: SUBSCRIPTION,
+          abi: SUBSCRIPTION_ABI,
+          functionName: "finalizeMonthlyDistribution",
+          args: [BigInt(monthId)],
+        });
+      },
+    });
 
     for (let i = 0; i <= lookback; i++) {
       const monthId = currentMonthId - i;
@@ -203,6 +245,24 @@ async function handle(req: NextRequest) {
       }
 
       if (finalized) {
+        // A previous run's receipt wait may have timed out after the tx landed;
+        // close its pipeline so the status view stops calling it stuck.
+        const open = dryRun
+          ? null
+          : await getPipeline(redis, "finalize", monthId);
+        if (open && open.status !== "completed") {
+          await runPipeline(
+            redis,
+            { flow: "finalize", monthId },
+            [finalizeStep(monthId)],
+            chain,
+          ).catch((err) =>
+            console.warn(
+              `[FinalizeKeeper] Could not close pipeline for month ${monthId}:`,
+              err?.message ?? err,
+            ),
+          );
+        }
         reports.push({ ...base, verdict: "finalized" });
         continue;
       }
@@ -229,23 +289,17 @@ async function handle(req: NextRequest) {
         continue;
       }
 
-      // Simulate first so a revert costs nothing and surfaces its reason.
       try {
-        await publicClient.simulateContract({
-          address: SUBSCRIPTION,
-          abi: SUBSCRIPTION_ABI,
-          functionName: "finalizeMonthlyDistribution",
-          args: [BigInt(monthId)],
-          account,
-        });
-
-        const hash = await walletClient.writeContract({
-          address: SUBSCRIPTION,
-          abi: SUBSCRIPTION_ABI,
-          functionName: "finalizeMonthlyDistribution",
-          args: [BigInt(monthId)],
-        });
-        await publicClient.waitForTransactionReceipt({ hash });
+        const pipeline = await runPipeline(
+          redis,
+          { flow: "finalize", monthId },
+          [finalizeStep(monthId)],
+          chain,
+        );
+        const hash = pipeline.steps[0]?.txHash;
+        if (pipeline.status !== "completed") {
+          throw new Error(pipeline.error || `Pipeline ${pipeline.status}`);
+        }
 
         reports.push({ ...base, verdict: "ready", txHash: hash });
         console.log(
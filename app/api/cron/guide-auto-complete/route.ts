@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sendSafeTransaction } from "@/lib/pimlico-safe-aa";
+import { redis } from "@/lib/redis";
+import {
+  TOUR_GUIDE_REGISTRY,
+  canAutoComplete,
+  registryCall,
+} from "@/lib/guide-registry";
+import {
+  GUIDE_BOOKING_KEYS,
+  claimGuideBookingAction,
+  dueAutoCompletions,
+  getGuideBooking,
+  getGuideBookings,
+  recordCompletion,
+  releaseGuideBookingAction,
+  saveGuideBooking,
+  type GuideBooking,
+} from "@/lib/guide-booking";
+
+/**
+ * Guide Auto-Complete Keeper
+ *
+ * Pays guides whose travelers never confirmed. Once a guide has marked a tour complete, the
+ * booking waits in `guide:autocomplete` until the registry's AUTO_COMPLETE_PERIOD has passed;
+ * this calls `autoCompleteTour` for every booking that is due, in one Platform Safe
+ * transaction. Disputed bookings are out of the set until an admin decides them, and a booking
+ * the registry will not complete yet stays in it for the next run. Each booking is completed
+ * under its action lock, so a dispute opened meanwhile is either seen or waits for it to finish.
+ *
+ * Header: x-cron-secret or Authorization: Bearer <secret>
+ * Query:  ?dry=1 to report what is due without sending
+ */
+
+const CRON_SECRET = process.env.KEEPER_SECRET || process.env.CRON_SECRET;
+
+/** autoCompleteTour calls per transaction; the rest wait for the next run. */
+const MAX_PER_RUN = 20;
+
+export async function GET(req: NextRequest) {
+  return handle(req);
+}
+export async function POST(req: NextRequest) {
+  return handle(req);
+}
+
+async function handle(req: NextRequest) {
+  const cronSecret = req.headers.get("x-cron-secret");
+  const authHeader = req.headers.get("authorization");
+  const authorized =
+    !!CRON_SECRET &&
+    (cronSecret === CRON_SECRET || authHeader === `Bearer ${CRON_SECRET}`);
+
+  if (!authorized) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized" },
+      { status: 401 },
+    );
+  }
+
+  if (!TOUR_GUIDE_REGISTRY) {
+    console.error("[GuideKeeper] Missing NEXT_PUBLIC_TOUR_GUIDE_REGISTRY");
+    return NextResponse.json(
+      { success: false, error: "Server configuration error" },
+      { status: 500 },
+    );
+  }
+
+  const dryRun = req.nextUrl.searchParams.get("dry") === "1";
+  const now = Date.now();
+  const locked: string[] = [];
+
+  try {
+    const ids = (
+      await redis.zrange<string[]>(GUIDE_BOOKING_KEYS.autoComplete, 0, now, {
+        byScore: true,
+      })
+    ).map(String);
+    const due = dueAutoCompletions(await getGuideBookings(redis, ids), now);
+
+    // The registry has the last word on timing; anything it refuses waits for the next run
+    const ready: GuideBooking[] = [];
+    for (const listed of due) {
+      if (ready.length >= MAX_PER_RUN) break;
+      let b: GuideBooking | null = listed;
+      if (!dryRun) {
+        // A party or an admin acting on it settles it either way; the next run looks again
+        if (!(await claimGuideBookingAction(redis, listed.id))) continue;
+        locked.push(listed.id);
+        b = await getGuideBooking(redis, listed.id);
+        if (!b || dueAutoCompletions([b], now).length === 0) continue;
+      }
+      if (await canAutoComplete(b.escrow!.bookingId)) ready.push(b);
+    }
+
+    if (dryRun || ready.length === 0) {
+      return NextResponse.json({
+        success: true,
+        dryRun,
+        due: due.length,
+        ready: ready.map((b) => b.id),
+        completed: [],
+      });
+    }
+
+    const txHash = await sendSafeTransaction(
+      ready.map((b) =>
+        registryCall("autoCompleteTour", [BigInt(b.escrow!.bookingId)]),
+      ),
+    );
+    for (const b of ready) {
+      recordCompletion(b, "auto", txHash, now);
+      await saveGuideBooking(redis, b, now);
+    }
+
+    console.log(
+      `[GuideKeeper] Auto-completed ${ready.map((b) => b.id).join(", ")}: ${txHash}`,
+    );
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      due: due.length,
+      ready: ready.map((b) => b.id),
+      completed: ready.map((b) => b.id),
+      txHash,
+    });
+  } catch (error: any) {
+    console.error("[GuideKeeper] Auto-complete failed:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Auto-complete failed" },
+      { status: 500 },
+    );
+  } finally {
+    for (const id of locked) await releaseGuideBookingAction(redis, id);
+  }
+}
@@ -0,0 +1,361 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Redis } from '@upstash/redis';
+import { encodeFunctionData, parseEther, parseEventLogs, type Address, type Hex } from 'viem';
+import { getUserSafeAddress, publicClient, sendUserSafeTransaction } from '@/lib/user-safe';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { verifySignature } from '@/lib/auth';
+import { EPK_CACHE_PREFIX, EPK_REGISTRY_ADDRESS } from '@/lib/epk/constants';
+import { fetchEPKFromChain, fetchEPKFromIPFS } from '@/lib/epk/utils';
+import {
+  BookingError,
+  addAgreementSignature,
+  agreementSignatureMessage,
+  agreementText,
+  awaitDeposit,
+  bookingStatus,
+  buildQuote,
+  cancellationTerms,
+  claimBookingAction,
+  draftAgreement,
+  fundingBlocker,
+  getCalendar,
+  getInquiry,
+  holdDate,
+  isAgreed,
+  parseRefundPolicy,
+  releaseBlocker,
+  releaseBookingAction,
+  releaseDate,
+  saveInquiry,
+  settlementCalls,
+  stopAwaitingDeposit,
+  type EscrowCall,
+} from '@/lib/epk/booking';
+import type { BookingInquiry, BookingMilestone, EPKMetadata, MilestoneKind } from '@/lib/epk/types';
+import EPKRegistryABI from '@/lib/abis/EPKRegistry.json';
+import ERC20ABI from '@/lib/abis/ERC20.json';
+
+const redis = Redis.fromEnv();
+
+const PINATA_JWT = process.env.PINATA_JWT;
+const WMON_ADDRESS = process.env.NEXT_PUBLIC_WMON as Address;
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || '';
+
+/**
+ * EPK booking agreement — quote, sign, pay milestones, release, cancel
+ *
+ * GET  /api/epk/booking/agreement?artist=0x...&id=...
+ *   The booking with its quote, agreement text and milestones. The link is what the artist
+ *   shares with the organizer.
+ *
+ * POST /api/epk/booking/agreement
+ *   { action: 'quote', artistAddress, inquiryId, fee?, note?, refundPolicy? }   artist
+ *   { action: 'sign', artistAddress, inquiryId, role, userAddress, hash, signature }
+ *   { action: 'fund', artistAddress, inquiryId, kind: 'deposit' | 'balance', userAddress }   organizer
+ *   { action: 'release', artistAddress, inquiryId }   artist, after the show
+ *   { action: 'cancel', artistAddress, inquiryId, userAddress, reason? }   either party
+ *
+ * Signing needs no session: the wallet signature over agreementSignatureMessage() is the
+ * authorisation and is kept with the agreement. The organizer is the wallet bound when the
+ * inquiry was sent, and no other can sign in that role. Every other action needs Quick Auth or a
+ * wallet signature for the acting address. Escrow transactions run from the acting party's
+ * Safe, one per booking at a time.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+async function requireOwner(req: NextRequest, address: string): Promise<NextResponse | null> {
+  const decision = await authorizeUserAddress(req, address, 'epk-booking');
+  return decision.ownsAddress ? null : fail('Sign in with the wallet for this booking', 401);
+}
+
+async function loadEPK(artistAddress: string): Promise<EPKMetadata | null> {
+  if (ENVIO_ENDPOINT) {
+    const onChain = await fetchEPKFromChain(artistAddress, ENVIO_ENDPOINT);
+    if (onChain) {
+      const epk = await fetchEPKFromIPFS(onChain.ipfsCid);
+      if (epk) return epk;
+    }
+  }
+  const cachedCid = await redis.get<string>(`${EPK_CACHE_PREFIX}${artistAddress}`);
+  return cachedCid ? fetchEPKFromIPFS(cachedCid) : null;
+}
+
+async function uploadAgreementToIPFS(inquiry: BookingInquiry): Promise<string | null> {
+  if (!PINATA_JWT || !inquiry.agreement) return null;
+
+  try {
+    const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${PINATA_JWT}`,
+      },
+      body: JSON.stringify({
+        pinataContent: {
+          text: inquiry.agreement.text,
+          hash: inquiry.agreement.hash,
+          signatures: inquiry.agreement.signatures,
+        },
+        pinataMetadata: { name: `booking-agreement-${inquiry.id}` },
+      }),
+    });
+
+    const data = await response.json();
+    return data.IpfsHash || null;
+  } catch {
+    return null;
+  }
+}
+
+async function save(inquiry: BookingInquiry) {
+  inquiry.status = bookingStatus(inquiry);
+  await saveInquiry(redis, inquiry);
+}
+
+function escrowData(functionName: EscrowCall['functionName'], escrowId: number): Hex {
+  return encodeFunctionData({ abi: EPKRegistryABI, functionName, args: [BigInt(escrowId)] });
+}
+
+/** Run one party's settlement calls as a single Safe transaction. */
+async function settle(
+  inquiry: BookingInquiry,
+  party: EscrowCall['party'],
+  plan: Array<{ milestone: BookingMilestone; calls: EscrowCall[]; status: BookingMilestone['status'] }>
+) {
+  const mine = plan.filter(p => p.calls.some(c => c.party === party));
+  if (mine.length === 0) return;
+  const signer = party === 'artist' ? inquiry.artistAddress : inquiry.organizerAddress!;
+  const result = await sendUserSafeTransaction(
+    signer,
+    mine.flatMap(p =>
+      p.calls.map(c => ({ to: EPK_REGISTRY_ADDRESS as Address, value: 0n, data: escrowData(c.functionName, p.milestone.escrowId!) }))
+    )
+  );
+  for (const p of mine) {
+    p.milestone.status = p.status;
+    p.milestone.settledTx = result.txHash;
+  }
+  console.log(`[EPK Booking] ${party} settled ${mine.map(p => p.milestone.kind).join(', ')} for ${inquiry.id}:`, result.txHash);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const artist = req.nextUrl.searchParams.get('artist');
+    const id = req.nextUrl.searchParams.get('id');
+    if (!artist || !id) return fail('artist and id required');
+
+    const inquiry = await getInquiry(redis, artist, id);
+    if (!inquiry) return fail('Booking not found', 404);
+
+    return NextResponse.json({ success: true, booking: inquiry });
+  } catch (error: any) {
+    console.error('[EPK Booking] Agreement read error:', error);
+    return fail(error.message || 'Failed to load booking', 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let locked: string | null = null;
+  try {
+    const body = await req.json();
+    const { action, artistAddress, inquiryId } = body;
+    if (!action || !artistAddress || !inquiryId) return fail('action, artistAddress and inquiryId required');
+
+    const inquiry = await getInquiry(redis, artistAddress, inquiryId);
+    if (!inquiry) return fail('Booking not found', 404);
+    const artist = inquiry.artistAddress.toLowerCase();
+    const now = Date.now();
+
+    // ---- Artist quotes (or re-quotes before the organizer signs)
+    if (action === 'quote') {
+      const denied = await requireOwner(req, artist);
+      if (denied) return denied;
+      if (isAgreed(inquiry.agreement) || inquiry.cancellation) {
+        return fail(`This booking is already ${inquiry.status}`, 409);
+      }
+      const holder = (await getCalendar(redis, artist))[inquiry.eventDate];
+      if (holder !== undefined && String(holder) !== inquiry.id) {
+        return fail(`${inquiry.eventDate} is already taken on your calendar`, 409);
+      }
+
+      const epk = await loadEPK(artist);
+      if (!epk) return fail('Publish your EPK before quoting', 404);
+
+      const quote = buildQuote(epk.booking, inquiry.eventDate, {
+        fee: body.fee ? String(body.fee) : undefined,
+        refundPolicy: body.refundPolicy ? parseRefundPolicy(body.refundPolicy) : undefined,
+        note: body.note ? String(body.note) : undefined,
+        version: (inquiry.quote?.version ?? 0) + 1,
+        now,
+      });
+      inquiry.quote = quote;
+      inquiry.agreement = draftAgreement(
+        agreementText(inquiry, quote, {
+          artistName: epk.artist.name,
+          technicalRider: epk.technicalRider,
+          hospitalityRider: epk.hospitalityRider,
+        }),
+        quote.version
+      );
+      await save(inquiry);
+      return NextResponse.json({
+        success: true,
+        booking: inquiry,
+        message: agreementSignatureMessage(inquiry.agreement.hash, 'artist', artist),
+      });
+    }
+
+    // ---- Either party signs the current agreement
+    if (action === 'sign') {
+      const { role, userAddress, hash, signature } = body;
+      if ((role !== 'artist' && role !== 'organizer') || !userAddress || !signature) {
+        return fail('role, userAddress and signature required');
+      }
+      const signer = String(userAddress).toLowerCase();
+      const agreement = inquiry.agreement;
+      if (!agreement || !inquiry.quote || inquiry.cancellation) return fail('There is no agreement to sign', 409);
+      if (hash !== agreement.hash) return fail('The quote has changed; review the new version', 409);
+      if (role === 'artist' && signer !== artist) return fail('Only the artist can sign as the artist', 403);
+      if (role === 'organizer') {
+        if (!inquiry.organizerAddress) return fail('This inquiry has no organizer wallet; send a new one', 409);
+        if (inquiry.organizerAddress !== signer) return fail('Another wallet is the organizer on this booking', 403);
+        if (inquiry.quote.expiresAt < now) return fail('This quote has expired; ask the artist for a new one', 409);
+      }
+
+      const auth = await verifySignature(agreementSignatureMessage(agreement.hash, role, signer), signature, signer);
+      if (!auth.valid) return fail('Signature does not match this agreement', 403);
+
+      const signed = addAgreementSignature(agreement, { role, address: signer, signature, signedAt: now });
+      if (isAgreed(signed)) {
+        // The date goes to whichever booking is agreed first
+        if ((await holdDate(redis, artist, inquiry.eventDate, inquiry.id)) !== inquiry.id) {
+          return fail(`The artist is no longer available on ${inquiry.eventDate}`, 409);
+        }
+        inquiry.milestones = inquiry.quote.milestones.map(m => ({ ...m }));
+      }
+      inquiry.agreement = signed;
+      if (isAgreed(signed)) {
+        inquiry.agreement.ipfsCid = (await uploadAgreementToIPFS(inquiry)) ?? undefined;
+      }
+      await save(inquiry);
+      if (isAgreed(signed)) await awaitDeposit(redis, inquiry);
+      return NextResponse.json({ success: true, booking: inquiry });
+    }
+
+    // ---- Organizer pays a milestone into escrow
+    if (action === 'fund') {
+      const kind = body.kind as MilestoneKind;
+      if (!inquiry.organizerAddress) return fail('Both parties must sign the agreement first', 409);
+      const denied = await requireOwner(req, inquiry.organizerAddress);
+      if (denied) return denied;
+      const blocker = fundingBlocker(inquiry, kind, now);
+      if (blocker) return fail(blocker, 409);
+      if (!EPK_REGISTRY_ADDRESS || !WMON_ADDRESS) return fail('EPK Registry not configured', 500);
+      if (!(await claimBookingAction(redis, inquiry.id))) return fail('Another payment for this booking is in progress', 409);
+      locked = inquiry.id;
+
+      const milestone = inquiry.milestones!.find(m => m.kind === kind)!;
+      const amountWei = parseEther(milestone.amount);
+      const artistSafe = await getUserSafeAddress(artist);
+      const result = await sendUserSafeTransaction(inquiry.organizerAddress, [
+        {
+          to: WMON_ADDRESS,
+          value: 0n,
+          data: encodeFunctionData({ abi: ERC20ABI, functionName: 'approve', args: [EPK_REGISTRY_ADDRESS as Address, amountWei] }),
+        },
+        {
+          to: EPK_REGISTRY_ADDRESS as Address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: EPKRegistryABI,
+            functionName: 'createBooking',
+            args: [artistSafe, amountWei, inquiry.agreement?.ipfsCid || inquiry.agreement?.hash || ''],
+          }),
+        },
+      ]);
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: result.txHash as Hex });
+      const [created] = parseEventLogs({ abi: EPKRegistryABI as any, eventName: 'BookingCreated', logs: receipt.logs }) as any[];
+      if (!created) return fail('Escrow transaction did not create a booking', 502);
+
+      milestone.status = 'escrowed';
+      milestone.escrowId = Number(created.args.bookingId);
+      milestone.fundedTx = result.txHash;
+      await save(inquiry);
+      if (kind === 'deposit') await stopAwaitingDeposit(redis, inquiry);
+      console.log(`[EPK Booking] ${kind} for ${inquiry.id} in escrow #${milestone.escrowId}:`, result.txHash);
+      return NextResponse.json({ success: true, booking: inquiry, txHash: result.txHash });
+    }
+
+    // ---- Artist releases the escrow after the show
+    if (action === 'release') {
+      const denied = await requireOwner(req, artist);
+      if (denied) return denied;
+      const blocker = releaseBlocker(inquiry, now);
+      if (blocker) return fail(blocker, 409);
+      if (!(await claimBookingAction(redis, inquiry.id))) return fail('Another payment for this booking is in progress', 409);
+      locked = inquiry.id;
+
+      const plan = inquiry.milestones!.map(milestone => ({
+        milestone,
+        calls: settlementCalls(milestone, 'release'),
+        status: 'released' as const,
+      }));
+      await settle(inquiry, 'artist', plan);
+      inquiry.completedAt = now;
+      await save(inquiry);
+      return NextResponse.json({ success: true, booking: inquiry });
+    }
+
+    // ---- Either party cancels; the refund policy decides where escrow goes
+    if (action === 'cancel') {
+      const caller = String(body.userAddress || '').toLowerCase();
+      const by = caller === artist ? 'artist' : caller && caller === inquiry.organizerAddress ? 'organizer' : null;
+      if (!by) return fail('Only the artist or the organizer can cancel', 403);
+      const denied = await requireOwner(req, caller);
+      if (denied) return denied;
+      if (!(await claimBookingAction(redis, inquiry.id))) return fail('Another payment for this booking is in progress', 409);
+      locked = inquiry.id;
+
+      const terms = cancellationTerms(inquiry, by, now, body.reason ? String(body.reason) : undefined);
+      const plan = terms.outcomes.flatMap(({ kind, outcome }) => {
+        const milestone = inquiry.milestones!.find(m => m.kind === kind)!;
+        if (outcome === 'waive') {
+          if (milestone.status === 'due') milestone.status = 'waived';
+          return [];
+        }
+        return [{
+          milestone,
+          calls: settlementCalls(milestone, outcome),
+          status: outcome === 'release' ? ('released' as const) : ('refunded' as const),
+        }];
+      });
+
+      try {
+        await settle(inquiry, 'artist', plan);
+        await settle(inquiry, 'organizer', plan);
+      } catch (err) {
+        // Keep whatever settled; a retry only touches milestones still in escrow
+        await save(inquiry);
+        throw err;
+      }
+
+      inquiry.cancellation = terms.cancellation;
+      await releaseDate(redis, artist, inquiry.eventDate, inquiry.id);
+      await save(inquiry);
+      await stopAwaitingDeposit(redis, inquiry);
+      return NextResponse.json({ success: true, booking: inquiry });
+    }
+
+    return fail('Invalid action. Must be: quote, sign, fund, release or cancel');
+  } catch (error: any) {
+    if (error instanceof BookingError) return fail(error.message, error.status);
+    console.error('[EPK Booking] Agreement error:', error);
+    return fail(error.message || 'Booking action failed', 500);
+  } finally {
+    if (locked) await releaseBookingAction(redis, locked);
+  }
+}
@@ -1,99 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
-import { encodeFunctionData, parseEther, type Address } from 'viem';
-import { sendUserSafeTransaction } from '@/lib/user-safe';
-import { EPK_INQUIRY_PREFIX, EPK_REGISTRY_ADDRESS } from '@/lib/epk/constants';
+import { randomBytes } from 'crypto';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { EPK_INQUIRY_PREFIX } from '@/lib/epk/constants';
+import { daysUntil, getCalendar, isBookingDate, saveInquiry } from '@/lib/epk/booking';
 import type { BookingInquiry } from '@/lib/epk/types';
-import EPKRegistryABI from '@/lib/abis/EPKRegistry.json';
-import ERC20ABI from '@/lib/abis/ERC20.json';
 
 const redis = Redis.fromEnv();
 
-const PINATA_JWT = process.env.PINATA_JWT;
-const WMON_ADDRESS = process.env.NEXT_PUBLIC_WMON as Address;
+const INQUIRY_FIELDS = [
+  'name', 'email', 'company', 'eventName', 'eventDate', 'location', 'eventType', 'expectedAttendance', 'message',
+] as const;
 
 /**
- * POST /api/epk/booking - Create a booking with WMON deposit
- * Body: { inquiry: BookingInquiry, userAddress: string, depositAmount: string }
+ * POST /api/epk/booking - Submit a booking inquiry
+ * Body: { inquiry: { artistAddress, organizerAddress, name, email, eventName, eventDate, ... } }
+ *
+ * Money moves later: the artist quotes, both sign the agreement and the organizer pays the
+ * milestones into escrow (see /api/epk/booking/agreement). Dates already taken on the
+ * artist's calendar are refused here. The organizer proves the wallet with Quick Auth or a
+ * wallet signature, and only that wallet can countersign the agreement later: inquiry ids are
+ * listed publicly, so the id alone must not make anyone the organizer.
  */
 export async function POST(req: NextRequest) {
   try {
-    const { inquiry, userAddress, depositAmount } = await req.json();
+    const { inquiry } = await req.json();
 
-    if (!inquiry || !userAddress || !inquiry.artistAddress) {
-      return NextResponse.json({ error: 'inquiry, userAddress, and artistAddress required' }, { status: 400 });
+    if (!inquiry || !inquiry.artistAddress) {
+      return NextResponse.json({ error: 'inquiry and artistAddress required' }, { status: 400 });
+    }
+    const organizerAddress = String(inquiry.organizerAddress || '').toLowerCase();
+    if (!/^0x[0-9a-f]{40}$/.test(organizerAddress)) {
+      return NextResponse.json({ error: 'Connect the wallet you will sign and pay with' }, { status: 400 });
+    }
+    if (!isBookingDate(inquiry.eventDate) || daysUntil(inquiry.eventDate, Date.now()) < 1) {
+      return NextResponse.json({ error: 'Choose an event date after today' }, { status: 400 });
+    }
+
+    const artistAddress = String(inquiry.artistAddress).toLowerCase();
+    if (organizerAddress === artistAddress) {
+      return NextResponse.json({ error: 'You cannot book yourself' }, { status: 400 });
+    }
+    const auth = await authorizeUserAddress(req, organizerAddress, 'epk-booking');
+    if (!auth.ownsAddress) {
+      return NextResponse.json({ error: 'Sign in with the wallet you will sign and pay with' }, { status: 401 });
+    }
+
+    const calendar = await getCalendar(redis, artistAddress);
+    if (calendar[inquiry.eventDate] !== undefined) {
+      return NextResponse.json({ error: `The artist is not available on ${inquiry.eventDate}` }, { status: 409 });
     }
 
-    const inquiryId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-    const bookingInquiry: BookingInquiry = {
-      ...inquiry,
+    const inquiryId = `${Date.now()}-${randomBytes(6).toString('hex')}`;
+    const bookingInquiry = {
+      artistAddress,
+      organizerAddress,
       id: inquiryId,
       status: 'inquiry',
       createdAt: Date.now(),
-    };
-
-    // If deposit amount provided, process on-chain booking
-    let txHash: string | null = null;
-    let bookingId: number | null = null;
-
-    if (depositAmount && parseFloat(depositAmount) > 0 && EPK_REGISTRY_ADDRESS && WMON_ADDRESS) {
-      try {
-        const depositWei = parseEther(depositAmount);
-
-        // Upload event details to IPFS
-        const eventDetailsCid = await uploadEventDetailsToIPFS({
-          name: inquiry.name,
-          company: inquiry.company,
-          eventName: inquiry.eventName,
-          eventDate: inquiry.eventDate,
-          location: inquiry.location,
-          eventType: inquiry.eventType,
-          expectedAttendance: inquiry.expectedAttendance,
-          message: inquiry.message,
-        });
-
-        // Approve WMON spending + create booking in one batch
-        const approveData = encodeFunctionData({
-          abi: ERC20ABI,
-          functionName: 'approve',
-          args: [EPK_REGISTRY_ADDRESS as Address, depositWei],
-        });
-
-        const bookingData = encodeFunctionData({
-          abi: EPKRegistryABI,
-          functionName: 'createBooking',
-          args: [inquiry.artistAddress as Address, depositWei, eventDetailsCid || ''],
-        });
-
-        const result = await sendUserSafeTransaction(userAddress, [
-          { to: WMON_ADDRESS, value: 0n, data: approveData },
-          { to: EPK_REGISTRY_ADDRESS as Address, value: 0n, data: bookingData },
-        ]);
-
-        txHash = result.txHash;
-        bookingInquiry.status = 'deposited';
-        bookingInquiry.depositAmount = depositAmount;
-        bookingInquiry.txHash = txHash;
-
-        console.log('[EPK Booking] On-chain booking created:', txHash);
-      } catch (chainError: any) {
-        console.error('[EPK Booking] On-chain booking failed:', chainError.message);
-        // Still save the inquiry
-      }
+    } as BookingInquiry;
+    // Only the organizer's own fields; quotes and signatures never come from this form
+    for (const field of INQUIRY_FIELDS) {
+      if (inquiry[field] !== undefined) bookingInquiry[field] = String(inquiry[field]).slice(0, 2000);
     }
 
-    // Store inquiry in Redis (private data, not on-chain)
-    await redis.set(
-      `${EPK_INQUIRY_PREFIX}${inquiry.artistAddress}:${inquiryId}`,
-      JSON.stringify(bookingInquiry),
-      { ex: 60 * 60 * 24 * 90 } // 90 days TTL
-    );
+    // Stored in Redis (private data, not on-chain)
+    await saveInquiry(redis, bookingInquiry);
 
     return NextResponse.json({
       success: true,
       inquiryId,
-      txHash,
-      bookingId,
+      artistAddress,
       status: bookingInquiry.status,
     });
   } catch (error: any) {
@@ -107,7 +84,7 @@ export async function POST(req: NextRequest) {
  */
 export async function GET(req: NextRequest) {
   try {
-    const artistAddress = req.nextUrl.searchParams.get('artist');
+    const artistAddress = req.nextUrl.searchParams.get('artist')?.toLowerCase();
     if (!artistAddress) {
       return NextResponse.json({ error: 'artist address required' }, { status: 400 });
     }
@@ -136,26 +113,3 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: error.message }, { status: 500 });
   }
 }
-
-async function uploadEventDetailsToIPFS(details: Record<string, any>): Promise<string | null> {
-  if (!PINATA_JWT) return null;
-
-  try {
-    const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${PINATA_JWT}`,
-      },
-      body: JSON.stringify({
-        pinataContent: { ...details, timestamp: Date.now() },
-        pinataMetadata: { name: `booking-details-${Date.now()}` },
-      }),
-    });
-
-    const data = await response.json();
-    return data.IpfsHash || null;
-  } catch {
-    return null;
-  }
-}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Redis } from '@upstash/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import {
+  CALENDAR_BLOCKED,
+  calendarEntries,
+  daysUntil,
+  getCalendar,
+  holdDate,
+  isBookingDate,
+  releaseDate,
+} from '@/lib/epk/booking';
+
+const redis = Redis.fromEnv();
+
+/**
+ * GET /api/epk/calendar?artist=0x... - Dates the artist cannot take, from today on
+ * Public: each date says only whether it is booked or blocked, not by whom.
+ *
+ * POST /api/epk/calendar - Mark a date unavailable, or free it again
+ * Body: { artistAddress, action: 'block' | 'unblock', date: 'YYYY-MM-DD' }
+ * Dates held by an agreed booking are freed only by cancelling that booking.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const artist = req.nextUrl.searchParams.get('artist')?.toLowerCase();
+    if (!artist) {
+      return NextResponse.json({ error: 'artist address required' }, { status: 400 });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const entries = calendarEntries(await getCalendar(redis, artist), today);
+
+    return NextResponse.json({ success: true, dates: entries.map(({ date, kind }) => ({ date, kind })) });
+  } catch (error: any) {
+    console.error('[EPK Calendar] Error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { artistAddress, action, date } = await req.json();
+    if (!artistAddress || !isBookingDate(date)) {
+      return NextResponse.json({ error: 'artistAddress and date (YYYY-MM-DD) required' }, { status: 400 });
+    }
+
+    const artist = String(artistAddress).toLowerCase();
+    const decision = await authorizeUserAddress(req, artist, 'epk-booking');
+    if (!decision.ownsAddress) {
+      return NextResponse.json({ error: 'Sign in as the artist to edit this calendar' }, { status: 401 });
+    }
+
+    if (action === 'block') {
+      if (daysUntil(date, Date.now()) < 0) {
+        return NextResponse.json({ error: 'That date has passed' }, { status: 400 });
+      }
+      if ((await holdDate(redis, artist, date, CALENDAR_BLOCKED)) !== CALENDAR_BLOCKED) {
+        return NextResponse.json({ error: `${date} is held by a booking` }, { status: 409 });
+      }
+    } else if (action === 'unblock') {
+      await releaseDate(redis, artist, date, CALENDAR_BLOCKED);
+    } else {
+      return NextResponse.json({ error: 'action must be block or unblock' }, { status: 400 });
+    }
+
+    const today = new Date().toISOString().slice(0, 10);
+    const entries = calendarEntries(await getCalendar(redis, artist), today);
+    return NextResponse.json({ success: true, dates: entries.map(({ date, kind }) => ({ date, kind })) });
+  } catch (error: any) {
+    console.error('[EPK Calendar] Error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Redis } from '@upstash/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { deleteDraft, getDraft, saveDraft } from '@/lib/epk/versions';
+import type { EPKMetadata } from '@/lib/epk/types';
+
+const redis = Redis.fromEnv();
+
+const MAX_DRAFT_BYTES = 200_000;
+
+/**
+ * GET /api/epk/draft?artist=0x... - Whether the artist has an unpublished draft
+ * Add &full=1 (signed in as the artist) for the draft itself.
+ *
+ * POST /api/epk/draft - Save a draft without publishing
+ * Body: { userAddress: string, metadata: EPKMetadata, baseCid?: string | null }
+ *
+ * DELETE /api/epk/draft?artist=0x... - Discard the draft
+ *
+ * A draft lives only in Redis; publishing (POST /api/epk) uploads it and clears it.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const artist = req.nextUrl.searchParams.get('artist')?.toLowerCase();
+    if (!artist) {
+      return NextResponse.json({ error: 'artist address required' }, { status: 400 });
+    }
+
+    const draft = await getDraft(redis, artist);
+    if (!draft) return NextResponse.json({ success: true, draft: null });
+
+    if (req.nextUrl.searchParams.get('full') === '1') {
+      const decision = await authorizeUserAddress(req, artist, 'epk-edit');
+      if (!decision.ownsAddress) {
+        return NextResponse.json({ error: 'Sign in as the artist to open this draft' }, { status: 401 });
+      }
+      return NextResponse.json({ success: true, draft });
+    }
+
+    return NextResponse.json({ success: true, draft: { savedAt: draft.savedAt, baseCid: draft.baseCid } });
+  } catch (error: any) {
+    console.error('[EPK Draft] Read error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userAddress, metadata, baseCid } = await req.json();
+    if (!userAddress || !metadata?.artist) {
+      return NextResponse.json({ error: 'userAddress and metadata required' }, { status: 400 });
+    }
+    if (JSON.stringify(metadata).length > MAX_DRAFT_BYTES) {
+      return NextResponse.json({ error: 'Draft is too large' }, { status: 413 });
+    }
+
+    const artist = String(userAddress).toLowerCase();
+    const decision = await authorizeUserAddress(req, artist, 'epk-edit');
+    if (!decision.ownsAddress) {
+      return NextResponse.json({ error: 'Sign in as the artist to save a draft' }, { status: 401 });
+    }
+
+    // The draft keeps the version it was first started from across saves
+    const existing = await getDraft(redis, artist);
+    const startedFrom = existing
+      ? existing.baseCid
+      : baseCid !== undefined
+        ? baseCid
+        : await redis.get<string>(`epk:cache:${artist}`);
+
+    const draft = { metadata: metadata as EPKMetadata, savedAt: Date.now(), baseCid: startedFrom ?? null };
+    await saveDraft(redis, artist, draft);
+
+    return NextResponse.json({ success: true, savedAt: draft.savedAt, baseCid: draft.baseCid });
+  } catch (error: any) {
+    console.error('[EPK Draft] Save error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  try {
+    const artist = req.nextUrl.searchParams.get('artist')?.toLowerCase();
+    if (!artist) {
+      return NextResponse.json({ error: 'artist address required' }, { status: 400 });
+    }
+
+    const decision = await authorizeUserAddress(req, artist, 'epk-edit');
+    if (!decision.ownsAddress) {
+      return NextResponse.json({ error: 'Sign in as the artist to discard this draft' }, { status: 401 });
+    }
+
+    await deleteDraft(redis, artist);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('[EPK Draft] Delete error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { NeynarAPIClient, Configuration } from '@neynar/nodejs-sdk';
+import { importFromFarcaster, importFromJSON, importFromLinks, importFromText, type EPKImport } from '@/lib/epk/import';
+import { extractPdfText } from '@/lib/epk/pdf-text';
+import { validateEPK } from '@/lib/epk/utils';
+
+const MAX_IMPORT_BYTES = 5 * 1024 * 1024;
+const MAX_LINKS_CHARS = 20_000;
+
+/**
+ * POST /api/epk/import - Read an existing press kit into EPK fields
+ *
+ * multipart/form-data with `file`: a PDF or JSON press kit
+ * JSON { kind: 'links', text } - one link per line
+ * JSON { kind: 'farcaster', fid } - the artist's Farcaster profile
+ *
+ * Output: { success, source, draft, found, warnings, validation }
+ * Nothing is saved; the editor merges the draft into the form. `validation` is validateEPK on
+ * the import alone, so the artist sees which required fields it did not cover.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    let result: EPKImport;
+
+    if (req.headers.get('content-type')?.includes('multipart/form-data')) {
+      const formData = await req.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'file is required' }, { status: 400 });
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json({ error: 'File is too large (5MB max)' }, { status: 413 });
+      }
+
+      const bytes = new Uint8Array(await file.arrayBuffer());
+      const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+
+      if (isPdf) {
+        const text = extractPdfText(bytes);
+        if (!text) {
+          return NextResponse.json({
+            error: 'No readable text in this PDF (scanned pages or embedded fonts). Try a JSON export or paste your links instead.',
+          }, { status: 422 });
+        }
+        result = importFromText(text, 'pdf');
+      } else {
+        let parsed: unknown;
+        try {
+          parsed = JSON.parse(new TextDecoder().decode(bytes));
+        } catch {
+          return NextResponse.json({ error: 'Upload a PDF or a JSON press kit' }, { status: 400 });
+        }
+        result = importFromJSON(parsed);
+      }
+    } else {
+      const { kind, text, fid } = await req.json();
+
+      if (kind === 'links') {
+        if (typeof text !== 'string' || !text.trim()) {
+          return NextResponse.json({ error: 'Paste at least one link' }, { status: 400 });
+        }
+        result = importFromLinks(text.slice(0, MAX_LINKS_CHARS));
+      } else if (kind === 'farcaster') {
+        if (!fid) {
+          return NextResponse.json({ error: 'fid is required' }, { status: 400 });
+        }
+        const profile = await fetchFarcasterProfile(Number(fid));
+        if (!profile) {
+          return NextResponse.json({ error: 'Could not load that Farcaster profile' }, { status: 502 });
+        }
+        result = importFromFarcaster(profile);
+      } else {
+        return NextResponse.json({ error: 'kind must be links or farcaster' }, { status: 400 });
+      }
+    }
+
+    return NextResponse.json({ success: true, ...result, validation: validateEPK(result.draft as any) });
+  } catch (error: any) {
+    console.error('[EPK Import] Error:', error);
+    return NextResponse.json({ error: error.message || 'Import failed' }, { status: 500 });
+  }
+}
+
+async function fetchFarcasterProfile(fid: number) {
+  const apiKey = process.env.NEXT_PUBLIC_NEYNAR_API_KEY || process.env.NEYNAR_API_KEY;
+  if (!apiKey || !fid) return null;
+
+  try {
+    const neynar = new NeynarAPIClient(new Configuration({
+      apiKey,
+      baseOptions: { headers: { 'x-neynar-experimental': 'false' } },
+    }));
+    const result = await neynar.fetchBulkUsers({ fids: [fid] });
+    const user = result.users[0] as any;
+    if (!user) return null;
+
+    const address = user.profile?.location?.address;
+    return {
+      fid,
+      username: user.username || '',
+      displayName: user.display_name || '',
+      bio: user.profile?.bio?.text || '',
+      pfpUrl: user.pfp_url || '',
+      location: address ? [address.city, address.country].filter(Boolean).join(', ') : undefined,
+      twitter: user.verified_accounts?.find((a: any) => a.platform === 'x')?.username,
+    };
+  } catch (error) {
+    console.error('[EPK Import] Neynar fetch failed:', error);
+    return null;
+  }
+}
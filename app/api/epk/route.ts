@@ -4,6 +4,7 @@ import { encodeFunctionData, type Address } from 'viem';
 import { sendUserSafeTransaction } from '@/lib/user-safe';
 import { EPK_SLUG_PREFIX, EPK_REGISTRY_ADDRESS } from '@/lib/epk/constants';
 import { slugify, validateEPK } from '@/lib/epk/utils';
+import { deleteDraft, publishConflict, recordPublish } from '@/lib/epk/versions';
 import type { EPKMetadata } from '@/lib/epk/types';
 import EPKRegistryABI from '@/lib/abis/EPKRegistry.json';
 
@@ -14,11 +15,15 @@ const PINATA_GATEWAY = process.env.PINATA_GATEWAY || 'harlequin-used-hare-224.my
 
 /**
  * POST /api/epk - Create or update an EPK
- * Body: { metadata: EPKMetadata, userAddress: string, userFid: number, update?: boolean }
+ * Body: { metadata: EPKMetadata, userAddress: string, userFid: number, update?: boolean, baseCid?: string | null, force?: boolean }
+ *
+ * baseCid is the published CID the edit started from. If another publish has happened since,
+ * the request is refused with 409 (and the current CID) unless force is set. Publishing
+ * records the version and clears the artist's saved draft.
  */
 export async function POST(req: NextRequest) {
   try {
-    const { metadata, userAddress, userFid, update } = await req.json();
+    const { metadata, userAddress, userFid, update, baseCid, force } = await req.json();
 
     if (!metadata || !userAddress) {
       return NextResponse.json({ error: 'metadata and userAddress required' }, { status: 400 });
@@ -30,6 +35,12 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Invalid EPK metadata', details: validation.errors }, { status: 400 });
     }
 
+    const currentCid = await redis.get<string>(`epk:cache:${userAddress.toLowerCase()}`);
+    const conflict = force ? null : publishConflict(baseCid, currentCid);
+    if (conflict) {
+      return NextResponse.json({ error: conflict, conflict: true, currentCid }, { status: 409 });
+    }
+
     // Set wallet and fid on metadata
     const epkData: EPKMetadata = {
       ...metadata,
@@ -81,6 +92,9 @@ export async function POST(req: NextRequest) {
     // Cache the IPFS CID so subsequent fetches get the latest version immediately
     await redis.set(`epk:cache:${userAddress.toLowerCase()}`, ipfsCid);
 
+    await recordPublish(redis, userAddress, { cid: ipfsCid, publishedAt: Date.now(), source: 'publish', txHash });
+    await deleteDraft(redis, userAddress);
+
     return NextResponse.json({
       success: true,
       slug,
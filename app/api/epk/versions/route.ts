@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Redis } from '@upstash/redis';
+import { encodeFunctionData, type Address } from 'viem';
+import { sendUserSafeTransaction } from '@/lib/user-safe';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { EPK_REGISTRY_ADDRESS, EPK_SLUG_PREFIX } from '@/lib/epk/constants';
+import { fetchEPKFromIPFS, fetchEPKHistoryFromChain } from '@/lib/epk/utils';
+import {
+  changedSections,
+  diffEPK,
+  listPublishRecords,
+  mergeVersions,
+  recordPublish,
+  rollbackBlocker,
+} from '@/lib/epk/versions';
+import EPKRegistryABI from '@/lib/abis/EPKRegistry.json';
+
+const redis = Redis.fromEnv();
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || '';
+
+/**
+ * GET /api/epk/versions?artist=0x... - Every published version, newest first
+ * GET /api/epk/versions?artist=0x...&from=<cid>&to=<cid> - Field-level diff between two of them
+ *
+ * POST /api/epk/versions - Roll back to an earlier version
+ * Body: { userAddress: string, cid: string }
+ * Re-registers the CID with updateEPK from the artist's Safe; it becomes the newest version.
+ */
+
+async function loadVersions(artist: string) {
+  const [events, records] = await Promise.all([
+    ENVIO_ENDPOINT ? fetchEPKHistoryFromChain(artist, ENVIO_ENDPOINT) : Promise.resolve([]),
+    listPublishRecords(redis, artist),
+  ]);
+  return mergeVersions(events, records);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const artist = params.get('artist')?.toLowerCase();
+    if (!artist) {
+      return NextResponse.json({ error: 'artist address required' }, { status: 400 });
+    }
+
+    const versions = await loadVersions(artist);
+    const from = params.get('from');
+    const to = params.get('to');
+
+    if (!from && !to) {
+      return NextResponse.json({ success: true, versions });
+    }
+
+    // Only this artist's versions, so the route is not a general IPFS proxy
+    const known = new Set(versions.map(v => v.cid));
+    if (!from || !to || !known.has(from) || !known.has(to)) {
+      return NextResponse.json({ error: 'from and to must both be versions of this EPK' }, { status: 400 });
+    }
+
+    const [before, after] = await Promise.all([fetchEPKFromIPFS(from), fetchEPKFromIPFS(to)]);
+    if (!before || !after) {
+      return NextResponse.json({ error: 'Could not load one of the versions from IPFS' }, { status: 502 });
+    }
+
+    const changes = diffEPK(before, after);
+    return NextResponse.json({ success: true, from, to, changes, sections: changedSections(changes) });
+  } catch (error: any) {
+    console.error('[EPK Versions] Read error:', error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const { userAddress, cid } = await req.json();
+    if (!userAddress || !cid) {
+      return NextResponse.json({ error: 'userAddress and cid required' }, { status: 400 });
+    }
+
+    const artist = String(userAddress).toLowerCase();
+    const decision = await authorizeUserAddress(req, artist, 'epk-edit');
+    if (!decision.ownsAddress) {
+      return NextResponse.json({ error: 'Sign in as the artist to roll back' }, { status: 401 });
+    }
+
+    const blocker = rollbackBlocker(await loadVersions(artist), cid);
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    const epk = await fetchEPKFromIPFS(cid);
+    if (!epk) {
+      return NextResponse.json({ error: 'That version is no longer reachable on IPFS' }, { status: 502 });
+    }
+
+    let txHash: string | null = null;
+    if (EPK_REGISTRY_ADDRESS) {
+      const data = encodeFunctionData({ abi: EPKRegistryABI, functionName: 'updateEPK', args: [cid] });
+      const result = await sendUserSafeTransaction(artist, [
+        { to: EPK_REGISTRY_ADDRESS as Address, value: 0n, data },
+      ]);
+      txHash = result.txHash;
+      console.log(`[EPK] Rolled back ${artist} to ${cid}:`, txHash);
+    }
+
+    await redis.set(`epk:cache:${artist}`, cid);
+    if (epk.artist?.slug) await redis.set(`${EPK_SLUG_PREFIX}${epk.artist.slug}`, artist);
+    await recordPublish(redis, artist, { cid, publishedAt: Date.now(), source: 'rollback', txHash });
+
+    return NextResponse.json({
+      success: true,
+      cid,
+      txHash,
+      explorer: txHash ? `https://monadscan.com/tx/${txHash}` : null,
+    });
+  } catch (error: any) {
+    console.error('[EPK Versions] Rollback error:', error);
+    return NextResponse.json({ error: error.message || 'Rollback failed' }, { status: 500 });
+  }
+}
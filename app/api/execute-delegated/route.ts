@@ -50,6 +50,7 @@ import {
   type RightsDeclaration,
 } from "@/lib/rights-declaration";
 import { authorizeUserAddress } from "@/lib/quick-auth";
+import { linkMint, screenMint } from "@/lib/mint-fingerprint";
 
 // Shared by ERC-20 and ERC-721: Transfer(address,address,uint256).
 // ERC-721 indexes the tokenId, so a mint has 4 topics with topics[1] == 0x0;
@@ -99,6 +100,61 @@ async function executeTransaction(
   }
 }
 
+// ✅ Helper: The upload route screens what it pins, but any metadata uri can be minted, so the
+// mint actions screen the recording `uri` names too. Null when the mint may go ahead; unreadable
+// metadata is refused, since the check cannot be made.
+async function refuseKnownRecording(
+  uri: string,
+  userAddress: string,
+): Promise<NextResponse | null> {
+  let mintScreening;
+  try {
+    const { redis } = await import("@/lib/redis");
+    mintScreening = await screenMint(redis, uri, userAddress);
+  } catch (screenError: any) {
+    console.error("⚠️ Mint fingerprint check failed:", screenError.message);
+    return NextResponse.json(
+      {
+        success: false,
+        error:
+          "Could not read the track to check it against the catalogue. Try again shortly.",
+      },
+      { status: 503 },
+    );
+  }
+  const { screening } = mintScreening;
+  console.log("🔎 Mint fingerprint check:", screening?.verdict ?? "unscanned");
+  if (screening?.verdict !== "block") return null;
+  return NextResponse.json(
+    {
+      success: false,
+      error: screening.reason,
+      fingerprintMatch: screening.match,
+    },
+    { status: 409 },
+  );
+}
+
+// ✅ Helper: Links a minted master to its recording's fingerprint, so it blocks re-uploads from now
+// on. Non-fatal: tools/build-fingerprint-index.ts links anything missed here.
+async function linkMintedRecording(
+  uri: string,
+  tokenId: string,
+  userAddress: string,
+): Promise<void> {
+  try {
+    const { redis } = await import("@/lib/redis");
+    if (await linkMint(redis, uri, tokenId, userAddress)) {
+      console.log("🔎 Fingerprint linked to token:", tokenId);
+    }
+  } catch (linkError: any) {
+    console.warn(
+      "⚠️ Failed to link fingerprint (non-fatal):",
+      linkError.message,
+    );
+  }
+}
+
 // ✅ Helper: Convert price from wei (18 decimals) to readable TOURS
 function convertPriceFromWei(price: string | number | bigint): string {
   try {
@@ -903,6 +959,12 @@ ${params.countryCode || "US"} ${params.countryName || "United States"}
             );
           }
 
+          // The uri the artist signed is the one minted, whatever `params.tokenURI` says
+          if (!isArtNFT) {
+            const refused = await refuseKnownRecording(parsed.uri, userAddress);
+            if (refused) return refused;
+          }
+
           musicCalls = [
             {
               to: salesController,
@@ -915,6 +977,14 @@ ${params.countryCode || "US"} ${params.countryName || "United States"}
             },
           ];
         } else {
+          if (!isArtNFT) {
+            const refused = await refuseKnownRecording(
+              params.tokenURI,
+              userAddress,
+            );
+            if (refused) return refused;
+          }
+
           musicCalls = [
             {
               to: EMPOWER_TOURS_NFT,
@@ -984,6 +1054,17 @@ ${params.countryCode || "US"} ${params.countryName || "United States"}
           );
         }
 
+        if (!isArtNFT && extractedTokenId !== "0") {
+          const signed = isV3Contracts()
+            ? deserializeMintRequest(params.mintRequest)
+            : null;
+          await linkMintedRecording(
+            signed && !("error" in signed) ? signed.uri : params.tokenURI,
+            extractedTokenId,
+            userAddress,
+          );
+        }
+
         // ✅ Store rights declaration in Redis (non-blocking)
         if (params.rightsDeclaration && extractedTokenId !== "0") {
           try {
@@ -1445,6 +1526,15 @@ ${params.countryCode || "US"} ${params.countryName || "United States"}
           });
         }
 
+        // v3 has already checked the signed uri is `params.tokenURI`
+        if (!isCollectorArt) {
+          const refused = await refuseKnownRecording(
+            params.tokenURI,
+            userAddress,
+          );
+          if (refused) return refused;
+        }
+
         const requiredValue = hasCreationFee ? COLLECTOR_CREATION_FEE : 0n;
         console.log(
           `💳 Executing collector NFT mint transaction${hasCreationFee ? " (with 5 WMON creation fee)" : " (no fee)"}...`,
@@ -1494,6 +1584,14 @@ ${params.countryCode || "US"} ${params.countryName || "United States"}
           );
         }
 
+        if (!isCollectorArt && collectorTokenId !== "0") {
+          await linkMintedRecording(
+            params.tokenURI,
+            collectorTokenId,
+            userAddress,
+          );
+        }
+
         // Post Farcaster cast with collector edition details
         if (params?.fid) {
           try {
@@ -3295,7 +3393,13 @@ ${enjoyText}
       case "country_collector_complete":
         console.log("🌍 Action: country_collector_complete");
 
-        if (!params?.weekId || !params?.artistIndex || !params?.artistId) {
+        // artistIndex is 0-2, so 0 is a real index and not a missing one
+        if (
+          !params?.weekId ||
+          params?.artistIndex === undefined ||
+          params?.artistIndex === null ||
+          !params?.artistId
+        ) {
           return NextResponse.json(
             { success: false, error: "Missing parameters" },
             { status: 400 },
@@ -5031,6 +5135,7 @@ ${enjoyText}
               userAddress,
               userFid: fid || 0,
               txHash: skipTxHash,
+              stationId: params?.stationId,
             }),
           });
           skipResult = await skipRes.json();
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redis } from '@/lib/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { actsForGuide, readGuide } from '@/lib/guide-registry';
+import {
+  GuideBookingError,
+  addSlots,
+  getSlotHolds,
+  getSlots,
+  openSlots,
+  parseSlots,
+  removeSlot,
+} from '@/lib/guide-booking';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Guide availability (see lib/guide-booking.ts).
+ *
+ *   GET  ?fid=                                              → { slots }  open, soonest first
+ *   POST { action: 'add', guideFid, userAddress, slots: [{ start, end }] }
+ *   POST { action: 'remove', guideFid, userAddress, slotId }
+ *
+ * Times are ISO strings or epoch ms. Only the registered guide can change their slots, and a
+ * slot someone has paid for cannot be removed — cancel the booking instead.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const fid = Number(req.nextUrl.searchParams.get('fid'));
+    if (!Number.isInteger(fid) || fid <= 0) return fail('fid required');
+
+    const [slots, holds] = await Promise.all([getSlots(redis, fid), getSlotHolds(redis, fid)]);
+    return NextResponse.json({ success: true, slots: openSlots(slots, holds, Date.now()) });
+  } catch (error: any) {
+    console.error('[GuideAvailability] GET error:', error);
+    return fail(error.message || 'Failed to load availability', 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { action, userAddress } = body;
+    const guideFid = Number(body.guideFid);
+    if (!action || !userAddress || !Number.isInteger(guideFid) || guideFid <= 0) {
+      return fail('action, guideFid and userAddress required');
+    }
+
+    const decision = await authorizeUserAddress(req, userAddress, 'guide-availability');
+    if (!decision.ownsAddress) return fail('Sign in with your guide wallet', 401);
+    const guide = await readGuide(guideFid);
+    if (!guide || !(await actsForGuide(userAddress, guide.guideAddress))) {
+      return fail('Only the registered guide can change these slots', 403);
+    }
+
+    const now = Date.now();
+    if (action === 'add') {
+      const slots = parseSlots(body.slots, guideFid, await getSlots(redis, guideFid), now);
+      await addSlots(redis, guideFid, slots);
+      return NextResponse.json({ success: true, slots });
+    }
+
+    if (action === 'remove') {
+      if (!body.slotId) return fail('slotId required');
+      if (!(await removeSlot(redis, guideFid, String(body.slotId)))) {
+        return fail('That slot is booked; cancel the booking instead', 409);
+      }
+      return NextResponse.json({ success: true });
+    }
+
+    return fail('Invalid action. Must be: add or remove');
+  } catch (error: any) {
+    if (error instanceof GuideBookingError) return fail(error.message, error.status);
+    console.error('[GuideAvailability] POST error:', error);
+    return fail(error.message || 'Failed to update availability', 500);
+  }
+}
@@ -0,0 +1,389 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { encodeFunctionData, parseEventLogs, type Address, type Hex } from 'viem';
+import { redis } from '@/lib/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { publicClient, sendUserSafeTransaction } from '@/lib/user-safe';
+import {
+  TOUR_GUIDE_REGISTRY,
+  actsForGuide,
+  readAutoCompletePeriodMs,
+  readGuide,
+  registryCall,
+} from '@/lib/guide-registry';
+import {
+  GUIDE_BOOKING_KEYS,
+  GuideBookingError,
+  buildReview,
+  cancelBlocker,
+  chainRating,
+  claimGuideBookingAction,
+  completionBlocker,
+  declineBooking,
+  getGuideBooking,
+  getGuideBookings,
+  getSlots,
+  holdSlot,
+  indexGuideBooking,
+  markComplete,
+  nextGuideBookingId,
+  openGuideDispute,
+  paymentBlocker,
+  quoteBooking,
+  recordCancellation,
+  recordCompletion,
+  recordEscrow,
+  recordPaymentFailed,
+  recordPaymentSent,
+  releaseGuideBookingAction,
+  releaseSlot,
+  requestBooking,
+  respondToGuideDispute,
+  saveGuideBooking,
+  saveReview,
+  type GuideBooking,
+  type GuideParty,
+  type GuideReview,
+} from '@/lib/guide-booking';
+import TourGuideRegistryABI from '@/lib/abis/TourGuideRegistry.json';
+import ERC20ABI from '@/lib/abis/ERC20.json';
+
+export const dynamic = 'force-dynamic';
+
+const PINATA_JWT = process.env.PINATA_JWT;
+const WMON_ADDRESS = process.env.NEXT_PUBLIC_WMON as Address;
+const LIST_LIMIT = 50;
+
+/**
+ * Guide bookings — request, quote, pay into escrow, complete, confirm, cancel, dispute.
+ * See lib/guide-booking.ts.
+ *
+ * GET  ?id=GB-12                       → { booking }
+ * GET  ?guideFid=  |  ?traveler=0x…    → { bookings }  newest first
+ *
+ * POST { action: 'request', guideFid, slotId, hours, travelerFid, userAddress, note?, meetingPoint? }   traveler
+ *      { action: 'quote', id, userAddress, hours?, note? }          guide
+ *      { action: 'decline', id, userAddress, reason? }              guide
+ *      { action: 'pay', id, userAddress }                           traveler — WMON into the registry
+ *      { action: 'complete', id, userAddress, proofIPFS }           guide, once the tour has started
+ *      { action: 'confirm', id, userAddress, rating, review? }      traveler — 1-5 stars, pays the guide
+ *      { action: 'cancel', id, userAddress, reason? }               either, before the tour
+ *      { action: 'dispute', id, userAddress, statement, evidence? } either
+ *      { action: 'respond', id, userAddress, statement, evidence? } the other party
+ *
+ * Evidence is [{ cid | url, description }]; upload files through /api/upload-pinata first.
+ * Every action needs Quick Auth or a wallet signature for userAddress. Registry transactions run
+ * from the acting party's Safe, one per booking at a time; disputes, the admin's decisions and the
+ * auto-complete keeper take the same lock, so none of them saves over another.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+async function partyFor(booking: GuideBooking, userAddress: string): Promise<GuideParty | null> {
+  if (userAddress.toLowerCase() === booking.traveler) return 'traveler';
+  return (await actsForGuide(userAddress, booking.guideAddress)) ? 'guide' : null;
+}
+
+/**
+ * Read a sent payment back from its receipt. If the receipt cannot be read the booking stays
+ * paying, with its slot held, until the traveler retries; only a receipt without a registry
+ * booking frees the slot.
+ */
+async function settlePayment(booking: GuideBooking, now: number) {
+  const txHash = booking.payment!.txHash;
+  let receipt;
+  try {
+    receipt = await publicClient.waitForTransactionReceipt({ hash: txHash as Hex });
+  } catch (err) {
+    console.error(`[GuideBookings] ${booking.id} receipt for ${txHash} unavailable:`, err);
+    return NextResponse.json(
+      { success: false, error: 'Your payment was sent but has not been confirmed yet; try again shortly', booking, txHash },
+      { status: 503 }
+    );
+  }
+
+  const [created] = parseEventLogs({
+    abi: TourGuideRegistryABI.abi as any,
+    eventName: 'BookingCreated',
+    logs: receipt.logs,
+  }) as any[];
+  if (!created) {
+    recordPaymentFailed(booking, now);
+    await saveGuideBooking(redis, booking, now);
+    await releaseSlot(redis, booking);
+    return fail('Payment did not create a registry booking', 502);
+  }
+
+  recordEscrow(booking, { bookingId: Number(created.args.bookingId), txHash }, now);
+  await saveGuideBooking(redis, booking, now);
+  console.log(`[GuideBookings] ${booking.id} paid as registry booking #${booking.escrow!.bookingId}`);
+  return NextResponse.json({ success: true, booking, txHash });
+}
+
+async function uploadReviewToIPFS(review: GuideReview): Promise<string | null> {
+  if (!PINATA_JWT) return null;
+
+  try {
+    const response = await fetch('https://api.pinata.cloud/pinning/pinJSONToIPFS', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${PINATA_JWT}`,
+      },
+      body: JSON.stringify({
+        pinataContent: {
+          booking: review.bookingId,
+          guideFid: review.guideFid,
+          travelerFid: review.travelerFid,
+          rating: review.rating,
+          text: review.text,
+          at: review.at,
+        },
+        pinataMetadata: { name: `guide-review-${review.bookingId}` },
+      }),
+    });
+
+    const data = await response.json();
+    return data.IpfsHash || null;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const params = req.nextUrl.searchParams;
+    const id = params.get('id');
+    if (id) {
+      const booking = await getGuideBooking(redis, id);
+      if (!booking) return fail('Booking not found', 404);
+      return NextResponse.json({ success: true, booking });
+    }
+
+    const guideFid = Number(params.get('guideFid'));
+    const traveler = params.get('traveler');
+    const key =
+      Number.isInteger(guideFid) && guideFid > 0
+        ? GUIDE_BOOKING_KEYS.byGuide(guideFid)
+        : traveler && /^0x[a-fA-F0-9]{40}$/.test(traveler)
+          ? GUIDE_BOOKING_KEYS.byTraveler(traveler)
+          : null;
+    if (!key) return fail('id, guideFid or traveler required');
+
+    const ids = (await redis.lrange<string>(key, 0, LIST_LIMIT - 1)).map(String);
+    return NextResponse.json({ success: true, bookings: await getGuideBookings(redis, ids) });
+  } catch (error: any) {
+    console.error('[GuideBookings] GET error:', error);
+    return fail(error.message || 'Failed to load bookings', 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  let locked: string | null = null;
+  try {
+    const body = await req.json();
+    const { action, userAddress } = body;
+    if (!action || !userAddress) return fail('action and userAddress required');
+
+    const decision = await authorizeUserAddress(req, userAddress, 'guide-booking');
+    if (!decision.ownsAddress) return fail('Sign in with the wallet for this booking', 401);
+    const now = Date.now();
+
+    // ---- Traveler asks for hours in one of the guide's slots
+    if (action === 'request') {
+      const guideFid = Number(body.guideFid);
+      const travelerFid = Number(body.travelerFid);
+      if (!Number.isInteger(guideFid) || !Number.isInteger(travelerFid) || travelerFid <= 0 || !body.slotId) {
+        return fail('guideFid, slotId, hours and travelerFid required');
+      }
+      if (decision.fid && decision.fid !== travelerFid) return fail('travelerFid is not yours', 403);
+
+      const guide = await readGuide(guideFid);
+      if (!guide || !guide.active || guide.suspended) return fail('This guide is not taking bookings', 404);
+      const slot = (await getSlots(redis, guideFid)).find(s => s.id === String(body.slotId));
+      if (!slot) return fail('Slot not found', 404);
+      if ((await redis.hget(GUIDE_BOOKING_KEYS.slotHolds(guideFid), slot.id)) != null) {
+        return fail('That slot is already booked', 409);
+      }
+
+      const booking = requestBooking({
+        id: await nextGuideBookingId(redis),
+        slot,
+        guideAddress: guide.guideAddress,
+        travelerFid,
+        traveler: userAddress,
+        hours: body.hours,
+        note: body.note,
+        meetingPoint: body.meetingPoint,
+        now,
+      });
+      await saveGuideBooking(redis, booking, now);
+      await indexGuideBooking(redis, booking);
+      return NextResponse.json({ success: true, booking });
+    }
+
+    const booking = body.id ? await getGuideBooking(redis, String(body.id)) : null;
+    if (!booking) return fail('Booking not found', 404);
+    const party = await partyFor(booking, userAddress);
+    if (!party) return fail('You are not part of this booking', 403);
+    const only = (who: GuideParty) => (party === who ? null : fail(`Only the ${who} can ${action}`, 403));
+
+    // ---- Guide quotes at their on-chain rate (or re-quotes until paid)
+    if (action === 'quote') {
+      const denied = only('guide');
+      if (denied) return denied;
+      const guide = await readGuide(booking.guideFid);
+      if (!guide || guide.suspended) return fail('Your guide profile is suspended', 403);
+      if ((await redis.hget(GUIDE_BOOKING_KEYS.slotHolds(booking.guideFid), booking.slotId)) != null) {
+        return fail('That slot has been booked by someone else', 409);
+      }
+      quoteBooking(booking, { hourlyRateWei: guide.hourlyRateWei, hours: body.hours, note: body.note }, now);
+      await saveGuideBooking(redis, booking, now);
+      return NextResponse.json({ success: true, booking });
+    }
+
+    if (action === 'decline') {
+      const denied = only('guide');
+      if (denied) return denied;
+      declineBooking(booking, body.reason, now);
+      await saveGuideBooking(redis, booking, now);
+      return NextResponse.json({ success: true, booking });
+    }
+
+    // ---- Traveler pays the quote into the registry's escrow
+    if (action === 'pay') {
+      const denied = only('traveler');
+      if (denied) return denied;
+      if (!TOUR_GUIDE_REGISTRY || !WMON_ADDRESS) return fail('TourGuideRegistry not configured', 500);
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another payment for this booking is in progress', 409);
+      locked = booking.id;
+      // Read again under the lock: a payment may have been sent since the booking was loaded
+      const current = (await getGuideBooking(redis, booking.id)) ?? booking;
+      // A payment already sent is settled from its receipt, never sent again
+      if (current.payment) return await settlePayment(current, now);
+
+      const guide = await readGuide(current.guideFid);
+      if (!guide || !guide.active || guide.suspended) return fail('This guide is not taking bookings', 409);
+      const blocker = paymentBlocker(current, guide.hourlyRateWei, now);
+      if (blocker) return fail(blocker, 409);
+      if ((await holdSlot(redis, current)) !== current.id) return fail('That slot has just been booked by someone else', 409);
+
+      const totalWei = BigInt(current.quote!.totalWei);
+      let txHash: string;
+      try {
+        const result = await sendUserSafeTransaction(current.traveler, [
+          {
+            to: WMON_ADDRESS,
+            value: 0n,
+            data: encodeFunctionData({ abi: ERC20ABI, functionName: 'approve', args: [TOUR_GUIDE_REGISTRY, totalWei] }),
+          },
+          registryCall('bookGuideFor', [
+            current.traveler,
+            BigInt(current.travelerFid),
+            BigInt(current.guideFid),
+            BigInt(current.quote!.hours),
+            WMON_ADDRESS,
+          ]),
+        ]);
+        txHash = result.txHash;
+      } catch (err) {
+        await releaseSlot(redis, current);
+        throw err;
+      }
+      recordPaymentSent(current, txHash, now);
+      await saveGuideBooking(redis, current, now);
+      return await settlePayment(current, now);
+    }
+
+    // ---- Guide marks the tour done with proof; the auto-complete timer starts
+    if (action === 'complete') {
+      const denied = only('guide');
+      if (denied) return denied;
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another action on this booking is in progress', 409);
+      locked = booking.id;
+      const proofIPFS = String(body.proofIPFS ?? '').replace(/^ipfs:\/\//, '');
+      const blocker = completionBlocker(booking, proofIPFS, now);
+      if (blocker) return fail(blocker, 409);
+
+      const result = await sendUserSafeTransaction(userAddress, [
+        registryCall('markTourComplete', [BigInt(booking.escrow!.bookingId), proofIPFS]),
+      ]);
+      markComplete(booking, { proofIPFS, txHash: result.txHash, autoCompletePeriodMs: await readAutoCompletePeriodMs() }, now);
+      await saveGuideBooking(redis, booking, now);
+      return NextResponse.json({ success: true, booking, txHash: result.txHash });
+    }
+
+    // ---- Traveler confirms with a rating and a written review; the guide is paid
+    if (action === 'confirm') {
+      const denied = only('traveler');
+      if (denied) return denied;
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another action on this booking is in progress', 409);
+      locked = booking.id;
+      const review = buildReview(booking, { rating: body.rating, text: body.review }, now);
+      review.ipfsCid = (await uploadReviewToIPFS(review)) ?? undefined;
+
+      const result = await sendUserSafeTransaction(booking.traveler, [
+        registryCall('confirmAndRate', [
+          BigInt(booking.escrow!.bookingId),
+          BigInt(chainRating(review.rating)),
+          review.ipfsCid || '',
+        ]),
+      ]);
+      recordCompletion(booking, 'traveler', result.txHash, now);
+      await saveGuideBooking(redis, booking, now);
+      await saveReview(redis, review);
+      return NextResponse.json({ success: true, booking, review, txHash: result.txHash });
+    }
+
+    // ---- Either party cancels before the tour; anything paid is refunded by the registry
+    if (action === 'cancel') {
+      const blocker = cancelBlocker(booking, party, now);
+      if (blocker) return fail(blocker, 409);
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another action on this booking is in progress', 409);
+      locked = booking.id;
+
+      let txHash: string | undefined;
+      if (booking.escrow) {
+        const reason = String(body.reason || `Cancelled by ${party}`).slice(0, 200);
+        txHash = (
+          await sendUserSafeTransaction(userAddress, [
+            registryCall('cancelBooking', [BigInt(booking.escrow.bookingId), reason]),
+          ])
+        ).txHash;
+        await releaseSlot(redis, booking);
+      }
+      recordCancellation(booking, party, { reason: body.reason, txHash }, now);
+      await saveGuideBooking(redis, booking, now);
+      return NextResponse.json({ success: true, booking, txHash });
+    }
+
+    // ---- Disputes stop the timer until an admin decides (/api/admin/guide-disputes)
+    if (action === 'dispute') {
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another action on this booking is in progress', 409);
+      locked = booking.id;
+      const current = (await getGuideBooking(redis, booking.id)) ?? booking;
+      openGuideDispute(current, { party, statement: body.statement, evidence: body.evidence }, now);
+      await saveGuideBooking(redis, current, now);
+      console.log(`[GuideBookings] ${current.id} disputed by the ${party}`);
+      return NextResponse.json({ success: true, booking: current });
+    }
+
+    if (action === 'respond') {
+      if (!(await claimGuideBookingAction(redis, booking.id))) return fail('Another action on this booking is in progress', 409);
+      locked = booking.id;
+      const current = (await getGuideBooking(redis, booking.id)) ?? booking;
+      respondToGuideDispute(current, { party, statement: body.statement, evidence: body.evidence }, now);
+      await saveGuideBooking(redis, current, now);
+      return NextResponse.json({ success: true, booking: current });
+    }
+
+    return fail('Invalid action. Must be: request, quote, decline, pay, complete, confirm, cancel, dispute or respond');
+  } catch (error: any) {
+    if (error instanceof GuideBookingError) return fail(error.message, error.status);
+    console.error('[GuideBookings] POST error:', error);
+    return fail(error.message || 'Booking action failed', 500);
+  } finally {
+    if (locked) await releaseGuideBookingAction(redis, locked);
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redis } from '@/lib/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { actsForGuide, readGuide } from '@/lib/guide-registry';
+import { GuideBookingError, getReviews, replyToReview, reviewSummary, saveReview } from '@/lib/guide-booking';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Written reviews travelers leave when they confirm a tour (see lib/guide-booking.ts).
+ *
+ *   GET  ?fid=                                                → { summary, reviews }  newest first
+ *   POST { action: 'reply', guideFid, bookingId, userAddress, text }   the guide, once per review
+ *
+ * The star rating is also on-chain in TourGuideRegistry; the text is pinned to IPFS and its CID is
+ * what confirmAndRate recorded as the review.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const fid = Number(req.nextUrl.searchParams.get('fid'));
+    if (!Number.isInteger(fid) || fid <= 0) return fail('fid required');
+
+    const reviews = await getReviews(redis, fid);
+    return NextResponse.json({ success: true, summary: reviewSummary(reviews), reviews });
+  } catch (error: any) {
+    console.error('[GuideReviews] GET error:', error);
+    return fail(error.message || 'Failed to load reviews', 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json();
+    const { action, userAddress, bookingId } = body;
+    const guideFid = Number(body.guideFid);
+    if (action !== 'reply') return fail('Invalid action. Must be: reply');
+    if (!userAddress || !bookingId || !Number.isInteger(guideFid)) {
+      return fail('guideFid, bookingId and userAddress required');
+    }
+
+    const decision = await authorizeUserAddress(req, userAddress, 'guide-reviews');
+    if (!decision.ownsAddress) return fail('Sign in with your guide wallet', 401);
+    const guide = await readGuide(guideFid);
+    if (!guide || !(await actsForGuide(userAddress, guide.guideAddress))) {
+      return fail('Only the guide can reply to their reviews', 403);
+    }
+
+    const review = (await getReviews(redis, guideFid)).find(r => r.bookingId === String(bookingId));
+    if (!review) return fail('Review not found', 404);
+    replyToReview(review, body.text, Date.now());
+    await saveReview(redis, review);
+    return NextResponse.json({ success: true, review });
+  } catch (error: any) {
+    if (error instanceof GuideBookingError) return fail(error.message, error.status);
+    console.error('[GuideReviews] POST error:', error);
+    return fail(error.message || 'Failed to reply', 500);
+  }
+}
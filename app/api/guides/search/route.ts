@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GuideSearchError, parseGuideSearch, searchGuides, toListing } from '@/lib/guide-search';
+
+export const dynamic = 'force-dynamic';
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT;
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 10;
+
+/**
+ * Guide search (see lib/guide-search.ts).
+ *
+ *   GET ?country=Japan&language=english&minRate=5&maxRate=40&minRating=4&sort=rating&limit=20&offset=0
+ *
+ * Rates are WMON per hour. `sort` is rating (default), price, price_desc or experience. Only
+ * active, unsuspended guides are returned.
+ */
+
+async function loadGuides(): Promise<any[]> {
+  const rows: any[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const response = await fetch(ENVIO_ENDPOINT!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        query: `
+          query SearchGuides($limit: Int!, $offset: Int!) {
+            TourGuide(
+              where: { active: { _eq: true }, suspended: { _eq: false } }
+              order_by: { guideFid: asc }
+              limit: $limit
+              offset: $offset
+            ) {
+              guideFid
+              guideAddress
+              countries
+              hourlyRateWMON
+              averageRating
+              ratingCount
+              completedBookings
+              username
+              displayName
+              pfpUrl
+              bio
+              location
+              languages
+              transport
+            }
+          }
+        `,
+        variables: { limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+      }),
+    });
+    if (!response.ok) throw new Error(`Envio query failed: ${response.status}`);
+    const data = await response.json();
+    if (data.errors) throw new Error(data.errors[0]?.message || 'Envio query failed');
+    const batch = data.data?.TourGuide || [];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const query = parseGuideSearch(req.nextUrl.searchParams);
+    if (!ENVIO_ENDPOINT) {
+      return NextResponse.json({ success: false, error: 'ENVIO_ENDPOINT not configured' }, { status: 500 });
+    }
+
+    const { total, guides } = searchGuides((await loadGuides()).map(toListing), query);
+    return NextResponse.json({ success: true, total, guides });
+  } catch (error: any) {
+    if (error instanceof GuideSearchError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error('[GuideSearch] Error:', error);
+    return NextResponse.json({ success: false, error: error.message || 'Search failed' }, { status: 500 });
+  }
+}
@@ -9,6 +9,7 @@ import {
   LISTENER_STATS_KEY,
   type ListenerStatsShape,
 } from "@/lib/listener-points";
+import { loadRiskStandings } from "@/lib/listener-risk";
 import {
   createPublicClient,
   http,
@@ -252,18 +253,22 @@ export async function GET(req: NextRequest) {
         });
 
         if (!finalized) {
-          const [allStats, snapshot] = await Promise.all([
+          const [allStats, snapshot, standings] = await Promise.all([
             redis.hgetall<Record<string, ListenerStatsShape>>(
               LISTENER_STATS_KEY,
             ),
             redis.hgetall<Record<string, number>>(DISTRIBUTION_SNAPSHOT_KEY),
+            loadRiskStandings(redis),
           ]);
 
+          // Risk weights apply here exactly as the cron applies them.
+          const myStanding = standings[listenerAddress];
           const myPoints = computeListenerPoints(
             stats as ListenerStatsShape,
             Number(snapshot?.[listenerAddress] || 0),
+            myStanding?.weight ?? 1,
           );
-          const totalPoints = computeTotalPoints(allStats, snapshot);
+          const totalPoints = computeTotalPoints(allStats, snapshot, standings);
           const pool = expectedPoolFromRevenue(totalRevenue);
           const estimate = estimatePayoutWei(pool, myPoints, totalPoints);
 
@@ -275,7 +280,9 @@ export async function GET(req: NextRequest) {
             expectedPoolWMON: formatEther(pool),
             estimatedWMON: formatEther(estimate),
             monthRevenueWMON: formatEther(totalRevenue),
-            note: "Estimate only. The pool grows with new subscriptions and your share dilutes as others listen; it settles when the month closes.",
+            note: myStanding
+              ? "Some of your listening is under review and is not counted in this estimate."
+              : "Estimate only. The pool grows with new subscriptions and your share dilutes as others listen; it settles when the month closes.",
           };
         }
       } catch {
@@ -0,0 +1,287 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { redis } from "@/lib/redis";
+import {
+  DEFAULT_PROGRAMMING_RULES,
+  PROGRAMMING_KEYS,
+  loadActiveRules,
+  loadPlayHistory,
+  loadTrackTags,
+  parseProgrammingRules,
+  selectNextTrack,
+  type ProgrammingRules,
+  type TrackTags,
+} from "@/lib/radio-programming";
+import { ENERGY_LEVELS } from "@/lib/venue-zones";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Live Radio programming presets.
+ *
+ *   GET  /api/live-radio/programming
+ *   → { active, rules, presets, tags }
+ *
+ *   POST /api/live-radio/programming
+ *   { action: "save_preset",     rules }
+ *   { action: "activate_preset", name }      name "default" returns to the built-in rules
+ *   { action: "delete_preset",   name }
+ *   { action: "tag_track",       tokenId, genres?, moods?, energy? }
+ *   { action: "preview",         rules?, catalogue: [{ tokenId, artist, mintedAt? }], count? }
+ *
+ * Every write carries { adminAddress, signature, timestamp } and goes through
+ * authenticateAdminAction(). The signed details bind the exact payload, so a captured
+ * signature for one preset cannot be replayed to install another.
+ *
+ * "preview" is read-only and unauthenticated: it runs the engine against the live play
+ * history without writing anything, so a preset can be checked before it goes on air.
+ */
+
+const MAX_PREVIEW = 20;
+
+function normaliseTags(values: unknown): string[] | undefined {
+  if (values === undefined) return undefined;
+  if (!Array.isArray(values)) return [];
+  return values
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => v.trim().toLowerCase())
+    .filter(Boolean)
+    .slice(0, 20);
+}
+
+export async function GET() {
+  try {
+    const [active, rules, presets, tags] = await Promise.all([
+      redis.get<string>(PROGRAMMING_KEYS.active),
+      loadActiveRules(redis),
+      redis.hgetall<Record<string, ProgrammingRules>>(PROGRAMMING_KEYS.presets),
+      loadTrackTags(redis),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      active: active || DEFAULT_PROGRAMMING_RULES.name,
+      rules,
+      presets: presets || {},
+      tags,
+    });
+  } catch (error: any) {
+    console.error("[RadioProgramming] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+
+    if (action === "preview") {
+      let rules: ProgrammingRules;
+      if (body.rules !== undefined) {
+        const parsed = parseProgrammingRules(body.rules);
+        if (!parsed.ok) {
+          return NextResponse.json(
+            { success: false, errors: parsed.errors },
+            { status: 400 },
+          );
+        }
+        rules = parsed.rules;
+      } else {
+        rules = await loadActiveRules(redis);
+      }
+
+      const catalogue = Array.isArray(body.catalogue)
+        ? body.catalogue
+            .filter((t: any) => t && t.tokenId !== undefined && t.artist)
+            .map((t: any) => ({
+              tokenId: String(t.tokenId),
+              artist: String(t.artist),
+              artistAddress: t.artistAddress ? String(t.artistAddress) : undefined,
+              mintedAt: Number.isFinite(Number(t.mintedAt))
+                ? Number(t.mintedAt)
+                : undefined,
+            }))
+        : [];
+      if (catalogue.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "catalogue is required for a preview" },
+          { status: 400 },
+        );
+      }
+
+      const [tags, history] = await Promise.all([
+        loadTrackTags(redis),
+        loadPlayHistory(redis),
+      ]);
+
+      // Simulate consecutive picks by feeding each one back into the history, spaced by a
+      // typical track length, so separation rules show up in the preview as they will on air.
+      const count = Math.min(Math.max(Number(body.count) || 5, 1), MAX_PREVIEW);
+      const slotMs = 210 * 1000;
+      let now = Date.now();
+      const picks = [];
+      for (let i = 0; i < count; i++) {
+        const decision = selectNextTrack({ catalogue, history, rules, tags, now });
+        if (!decision) break;
+        picks.push(decision);
+        history.unshift({
+          tokenId: decision.track.tokenId,
+          artist: decision.track.artist,
+          artistAddress: decision.track.artistAddress,
+          playedAt: now,
+        });
+        now += slotMs;
+      }
+
+      return NextResponse.json({ success: true, rules: rules.name, picks });
+    }
+
+    const { adminAddress, signature, timestamp } = body;
+
+    if (action === "save_preset") {
+      const parsed = parseProgrammingRules(body.rules);
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { success: false, errors: parsed.errors },
+          { status: 400 },
+        );
+      }
+      if (parsed.rules.name === DEFAULT_PROGRAMMING_RULES.name) {
+        return NextResponse.json(
+          { success: false, error: `"${DEFAULT_PROGRAMMING_RULES.name}" is reserved` },
+          { status: 400 },
+        );
+      }
+
+      const auth = await authenticateAdminAction({
+        action: "radio_programming_save",
+        details: JSON.stringify(body.rules),
+        adminAddress,
+        signature,
+        timestamp,
+      });
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: auth.error || "Unauthorized" },
+          { status: 403 },
+        );
+      }
+
+      await redis.hset(PROGRAMMING_KEYS.presets, {
+        [parsed.rules.name]: parsed.rules,
+      });
+      console.log(
+        `[RadioProgramming] Preset "${parsed.rules.name}" saved by ${auth.address}`,
+      );
+      return NextResponse.json({ success: true, rules: parsed.rules });
+    }
+
+    if (action === "activate_preset" || action === "delete_preset") {
+      const name = typeof body.name === "string" ? body.name : "";
+      if (!name) {
+        return NextResponse.json(
+          { success: false, error: "name is required" },
+          { status: 400 },
+        );
+      }
+
+      const auth = await authenticateAdminAction({
+        action: `radio_programming_${action === "activate_preset" ? "activate" : "delete"}`,
+        details: name,
+        adminAddress,
+        signature,
+        timestamp,
+      });
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: auth.error || "Unauthorized" },
+          { status: 403 },
+        );
+      }
+
+      if (action === "delete_preset") {
+        const active = await redis.get<string>(PROGRAMMING_KEYS.active);
+        if (active === name) {
+          return NextResponse.json(
+            { success: false, error: "Cannot delete the preset that is on air" },
+            { status: 409 },
+          );
+        }
+        await redis.hdel(PROGRAMMING_KEYS.presets, name);
+        console.log(`[RadioProgramming] Preset "${name}" deleted by ${auth.address}`);
+        return NextResponse.json({ success: true });
+      }
+
+      if (name === DEFAULT_PROGRAMMING_RULES.name) {
+        await redis.del(PROGRAMMING_KEYS.active);
+      } else {
+        const exists = await redis.hexists(PROGRAMMING_KEYS.presets, name);
+        if (!exists) {
+          return NextResponse.json(
+            { success: false, error: `No preset named "${name}"` },
+            { status: 404 },
+          );
+        }
+        await redis.set(PROGRAMMING_KEYS.active, name);
+      }
+      console.log(`[RadioProgramming] Preset "${name}" activated by ${auth.address}`);
+      return NextResponse.json({ success: true, active: name });
+    }
+
+    if (action === "tag_track") {
+      const { tokenId } = body;
+      if (!tokenId) {
+        return NextResponse.json(
+          { success: false, error: "tokenId is required" },
+          { status: 400 },
+        );
+      }
+      const genres = normaliseTags(body.genres);
+      const moods = normaliseTags(body.moods);
+      const energy = body.energy;
+      if (energy !== undefined && !ENERGY_LEVELS.includes(energy)) {
+        return NextResponse.json(
+          { success: false, error: `energy must be one of ${ENERGY_LEVELS.join(", ")}` },
+          { status: 400 },
+        );
+      }
+
+      // Energy is appended only when given, so a tag signed without it still verifies.
+      const auth = await authenticateAdminAction({
+        action: "radio_programming_tag",
+        details:
+          `${tokenId}:${(genres || []).join(",")}:${(moods || []).join(",")}` +
+          (energy ? `:${energy}` : ""),
+        adminAddress,
+        signature,
+        timestamp,
+      });
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: auth.error || "Unauthorized" },
+          { status: 403 },
+        );
+      }
+
+      const tags: TrackTags = { genres: genres || [], moods: moods || [], ...(energy ? { energy } : {}) };
+      await redis.hset(PROGRAMMING_KEYS.trackTags, { [String(tokenId)]: tags });
+      return NextResponse.json({ success: true, tokenId: String(tokenId), tags });
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Unknown action" },
+      { status: 400 },
+    );
+  } catch (error: any) {
+    console.error("[RadioProgramming] POST error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
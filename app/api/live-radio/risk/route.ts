@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import {
+  getRiskRecord,
+  loadHeartbeats,
+  loadReviewQueue,
+  recordRiskReview,
+  rescoreListener,
+} from "@/lib/listener-risk";
+import { redis } from "@/lib/redis";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Listener risk review queue. See lib/listener-risk.ts for what the scores mean.
+ *
+ *   POST /api/live-radio/risk
+ *   { action: "queue" }                                  → { queue }      highest score first
+ *   { action: "detail",  address }                       → { record, log } log replays offline
+ *   { action: "rescore", address }                       → { record }
+ *   { action: "review",  address, decision, note? }      decision: "cleared" | "confirmed"
+ *
+ * Every action, reads included, carries { adminAddress, signature, timestamp } for
+ * authenticateAdminAction(): the queue lists wallet addresses next to the IPs they
+ * listen from. Signatures are single-use, so each read costs one.
+ *
+ * The `log` from "detail" is the JSON input of tools/replay-heartbeat-log.ts.
+ */
+
+const ADDRESS_RE = /^0x[a-f0-9]{40}$/;
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const address = String(body.address || "").toLowerCase();
+    const decision = body.decision;
+
+    if (!["queue", "detail", "rescore", "review"].includes(action)) {
+      return fail("Unknown action");
+    }
+    if (action !== "queue" && !ADDRESS_RE.test(address)) {
+      return fail("A valid address is required");
+    }
+    if (
+      action === "review" &&
+      decision !== "cleared" &&
+      decision !== "confirmed"
+    ) {
+      return fail('decision must be "cleared" or "confirmed"');
+    }
+
+    const auth = await authenticateAdminAction({
+      action: `radio_risk_${action}`,
+      details:
+        action === "queue"
+          ? "queue"
+          : action === "review"
+            ? `${address}:${decision}`
+            : address,
+      adminAddress: body.adminAddress,
+      signature: body.signature,
+      timestamp: body.timestamp,
+    });
+    if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+    if (action === "queue") {
+      const queue = await loadReviewQueue(redis);
+      return NextResponse.json({ success: true, queue });
+    }
+
+    if (action === "detail") {
+      const now = Date.now();
+      const [record, log] = await Promise.all([
+        getRiskRecord(redis, address),
+        loadHeartbeats(redis, address, now),
+      ]);
+      return NextResponse.json({ success: true, record, log });
+    }
+
+    if (action === "rescore") {
+      const record = await rescoreListener(redis, address, Date.now());
+      return NextResponse.json({ success: true, record });
+    }
+
+    const record = await recordRiskReview(redis, address, {
+      decision,
+      by: auth.address!,
+      at: Date.now(),
+      note: typeof body.note === "string" ? body.note.slice(0, 280) : undefined,
+    });
+    if (!record) return fail("No risk record for that address", 404);
+    console.log(
+      `[ListenerRisk] ${address} ${decision} by ${auth.address} at score ${record.score}`,
+    );
+    return NextResponse.json({ success: true, record });
+  } catch (error: any) {
+    console.error("[ListenerRisk] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
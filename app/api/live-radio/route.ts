@@ -3,7 +3,38 @@ import { Redis } from "@upstash/redis";
 import { broadcastRadioUpdate } from "@/lib/event-manager";
 import { hasRightsClearance } from "@/lib/rights-declaration";
 import { RADIO_SESSION_HEADER, resolveRadioSession } from "@/lib/radio-session";
-import { createWalletClient, createPublicClient, http, parseAbi } from "viem";
+import type { ShowTag } from "@/lib/radio-shows";
+import {
+  MAIN_STATION_ID,
+  fetchRegionArtists,
+  filterStationCatalogue,
+  getStation,
+  moveListener,
+  normalizeStationId,
+  stationKeys,
+  type StationConfig,
+  type StationKeys,
+} from "@/lib/radio-stations";
+import { loadTrackTags } from "@/lib/radio-programming";
+import { canCreditListen } from "@/lib/listener-points";
+import {
+  maybeRescoreListener,
+  recordHeartbeat,
+  sessionTag,
+} from "@/lib/listener-risk";
+import { getClientIP } from "@/lib/rate-limit";
+import { canView, getPlaylist } from "@/lib/playlists";
+import { verifyQuickAuth } from "@/lib/quick-auth";
+import { recordSkip } from "@/lib/recommendations";
+import { getUserSafeAddress } from "@/lib/user-safe";
+import { invoicePaymentIn } from "@/lib/venue-billing";
+import {
+  createWalletClient,
+  createPublicClient,
+  http,
+  parseAbi,
+  parseEther,
+} from "viem";
 import { privateKeyToAccount } from "viem/accounts";
 import { activeChain } from "@/app/chains";
 
@@ -28,16 +59,16 @@ const PLAY_ORACLE_ADDRESS = process.env.NEXT_PUBLIC_PLAY_ORACLE;
 const MUSIC_SUBSCRIPTION_ADDRESS = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION;
 const ORACLE_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY;
 
-const RADIO_STATE_KEY = "live-radio:state";
-const RADIO_QUEUE_KEY = "live-radio:queue";
-const VOICE_NOTES_KEY = "live-radio:voice-notes";
 const LISTENER_STATS_KEY = "live-radio:listener-stats";
 const ACTIVE_LISTENERS_KEY = "live-radio:active-listeners"; // Legacy - individual keys
-const ACTIVE_LISTENERS_ZSET = "live-radio:active-listeners-zset"; // ZSET for efficient counting
 const DAILY_FIRST_LISTENER_KEY = "live-radio:first-listener";
-const PLAY_HISTORY_KEY = "live-radio:play-history"; // Recent plays list
-const PLAYBACK_PHASE_KEY = "live-radio:playback-phase"; // 'song' | 'voice_note'
+// State, queue, voice notes, active listeners, play history and playback phase
+// are per station — see stationKeys() in lib/radio-stations.ts. The main
+// station keeps the original global keys.
 const SONG_DURATIONS_KEY = "live-radio:song-durations"; // tokenId -> real seconds, reported by clients
+/** Set once a transaction has paid for a queued track, so it pays for one only. */
+const PAYMENT_TX_KEY = (txHash: string) =>
+  `live-radio:payment-tx:${txHash.toLowerCase()}`;
 
 // Envio has no duration field, so the scheduler used a flat 600s slot per song
 // while real tracks run ~3-4 min. Clients report the true length off the audio
@@ -47,6 +78,7 @@ const SONG_DURATIONS_KEY = "live-radio:song-durations"; // tokenId -> real secon
 const MIN_REPORTED_DURATION = 30;
 const MAX_REPORTED_DURATION = 1800;
 const QUEUE_PRICE_WMON = 1; // 1 WMON to queue a song
+const MAX_PLAYLIST_QUEUE = 10; // Tracks one queue_playlist call may add
 const VOICE_NOTE_PRICE_WMON = 0.5; // 0.5 WMON for a voice shoutout
 const VOICE_AD_PRICE_WMON = 2; // 2 WMON for 30-second ad
 const MAX_VOICE_NOTE_SECONDS = 5;
@@ -70,6 +102,7 @@ interface RadioState {
     startedAt: number;
     duration: number;
     isRandom: boolean;
+    show?: ShowTag;
   } | null;
   currentVoiceNote: {
     id: string;
@@ -85,6 +118,7 @@ interface RadioState {
   lastUpdated: number;
   totalSongsPlayed: number;
   totalVoiceNotesPlayed: number;
+  currentShow?: ShowTag | null;
 }
 
 interface QueuedSong {
@@ -126,12 +160,19 @@ interface ListenerStats {
   voiceNotesPlayed: number;
   firstListenerBonuses: number;
   lastRewardedSongId?: string; // Track last song rewarded to prevent duplicate rewards
+  lastRewardedStation?: string;
+  listenCreditUntil?: number; // End of the last credited song slot (see canCreditListen)
+  stationListens?: Record<string, number>; // Songs credited per station; sums to totalSongsListened for new credits
 }
 
 const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT!;
 
 // Record plays on-chain for active radio listeners when a song finishes
-async function recordRadioPlays(tokenId: string, duration: number) {
+async function recordRadioPlays(
+  tokenId: string,
+  duration: number,
+  activeListenersKey: string,
+) {
   if (!PLAY_ORACLE_ADDRESS || !ORACLE_PRIVATE_KEY) {
     console.log(
       "[LiveRadio] Skipping recordPlay: missing PLAY_ORACLE or DEPLOYER_PRIVATE_KEY",
@@ -160,12 +201,9 @@ async function recordRadioPlays(tokenId: string, duration: number) {
 
     // Get active listeners from ZSET
     const cutoff = Date.now() - LISTENER_HEARTBEAT_EXPIRY * 1000;
-    const listeners = (await redis.zrange(
-      ACTIVE_LISTENERS_ZSET,
-      cutoff,
-      "+inf",
-      { byScore: true },
-    )) as string[];
+    const listeners = (await redis.zrange(activeListenersKey, cutoff, "+inf", {
+      byScore: true,
+    })) as string[];
 
     if (listeners.length === 0) {
       console.log("[LiveRadio] No active listeners to record plays for");
@@ -217,11 +255,93 @@ async function recordRadioPlays(tokenId: string, duration: number) {
   }
 }
 
+/**
+ * The station a request targets (`stationId` in the body, `?station=` on GET).
+ * A missing or malformed id means the main station; a well-formed id that is
+ * not registered is an error rather than a silent fallback, so a paid queue
+ * entry never lands on a station the payer did not pick.
+ */
+async function resolveStation(
+  raw: unknown,
+): Promise<{ station: StationConfig; keys: StationKeys } | null> {
+  const station = await getStation(redis, normalizeStationId(raw));
+  return station ? { station, keys: stationKeys(station.id) } : null;
+}
+
+/**
+ * A queued track's price must move from the listener's Safe or wallet to the LiveRadio
+ * contract in `txHash` — what radio_queue_song sends — and each transaction pays once, whether
+ * it is spent by queue_song or by a track of queue_playlist.
+ */
+async function verifyQueuePayment(
+  userAddress: string,
+  txHash: string,
+): Promise<{ ok: true } | { ok: false; error: string }> {
+  // The same fallback radio_queue_song pays with in execute-delegated
+  const token =
+    process.env.NEXT_PUBLIC_WMON || process.env.NEXT_PUBLIC_WMON_TOKEN;
+  const liveRadio = process.env.NEXT_PUBLIC_LIVE_RADIO;
+  if (!token || !liveRadio) {
+    return { ok: false, error: "Radio payments not configured" };
+  }
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return { ok: false, error: "Not a transaction hash" };
+  }
+
+  const client = createPublicClient({
+    chain: activeChain,
+    transport: http(
+      process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz",
+    ),
+  });
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({
+      hash: txHash as `0x${string}`,
+    });
+  } catch {
+    return {
+      ok: false,
+      error: "Transaction not found; wait for it to confirm",
+    };
+  }
+  if (receipt.status !== "success") {
+    return { ok: false, error: "Transaction reverted" };
+  }
+
+  const payTo = {
+    token: token as `0x${string}`,
+    payTo: liveRadio as `0x${string}`,
+  };
+  const payers = [userAddress, await getUserSafeAddress(userAddress)];
+  const price = parseEther(`${QUEUE_PRICE_WMON}`);
+  if (!payers.some((a) => invoicePaymentIn(receipt.logs, payTo, a) >= price)) {
+    return {
+      ok: false,
+      error: `Transaction does not pay ${QUEUE_PRICE_WMON} WMON from your wallet to the radio`,
+    };
+  }
+  if (!(await redis.set(PAYMENT_TX_KEY(txHash), "1", { nx: true }))) {
+    return { ok: false, error: "That transaction already paid for a track" };
+  }
+  return { ok: true };
+}
+
+function unknownStation() {
+  return NextResponse.json(
+    { success: false, error: "Unknown station" },
+    { status: 404 },
+  );
+}
+
 // GET - Get current radio state
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const action = searchParams.get("action");
+    const resolved = await resolveStation(searchParams.get("station"));
+    if (!resolved) return unknownStation();
+    const { station, keys } = resolved;
 
     // Debug: Test Envio connection and fetch available songs
     if (action === "debug-songs") {
@@ -272,7 +392,7 @@ export async function GET(req: NextRequest) {
 
     // Get queue
     if (action === "queue") {
-      const queue = await redis.lrange(RADIO_QUEUE_KEY, 0, 20);
+      const queue = await redis.lrange(keys.queue, 0, 20);
       return NextResponse.json({
         success: true,
         queue: queue.map((item: any) =>
@@ -283,7 +403,7 @@ export async function GET(req: NextRequest) {
 
     // Get voice notes (pending)
     if (action === "voice-notes") {
-      const notes = await redis.lrange(VOICE_NOTES_KEY, 0, 10);
+      const notes = await redis.lrange(keys.voiceNotes, 0, 10);
       return NextResponse.json({
         success: true,
         voiceNotes: notes.map((item: any) =>
@@ -372,7 +492,7 @@ export async function GET(req: NextRequest) {
     if (action === "play-history") {
       try {
         const limit = parseInt(searchParams.get("limit") || "20");
-        const history = await redis.lrange(PLAY_HISTORY_KEY, 0, limit - 1);
+        const history = await redis.lrange(keys.playHistory, 0, limit - 1);
 
         const plays = history.map((item: any) =>
           typeof item === "string" ? JSON.parse(item) : item,
@@ -394,10 +514,11 @@ export async function GET(req: NextRequest) {
     }
 
     // Get current state
-    const state = await redis.get<RadioState>(RADIO_STATE_KEY);
+    const state = await redis.get<RadioState>(keys.state);
 
     return NextResponse.json({
       success: true,
+      stationId: station.id,
       state: state || {
         isLive: false,
         currentSong: null,
@@ -430,12 +551,19 @@ export async function GET(req: NextRequest) {
 }
 
 // Admin helper for start/stop radio (no userAddress needed)
-async function handleAdminAction(action: string) {
+async function handleAdminAction(
+  action: string,
+  station: StationConfig,
+  keys: StationKeys,
+) {
+  // The LiveRadio contract models one radio, so only the main station mirrors
+  // its start/stop on-chain. Other stations are Redis-only.
+  const onChain = station.id === MAIN_STATION_ID;
   const LIVE_RADIO_ADDRESS = process.env.NEXT_PUBLIC_LIVE_RADIO;
   const DEPLOYER_KEY = process.env.DEPLOYER_PRIVATE_KEY;
 
   if (action === "start_radio") {
-    if (LIVE_RADIO_ADDRESS && DEPLOYER_KEY) {
+    if (onChain && LIVE_RADIO_ADDRESS && DEPLOYER_KEY) {
       try {
         const rpcUrl =
           process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
@@ -471,9 +599,13 @@ async function handleAdminAction(action: string) {
       totalSongsPlayed: 0,
       totalVoiceNotesPlayed: 0,
     };
-    await redis.set(RADIO_STATE_KEY, state);
-    await redis.set("live-radio:playback-phase", "song");
-    broadcastRadioUpdate("state_update", { type: "radio_started", state });
+    await redis.set(keys.state, state);
+    await redis.set(keys.playbackPhase, "song");
+    broadcastRadioUpdate(
+      "state_update",
+      { type: "radio_started", state },
+      station.id,
+    );
 
     return NextResponse.json({
       success: true,
@@ -484,7 +616,7 @@ async function handleAdminAction(action: string) {
   }
 
   if (action === "stop_radio") {
-    if (LIVE_RADIO_ADDRESS && DEPLOYER_KEY) {
+    if (onChain && LIVE_RADIO_ADDRESS && DEPLOYER_KEY) {
       try {
         const rpcUrl =
           process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
@@ -511,14 +643,18 @@ async function handleAdminAction(action: string) {
       }
     }
 
-    const state = await redis.get<RadioState>(RADIO_STATE_KEY);
+    const state = await redis.get<RadioState>(keys.state);
     if (state) {
       state.isLive = false;
       state.currentSong = null;
       state.currentVoiceNote = null;
       state.lastUpdated = Date.now();
-      await redis.set(RADIO_STATE_KEY, state);
-      broadcastRadioUpdate("state_update", { type: "radio_stopped", state });
+      await redis.set(keys.state, state);
+      broadcastRadioUpdate(
+        "state_update",
+        { type: "radio_stopped", state },
+        station.id,
+      );
     }
 
     return NextResponse.json({
@@ -539,9 +675,13 @@ export async function POST(req: NextRequest) {
     const body = await req.json();
     const { action, userAddress, userFid } = body;
 
+    const resolved = await resolveStation(body.stationId);
+    if (!resolved) return unknownStation();
+    const { station, keys } = resolved;
+
     // Admin actions (no userAddress required)
     if (action === "start_radio" || action === "stop_radio") {
-      return handleAdminAction(action);
+      return handleAdminAction(action, station, keys);
     }
 
     // Report a track's real duration, read off the client's audio element on
@@ -623,13 +763,14 @@ export async function POST(req: NextRequest) {
         );
       }
 
-      // Check rights status — revoked songs cannot be queued
+      // Check rights status — revoked or disputed songs cannot be queued
       const cleared = await hasRightsClearance(redis, tokenId);
       if (!cleared) {
         return NextResponse.json(
           {
             success: false,
-            error: "This song has been revoked and cannot be played on radio.",
+            error:
+              "This song's rights are revoked or under dispute, so it cannot be played on radio.",
           },
           { status: 403 },
         );
@@ -644,6 +785,16 @@ export async function POST(req: NextRequest) {
           { status: 400 },
         );
       }
+      const payment = await verifyQueuePayment(
+        String(userAddress),
+        String(txHash),
+      );
+      if (!payment.ok) {
+        return NextResponse.json(
+          { success: false, error: payment.error },
+          { status: 402 },
+        );
+      }
 
       // Use provided duration or default to 600s (10 min fallback - client reports actual end)
       const songDuration =
@@ -673,8 +824,7 @@ export async function POST(req: NextRequest) {
 
       console.log("[LiveRadio] Song queued:", name, "by", userAddress);
 
-      // Immediately start playing the queued song (interrupts current)
-      const state = (await redis.get<RadioState>(RADIO_STATE_KEY)) || {
+      const state = (await redis.get<RadioState>(keys.state)) || {
         isLive: true,
         currentSong: null,
         currentVoiceNote: null,
@@ -684,6 +834,22 @@ export async function POST(req: NextRequest) {
         totalVoiceNotesPlayed: 0,
       };
 
+      // A booked show owns the air. The payment has already settled, so hold the
+      // song in the queue — the scheduler plays it as soon as the show hands back.
+      if (state.currentShow) {
+        await redis.rpush(keys.queue, JSON.stringify(queuedSong));
+        const queue = await redis.lrange(keys.queue, 0, 20);
+        broadcastRadioUpdate("queue_update", { queue }, station.id);
+        return NextResponse.json({
+          success: true,
+          message: `Queued for after "${state.currentShow.title}"`,
+          song: queuedSong,
+          nowPlaying: false,
+        });
+      }
+
+      // Immediately start playing the queued song (interrupts current)
+
       state.currentSong = {
         ...queuedSong,
         startedAt: Date.now(),
@@ -694,12 +860,12 @@ export async function POST(req: NextRequest) {
       state.totalSongsPlayed = (state.totalSongsPlayed || 0) + 1;
       state.lastUpdated = Date.now();
 
-      await redis.set(RADIO_STATE_KEY, state);
-      await redis.set(PLAYBACK_PHASE_KEY, "song");
+      await redis.set(keys.state, state);
+      await redis.set(keys.playbackPhase, "song");
 
       // Log to play history
       await redis.lpush(
-        PLAY_HISTORY_KEY,
+        keys.playHistory,
         JSON.stringify({
           tokenId: queuedSong.tokenId,
           name: queuedSong.name,
@@ -712,10 +878,14 @@ export async function POST(req: NextRequest) {
           paidAmount: queuedSong.paidAmount,
         }),
       );
-      await redis.ltrim(PLAY_HISTORY_KEY, 0, 99);
+      await redis.ltrim(keys.playHistory, 0, 99);
 
       // Broadcast state update so all listeners switch to the new song
-      broadcastRadioUpdate("state_update", { type: "song_playing", state });
+      broadcastRadioUpdate(
+        "state_update",
+        { type: "song_playing", state },
+        station.id,
+      );
 
       return NextResponse.json({
         success: true,
@@ -725,6 +895,112 @@ export async function POST(req: NextRequest) {
       });
     }
 
+    // Queue a playlist. Each track is paid for on-chain exactly as queue_song
+    // is (one radio_queue_song per track), and each payment's WMON transfer is
+    // checked on-chain and spent here; the paid tracks then wait in the queue
+    // in playlist order instead of interrupting the current song.
+    if (action === "queue_playlist") {
+      const viewer = await verifyQuickAuth(req);
+      const playlist = await getPlaylist(redis, String(body.playlistId || ""));
+      if (
+        !playlist ||
+        !canView(playlist, viewer.ok ? viewer.user.fid : null)
+      ) {
+        return NextResponse.json(
+          { success: false, error: "Playlist not found" },
+          { status: 404 },
+        );
+      }
+
+      const paid = new Map<string, string>();
+      for (const p of Array.isArray(body.payments) ? body.payments : []) {
+        if (p?.tokenId && typeof p.txHash === "string" && p.txHash) {
+          paid.set(String(p.tokenId), p.txHash);
+        }
+      }
+      if (paid.size === 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Queueing songs requires ${QUEUE_PRICE_WMON} WMON payment per track. Please submit payments with txHash.`,
+          },
+          { status: 400 },
+        );
+      }
+      if (paid.size > MAX_PLAYLIST_QUEUE) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `At most ${MAX_PLAYLIST_QUEUE} tracks can be queued at once`,
+          },
+          { status: 400 },
+        );
+      }
+
+      if (!userAddress) {
+        return NextResponse.json(
+          { success: false, error: "userAddress required" },
+          { status: 400 },
+        );
+      }
+
+      const queued: QueuedSong[] = [];
+      const skipped: string[] = [];
+      const unpaid: { tokenId: string; error: string }[] = [];
+      for (const track of playlist.tracks) {
+        if (!paid.has(track.tokenId)) continue;
+        // Checked before the payment is spent, so an uncleared track's transaction is not used up
+        if (!(await hasRightsClearance(redis, track.tokenId))) {
+          skipped.push(track.tokenId);
+          continue;
+        }
+        const payment = await verifyQueuePayment(
+          String(userAddress),
+          paid.get(track.tokenId)!,
+        );
+        if (!payment.ok) {
+          unpaid.push({ tokenId: track.tokenId, error: payment.error });
+          continue;
+        }
+        const known = await redis.hget<number>(
+          SONG_DURATIONS_KEY,
+          track.tokenId,
+        );
+        const song: QueuedSong = {
+          id: `${userAddress}-${track.tokenId}-${Date.now()}`,
+          tokenId: track.tokenId,
+          name: track.name,
+          artist: track.artist,
+          artistAddress: track.artistUsername || track.artist,
+          audioUrl: track.audioUrl,
+          imageUrl: track.imageUrl,
+          queuedBy: userAddress,
+          queuedByFid: userFid || 0,
+          queuedAt: Date.now(),
+          paidAmount: `${QUEUE_PRICE_WMON}`,
+          duration: Number(known) || 600,
+        };
+        await redis.rpush(keys.queue, JSON.stringify(song));
+        queued.push(song);
+      }
+
+      const queue = await redis.lrange(keys.queue, 0, 20);
+      broadcastRadioUpdate("queue_update", { queue }, station.id);
+      console.log(
+        `[LiveRadio] Playlist ${playlist.id} queued by ${userAddress}: ${queued.length} tracks` +
+          (skipped.length ? `, ${skipped.length} not cleared` : "") +
+          (unpaid.length ? `, ${unpaid.length} payments refused` : ""),
+      );
+
+      return NextResponse.json({
+        success: true,
+        message: `Queued ${queued.length} tracks from "${playlist.name}"`,
+        queued,
+        skipped,
+        unpaid,
+      });
+    }
+
     // Submit a voice note (requires WMON payment)
     if (action === "voice_note") {
       const { audioUrl, duration, message, username, txHash } = body;
@@ -771,7 +1047,7 @@ export async function POST(req: NextRequest) {
         isAd: false,
       };
 
-      await redis.rpush(VOICE_NOTES_KEY, JSON.stringify(voiceNote));
+      await redis.rpush(keys.voiceNotes, JSON.stringify(voiceNote));
 
       // Update listener stats
       const userKey = userAddress.toLowerCase();
@@ -787,14 +1063,18 @@ export async function POST(req: NextRequest) {
       );
 
       // Broadcast voice notes update to SSE clients
-      const updatedNotes = await redis.lrange(VOICE_NOTES_KEY, 0, 10);
+      const updatedNotes = await redis.lrange(keys.voiceNotes, 0, 10);
       const parsedNotes = updatedNotes.map((item: any) =>
         typeof item === "string" ? JSON.parse(item) : item,
       );
-      broadcastRadioUpdate("voice_notes_update", {
-        type: "voice_note_submitted",
-        voiceNotes: parsedNotes,
-      });
+      broadcastRadioUpdate(
+        "voice_notes_update",
+        {
+          type: "voice_note_submitted",
+          voiceNotes: parsedNotes,
+        },
+        station.id,
+      );
 
       // Post to Farcaster via bot (non-blocking)
       if (userFid) {
@@ -857,7 +1137,7 @@ export async function POST(req: NextRequest) {
       };
 
       // Ads go to front of queue (after other ads)
-      await redis.rpush(VOICE_NOTES_KEY, JSON.stringify(voiceAd));
+      await redis.rpush(keys.voiceNotes, JSON.stringify(voiceAd));
 
       // Update listener stats
       const userKey = userAddress.toLowerCase();
@@ -870,14 +1150,18 @@ export async function POST(req: NextRequest) {
       console.log("[LiveRadio] Voice ad submitted by", username || userAddress);
 
       // Broadcast voice notes update to SSE clients
-      const updatedAdNotes = await redis.lrange(VOICE_NOTES_KEY, 0, 10);
+      const updatedAdNotes = await redis.lrange(keys.voiceNotes, 0, 10);
       const parsedAdNotes = updatedAdNotes.map((item: any) =>
         typeof item === "string" ? JSON.parse(item) : item,
       );
-      broadcastRadioUpdate("voice_notes_update", {
-        type: "voice_ad_submitted",
-        voiceNotes: parsedAdNotes,
-      });
+      broadcastRadioUpdate(
+        "voice_notes_update",
+        {
+          type: "voice_ad_submitted",
+          voiceNotes: parsedAdNotes,
+        },
+        station.id,
+      );
 
       // Post to Farcaster via bot (non-blocking)
       if (userFid) {
@@ -908,7 +1192,7 @@ export async function POST(req: NextRequest) {
     // Play next song (admin/automated)
     if (action === "next_song") {
       // Pop next song from queue
-      const nextSongJson = await redis.lpop(RADIO_QUEUE_KEY);
+      const nextSongJson = await redis.lpop(keys.queue);
       if (!nextSongJson) {
         return NextResponse.json({
           success: false,
@@ -921,7 +1205,7 @@ export async function POST(req: NextRequest) {
           ? JSON.parse(nextSongJson)
           : nextSongJson;
 
-      const state = (await redis.get<RadioState>(RADIO_STATE_KEY)) || {
+      const state = (await redis.get<RadioState>(keys.state)) || {
         isLive: true,
         currentSong: null,
         listenerCount: 0,
@@ -936,10 +1220,14 @@ export async function POST(req: NextRequest) {
       };
       state.lastUpdated = Date.now();
 
-      await redis.set(RADIO_STATE_KEY, state);
+      await redis.set(keys.state, state);
 
       // Broadcast state update to SSE clients
-      broadcastRadioUpdate("state_update", { type: "song_playing", state });
+      broadcastRadioUpdate(
+        "state_update",
+        { type: "song_playing", state },
+        station.id,
+      );
 
       return NextResponse.json({
         success: true,
@@ -952,7 +1240,7 @@ export async function POST(req: NextRequest) {
     if (action === "song_ended") {
       const { songId, tokenId } = body;
 
-      const state = await redis.get<RadioState>(RADIO_STATE_KEY);
+      const state = await redis.get<RadioState>(keys.state);
       if (!state) {
         return NextResponse.json({ success: false, error: "Radio not active" });
       }
@@ -969,7 +1257,11 @@ export async function POST(req: NextRequest) {
           30,
           Math.floor((Date.now() - state.currentSong.startedAt) / 1000),
         );
-        recordRadioPlays(state.currentSong.tokenId, songDuration).catch((err) =>
+        recordRadioPlays(
+          state.currentSong.tokenId,
+          songDuration,
+          keys.activeListeners,
+        ).catch((err) =>
           console.error(
             "[LiveRadio] Background recordRadioPlays error:",
             err.message,
@@ -981,13 +1273,17 @@ export async function POST(req: NextRequest) {
         state.totalSongsPlayed = (state.totalSongsPlayed || 0) + 1;
         state.lastUpdated = Date.now();
 
-        await redis.set(RADIO_STATE_KEY, state);
+        await redis.set(keys.state, state);
 
         // Switch to voice_note phase so scheduler checks for pending voice notes
-        await redis.set(PLAYBACK_PHASE_KEY, "voice_note");
+        await redis.set(keys.playbackPhase, "voice_note");
 
         // Broadcast state update to SSE clients
-        broadcastRadioUpdate("state_update", { type: "song_ended", state });
+        broadcastRadioUpdate(
+          "state_update",
+          { type: "song_ended", state },
+          station.id,
+        );
 
         return NextResponse.json({
           success: true,
@@ -1013,9 +1309,8 @@ export async function POST(req: NextRequest) {
       // on-chain — and those plays decide how the 70% artist pool is split.
       // Trusting a body field here let anyone claim either share for an address
       // they do not control. See lib/radio-session.ts.
-      const sessionAddress = await resolveRadioSession(
-        req.headers.get(RADIO_SESSION_HEADER),
-      );
+      const sessionToken = req.headers.get(RADIO_SESSION_HEADER);
+      const sessionAddress = await resolveRadioSession(sessionToken);
 
       if (!sessionAddress) {
         return NextResponse.json(
@@ -1033,30 +1328,36 @@ export async function POST(req: NextRequest) {
       const today = Math.floor(now / (24 * 60 * 60 * 1000)); // Day number
 
       // OPTIMIZED: Use ZSET instead of individual keys + KEYS scan
-      // Add listener to ZSET with timestamp as score (1 Redis command)
-      await redis.zadd(ACTIVE_LISTENERS_ZSET, { score: now, member: userKey });
+      // Add listener to this station's ZSET with timestamp as score, leaving
+      // any other station they were on — one station per listener, or plays
+      // would be recorded on-chain twice per slot (2-4 Redis commands)
+      await moveListener(redis, userKey, station.id, now);
 
       // Remove listeners older than LISTENER_HEARTBEAT_EXPIRY seconds (1 Redis command)
       const cutoffTime = now - LISTENER_HEARTBEAT_EXPIRY * 1000;
-      await redis.zremrangebyscore(ACTIVE_LISTENERS_ZSET, 0, cutoffTime);
+      await redis.zremrangebyscore(keys.activeListeners, 0, cutoffTime);
 
       // Count active listeners efficiently with ZCARD (1 Redis command)
-      const activeCount = await redis.zcard(ACTIVE_LISTENERS_ZSET);
+      const activeCount = await redis.zcard(keys.activeListeners);
 
       // Update radio state listener count
-      const state = await redis.get<RadioState>(RADIO_STATE_KEY);
+      const state = await redis.get<RadioState>(keys.state);
       if (state) {
         const prevCount = state.listenerCount;
         state.listenerCount = activeCount;
         state.lastUpdated = Date.now();
-        await redis.set(RADIO_STATE_KEY, state);
+        await redis.set(keys.state, state);
 
         // Only broadcast if listener count actually changed (avoid spamming SSE)
         if (prevCount !== activeCount) {
-          broadcastRadioUpdate("state_update", {
-            type: "listener_count",
-            state,
-          });
+          broadcastRadioUpdate(
+            "state_update",
+            {
+              type: "listener_count",
+              state,
+            },
+            station.id,
+          );
         }
       }
 
@@ -1078,6 +1379,8 @@ export async function POST(req: NextRequest) {
 
       let rewardEarned = 0;
       let bonusType = "";
+      let beatSong: { id: string; duration: number } | null = null;
+      let credited = false;
 
       // Check if a song is ACTIVELY playing (not expired)
       const isSongActive =
@@ -1092,9 +1395,9 @@ export async function POST(req: NextRequest) {
         );
         state.currentSong = null;
         state.lastUpdated = now;
-        await redis.set(RADIO_STATE_KEY, state);
+        await redis.set(keys.state, state);
         // Switch to voice_note phase so scheduler checks for pending voice notes
-        await redis.set(PLAYBACK_PHASE_KEY, "voice_note");
+        await redis.set(keys.playbackPhase, "voice_note");
       }
 
       // Only award rewards if a song is actually playing
@@ -1135,14 +1438,27 @@ export async function POST(req: NextRequest) {
           stats.longestStreak = stats.currentStreak;
         }
 
-        // Listen reward - only give once per song (not per heartbeat)
-        const currentSongId = `${state!.currentSong!.tokenId}-${state!.currentSong!.startedAt}`;
+        // Listen reward - only give once per song (not per heartbeat), and
+        // never for two stations' songs in the same wall-clock slot. The main
+        // station keeps the pre-station id so nobody is re-credited on deploy.
+        const song = state!.currentSong!;
+        const songKey = `${song.tokenId}-${song.startedAt}`;
+        const currentSongId =
+          station.id === MAIN_STATION_ID ? songKey : `${station.id}:${songKey}`;
+        beatSong = { id: currentSongId, duration: song.duration };
 
-        if (stats.lastRewardedSongId !== currentSongId) {
+        if (canCreditListen(stats, currentSongId, station.id, now)) {
           rewardEarned += LISTEN_REWARD_TOURS;
           stats.totalSongsListened++;
           stats.lastRewardedSongId = currentSongId;
+          stats.lastRewardedStation = station.id;
+          stats.listenCreditUntil = song.startedAt + song.duration * 1000;
+          stats.stationListens = {
+            ...stats.stationListens,
+            [station.id]: (stats.stationListens?.[station.id] || 0) + 1,
+          };
           bonusType = bonusType ? `${bonusType}+listen` : "listen";
+          credited = true;
         }
 
         stats.lastListenDay = today;
@@ -1155,6 +1471,25 @@ export async function POST(req: NextRequest) {
 
       await redis.hset(LISTENER_STATS_KEY, { [userKey]: stats });
 
+      // Feed the anomaly scorer (lib/listener-risk.ts). It decides what the
+      // distribution and play recording do with this address later; it must
+      // never fail the heartbeat itself.
+      try {
+        await recordHeartbeat(redis, {
+          address: userKey,
+          at: now,
+          ip: getClientIP(req),
+          session: sessionTag(sessionToken!),
+          stationId: station.id,
+          songId: beatSong?.id ?? null,
+          songDuration: beatSong?.duration,
+          credited,
+        });
+        await maybeRescoreListener(redis, userKey, now);
+      } catch (err: any) {
+        console.error("[LiveRadio] Risk scoring error:", err?.message);
+      }
+
       return NextResponse.json({
         success: true,
         listenerCount: activeCount,
@@ -1219,7 +1554,7 @@ export async function POST(req: NextRequest) {
     if (action === "skip_to_random") {
       const { txHash } = body;
 
-      const state = await redis.get<RadioState>(RADIO_STATE_KEY);
+      const state = await redis.get<RadioState>(keys.state);
       if (!state || !state.isLive) {
         return NextResponse.json(
           { success: false, error: "Radio is not live" },
@@ -1249,10 +1584,29 @@ export async function POST(req: NextRequest) {
           body: JSON.stringify({ query }),
         });
         const envioData = await envioRes.json();
-        const songs = (envioData.data?.MusicNFT || []).filter(
+        const allSongs = (envioData.data?.MusicNFT || []).filter(
           (s: any) => s.fullAudioUrl && s.fullAudioUrl.length > 0,
         );
 
+        // A skip on a genre/artist/region station stays on that station's sound
+        const songs =
+          station.id === MAIN_STATION_ID
+            ? allSongs
+            : filterStationCatalogue(
+                station,
+                allSongs.map((s: any) => ({
+                  ...s,
+                  tokenId: String(s.tokenId),
+                })),
+                {
+                  tags: await loadTrackTags(redis),
+                  regionArtists:
+                    station.kind === "region"
+                      ? await fetchRegionArtists(station, ENVIO)
+                      : undefined,
+                },
+              );
+
         if (songs.length === 0) {
           return NextResponse.json(
             { success: false, error: "No music NFTs available to play" },
@@ -1284,6 +1638,7 @@ export async function POST(req: NextRequest) {
 
       // Update state with the new song
       const now = Date.now();
+      const skippedTokenId = state.currentSong?.tokenId;
       state.currentSong = {
         tokenId: randomSong.tokenId,
         name: randomSong.name || `Song #${randomSong.tokenId}`,
@@ -1301,12 +1656,12 @@ export async function POST(req: NextRequest) {
       state.totalSongsPlayed = (state.totalSongsPlayed || 0) + 1;
       state.lastUpdated = now;
 
-      await redis.set(RADIO_STATE_KEY, state);
-      await redis.set("live-radio:playback-phase", "song");
+      await redis.set(keys.state, state);
+      await redis.set(keys.playbackPhase, "song");
 
       // Log to play history
       await redis.lpush(
-        "live-radio:play-history",
+        keys.playHistory,
         JSON.stringify({
           tokenId: randomSong.tokenId,
           name: randomSong.name,
@@ -1319,10 +1674,25 @@ export async function POST(req: NextRequest) {
           skippedBy: userAddress,
         }),
       );
-      await redis.ltrim("live-radio:play-history", 0, 99);
+      await redis.ltrim(keys.playHistory, 0, 99);
+
+      // A paid skip is the clearest "not for me" we get; it feeds taste profiles
+      if (skippedTokenId && userAddress) {
+        recordSkip(redis, {
+          listener: userAddress,
+          tokenId: String(skippedTokenId),
+          at: now,
+        }).catch((err) =>
+          console.warn("[LiveRadio] Failed to log skip:", err),
+        );
+      }
 
       // Broadcast to all listeners
-      broadcastRadioUpdate("state_update", { type: "song_skipped", state });
+      broadcastRadioUpdate(
+        "state_update",
+        { type: "song_skipped", state },
+        station.id,
+      );
 
       console.log(
         "[LiveRadio] Skipped to random song:",
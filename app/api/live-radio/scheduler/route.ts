@@ -2,7 +2,44 @@ import { NextRequest, NextResponse } from "next/server";
 import { Redis } from "@upstash/redis";
 import { broadcastRadioUpdate } from "@/lib/event-manager";
 import { hasRightsClearance } from "@/lib/rights-declaration";
+import { recordRefundDue } from "@/lib/rights-dispute";
 import { recordPlaysForListeners } from "@/lib/play-recording";
+import { loadExcludedListeners } from "@/lib/listener-risk";
+import {
+  loadTrackTags,
+  programNextTrack,
+  type ProgrammingDecision,
+  type ProgrammingTrack,
+} from "@/lib/radio-programming";
+import {
+  listenerAffinity,
+  loadModel,
+  loadProfiles,
+} from "@/lib/recommendations";
+import {
+  MAIN_STATION_ID,
+  fetchRegionArtists,
+  filterStationCatalogue,
+  loadStations,
+  normalizeStationId,
+  stationKeys,
+  type StationConfig,
+  type StationKeys,
+} from "@/lib/radio-stations";
+import {
+  completeShow,
+  getOnAirShow,
+  markShowLive,
+  nextShowItem,
+  recordShowPlay,
+  saveShow,
+  toShowSummary,
+  toShowTag,
+  upcomingShows,
+  type RadioShow,
+  type ShowSetlistItem,
+  type ShowTag,
+} from "@/lib/radio-shows";
 
 /**
  * Live Radio Scheduler
@@ -12,7 +49,10 @@ import { recordPlaysForListeners } from "@/lib/play-recording";
  *
  * 1. Check if current song has ended
  * 2. Play voice note between songs (if any pending)
- * 3. Play next queued song OR random song
+ * 3. Play next queued song OR the programming engine's pick (lib/radio-programming.ts)
+ *
+ * During a booked show (lib/radio-shows.ts) steps 2-3 are replaced by the host's
+ * intros and setlist; listener voice notes and the paid queue wait for it to end.
  *
  * Playback Order:
  * Song → Voice Note → Song → Voice Note → ...
@@ -28,28 +68,20 @@ const redis = new Redis({
   token: process.env.UPSTASH_REDIS_REST_TOKEN!,
 });
 
-// In-memory cache to reduce Redis reads
-let cachedState: { data: RadioState | null; timestamp: number } = {
-  data: null,
-  timestamp: 0,
-};
-let cachedPhase: { data: string; timestamp: number } = {
-  data: "song",
-  timestamp: 0,
-};
+// In-memory cache to reduce Redis reads, one entry per station
+const cachedState = new Map<
+  string,
+  { data: RadioState | null; timestamp: number }
+>();
+const cachedPhase = new Map<string, { data: string; timestamp: number }>();
 const CACHE_TTL_MS = 10000; // 10 second cache (scheduler runs every 30-60s anyway)
 
-const RADIO_STATE_KEY = "live-radio:state";
-const RADIO_QUEUE_KEY = "live-radio:queue";
-const VOICE_NOTES_KEY = "live-radio:voice-notes";
 const SONG_POOL_KEY = "live-radio:song-pool";
-const SCHEDULER_LOCK_KEY = "live-radio:scheduler-lock";
-const PLAYBACK_PHASE_KEY = "live-radio:playback-phase"; // 'song' | 'voice_note'
-const PLAY_HISTORY_KEY = "live-radio:play-history"; // Recent plays list
+// State, queue, voice notes, lock, playback phase ('song' | 'voice_note'),
+// play history and active listeners are per station: see stationKeys().
 const SONG_DURATIONS_KEY = "live-radio:song-durations"; // tokenId -> real seconds, reported by clients
 
-// Must match app/api/live-radio/route.ts — the heartbeat writer owns these.
-const ACTIVE_LISTENERS_ZSET = "live-radio:active-listeners-zset";
+// Must match app/api/live-radio/route.ts — the heartbeat writer owns this.
 const LISTENER_HEARTBEAT_EXPIRY = 60; // Seconds before a listener is inactive
 
 // Fallback slot length used only until a client has reported a track's real
@@ -90,6 +122,7 @@ interface RadioState {
     startedAt: number;
     duration: number; // in seconds
     isRandom: boolean;
+    show?: ShowTag;
   } | null;
   currentVoiceNote: {
     id: string;
@@ -105,6 +138,7 @@ interface RadioState {
   lastUpdated: number;
   totalSongsPlayed: number;
   totalVoiceNotesPlayed: number;
+  currentShow?: ShowTag | null;
 }
 
 interface QueuedSong {
@@ -142,10 +176,12 @@ interface SongFromEnvio {
   audioUrl: string;
   imageUrl: string;
   artistFid: number;
+  mintedAt?: string;
   duration?: number; // May not be available from Envio, will default to 600s (client reports actual end)
 }
 
-// Fetch songs from Envio for random selection (only Music NFTs with audio)
+// Fetch songs from Envio for random selection (only Music NFTs with audio).
+// Called at most once per tick; every station programs from the same pool.
 async function fetchSongPool(): Promise<SongFromEnvio[]> {
   try {
     // Only fetch NFTs that have fullAudioUrl (music NFTs, not art NFTs)
@@ -158,6 +194,7 @@ async function fetchSongPool(): Promise<SongFromEnvio[]> {
           artistFid
           fullAudioUrl
           imageUrl
+          mintedAt
         }
       }
     `;
@@ -201,430 +238,730 @@ async function fetchSongPool(): Promise<SongFromEnvio[]> {
   }
 }
 
-// Select a random song from the pool
+/** Envio returns Timestamp as an ISO string; the engine wants epoch millis. */
+function toMillis(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const ms = /^\d+$/.test(value) ? Number(value) * 1000 : Date.parse(value);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
 /**
- * @param excludeTokenId track to avoid picking, normally the one that just played
+ * How much this station's current listeners like each track, from the taste
+ * profiles the recommendations keeper builds. Only read when the active preset
+ * sets tasteBias; before the first build there is no model and nothing tilts.
+ */
+async function loadListenerAffinity(
+  station: StationConfig,
+  now: number,
+): Promise<Record<string, number>> {
+  const cutoff = now - LISTENER_HEARTBEAT_EXPIRY * 1000;
+  const [model, listeners] = await Promise.all([
+    loadModel(redis),
+    redis.zrange(stationKeys(station.id).activeListeners, cutoff, "+inf", {
+      byScore: true,
+    }) as Promise<string[]>,
+  ]);
+  if (!model || listeners.length === 0) return {};
+  return listenerAffinity(model, await loadProfiles(redis, listeners));
+}
+
+/**
+ * Pick the next unpaid-for song through the programming engine.
  *
- * Picking the same track twice in a row is not just a poor listen — it costs the
- * artist money. MusicSubscriptionV5 enforces REPLAY_COOLDOWN of 300s per user per
- * song, and tracks run ~3-4 minutes, so a consecutive repeat lands inside the
- * cooldown and records no play at all. With a small catalogue that silently threw
- * away a large share of play credit.
+ * Separation, no-repeat horizon, dayparts and rotation tiers all live in
+ * lib/radio-programming.ts and are configured per preset in Redis. The engine
+ * reads play history itself, so the "don't repeat what just played" guard that
+ * used to be passed in here is now one of its rules — and the one it relaxes
+ * last, because a consecutive repeat lands inside MusicSubscriptionV5's
+ * REPLAY_COOLDOWN and records no play for the artist at all.
+ *
+ * Each station runs the same engine over its own slice of the pool (see
+ * filterStationCatalogue) and against its own play history.
  */
-async function selectRandomSong(
-  excludeTokenId?: string,
-): Promise<QueuedSong | null> {
-  const songs = await fetchSongPool();
+async function selectProgrammedSong(
+  station: StationConfig,
+  now: number,
+  songs: SongFromEnvio[],
+): Promise<{
+  song: QueuedSong;
+  decision: Omit<ProgrammingDecision, "track"> & { rules: string };
+} | null> {
   if (songs.length === 0) return null;
 
-  // Only exclude when there is something else to play, so a single-track
-  // catalogue still works.
-  const candidates =
-    excludeTokenId && songs.length > 1
-      ? songs.filter((s) => s.tokenId !== excludeTokenId)
-      : songs;
-  const pool = candidates.length > 0 ? candidates : songs;
+  const pool: (ProgrammingTrack & { song: SongFromEnvio })[] = songs.map(
+    (song) => ({
+      tokenId: String(song.tokenId),
+      artist: song.artist,
+      artistAddress: song.artist,
+      mintedAt: toMillis(song.mintedAt),
+      song,
+    }),
+  );
+  const catalogue =
+    station.id === MAIN_STATION_ID
+      ? pool
+      : filterStationCatalogue(station, pool, {
+          tags:
+            station.kind === "genre" ? await loadTrackTags(redis) : undefined,
+          regionArtists:
+            station.kind === "region"
+              ? await fetchRegionArtists(station, ENVIO_ENDPOINT)
+              : undefined,
+        });
+  if (catalogue.length === 0) {
+    console.warn(
+      `[RadioScheduler] Station ${station.id} has no playable tracks`,
+    );
+    return null;
+  }
+
+  const decision = await programNextTrack(redis, catalogue, {
+    now,
+    historyKey: stationKeys(station.id).playHistory,
+    affinity: () => loadListenerAffinity(station, now),
+  });
+  if (!decision) return null;
+  const { track, ...programming } = decision;
+  const song = track.song;
+
+  return {
+    song: {
+      id: `random-${song.tokenId}-${now}`,
+      tokenId: song.tokenId,
+      name: song.name || `Song #${song.tokenId}`,
+      artist: song.artist || "Unknown Artist",
+      artistAddress: song.artist,
+      audioUrl: song.audioUrl,
+      imageUrl: song.imageUrl || "",
+      queuedBy: "radio",
+      queuedByFid: 0,
+      queuedAt: now,
+      paidAmount: "0",
+      duration: song.duration || FALLBACK_DURATION, // overridden by the reported real duration at schedule time
+    },
+    decision: programming,
+  };
+}
+
+/**
+ * Reconcile state.currentShow with the calendar at a playback boundary.
+ *
+ * Returns the show that should drive this boundary, or null for normal rotation.
+ * A show ends here — never mid-song — once its window has closed, it was
+ * cancelled, or its setlist is exhausted.
+ */
+async function syncOnAirShow(
+  state: RadioState,
+  now: number,
+): Promise<RadioShow | null> {
+  let show = await getOnAirShow(redis, now);
+  if (show && !nextShowItem(show)) {
+    await completeShow(redis, show.showId, now);
+    show = null;
+  }
+
+  if (state.currentShow && state.currentShow.showId !== show?.showId) {
+    const ended = state.currentShow;
+    await completeShow(redis, ended.showId, now);
+    state.currentShow = null;
+    console.log("[RadioScheduler] Show ended:", ended.title);
+    broadcastRadioUpdate("shows_update", {
+      type: "show_ended",
+      showId: ended.showId,
+      shows: await upcomingShows(redis, now),
+    });
+  }
+
+  if (show && !state.currentShow) {
+    if (show.status === "scheduled")
+      show = await markShowLive(redis, show, now);
+    state.currentShow = toShowTag(show);
+    console.log("[RadioScheduler] Show started:", show.title);
+    broadcastRadioUpdate("shows_update", {
+      type: "show_started",
+      show: toShowSummary(show),
+      shows: await upcomingShows(redis, now),
+    });
+  }
 
-  const randomIndex = Math.floor(Math.random() * pool.length);
-  const song = pool[randomIndex];
+  return show;
+}
 
+function showSongToQueued(
+  item: ShowSetlistItem,
+  show: RadioShow,
+  now: number,
+): QueuedSong {
   return {
-    id: `random-${song.tokenId}-${Date.now()}`,
-    tokenId: song.tokenId,
-    name: song.name || `Song #${song.tokenId}`,
-    artist: song.artist || "Unknown Artist",
-    artistAddress: song.artist,
-    audioUrl: song.audioUrl,
-    imageUrl: song.imageUrl || "",
-    queuedBy: "radio",
-    queuedByFid: 0,
-    queuedAt: Date.now(),
+    id: `show-${show.showId}-${item.tokenId}-${now}`,
+    tokenId: item.tokenId,
+    name: item.name,
+    artist: item.artist,
+    artistAddress: item.artistAddress,
+    audioUrl: item.audioUrl,
+    imageUrl: item.imageUrl,
+    queuedBy: show.hostAddress,
+    queuedByFid: show.hostFid || 0,
+    queuedAt: now,
     paidAmount: "0",
-    duration: song.duration || FALLBACK_DURATION, // overridden by the reported real duration at schedule time
   };
 }
 
 // Get next voice note to play
-async function getNextVoiceNote(): Promise<VoiceNote | null> {
-  const noteJson = await redis.lpop(VOICE_NOTES_KEY);
+async function getNextVoiceNote(keys: StationKeys): Promise<VoiceNote | null> {
+  const noteJson = await redis.lpop(keys.voiceNotes);
   if (!noteJson) return null;
   return typeof noteJson === "string"
     ? (JSON.parse(noteJson) as VoiceNote)
     : (noteJson as VoiceNote);
 }
 
-// Get next queued song
-async function getNextQueuedSong(): Promise<QueuedSong | null> {
-  const songJson = await redis.lpop(RADIO_QUEUE_KEY);
-  if (!songJson) return null;
-  return typeof songJson === "string"
-    ? (JSON.parse(songJson) as QueuedSong)
-    : (songJson as QueuedSong);
-}
-
-export async function POST(req: NextRequest) {
-  try {
-    // Verify keeper secret
-    const { secret } = await req.json();
-    if (secret !== KEEPER_SECRET && KEEPER_SECRET) {
-      return NextResponse.json(
-        { success: false, error: "Unauthorized" },
-        { status: 401 },
-      );
+// Get next queued song. One disputed or revoked since it was queued is dropped, not played.
+async function getNextQueuedSong(
+  stationId: string,
+  keys: StationKeys,
+): Promise<QueuedSong | null> {
+  let songJson = await redis.lpop(keys.queue);
+  while (songJson) {
+    const song =
+      typeof songJson === "string"
+        ? (JSON.parse(songJson) as QueuedSong)
+        : (songJson as QueuedSong);
+    if (await hasRightsClearance(redis, song.tokenId)) return song;
+    console.log(
+      `[RadioScheduler] Dropped queued #${song.tokenId}: rights not cleared`,
+    );
+    // The listener paid for a play that will not happen; the admin refunds it
+    if (Number(song.paidAmount) > 0) {
+      await recordRefundDue(redis, {
+        id: song.id,
+        stationId,
+        tokenId: song.tokenId,
+        queuedBy: song.queuedBy,
+        queuedByFid: song.queuedByFid,
+        paidAmount: song.paidAmount,
+        queuedAt: song.queuedAt,
+        droppedAt: Date.now(),
+      });
     }
+    songJson = await redis.lpop(keys.queue);
+  }
+  return null;
+}
 
-    const now = Date.now();
+/**
+ * Advance one station. Returns the result the POST reports for it.
+ * `songPool` is the tick's cleared pool, fetched on first use and shared.
+ */
+async function tickStation(
+  station: StationConfig,
+  now: number,
+  songPool: () => Promise<SongFromEnvio[]>,
+): Promise<Record<string, unknown>> {
+  const keys = stationKeys(station.id);
 
-    // OPTIMIZATION: Check cached state first to see if we need to do anything
-    // This avoids hitting Redis if we know the song is still playing
-    if (cachedState.data && now - cachedState.timestamp < CACHE_TTL_MS) {
-      const state = cachedState.data;
-      if (state.isLive && state.currentSong) {
-        const songEndTime =
-          state.currentSong.startedAt + state.currentSong.duration * 1000;
-        const remainingMs = songEndTime - now;
-        // If song has more than 30 seconds left, skip Redis entirely
-        if (remainingMs > 30000) {
-          return NextResponse.json({
-            success: true,
-            message: "Song still playing (cached)",
-            song: state.currentSong.name,
-            remainingMs,
-            cached: true,
-          });
-        }
+  // OPTIMIZATION: Check cached state first to see if we need to do anything
+  // This avoids hitting Redis if we know the song is still playing
+  const cached = cachedState.get(station.id);
+  if (cached?.data && now - cached.timestamp < CACHE_TTL_MS) {
+    const state = cached.data;
+    if (state.isLive && state.currentSong) {
+      const songEndTime =
+        state.currentSong.startedAt + state.currentSong.duration * 1000;
+      const remainingMs = songEndTime - now;
+      // If song has more than 30 seconds left, skip Redis entirely
+      if (remainingMs > 30000) {
+        return {
+          success: true,
+          message: "Song still playing (cached)",
+          song: state.currentSong.name,
+          remainingMs,
+          cached: true,
+        };
       }
-      if (state.isLive && state.currentVoiceNote) {
-        const vnEndTime =
-          state.currentVoiceNote.startedAt +
-          state.currentVoiceNote.duration * 1000;
-        const remainingMs = vnEndTime - now;
-        if (remainingMs > 5000) {
-          return NextResponse.json({
-            success: true,
-            message: "Voice note still playing (cached)",
-            remainingMs,
-            cached: true,
-          });
-        }
+    }
+    if (state.isLive && state.currentVoiceNote) {
+      const vnEndTime =
+        state.currentVoiceNote.startedAt +
+        state.currentVoiceNote.duration * 1000;
+      const remainingMs = vnEndTime - now;
+      if (remainingMs > 5000) {
+        return {
+          success: true,
+          message: "Voice note still playing (cached)",
+          remainingMs,
+          cached: true,
+        };
       }
     }
+  }
 
-    // Acquire lock to prevent concurrent scheduling (1 Redis command)
-    const lockAcquired = await redis.set(SCHEDULER_LOCK_KEY, Date.now(), {
-      nx: true,
-      ex: 30,
-    });
-    if (!lockAcquired) {
-      return NextResponse.json({
-        success: true,
-        message: "Scheduler already running",
-      });
+  // Acquire lock to prevent concurrent scheduling (1 Redis command)
+  const lockAcquired = await redis.set(keys.schedulerLock, Date.now(), {
+    nx: true,
+    ex: 30,
+  });
+  if (!lockAcquired) {
+    return {
+      success: true,
+      message: "Scheduler already running",
+    };
+  }
+
+  try {
+    // Get current state (1 Redis command)
+    let state = await redis.get<RadioState>(keys.state);
+
+    // Update cache
+    cachedState.set(station.id, { data: state, timestamp: now });
+
+    if (!state || !state.isLive) {
+      await redis.del(keys.schedulerLock);
+      return { success: true, message: "Radio not live" };
     }
 
-    try {
-      // Get current state (1 Redis command)
-      let state = await redis.get<RadioState>(RADIO_STATE_KEY);
+    let action = "none";
+    let details: any = {};
 
-      // Update cache
-      cachedState = { data: state, timestamp: now };
+    // Get current playback phase (1 Redis command - but check cache first)
+    let phase: string;
+    const cachedPhaseEntry = cachedPhase.get(station.id);
+    if (cachedPhaseEntry && now - cachedPhaseEntry.timestamp < CACHE_TTL_MS) {
+      phase = cachedPhaseEntry.data;
+    } else {
+      phase = (await redis.get<string>(keys.playbackPhase)) || "song";
+      cachedPhase.set(station.id, { data: phase, timestamp: now });
+    }
 
-      if (!state || !state.isLive) {
-        await redis.del(SCHEDULER_LOCK_KEY);
-        return NextResponse.json({ success: true, message: "Radio not live" });
-      }
+    // Check if voice note is playing and has ended
+    if (state.currentVoiceNote) {
+      const voiceNoteDuration = state.currentVoiceNote.duration || 5;
+      const voiceNoteEndTime =
+        state.currentVoiceNote.startedAt + voiceNoteDuration * 1000;
+      const remainingMs = voiceNoteEndTime - now;
 
-      let action = "none";
-      let details: any = {};
+      console.log("[RadioScheduler] Voice note check:", {
+        id: state.currentVoiceNote.id,
+        duration: voiceNoteDuration,
+        startedAt: state.currentVoiceNote.startedAt,
+        endTime: voiceNoteEndTime,
+        now,
+        remainingMs,
+      });
 
-      // Get current playback phase (1 Redis command - but check cache first)
-      let phase: string;
-      if (
-        cachedPhase.timestamp > 0 &&
-        now - cachedPhase.timestamp < CACHE_TTL_MS
-      ) {
-        phase = cachedPhase.data;
+      if (now >= voiceNoteEndTime) {
+        // Voice note ended, switch to song phase
+        console.log(
+          "[RadioScheduler] Voice note ended after",
+          voiceNoteDuration,
+          "s, switching to song",
+        );
+        state.currentVoiceNote = null;
+        state.totalVoiceNotesPlayed = (state.totalVoiceNotesPlayed || 0) + 1;
+        phase = "song";
+        await redis.set(keys.playbackPhase, "song");
+        cachedPhase.set(station.id, { data: "song", timestamp: now });
       } else {
-        phase = (await redis.get<string>(PLAYBACK_PHASE_KEY)) || "song";
-        cachedPhase = { data: phase, timestamp: now };
+        // Voice note still playing
+        return {
+          success: true,
+          message: "Voice note still playing",
+          remainingMs: voiceNoteEndTime - now,
+        };
       }
+    }
 
-      // Check if voice note is playing and has ended
-      if (state.currentVoiceNote) {
-        const voiceNoteDuration = state.currentVoiceNote.duration || 5;
-        const voiceNoteEndTime =
-          state.currentVoiceNote.startedAt + voiceNoteDuration * 1000;
-        const remainingMs = voiceNoteEndTime - now;
-
-        console.log("[RadioScheduler] Voice note check:", {
-          id: state.currentVoiceNote.id,
-          duration: voiceNoteDuration,
-          startedAt: state.currentVoiceNote.startedAt,
-          endTime: voiceNoteEndTime,
-          now,
-          remainingMs,
-        });
+    // Check if current song has ended
+    if (state.currentSong) {
+      const songEndTime =
+        state.currentSong.startedAt + state.currentSong.duration * 1000;
 
-        if (now >= voiceNoteEndTime) {
-          // Voice note ended, switch to song phase
-          console.log(
-            "[RadioScheduler] Voice note ended after",
-            voiceNoteDuration,
-            "s, switching to song",
-          );
-          state.currentVoiceNote = null;
-          state.totalVoiceNotesPlayed = (state.totalVoiceNotesPlayed || 0) + 1;
-          phase = "song";
-          await redis.set(PLAYBACK_PHASE_KEY, "song");
-          cachedPhase = { data: "song", timestamp: now };
-        } else {
-          // Voice note still playing
-          return NextResponse.json({
-            success: true,
-            message: "Voice note still playing",
-            remainingMs: voiceNoteEndTime - now,
-          });
-        }
-      }
+      if (now >= songEndTime) {
+        // Song ended
+        console.log("[RadioScheduler] Song ended:", state.currentSong.name);
 
-      // Check if current song has ended
-      if (state.currentSong) {
-        const songEndTime =
-          state.currentSong.startedAt + state.currentSong.duration * 1000;
-
-        if (now >= songEndTime) {
-          // Song ended
-          console.log("[RadioScheduler] Song ended:", state.currentSong.name);
-
-          // Pay the artist for this spin.
-          //
-          // This scheduler is what actually advances the radio, but on-chain
-          // play recording used to hang off the client-reported `song_ended`
-          // action in ../route.ts, which is guarded by
-          // `state.currentSong.tokenId === tokenId`. This block nulls
-          // currentSong the moment the slot expires, so a client's report
-          // always arrived to find null or the next track and was dropped —
-          // the scheduler won that race every time. Result: month 689 opened
-          // 2026-08-05 and recorded zero plays while the radio ran nonstop.
-          //
-          // Read the ids off currentSong BEFORE clearing it, and fire without
-          // awaiting so N sequential on-chain writes cannot stall the tick.
-          // Double-recording is not a risk: PlayOracleV3.canPlay and the
-          // subscription's REPLAY_COOLDOWN both reject a repeat.
-          const endedTokenId = state.currentSong.tokenId;
-          const endedDuration = state.currentSong.duration;
-          recordPlaysForListeners(
-            redis,
-            endedTokenId,
-            endedDuration,
-            ACTIVE_LISTENERS_ZSET,
-            LISTENER_HEARTBEAT_EXPIRY,
-          ).catch((err) =>
+        // Pay the artist for this spin.
+        //
+        // This scheduler is what actually advances the radio, but on-chain
+        // play recording used to hang off the client-reported `song_ended`
+        // action in ../route.ts, which is guarded by
+        // `state.currentSong.tokenId === tokenId`. This block nulls
+        // currentSong the moment the slot expires, so a client's report
+        // always arrived to find null or the next track and was dropped —
+        // the scheduler won that race every time. Result: month 689 opened
+        // 2026-08-05 and recorded zero plays while the radio ran nonstop.
+        //
+        // Read the ids off currentSong BEFORE clearing it, and fire without
+        // awaiting so N sequential on-chain writes cannot stall the tick.
+        // Double-recording is not a risk: PlayOracleV3.canPlay and the
+        // subscription's REPLAY_COOLDOWN both reject a repeat.
+        const endedSong = state.currentSong;
+        const endedTokenId = endedSong.tokenId;
+        const endedDuration = endedSong.duration;
+        loadExcludedListeners(redis)
+          .then((excluded) =>
+            recordPlaysForListeners(
+              redis,
+              endedTokenId,
+              endedDuration,
+              keys.activeListeners,
+              LISTENER_HEARTBEAT_EXPIRY,
+              excluded,
+            ),
+          )
+          .then(async (result) => {
+            if (!endedSong.show) return;
+            await recordShowPlay(redis, endedSong.show.showId, {
+              tokenId: endedTokenId,
+              name: endedSong.name,
+              artistAddress: endedSong.artistAddress,
+              startedAt: endedSong.startedAt,
+              endedAt: now,
+              recorded: result.recorded,
+              listeners: result.total,
+            });
+          })
+          .catch((err) =>
             console.error(
               "[RadioScheduler] recordPlaysForListeners error:",
               err?.message?.slice(0, 120),
             ),
           );
 
-          state.currentSong = null;
-          state.totalSongsPlayed = (state.totalSongsPlayed || 0) + 1;
-
-          // Switch to voice note phase (play voice note between songs)
-          phase = "voice_note";
-          await redis.set(PLAYBACK_PHASE_KEY, "voice_note");
-          cachedPhase = { data: "voice_note", timestamp: now };
-        } else {
-          // Song still playing
-          return NextResponse.json({
-            success: true,
-            message: "Song still playing",
-            song: state.currentSong.name,
-            remainingMs: songEndTime - now,
-          });
-        }
+        state.currentSong = null;
+        state.totalSongsPlayed = (state.totalSongsPlayed || 0) + 1;
+
+        // Switch to voice note phase (play voice note between songs)
+        phase = "voice_note";
+        await redis.set(keys.playbackPhase, "voice_note");
+        cachedPhase.set(station.id, { data: "voice_note", timestamp: now });
+      } else {
+        // Song still playing
+        return {
+          success: true,
+          message: "Song still playing",
+          song: state.currentSong.name,
+          remainingMs: songEndTime - now,
+        };
       }
+    }
 
-      // No song or voice note playing - advance playback
-      if (phase === "voice_note") {
-        // Try to play a voice note
-        const voiceNote = await getNextVoiceNote();
-
-        if (voiceNote) {
-          // Ensure duration is valid (default to 5 seconds if missing/invalid)
-          const validDuration =
-            typeof voiceNote.duration === "number" && voiceNote.duration > 0
-              ? voiceNote.duration
-              : 5;
-
-          state.currentVoiceNote = {
-            id: voiceNote.id,
-            submitter: voiceNote.userAddress,
-            username: voiceNote.username,
-            audioUrl: voiceNote.audioUrl,
-            duration: validDuration,
-            message: voiceNote.message,
-            startedAt: now,
-            isAd: voiceNote.isAd,
-          };
-          action = "voice_note_started";
-          details = { voiceNote: state.currentVoiceNote };
-          console.log(
-            "[RadioScheduler] Playing voice note from:",
-            voiceNote.username || voiceNote.userAddress,
-            "| Duration:",
-            validDuration,
-            "s",
-          );
-          console.log(
-            "[RadioScheduler] Voice note audioUrl:",
-            voiceNote.audioUrl,
-          );
+    // No song or voice note playing - advance playback.
+    // A booked show takes over here: its intro (if any) plays as the voice
+    // note, and listener voice notes are held until the show hands back.
+    // Shows are booked against the main station only.
+    const show =
+      station.id === MAIN_STATION_ID ? await syncOnAirShow(state, now) : null;
+    if (show) {
+      const item = nextShowItem(show);
+      if (item && "intro" in item) {
+        const intro = item.intro;
+        show.lastIntroIndex = show.cursor;
+        await saveShow(redis, show);
 
-          // Save state and return immediately - let next scheduler call handle playback check
-          state.lastUpdated = now;
-          await redis.set(RADIO_STATE_KEY, state);
-          cachedState = { data: state, timestamp: now };
-
-          // Broadcast voice note start to SSE clients
-          broadcastRadioUpdate("state_update", {
-            type: "voice_note_started",
-            state,
-          });
-
-          await redis.del(SCHEDULER_LOCK_KEY);
-
-          return NextResponse.json({
-            success: true,
-            action,
-            details,
-            state: {
-              isLive: state.isLive,
-              currentSong: null,
-              currentVoiceNote: state.currentVoiceNote.id,
-              phase: "voice_note",
-              durationMs: validDuration * 1000,
-            },
-          });
-        } else {
-          // No voice notes, skip to song phase
-          phase = "song";
-          await redis.set(PLAYBACK_PHASE_KEY, "song");
-          cachedPhase = { data: "song", timestamp: now };
-        }
+        state.currentVoiceNote = {
+          id: intro.id,
+          submitter: intro.userAddress,
+          username: intro.username,
+          audioUrl: intro.audioUrl,
+          duration: intro.duration > 0 ? intro.duration : 5,
+          message: intro.message,
+          startedAt: now,
+          isAd: false,
+        };
+        state.lastUpdated = now;
+        await redis.set(keys.playbackPhase, "voice_note");
+        cachedPhase.set(station.id, { data: "voice_note", timestamp: now });
+        await redis.set(keys.state, state);
+        cachedState.set(station.id, { data: state, timestamp: now });
+        broadcastRadioUpdate(
+          "state_update",
+          { type: "voice_note_started", state },
+          station.id,
+        );
+
+        return {
+          success: true,
+          action: "show_intro_started",
+          details: {
+            show: state.currentShow,
+            voiceNote: state.currentVoiceNote,
+          },
+        };
       }
+      phase = "song";
+    }
 
-      if (phase === "song" && !state.currentSong && !state.currentVoiceNote) {
-        // Try queued song first, then random
-        let nextSong = await getNextQueuedSong();
-        let isRandom = false;
-
-        if (!nextSong) {
-          // Read the track that just played from history rather than from
-          // state.currentSong, which has already been cleared by the time we get
-          // here — and may have been cleared on an earlier tick entirely.
-          let lastTokenId: string | undefined;
-          try {
-            const [last] = await redis.lrange<string>(PLAY_HISTORY_KEY, 0, 0);
-            if (last) {
-              const parsed = typeof last === "string" ? JSON.parse(last) : last;
-              lastTokenId = parsed?.tokenId;
-            }
-          } catch (err) {
-            console.warn("[RadioScheduler] Play history lookup failed:", err);
-          }
+    if (phase === "voice_note") {
+      // Try to play a voice note
+      const voiceNote = await getNextVoiceNote(keys);
 
-          // No queued songs, select random
-          nextSong = await selectRandomSong(lastTokenId);
-          isRandom = true;
-        }
+      if (voiceNote) {
+        // Ensure duration is valid (default to 5 seconds if missing/invalid)
+        const validDuration =
+          typeof voiceNote.duration === "number" && voiceNote.duration > 0
+            ? voiceNote.duration
+            : 5;
+
+        state.currentVoiceNote = {
+          id: voiceNote.id,
+          submitter: voiceNote.userAddress,
+          username: voiceNote.username,
+          audioUrl: voiceNote.audioUrl,
+          duration: validDuration,
+          message: voiceNote.message,
+          startedAt: now,
+          isAd: voiceNote.isAd,
+        };
+        action = "voice_note_started";
+        details = { voiceNote: state.currentVoiceNote };
+        console.log(
+          "[RadioScheduler] Playing voice note from:",
+          voiceNote.username || voiceNote.userAddress,
+          "| Duration:",
+          validDuration,
+          "s",
+        );
+        console.log(
+          "[RadioScheduler] Voice note audioUrl:",
+          voiceNote.audioUrl,
+        );
+
+        // Save state and return immediately - let next scheduler call handle playback check
+        state.lastUpdated = now;
+        await redis.set(keys.state, state);
+        cachedState.set(station.id, { data: state, timestamp: now });
+
+        // Broadcast voice note start to SSE clients
+        broadcastRadioUpdate(
+          "state_update",
+          { type: "voice_note_started", state },
+          station.id,
+        );
+
+        await redis.del(keys.schedulerLock);
+
+        return {
+          success: true,
+          action,
+          details,
+          state: {
+            isLive: state.isLive,
+            currentSong: null,
+            currentVoiceNote: state.currentVoiceNote.id,
+            phase: "voice_note",
+            durationMs: validDuration * 1000,
+          },
+        };
+      } else {
+        // No voice notes, skip to song phase
+        phase = "song";
+        await redis.set(keys.playbackPhase, "song");
+        cachedPhase.set(station.id, { data: "song", timestamp: now });
+      }
+    }
 
-        if (nextSong) {
-          // Prefer the real duration a client measured off the audio element.
-          // Only fall back to the flat slot when nobody has played this track yet.
-          // `||` rather than `??` on nextSong.duration: a 0 here means "unknown",
-          // not "zero-length", and scheduling a 0s slot would spin the radio.
-          const knownDuration = await getKnownDuration(nextSong.tokenId);
-          const duration =
-            knownDuration || nextSong.duration || FALLBACK_DURATION;
+    if (phase === "song" && !state.currentSong && !state.currentVoiceNote) {
+      // Show setlist first, then queued song, then the programmed pick
+      let nextSong: QueuedSong | null = null;
+      let isRandom = false;
+      let programming: Awaited<ReturnType<typeof selectProgrammedSong>> | null =
+        null;
+
+      if (show) {
+        let item = nextShowItem(show);
+        let skipped = false;
+        // The setlist was cleared when the show was booked; a dispute or hold since then
+        // takes the track off air here, as it does for the paid queue.
+        while (
+          item &&
+          "song" in item &&
+          !(await hasRightsClearance(redis, item.song.tokenId))
+        ) {
           console.log(
-            "[RadioScheduler] Song duration:",
-            duration,
-            knownDuration ? "seconds (measured)" : "seconds (fallback)",
-            "for:",
-            nextSong.name,
+            `[RadioScheduler] Skipped show #${item.song.tokenId}: rights not cleared`,
           );
+          show.cursor = item.index + 1;
+          skipped = true;
+          item = nextShowItem(show);
+        }
+        if (item && "song" in item) {
+          nextSong = showSongToQueued(item.song, show, now);
+          show.cursor = item.index + 1;
+        }
+        if (nextSong || skipped) await saveShow(redis, show);
+        // Skipping landed on the next song's intro: the next tick plays it. The song that just
+        // ended is already counted and recorded above, so the cleared state must be saved first.
+        if (item && "intro" in item) {
+          state.lastUpdated = now;
+          await redis.set(keys.state, state);
+          cachedState.set(station.id, { data: state, timestamp: now });
+          return { success: true, action: "show_song_skipped" };
+        }
+      } else {
+        nextSong = await getNextQueuedSong(station.id, keys);
+      }
 
-          state.currentSong = {
-            tokenId: nextSong.tokenId,
-            name: nextSong.name,
-            artist: nextSong.artist,
-            artistAddress: nextSong.artistAddress || nextSong.artist,
-            audioUrl: nextSong.audioUrl,
-            imageUrl: nextSong.imageUrl,
-            queuedBy: nextSong.queuedBy,
-            queuedByFid: nextSong.queuedByFid,
-            startedAt: now,
-            duration,
-            isRandom,
-          };
-          action = "song_started";
-          details = { song: state.currentSong, isRandom };
+      if (!nextSong) {
+        programming = await selectProgrammedSong(
+          station,
+          now,
+          await songPool(),
+        );
+        nextSong = programming?.song ?? null;
+        isRandom = true;
+        if (programming) {
           console.log(
-            "[RadioScheduler] Now playing:",
-            nextSong.name,
-            isRandom ? "(random)" : "(queued)",
+            "[RadioScheduler] Programming:",
+            programming.decision.rules,
+            "| tier:",
+            programming.decision.tier,
+            "| daypart:",
+            programming.decision.daypart,
+            programming.decision.relaxed.length
+              ? `| relaxed: ${programming.decision.relaxed.join(", ")}`
+              : "",
           );
-
-          // Log play to history for tracking and leaderboard
-          const playEntry = {
-            tokenId: nextSong.tokenId,
-            name: nextSong.name,
-            artist: nextSong.artist,
-            imageUrl: nextSong.imageUrl,
-            queuedBy: nextSong.queuedBy,
-            queuedByFid: nextSong.queuedByFid,
-            playedAt: now,
-            isRandom,
-          };
-          // Add to front of list, keep last 100 plays
-          await redis.lpush(PLAY_HISTORY_KEY, JSON.stringify(playEntry));
-          await redis.ltrim(PLAY_HISTORY_KEY, 0, 99);
-        } else {
-          action = "no_songs_available";
         }
       }
 
-      // Update state
-      state.lastUpdated = now;
-      await redis.set(RADIO_STATE_KEY, state);
-      cachedState = { data: state, timestamp: now };
+      if (nextSong) {
+        // Prefer the real duration a client measured off the audio element.
+        // Only fall back to the flat slot when nobody has played this track yet.
+        // `||` rather than `??` on nextSong.duration: a 0 here means "unknown",
+        // not "zero-length", and scheduling a 0s slot would spin the radio.
+        const knownDuration = await getKnownDuration(nextSong.tokenId);
+        const duration =
+          knownDuration || nextSong.duration || FALLBACK_DURATION;
+        console.log(
+          "[RadioScheduler] Song duration:",
+          duration,
+          knownDuration ? "seconds (measured)" : "seconds (fallback)",
+          "for:",
+          nextSong.name,
+        );
 
-      // Broadcast state update to SSE clients
-      if (action !== "no_action" && action !== "no_songs_available") {
-        broadcastRadioUpdate("state_update", { type: action, state });
+        state.currentSong = {
+          tokenId: nextSong.tokenId,
+          name: nextSong.name,
+          artist: nextSong.artist,
+          artistAddress: nextSong.artistAddress || nextSong.artist,
+          audioUrl: nextSong.audioUrl,
+          imageUrl: nextSong.imageUrl,
+          queuedBy: nextSong.queuedBy,
+          queuedByFid: nextSong.queuedByFid,
+          startedAt: now,
+          duration,
+          isRandom,
+          ...(show && { show: toShowTag(show) }),
+        };
+        action = "song_started";
+        details = {
+          song: state.currentSong,
+          isRandom,
+          programming: programming?.decision,
+        };
+        console.log(
+          "[RadioScheduler] Now playing:",
+          nextSong.name,
+          show ? `(show: ${show.title})` : isRandom ? "(random)" : "(queued)",
+        );
+
+        // Log play to history for tracking and leaderboard
+        // artistAddress and the programming fields feed the engine's
+        // separation rules on later ticks.
+        const playEntry = {
+          tokenId: nextSong.tokenId,
+          name: nextSong.name,
+          artist: nextSong.artist,
+          artistAddress: nextSong.artistAddress || nextSong.artist,
+          imageUrl: nextSong.imageUrl,
+          queuedBy: nextSong.queuedBy,
+          queuedByFid: nextSong.queuedByFid,
+          playedAt: now,
+          isRandom,
+          ...(programming && {
+            tier: programming.decision.tier,
+            daypart: programming.decision.daypart,
+          }),
+          ...(show && { show: toShowTag(show) }),
+        };
+        // Add to front of list, keep last 100 plays
+        await redis.lpush(keys.playHistory, JSON.stringify(playEntry));
+        await redis.ltrim(keys.playHistory, 0, 99);
+      } else {
+        action = "no_songs_available";
       }
+    }
 
-      return NextResponse.json({
-        success: true,
-        action,
-        details,
-        state: {
-          isLive: state.isLive,
-          currentSong: state.currentSong?.name || null,
-          currentVoiceNote: (state as RadioState).currentVoiceNote?.id ?? null,
-          phase,
-          totalSongsPlayed: state.totalSongsPlayed,
-          totalVoiceNotesPlayed: state.totalVoiceNotesPlayed,
-        },
-      });
-    } finally {
-      // Release lock
-      await redis.del(SCHEDULER_LOCK_KEY);
+    // Update state
+    state.lastUpdated = now;
+    await redis.set(keys.state, state);
+    cachedState.set(station.id, { data: state, timestamp: now });
+
+    // Broadcast state update to SSE clients
+    if (action !== "no_action" && action !== "no_songs_available") {
+      broadcastRadioUpdate("state_update", { type: action, state }, station.id);
     }
+
+    return {
+      success: true,
+      action,
+      details,
+      state: {
+        isLive: state.isLive,
+        currentSong: state.currentSong?.name || null,
+        currentVoiceNote: (state as RadioState).currentVoiceNote?.id ?? null,
+        phase,
+        totalSongsPlayed: state.totalSongsPlayed,
+        totalVoiceNotesPlayed: state.totalVoiceNotesPlayed,
+      },
+    };
+  } finally {
+    // Release lock
+    await redis.del(keys.schedulerLock);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Verify keeper secret
+    const { secret } = await req.json();
+    if (secret !== KEEPER_SECRET && KEEPER_SECRET) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 },
+      );
+    }
+
+    const now = Date.now();
+
+    // Every station advances on the same tick. A station that throws is
+    // reported and skipped so one bad config cannot silence the others.
+    const stations = await loadStations(redis);
+    const results: Record<string, Record<string, unknown>> = {};
+    // One Envio query and one clearance pass per tick, and none when every
+    // station is mid-song or has a paid queue
+    let pool: Promise<SongFromEnvio[]> | null = null;
+    const songPool = () => (pool ??= fetchSongPool());
+    for (const station of stations) {
+      try {
+        results[station.id] = await tickStation(station, now, songPool);
+      } catch (error: any) {
+        console.error(`[RadioScheduler] Station ${station.id} error:`, error);
+        results[station.id] = { success: false, error: error.message };
+      }
+    }
+
+    // The main station's result stays at the top level, where callers read
+    // it before there were stations.
+    return NextResponse.json({
+      success: true,
+      ...results[MAIN_STATION_ID],
+      stations: results,
+    });
   } catch (error: any) {
     console.error("[RadioScheduler] Error:", error);
-    // Release lock on error
-    await redis.del(SCHEDULER_LOCK_KEY);
     return NextResponse.json(
       { success: false, error: error.message },
       { status: 500 },
@@ -632,13 +969,16 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// GET - Check scheduler status
+// GET - Check scheduler status (?station=<id>, main by default)
 export async function GET(req: NextRequest) {
   try {
-    const state = await redis.get<RadioState>(RADIO_STATE_KEY);
-    const phase = (await redis.get<string>(PLAYBACK_PHASE_KEY)) || "song";
-    const queueLength = await redis.llen(RADIO_QUEUE_KEY);
-    const voiceNotesLength = await redis.llen(VOICE_NOTES_KEY);
+    const keys = stationKeys(
+      normalizeStationId(req.nextUrl.searchParams.get("station")),
+    );
+    const state = await redis.get<RadioState>(keys.state);
+    const phase = (await redis.get<string>(keys.playbackPhase)) || "song";
+    const queueLength = await redis.llen(keys.queue);
+    const voiceNotesLength = await redis.llen(keys.voiceNotes);
 
     const now = Date.now();
     let songTimeRemaining = 0;
@@ -0,0 +1,291 @@
+import { NextRequest, NextResponse } from "next/server";
+import { randomBytes } from "crypto";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { broadcastRadioUpdate } from "@/lib/event-manager";
+import { authorizeUserAddress } from "@/lib/quick-auth";
+import { checkRateLimit, getClientIP, RateLimiters } from "@/lib/rate-limit";
+import { redis } from "@/lib/redis";
+import {
+  SHOW_KEYS,
+  SHOW_LIMITS,
+  ShowBookingError,
+  assertEditable,
+  bookShow,
+  getShow,
+  getShowPlays,
+  isEligibleHost,
+  resolveSetlist,
+  saveShow,
+  toShowSummary,
+  upcomingShows,
+} from "@/lib/radio-shows";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Live Radio show calendar and DJ takeover bookings.
+ *
+ *   GET  /api/live-radio/shows                 → { shows }            upcoming + on air
+ *   GET  /api/live-radio/shows?showId=...      → { show, plays }      detail + play log
+ *
+ *   POST /api/live-radio/shows
+ *   { action: "book",           userAddress, title, description?, startsAt, endsAt, tokenIds, hostName?, hostFid? }
+ *   { action: "update_setlist", userAddress, showId, tokenIds }
+ *   { action: "add_intro",      userAddress, showId, beforeIndex, audioUrl, duration, message? }
+ *   { action: "cancel",         userAddress, showId }                     host
+ *   { action: "cancel",         showId, adminAddress, signature, timestamp }   admin
+ *   { action: "add_curator" | "remove_curator", address, adminAddress, signature, timestamp }
+ *
+ * Host actions require proven ownership of userAddress (Quick Auth or wallet
+ * signature) — `ownsAddress`, not merely `allowed`, as this is new surface.
+ * Setlists are sent as tokenIds only and resolved server-side; see resolveSetlist().
+ * Intro audio is uploaded first through /api/upload-to-ipfs, like listener voice notes.
+ */
+
+const ADDRESS_RE = /^0x[a-fA-F0-9]{40}$/;
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+async function broadcastShows(type: string, showId: string) {
+  broadcastRadioUpdate("shows_update", {
+    type,
+    showId,
+    shows: await upcomingShows(redis, Date.now()),
+  });
+}
+
+function parseTokenIds(raw: unknown): string[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  return raw.slice(0, SHOW_LIMITS.maxSetlist).map(String);
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const showId = req.nextUrl.searchParams.get("showId");
+    if (showId) {
+      const show = await getShow(redis, showId);
+      if (!show) return fail("Show not found", 404);
+      const plays = await getShowPlays(redis, showId);
+      return NextResponse.json({
+        success: true,
+        show: {
+          ...toShowSummary(show),
+          setlist: show.setlist.map(({ tokenId, name, artist }) => ({
+            tokenId,
+            name,
+            artist,
+          })),
+          cursor: show.cursor,
+          startedAt: show.startedAt,
+          endedAt: show.endedAt,
+        },
+        plays,
+      });
+    }
+
+    const shows = await upcomingShows(redis, Date.now(), 20);
+    return NextResponse.json({ success: true, shows });
+  } catch (error: any) {
+    console.error("[RadioShows] GET error:", error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+
+    // ---- Admin-only actions
+    if (action === "add_curator" || action === "remove_curator") {
+      const address = String(body.address || "").toLowerCase();
+      if (!ADDRESS_RE.test(address)) return fail("A valid address is required");
+
+      const auth = await authenticateAdminAction({
+        action: `radio_shows_${action}`,
+        details: address,
+        adminAddress: body.adminAddress,
+        signature: body.signature,
+        timestamp: body.timestamp,
+      });
+      if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+      if (action === "add_curator") {
+        await redis.sadd(SHOW_KEYS.curators, address);
+      } else {
+        await redis.srem(SHOW_KEYS.curators, address);
+      }
+      console.log(`[RadioShows] ${action} ${address} by ${auth.address}`);
+      return NextResponse.json({ success: true, address });
+    }
+
+    if (action === "cancel" && body.adminAddress) {
+      const showId = String(body.showId || "");
+      const auth = await authenticateAdminAction({
+        action: "radio_shows_cancel",
+        details: showId,
+        adminAddress: body.adminAddress,
+        signature: body.signature,
+        timestamp: body.timestamp,
+      });
+      if (!auth.valid) return fail(auth.error || "Unauthorized", 403);
+
+      const show = await getShow(redis, showId);
+      if (!show) return fail("Show not found", 404);
+      if (show.status === "completed" || show.status === "cancelled") {
+        return fail(`Show is already ${show.status}`, 409);
+      }
+      // Cancelling a live show is allowed for admins: the scheduler hands back to
+      // rotation at the next song boundary.
+      show.status = "cancelled";
+      show.cancelledBy = auth.address;
+      await saveShow(redis, show);
+      console.log(`[RadioShows] "${show.title}" cancelled by admin ${auth.address}`);
+      await broadcastShows("show_cancelled", showId);
+      return NextResponse.json({ success: true, show: toShowSummary(show) });
+    }
+
+    // ---- Host actions
+    const userAddress = String(body.userAddress || "");
+    if (!ADDRESS_RE.test(userAddress)) {
+      return fail("A valid userAddress is required");
+    }
+
+    const rateLimit = await checkRateLimit(
+      RateLimiters.general,
+      getClientIP(req),
+      userAddress,
+    );
+    if (!rateLimit.allowed) {
+      return fail(
+        `Rate limit exceeded. Try again in ${rateLimit.resetIn} seconds.`,
+        429,
+      );
+    }
+
+    const decision = await authorizeUserAddress(
+      req,
+      userAddress,
+      `live-radio-shows:${action}`,
+    );
+    if (!decision.ownsAddress) {
+      return fail(
+        decision.reason ||
+          "Prove you control this address with a Quick Auth token or a wallet signature",
+        401,
+      );
+    }
+    const host = userAddress.toLowerCase();
+
+    if (action === "book") {
+      const title = typeof body.title === "string" ? body.title.trim() : "";
+      if (!title) return fail("title is required");
+      const tokenIds = parseTokenIds(body.tokenIds);
+      if (!tokenIds) return fail("tokenIds must be a non-empty array");
+
+      if (!(await isEligibleHost(redis, host))) {
+        return fail("Only artists and approved curators can host shows", 403);
+      }
+
+      const { setlist, rejected } = await resolveSetlist(redis, tokenIds);
+      const show = await bookShow(redis, {
+        hostAddress: host,
+        hostFid: decision.fid ?? (Number(body.hostFid) || undefined),
+        hostName:
+          typeof body.hostName === "string"
+            ? body.hostName.slice(0, 40)
+            : undefined,
+        title,
+        description:
+          typeof body.description === "string" ? body.description : undefined,
+        startsAt: Number(body.startsAt),
+        endsAt: Number(body.endsAt),
+        setlist,
+      });
+
+      await broadcastShows("show_booked", show.showId);
+      return NextResponse.json({ success: true, show, rejected });
+    }
+
+    if (action === "update_setlist") {
+      const show = assertEditable(await getShow(redis, String(body.showId)), host);
+      const tokenIds = parseTokenIds(body.tokenIds);
+      if (!tokenIds) return fail("tokenIds must be a non-empty array");
+
+      const { setlist, rejected } = await resolveSetlist(redis, tokenIds);
+      if (setlist.length === 0) {
+        return fail("A show needs at least one cleared track");
+      }
+      show.setlist = setlist;
+      // Intros are anchored to setlist positions; drop any that fell off the end.
+      show.intros = show.intros.filter((i) => i.beforeIndex < setlist.length);
+      await saveShow(redis, show);
+      return NextResponse.json({ success: true, show, rejected });
+    }
+
+    if (action === "add_intro") {
+      const show = assertEditable(await getShow(redis, String(body.showId)), host);
+      const beforeIndex = Number(body.beforeIndex);
+      if (
+        !Number.isInteger(beforeIndex) ||
+        beforeIndex < 0 ||
+        beforeIndex >= show.setlist.length
+      ) {
+        return fail(`beforeIndex must be 0-${show.setlist.length - 1}`);
+      }
+
+      const audioUrl = typeof body.audioUrl === "string" ? body.audioUrl : "";
+      if (!audioUrl.startsWith("https://") || !audioUrl.includes("/ipfs/")) {
+        return fail("audioUrl must be an IPFS URL from /api/upload-to-ipfs");
+      }
+      const duration = Number(body.duration);
+      if (
+        !Number.isFinite(duration) ||
+        duration <= 0 ||
+        duration > SHOW_LIMITS.maxIntroSeconds
+      ) {
+        return fail(`Intros run up to ${SHOW_LIMITS.maxIntroSeconds} seconds`);
+      }
+
+      // One intro per slot — a re-record replaces the previous take.
+      show.intros = show.intros.filter((i) => i.beforeIndex !== beforeIndex);
+      show.intros.push({
+        id: `intro-${show.showId}-${randomBytes(4).toString("hex")}`,
+        userAddress: host,
+        userFid: show.hostFid || 0,
+        username: show.hostName,
+        audioUrl,
+        duration,
+        message:
+          typeof body.message === "string" ? body.message.slice(0, 140) : undefined,
+        createdAt: Date.now(),
+        played: false,
+        isAd: false,
+        beforeIndex,
+      });
+      await saveShow(redis, show);
+      return NextResponse.json({ success: true, intros: show.intros });
+    }
+
+    if (action === "cancel") {
+      const show = assertEditable(await getShow(redis, String(body.showId)), host);
+      show.status = "cancelled";
+      show.cancelledBy = host;
+      await saveShow(redis, show);
+      console.log(`[RadioShows] "${show.title}" cancelled by host ${host}`);
+      await broadcastShows("show_cancelled", show.showId);
+      return NextResponse.json({ success: true, show: toShowSummary(show) });
+    }
+
+    return fail("Unknown action");
+  } catch (error: any) {
+    if (error instanceof ShowBookingError) {
+      return fail(error.message, error.status);
+    }
+    console.error("[RadioShows] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,190 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { authenticateAdminAction } from "@/lib/auth";
+import { redis } from "@/lib/redis";
+import {
+  MAIN_STATION_ID,
+  MAX_STATIONS,
+  STATION_KEYS,
+  loadStations,
+  parseStationConfig,
+  stationKeys,
+} from "@/lib/radio-stations";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Live Radio stations.
+ *
+ *   GET  /api/live-radio/stations
+ *   → { stations: [{ id, name, description, kind, isLive, listenerCount, currentSong }] }
+ *
+ *   POST /api/live-radio/stations
+ *   { action: "save_station",   station }   create or replace (id is the key)
+ *   { action: "delete_station", id }
+ *
+ * Writes carry { adminAddress, signature, timestamp } for authenticateAdminAction(),
+ * with the signed details binding the exact payload, as in ../programming.
+ *
+ * A new station is created off air. Start it with the existing start_radio action on
+ * /api/live-radio, passing its stationId; the scheduler then advances it on every tick.
+ */
+
+interface StationStateSummary {
+  isLive?: boolean;
+  listenerCount?: number;
+  currentSong?: { name: string; artist: string; imageUrl: string } | null;
+}
+
+export async function GET() {
+  try {
+    const stations = await loadStations(redis);
+    const states = await redis.mget<(StationStateSummary | null)[]>(
+      ...stations.map((s) => stationKeys(s.id).state),
+    );
+
+    return NextResponse.json({
+      success: true,
+      stations: stations.map((station, i) => {
+        const state = states[i];
+        return {
+          id: station.id,
+          name: station.name,
+          description: station.description,
+          kind: station.kind,
+          isLive: state?.isLive || false,
+          listenerCount: state?.listenerCount || 0,
+          currentSong: state?.currentSong
+            ? {
+                name: state.currentSong.name,
+                artist: state.currentSong.artist,
+                imageUrl: state.currentSong.imageUrl,
+              }
+            : null,
+        };
+      }),
+    });
+  } catch (error: any) {
+    console.error("[RadioStations] GET error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action, adminAddress, signature, timestamp } = body;
+
+    if (action === "save_station") {
+      const parsed = parseStationConfig(body.station, Date.now());
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { success: false, errors: parsed.errors },
+          { status: 400 },
+        );
+      }
+
+      const auth = await authenticateAdminAction({
+        action: "radio_station_save",
+        details: JSON.stringify(body.station),
+        adminAddress,
+        signature,
+        timestamp,
+      });
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: auth.error || "Unauthorized" },
+          { status: 403 },
+        );
+      }
+
+      const existing = await redis.hlen(STATION_KEYS.registry);
+      const replacing = await redis.hexists(
+        STATION_KEYS.registry,
+        parsed.station.id,
+      );
+      if (!replacing && existing >= MAX_STATIONS - 1) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `At most ${MAX_STATIONS} stations, including the main one`,
+          },
+          { status: 409 },
+        );
+      }
+
+      await redis.hset(STATION_KEYS.registry, {
+        [parsed.station.id]: parsed.station,
+      });
+      console.log(
+        `[RadioStations] Station "${parsed.station.id}" saved by ${auth.address}`,
+      );
+      return NextResponse.json({ success: true, station: parsed.station });
+    }
+
+    if (action === "delete_station") {
+      const id = typeof body.id === "string" ? body.id : "";
+      if (!id || id === MAIN_STATION_ID) {
+        return NextResponse.json(
+          { success: false, error: "A non-main station id is required" },
+          { status: 400 },
+        );
+      }
+
+      const auth = await authenticateAdminAction({
+        action: "radio_station_delete",
+        details: id,
+        adminAddress,
+        signature,
+        timestamp,
+      });
+      if (!auth.valid) {
+        return NextResponse.json(
+          { success: false, error: auth.error || "Unauthorized" },
+          { status: 403 },
+        );
+      }
+
+      // Paid queue entries and voice notes are left in place rather than
+      // discarded: they were paid for and may need refunding by hand.
+      const keys = stationKeys(id);
+      const [queued, notes] = await Promise.all([
+        redis.llen(keys.queue),
+        redis.llen(keys.voiceNotes),
+      ]);
+      if (queued > 0 || notes > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `Station has ${queued} queued songs and ${notes} voice notes pending`,
+          },
+          { status: 409 },
+        );
+      }
+
+      await redis.hdel(STATION_KEYS.registry, id);
+      await redis.del(
+        keys.state,
+        keys.activeListeners,
+        keys.playbackPhase,
+        keys.schedulerLock,
+      );
+      console.log(`[RadioStations] Station "${id}" deleted by ${auth.address}`);
+      return NextResponse.json({ success: true });
+    }
+
+    return NextResponse.json(
+      { success: false, error: "Unknown action" },
+      { status: 400 },
+    );
+  } catch (error: any) {
+    console.error("[RadioStations] POST error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 },
+    );
+  }
+}
@@ -2,6 +2,14 @@ import { NextRequest } from 'next/server';
 import { redis } from '@/lib/redis';
 import { addClient, removeClient, sendToClient } from '@/lib/sse-broadcaster';
 import { initializeEventManager, isEventManagerActive } from '@/lib/event-manager';
+import { upcomingShows } from '@/lib/radio-shows';
+import {
+  MAIN_STATION_ID,
+  getStation,
+  normalizeStationId,
+  stationChannel,
+  stationKeys,
+} from '@/lib/radio-stations';
 
 /**
  * GET /api/live-radio/stream
@@ -11,12 +19,11 @@ import { initializeEventManager, isEventManagerActive } from '@/lib/event-manage
  * - Pushes updates as on-chain events arrive
  * - Heartbeat every 30s to keep the connection alive
  * - Client disconnects are handled via AbortSignal
+ *
+ * `?station=<id>` subscribes to one station; without it (or for an unknown id)
+ * the client gets the main station, as before stations existed.
  */
 
-const RADIO_STATE_KEY = 'live-radio:state';
-const RADIO_QUEUE_KEY = 'live-radio:queue';
-const VOICE_NOTES_KEY = 'live-radio:voice-notes';
-
 export const dynamic = 'force-dynamic';
 
 export async function GET(req: NextRequest) {
@@ -28,19 +35,27 @@ export async function GET(req: NextRequest) {
     );
   }
 
+  const requested = normalizeStationId(req.nextUrl.searchParams.get('station'));
+  const station = (await getStation(redis, requested).catch(() => null)) || {
+    id: MAIN_STATION_ID,
+  };
+  const keys = stationKeys(station.id);
+
   const stream = new ReadableStream({
     async start(controller) {
       const encoder = new TextEncoder();
 
       // Register this client with the SSE broadcaster
-      addClient(controller, ['live-radio']);
+      addClient(controller, [stationChannel(station.id)]);
 
       // Send initial state immediately so the client doesn't have to wait
       try {
-        const [state, queueRaw, voiceNotesRaw] = await Promise.all([
-          redis.get(RADIO_STATE_KEY),
-          redis.lrange(RADIO_QUEUE_KEY, 0, 20),
-          redis.lrange(VOICE_NOTES_KEY, 0, 10),
+        const [state, queueRaw, voiceNotesRaw, shows] = await Promise.all([
+          redis.get(keys.state),
+          redis.lrange(keys.queue, 0, 20),
+          redis.lrange(keys.voiceNotes, 0, 10),
+          // Shows are booked against the main station only
+          station.id === MAIN_STATION_ID ? upcomingShows(redis, Date.now()) : [],
         ]);
 
         const queue = queueRaw.map((item: any) =>
@@ -61,8 +76,10 @@ export async function GET(req: NextRequest) {
             totalSongsPlayed: 0,
             totalVoiceNotesPlayed: 0,
           },
+          stationId: station.id,
           queue,
           voiceNotes,
+          shows,
           wsConnected: isEventManagerActive(),
         });
       } catch (error) {
@@ -73,6 +90,7 @@ export async function GET(req: NextRequest) {
           state: null,
           queue: [],
           voiceNotes: [],
+          shows: [],
           wsConnected: false,
         });
       }
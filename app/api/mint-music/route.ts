@@ -11,6 +11,8 @@ import {
   sanitizeInput,
   SIGNATURE_EXPIRY_MS,
 } from '@/lib/auth';
+import { redis } from '@/lib/redis';
+import { linkMint, screenMint } from '@/lib/mint-fingerprint';
 
 /**
  * 🎵 MINT MUSIC NFT ENDPOINT (SECURED)
@@ -253,6 +255,24 @@ export async function POST(req: NextRequest) {
 
     console.log(`[MintMusic] Price: ${finalPrice} WMON, Title: ${sanitizedTitle}`);
 
+    // SECURITY: Any metadata uri can be minted here, so check its recording like an upload
+    let screening;
+    try {
+      ({ screening } = await screenMint(redis, finalTokenURI, recipient));
+    } catch (screenError: any) {
+      console.error('[MintMusic] Fingerprint check failed:', screenError.message);
+      return NextResponse.json(
+        { success: false, error: 'Could not read the track to check it against the catalogue. Try again shortly.' },
+        { status: 503 }
+      );
+    }
+    if (screening?.verdict === 'block') {
+      return NextResponse.json(
+        { success: false, error: screening.reason, fingerprintMatch: screening.match },
+        { status: 409 }
+      );
+    }
+
     // Execute mint
     const provider = new JsonRpcProvider(MONAD_RPC);
     const deployer = new Wallet(DEPLOYER_PRIVATE_KEY, provider);
@@ -298,6 +318,15 @@ export async function POST(req: NextRequest) {
 
     console.log(`[MintMusic] ✅ Minted token #${tokenId}`);
 
+    // Link the master to its fingerprint so the recording blocks re-uploads from now on
+    if (tokenId) {
+      try {
+        await linkMint(redis, finalTokenURI, String(tokenId), recipient);
+      } catch (linkError: any) {
+        console.warn('[MintMusic] Fingerprint link failed (non-fatal):', linkError.message);
+      }
+    }
+
     // Post cast (if FID provided)
     if (fid) {
       try {
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { checkRateLimit, getClientIP, RateLimiters } from "@/lib/rate-limit";
+import { redis } from "@/lib/redis";
+import { screenMint } from "@/lib/mint-fingerprint";
+
+export const runtime = "nodejs";
+// A track that was not uploaded here is fetched and fingerprinted
+export const maxDuration = 60;
+
+/**
+ * The mint-time fingerprint check (lib/mint-fingerprint.ts), ahead of the wallet prompt.
+ *
+ *   POST /api/mint-music/screen   { artist, tokenURI } → { verdict, reason?, match? }
+ *
+ * `verdict` is "clear", "flag" or "block" as for an upload, or "unscanned" when the metadata
+ * names no MP3 or WAV track. execute-delegated makes the same check before it mints; this lets
+ * lib/sign-mint-request.ts refuse before the artist has signed anything.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const rl = await checkRateLimit(RateLimiters.mint, getClientIP(req));
+    if (!rl.allowed) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Rate limit exceeded. Try again in ${rl.resetIn}s.`,
+        },
+        { status: 429 },
+      );
+    }
+
+    const { artist, tokenURI } = await req.json();
+    if (!/^0x[a-fA-F0-9]{40}$/.test(String(artist ?? "")) || !tokenURI) {
+      return NextResponse.json(
+        { success: false, error: "artist and tokenURI are required" },
+        { status: 400 },
+      );
+    }
+
+    const { screening } = await screenMint(redis, String(tokenURI), artist);
+    return NextResponse.json({
+      success: true,
+      verdict: screening?.verdict ?? "unscanned",
+      ...(screening?.reason ? { reason: screening.reason } : {}),
+      ...(screening?.match ? { match: screening.match } : {}),
+    });
+  } catch (error: any) {
+    console.error("[MintScreen] POST error:", error);
+    return NextResponse.json(
+      { success: false, error: error.message || "Fingerprint check failed" },
+      { status: 502 },
+    );
+  }
+}
@@ -1,147 +1,168 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { promises as fs } from 'fs';
-import path from 'path';
 import { checkRateLimit, getClientIP, RateLimiters } from '@/lib/rate-limit';
 import { sanitizeErrorForResponse } from '@/lib/auth';
-
-// Simple file-based storage for playlists
-// In production, use Redis or a database
-const PLAYLISTS_DIR = path.join(process.cwd(), 'data', 'playlists');
-
-// SECURITY: Validate FID is numeric only to prevent path traversal
-function isValidFid(fid: string): boolean {
-  return /^\d+$/.test(fid) && fid.length <= 20;
+import { verifyQuickAuth } from '@/lib/quick-auth';
+import { redis } from '@/lib/redis';
+import {
+  MAX_PLAYLISTS_PER_OWNER,
+  PLAYLIST_KEYS,
+  PlaylistError,
+  applyEdit,
+  canView,
+  createPlaylist,
+  deletePlaylist,
+  getPlaylist,
+  isEditor,
+  listOwnedPlaylists,
+  listSharedPlaylists,
+  newPlaylistId,
+  parsePlaylistOps,
+  savePlaylist,
+  setEditors,
+  summarize,
+  updateEditorIndex,
+  updatePlaylist,
+  withPlaylistLock,
+} from '@/lib/playlists';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Personal playlists (see lib/playlists.ts).
+ *
+ *   GET  ?id=pl_…   → { playlist, isOwner, canEdit }   404 when the caller may not see it
+ *   GET  ?fid=      → { owned, shared }   summaries; another user's public playlists only
+ *   POST { action: 'create', name, description?, visibility?, ops? }
+ *   POST { action: 'update', id, name?, description?, visibility? }   owner
+ *   POST { action: 'editors', id, editors: [fid] }                    owner
+ *   POST { action: 'edit', id, baseVersion, ops: [...] }              owner or editor
+ *   POST { action: 'delete', id }                                     owner
+ *
+ * The caller is the FID of their Quick Auth token; every POST needs one. An `edit` that conflicts
+ * with a newer version answers 409 with the current playlist so the client can reload.
+ */
+
+function fail(error: string, status: number = 400, extra: Record<string, unknown> = {}) {
+  return NextResponse.json({ success: false, error, ...extra }, { status });
 }
 
-interface PlaylistData {
-  fid: number;
-  name: string;
-  songOrder: string[]; // Array of tokenIds in order
-  updatedAt: number;
+async function callerFid(req: NextRequest): Promise<number | null> {
+  const auth = await verifyQuickAuth(req);
+  return auth.ok ? auth.user.fid : null;
 }
 
-// Ensure playlists directory exists
-async function ensurePlaylistsDir() {
-  try {
-    await fs.mkdir(PLAYLISTS_DIR, { recursive: true });
-  } catch (error) {
-    // Directory might already exist
-  }
-}
-
-// GET - Load playlist for a Farcaster ID
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
-    const fid = searchParams.get('fid');
-
-    if (!fid) {
-      return NextResponse.json(
-        { success: false, error: 'Farcaster ID (fid) required' },
-        { status: 400 }
-      );
-    }
-
-    // SECURITY: Validate FID to prevent path traversal
-    if (!isValidFid(fid)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid FID format' },
-        { status: 400 }
-      );
-    }
-
-    await ensurePlaylistsDir();
-    const playlistPath = path.join(PLAYLISTS_DIR, `${fid}.json`);
-
-    try {
-      const data = await fs.readFile(playlistPath, 'utf-8');
-      const playlist: PlaylistData = JSON.parse(data);
+    const id = searchParams.get('id');
+    const viewer = await callerFid(req);
 
+    if (id) {
+      const playlist = await getPlaylist(redis, id);
+      if (!playlist || !canView(playlist, viewer)) return fail('Playlist not found', 404);
       return NextResponse.json({
         success: true,
         playlist,
+        isOwner: playlist.ownerFid === viewer,
+        canEdit: isEditor(playlist, viewer),
       });
-    } catch (error: any) {
-      // File doesn't exist - no saved playlist
-      if (error.code === 'ENOENT') {
-        return NextResponse.json({
-          success: true,
-          playlist: null,
-        });
-      }
-      throw error;
     }
+
+    const owner = Number(searchParams.get('fid'));
+    if (!Number.isInteger(owner) || owner <= 0) {
+      return fail('id or fid parameter required');
+    }
+
+    const self = viewer === owner;
+    const [owned, shared] = await Promise.all([
+      listOwnedPlaylists(redis, owner),
+      self ? listSharedPlaylists(redis, owner) : Promise.resolve([]),
+    ]);
+    return NextResponse.json({
+      success: true,
+      owned: owned.filter(p => self || p.visibility === 'public').map(summarize),
+      shared: shared.map(summarize),
+    });
   } catch (error: any) {
     console.error('[playlist] GET error:', error);
-    return NextResponse.json(
-      { success: false, error: sanitizeErrorForResponse(error) },
-      { status: 500 }
-    );
+    return fail(sanitizeErrorForResponse(error), 500);
   }
 }
 
-// POST - Save playlist for a Farcaster ID
 export async function POST(req: NextRequest) {
   try {
-    // SECURITY: Rate limit
     const ip = getClientIP(req);
     const rateLimit = await checkRateLimit(RateLimiters.general, ip);
     if (!rateLimit.allowed) {
-      return NextResponse.json(
-        { success: false, error: `Rate limit exceeded. Try again in ${rateLimit.resetIn} seconds.` },
-        { status: 429 }
-      );
+      return fail(`Rate limit exceeded. Try again in ${rateLimit.resetIn} seconds.`, 429);
     }
 
-    const body = await req.json();
-    const { fid, name, songOrder } = body;
+    const fid = await callerFid(req);
+    if (!fid) return fail('Sign in with Farcaster to save playlists', 401);
 
-    if (!fid) {
-      return NextResponse.json(
-        { success: false, error: 'Farcaster ID (fid) required' },
-        { status: 400 }
-      );
-    }
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const now = Date.now();
 
-    // SECURITY: Validate FID to prevent path traversal
-    const fidStr = String(fid);
-    if (!isValidFid(fidStr)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid FID format' },
-        { status: 400 }
-      );
+    if (action === 'create') {
+      const count = await redis.scard(PLAYLIST_KEYS.byOwner(fid));
+      if (count >= MAX_PLAYLISTS_PER_OWNER) {
+        return fail(`At most ${MAX_PLAYLISTS_PER_OWNER} playlists per user`, 409);
+      }
+      const playlist = createPlaylist(newPlaylistId(), fid, body, now);
+      if (body.ops !== undefined) {
+        applyEdit(playlist, { baseVersion: 1, ops: parsePlaylistOps(body.ops), by: fid, at: now });
+      }
+      await savePlaylist(redis, playlist);
+      console.log(`[playlist] FID ${fid} created ${playlist.id} (${playlist.tracks.length} tracks)`);
+      return NextResponse.json({ success: true, playlist });
     }
 
-    if (!songOrder || !Array.isArray(songOrder)) {
-      return NextResponse.json(
-        { success: false, error: 'songOrder array required' },
-        { status: 400 }
-      );
+    if (!['update', 'editors', 'edit', 'delete'].includes(action)) {
+      return fail('Unknown action');
     }
 
-    await ensurePlaylistsDir();
-    const playlistPath = path.join(PLAYLISTS_DIR, `${fidStr}.json`);
-
-    const playlist: PlaylistData = {
-      fid: Number(fid),
-      name: name || 'My Playlist',
-      songOrder,
-      updatedAt: Date.now(),
-    };
+    const id = String(body.id || '');
+    return await withPlaylistLock(redis, id, async () => {
+      const playlist = await getPlaylist(redis, id);
+      if (!playlist || !canView(playlist, fid)) return fail('Playlist not found', 404);
+
+      if (action === 'edit') {
+        if (!isEditor(playlist, fid)) return fail('You cannot edit this playlist', 403);
+        const ops = parsePlaylistOps(body.ops);
+        try {
+          const result = applyEdit(playlist, { baseVersion: Number(body.baseVersion), ops, by: fid, at: now });
+          if (result.applied > 0) await savePlaylist(redis, playlist);
+          return NextResponse.json({ success: true, playlist, result });
+        } catch (error) {
+          if (error instanceof PlaylistError && error.status === 409) {
+            return fail(error.message, 409, { playlist });
+          }
+          throw error;
+        }
+      }
 
-    await fs.writeFile(playlistPath, JSON.stringify(playlist, null, 2));
+      if (playlist.ownerFid !== fid) return fail('Only the owner can do that', 403);
 
-    console.log(`[playlist] Saved playlist for FID ${fid}:`, songOrder.length, 'songs');
+      if (action === 'delete') {
+        await deletePlaylist(redis, playlist);
+        console.log(`[playlist] FID ${fid} deleted ${id}`);
+        return NextResponse.json({ success: true });
+      }
 
-    return NextResponse.json({
-      success: true,
-      playlist,
+      if (action === 'editors') {
+        const change = setEditors(playlist, body.editors, now);
+        await savePlaylist(redis, playlist);
+        await updateEditorIndex(redis, id, change);
+      } else {
+        updatePlaylist(playlist, body, fid, now);
+        await savePlaylist(redis, playlist);
+      }
+      return NextResponse.json({ success: true, playlist });
     });
   } catch (error: any) {
+    if (error instanceof PlaylistError) return fail(error.message, error.status);
     console.error('[playlist] POST error:', error);
-    return NextResponse.json(
-      { success: false, error: sanitizeErrorForResponse(error) },
-      { status: 500 }
-    );
+    return fail(sanitizeErrorForResponse(error), 500);
   }
 }
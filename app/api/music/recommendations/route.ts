@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sanitizeErrorForResponse } from '@/lib/auth';
+import { redis } from '@/lib/redis';
+import {
+  fansAlsoLike,
+  loadModel,
+  loadProfiles,
+  mergeProfiles,
+  popularTracks,
+  recommendForYou,
+  similarTracks,
+} from '@/lib/recommendations';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Personalized discovery (see lib/recommendations.ts).
+ *
+ *   GET ?type=for-you&address=0x…&fid=   → { recommendations }   either or both identities
+ *   GET ?type=similar&tokenId=           → { recommendations }
+ *   GET ?type=fans-also-like&artist=0x…  → { artists }
+ *   GET ?type=popular                    → { recommendations }
+ *
+ * `limit` caps every list (default 20, at most 50). Answers come from the model the
+ * recommendations keeper last built; `builtAt` says when. Before the first build every type
+ * answers 503.
+ */
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const type = searchParams.get('type') || 'for-you';
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+
+    const model = await loadModel(redis);
+    if (!model) return fail('Recommendations are not built yet', 503);
+    const meta = { success: true, builtAt: model.builtAt };
+
+    if (type === 'for-you') {
+      const address = searchParams.get('address');
+      const fid = Number(searchParams.get('fid'));
+      const listeners = [
+        ...(address && /^0x[a-fA-F0-9]{40}$/.test(address) ? [address] : []),
+        ...(Number.isInteger(fid) && fid > 0 ? [`fid:${fid}`] : []),
+      ];
+      if (listeners.length === 0) return fail('address or fid parameter required');
+
+      const profile = mergeProfiles(await loadProfiles(redis, listeners));
+      const exclude = (searchParams.get('exclude') || '').split(',').filter(Boolean);
+      return NextResponse.json({
+        ...meta,
+        personalized: !!profile,
+        recommendations: recommendForYou(model, profile, { limit, exclude }),
+      });
+    }
+
+    if (type === 'similar') {
+      const tokenId = searchParams.get('tokenId');
+      if (!tokenId || !/^\d+$/.test(tokenId) || !model.tracks[tokenId]) return fail('Unknown tokenId', 404);
+      return NextResponse.json({ ...meta, recommendations: similarTracks(model, tokenId, limit) });
+    }
+
+    if (type === 'fans-also-like') {
+      const artist = searchParams.get('artist');
+      if (!artist) return fail('artist parameter required');
+      return NextResponse.json({ ...meta, artists: fansAlsoLike(model, artist, limit) });
+    }
+
+    if (type === 'popular') {
+      return NextResponse.json({ ...meta, recommendations: popularTracks(model, limit) });
+    }
+
+    return fail('type must be for-you, similar, fans-also-like or popular');
+  } catch (error: any) {
+    console.error('[recommendations] GET error:', error);
+    return fail(sanitizeErrorForResponse(error), 500);
+  }
+}
@@ -0,0 +1,96 @@
+import { ImageResponse } from 'next/og';
+import { NextRequest } from 'next/server';
+
+export const runtime = 'edge';
+
+/**
+ * GET /api/og/playlist?name=...&tracks=12&cover=https://...&collab=true
+ * Generates a 1200x630 OG image for a shared playlist
+ */
+export async function GET(req: NextRequest) {
+  const { searchParams } = req.nextUrl;
+  const name = searchParams.get('name') || 'Playlist';
+  const tracks = Number(searchParams.get('tracks')) || 0;
+  const cover = searchParams.get('cover') || '';
+  const collaborative = searchParams.get('collab') === 'true';
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '56px',
+          padding: '60px',
+          background: 'linear-gradient(135deg, #020617 0%, #083344 45%, #1e1b4b 100%)',
+          fontFamily: 'system-ui, sans-serif',
+        }}
+      >
+        {/* EmpowerTours branding */}
+        <div
+          style={{
+            position: 'absolute',
+            top: '40px',
+            left: '60px',
+            display: 'flex',
+            fontSize: '18px',
+            color: '#22d3ee',
+            fontWeight: 'bold',
+          }}
+        >
+          EmpowerTours
+        </div>
+
+        {/* Cover art */}
+        <div
+          style={{
+            width: '360px',
+            height: '360px',
+            borderRadius: '24px',
+            overflow: 'hidden',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            flexShrink: 0,
+            background: 'linear-gradient(135deg, #06b6d4 0%, #7c3aed 100%)',
+            border: '4px solid rgba(34, 211, 238, 0.5)',
+          }}
+        >
+          {cover ? (
+            // ImageResponse draws plain <img> elements; next/image does not render here
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={cover} alt="" width={360} height={360} style={{ objectFit: 'cover' }} />
+          ) : (
+            <div style={{ fontSize: '120px', color: '#ffffff' }}>♫</div>
+          )}
+        </div>
+
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1 }}>
+          <div style={{ fontSize: '22px', color: '#22d3ee', letterSpacing: '4px', marginBottom: '12px' }}>
+            {collaborative ? 'COLLABORATIVE PLAYLIST' : 'PLAYLIST'}
+          </div>
+          <div
+            style={{
+              fontSize: '60px',
+              fontWeight: 'bold',
+              color: '#ffffff',
+              lineHeight: 1.1,
+              marginBottom: '20px',
+            }}
+          >
+            {name}
+          </div>
+          <div style={{ fontSize: '24px', color: '#94a3b8' }}>
+            {tracks} {tracks === 1 ? 'track' : 'tracks'} | Listen on EmpowerTours
+          </div>
+        </div>
+      </div>
+    ),
+    {
+      width: 1200,
+      height: 630,
+    }
+  );
+}
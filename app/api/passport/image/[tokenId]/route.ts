@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { generatePassportSVG, PassportStamp } from '@/lib/passport/generatePassportSVG';
 import { getCountryByCode } from '@/lib/passport/countries';
-import { getStampImages } from '@/lib/stamp-images';
+import { getCollectorStamps, getStampImages } from '@/lib/stamp-images';
 import { createPublicClient, http, parseAbi } from 'viem';
 import { activeChain } from '@/app/chains';
 
@@ -189,6 +189,24 @@ export async function GET(
       }
     }
 
+    // Country Collector weeks the owner completed, stamped on this passport
+    const collectorStamps = await getCollectorStamps(BigInt(tokenIdNum));
+    if (collectorStamps.length > 0) {
+      stamps = [
+        ...stamps,
+        ...collectorStamps.map((s): PassportStamp => ({
+          locationName: s.countryName,
+          city: 'Collector',
+          // The stamp renderer takes the flag from the first two letters
+          country: s.countryCode,
+          stampedAt: s.stampedAt,
+          stampImageIPFS: s.stampImageIPFS,
+          experienceType: 'country_collector',
+        })),
+      ];
+      console.log('[PassportImage] Added', collectorStamps.length, 'Country Collector stamps');
+    }
+
     // Also fetch climbing access badges for the passport owner
     if (passportOwner && stamps.length < 6) {
       try {
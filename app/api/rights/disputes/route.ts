@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPublicClient, http, type Address } from "viem";
+
+import { activeChain } from "@/app/chains";
+import { validateTimestamp, verifySignature } from "@/lib/auth";
+import { readMasterArtist } from "@/lib/contract-generation";
+import { redis } from "@/lib/redis";
+import { RIGHTS_HOLDS_KEY, applyRightsHold } from "@/lib/rights-declaration";
+import {
+  DISPUTE_KEYS,
+  DisputeError,
+  MAX_OPEN_PER_CLAIMANT,
+  buildFiling,
+  buildResponse,
+  closeDisputeIndexes,
+  filingMessage,
+  getDispute,
+  getDisputes,
+  listTokenDisputes,
+  nextDisputeId,
+  openDispute,
+  respondToDispute,
+  responseMessage,
+  saveDispute,
+  verifyDisputeRecord,
+  withdrawDispute,
+  withdrawalMessage,
+  type RightsDispute,
+} from "@/lib/rights-dispute";
+
+export const dynamic = "force-dynamic";
+
+const NFT_CONTRACT = process.env.NEXT_PUBLIC_NFT_CONTRACT as Address;
+const MONAD_RPC = process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
+
+/**
+ * Rights disputes against a master (see lib/rights-dispute.ts). Decisions are made through
+ * /api/admin/rights-disputes.
+ *
+ *   GET  ?tokenId=     → { hold, disputes }   every dispute against the master, newest first
+ *   GET  ?id=RD-12     → { dispute }
+ *   POST { action: "file", tokenId, claimant, grounds, statement, evidence, filedAt, signature }
+ *   POST { action: "respond", id, statement, evidence, at, signature }   the master's artist
+ *   POST { action: "withdraw", id, at, signature }                       the claimant
+ *
+ * Like /api/rights/splits there is no session: each wallet signs exactly what it submits, and
+ * the signature is kept in the record. Filing puts the master on hold before this returns.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function describe(d: RightsDispute) {
+  return { ...d, verified: verifyDisputeRecord(d) };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const id = searchParams.get("id");
+    if (id) {
+      const dispute = await getDispute(redis, id);
+      if (!dispute) return fail("Dispute not found", 404);
+      return NextResponse.json({ success: true, dispute: describe(dispute) });
+    }
+
+    const tokenId = searchParams.get("tokenId") || "";
+    if (!/^\d+$/.test(tokenId)) return fail("tokenId or id parameter required");
+    const [hold, disputes] = await Promise.all([
+      redis.hget<string>(RIGHTS_HOLDS_KEY, tokenId),
+      listTokenDisputes(redis, tokenId),
+    ]);
+    return NextResponse.json({
+      success: true,
+      tokenId,
+      hold: hold || null,
+      disputes: disputes.map(describe),
+    });
+  } catch (error: any) {
+    console.error("[RightsDisputes] GET error:", error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action, signature } = body;
+    if (typeof signature !== "string" || !signature.startsWith("0x")) {
+      return fail("signature is required");
+    }
+
+    if (action === "file") {
+      const filing = buildFiling(body);
+      const fresh = validateTimestamp(filing.filedAt);
+      if (!fresh.valid) return fail(fresh.error || "Filing has expired");
+
+      const auth = await verifySignature(
+        filingMessage(filing),
+        signature,
+        filing.claimant,
+      );
+      if (!auth.valid) return fail("Signature is not from the claimant", 403);
+
+      const client = createPublicClient({
+        chain: activeChain,
+        transport: http(MONAD_RPC),
+      });
+      const artist = await readMasterArtist(
+        client,
+        NFT_CONTRACT,
+        BigInt(filing.tokenId),
+      );
+      if (!artist) return fail("Master not found", 404);
+      if (artist.toLowerCase() === filing.claimant) {
+        return fail("The artist cannot dispute their own master");
+      }
+
+      if ((await redis.hget(RIGHTS_HOLDS_KEY, filing.tokenId)) === "revoked") {
+        return fail("This master has already been revoked", 409);
+      }
+      const [openHere, openByClaimant] = await Promise.all([
+        getDisputes(
+          redis,
+          await redis.smembers(DISPUTE_KEYS.openByToken(filing.tokenId)),
+        ),
+        redis.scard(DISPUTE_KEYS.openByClaimant(filing.claimant)),
+      ]);
+      if (openHere.some((d) => d.claimant === filing.claimant)) {
+        return fail(
+          "You already have an open dispute against this master",
+          409,
+        );
+      }
+      if (openByClaimant >= MAX_OPEN_PER_CLAIMANT) {
+        return fail(
+          `At most ${MAX_OPEN_PER_CLAIMANT} open disputes per claimant`,
+          429,
+        );
+      }
+
+      const dispute = openDispute(
+        await nextDisputeId(redis),
+        filing,
+        artist,
+        signature,
+      );
+      await saveDispute(redis, dispute);
+      await Promise.all([
+        redis.lpush(DISPUTE_KEYS.byToken(dispute.tokenId), dispute.id),
+        redis.sadd(DISPUTE_KEYS.open, dispute.id),
+        redis.sadd(DISPUTE_KEYS.openByToken(dispute.tokenId), dispute.id),
+        redis.sadd(DISPUTE_KEYS.openByClaimant(dispute.claimant), dispute.id),
+        redis.sadd(DISPUTE_KEYS.holding(dispute.artist), dispute.id),
+      ]);
+      await applyRightsHold(redis, dispute.tokenId, "disputed");
+
+      console.log(
+        `[RightsDisputes] ${dispute.id} filed against #${dispute.tokenId} by ${dispute.claimant} (${dispute.grounds})`,
+      );
+      return NextResponse.json({ success: true, dispute: describe(dispute) });
+    }
+
+    if (action !== "respond" && action !== "withdraw") {
+      return fail("Unknown action");
+    }
+
+    const dispute = await getDispute(redis, String(body.id || ""));
+    if (!dispute) return fail("Dispute not found", 404);
+
+    if (action === "respond") {
+      const response = buildResponse(body);
+      const fresh = validateTimestamp(response.at);
+      if (!fresh.valid) return fail(fresh.error || "Response has expired");
+      const auth = await verifySignature(
+        responseMessage(dispute.id, response),
+        signature,
+        dispute.artist,
+      );
+      if (!auth.valid) {
+        return fail("Signature is not from the master's artist", 403);
+      }
+
+      respondToDispute(dispute, response, signature);
+      await saveDispute(redis, dispute);
+      console.log(
+        `[RightsDisputes] ${dispute.id} answered by ${dispute.artist}`,
+      );
+      return NextResponse.json({ success: true, dispute: describe(dispute) });
+    }
+
+    const at = Number(body.at);
+    const fresh = validateTimestamp(at);
+    if (!fresh.valid) return fail(fresh.error || "Withdrawal has expired");
+    const auth = await verifySignature(
+      withdrawalMessage(dispute.id, at),
+      signature,
+      dispute.claimant,
+    );
+    if (!auth.valid) return fail("Signature is not from the claimant", 403);
+
+    withdrawDispute(dispute, at);
+    await saveDispute(redis, dispute);
+    const stillOpen = await closeDisputeIndexes(redis, dispute);
+    if (
+      stillOpen === 0 &&
+      (await redis.hget(RIGHTS_HOLDS_KEY, dispute.tokenId)) === "disputed"
+    ) {
+      await applyRightsHold(redis, dispute.tokenId, null);
+    }
+    console.log(
+      `[RightsDisputes] ${dispute.id} withdrawn by ${dispute.claimant}`,
+    );
+    return NextResponse.json({ success: true, dispute: describe(dispute) });
+  } catch (error: any) {
+    if (error instanceof DisputeError) return fail(error.message, error.status);
+    console.error("[RightsDisputes] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
@@ -0,0 +1,234 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createPublicClient, http, type Address } from "viem";
+
+import { activeChain } from "@/app/chains";
+import { verifySignature } from "@/lib/auth";
+import { readMasterArtist } from "@/lib/contract-generation";
+import { redis } from "@/lib/redis";
+import { recordSplitSheet } from "@/lib/rights-declaration";
+import {
+  SPLIT_KEYS,
+  SplitSheetError,
+  activateSplitSheet,
+  addSplitSignature,
+  getSplitSheet,
+  listSplitSheets,
+  missingSignatures,
+  proposeSplitSheet,
+  saveSplitSheet,
+  splitSignatureMessage,
+  verifySplitSheetHash,
+  withdrawPendingSheets,
+  type SplitPayee,
+  type SplitSheet,
+} from "@/lib/split-sheet";
+
+export const dynamic = "force-dynamic";
+
+const NFT_CONTRACT = process.env.NEXT_PUBLIC_NFT_CONTRACT as Address;
+const MONAD_RPC = process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
+const MAX_BATCH = 50;
+
+/**
+ * Split sheets for a master (see lib/split-sheet.ts).
+ *
+ *   GET  ?tokenId=                                   → { active, pending, versions, nextVersion }
+ *   GET  ?tokenIds=1,2,3                             → { sheets: { [tokenId]: active | null } }
+ *   POST { action: "propose", tokenId, version, payees, signature }  artist only
+ *   POST { action: "sign", tokenId, version, address, signature }    each other payee
+ *
+ * There is no session auth here: the signature over splitSignatureMessage() is both the
+ * authorisation and the record, and it is stored with the sheet. The proposer is checked
+ * against the master's `originalArtist` on-chain, since that wallet is where the money lands.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function describe(sheet: SplitSheet | null) {
+  if (!sheet) return null;
+  return {
+    ...sheet,
+    hashValid: verifySplitSheetHash(sheet),
+    awaiting: missingSignatures(sheet),
+  };
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const tokenIds = searchParams.get("tokenIds");
+    if (tokenIds) {
+      const ids = tokenIds
+        .split(",")
+        .filter((id) => /^\d+$/.test(id))
+        .slice(0, MAX_BATCH);
+      const sheets: Record<string, SplitSheet | null> = {};
+      await Promise.all(
+        ids.map(async (id) => {
+          const all = await listSplitSheets(redis, id);
+          sheets[id] = all.find((s) => s.status === "active") ?? null;
+        }),
+      );
+      return NextResponse.json({ success: true, sheets });
+    }
+
+    const tokenId = searchParams.get("tokenId") || "";
+    if (!/^\d+$/.test(tokenId)) return fail("tokenId parameter required");
+
+    const sheets = await listSplitSheets(redis, tokenId);
+    return NextResponse.json({
+      success: true,
+      tokenId,
+      active: describe(sheets.find((s) => s.status === "active") ?? null),
+      pending: describe(sheets.find((s) => s.status === "pending") ?? null),
+      versions: sheets.map(describe),
+      nextVersion: (sheets[0]?.version ?? 0) + 1,
+    });
+  } catch (error: any) {
+    console.error("[Splits] GET error:", error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action, signature } = body;
+    const tokenId = String(body.tokenId ?? "");
+    const version = Number(body.version);
+
+    if (!/^\d+$/.test(tokenId)) return fail("tokenId is required");
+    if (!Number.isInteger(version) || version < 1) {
+      return fail("version is required");
+    }
+    if (typeof signature !== "string" || !signature.startsWith("0x")) {
+      return fail("signature is required");
+    }
+
+    const now = Date.now();
+
+    if (action === "propose") {
+      const client = createPublicClient({
+        chain: activeChain,
+        transport: http(MONAD_RPC),
+      });
+      const artist = await readMasterArtist(
+        client,
+        NFT_CONTRACT,
+        BigInt(tokenId),
+      );
+      if (!artist) return fail("Master not found", 404);
+
+      const sheets = await listSplitSheets(redis, tokenId);
+      const expected = (sheets[0]?.version ?? 0) + 1;
+      if (version !== expected) {
+        return fail(
+          `Version ${version} is stale; the next version is ${expected}`,
+          409,
+        );
+      }
+
+      const sheet = proposeSplitSheet(
+        {
+          tokenId,
+          version,
+          artist,
+          payees: (Array.isArray(body.payees) ? body.payees : []).map(
+            (p: SplitPayee) => ({ ...p, bps: Number(p?.bps) }),
+          ),
+          supersedes: sheets.find((s) => s.status === "active")?.hash ?? null,
+        },
+        signature,
+        now,
+      );
+
+      const auth = await verifySignature(
+        splitSignatureMessage(sheet, sheet.hash, artist),
+        signature,
+        artist,
+      );
+      if (!auth.valid) {
+        return fail("Signature is not from the master's artist", 403);
+      }
+
+      // Claim the version number before writing, so two proposals cannot both become vN.
+      if ((await redis.incr(SPLIT_KEYS.latest(tokenId))) !== version) {
+        await redis.decr(SPLIT_KEYS.latest(tokenId));
+        return fail("Another version was proposed at the same time", 409);
+      }
+
+      await redis.sadd(SPLIT_KEYS.artistMasters(artist), tokenId);
+
+      const changed = withdrawPendingSheets(sheets, now);
+      // A sheet with the artist alone needs no other signature.
+      if (missingSignatures(sheet).length === 0) {
+        changed.push(...activateSplitSheet(sheets, sheet, now));
+      }
+      await Promise.all(
+        [...changed.filter((s) => s !== sheet), sheet].map((s) =>
+          saveSplitSheet(redis, s),
+        ),
+      );
+      if (sheet.status === "active") {
+        await recordSplitSheet(redis, tokenId, {
+          version,
+          hash: sheet.hash,
+          activatedAt: now,
+        });
+      }
+
+      console.log(
+        `[Splits] #${tokenId} v${version} proposed by ${artist} (${sheet.payees.length} payees, ${sheet.status})`,
+      );
+      return NextResponse.json({ success: true, sheet: describe(sheet) });
+    }
+
+    if (action === "sign") {
+      const address = String(body.address || "").toLowerCase();
+      if (!/^0x[0-9a-f]{40}$/.test(address)) {
+        return fail("address is required");
+      }
+      const sheet = await getSplitSheet(redis, tokenId, version);
+      if (!sheet) return fail("No such split sheet version", 404);
+
+      const auth = await verifySignature(
+        splitSignatureMessage(sheet, sheet.hash, address),
+        signature,
+        address,
+      );
+      if (!auth.valid) return fail("Invalid signature", 403);
+
+      const complete = addSplitSignature(sheet, address, signature, now);
+      const changed = complete
+        ? activateSplitSheet(await listSplitSheets(redis, tokenId), sheet, now)
+        : [sheet];
+      await Promise.all(
+        [...changed.filter((s) => s.version !== sheet.version), sheet].map(
+          (s) => saveSplitSheet(redis, s),
+        ),
+      );
+      if (complete) {
+        await recordSplitSheet(redis, tokenId, {
+          version,
+          hash: sheet.hash,
+          activatedAt: now,
+        });
+      }
+
+      console.log(
+        `[Splits] #${tokenId} v${version} countersigned by ${address}${complete ? " — now active" : ""}`,
+      );
+      return NextResponse.json({ success: true, sheet: describe(sheet) });
+    }
+
+    return fail("Unknown action");
+  } catch (error: any) {
+    if (error instanceof SplitSheetError) {
+      return fail(error.message, error.status);
+    }
+    console.error("[Splits] POST error:", error);
+    return fail(error.message, 500);
+  }
+}
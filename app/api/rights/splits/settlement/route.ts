@@ -0,0 +1,199 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createPublicClient,
+  decodeEventLog,
+  http,
+  parseAbi,
+  type Address,
+  type Hex,
+} from "viem";
+
+import { activeChain } from "@/app/chains";
+import {
+  buildStatement,
+  loadStatementSources,
+  monthIdAt,
+} from "@/lib/earnings-statement";
+import { redis } from "@/lib/redis";
+import {
+  SPLIT_KEYS,
+  getSettledTransfers,
+  listSplitSheets,
+  outstandingByPayee,
+  splitTransfers,
+  type SplitSheet,
+  type SplitTransfer,
+} from "@/lib/split-sheet";
+
+export const dynamic = "force-dynamic";
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || "";
+const MUSIC_SUBSCRIPTION = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION as
+  | Address
+  | undefined;
+const WMON = process.env.NEXT_PUBLIC_WMON as Address;
+const MONAD_RPC = process.env.NEXT_PUBLIC_MONAD_RPC || "https://rpc.monad.xyz";
+
+const TRANSFER_EVENT = parseAbi([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+/**
+ * What an artist owes co-owners for a month, and the record of paying it. The contracts pay the
+ * artist alone, so this is settlement after the fact rather than routing (lib/split-sheet.ts).
+ *
+ *   GET  ?artist=0x…&month=<monthId>   → { transfers, outstanding }
+ *   POST { artist, month, txHash }      → { settled }
+ *
+ * POST is unauthenticated but trusts only the chain, like /api/listener-claim-tx: the
+ * transaction must be sent by the artist and carry WMON transfers from the artist, and each
+ * transfer must equal exactly what that payee is still owed for the month. Anything else is
+ * refused rather than partially credited, so the ledger never drifts from what was paid.
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+function parseQuery(artist: unknown, month: unknown) {
+  const a = String(artist || "").toLowerCase();
+  const monthId = Number(month);
+  if (!/^0x[0-9a-f]{40}$/.test(a)) return { error: "artist is required" };
+  if (
+    !Number.isInteger(monthId) ||
+    monthId < 0 ||
+    monthId >= monthIdAt(Math.floor(Date.now() / 1000))
+  ) {
+    return { error: "month must be a completed month" };
+  }
+  return { artist: a, monthId };
+}
+
+function publicClient() {
+  return createPublicClient({
+    chain: activeChain,
+    transport: http(MONAD_RPC),
+  });
+}
+
+async function monthTransfers(
+  artist: string,
+  monthId: number,
+): Promise<SplitTransfer[]> {
+  // Most artists have no split sheet; skip the statement build entirely for them.
+  const masters = await redis.smembers(SPLIT_KEYS.artistMasters(artist));
+  if (masters.length === 0) return [];
+
+  const statement = buildStatement(
+    await loadStatementSources(artist, monthId, {
+      envioEndpoint: ENVIO_ENDPOINT,
+      client: publicClient(),
+      subscription: MUSIC_SUBSCRIPTION,
+    }),
+  );
+  const sheetsByToken: Record<string, SplitSheet[]> = {};
+  await Promise.all(
+    masters.map(async (tokenId) => {
+      sheetsByToken[tokenId] = await listSplitSheets(redis, tokenId);
+    }),
+  );
+  const settled = await getSettledTransfers(redis, artist, monthId);
+  return splitTransfers(statement, sheetsByToken).map((t) =>
+    settled[t.key] ? { ...t, settledTxHash: settled[t.key] } : t,
+  );
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const q = parseQuery(searchParams.get("artist"), searchParams.get("month"));
+    if ("error" in q) return fail(q.error as string);
+    if (!ENVIO_ENDPOINT) return fail("Indexer not configured", 503);
+
+    const transfers = await monthTransfers(q.artist, q.monthId);
+    return NextResponse.json({
+      success: true,
+      artist: q.artist,
+      monthId: q.monthId,
+      transfers,
+      outstanding: outstandingByPayee(transfers),
+    });
+  } catch (error: any) {
+    console.error("[SplitSettlement] GET error:", error?.message);
+    return fail(error?.message || "Failed to load split settlement", 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const q = parseQuery(body.artist, body.month);
+    if ("error" in q) return fail(q.error as string);
+    const txHash = String(body.txHash || "").toLowerCase();
+    if (!/^0x[0-9a-f]{64}$/.test(txHash)) return fail("valid txHash required");
+    if (!WMON) return fail("WMON not configured", 500);
+
+    const receipt = await publicClient().waitForTransactionReceipt({
+      hash: txHash as Hex,
+      timeout: 30_000,
+    });
+    if (receipt.status !== "success") {
+      return fail("Transaction did not succeed");
+    }
+    if (receipt.from.toLowerCase() !== q.artist) {
+      return fail("Transaction was not sent by the artist", 403);
+    }
+
+    const paid = new Map<string, bigint>();
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== WMON.toLowerCase()) continue;
+      try {
+        const decoded = decodeEventLog({
+          abi: TRANSFER_EVENT,
+          data: log.data,
+          topics: log.topics,
+        });
+        if (String(decoded.args.from).toLowerCase() !== q.artist) continue;
+        const to = String(decoded.args.to).toLowerCase();
+        paid.set(to, (paid.get(to) || 0n) + decoded.args.value);
+      } catch {
+        // Not a Transfer log; ignore.
+      }
+    }
+    if (paid.size === 0) {
+      return fail("No WMON transfer from the artist in that transaction");
+    }
+
+    const outstanding = outstandingByPayee(
+      await monthTransfers(q.artist, q.monthId),
+    );
+    const settled: Record<string, string> = {};
+    for (const [payee, value] of paid) {
+      const owed = outstanding.find((o) => o.payee === payee);
+      if (!owed || BigInt(owed.amountWei) !== value) {
+        return fail(
+          `Transfer to ${payee} does not match what is owed for month ${q.monthId}` +
+            ` (${owed?.amountWei ?? "0"} wei)`,
+          409,
+        );
+      }
+      for (const key of owed.keys) settled[key] = txHash;
+    }
+
+    const fresh = await redis.set(
+      SPLIT_KEYS.settlementTx(txHash),
+      `${q.artist}:${q.monthId}`,
+      { nx: true },
+    );
+    if (!fresh) return fail("That transaction is already recorded", 409);
+    await redis.hset(SPLIT_KEYS.settled(q.artist, q.monthId), settled);
+
+    console.log(
+      `[SplitSettlement] ${q.artist} month ${q.monthId}: ${Object.keys(settled).length} shares settled by ${txHash}`,
+    );
+    return NextResponse.json({ success: true, settled });
+  } catch (error: any) {
+    console.error("[SplitSettlement] POST error:", error?.message);
+    return fail(error?.message || "Failed to record settlement", 500);
+  }
+}
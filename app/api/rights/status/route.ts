@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { Redis } from '@upstash/redis';
-import { getRightsStatus } from '@/lib/rights-declaration';
+import { RIGHTS_HOLDS_KEY, getRightsStatus } from '@/lib/rights-declaration';
 
 const redis = new Redis({
   url: process.env.UPSTASH_REDIS_REST_URL!,
@@ -19,20 +19,25 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const status = await getRightsStatus(redis, tokenId);
+    const [status, hold] = await Promise.all([
+      getRightsStatus(redis, tokenId),
+      redis.hget<string>(RIGHTS_HOLDS_KEY, tokenId),
+    ]);
 
     if (!status) {
-      // Legacy NFT — no rights record exists, considered cleared
+      // Legacy NFT — no rights record exists, considered cleared unless disputed
       return NextResponse.json({
-        cleared: true,
+        cleared: !hold,
         legacy: true,
+        hold: hold || null,
         tokenId,
       });
     }
 
     return NextResponse.json({
-      cleared: status.status === 'cleared',
+      cleared: status.status === 'cleared' && !hold,
       status: status.status,
+      hold: hold || null,
       version: status.version,
       agreementCid: status.agreementCid,
       agreementHash: status.agreementHash,
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redis } from '@/lib/redis';
+import { authorizeUserAddress } from '@/lib/quick-auth';
+import { getSponsorship, saveSponsorship, shouldReleaseFunds } from '@/lib/sponsorship';
+import {
+  SponsorshipDisputeError,
+  addEvidence,
+  castPanelVote,
+  getSponsorshipDispute,
+  nextSponsorshipDisputeId,
+  openDispute,
+  panelRole,
+  resolveByPanel,
+  saveSponsorshipDispute,
+  tallyPanel,
+  withdrawDispute,
+} from '@/lib/sponsorship-dispute';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Sponsorship disputes (see lib/sponsorship-dispute.ts). Admin votes, rulings and the payout go
+ * through /api/admin/sponsorship-disputes.
+ *
+ *   GET  ?id=SD-4 | ?sponsorshipId=   → { dispute, tally, release }
+ *   POST { action: 'open', sponsorshipId, address, statement, evidence: [{ url, description }] }
+ *   POST { action: 'evidence', id, address, evidence }          sponsor or host
+ *   POST { action: 'vote', id, address, hostShareBps, note? }   a checked-in guest
+ *   POST { action: 'withdraw', id, address }                    whoever opened it
+ *   POST { action: 'resolve', id }                              anyone, once the panel has closed
+ *
+ * `address` must belong to the caller (Quick Auth or a wallet signature, as elsewhere).
+ */
+
+function fail(error: string, status: number = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    let id = searchParams.get('id');
+    const sponsorshipId = searchParams.get('sponsorshipId');
+
+    if (!id && sponsorshipId) {
+      const sponsorship = await getSponsorship(sponsorshipId);
+      if (!sponsorship) return fail('Sponsorship not found', 404);
+      if (!sponsorship.disputeId) return NextResponse.json({ success: true, dispute: null });
+      id = sponsorship.disputeId;
+    }
+    if (!id) return fail('id or sponsorshipId parameter required');
+
+    const dispute = await getSponsorshipDispute(redis, id);
+    if (!dispute) return fail('Dispute not found', 404);
+    const sponsorship = await getSponsorship(dispute.sponsorshipId);
+
+    return NextResponse.json({
+      success: true,
+      dispute,
+      tally: tallyPanel(dispute),
+      release: sponsorship ? shouldReleaseFunds(sponsorship, dispute) : null,
+    });
+  } catch (error: any) {
+    console.error('[SponsorshipDispute] GET error:', error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => ({}));
+    const { action } = body;
+    const now = Date.now();
+
+    if (action === 'resolve') {
+      const dispute = await getSponsorshipDispute(redis, String(body.id || ''));
+      if (!dispute) return fail('Dispute not found', 404);
+      const outcome = resolveByPanel(dispute, now);
+      await saveSponsorshipDispute(redis, dispute);
+      console.log(`[SponsorshipDispute] ${dispute.id} resolved by panel: ${outcome.hostShareBps}bps to host`);
+      return NextResponse.json({ success: true, dispute });
+    }
+
+    if (!['open', 'evidence', 'vote', 'withdraw'].includes(action)) {
+      return fail('Unknown action');
+    }
+
+    const address = String(body.address || '').toLowerCase();
+    if (!/^0x[0-9a-f]{40}$/.test(address)) return fail('address is required');
+    const authz = await authorizeUserAddress(req, address, `sponsorship-dispute:${action}`);
+    if (!authz.ownsAddress) return fail('Sign in with the wallet you are acting for', 401);
+
+    if (action === 'open') {
+      const sponsorship = await getSponsorship(String(body.sponsorshipId || ''));
+      if (!sponsorship) return fail('Sponsorship not found', 404);
+
+      const dispute = openDispute(await nextSponsorshipDisputeId(redis), sponsorship, {
+        opener: address,
+        statement: body.statement,
+        evidence: body.evidence,
+        at: now,
+      });
+      await saveSponsorshipDispute(redis, dispute);
+      await saveSponsorship(sponsorship);
+      console.log(`[SponsorshipDispute] ${dispute.id} opened by ${dispute.openedBy} on ${sponsorship.id}`);
+      return NextResponse.json({ success: true, dispute });
+    }
+
+    const dispute = await getSponsorshipDispute(redis, String(body.id || ''));
+    if (!dispute) return fail('Dispute not found', 404);
+    const sponsorship = await getSponsorship(dispute.sponsorshipId);
+    if (!sponsorship) return fail('Sponsorship not found', 404);
+
+    if (action === 'evidence') {
+      addEvidence(dispute, sponsorship, { by: address, evidence: body.evidence, at: now });
+    } else if (action === 'vote') {
+      if (panelRole(sponsorship, address, false) !== 'guest') {
+        return fail('Only guests who checked in to the event can sit on the panel', 403);
+      }
+      castPanelVote(dispute, {
+        voter: address,
+        role: 'guest',
+        hostShareBps: body.hostShareBps,
+        note: body.note,
+        at: now,
+      });
+    } else {
+      withdrawDispute(dispute, sponsorship, { by: address, at: now });
+      await saveSponsorship(sponsorship);
+    }
+
+    await saveSponsorshipDispute(redis, dispute);
+    return NextResponse.json({ success: true, dispute, tally: tallyPanel(dispute) });
+  } catch (error: any) {
+    if (error instanceof SponsorshipDisputeError) return fail(error.message, error.status);
+    console.error('[SponsorshipDispute] POST error:', error);
+    return fail(error.message, 500);
+  }
+}
@@ -7,6 +7,16 @@ import {
   buildFilledAgreement,
   type RightsDeclaration,
 } from "@/lib/rights-declaration";
+import {
+  fingerprintAudio,
+  loadFingerprintIndex,
+  recordFingerprintFlag,
+  saveFingerprint,
+  screenUpload,
+  type AudioFingerprint,
+  type UploadScreening,
+} from "@/lib/audio-fingerprint";
+import { redis } from "@/lib/redis";
 
 const PINATA_API_URL = "https://api.pinata.cloud/pinning/pinFileToIPFS";
 
@@ -142,6 +152,44 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // ✅ Fingerprint the full track against every master BEFORE anything is pinned.
+    // A recording that is already minted is refused here; a near-match goes through but is
+    // flagged for review and reported back, so the client can ask before the mint is signed.
+    let fingerprint: AudioFingerprint | null = null;
+    let screening: UploadScreening | null = null;
+    if (fullFile instanceof File) {
+      try {
+        fingerprint = fingerprintAudio(
+          new Uint8Array(await fullFile.arrayBuffer()),
+        );
+        if (fingerprint) {
+          screening = screenUpload(
+            fingerprint,
+            await loadFingerprintIndex(redis),
+            address,
+          );
+          console.log("🔎 Fingerprint check:", screening.verdict);
+        }
+      } catch (fingerprintError: any) {
+        console.error(
+          "⚠️ Fingerprint check failed (non-fatal):",
+          fingerprintError.message,
+        );
+      }
+
+      if (screening?.verdict === "block") {
+        console.log("🚫 Upload refused:", screening.reason, screening.match);
+        return NextResponse.json(
+          {
+            success: false,
+            error: screening.reason,
+            fingerprintMatch: screening.match,
+          },
+          { status: 409 },
+        );
+      }
+    }
+
     // ✅ IMPROVED: Helper function with retry logic, exponential backoff, and AbortController
     const uploadFileToPinata = async (
       file: File,
@@ -606,6 +654,52 @@ The result should look like a premium physical collector's vinyl or art print 
       response.fullUrl = `https://${PINATA_GATEWAY}/ipfs/${fullCid}`;
     }
 
+    // Index this recording so later uploads are checked against it. It stays unlinked
+    // (tokenId null) until the mint links it (lib/mint-fingerprint.ts).
+    if (fullCid) {
+      const verdict = screening?.verdict ?? "unscanned";
+      const reason =
+        screening?.reason ??
+        (fingerprint
+          ? "Fingerprint check failed"
+          : "Audio format cannot be fingerprinted (MP3 and WAV only)");
+      response.fingerprint = {
+        verdict,
+        ...(verdict === "clear" ? {} : { reason }),
+        ...(screening?.match ? { match: screening.match } : {}),
+      };
+      try {
+        const artist = address.toLowerCase();
+        const at = Date.now();
+        if (fingerprint) {
+          await saveFingerprint(redis, {
+            ...fingerprint,
+            cid: fullCid,
+            tokenId: null,
+            artist,
+            uri: response.tokenURI,
+            indexedAt: at,
+          });
+        }
+        if (verdict === "flag" || verdict === "unscanned") {
+          await recordFingerprintFlag(redis, {
+            verdict,
+            artist,
+            cid: fullCid,
+            uri: response.tokenURI,
+            reason,
+            ...(screening?.match ? { match: screening.match } : {}),
+            at,
+          });
+        }
+      } catch (indexError: any) {
+        console.error(
+          "⚠️ Fingerprint indexing failed (non-fatal):",
+          indexError.message,
+        );
+      }
+    }
+
     // Include rights agreement CID if generated
     if (rightsAgreementCid) {
       response.rightsAgreementCid = rightsAgreementCid;
@@ -1,18 +1,62 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { isAddress, type Address, type Hex } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
 import { redis } from '@/lib/redis';
 import {
   getVenue,
-  verifyApiKey,
+  getVenueZone,
+  getVenueSession,
+  fetchClearedCatalog,
+  getVenueActor,
+  verifyZoneKey,
   getVenuePlaybackState,
   setVenuePlaybackState,
   popNextFromQueue,
-  pickRandomClearedSong,
+  pickRandomZoneSong,
   addToVenueHistory,
   bufferPlay,
   getMiningStats,
   recordMinedBlock,
+  venueChannel,
+  getVenueAccess,
   VENUE_KEYS,
+  type Venue,
 } from '@/lib/venue';
+import { notePeak, planFor } from '@/lib/venue-billing';
+import { auditEntry, can, logAudit } from '@/lib/venue-staff';
+import { loadTrackTags } from '@/lib/radio-programming';
+import {
+  DEFAULT_ZONE_ID,
+  activeZoneDaypart,
+  playOrderAt,
+  zonePlaylist,
+  zoneSeed,
+  zoneVolume,
+  type VenueZone,
+} from '@/lib/venue-zones';
+import {
+  DEFAULT_WINDOW_SIZE,
+  MAX_WINDOW_SIZE,
+  WINDOW_TTL_MS,
+  claimReceipt,
+  getStoredWindow,
+  getVenueDevice,
+  listVenueDevices,
+  parseReceipts,
+  receiptedPositions,
+  reserveWindowPositions,
+  saveStoredWindow,
+  saveVenueDevice,
+  verifyWindowReceipts,
+  windowMessage,
+  type PlayReceipt,
+  type PlaylistWindow,
+  type ReceiptVerdict,
+  type SignedWindow,
+  type StoredWindow,
+  type VenueDevice,
+} from '@/lib/venue-receipts';
 import { broadcast } from '@/lib/sse-broadcaster';
 
 /**
@@ -22,6 +66,20 @@ import { broadcast } from '@/lib/sse-broadcaster';
  * GET  /api/venue/[venueId]/device/next?key=X     — Next song URL + metadata
  * POST /api/venue/[venueId]/device?key=X          — Actions: play, pause, skip, song_ended
  *
+ * Offline protocol (lib/venue-receipts.ts):
+ * POST action register_device { address, name }    — Bind a device key to the zone
+ * POST action revoke_device   { address }          — A venue-wide key with the devices permission
+ * GET  ...&endpoint=window&device=0x..&count=N     — Signed playlist window to cache
+ * POST action receipts        { device, receipts } — Signed plays, verified then buffered
+ *
+ * Every endpoint takes &zone=<zoneId> (default "main"). The key is the
+ * venue key or that zone's own key. State includes the zone's volume
+ * and daypart, which the device should apply.
+ *
+ * While the venue's plan does not cover playback (lib/venue-billing.ts)
+ * next, window and play answer 402 with { error, reason }, and state
+ * carries the hold. Receipts for plays already made are still accepted.
+ *
  * Designed for low bandwidth: minimal JSON, direct audio URLs.
  * No SSE — devices poll via periodic GET.
  */
@@ -34,12 +92,13 @@ export async function GET(
   const { searchParams } = new URL(req.url);
   const apiKey = searchParams.get('key') || '';
   const endpoint = searchParams.get('endpoint') || 'state'; // 'state' or 'next'
+  const zoneId = searchParams.get('zone') || DEFAULT_ZONE_ID;
 
   if (!apiKey) {
     return json({ error: 'key required' }, 401);
   }
 
-  const valid = await verifyApiKey(redis, venueId, apiKey);
+  const valid = await verifyZoneKey(redis, venueId, zoneId, apiKey);
   if (!valid) {
     return json({ error: 'invalid key' }, 403);
   }
@@ -49,12 +108,34 @@ export async function GET(
     return json({ error: 'venue inactive' }, 404);
   }
 
+  const zone = await getVenueZone(redis, venueId, zoneId);
+  if (!zone) {
+    return json({ error: 'unknown zone' }, 404);
+  }
+
+  if (endpoint === 'next' || endpoint === 'window') {
+    const access = await getVenueAccess(redis, venue);
+    if (!access.ok) {
+      return json({ error: access.message, reason: access.reason }, 402);
+    }
+  }
+
   if (endpoint === 'next') {
-    return handleGetNext(venueId);
+    return handleGetNext(venueId, zone);
+  }
+
+  if (endpoint === 'window') {
+    return handleGetWindow(
+      venueId,
+      zone,
+      searchParams.get('device') || '',
+      Number(searchParams.get('count')) || DEFAULT_WINDOW_SIZE
+    );
   }
 
   // Default: return current state + mining stats
-  const state = await getVenuePlaybackState(redis, venueId);
+  const state = await getVenuePlaybackState(redis, venueId, zoneId);
+  const daypart = activeZoneDaypart(zone.schedule, Date.now());
   const mining = await getMiningStats(redis, venueId);
 
   // Get leaderboard rank
@@ -81,6 +162,9 @@ export async function GET(
 
   return json({
     venue: venue.name,
+    zone: zone.zoneId,
+    volume: zoneVolume(zone.schedule, daypart),
+    daypart: daypart?.name ?? null,
     nowPlaying: state.currentSong ? {
       id: state.currentSong.tokenId,
       name: state.currentSong.name,
@@ -91,6 +175,7 @@ export async function GET(
       elapsed: Math.floor((Date.now() - state.currentSong.startedAt) / 1000),
     } : null,
     playing: state.isPlaying,
+    hold: state.billingHold ?? null,
     today: state.songsPlayedToday,
     total: state.totalSongsPlayed,
     mining: {
@@ -111,12 +196,13 @@ export async function POST(
   const { venueId } = await params;
   const { searchParams } = new URL(req.url);
   const apiKey = searchParams.get('key') || '';
+  const zoneId = searchParams.get('zone') || DEFAULT_ZONE_ID;
 
   if (!apiKey) {
     return json({ error: 'key required' }, 401);
   }
 
-  const valid = await verifyApiKey(redis, venueId, apiKey);
+  const valid = await verifyZoneKey(redis, venueId, zoneId, apiKey);
   if (!valid) {
     return json({ error: 'invalid key' }, 403);
   }
@@ -125,6 +211,10 @@ export async function POST(
   if (!venue || !venue.isActive) {
     return json({ error: 'venue inactive' }, 404);
   }
+  if (!(await getVenueZone(redis, venueId, zoneId))) {
+    return json({ error: 'unknown zone' }, 404);
+  }
+  const channel = venueChannel(venueId, zoneId);
 
   let body: { action: string; data?: any };
   try {
@@ -133,20 +223,40 @@ export async function POST(
     return json({ error: 'invalid json' }, 400);
   }
 
-  const state = await getVenuePlaybackState(redis, venueId);
+  switch (body.action) {
+    case 'register_device':
+      return handleRegisterDevice(venue, zoneId, body.data);
+    case 'revoke_device': {
+      const actor = await getVenueActor(redis, venueId, apiKey);
+      if (!actor || !can(actor, 'devices')) {
+        return json({ error: 'devices permission required' }, 403);
+      }
+      await logAudit(redis, venueId, auditEntry(actor, 'revoke_device', { detail: String(body.data?.address || '') }));
+      return handleRevokeDevice(venueId, body.data);
+    }
+    case 'receipts':
+      return handleReceipts(venueId, zoneId, body.data);
+  }
+
+  const state = await getVenuePlaybackState(redis, venueId, zoneId);
 
   switch (body.action) {
     case 'play': {
+      const access = await getVenueAccess(redis, venue);
+      if (!access.ok) {
+        return json({ error: access.message, reason: access.reason }, 402);
+      }
       state.isPlaying = true;
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcast(`venue:${venueId}`, 'state_update', { type: 'play', state });
+      state.billingHold = null;
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcast(channel, 'state_update', { type: 'play', state });
       return json({ ok: true, playing: true });
     }
 
     case 'pause': {
       state.isPlaying = false;
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcast(`venue:${venueId}`, 'state_update', { type: 'pause', state });
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcast(channel, 'state_update', { type: 'pause', state });
       return json({ ok: true, playing: false });
     }
 
@@ -154,8 +264,8 @@ export async function POST(
       if (state.currentSong) {
         state.currentSong = null;
       }
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcast(`venue:${venueId}`, 'state_update', { type: 'skipped', state });
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcast(channel, 'state_update', { type: 'skipped', state });
       return json({ ok: true, skipped: true });
     }
 
@@ -168,7 +278,7 @@ export async function POST(
         Math.floor((Date.now() - state.currentSong.startedAt) / 1000);
 
       // Buffer play for batch on-chain submission
-      await bufferPlay(redis, venueId, state.currentSong.tokenId, duration);
+      await bufferPlay(redis, venueId, state.currentSong.tokenId, duration, zoneId, state.currentSong.startedAt);
 
       // Record mining block
       const { toursEarned, stats: miningStats } = await recordMinedBlock(redis, venueId);
@@ -181,14 +291,14 @@ export async function POST(
         imageUrl: state.currentSong.imageUrl,
         playedAt: state.currentSong.startedAt,
         duration,
-      });
+      }, zoneId);
 
       state.currentSong = null;
       state.totalSongsPlayed++;
       state.songsPlayedToday++;
-      await setVenuePlaybackState(redis, venueId, state);
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
 
-      broadcast(`venue:${venueId}`, 'state_update', { type: 'song_ended', state });
+      broadcast(channel, 'state_update', { type: 'song_ended', state });
 
       return json({
         ok: true,
@@ -205,13 +315,14 @@ export async function POST(
 }
 
 /**
- * Get next song URL + metadata (for device pre-fetch).
+ * Get next song URL + metadata (for device pre-fetch), from the zone's
+ * queue or else at random from what its current daypart allows.
  */
-async function handleGetNext(venueId: string) {
-  let next = await popNextFromQueue(redis, venueId);
+async function handleGetNext(venueId: string, zone: VenueZone) {
+  let next = await popNextFromQueue(redis, venueId, zone.zoneId);
 
   if (!next) {
-    const random = await pickRandomClearedSong(redis);
+    const random = await pickRandomZoneSong(redis, zone);
     if (!random) {
       return json({ error: 'no songs available' }, 404);
     }
@@ -237,6 +348,219 @@ async function handleGetNext(venueId: string) {
   });
 }
 
+// ============================================================================
+// OFFLINE PROTOCOL
+// ============================================================================
+
+function windowSigner() {
+  const key = process.env.DEPLOYER_PRIVATE_KEY;
+  return key ? privateKeyToAccount(key as `0x${string}`) : null;
+}
+
+async function handleRegisterDevice(venue: Venue, zoneId: string, data: any) {
+  const { venueId } = venue;
+  const address = String(data?.address || '');
+  if (!isAddress(address)) {
+    return json({ error: 'address must be the device key address' }, 400);
+  }
+  const signer = windowSigner();
+  if (!signer) {
+    return json({ error: 'offline playback not configured' }, 503);
+  }
+
+  // A revoked key stays revoked: its windows still name it, and reviving
+  // it would revive them. A reset device generates a new key.
+  const existing = await getVenueDevice(redis, venueId, address);
+  if (existing?.revokedAt !== undefined) {
+    return json({ error: 'device key was revoked; generate a new one' }, 409);
+  }
+  if (existing && existing.zoneId !== zoneId) {
+    return json({ error: `device already registered to zone ${existing.zoneId}` }, 409);
+  }
+
+  const plan = planFor(venue.plan);
+  const active = (await listVenueDevices(redis, venueId)).filter(d => d.revokedAt === undefined);
+  if (!existing && active.length >= plan.maxDevices) {
+    return json({ error: `The ${plan.name} plan allows ${plan.maxDevices} device(s); revoke one or change plan` }, 402);
+  }
+
+  const device: VenueDevice = {
+    address: address.toLowerCase() as Address,
+    name: String(data?.name || existing?.name || 'Device').slice(0, 60),
+    zoneId,
+    registeredAt: existing?.registeredAt ?? Date.now(),
+    ...(existing?.lastPlayEnd ? { lastPlayEnd: existing.lastPlayEnd } : {}),
+  };
+  await saveVenueDevice(redis, venueId, device);
+  if (!existing) {
+    await notePeak(redis, venueId, 'peakDevices', active.length + 1, Date.now());
+  }
+
+  console.log(`[VenueDevice] Registered ${device.address} to ${venueId}/${zoneId}`);
+  return json({ ok: true, device, windowSigner: signer.address });
+}
+
+async function handleRevokeDevice(venueId: string, data: any) {
+  const device = await getVenueDevice(redis, venueId, String(data?.address || ''));
+  if (!device) {
+    return json({ error: 'unknown device' }, 404);
+  }
+  device.revokedAt = device.revokedAt ?? Date.now();
+  await saveVenueDevice(redis, venueId, device);
+
+  console.log(`[VenueDevice] Revoked ${device.address} for ${venueId}`);
+  return json({ ok: true, device });
+}
+
+/**
+ * Cut the next window of the zone's play order for one device. The
+ * positions are reserved from the zone's cursor, so no two windows ever
+ * share one and a receipt can only be spent once.
+ */
+async function handleGetWindow(venueId: string, zone: VenueZone, address: string, count: number) {
+  const device = isAddress(address) ? await getVenueDevice(redis, venueId, address) : null;
+  if (!device || device.revokedAt !== undefined) {
+    return json({ error: 'unknown or revoked device' }, 403);
+  }
+  if (device.zoneId !== zone.zoneId) {
+    return json({ error: `device is registered to zone ${device.zoneId}` }, 403);
+  }
+  const signer = windowSigner();
+  if (!signer) {
+    return json({ error: 'offline playback not configured' }, 503);
+  }
+  const session = await getVenueSession(redis, venueId);
+  if (!session) {
+    return json({ error: 'no committed playlist seed yet; start playback once online' }, 409);
+  }
+
+  const now = Date.now();
+  const daypart = activeZoneDaypart(zone.schedule, now);
+  const [catalogue, tags] = await Promise.all([fetchClearedCatalog(redis), loadTrackTags(redis)]);
+  const { tracks: pool } = zonePlaylist(catalogue, daypart, tags);
+  if (pool.length === 0) {
+    return json({ error: 'no songs available' }, 404);
+  }
+
+  const size = Math.min(Math.max(Math.floor(count), 1), MAX_WINDOW_SIZE);
+  const startIndex = await reserveWindowPositions(redis, venueId, zone.zoneId, size);
+  const catalog = pool.map(s => s.tokenId);
+  const seed = zoneSeed(session.seed, zone.zoneId);
+  const byId = new Map(pool.map(s => [s.tokenId, s]));
+
+  const window: PlaylistWindow = {
+    windowId: randomBytes(12).toString('hex'),
+    venueId,
+    zoneId: zone.zoneId,
+    device: device.address,
+    sessionId: session.sessionId,
+    seedHash: session.seedHash as Hex,
+    startIndex,
+    count: size,
+    daypart: daypart?.name ?? null,
+    volume: zoneVolume(zone.schedule, daypart),
+    issuedAt: now,
+    expiresAt: now + WINDOW_TTL_MS,
+    tracks: Array.from({ length: size }, (_, i) => {
+      const song = byId.get(playOrderAt(seed, catalog, startIndex + i) as string)!;
+      return {
+        index: startIndex + i,
+        tokenId: song.tokenId,
+        name: song.name,
+        artist: song.artist,
+        audioUrl: song.audioUrl,
+        imageUrl: song.imageUrl,
+        duration: song.duration || 600,
+      };
+    }),
+  };
+  const stored: StoredWindow = { window, seed: session.seed as Hex, catalog };
+  await saveStoredWindow(redis, stored);
+
+  const signed: SignedWindow = {
+    window,
+    signer: signer.address,
+    signature: await signer.signMessage({ message: windowMessage(window) }),
+  };
+  return json(signed);
+}
+
+/**
+ * Verify uploaded receipts window by window, then claim and buffer each
+ * accepted play as if the device had reported it live.
+ */
+async function handleReceipts(venueId: string, zoneId: string, data: any) {
+  const device = await getVenueDevice(redis, venueId, String(data?.device || ''));
+  if (!device) {
+    return json({ error: 'unknown device' }, 403);
+  }
+  if (device.zoneId !== zoneId) {
+    return json({ error: `device is registered to zone ${device.zoneId}` }, 403);
+  }
+  const parsed = parseReceipts(data?.receipts);
+  if (!parsed.ok) {
+    return json({ error: parsed.error }, 400);
+  }
+
+  const byWindow = new Map<string, PlayReceipt[]>();
+  for (const r of parsed.receipts) {
+    byWindow.set(r.windowId, [...(byWindow.get(r.windowId) || []), r]);
+  }
+
+  const result: ReceiptVerdict = { accepted: [], rejected: [] };
+  const now = Date.now();
+  for (const [windowId, receipts] of byWindow) {
+    const stored = await getStoredWindow(redis, windowId);
+    if (!stored || stored.window.venueId !== venueId || stored.window.zoneId !== zoneId) {
+      receipts.forEach(r => result.rejected.push({ windowId, index: r.index, reason: 'unknown_window' }));
+      continue;
+    }
+
+    const verdict = await verifyWindowReceipts({
+      stored,
+      device,
+      receipts,
+      seen: await receiptedPositions(redis, windowId),
+      now,
+      tokenAt: (index) => playOrderAt(zoneSeed(stored.seed, zoneId), stored.catalog, index),
+    });
+    result.rejected.push(...verdict.rejected);
+
+    for (const r of verdict.accepted) {
+      if (!(await claimReceipt(redis, stored, r.index))) {
+        result.rejected.push({ windowId, index: r.index, reason: 'duplicate' });
+        continue;
+      }
+      const track = stored.window.tracks[r.index - stored.window.startIndex];
+      await bufferPlay(redis, venueId, r.tokenId, r.duration, zoneId, r.startedAt);
+      await recordMinedBlock(redis, venueId);
+      await addToVenueHistory(redis, venueId, {
+        tokenId: r.tokenId,
+        name: track.name,
+        artist: track.artist,
+        imageUrl: track.imageUrl,
+        playedAt: r.startedAt,
+        duration: r.duration,
+      }, zoneId);
+      device.lastPlayEnd = Math.max(device.lastPlayEnd ?? 0, r.startedAt + r.duration * 1000);
+      result.accepted.push(r);
+    }
+  }
+
+  if (result.accepted.length > 0) {
+    await saveVenueDevice(redis, venueId, device);
+  }
+  if (result.rejected.length > 0) {
+    console.warn(`[VenueDevice] ${device.address} receipts rejected for ${venueId}:`, result.rejected.slice(0, 10));
+  }
+
+  return json({
+    ok: true,
+    accepted: result.accepted.map(r => ({ windowId: r.windowId, index: r.index })),
+    rejected: result.rejected,
+  });
+}
+
 function json(data: any, status = 200) {
   return NextResponse.json(data, {
     status,
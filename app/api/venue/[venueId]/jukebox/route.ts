@@ -0,0 +1,372 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { createPublicClient, http, isAddress } from 'viem';
+import { activeChain } from '@/app/chains';
+import { redis } from '@/lib/redis';
+import { broadcast } from '@/lib/sse-broadcaster';
+import { verifyQuickAuth } from '@/lib/quick-auth';
+import { verifyWalletAuth } from '@/lib/wallet-auth';
+import { createShortUrl, getFullUrl } from '@/lib/url-shortener';
+import { loadTrackTags } from '@/lib/radio-programming';
+import {
+  fetchClearedCatalog,
+  getVenue,
+  getVenueActor,
+  getVenuePlaybackState,
+  getVenueQueue,
+  getVenueZone,
+  hashApiKey,
+  venueChannel,
+  type Venue,
+} from '@/lib/venue';
+import {
+  JUKEBOX_LINK_TTL_SECONDS,
+  claimRequestPayment,
+  getJukeboxSettings,
+  getPatron,
+  getRequest,
+  isRequestable,
+  listRequests,
+  notePatronRequest,
+  parseJukeboxSettings,
+  patronRequestTimes,
+  publicRequest,
+  removeRequest,
+  requestBlocker,
+  requestPriceWei,
+  requestsInWindow,
+  saveJukeboxSettings,
+  savePatron,
+  saveRequest,
+  type JukeboxPatron,
+  type JukeboxRequest,
+  type JukeboxSettings,
+} from '@/lib/venue-jukebox';
+import { invoicePaymentIn } from '@/lib/venue-billing';
+import { auditEntry, can, logAudit } from '@/lib/venue-staff';
+
+/**
+ * Jukebox mode (lib/venue-jukebox.ts). Patrons need no venue key.
+ *
+ * GET  /api/venue/[venueId]/jukebox — what the patron page shows: now playing, the queue, the
+ *      ranked requests and the catalogue the venue takes requests for. With X-Jukebox-Patron,
+ *      which requests the patron voted for and how many requests they have left. With a venue
+ *      key holding the schedule permission, the full settings and the QR link.
+ * POST /api/venue/[venueId]/jukebox
+ *   { action: 'join', address? }         → { token }  Farcaster Quick Auth, or a wallet signature
+ *                                          for `address` (context "venue-jukebox")
+ *   { action: 'request', tokenId, txHash? }  X-Jukebox-Patron. Asking for a song already
+ *                                          requested is a vote. txHash is a WMON transfer of
+ *                                          the request price from the patron to the owner.
+ *   { action: 'vote', tokenId }           X-Jukebox-Patron
+ * and, with a venue key:
+ *   { action: 'configure', ...settings }  schedule permission → { settings, link }
+ *   { action: 'remove_request', tokenId } queue permission in the jukebox zone
+ */
+
+export const dynamic = 'force-dynamic';
+
+const JOIN_CONTEXT = 'venue-jukebox';
+const APP_URL = process.env.NEXT_PUBLIC_URL || 'https://fcempowertours-production-6551.up.railway.app';
+
+function fail(error: string, status = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+async function patronFrom(req: NextRequest, venueId: string): Promise<JukeboxPatron | null> {
+  const token = req.headers.get('x-jukebox-patron');
+  if (!token) return null;
+  const patron = await getPatron(redis, hashApiKey(token));
+  return patron && patron.venueId === venueId ? patron : null;
+}
+
+async function staffFrom(req: NextRequest, venueId: string) {
+  const apiKey = req.headers.get('x-venue-key') || new URL(req.url).searchParams.get('key');
+  return apiKey ? getVenueActor(redis, venueId, apiKey) : null;
+}
+
+function shortLink(settings: JukeboxSettings) {
+  return settings.shortId ? `${APP_URL}/api/s/${settings.shortId}` : null;
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  try {
+    const { venueId } = await params;
+    const venue = await getVenue(redis, venueId);
+    if (!venue) return fail('Venue not found', 404);
+
+    const [settings, patron, actor] = await Promise.all([
+      getJukeboxSettings(redis, venueId),
+      patronFrom(req, venueId),
+      staffFrom(req, venueId),
+    ]);
+    const manages = !!actor && can(actor, 'schedule');
+    const manage = manages ? { settings, link: shortLink(settings) } : {};
+
+    if (!settings.enabled) {
+      return NextResponse.json({ success: true, enabled: false, venue: { name: venue.name }, ...manage });
+    }
+
+    const zoneId = settings.zoneId;
+    const [catalog, tags, state, queue, requests, times] = await Promise.all([
+      fetchClearedCatalog(redis),
+      loadTrackTags(redis),
+      getVenuePlaybackState(redis, venueId, zoneId),
+      getVenueQueue(redis, venueId, 10, zoneId),
+      listRequests(redis, venueId),
+      patron ? patronRequestTimes(redis, venueId, patron.patronId) : Promise.resolve([]),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      enabled: true,
+      venue: { name: venue.name },
+      nowPlaying: state.isPlaying ? state.currentSong : null,
+      queue,
+      requests: requests
+        .filter(r => r.zoneId === zoneId)
+        .map(r => publicRequest(r, patron?.patronId)),
+      catalog: catalog.filter(song => isRequestable(settings, song.tokenId, tags[song.tokenId])),
+      limits: {
+        requestsPerPatron: settings.requestsPerPatron,
+        windowMinutes: settings.windowMinutes,
+        ...(patron
+          ? {
+              remaining: Math.max(
+                0,
+                settings.requestsPerPatron - requestsInWindow(times, settings.windowMinutes, Date.now())
+              ),
+            }
+          : {}),
+      },
+      price: {
+        priceWmon: settings.priceWmon,
+        token: process.env.NEXT_PUBLIC_WMON || null,
+        payTo: venue.ownerAddress,
+      },
+      ...(patron ? { patron: { patronId: patron.patronId } } : {}),
+      ...manage,
+    });
+  } catch (error: any) {
+    console.error('[VenueJukebox] GET error:', error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  try {
+    const { venueId } = await params;
+    const body = await req.json();
+    const venue = await getVenue(redis, venueId);
+    if (!venue) return fail('Venue not found', 404);
+
+    if (body.action === 'configure' || body.action === 'remove_request') {
+      return handleStaffAction(req, venue, body);
+    }
+
+    const settings = await getJukeboxSettings(redis, venueId);
+    if (!settings.enabled) return fail('This venue is not taking requests right now', 403);
+
+    if (body.action === 'join') return handleJoin(req, venue, body);
+
+    const patron = await patronFrom(req, venueId);
+    if (!patron) return fail('Sign in to request songs', 401);
+
+    switch (body.action) {
+      case 'request':
+      case 'vote':
+        return handleRequest(venue, settings, patron, body);
+      default:
+        return fail('Unknown action');
+    }
+  } catch (error: any) {
+    console.error('[VenueJukebox] POST error:', error);
+    return fail(error.message, 500);
+  }
+}
+
+async function handleJoin(req: NextRequest, venue: Venue, body: Record<string, any>) {
+  let patron: JukeboxPatron | null = null;
+  const quick = await verifyQuickAuth(req);
+  if (quick.ok) {
+    patron = {
+      venueId: venue.venueId,
+      patronId: `fid:${quick.user.fid}`,
+      addresses: quick.user.addresses.map(a => a.toLowerCase()),
+    };
+  } else if (typeof body.address === 'string' && isAddress(body.address)) {
+    const wallet = await verifyWalletAuth(req, body.address, JOIN_CONTEXT);
+    if (wallet.ok) {
+      const address = wallet.address.toLowerCase();
+      patron = { venueId: venue.venueId, patronId: address, addresses: [address] };
+    }
+  }
+  if (!patron) return fail('Sign in with Farcaster or your wallet', 401);
+
+  const token = `jbx_${randomBytes(24).toString('hex')}`;
+  await savePatron(redis, hashApiKey(token), patron);
+  return NextResponse.json({ success: true, token, patron: { patronId: patron.patronId } });
+}
+
+async function handleRequest(
+  venue: Venue,
+  settings: JukeboxSettings,
+  patron: JukeboxPatron,
+  body: Record<string, any>
+) {
+  const { venueId } = venue;
+  const tokenId = String(body.tokenId || '');
+  if (!/^\d+$/.test(tokenId)) return fail('tokenId required');
+
+  const now = Date.now();
+  const [existing, pending, times, tags] = await Promise.all([
+    getRequest(redis, venueId, tokenId),
+    listRequests(redis, venueId),
+    patronRequestTimes(redis, venueId, patron.patronId),
+    loadTrackTags(redis),
+  ]);
+  const blocker = requestBlocker({
+    settings,
+    tokenId,
+    tags: tags[tokenId],
+    existing,
+    pendingCount: pending.length,
+    patron: patron.patronId,
+    patronRequestTimes: times,
+    now,
+  });
+  if (blocker) return fail(blocker, 409);
+
+  if (existing) {
+    const voted: JukeboxRequest = { ...existing, voters: [...existing.voters, patron.patronId] };
+    await saveRequest(redis, venueId, voted);
+    await broadcastRequests(venueId, settings.zoneId);
+    return NextResponse.json({ success: true, request: publicRequest(voted, patron.patronId) });
+  }
+  if (body.action === 'vote') return fail('No request for that song', 404);
+
+  const song = (await fetchClearedCatalog(redis)).find(s => s.tokenId === tokenId);
+  if (!song) return fail('That song is not cleared for venue play', 404);
+
+  let payment: JukeboxRequest['payment'];
+  const price = requestPriceWei(settings);
+  if (price > 0n) {
+    const paid = await verifyRequestPayment(venue, patron, String(body.txHash || ''), price);
+    if (!paid.ok) return fail(paid.error, paid.status);
+    payment = paid.payment;
+  }
+
+  const request: JukeboxRequest = {
+    tokenId,
+    name: song.name,
+    artist: song.artist,
+    // The indexer's artist is the wallet that minted the master, as the radio queue takes it
+    artistAddress: song.artist,
+    audioUrl: song.audioUrl,
+    imageUrl: song.imageUrl,
+    ...(song.duration ? { duration: song.duration } : {}),
+    zoneId: settings.zoneId,
+    requestedBy: patron.patronId,
+    requestedAt: now,
+    voters: [patron.patronId],
+    ...(payment ? { payment } : {}),
+  };
+  await saveRequest(redis, venueId, request);
+  await notePatronRequest(redis, venueId, patron.patronId, now);
+  console.log(`[VenueJukebox] ${patron.patronId} requested #${tokenId} at ${venueId}`);
+  await broadcastRequests(venueId, settings.zoneId);
+  return NextResponse.json({ success: true, request: publicRequest(request, patron.patronId) });
+}
+
+/** Players and dashboards on the zone's channel see the ranked list change. */
+async function broadcastRequests(venueId: string, zoneId: string) {
+  const requests = (await listRequests(redis, venueId)).filter(r => r.zoneId === zoneId).map(r => publicRequest(r));
+  broadcast(venueChannel(venueId, zoneId), 'queue_update', { type: 'jukebox_requests', requests });
+}
+
+/**
+ * A request's price must move from one of the patron's own wallets to the
+ * owner in a single transaction, and each transaction pays once.
+ */
+async function verifyRequestPayment(
+  venue: Venue,
+  patron: JukeboxPatron,
+  txHash: string,
+  price: bigint
+): Promise<
+  | { ok: true; payment: NonNullable<JukeboxRequest['payment']> }
+  | { ok: false; error: string; status: number }
+> {
+  const token = process.env.NEXT_PUBLIC_WMON;
+  if (!token) return { ok: false, error: 'WMON not configured', status: 500 };
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) {
+    return { ok: false, error: 'Requests here cost WMON; send txHash of the payment', status: 402 };
+  }
+
+  const client = createPublicClient({
+    chain: activeChain,
+    transport: http(process.env.NEXT_PUBLIC_MONAD_RPC || 'https://rpc.monad.xyz'),
+  });
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash as `0x${string}` });
+  } catch {
+    return { ok: false, error: 'Transaction not found; wait for it to confirm', status: 404 };
+  }
+  if (receipt.status !== 'success') return { ok: false, error: 'Transaction reverted', status: 400 };
+
+  const payTo = { token: token as `0x${string}`, payTo: venue.ownerAddress as `0x${string}` };
+  const from = patron.addresses.find(a => invoicePaymentIn(receipt.logs, payTo, a) >= price);
+  if (!from) {
+    return { ok: false, error: `Transaction does not move ${price} wei from your wallet to the venue`, status: 402 };
+  }
+  if (!(await claimRequestPayment(redis, txHash, venue.venueId))) {
+    return { ok: false, error: 'That transaction already paid for a request', status: 409 };
+  }
+  return {
+    ok: true,
+    payment: { txHash, from, amountWei: invoicePaymentIn(receipt.logs, payTo, from).toString() },
+  };
+}
+
+async function handleStaffAction(req: NextRequest, venue: Venue, body: Record<string, any>) {
+  const { venueId } = venue;
+  const actor = await staffFrom(req, venueId);
+  if (!actor) return fail('Invalid API key', 401);
+  const settings = await getJukeboxSettings(redis, venueId);
+
+  if (body.action === 'remove_request') {
+    const tokenId = String(body.tokenId || '');
+    if (!can(actor, 'queue', settings.zoneId)) return fail('Your key cannot manage this queue', 403);
+    await logAudit(redis, venueId, auditEntry(actor, 'remove_request', { zoneId: settings.zoneId, detail: `#${tokenId}` }));
+    if (!(await removeRequest(redis, venueId, tokenId))) return fail('No request for that song', 404);
+    await broadcastRequests(venueId, settings.zoneId);
+    return NextResponse.json({ success: true });
+  }
+
+  // configure
+  if (!can(actor, 'schedule')) return fail('Your key cannot change the jukebox', 403);
+  const { action: _action, ...changes } = body;
+  const parsed = parseJukeboxSettings(changes, settings);
+  if (!parsed.ok) {
+    return NextResponse.json({ success: false, error: 'Invalid settings', errors: parsed.errors }, { status: 400 });
+  }
+  const next = parsed.settings;
+  if (!(await getVenueZone(redis, venueId, next.zoneId))) return fail('Zone not found', 404);
+
+  // The QR code outlives any one session, so the link is re-issued only once it has expired
+  if (next.enabled && (!next.shortId || !(await getFullUrl(next.shortId)))) {
+    next.shortId = (await createShortUrl(`${APP_URL}/venue/${venueId}/jukebox`, JUKEBOX_LINK_TTL_SECONDS)) || undefined;
+  }
+  await saveJukeboxSettings(redis, venueId, next);
+  await logAudit(redis, venueId, auditEntry(actor, 'configure_jukebox', {
+    detail: next.enabled ? `on, ${next.priceWmon} WMON per request` : 'off',
+  }));
+  return NextResponse.json({ success: true, settings: next, link: shortLink(next) });
+}
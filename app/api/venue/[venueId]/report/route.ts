@@ -0,0 +1,342 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { privateKeyToAccount } from 'viem/accounts';
+import { redis } from '@/lib/redis';
+import { getRightsStatus } from '@/lib/rights-declaration';
+import { getVenue, getVenueActor, getVenueHistory, getVenueZones } from '@/lib/venue';
+import { auditEntry, can, logAudit } from '@/lib/venue-staff';
+import {
+  NON_PRO_DECLARATION,
+  buildPerformanceReport,
+  loggedPerformances,
+  mergePlays,
+  parseReportRange,
+  performanceReportToCsv,
+  playSubmissions,
+  reportDigest,
+  saveIssuedReport,
+  trackRights,
+  type IssuedReport,
+  type PerformanceReport,
+  type TrackRights,
+} from '@/lib/venue-performance';
+
+/**
+ * GET /api/venue/[venueId]/report?from=YYYY-MM-DD&to=YYYY-MM-DD&format=csv|pdf|json
+ *
+ * Public-performance log for a range of UTC days (lib/venue-performance.ts), for a venue to
+ * hand a rights organization that audits it. Needs a venue-wide key with the reports
+ * permission (lib/venue-staff.ts). Every download is a new report,
+ * signed by the keeper key and recorded so /api/venue/reports/verify can vouch for it later.
+ *
+ * The digest, signature and signer are also returned as X-Report-* headers.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const ORACLE_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY;
+
+function fail(error: string, status = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  try {
+    const { venueId } = await params;
+    const url = new URL(req.url);
+
+    const apiKey = req.headers.get('x-venue-key') || url.searchParams.get('key');
+    if (!apiKey) return fail('API key required', 401);
+    const actor = await getVenueActor(redis, venueId, apiKey);
+    if (!actor) return fail('Invalid API key', 401);
+    if (!can(actor, 'reports')) return fail('Your key does not have the reports permission', 403);
+
+    const format = url.searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'pdf' && format !== 'json') {
+      return fail('format must be csv, pdf or json');
+    }
+    const range = parseReportRange(
+      url.searchParams.get('from') || '',
+      url.searchParams.get('to') || '',
+      Date.now()
+    );
+    if (!range.ok) return fail(range.error);
+
+    if (!ORACLE_PRIVATE_KEY) return fail('Report signing is not configured', 503);
+    const keeper = privateKeyToAccount(ORACLE_PRIVATE_KEY as `0x${string}`);
+
+    const venue = await getVenue(redis, venueId);
+    if (!venue) return fail('Venue not found', 404);
+
+    // The durable log, plus whatever the rolling per-zone history still holds
+    const zones = await getVenueZones(redis, venueId);
+    const histories = await Promise.all(
+      zones.map(async zone =>
+        (await getVenueHistory(redis, venueId, 100, zone.zoneId)).map(entry => ({
+          zoneId: zone.zoneId,
+          tokenId: entry.tokenId,
+          name: entry.name,
+          artist: entry.artist,
+          playedAt: entry.playedAt,
+          duration: entry.duration,
+        }))
+      )
+    );
+    const logged = await loggedPerformances(redis, venueId, range.startMs, range.endMs);
+    const plays = mergePlays([logged, ...histories], range.startMs, range.endMs);
+
+    const rights: Record<string, TrackRights | null> = {};
+    for (const tokenId of new Set(plays.map(p => p.tokenId))) {
+      const status = await getRightsStatus(redis, tokenId);
+      rights[tokenId] = status ? trackRights(status) : null;
+    }
+    const submissions = await playSubmissions(redis, venueId, plays);
+
+    const report = buildPerformanceReport({
+      venue,
+      from: range.from,
+      to: range.to,
+      plays,
+      rights,
+      submissions,
+      generatedAt: Date.now(),
+    });
+    const csv = performanceReportToCsv(report);
+    const digest = reportDigest(csv);
+    const issued: IssuedReport = {
+      digest,
+      format: report.format,
+      venueId,
+      venueName: venue.name,
+      from: report.from,
+      to: report.to,
+      generatedAt: report.generatedAt,
+      plays: report.totals.plays,
+      signer: keeper.address,
+      signature: await keeper.signMessage({ message: { raw: digest } }),
+    };
+
+    const verifyUrl = `${url.origin}/api/venue/reports/verify?hash=${digest}`;
+    const headers = {
+      'X-Report-Digest': digest,
+      'X-Report-Signature': issued.signature,
+      'X-Report-Signer': issued.signer,
+    };
+    const filename = `empowertours-performance-${venueId.slice(0, 8)}-${report.from}-to-${report.to}`;
+    console.log(`[VenueReport] ${venueId} ${report.from}..${report.to}: ${report.totals.plays} plays, ${digest}`);
+    await logAudit(redis, venueId, auditEntry(actor, 'download_report', {
+      detail: `${report.from}..${report.to} ${format} ${digest}`,
+    }));
+
+    if (format === 'pdf') {
+      const pdf = await generatePDFBuffer(report, issued, verifyUrl);
+      issued.pdfHash = reportDigest(new Uint8Array(pdf));
+      await saveIssuedReport(redis, issued);
+      return new NextResponse(new Uint8Array(pdf), {
+        headers: {
+          ...headers,
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}.pdf"`,
+        },
+      });
+    }
+
+    await saveIssuedReport(redis, issued);
+    if (format === 'csv') {
+      return new NextResponse(csv, {
+        headers: {
+          ...headers,
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}.csv"`,
+        },
+      });
+    }
+    return NextResponse.json({ success: true, report, issued, verifyUrl }, { headers });
+  } catch (error: any) {
+    console.error('[VenueReport] Error:', error?.message);
+    return fail(error?.message || 'Report generation failed', 500);
+  }
+}
+
+const utc = (at: number) => new Date(at).toISOString().replace('T', ' ').slice(0, 19);
+const shortHash = (hash: string) => (hash ? `${hash.slice(0, 10)}…${hash.slice(-6)}` : '—');
+const minutes = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/** Same pdfkit approach as the earnings statement, with the signature block at the end. */
+async function generatePDFBuffer(
+  report: PerformanceReport,
+  issued: IssuedReport,
+  verifyUrl: string
+): Promise<Buffer> {
+  const { default: PDFDocument } = await import('@react-pdf/pdfkit' as any);
+
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      margin: 40,
+      size: 'A4',
+      autoFirstPage: true,
+      bufferPages: true,
+      info: {
+        Title: `Public performance report — ${report.venueName}`,
+        Author: 'EmpowerTours',
+      },
+    });
+
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const PURPLE = '#7c3aed';
+    const INK = '#111827';
+    const MUTED = '#6b7280';
+    const RED = '#dc2626';
+    const W = doc.page.width - 80;
+    const BOTTOM = doc.page.height - 60;
+
+    const ensure = (height: number) => {
+      if (doc.y + height > BOTTOM) doc.addPage();
+    };
+    const heading = (text: string) => {
+      ensure(40);
+      doc.moveDown(0.8);
+      doc.fillColor(PURPLE).fontSize(10).font('Helvetica-Bold').text(text, 40, doc.y, { characterSpacing: 0.5 });
+      doc.moveTo(40, doc.y + 2).lineTo(40 + W, doc.y + 2).strokeColor(PURPLE).lineWidth(0.4).stroke();
+      doc.moveDown(0.4);
+    };
+    const row = (cells: string[], widths: number[], opts: { bold?: boolean; color?: string } = {}) => {
+      ensure(14);
+      const y = doc.y;
+      let x = 40;
+      let bottom = y;
+      cells.forEach((cell, i) => {
+        const width = widths[i] * W;
+        doc
+          .fillColor(opts.color || INK)
+          .fontSize(7.5)
+          .font(opts.bold ? 'Helvetica-Bold' : 'Helvetica')
+          .text(cell, x, y, { width: width - 4 });
+        bottom = Math.max(bottom, doc.y);
+        x += width;
+      });
+      doc.y = bottom + 2;
+    };
+
+    // ── Header ────────────────────────────────────────────────────────────
+    doc.fillColor(INK).fontSize(20).font('Helvetica-Bold').text('Public Performance Report', 40, 40);
+    doc
+      .fillColor(MUTED)
+      .fontSize(9)
+      .font('Helvetica')
+      .text(`${report.venueName} (venue ${report.venueId})`, 40, doc.y + 4)
+      .text(`Owner wallet: ${report.ownerAddress}`)
+      .text(`Period: ${report.from} to ${report.to} inclusive (UTC)`)
+      .text(`Generated ${report.generatedAt}`);
+
+    heading('DECLARATION');
+    doc.fillColor(INK).fontSize(8.5).font('Helvetica').text(NON_PRO_DECLARATION, 40, doc.y, { width: W });
+
+    // ── Summary ───────────────────────────────────────────────────────────
+    const t = report.totals;
+    heading('SUMMARY');
+    const sw = [0.6, 0.4];
+    row(['Plays', String(t.plays)], sw);
+    row(['Time played', `${(t.seconds / 3600).toFixed(1)} hours`], sw);
+    row(['Distinct tracks', String(t.tracks)], sw);
+    row(['Plays recorded on-chain', String(t.onChain)], sw);
+    row(['Plays not yet submitted on-chain', String(t.notSubmitted)], sw);
+    if (t.undeclared > 0) {
+      row(['Plays without a non-PRO declaration on record', String(t.undeclared)], sw, { color: RED });
+    }
+
+    // ── Rights ────────────────────────────────────────────────────────────
+    heading('RIGHTS AGREEMENTS');
+    const rw = [0.08, 0.1, 0.08, 0.1, 0.64];
+    row(['ID', 'Status', 'Version', 'Non-PRO', 'Agreement hash / IPFS'], rw, { bold: true, color: MUTED });
+    const tokenIds = [...new Set(report.rows.map(r => r.tokenId))];
+    if (!tokenIds.length) row(['No plays in this period.'], [1], { color: MUTED });
+    for (const tokenId of tokenIds) {
+      const rights = report.rows.find(r => r.tokenId === tokenId)?.rights ?? null;
+      row(
+        rights
+          ? [
+              `#${tokenId}`,
+              rights.status,
+              rights.version,
+              rights.notPro ? 'yes' : 'no',
+              `${rights.agreementHash || '—'}${rights.agreementCid ? `\nipfs://${rights.agreementCid}` : ''}`,
+            ]
+          : [`#${tokenId}`, 'no record', '—', '—', '—'],
+        rw,
+        { color: rights?.notPro ? INK : RED }
+      );
+    }
+
+    // ── Plays ─────────────────────────────────────────────────────────────
+    heading('PERFORMANCE LOG');
+    const pw = [0.17, 0.08, 0.06, 0.27, 0.08, 0.06, 0.28];
+    row(['Started (UTC)', 'Zone', 'ID', 'Track / artist', 'Length', 'Rights', 'On-chain'], pw, {
+      bold: true,
+      color: MUTED,
+    });
+    for (const r of report.rows) {
+      row(
+        [
+          utc(r.playedAt),
+          r.zoneId,
+          `#${r.tokenId}`,
+          `${r.name} — ${r.artist}`,
+          minutes(r.duration),
+          r.rights ? `v${r.rights.version}` : '—',
+          r.submission ? `${r.submission.contract} ${shortHash(r.submission.txHash)}` : 'not submitted',
+        ],
+        pw
+      );
+    }
+
+    // ── Signature ─────────────────────────────────────────────────────────
+    heading('VERIFICATION');
+    doc
+      .fillColor(INK)
+      .fontSize(8)
+      .font('Helvetica')
+      .text(
+        'This PDF renders the CSV report with the digest below. The digest is the keccak256 of the CSV file; ' +
+          'the signature is an EIP-191 signature of that digest by the EmpowerTours keeper. Either file, or the ' +
+          'digest, can be checked at:',
+        40,
+        doc.y,
+        { width: W }
+      )
+      .moveDown(0.3)
+      .font('Helvetica-Bold')
+      .text(verifyUrl, { width: W })
+      .moveDown(0.3)
+      .font('Helvetica')
+      .text(`Digest: ${issued.digest}`, { width: W })
+      .text(`Signer: ${issued.signer}`, { width: W })
+      .text(`Signature: ${issued.signature}`, { width: W });
+
+    // ── Footer on every page ──────────────────────────────────────────────
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0;
+      doc
+        .fillColor(MUTED)
+        .fontSize(7.5)
+        .font('Helvetica')
+        .text(
+          `EmpowerTours · Public performance report ${shortHash(issued.digest)} · Page ${i + 1} of ${range.count}`,
+          40,
+          doc.page.height - 40,
+          { align: 'center', width: W, lineBreak: false }
+        );
+    }
+
+    doc.flushPages();
+    doc.end();
+  });
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { createPublicClient, http } from 'viem';
+import { activeChain } from '@/app/chains';
 import { redis } from '@/lib/redis';
 import { broadcast } from '@/lib/sse-broadcaster';
 import {
@@ -10,54 +12,128 @@ import {
   popNextFromQueue,
   getVenueHistory,
   addToVenueHistory,
-  verifyApiKey,
-  pickRandomClearedSong,
+  getVenueActor,
+  pickRandomZoneSong,
+  getVenueZone,
+  getVenueZones,
+  createVenueZone,
+  updateVenueZone,
+  deleteVenueZone,
+  regenerateZoneKey,
+  venueChannel,
+  getVenueAccess,
+  setVenuePlan,
+  type Venue,
   type VenueSong,
   type VenuePlaybackState,
 } from '@/lib/venue';
+import {
+  DEFAULT_ZONE_ID,
+  DEFAULT_ZONE_SCHEDULE,
+  parseZoneSchedule,
+  publicZone,
+} from '@/lib/venue-zones';
+import { listVenueDevices } from '@/lib/venue-receipts';
+import { canView, getPlaylist } from '@/lib/playlists';
+import { getRightsStatus } from '@/lib/rights-declaration';
+import { recordSubmission } from '@/lib/venue-performance';
+import {
+  VENUE_PLANS,
+  getInvoice,
+  getUsage,
+  invoicePaymentIn,
+  isPlanId,
+  listInvoices,
+  markInvoicePaid,
+  periodOf,
+  planChangeBlocker,
+  planFor,
+  type VenueAccess,
+} from '@/lib/venue-billing';
+import {
+  auditEntry,
+  can,
+  logAudit,
+  type VenueActor,
+  type VenuePermission,
+} from '@/lib/venue-staff';
 
 /**
- * GET  /api/venue/[venueId] — Current playback state, queue, history
- * POST /api/venue/[venueId] — Control playback (play, skip, pause, queue_song, song_ended)
+ * GET  /api/venue/[venueId]?zone=Y — Playback state, queue, history of one zone (default "main")
+ * POST /api/venue/[venueId]         — Control playback (play, skip, pause, queue_song, song_ended)
+ *                                     in body.zoneId, queue a shared playlist
+ *   { action: 'queue_playlist', playlistId }            → { queued, skipped }  cleared tracks only
+ *                                     or manage zones:
+ *   { action: 'create_zone', name, zoneId?, schedule? }  → { zone, apiKey }  key shown once
+ *   { action: 'update_zone', zoneId, name?, schedule? }
+ *   { action: 'delete_zone', zoneId }
+ *   { action: 'rotate_zone_key', zoneId }               → { apiKey }
+ * or billing (lib/venue-billing.ts):
+ *   { action: 'set_plan', plan }                         → { venue }
+ *   { action: 'pay_invoice', invoiceId, txHash }         → { invoice }  a WMON transfer from the owner
+ *
+ * Each action needs a permission of the key's member (lib/venue-staff.ts):
+ * playback for play/pause/song_ended, skip, queue (songs and playlists), schedule for zones,
+ * keys to rotate a zone key, billing for plans and invoices. A zone's own
+ * key, or a zone-bound member key, acts only in that zone; listing zones
+ * and offline devices (lib/venue-receipts.ts) needs a venue-wide key. Every
+ * action but song_ended is written to the venue's audit log as it is
+ * attempted.
+ *
+ * While billing blocks playback, play answers 402 and skip/song_ended end
+ * the current song without starting another; the scheduler resumes the
+ * zone once the block clears.
  */
 
 const PLAY_ORACLE_ADDRESS = process.env.NEXT_PUBLIC_PLAY_ORACLE;
+/** Tracks one queue_playlist call adds; the rest of a long playlist is left out. */
+const MAX_PLAYLIST_QUEUE = 50;
 const MUSIC_SUBSCRIPTION_ADDRESS = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION;
 const ORACLE_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY;
 
 async function authenticateVenueRequest(
   req: NextRequest,
-  venueId: string
-): Promise<{ valid: boolean; error?: string }> {
-  // Check X-Venue-Key header
-  const apiKey = req.headers.get('x-venue-key');
-  if (apiKey) {
-    const valid = await verifyApiKey(redis, venueId, apiKey);
-    if (valid) return { valid: true };
-    return { valid: false, error: 'Invalid API key' };
+  venueId: string,
+  zoneId: string = DEFAULT_ZONE_ID
+): Promise<{ valid: true; actor: VenueActor } | { valid: false; error: string }> {
+  // Check X-Venue-Key header, then query param ?key=X (for SSE and simple requests)
+  const apiKey = req.headers.get('x-venue-key') || new URL(req.url).searchParams.get('key');
+  if (!apiKey) {
+    return { valid: false, error: 'Authentication required. Provide X-Venue-Key header.' };
   }
 
-  // Check query param ?key=X (for SSE and simple requests)
-  const url = new URL(req.url);
-  const queryKey = url.searchParams.get('key');
-  if (queryKey) {
-    const valid = await verifyApiKey(redis, venueId, queryKey);
-    if (valid) return { valid: true };
+  const actor = await getVenueActor(redis, venueId, apiKey, zoneId);
+  if (!actor || (actor.zoneId !== null && actor.zoneId !== zoneId)) {
     return { valid: false, error: 'Invalid API key' };
   }
-
-  return { valid: false, error: 'Authentication required. Provide X-Venue-Key header.' };
+  return { valid: true, actor };
 }
 
+const ACTION_PERMISSIONS: Record<string, VenuePermission> = {
+  play: 'playback',
+  pause: 'playback',
+  song_ended: 'playback',
+  skip: 'skip',
+  queue_song: 'queue',
+  queue_playlist: 'queue',
+  create_zone: 'schedule',
+  update_zone: 'schedule',
+  delete_zone: 'schedule',
+  rotate_zone_key: 'keys',
+  set_plan: 'billing',
+  pay_invoice: 'billing',
+};
+
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ venueId: string }> }
 ) {
   try {
     const { venueId } = await params;
+    const zoneId = new URL(req.url).searchParams.get('zone') || DEFAULT_ZONE_ID;
 
     // Auth check
-    const auth = await authenticateVenueRequest(req, venueId);
+    const auth = await authenticateVenueRequest(req, venueId, zoneId);
     if (!auth.valid) {
       return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
     }
@@ -66,11 +142,19 @@ export async function GET(
     if (!venue) {
       return NextResponse.json({ success: false, error: 'Venue not found' }, { status: 404 });
     }
+    if (!(await getVenueZone(redis, venueId, zoneId))) {
+      return NextResponse.json({ success: false, error: 'Zone not found' }, { status: 404 });
+    }
 
-    const [state, queue, history] = await Promise.all([
-      getVenuePlaybackState(redis, venueId),
-      getVenueQueue(redis, venueId),
-      getVenueHistory(redis, venueId, 10),
+    const { actor } = auth;
+    const venueWide = actor.zoneId === null;
+    const [state, queue, history, zones, devices, billing] = await Promise.all([
+      getVenuePlaybackState(redis, venueId, zoneId),
+      getVenueQueue(redis, venueId, 20, zoneId),
+      getVenueHistory(redis, venueId, 10, zoneId),
+      venueWide ? getVenueZones(redis, venueId) : Promise.resolve(null),
+      venueWide ? listVenueDevices(redis, venueId) : Promise.resolve(null),
+      can(actor, 'billing') ? venueBilling(venue) : Promise.resolve(null),
     ]);
 
     return NextResponse.json({
@@ -81,9 +165,14 @@ export async function GET(
         isActive: venue.isActive,
         settings: venue.settings,
       },
+      zoneId,
+      me: { name: actor.name, role: actor.role, permissions: actor.permissions, zoneId: actor.zoneId },
       state,
       queue,
       history,
+      ...(zones ? { zones: zones.map(publicZone) } : {}),
+      ...(devices ? { devices } : {}),
+      ...(billing ? { billing } : {}),
     });
   } catch (error: any) {
     console.error('[VenueAPI] GET error:', error);
@@ -97,9 +186,12 @@ export async function POST(
 ) {
   try {
     const { venueId } = await params;
+    const body = await req.json();
+    const { action } = body;
+    const zoneId: string = typeof body.zoneId === 'string' && body.zoneId ? body.zoneId : DEFAULT_ZONE_ID;
 
     // Auth check
-    const auth = await authenticateVenueRequest(req, venueId);
+    const auth = await authenticateVenueRequest(req, venueId, zoneId);
     if (!auth.valid) {
       return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
     }
@@ -109,24 +201,59 @@ export async function POST(
       return NextResponse.json({ success: false, error: 'Venue not found' }, { status: 404 });
     }
 
-    const body = await req.json();
-    const { action } = body;
+    const { actor } = auth;
+    const permission = ACTION_PERMISSIONS[action];
+    if (!permission) {
+      return NextResponse.json({ success: false, error: 'Unknown action' }, { status: 400 });
+    }
+    // Zones and billing are venue-wide even when the body names a zone
+    const scoped = ZONE_ACTIONS.includes(action) || BILLING_ACTIONS.includes(action) ? undefined : zoneId;
+    if (!can(actor, permission, scoped)) {
+      return NextResponse.json(
+        { success: false, error: `Your key does not have the ${permission} permission here` },
+        { status: 403 }
+      );
+    }
+    if (action !== 'song_ended') {
+      await logAudit(redis, venueId, auditEntry(actor, action, { zoneId, detail: auditDetail(action, body) }));
+    }
+
+    if (ZONE_ACTIONS.includes(action)) {
+      return handleZoneAction(venueId, action, zoneId, body);
+    }
+
+    if (BILLING_ACTIONS.includes(action)) {
+      return handleBillingAction(venue, action, body);
+    }
+
+    const zone = await getVenueZone(redis, venueId, zoneId);
+    if (!zone) {
+      return NextResponse.json({ success: false, error: 'Zone not found' }, { status: 404 });
+    }
 
     // ---- PLAY ----
     if (action === 'play') {
-      const state = await getVenuePlaybackState(redis, venueId);
+      const access = await getVenueAccess(redis, venue);
+      if (!access.ok) {
+        return NextResponse.json(
+          { success: false, error: access.message, reason: access.reason },
+          { status: 402 }
+        );
+      }
+      const state = await getVenuePlaybackState(redis, venueId, zoneId);
+      state.billingHold = null;
 
       // Resume if paused with a current song
       if (state.currentSong && !state.isPlaying) {
         state.isPlaying = true;
-        await setVenuePlaybackState(redis, venueId, state);
-        broadcastVenueUpdate(venueId, 'state_update', { type: 'resumed', state });
+        await setVenuePlaybackState(redis, venueId, state, zoneId);
+        broadcastVenueUpdate(venueId, zoneId, 'state_update', { type: 'resumed', state });
         return NextResponse.json({ success: true, message: 'Playback resumed', state });
       }
 
       // Pick a random cleared song if nothing is playing
       if (!state.currentSong) {
-        const song = await pickRandomClearedSong(redis);
+        const song = await pickRandomZoneSong(redis, zone);
         if (!song) {
           return NextResponse.json(
             { success: false, error: 'No cleared songs available in catalog' },
@@ -148,8 +275,8 @@ export async function POST(
         state.totalSongsPlayed++;
         state.songsPlayedToday++;
 
-        await setVenuePlaybackState(redis, venueId, state);
-        broadcastVenueUpdate(venueId, 'state_update', { type: 'song_started', state });
+        await setVenuePlaybackState(redis, venueId, state, zoneId);
+        broadcastVenueUpdate(venueId, zoneId, 'state_update', { type: 'song_started', state });
 
         return NextResponse.json({ success: true, message: `Now playing: ${song.name}`, state });
       }
@@ -159,23 +286,23 @@ export async function POST(
 
     // ---- PAUSE ----
     if (action === 'pause') {
-      const state = await getVenuePlaybackState(redis, venueId);
+      const state = await getVenuePlaybackState(redis, venueId, zoneId);
       state.isPlaying = false;
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcastVenueUpdate(venueId, 'state_update', { type: 'paused', state });
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcastVenueUpdate(venueId, zoneId, 'state_update', { type: 'paused', state });
       return NextResponse.json({ success: true, message: 'Playback paused', state });
     }
 
     // ---- SKIP ----
     if (action === 'skip') {
-      const state = await getVenuePlaybackState(redis, venueId);
+      const state = await getVenuePlaybackState(redis, venueId, zoneId);
       const currentTokenId = state.currentSong?.tokenId;
 
       // Record play for the skipped song if it played for at least 30s
       if (state.currentSong) {
         const playDuration = Math.floor((Date.now() - state.currentSong.startedAt) / 1000);
         if (playDuration >= 30) {
-          recordVenuePlay(state.currentSong.tokenId, playDuration).catch(err =>
+          recordVenuePlay(venueId, zoneId, state.currentSong, playDuration).catch(err =>
             console.error('[VenueAPI] Background recordPlay error:', err.message)
           );
         }
@@ -187,13 +314,16 @@ export async function POST(
           imageUrl: state.currentSong.imageUrl,
           playedAt: state.currentSong.startedAt,
           duration: playDuration,
-        });
+        }, zoneId);
       }
 
+      const access = await getVenueAccess(redis, venue);
+      if (!access.ok) return holdZone(venueId, zoneId, state, access);
+
       // Try queue first, then random
-      let nextSong = await popNextFromQueue(redis, venueId);
+      let nextSong = await popNextFromQueue(redis, venueId, zoneId);
       if (!nextSong) {
-        const random = await pickRandomClearedSong(redis, currentTokenId);
+        const random = await pickRandomZoneSong(redis, zone, currentTokenId);
         if (random) {
           nextSong = {
             tokenId: random.tokenId,
@@ -217,8 +347,8 @@ export async function POST(
         state.songsPlayedToday++;
       }
 
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcastVenueUpdate(venueId, 'state_update', { type: 'skipped', state });
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcastVenueUpdate(venueId, zoneId, 'state_update', { type: 'skipped', state });
 
       return NextResponse.json({
         success: true,
@@ -249,9 +379,9 @@ export async function POST(
         startedAt: 0, // Will be set when song starts playing
       };
 
-      const queueLength = await addToVenueQueue(redis, venueId, song);
-      const queue = await getVenueQueue(redis, venueId);
-      broadcastVenueUpdate(venueId, 'queue_update', { type: 'song_queued', queue });
+      const queueLength = await addToVenueQueue(redis, venueId, song, zoneId);
+      const queue = await getVenueQueue(redis, venueId, 20, zoneId);
+      broadcastVenueUpdate(venueId, zoneId, 'queue_update', { type: 'song_queued', queue });
 
       return NextResponse.json({
         success: true,
@@ -260,10 +390,54 @@ export async function POST(
       });
     }
 
+    // ---- QUEUE PLAYLIST ----
+    // A venue key has no FID, so only playlists shared by link or public can be queued.
+    // Venue play needs explicit clearance, as the catalog does; other tracks are skipped.
+    if (action === 'queue_playlist') {
+      const playlist = await getPlaylist(redis, String(body.playlistId || ''));
+      if (!playlist || !canView(playlist, null)) {
+        return NextResponse.json(
+          { success: false, error: 'Playlist not found or not shared' },
+          { status: 404 }
+        );
+      }
+
+      const queued: string[] = [];
+      const skipped: string[] = [];
+      for (const track of playlist.tracks.slice(0, MAX_PLAYLIST_QUEUE)) {
+        const rights = await getRightsStatus(redis, track.tokenId);
+        if (rights?.status !== 'cleared') {
+          skipped.push(track.tokenId);
+          continue;
+        }
+        await addToVenueQueue(redis, venueId, {
+          tokenId: track.tokenId,
+          name: track.name,
+          artist: track.artist,
+          artistAddress: '',
+          audioUrl: track.audioUrl,
+          imageUrl: track.imageUrl,
+          duration: 600,
+          startedAt: 0,
+        }, zoneId);
+        queued.push(track.tokenId);
+      }
+
+      const queue = await getVenueQueue(redis, venueId, 20, zoneId);
+      broadcastVenueUpdate(venueId, zoneId, 'queue_update', { type: 'playlist_queued', queue });
+
+      return NextResponse.json({
+        success: true,
+        message: `Queued ${queued.length} of ${playlist.tracks.length} tracks from "${playlist.name}"`,
+        queued,
+        skipped,
+      });
+    }
+
     // ---- SONG ENDED ----
     if (action === 'song_ended') {
       const { tokenId } = body;
-      const state = await getVenuePlaybackState(redis, venueId);
+      const state = await getVenuePlaybackState(redis, venueId, zoneId);
 
       // Verify this is the current song
       if (!state.currentSong || state.currentSong.tokenId !== tokenId) {
@@ -273,7 +447,7 @@ export async function POST(
       const playDuration = Math.floor((Date.now() - state.currentSong.startedAt) / 1000);
 
       // Record play on-chain (non-blocking)
-      recordVenuePlay(state.currentSong.tokenId, playDuration).catch(err =>
+      recordVenuePlay(venueId, zoneId, state.currentSong, playDuration).catch(err =>
         console.error('[VenueAPI] Background recordPlay error:', err.message)
       );
 
@@ -285,12 +459,15 @@ export async function POST(
         imageUrl: state.currentSong.imageUrl,
         playedAt: state.currentSong.startedAt,
         duration: playDuration,
-      });
+      }, zoneId);
+
+      const access = await getVenueAccess(redis, venue);
+      if (!access.ok) return holdZone(venueId, zoneId, state, access);
 
       // Advance to next song
-      let nextSong = await popNextFromQueue(redis, venueId);
+      let nextSong = await popNextFromQueue(redis, venueId, zoneId);
       if (!nextSong && venue.settings.autoplay) {
-        const random = await pickRandomClearedSong(redis, tokenId);
+        const random = await pickRandomZoneSong(redis, zone, tokenId);
         if (random) {
           nextSong = {
             tokenId: random.tokenId,
@@ -315,8 +492,8 @@ export async function POST(
         state.isPlaying = false;
       }
 
-      await setVenuePlaybackState(redis, venueId, state);
-      broadcastVenueUpdate(venueId, 'state_update', {
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcastVenueUpdate(venueId, zoneId, 'state_update', {
         type: nextSong ? 'song_started' : 'playback_ended',
         state,
       });
@@ -339,11 +516,166 @@ export async function POST(
 // HELPERS
 // ============================================================================
 
-function broadcastVenueUpdate(venueId: string, eventType: string, data: Record<string, unknown>) {
-  broadcast(`venue:${venueId}`, eventType, data);
+function broadcastVenueUpdate(
+  venueId: string,
+  zoneId: string,
+  eventType: string,
+  data: Record<string, unknown>
+) {
+  broadcast(venueChannel(venueId, zoneId), eventType, data);
+}
+
+/** What the audit log should say beyond the action's name. */
+function auditDetail(action: string, body: Record<string, any>): string | undefined {
+  if (action === 'queue_song') return `${body.name || `#${body.tokenId}`}`;
+  if (action === 'queue_playlist') return String(body.playlistId || '');
+  if (action === 'create_zone' || action === 'update_zone') return body.name || undefined;
+  if (action === 'set_plan') return String(body.plan);
+  if (action === 'pay_invoice') return `${body.invoiceId} ${body.txHash}`;
+  return undefined;
 }
 
-async function recordVenuePlay(tokenId: string, duration: number) {
+/** End the zone's song without starting another while billing blocks playback. */
+async function holdZone(venueId: string, zoneId: string, state: VenuePlaybackState, access: VenueAccess) {
+  state.currentSong = null;
+  state.isPlaying = false;
+  state.billingHold = access.reason ?? null;
+  await setVenuePlaybackState(redis, venueId, state, zoneId);
+  broadcastVenueUpdate(venueId, zoneId, 'state_update', {
+    type: 'billing_paused',
+    reason: access.reason,
+    message: access.message,
+    state,
+  });
+  return NextResponse.json({ success: true, message: access.message, reason: access.reason, state });
+}
+
+const ZONE_ACTIONS = ['create_zone', 'update_zone', 'delete_zone', 'rotate_zone_key'];
+
+async function handleZoneAction(
+  venueId: string,
+  action: string,
+  zoneId: string,
+  body: Record<string, any>
+) {
+  const fail = (error: string | string[], status = 400) =>
+    NextResponse.json(
+      Array.isArray(error) ? { success: false, error: 'Invalid schedule', errors: error } : { success: false, error },
+      { status }
+    );
+
+  let schedule;
+  if (body.schedule !== undefined) {
+    const parsed = parseZoneSchedule(body.schedule);
+    if (!parsed.ok) return fail(parsed.errors);
+    schedule = parsed.schedule;
+  }
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 60) : '';
+
+  if (action === 'create_zone') {
+    if (!name) return fail('name required');
+    try {
+      const { zone, apiKey } = await createVenueZone(redis, venueId, {
+        zoneId: body.zoneId,
+        name,
+        schedule: schedule || DEFAULT_ZONE_SCHEDULE,
+      });
+      return NextResponse.json({ success: true, zone: publicZone(zone), apiKey });
+    } catch (err: any) {
+      return fail(err.message);
+    }
+  }
+
+  if (action === 'update_zone') {
+    const zone = await updateVenueZone(redis, venueId, zoneId, { name: name || undefined, schedule });
+    if (!zone) return fail('Zone not found', 404);
+    broadcastVenueUpdate(venueId, zoneId, 'state_update', { type: 'zone_updated', zone: publicZone(zone) });
+    return NextResponse.json({ success: true, zone: publicZone(zone) });
+  }
+
+  if (action === 'delete_zone') {
+    if (zoneId === DEFAULT_ZONE_ID) return fail('The main zone cannot be deleted');
+    const removed = await deleteVenueZone(redis, venueId, zoneId);
+    if (!removed) return fail('Zone not found', 404);
+    return NextResponse.json({ success: true, zoneId });
+  }
+
+  // rotate_zone_key
+  if (zoneId === DEFAULT_ZONE_ID) {
+    return fail('The main zone uses the venue key; regenerate that instead');
+  }
+  const apiKey = await regenerateZoneKey(redis, venueId, zoneId);
+  if (!apiKey) return fail('Zone not found', 404);
+  return NextResponse.json({ success: true, zoneId, apiKey });
+}
+
+const BILLING_ACTIONS = ['set_plan', 'pay_invoice'];
+
+async function venueBilling(venue: Venue) {
+  const [usage, access, invoices] = await Promise.all([
+    getUsage(redis, venue.venueId, periodOf(Date.now())),
+    getVenueAccess(redis, venue),
+    listInvoices(redis, venue.venueId),
+  ]);
+  return { plan: planFor(venue.plan).id, plans: VENUE_PLANS, usage, access, invoices };
+}
+
+async function handleBillingAction(venue: Venue, action: string, body: Record<string, any>) {
+  const fail = (error: string, status = 400) => NextResponse.json({ success: false, error }, { status });
+  const { venueId } = venue;
+
+  if (action === 'set_plan') {
+    if (!isPlanId(body.plan)) return fail(`plan must be one of ${Object.keys(VENUE_PLANS).join(', ')}`);
+    if (body.plan === planFor(venue.plan).id) return fail('Already on that plan');
+    const [zones, devices] = await Promise.all([getVenueZones(redis, venueId), listVenueDevices(redis, venueId)]);
+    const blocker = planChangeBlocker(VENUE_PLANS[body.plan], {
+      zones: zones.length,
+      devices: devices.filter(d => d.revokedAt === undefined).length,
+    });
+    if (blocker) return fail(blocker, 409);
+    const updated = await setVenuePlan(redis, venueId, body.plan);
+    return NextResponse.json({ success: true, venue: { venueId, plan: updated?.plan } });
+  }
+
+  // pay_invoice
+  const txHash = String(body.txHash || '');
+  if (!/^0x[0-9a-fA-F]{64}$/.test(txHash)) return fail('txHash must be a transaction hash');
+  const invoice = await getInvoice(redis, String(body.invoiceId || ''));
+  if (!invoice || invoice.venueId !== venueId) return fail('Invoice not found', 404);
+  if (invoice.status === 'paid') return fail('Invoice already paid', 409);
+
+  const client = createPublicClient({
+    chain: activeChain,
+    transport: http(process.env.NEXT_PUBLIC_MONAD_RPC || 'https://rpc.monad.xyz'),
+  });
+  let receipt;
+  try {
+    receipt = await client.getTransactionReceipt({ hash: txHash as `0x${string}` });
+  } catch {
+    return fail('Transaction not found; wait for it to confirm', 404);
+  }
+  if (receipt.status !== 'success') return fail('Transaction reverted');
+
+  // Only the owner's own transfer pays, so a hash lifted from someone else's payment is useless
+  const paid = invoicePaymentIn(receipt.logs, invoice, venue.ownerAddress);
+  if (paid < BigInt(invoice.totalWei)) {
+    return fail(`Transaction moves ${paid} of ${invoice.totalWei} wei from the owner to the treasury`);
+  }
+  const payment = {
+    txHash: txHash as `0x${string}`,
+    from: venue.ownerAddress as `0x${string}`,
+    amountWei: paid.toString(),
+    paidAt: Date.now(),
+  };
+  if (!(await markInvoicePaid(redis, invoice, payment))) {
+    return fail('That transaction already paid an invoice', 409);
+  }
+  console.log(`[VenueAPI] Invoice ${invoice.invoiceId} paid by ${txHash}`);
+  return NextResponse.json({ success: true, invoice: { ...invoice, status: 'paid', payment } });
+}
+
+async function recordVenuePlay(venueId: string, zoneId: string, song: VenueSong, duration: number) {
+  const { tokenId, startedAt } = song;
   if (!PLAY_ORACLE_ADDRESS || !ORACLE_PRIVATE_KEY) {
     console.log('[VenueAPI] Skipping recordPlay: missing PLAY_ORACLE or DEPLOYER_PRIVATE_KEY');
     return;
@@ -367,7 +699,14 @@ async function recordVenuePlay(tokenId: string, duration: number) {
       tokenId,
       Math.min(duration, 600)
     );
-    await tx.wait();
+    const receipt = await tx.wait();
+    await recordSubmission(redis, venueId, [{ zoneId, tokenId, playedAt: startedAt }], {
+      txHash: receipt.hash,
+      contract: 'PlayOracleV3',
+      blockNumber: receipt.blockNumber,
+      sessionId: null,
+      submittedAt: Date.now(),
+    });
     console.log(`[VenueAPI] Recorded venue play for tokenId=${tokenId} tx=${tx.hash.slice(0, 10)}`);
   } catch (err: any) {
     console.error('[VenueAPI] recordVenuePlay error:', err.message?.slice(0, 120));
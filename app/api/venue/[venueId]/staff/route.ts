@@ -0,0 +1,319 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { isAddress } from 'viem';
+import { redis } from '@/lib/redis';
+import { verifyQuickAuth } from '@/lib/quick-auth';
+import { verifyWalletAuth } from '@/lib/wallet-auth';
+import {
+  createVenueApiKey,
+  getVenue,
+  getVenueActor,
+  getVenueZone,
+  regenerateApiKey,
+  type Venue,
+} from '@/lib/venue';
+import {
+  MAX_KEYS,
+  MAX_MEMBERS,
+  OWNER_MEMBER_ID,
+  auditEntry,
+  can,
+  canManageKeysOf,
+  canManageRole,
+  getMember,
+  listApiKeys,
+  listMembers,
+  logAudit,
+  memberActor,
+  memberForIdentity,
+  ownerMember,
+  parseMemberInput,
+  readAudit,
+  revokeApiKeys,
+  saveMember,
+  type VenueActor,
+  type VenueMember,
+} from '@/lib/venue-staff';
+
+/**
+ * Venue members, their API keys and the audit log (lib/venue-staff.ts).
+ *
+ * GET  /api/venue/[venueId]/staff — X-Venue-Key. Your own member record and keys; every member
+ *                                    and key with the staff or keys permission; the audit log
+ *                                    with staff.
+ * POST /api/venue/[venueId]/staff — X-Venue-Key, venue-wide:
+ *   { action: 'add_member', role, name, address?, fid?, permissions? }  → { member }
+ *   { action: 'update_member', memberId, role?, name?, address?, fid?, permissions? }
+ *   { action: 'remove_member', memberId }                               revokes their keys
+ *   { action: 'create_key', name, memberId?, zoneId? }                  → { key, apiKey } shown once
+ *   { action: 'revoke_key', keyId }
+ *   { action: 'rotate_venue_key' }                                      owner only → { apiKey }
+ *
+ *   { action: 'claim_key', address?, name? } — no venue key. Signs a member in by Farcaster Quick
+ *   Auth, or by wallet signature for `address` (context "venue-staff-key"), and issues them a
+ *   key for this browser.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const CLAIM_CONTEXT = 'venue-staff-key';
+
+function fail(error: string, status = 400) {
+  return NextResponse.json({ success: false, error }, { status });
+}
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  try {
+    const { venueId } = await params;
+    const apiKey = req.headers.get('x-venue-key') || new URL(req.url).searchParams.get('key');
+    if (!apiKey) return fail('API key required', 401);
+    const actor = await getVenueActor(redis, venueId, apiKey);
+    if (!actor || actor.zoneId !== null) return fail('Invalid API key', 401);
+
+    const venue = await getVenue(redis, venueId);
+    if (!venue) return fail('Venue not found', 404);
+
+    const seesAll = can(actor, 'staff') || can(actor, 'keys');
+    const [members, keys, audit] = await Promise.all([
+      listMembers(redis, venueId),
+      listApiKeys(redis, venueId),
+      can(actor, 'staff') ? readAudit(redis, venueId) : Promise.resolve(null),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      me: actor,
+      members: seesAll
+        ? [ownerMember(venue), ...members.filter(m => m.removedAt === undefined)]
+        : [],
+      keys: seesAll ? keys : keys.filter(k => k.memberId === actor.memberId),
+      ...(audit ? { audit } : {}),
+    });
+  } catch (error: any) {
+    console.error('[VenueStaff] GET error:', error);
+    return fail(error.message, 500);
+  }
+}
+
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ venueId: string }> }
+) {
+  try {
+    const { venueId } = await params;
+    const body = await req.json();
+    const venue = await getVenue(redis, venueId);
+    if (!venue) return fail('Venue not found', 404);
+
+    if (body.action === 'claim_key') {
+      return handleClaimKey(req, venue, body);
+    }
+
+    const apiKey = req.headers.get('x-venue-key') || new URL(req.url).searchParams.get('key');
+    if (!apiKey) return fail('API key required', 401);
+    const actor = await getVenueActor(redis, venueId, apiKey);
+    if (!actor || actor.zoneId !== null) return fail('Invalid API key', 401);
+
+    switch (body.action) {
+      case 'add_member':
+        return handleAddMember(venue, actor, body);
+      case 'update_member':
+        return handleUpdateMember(venue, actor, body);
+      case 'remove_member':
+        return handleRemoveMember(venue, actor, body);
+      case 'create_key':
+        return handleCreateKey(venue, actor, body);
+      case 'revoke_key':
+        return handleRevokeKey(venue, actor, body);
+      case 'rotate_venue_key': {
+        if (actor.role !== 'owner') return fail('Only the owner can rotate the venue key', 403);
+        const rotated = await regenerateApiKey(redis, venueId);
+        await logAudit(redis, venueId, auditEntry(actor, 'rotate_venue_key'));
+        return NextResponse.json({ success: true, apiKey: rotated });
+      }
+      default:
+        return fail('Unknown action');
+    }
+  } catch (error: any) {
+    console.error('[VenueStaff] POST error:', error);
+    return fail(error.message, 500);
+  }
+}
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+/** The owner and every current member, for identity clashes and sign-in. */
+async function activeMembers(venue: Venue): Promise<VenueMember[]> {
+  const members = await listMembers(redis, venue.venueId);
+  return [ownerMember(venue), ...members.filter(m => m.removedAt === undefined)];
+}
+
+function identityTaken(
+  members: VenueMember[],
+  candidate: Pick<VenueMember, 'address' | 'fid'>,
+  except?: string
+): VenueMember | null {
+  return memberForIdentity(
+    members.filter(m => m.memberId !== except),
+    { addresses: candidate.address ? [candidate.address] : [], fid: candidate.fid }
+  );
+}
+
+async function handleAddMember(venue: Venue, actor: VenueActor, body: Record<string, any>) {
+  const parsed = parseMemberInput(body);
+  if (!parsed.ok) return fail(parsed.error);
+  const input = parsed.input as Required<Pick<VenueMember, 'role' | 'name'>> & Partial<VenueMember>;
+  if (!canManageRole(actor, input.role)) return fail(`You cannot add a ${input.role}`, 403);
+
+  const members = await activeMembers(venue);
+  if (members.length > MAX_MEMBERS) return fail(`A venue can have at most ${MAX_MEMBERS} members`, 409);
+  const clash = identityTaken(members, input);
+  if (clash) return fail(`That wallet or FID already belongs to ${clash.name}`, 409);
+
+  const member: VenueMember = {
+    memberId: randomBytes(8).toString('hex'),
+    role: input.role,
+    name: input.name,
+    ...(input.address ? { address: input.address } : {}),
+    ...(input.fid ? { fid: input.fid } : {}),
+    ...(input.permissions ? { permissions: input.permissions } : {}),
+    addedAt: Date.now(),
+    addedBy: actor.memberId ?? OWNER_MEMBER_ID,
+  };
+  await saveMember(redis, venue.venueId, member);
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'add_member', { detail: `${member.name} (${member.role})` }));
+  return NextResponse.json({ success: true, member });
+}
+
+async function handleUpdateMember(venue: Venue, actor: VenueActor, body: Record<string, any>) {
+  const existing = await getMember(redis, venue.venueId, String(body.memberId || ''));
+  if (!existing || existing.removedAt !== undefined) return fail('Member not found', 404);
+  if (!canManageRole(actor, existing.role)) return fail(`You cannot change a ${existing.role}`, 403);
+
+  const parsed = parseMemberInput(body, true);
+  if (!parsed.ok) return fail(parsed.error);
+  const { input } = parsed;
+  if (input.role && !canManageRole(actor, input.role)) return fail(`You cannot make someone a ${input.role}`, 403);
+
+  const member: VenueMember = { ...existing, ...input };
+  // An empty permission list is a member who can do nothing; drop it to get the role's again
+  if (Array.isArray(body.permissions) && body.permissions.length === 0) delete member.permissions;
+  const clash = identityTaken(await activeMembers(venue), member, member.memberId);
+  if (clash) return fail(`That wallet or FID already belongs to ${clash.name}`, 409);
+
+  await saveMember(redis, venue.venueId, member, existing);
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'update_member', { detail: `${member.name} (${member.role})` }));
+  return NextResponse.json({ success: true, member });
+}
+
+async function handleRemoveMember(venue: Venue, actor: VenueActor, body: Record<string, any>) {
+  const member = await getMember(redis, venue.venueId, String(body.memberId || ''));
+  if (!member || member.removedAt !== undefined) return fail('Member not found', 404);
+  if (!canManageRole(actor, member.role)) return fail(`You cannot remove a ${member.role}`, 403);
+
+  const removed: VenueMember = { ...member, removedAt: Date.now() };
+  await saveMember(redis, venue.venueId, removed, member);
+  const revoked = await revokeApiKeys(redis, venue.venueId, k => k.memberId === member.memberId);
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'remove_member', {
+    detail: `${member.name}, ${revoked.length} key(s) revoked`,
+  }));
+  return NextResponse.json({ success: true, member: removed, revokedKeys: revoked.map(k => k.keyId) });
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+async function memberOrOwner(venue: Venue, memberId: string): Promise<VenueMember | null> {
+  if (memberId === OWNER_MEMBER_ID) return ownerMember(venue);
+  const member = await getMember(redis, venue.venueId, memberId);
+  return member && member.removedAt === undefined ? member : null;
+}
+
+async function handleCreateKey(venue: Venue, actor: VenueActor, body: Record<string, any>) {
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, 60) : '';
+  if (!name) return fail('name required, e.g. the device it is for');
+
+  const member = await memberOrOwner(venue, String(body.memberId || actor.memberId || ''));
+  if (!member) return fail('Member not found', 404);
+  if (!canManageKeysOf(actor, member)) return fail(`You cannot issue keys for ${member.name}`, 403);
+
+  let zoneId: string | null = null;
+  if (body.zoneId) {
+    zoneId = String(body.zoneId);
+    if (!(await getVenueZone(redis, venue.venueId, zoneId))) return fail('Zone not found', 404);
+  }
+
+  const active = (await listApiKeys(redis, venue.venueId)).filter(k => k.revokedAt === undefined);
+  if (active.length >= MAX_KEYS) return fail(`A venue can have at most ${MAX_KEYS} keys; revoke some first`, 409);
+
+  const { key, apiKey } = await createVenueApiKey(redis, venue.venueId, {
+    name,
+    memberId: member.memberId,
+    zoneId,
+    createdBy: actor.memberId ?? OWNER_MEMBER_ID,
+  });
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'create_key', {
+    zoneId: zoneId ?? undefined,
+    detail: `"${name}" for ${member.name}`,
+  }));
+  return NextResponse.json({ success: true, key, apiKey });
+}
+
+async function handleRevokeKey(venue: Venue, actor: VenueActor, body: Record<string, any>) {
+  const keyId = String(body.keyId || '');
+  const key = (await listApiKeys(redis, venue.venueId)).find(k => k.keyId === keyId);
+  if (!key) return fail('Key not found', 404);
+
+  // Anyone may revoke their own key
+  if (key.memberId !== actor.memberId) {
+    const holder = await memberOrOwner(venue, key.memberId);
+    const allowed = holder ? canManageKeysOf(actor, holder) : can(actor, 'keys');
+    if (!allowed) return fail('You cannot revoke that key', 403);
+  }
+
+  const [revoked] = await revokeApiKeys(redis, venue.venueId, k => k.keyId === keyId);
+  if (!revoked) return fail('Key already revoked', 409);
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'revoke_key', { detail: `"${key.name}"` }));
+  return NextResponse.json({ success: true, key: revoked });
+}
+
+/**
+ * Sign a member in by their own identity and give them a key. A Quick
+ * Auth token is checked first; a wallet signature is the fallback for
+ * members without Farcaster. Either must prove the identity outright:
+ * this issues a credential, so the ENFORCE_QUICK_AUTH rollout does not
+ * apply.
+ */
+async function handleClaimKey(req: NextRequest, venue: Venue, body: Record<string, any>) {
+  const members = await activeMembers(venue);
+
+  let member: VenueMember | null = null;
+  const quick = await verifyQuickAuth(req);
+  if (quick.ok) {
+    member = memberForIdentity(members, { addresses: quick.user.addresses, fid: quick.user.fid });
+  }
+  if (!member && typeof body.address === 'string' && isAddress(body.address)) {
+    const wallet = await verifyWalletAuth(req, body.address, CLAIM_CONTEXT);
+    if (wallet.ok) member = memberForIdentity(members, { addresses: [wallet.address] });
+  }
+  if (!member) return fail('Sign in with the wallet or Farcaster account you were added with', 403);
+
+  const name = typeof body.name === 'string' && body.name.trim()
+    ? body.name.trim().slice(0, 60)
+    : 'Dashboard sign-in';
+  const { key, apiKey } = await createVenueApiKey(redis, venue.venueId, {
+    name,
+    memberId: member.memberId,
+    zoneId: null,
+    createdBy: member.memberId,
+  });
+  const actor = memberActor(member, key);
+  await logAudit(redis, venue.venueId, auditEntry(actor, 'claim_key', { detail: `"${name}"` }));
+  return NextResponse.json({ success: true, key, apiKey, me: actor });
+}
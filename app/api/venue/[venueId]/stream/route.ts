@@ -1,13 +1,15 @@
 import { NextRequest } from 'next/server';
 import { redis } from '@/lib/redis';
 import { addClient, removeClient, sendToClient } from '@/lib/sse-broadcaster';
-import { verifyApiKey, getVenuePlaybackState, getVenueQueue, VENUE_KEYS } from '@/lib/venue';
+import { verifyZoneKey, getVenuePlaybackState, getVenueQueue, venueChannel } from '@/lib/venue';
+import { DEFAULT_ZONE_ID } from '@/lib/venue-zones';
 
 /**
- * GET /api/venue/[venueId]/stream?key=X
+ * GET /api/venue/[venueId]/stream?key=X&zone=Y
  *
  * Server-Sent Events endpoint for real-time venue player updates.
- * Auth via API key in query param.
+ * Auth via API key in query param: the venue key, or the zone's own key.
+ * One zone per connection; zone defaults to "main".
  *
  * Events: initial_state, state_update, queue_update
  * Heartbeat every 30s (handled by sse-broadcaster)
@@ -24,6 +26,7 @@ export async function GET(
   // Authenticate via query param
   const url = new URL(req.url);
   const apiKey = url.searchParams.get('key');
+  const zoneId = url.searchParams.get('zone') || DEFAULT_ZONE_ID;
 
   if (!apiKey) {
     return new Response(JSON.stringify({ error: 'API key required (?key=X)' }), {
@@ -32,7 +35,7 @@ export async function GET(
     });
   }
 
-  const valid = await verifyApiKey(redis, venueId, apiKey);
+  const valid = await verifyZoneKey(redis, venueId, zoneId, apiKey);
   if (!valid) {
     return new Response(JSON.stringify({ error: 'Invalid API key' }), {
       status: 401,
@@ -42,14 +45,14 @@ export async function GET(
 
   const stream = new ReadableStream({
     async start(controller) {
-      // Register client on venue-specific channel
-      addClient(controller, [`venue:${venueId}`]);
+      // Register client on the zone's channel
+      addClient(controller, [venueChannel(venueId, zoneId)]);
 
       // Send initial state
       try {
         const [state, queue] = await Promise.all([
-          getVenuePlaybackState(redis, venueId),
-          getVenueQueue(redis, venueId),
+          getVenuePlaybackState(redis, venueId, zoneId),
+          getVenueQueue(redis, venueId, 20, zoneId),
         ]);
 
         sendToClient(controller, 'initial_state', {
@@ -8,11 +8,13 @@ import {
   generateNonce,
   type SignaturePayload,
 } from '@/lib/auth';
-import { registerVenue, getVenueByOwner } from '@/lib/venue';
+import { registerVenue, getVenue, getVenueByOwner } from '@/lib/venue';
+import { listMembers, venuesForMember } from '@/lib/venue-staff';
 
 /**
  * POST /api/venue/register — Register a new venue
- * GET  /api/venue/register?address=X — Check registration status
+ * GET  /api/venue/register?address=X — Check registration status, and the
+ *                                       venues X is a manager or staff at
  * GET  /api/venue/register?action=nonce&address=X — Get nonce for signing
  */
 
@@ -46,6 +48,24 @@ export async function GET(req: NextRequest) {
 
     // Check if address has a venue
     const venue = await getVenueByOwner(redis, address);
+
+    // Venues the address works at (lib/venue-staff.ts); signing in there is a separate step
+    const memberOf = [];
+    for (const venueId of await venuesForMember(redis, address)) {
+      const [other, members] = await Promise.all([getVenue(redis, venueId), listMembers(redis, venueId)]);
+      const member = members.find(m => m.address === address.toLowerCase() && m.removedAt === undefined);
+      if (other && member) {
+        memberOf.push({
+          venueId,
+          name: other.name,
+          isActive: other.isActive,
+          settings: other.settings,
+          createdAt: other.createdAt,
+          role: member.role,
+        });
+      }
+    }
+
     return NextResponse.json({
       success: true,
       hasVenue: !!venue,
@@ -56,6 +76,7 @@ export async function GET(req: NextRequest) {
         settings: venue.settings,
         createdAt: venue.createdAt,
       } : null,
+      memberOf,
     });
   } catch (error: any) {
     console.error('[VenueRegister] GET error:', error);
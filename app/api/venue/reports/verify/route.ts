@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { privateKeyToAccount } from 'viem/accounts';
+import { redis } from '@/lib/redis';
+import { findIssuedReport, reportDigest, verifyIssuedReport } from '@/lib/venue-performance';
+
+/**
+ * Check a venue public-performance report (lib/venue-performance.ts). Public: this is for the
+ * auditor, not the venue.
+ *
+ * GET  /api/venue/reports/verify?hash=0x… — by the report digest, or a PDF's keccak256
+ * POST /api/venue/reports/verify          — the CSV or PDF file itself as the raw body
+ *
+ * A CSV opened and re-saved in a spreadsheet no longer matches; check the file as downloaded.
+ *
+ * Returns { found, report, signatureValid }. `report` is the issued record: venue, period,
+ * play count, signer and signature, so the auditor can confirm the file covers what it says.
+ */
+
+export const dynamic = 'force-dynamic';
+
+const ORACLE_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY;
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+async function lookup(hash: string) {
+  const issued = await findIssuedReport(redis, hash);
+  if (!issued) {
+    return NextResponse.json({ success: true, found: false, hash });
+  }
+  // Against the keeper in force now, so a report signed by a rotated-out key says so
+  const keeper = ORACLE_PRIVATE_KEY
+    ? privateKeyToAccount(ORACLE_PRIVATE_KEY as `0x${string}`).address
+    : issued.signer;
+  const signatureValid = await verifyIssuedReport(issued, keeper);
+  return NextResponse.json({
+    success: true,
+    found: true,
+    hash,
+    matched: hash.toLowerCase() === issued.digest.toLowerCase() ? 'csv' : 'pdf',
+    signatureValid,
+    report: issued,
+  });
+}
+
+export async function GET(req: NextRequest) {
+  try {
+    const hash = new URL(req.url).searchParams.get('hash') || '';
+    if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+      return NextResponse.json({ success: false, error: 'hash must be a 32-byte hex string' }, { status: 400 });
+    }
+    return await lookup(hash);
+  } catch (error: any) {
+    console.error('[VenueReportVerify] Error:', error?.message);
+    return NextResponse.json({ success: false, error: 'Verification failed' }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    const body = new Uint8Array(await req.arrayBuffer());
+    if (body.length === 0) {
+      return NextResponse.json({ success: false, error: 'Send the report file as the request body' }, { status: 400 });
+    }
+    if (body.length > MAX_FILE_BYTES) {
+      return NextResponse.json({ success: false, error: 'File too large' }, { status: 413 });
+    }
+    return await lookup(reportDigest(body));
+  } catch (error: any) {
+    console.error('[VenueReportVerify] Error:', error?.message);
+    return NextResponse.json({ success: false, error: 'Verification failed' }, { status: 500 });
+  }
+}
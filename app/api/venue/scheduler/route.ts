@@ -4,6 +4,7 @@ import { broadcast } from '@/lib/sse-broadcaster';
 import {
   getActiveVenueIds,
   getVenue,
+  getVenueZones,
   getVenuePlaybackState,
   setVenuePlaybackState,
   popNextFromQueue,
@@ -19,20 +20,38 @@ import {
   getMiningStats,
   getComboMultiplier,
   updateMiningStats,
+  venueChannel,
+  getVenueAccess,
+  issueDueInvoice,
   VENUE_KEYS,
+  type Venue,
   type VenuePlaybackState,
   type VenueSession,
   type CatalogSong,
 } from '@/lib/venue';
+import { loadTrackTags, type TrackTags } from '@/lib/radio-programming';
+import {
+  DEFAULT_ZONE_ID,
+  activeZoneDaypart,
+  zonePlaylist,
+  zoneSeed,
+  zoneVolume,
+  type VenueZone,
+} from '@/lib/venue-zones';
+import { recordSubmission } from '@/lib/venue-performance';
+import type { VenueAccess } from '@/lib/venue-billing';
 
 /**
  * POST /api/venue/scheduler — Cron-triggered venue playback scheduler
  *
- * Runs every 30s. For each active venue:
- * 1. Check if current song has ended
- * 2. If ended: buffer play, pick next via commit-reveal seed
- * 3. Every 30 min: flush buffer and submit batch plays on-chain
- * 4. Update state and broadcast via SSE
+ * Runs every 30s. For each zone of each active venue:
+ * 1. Apply the zone's daypart (volume, genre/energy slice of the catalogue)
+ * 2. Check if current song has ended
+ * 3. If ended: buffer play, pick next via the zone's commit-reveal seed
+ * 4. Update state and broadcast via SSE on the zone's channel
+ * A venue its plan no longer covers finishes the song playing and then
+ * holds (billingHold) until access returns, when it resumes by itself.
+ * Every 30 min the buffered plays of all zones go on-chain as one batch.
  *
  * Uses per-venue distributed locks to prevent concurrent scheduling.
  */
@@ -102,8 +121,18 @@ async function processVenue(venueId: string, now: number): Promise<string> {
     const venue = await getVenue(redis, venueId);
     if (!venue || !venue.isActive) return 'inactive';
 
-    const state = await getVenuePlaybackState(redis, venueId);
-    if (!state.isPlaying) return 'paused';
+    await issueDueInvoice(redis, venue, now).catch(err =>
+      console.error(`[VenueScheduler] invoice error for ${venueId}:`, err.message)
+    );
+
+    const zones = await getVenueZones(redis, venueId);
+    const states = await Promise.all(
+      zones.map(z => getVenuePlaybackState(redis, venueId, z.zoneId))
+    );
+    if (!states.some(s => s.isPlaying || s.billingHold)) return 'paused';
+
+    const access = await getVenueAccess(redis, venue, now);
+    if (!access.ok && !states.some(s => s.isPlaying)) return `billing hold: ${access.reason}`;
 
     // Ensure active session exists (commit-reveal)
     let session = await getVenueSession(redis, venueId);
@@ -111,106 +140,187 @@ async function processVenue(venueId: string, now: number): Promise<string> {
       session = await startNewSession(venueId);
     }
 
-    // Check if current song has ended
-    if (state.currentSong) {
-      const songEndTime = state.currentSong.startedAt + (state.currentSong.duration * 1000);
-      if (now < songEndTime) {
-        const remaining = Math.ceil((songEndTime - now) / 1000);
-        return `playing (${remaining}s remaining)`;
+    // Catalogue and tags are shared by every zone; fetched only if a zone needs a song
+    let pool: { catalog: CatalogSong[]; tags: Record<string, TrackTags> } | null = null;
+    const loadPool = async () => {
+      if (!pool) {
+        const [catalog, tags] = await Promise.all([fetchClearedCatalog(redis), loadTrackTags(redis)]);
+        pool = { catalog, tags };
       }
-
-      // Song ended — buffer play and record mining block
-      console.log(`[VenueScheduler] Song ended for ${venueId}: ${state.currentSong.name}`);
-
-      const playDuration = Math.floor((now - state.currentSong.startedAt) / 1000);
-
-      // Buffer play for batch submission
-      await bufferPlay(redis, venueId, state.currentSong.tokenId, playDuration);
-
-      // Record mining block
-      recordMinedBlock(redis, venueId).catch(err =>
-        console.error(`[VenueScheduler] mining error for ${venueId}:`, err.message)
-      );
-
-      // Add to history
-      await addToVenueHistory(redis, venueId, {
-        tokenId: state.currentSong.tokenId,
-        name: state.currentSong.name,
-        artist: state.currentSong.artist,
-        imageUrl: state.currentSong.imageUrl,
-        playedAt: state.currentSong.startedAt,
-        duration: playDuration,
-      });
-
-      state.currentSong = null;
+      return pool;
+    };
+
+    const results: string[] = [];
+    for (let i = 0; i < zones.length; i++) {
+      const held = !states[i].isPlaying && !!states[i].billingHold;
+      const result = states[i].isPlaying || (held && access.ok)
+        ? await processZone(venue, zones[i], states[i], session, now, access, loadPool)
+        : held ? `billing hold: ${states[i].billingHold}` : 'paused';
+      results.push(zones.length === 1 ? result : `${zones[i].zoneId}: ${result}`);
     }
 
-    // Check if batch submission is due (every 30 min)
+    // Check if batch submission is due (every 30 min) — one batch for all zones
     const lastBatchStr = await redis.get<string>(VENUE_KEYS.lastBatchSubmit(venueId));
     const lastBatch = lastBatchStr ? Number(lastBatchStr) : 0;
     if (now - lastBatch >= BATCH_INTERVAL_MS) {
-      submitBatchPlaysOnChain(venueId, session, venue.ownerAddress).catch(err =>
+      submitBatchPlaysOnChain(
+        venueId,
+        session,
+        venue.ownerAddress,
+        zones.map(z => z.zoneId)
+      ).catch(err =>
         console.error(`[VenueScheduler] batch submit error for ${venueId}:`, err.message)
       );
     }
 
-    // No current song — advance to next
-    if (!state.currentSong && venue.settings.autoplay) {
-      let nextSong = await popNextFromQueue(redis, venueId);
-
-      if (!nextSong) {
-        // Use commit-reveal seed for deterministic song selection
-        const catalog = await fetchClearedCatalog(redis);
-        if (catalog.length > 0 && session) {
-          const tokenIds = catalog.map(s => s.tokenId);
-          const playIndex = state.totalSongsPlayed; // Use total plays as index
-          const orderedIds = derivePlayOrder(session.seed, tokenIds, playIndex + 1);
-          const selectedId = orderedIds[playIndex];
-          const song = catalog.find(s => s.tokenId === selectedId) || catalog[0];
-
-          nextSong = {
-            tokenId: song.tokenId,
-            name: song.name,
-            artist: song.artist,
-            artistAddress: song.artist,
-            audioUrl: song.audioUrl,
-            imageUrl: song.imageUrl,
-            duration: song.duration || 600,
-            startedAt: now,
-          };
-        }
+    return results.join('; ');
+  } finally {
+    await redis.del(lockKey);
+  }
+}
+
+/**
+ * Advance one zone: close out a finished song, apply the zone's daypart,
+ * and pick the next song from the queue or the zone's slice of the
+ * catalogue using the zone's seed. Without billing access the zone holds
+ * instead of picking; with it back, a held zone picks up again.
+ */
+async function processZone(
+  venue: Venue,
+  zone: VenueZone,
+  state: VenuePlaybackState,
+  session: VenueSession,
+  now: number,
+  access: VenueAccess,
+  loadPool: () => Promise<{ catalog: CatalogSong[]; tags: Record<string, TrackTags> }>
+): Promise<string> {
+  const { venueId } = venue;
+  const { zoneId } = zone;
+  const channel = venueChannel(venueId, zoneId);
+
+  const daypart = activeZoneDaypart(zone.schedule, now);
+  const volume = zoneVolume(zone.schedule, daypart);
+  const daypartChanged =
+    (state.daypart ?? null) !== (daypart?.name ?? null) || state.volume !== volume;
+  state.zoneId = zoneId;
+  state.daypart = daypart?.name ?? null;
+  state.volume = volume;
+
+  // Check if current song has ended
+  if (state.currentSong) {
+    const songEndTime = state.currentSong.startedAt + (state.currentSong.duration * 1000);
+    if (now < songEndTime) {
+      if (daypartChanged) {
+        // Volume follows the daypart straight away; the music changes at the next song
+        await setVenuePlaybackState(redis, venueId, state, zoneId);
+        broadcast(channel, 'state_update', { type: 'daypart_changed', state });
       }
+      const remaining = Math.ceil((songEndTime - now) / 1000);
+      return `playing (${remaining}s remaining)`;
+    }
+
+    // Song ended — buffer play and record mining block
+    console.log(`[VenueScheduler] Song ended for ${venueId}/${zoneId}: ${state.currentSong.name}`);
+
+    const playDuration = Math.floor((now - state.currentSong.startedAt) / 1000);
+
+    // Buffer play for batch submission
+    await bufferPlay(redis, venueId, state.currentSong.tokenId, playDuration, zoneId, state.currentSong.startedAt);
 
-      if (nextSong) {
-        nextSong.startedAt = now;
-        state.currentSong = nextSong;
-        state.totalSongsPlayed++;
-        state.songsPlayedToday++;
-
-        await setVenuePlaybackState(redis, venueId, state);
-        broadcast(`venue:${venueId}`, 'state_update', {
-          type: 'song_started',
-          state,
-        });
-
-        return `advanced to: ${nextSong.name}`;
-      } else {
-        // No songs available
-        state.isPlaying = false;
-        await setVenuePlaybackState(redis, venueId, state);
-        broadcast(`venue:${venueId}`, 'state_update', {
-          type: 'no_songs_available',
-          state,
-        });
-        return 'no songs available';
+    // Record mining block
+    recordMinedBlock(redis, venueId).catch(err =>
+      console.error(`[VenueScheduler] mining error for ${venueId}:`, err.message)
+    );
+
+    // Add to history
+    await addToVenueHistory(redis, venueId, {
+      tokenId: state.currentSong.tokenId,
+      name: state.currentSong.name,
+      artist: state.currentSong.artist,
+      imageUrl: state.currentSong.imageUrl,
+      playedAt: state.currentSong.startedAt,
+      duration: playDuration,
+    }, zoneId);
+
+    state.currentSong = null;
+  }
+
+  if (!access.ok) {
+    state.isPlaying = false;
+    state.billingHold = access.reason ?? null;
+    await setVenuePlaybackState(redis, venueId, state, zoneId);
+    broadcast(channel, 'state_update', {
+      type: 'billing_paused',
+      reason: access.reason,
+      message: access.message,
+      state,
+    });
+    return `billing hold: ${access.reason}`;
+  }
+  if (state.billingHold) {
+    console.log(`[VenueScheduler] ${venueId}/${zoneId}: billing hold lifted`);
+    state.billingHold = null;
+    state.isPlaying = true;
+  }
+
+  // No current song — advance to next
+  if (!state.currentSong && venue.settings.autoplay) {
+    let nextSong = await popNextFromQueue(redis, venueId, zoneId);
+
+    if (!nextSong) {
+      // Use commit-reveal seed for deterministic song selection
+      const { catalog, tags } = await loadPool();
+      const { tracks, relaxed } = zonePlaylist(catalog, daypart, tags);
+      if (relaxed.length > 0) {
+        console.log(`[VenueScheduler] ${venueId}/${zoneId}: daypart "${daypart?.name}" relaxed ${relaxed.join(', ')}`);
+      }
+      if (tracks.length > 0) {
+        const tokenIds = tracks.map(s => s.tokenId);
+        const playIndex = state.totalSongsPlayed; // Use total plays as index
+        const orderedIds = derivePlayOrder(zoneSeed(session.seed, zoneId), tokenIds, playIndex + 1);
+        const selectedId = orderedIds[playIndex];
+        const song = tracks.find(s => s.tokenId === selectedId) || tracks[0];
+
+        nextSong = {
+          tokenId: song.tokenId,
+          name: song.name,
+          artist: song.artist,
+          artistAddress: song.artist,
+          audioUrl: song.audioUrl,
+          imageUrl: song.imageUrl,
+          duration: song.duration || 600,
+          startedAt: now,
+        };
       }
     }
 
-    await setVenuePlaybackState(redis, venueId, state);
-    return 'idle';
-  } finally {
-    await redis.del(lockKey);
+    if (nextSong) {
+      nextSong.startedAt = now;
+      state.currentSong = nextSong;
+      state.totalSongsPlayed++;
+      state.songsPlayedToday++;
+
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcast(channel, 'state_update', {
+        type: 'song_started',
+        state,
+      });
+
+      return `advanced to: ${nextSong.name}`;
+    } else {
+      // No songs available
+      state.isPlaying = false;
+      await setVenuePlaybackState(redis, venueId, state, zoneId);
+      broadcast(channel, 'state_update', {
+        type: 'no_songs_available',
+        state,
+      });
+      return 'no songs available';
+    }
   }
+
+  await setVenuePlaybackState(redis, venueId, state, zoneId);
+  return 'idle';
 }
 
 /**
@@ -277,16 +387,23 @@ async function commitSeedOnChain(venueId: string, sessionId: number, seedHash: s
 async function submitBatchPlaysOnChain(
   venueId: string,
   session: VenueSession,
-  ownerAddress: string
+  ownerAddress: string,
+  zoneIds: string[]
 ) {
-  const plays = await flushPlayBatch(redis, venueId);
+  const plays = (
+    await Promise.all(
+      zoneIds.map(async zoneId =>
+        (await flushPlayBatch(redis, venueId, zoneId)).map(p => ({ ...p, zoneId: p.zoneId ?? zoneId }))
+      )
+    )
+  ).flat();
   if (plays.length === 0) return;
 
   await redis.set(VENUE_KEYS.lastBatchSubmit(venueId), Date.now().toString());
 
   if (!VENUE_REGISTRY_ADDRESS || !ORACLE_PRIVATE_KEY) {
     // Fallback: record plays directly via PlayOracle if VenueRegistry not deployed yet
-    await recordPlaysViaOracle(plays, ownerAddress);
+    await recordPlaysViaOracle(venueId, plays, ownerAddress);
     return;
   }
 
@@ -306,7 +423,7 @@ async function submitBatchPlaysOnChain(
     const onChainVenueId = await registry.getVenueIdByOwner(ownerAddress);
     if (onChainVenueId === 0n) {
       console.log(`[VenueScheduler] No on-chain venue for ${ownerAddress}, using fallback`);
-      await recordPlaysViaOracle(plays, ownerAddress);
+      await recordPlaysViaOracle(venueId, plays, ownerAddress);
       return;
     }
 
@@ -335,6 +452,13 @@ async function submitBatchPlaysOnChain(
         durations
       );
       const receipt = await tx.wait();
+      await recordSubmission(redis, venueId, batch, {
+        txHash: receipt.hash,
+        contract: 'VenueRegistry',
+        blockNumber: receipt.blockNumber,
+        sessionId: session.sessionId,
+        submittedAt: Date.now(),
+      });
 
       // Parse VenueToursEarned event to update off-chain mining stats
       const toursEarnedTopic = '0x'; // Will match by event name instead
@@ -355,7 +479,7 @@ async function submitBatchPlaysOnChain(
   } catch (err: any) {
     console.error('[VenueScheduler] submitBatchPlays error:', err.message?.slice(0, 120));
     // On failure, try fallback
-    await recordPlaysViaOracle(plays, ownerAddress);
+    await recordPlaysViaOracle(venueId, plays, ownerAddress);
   }
 }
 
@@ -363,7 +487,8 @@ async function submitBatchPlaysOnChain(
  * Fallback: record plays directly via PlayOracleV3 (pre-VenueRegistry deployment).
  */
 async function recordPlaysViaOracle(
-  plays: { tokenId: string; duration: number }[],
+  venueId: string,
+  plays: { tokenId: string; duration: number; playedAt: number; zoneId: string }[],
   ownerAddress: string
 ) {
   if (!PLAY_ORACLE_ADDRESS || !ORACLE_PRIVATE_KEY) return;
@@ -387,7 +512,14 @@ async function recordPlaysViaOracle(
       const durations = batch.map(p => BigInt(Math.min(p.duration, 600)));
 
       const tx = await oracle.batchRecordPlays(users, tokenIds, durations);
-      await tx.wait();
+      const receipt = await tx.wait();
+      await recordSubmission(redis, venueId, batch, {
+        txHash: receipt.hash,
+        contract: 'PlayOracleV3',
+        blockNumber: receipt.blockNumber,
+        sessionId: null,
+        submittedAt: Date.now(),
+      });
       console.log(`[VenueScheduler] Oracle fallback batch: ${batch.length} plays`);
     }
   } catch (err: any) {
@@ -402,17 +534,30 @@ export async function GET() {
     const statuses: Record<string, any> = {};
 
     for (const venueId of venueIds) {
-      const state = await getVenuePlaybackState(redis, venueId);
       const venue = await getVenue(redis, venueId);
       const session = await getVenueSession(redis, venueId);
+      const zones: Record<string, any> = {};
+      for (const zone of await getVenueZones(redis, venueId)) {
+        const state = await getVenuePlaybackState(redis, venueId, zone.zoneId);
+        zones[zone.zoneId] = {
+          isPlaying: state.isPlaying,
+          currentSong: state.currentSong?.name || null,
+          totalSongsPlayed: state.totalSongsPlayed,
+          songsPlayedToday: state.songsPlayedToday,
+          daypart: state.daypart ?? null,
+          volume: state.volume ?? zone.schedule.defaultVolume,
+        };
+      }
+      const main = zones[DEFAULT_ZONE_ID];
       statuses[venueId] = {
         name: venue?.name,
-        isPlaying: state.isPlaying,
-        currentSong: state.currentSong?.name || null,
-        totalSongsPlayed: state.totalSongsPlayed,
-        songsPlayedToday: state.songsPlayedToday,
+        isPlaying: main.isPlaying,
+        currentSong: main.currentSong,
+        totalSongsPlayed: main.totalSongsPlayed,
+        songsPlayedToday: main.songsPlayedToday,
         hasActiveSession: !!session,
         sessionId: session?.sessionId,
+        zones,
       };
     }
 
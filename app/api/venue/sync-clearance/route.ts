@@ -1,12 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { redis } from '@/lib/redis';
 import { fetchClearedCatalog } from '@/lib/venue';
+import { getRightsHolds } from '@/lib/rights-declaration';
 
 /**
  * POST /api/venue/sync-clearance — Sync rights clearance to VenueRegistry on-chain
  *
  * Scans Redis rights status for all music NFTs, compares with on-chain
  * clearance state, and batches batchSetClearance() calls.
+ *
+ * Masters on a dispute hold (disputed or revoked) are cleared back to false
+ * on-chain first, so a venue player reading the registry stops playing them
+ * on the next sync rather than whenever someone notices.
  */
 
 const KEEPER_SECRET = process.env.KEEPER_SECRET || '';
@@ -30,8 +35,9 @@ export async function POST(req: NextRequest) {
     // Get cleared catalog from Redis (rights-checked)
     const cleared = await fetchClearedCatalog(redis);
     const clearedTokenIds = cleared.map(s => BigInt(s.tokenId));
+    const heldTokenIds = Object.keys(await getRightsHolds(redis)).map(id => BigInt(id));
 
-    if (clearedTokenIds.length === 0) {
+    if (clearedTokenIds.length === 0 && heldTokenIds.length === 0) {
       return NextResponse.json({ success: true, message: 'No cleared songs to sync', synced: 0 });
     }
 
@@ -46,6 +52,22 @@ export async function POST(req: NextRequest) {
     ];
     const registry = new Contract(VENUE_REGISTRY_ADDRESS, registryAbi, wallet);
 
+    // Withdraw clearance from held masters before adding any
+    const toUnset: bigint[] = [];
+    for (const tokenId of heldTokenIds) {
+      if (await registry.clearedForVenue(tokenId)) {
+        toUnset.push(tokenId);
+      }
+    }
+    let withdrawn = 0;
+    for (let i = 0; i < toUnset.length; i += 50) {
+      const batch = toUnset.slice(i, i + 50);
+      const tx = await registry.batchSetClearance(batch, false);
+      await tx.wait();
+      withdrawn += batch.length;
+      console.log(`[SyncClearance] Batch set ${batch.length} held tokenIds to not cleared`);
+    }
+
     // Check which tokenIds need to be set to cleared
     const toSet: bigint[] = [];
     for (const tokenId of clearedTokenIds) {
@@ -56,7 +78,7 @@ export async function POST(req: NextRequest) {
     }
 
     if (toSet.length === 0) {
-      return NextResponse.json({ success: true, message: 'All songs already synced', synced: 0 });
+      return NextResponse.json({ success: true, message: 'All songs already synced', synced: 0, withdrawn });
     }
 
     // Batch set clearance (50 at a time to match contract limit)
@@ -75,6 +97,7 @@ export async function POST(req: NextRequest) {
       success: true,
       message: `Synced ${synced} token clearances`,
       synced,
+      withdrawn,
       totalCleared: clearedTokenIds.length,
     });
   } catch (error: any) {
@@ -76,6 +76,7 @@ export default function ArtistProfilePage() {
   const [audioErrors, setAudioErrors] = useState<Record<number, string>>({});
   const [audioLoading, setAudioLoading] = useState<Record<number, boolean>>({});
   const [collectorInfo, setCollectorInfo] = useState<Record<string, { isCollectorMaster: boolean; collectorImageUrl: string | null; maxEditions: number; collectorsMinted: number }>>({});
+  const [splitSheets, setSplitSheets] = useState<Record<string, { version: number; payees: { address: string; role: string; name?: string; bps: number }[] } | null>>({});
 
   // IPFS URL Resolver Function
   const resolveIPFS = (url: string): string => {
@@ -134,6 +135,19 @@ export default function ArtistProfilePage() {
     fetchCollectorData();
   }, [artistMusic]);
 
+  // Fetch active split sheets (co-owner royalty shares) for the catalog
+  useEffect(() => {
+    const tokenIds = artistMusic.filter(m => !m.isArt).map(m => String(m.tokenId));
+    if (tokenIds.length === 0) return;
+
+    fetch(`/api/rights/splits?tokenIds=${tokenIds.join(',')}`)
+      .then(res => (res.ok ? res.json() : null))
+      .then(data => { if (data?.sheets) setSplitSheets(data.sheets); })
+      .catch(() => {
+        // Silently fail
+      });
+  }, [artistMusic]);
+
   // Autoplay effect - triggers when music loads and autoplay is requested
   useEffect(() => {
     if (shouldAutoplay && autoplayTokenId && artistMusic.length > 0 && !hasAutoPlayed) {
@@ -540,6 +554,17 @@ export default function ArtistProfilePage() {
                       <p className="text-sm text-gray-600">
                         Minted {new Date(music.mintedAt).toLocaleDateString()}
                       </p>
+                      {splitSheets[String(music.tokenId)] && (
+                        <a
+                          href={`/nft/${music.tokenId}`}
+                          className="block text-xs text-purple-600 mt-1 hover:underline"
+                          title={`Split sheet v${splitSheets[String(music.tokenId)]!.version}`}
+                        >
+                          🤝 Split: {splitSheets[String(music.tokenId)]!.payees
+                            .map(p => `${p.name || p.role.replace('-', ' ')} ${p.bps / 100}%`)
+                            .join(' · ')}
+                        </a>
+                      )}
                     </div>
                     {music.metadata?.animation_url ? (
                       <div className="bg-gray-50 rounded-lg p-2 border border-gray-200">
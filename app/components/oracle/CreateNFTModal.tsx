@@ -512,6 +512,18 @@ export function CreateNFTModal({
       }
 
       const uploadData = await uploadRes.json();
+
+      // The upload route refuses a recording that is already minted; one that only sounds
+      // close is let through and flagged for review. Ask before anything is signed.
+      if (
+        uploadData.fingerprint?.verdict === "flag" &&
+        !window.confirm(
+          `${uploadData.fingerprint.reason}. It will be reviewed, and a track found to be someone else's is removed. Mint anyway?`,
+        )
+      ) {
+        throw new Error("Mint cancelled");
+      }
+
       const tokenURI =
         uploadData.tokenURI || `ipfs://${uploadData.metadataCid}`;
       const coverUrl = uploadData.coverUrl || `ipfs://${uploadData.coverCid}`;
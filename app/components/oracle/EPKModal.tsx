@@ -2,9 +2,16 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { createPortal } from 'react-dom';
-import { X, ChevronLeft, ChevronRight, Loader2, CheckCircle, Music, FileText, Hotel, CalendarCheck, RefreshCw, Sparkles } from 'lucide-react';
+import Link from 'next/link';
+import { useSignMessage } from 'wagmi';
+import { X, ChevronLeft, ChevronRight, Loader2, CheckCircle, Music, FileText, Hotel, CalendarCheck, RefreshCw, Sparkles, Save, History, Upload, Link2 } from 'lucide-react';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
 import { EVENT_TYPES } from '@/lib/epk/constants';
-import type { EPKMetadata } from '@/lib/epk/types';
+import { DEFAULT_BALANCE_DUE_DAYS, DEFAULT_DEPOSIT_PERCENT, DEFAULT_REFUND_POLICY, REFUND_POLICY_PRESETS } from '@/lib/epk/booking';
+import { RIDER_TEMPLATES, riderTemplate, type RiderTemplateId } from '@/lib/epk/defaults';
+import { mergeImport, videoPlatform, type EPKImport } from '@/lib/epk/import';
+import { validateEPK } from '@/lib/epk/utils';
+import type { EPKMetadata, RefundTier, RiderSection } from '@/lib/epk/types';
 
 interface EPKModalProps {
   isOpen: boolean;
@@ -31,6 +38,14 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
   const [published, setPublished] = useState(false);
   const [publishResult, setPublishResult] = useState<any>(null);
   const [error, setError] = useState('');
+  const [conflict, setConflict] = useState(false);
+  const { signMessageAsync } = useSignMessage();
+
+  // Saved draft state - the CID an edit started from guards against publishing over someone else's
+  const [savingDraft, setSavingDraft] = useState(false);
+  const [savedDraft, setSavedDraft] = useState<{ savedAt: number } | null>(null);
+  const [draftNotice, setDraftNotice] = useState('');
+  const baseCid = useRef<string | null | undefined>(isEdit ? existingEpk?.onChain?.ipfsCid ?? null : undefined);
 
   // AI generation state
   const [generating, setGenerating] = useState(false);
@@ -38,6 +53,14 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
   const [generated, setGenerated] = useState(false);
   const generationTriggered = useRef(false);
 
+  // Import state - `carried` keeps what the form has no fields for (extra videos, photos, socials,
+  // the other rider sections) so an import, a template or an edit does not drop it on publish
+  const [carried, setCarried] = useState<Partial<EPKMetadata>>(existingEpk || {});
+  const [showImport, setShowImport] = useState(false);
+  const [importing, setImporting] = useState<'file' | 'links' | 'farcaster' | null>(null);
+  const [linkList, setLinkList] = useState('');
+  const [importSummary, setImportSummary] = useState<{ found: string[]; warnings: string[]; missing: string[] } | null>(null);
+
   // Form state - pre-fill from existing EPK if editing
   const [artistName, setArtistName] = useState(existingEpk?.artist?.name || '');
   const [bio, setBio] = useState(existingEpk?.artist?.bio || '');
@@ -52,6 +75,9 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
   const [availableFor, setAvailableFor] = useState(existingEpk?.booking?.availableFor?.join(', ') || '');
   const [territories, setTerritories] = useState(existingEpk?.booking?.territories?.join(', ') || '');
   const [minimumDeposit, setMinimumDeposit] = useState(existingEpk?.booking?.minimumDeposit || '100');
+  const [depositPercent, setDepositPercent] = useState(String(existingEpk?.booking?.depositPercent ?? DEFAULT_DEPOSIT_PERCENT));
+  const [balanceDueDays, setBalanceDueDays] = useState(String(existingEpk?.booking?.balanceDueDays ?? DEFAULT_BALANCE_DUE_DAYS));
+  const [refundPolicy, setRefundPolicy] = useState<RefundTier[]>(existingEpk?.booking?.refundPolicy || DEFAULT_REFUND_POLICY);
 
   // Simple rider state - newline-separated items
   const [stageItems, setStageItems] = useState(existingEpk?.technicalRider?.stage?.items?.join('\n') || '');
@@ -63,6 +89,7 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
 
   // Pre-fill form fields from AI-generated draft
   const prefillFromDraft = (draft: EPKMetadata) => {
+    setCarried(draft);
     setArtistName(draft.artist?.name || '');
     setBio(draft.artist?.bio || '');
     setGenre(draft.artist?.genre?.join(', ') || '');
@@ -81,6 +108,9 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
     setAvailableFor(draft.booking?.availableFor?.join(', ') || '');
     setTerritories(draft.booking?.territories?.join(', ') || '');
     setMinimumDeposit(draft.booking?.minimumDeposit || '100');
+    setDepositPercent(String(draft.booking?.depositPercent ?? DEFAULT_DEPOSIT_PERCENT));
+    setBalanceDueDays(String(draft.booking?.balanceDueDays ?? DEFAULT_BALANCE_DUE_DAYS));
+    setRefundPolicy(draft.booking?.refundPolicy || DEFAULT_REFUND_POLICY);
 
     setStageItems(draft.technicalRider?.stage?.items?.join('\n') || '');
     setSoundItems(draft.technicalRider?.sound?.items?.join('\n') || '');
@@ -127,6 +157,14 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
     }
   }, [isOpen, isEdit, userAddress]);
 
+  useEffect(() => {
+    if (!isOpen || !userAddress) return;
+    fetch(`/api/epk/draft?artist=${userAddress}`)
+      .then(res => res.json())
+      .then(data => setSavedDraft(data.draft ? { savedAt: data.draft.savedAt } : null))
+      .catch(() => setSavedDraft(null));
+  }, [isOpen, userAddress]);
+
   if (!isOpen) return null;
 
   const stepIndex = STEPS.findIndex(s => s.key === step);
@@ -141,7 +179,71 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
     if (prevIndex >= 0) setStep(STEPS[prevIndex].key);
   };
 
-  const handlePublish = async () => {
+  const buildMetadata = () => {
+    const parseItems = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
+    const keep = (section: RiderSection | undefined, title: string) => section || { title, items: [] };
+    const tech = carried.technicalRider;
+    const hosp = carried.hospitalityRider;
+
+    const metadata = {
+      version: '1.0.0',
+      artist: {
+        name: artistName,
+        slug: '',
+        bio,
+        genre: genre.split(',').map(g => g.trim()).filter(Boolean),
+        location,
+        profileImage: carried.artist?.profileImage,
+        farcasterFid: userFid ?? carried.artist?.farcasterFid,
+        walletAddress: userAddress,
+      },
+      musicCatalog: { showCatalog: true },
+      media: {
+        // The form edits the first video; the rest come through untouched
+        videos: [
+          ...(videoUrl ? [{ title: videoTitle || 'Video', url: videoUrl, platform: videoPlatform(videoUrl) || 'other' as const }] : []),
+          ...(carried.media?.videos?.slice(1) || []),
+        ],
+        photos: carried.media?.photos || [],
+      },
+      press: pressArticles.filter(a => a.outlet && a.title),
+      booking: {
+        pricing,
+        inquiryEnabled: true,
+        availableFor: availableFor.split(',').map(s => s.trim()).filter(Boolean),
+        territories: territories.split(',').map(s => s.trim()).filter(Boolean),
+        targetEvents: [],
+        minimumDeposit,
+        depositPercent: Number(depositPercent) || DEFAULT_DEPOSIT_PERCENT,
+        balanceDueDays: Number(balanceDueDays) || 0,
+        refundPolicy,
+      },
+      technicalRider: {
+        stage: { title: 'Stage Requirements', items: parseItems(stageItems) },
+        sound: { title: 'Sound System', items: parseItems(soundItems) },
+        lighting: { title: 'Lighting', items: parseItems(lightingItems) },
+        video: keep(tech?.video, 'Video / LED'),
+        backline: keep(tech?.backline, 'Backline'),
+        soundcheck: keep(tech?.soundcheck, 'Soundcheck'),
+        crew: keep(tech?.crew, 'Crew'),
+      },
+      hospitalityRider: {
+        dressingRoom: { title: 'Dressing Room', items: parseItems(dressingRoomItems) },
+        catering: { title: 'Catering', items: parseItems(cateringItems) },
+        beverages: { title: 'Beverages', items: parseItems(beverageItems) },
+        transport: keep(hosp?.transport, 'Transportation'),
+        hotel: keep(hosp?.hotel, 'Hotel'),
+        security: keep(hosp?.security, 'Security'),
+        guestList: keep(hosp?.guestList, 'Guest List'),
+        payment: hosp?.payment?.items?.length ? hosp.payment : { title: 'Payment', items: ['WMON deposit required', 'Crypto payments accepted'] },
+      },
+      socials: carried.socials || {},
+      onChain: {},
+    };
+    return metadata;
+  };
+
+  const handlePublish = async (force = false) => {
     if (!artistName || !bio) {
       setError('Artist name and bio are required');
       return;
@@ -151,67 +253,24 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
     setError('');
 
     try {
-      const parseItems = (text: string) => text.split('\n').map(s => s.trim()).filter(Boolean);
-
-      const metadata = {
-        version: '1.0.0',
-        artist: {
-          name: artistName,
-          slug: '',
-          bio,
-          genre: genre.split(',').map(g => g.trim()).filter(Boolean),
-          location,
-          farcasterFid: userFid,
-          walletAddress: userAddress,
-        },
-        musicCatalog: { showCatalog: true },
-        media: {
-          videos: videoUrl ? [{ title: videoTitle || 'Video', url: videoUrl, platform: 'other' as const }] : [],
-          photos: [],
-        },
-        press: pressArticles.filter(a => a.outlet && a.title),
-        booking: {
-          pricing,
-          inquiryEnabled: true,
-          availableFor: availableFor.split(',').map(s => s.trim()).filter(Boolean),
-          territories: territories.split(',').map(s => s.trim()).filter(Boolean),
-          targetEvents: [],
-          minimumDeposit,
-        },
-        technicalRider: {
-          stage: { title: 'Stage Requirements', items: parseItems(stageItems) },
-          sound: { title: 'Sound System', items: parseItems(soundItems) },
-          lighting: { title: 'Lighting', items: parseItems(lightingItems) },
-          video: { title: 'Video / LED', items: [] },
-          backline: { title: 'Backline', items: [] },
-          soundcheck: { title: 'Soundcheck', items: [] },
-          crew: { title: 'Crew', items: [] },
-        },
-        hospitalityRider: {
-          dressingRoom: { title: 'Dressing Room', items: parseItems(dressingRoomItems) },
-          catering: { title: 'Catering', items: parseItems(cateringItems) },
-          beverages: { title: 'Beverages', items: parseItems(beverageItems) },
-          transport: { title: 'Transportation', items: [] },
-          hotel: { title: 'Hotel', items: [] },
-          security: { title: 'Security', items: [] },
-          guestList: { title: 'Guest List', items: [] },
-          payment: { title: 'Payment', items: ['WMON deposit required', 'Crypto payments accepted'] },
-        },
-        socials: {},
-        onChain: {},
-      };
+      const metadata = buildMetadata();
 
       const res = await fetch('/api/epk', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ metadata, userAddress, userFid, update: isEdit }),
+        body: JSON.stringify({ metadata, userAddress, userFid, update: isEdit, baseCid: baseCid.current, force }),
       });
 
       const data = await res.json();
 
+      if (res.status === 409 && data.conflict) {
+        setConflict(true);
+        throw new Error(data.error);
+      }
       if (!res.ok || !data.success) {
         throw new Error(data.error || 'Failed to publish EPK');
       }
+      setConflict(false);
 
       setPublishResult(data);
       setPublished(true);
@@ -222,6 +281,91 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
     }
   };
 
+  const authHeaders = () =>
+    authHeadersWithWalletFallback(userAddress ? { address: userAddress, signMessage: signMessageAsync, context: 'epk-edit' } : null);
+
+  const handleSaveDraft = async () => {
+    if (!userAddress) return;
+    setSavingDraft(true);
+    setError('');
+    try {
+      const res = await fetch('/api/epk/draft', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ userAddress, metadata: buildMetadata(), baseCid: baseCid.current }),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data.error || 'Failed to save draft');
+      setSavedDraft(null);
+      setDraftNotice(`Draft saved ${new Date(data.savedAt).toLocaleTimeString()} — not published yet`);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save draft');
+    } finally {
+      setSavingDraft(false);
+    }
+  };
+
+  const loadSavedDraft = async () => {
+    if (!userAddress) return;
+    try {
+      const res = await fetch(`/api/epk/draft?artist=${userAddress}&full=1`, { headers: await authHeaders() });
+      const data = await res.json();
+      if (!res.ok || !data.draft) throw new Error(data.error || 'Draft not found');
+      prefillFromDraft(data.draft.metadata);
+      baseCid.current = data.draft.baseCid;
+      setSavedDraft(null);
+      setDraftNotice('Editing your saved draft');
+    } catch (err: any) {
+      setError(err.message || 'Failed to load draft');
+    }
+  };
+
+  const applyImport = (result: EPKImport) => {
+    const merged = mergeImport(buildMetadata(), result.draft);
+    prefillFromDraft(merged as EPKMetadata);
+    setImportSummary({ found: result.found, warnings: result.warnings, missing: validateEPK(merged).errors });
+  };
+
+  const runImport = async (kind: 'file' | 'links' | 'farcaster', file?: File) => {
+    setImporting(kind);
+    setError('');
+    setImportSummary(null);
+    try {
+      const formData = new FormData();
+      if (file) formData.append('file', file);
+      const res = await fetch('/api/epk/import', file
+        ? { method: 'POST', body: formData }
+        : {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(kind === 'links' ? { kind, text: linkList } : { kind, fid: userFid }),
+          });
+      const data = await res.json();
+      if (!res.ok || !data.success) throw new Error(data.error || 'Import failed');
+      applyImport(data);
+      if (kind === 'links') setLinkList('');
+    } catch (err: any) {
+      setError(err.message || 'Import failed');
+    } finally {
+      setImporting(null);
+    }
+  };
+
+  const applyRiderTemplate = (id: RiderTemplateId) => {
+    const template = RIDER_TEMPLATES.find(t => t.id === id);
+    const hasRider = [stageItems, soundItems, lightingItems, dressingRoomItems, cateringItems, beverageItems].some(v => v.trim());
+    if (hasRider && !confirm(`Replace your current rider with the ${template?.label} template?`)) return;
+
+    const { technicalRider, hospitalityRider } = riderTemplate(id);
+    setStageItems(technicalRider.stage.items.join('\n'));
+    setSoundItems(technicalRider.sound.items.join('\n'));
+    setLightingItems(technicalRider.lighting.items.join('\n'));
+    setDressingRoomItems(hospitalityRider.dressingRoom.items.join('\n'));
+    setCateringItems(hospitalityRider.catering.items.join('\n'));
+    setBeverageItems(hospitalityRider.beverages.items.join('\n'));
+    setCarried(prev => ({ ...prev, technicalRider, hospitalityRider }));
+  };
+
   const addPressArticle = () => {
     setPressArticles(prev => [...prev, { outlet: '', title: '', url: '', date: '', excerpt: '' }]);
   };
@@ -308,6 +452,20 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
               </div>
             )}
 
+            {/* Saved draft */}
+            {!published && (savedDraft || draftNotice) && (
+              <div className="mx-6 mt-3 flex items-center justify-between gap-2 bg-white/5 border border-white/10 rounded-lg px-3 py-2">
+                <span className="text-xs text-slate-300">
+                  {savedDraft ? `You have an unpublished draft from ${new Date(savedDraft.savedAt).toLocaleString()}` : draftNotice}
+                </span>
+                {savedDraft && (
+                  <button onClick={loadSavedDraft} className="text-xs text-purple-400 hover:text-purple-300 flex-shrink-0">
+                    Load draft
+                  </button>
+                )}
+              </div>
+            )}
+
             {/* Content */}
             <div className="px-6 py-6 overflow-y-auto max-h-[60vh] space-y-4">
               {published ? (
@@ -340,6 +498,77 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
                   {/* Artist Info Step */}
                   {step === 'artist' && (
                     <>
+                      {/* Import an existing press kit */}
+                      <div className="bg-[#0f172a] border border-white/10 rounded-lg">
+                        <button
+                          onClick={() => setShowImport(v => !v)}
+                          className="w-full flex items-center justify-between px-4 py-2.5 text-sm text-slate-300 hover:text-white"
+                        >
+                          <span className="flex items-center gap-2">
+                            <Upload className="w-4 h-4 text-purple-400" />
+                            Import an existing press kit
+                          </span>
+                          <ChevronRight className={`w-4 h-4 transition-transform ${showImport ? 'rotate-90' : ''}`} />
+                        </button>
+                        {showImport && (
+                          <div className="px-4 pb-4 space-y-3">
+                            <p className="text-xs text-slate-400">Imports only fill fields you have left empty and add press, videos and photos you don&apos;t have yet.</p>
+                            <label className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200 cursor-pointer">
+                              {importing === 'file' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
+                              Upload a PDF or JSON press kit
+                              <input
+                                type="file"
+                                accept=".pdf,.json,application/pdf,application/json"
+                                className="hidden"
+                                disabled={importing !== null}
+                                onChange={e => {
+                                  const file = e.target.files?.[0];
+                                  if (file) runImport('file', file);
+                                  e.target.value = '';
+                                }}
+                              />
+                            </label>
+                            <div>
+                              <textarea
+                                value={linkList}
+                                onChange={e => setLinkList(e.target.value)}
+                                rows={3}
+                                className="w-full bg-[#1e293b] border border-white/10 rounded-lg px-3 py-2 text-white text-xs placeholder-slate-500 focus:outline-none focus:border-purple-500 resize-none"
+                                placeholder="Paste links, one per line&#10;Mixmag: Ones to watch - https://mixmag.net/...&#10;https://youtube.com/watch?v=..."
+                              />
+                              <button
+                                onClick={() => runImport('links')}
+                                disabled={importing !== null || !linkList.trim()}
+                                className="mt-1 flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200 disabled:opacity-50"
+                              >
+                                {importing === 'links' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Link2 className="w-4 h-4" />}
+                                Import links
+                              </button>
+                            </div>
+                            {!!userFid && (
+                              <button
+                                onClick={() => runImport('farcaster')}
+                                disabled={importing !== null}
+                                className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200 disabled:opacity-50"
+                              >
+                                {importing === 'farcaster' ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+                                Import from my Farcaster profile
+                              </button>
+                            )}
+                            {importSummary && (
+                              <div className="text-xs space-y-1 border-t border-white/5 pt-2">
+                                <p className="text-green-400">
+                                  {importSummary.found.length ? `Imported: ${importSummary.found.join(', ')}` : 'Nothing recognisable was found'}
+                                </p>
+                                {importSummary.warnings.map(w => <p key={w} className="text-amber-400">{w}</p>)}
+                                {importSummary.missing.length > 0 && (
+                                  <p className="text-slate-400">Still needed: {importSummary.missing.join('; ')}</p>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </div>
                       <div>
                         <label className="block text-sm text-slate-300 mb-1.5">Artist / Act Name *</label>
                         <input
@@ -453,6 +682,22 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
                   {/* Riders Step */}
                   {step === 'riders' && (
                     <>
+                      <div>
+                        <p className="text-sm text-slate-300 mb-2">Start from a template</p>
+                        <div className="grid grid-cols-3 gap-2">
+                          {RIDER_TEMPLATES.map(template => (
+                            <button
+                              key={template.id}
+                              onClick={() => applyRiderTemplate(template.id)}
+                              className="text-left bg-[#0f172a] border border-white/10 hover:border-purple-500 rounded-lg px-3 py-2 transition-colors"
+                            >
+                              <span className="block text-sm text-white">{template.label}</span>
+                              <span className="block text-xs text-slate-400">{template.description}</span>
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs text-slate-500 mt-2">A template also fills backline, soundcheck, crew, transport, hotel, security and guest list on your EPK page.</p>
+                      </div>
                       <p className="text-sm text-slate-400 mb-4">Enter each requirement on a new line.</p>
                       <div>
                         <label className="block text-sm text-slate-300 mb-1.5">Stage Requirements</label>
@@ -557,6 +802,45 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
                           placeholder="100"
                         />
                       </div>
+                      <div className="grid gap-4 sm:grid-cols-2">
+                        <div>
+                          <label className="block text-sm text-slate-300 mb-1.5">Deposit (% of fee)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            max="100"
+                            value={depositPercent}
+                            onChange={e => setDepositPercent(e.target.value)}
+                            className="w-full bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-sm text-slate-300 mb-1.5">Balance Due (days before show)</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={balanceDueDays}
+                            onChange={e => setBalanceDueDays(e.target.value)}
+                            className="w-full bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white placeholder-slate-500 focus:outline-none focus:border-purple-500"
+                          />
+                        </div>
+                      </div>
+                      <div>
+                        <label className="block text-sm text-slate-300 mb-1.5">Cancellation Policy</label>
+                        <select
+                          value={Object.entries(REFUND_POLICY_PRESETS).find(([, tiers]) => JSON.stringify(tiers) === JSON.stringify(refundPolicy))?.[0] || 'custom'}
+                          onChange={e => setRefundPolicy(REFUND_POLICY_PRESETS[e.target.value as keyof typeof REFUND_POLICY_PRESETS] || refundPolicy)}
+                          className="w-full bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white focus:outline-none focus:border-purple-500"
+                        >
+                          <option value="flexible">Flexible: full refund until 14 days out</option>
+                          <option value="standard">Standard: full refund until 30 days out</option>
+                          <option value="strict">Strict: full refund until 60 days out</option>
+                          <option value="custom" disabled>Custom</option>
+                        </select>
+                        <p className="text-xs text-slate-500 mt-1">
+                          Applies when an organizer cancels; you keep the deposit, then everything, as the show gets closer.
+                        </p>
+                      </div>
                     </>
                   )}
 
@@ -578,6 +862,12 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
                           Deposit: {minimumDeposit} WMON
                         </p>
                       </div>
+                      {isEdit && (
+                        <Link href="/epk/history" className="flex items-center gap-1.5 text-xs text-purple-400 hover:text-purple-300">
+                          <History className="w-3.5 h-3.5" />
+                          Version history, compare and roll back
+                        </Link>
+                      )}
                       <p className="text-xs text-slate-500">
                         Publishing will upload your EPK to IPFS and register it on Monad blockchain.
                         {userAddress ? ` Wallet: ${userAddress.slice(0, 6)}...${userAddress.slice(-4)}` : ' Connect wallet for on-chain registration.'}
@@ -602,33 +892,45 @@ export function EPKModal({ isOpen, onClose, userAddress, userFid, existingEpk }:
 
                 {error && <p className="text-xs text-red-400">{error}</p>}
 
-                {step === 'review' ? (
-                  <button
-                    onClick={handlePublish}
-                    disabled={publishing}
-                    className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-medium px-6 py-2.5 rounded-lg transition-colors"
-                  >
-                    {publishing ? (
-                      <>
-                        <Loader2 className="w-4 h-4 animate-spin" />
-                        {isEdit ? 'Updating...' : 'Publishing...'}
-                      </>
-                    ) : (
-                      <>
-                        <CheckCircle className="w-4 h-4" />
-                        {isEdit ? 'Update EPK' : 'Publish EPK'}
-                      </>
-                    )}
-                  </button>
-                ) : (
-                  <button
-                    onClick={goNext}
-                    className="flex items-center gap-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
-                  >
-                    Next
-                    <ChevronRight className="w-4 h-4" />
-                  </button>
-                )}
+                <div className="flex items-center gap-2">
+                  {userAddress && (
+                    <button
+                      onClick={handleSaveDraft}
+                      disabled={savingDraft || publishing}
+                      className="flex items-center gap-1.5 text-sm bg-white/10 hover:bg-white/20 disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      {savingDraft ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                      Save Draft
+                    </button>
+                  )}
+                  {step === 'review' ? (
+                    <button
+                      onClick={() => handlePublish(conflict)}
+                      disabled={publishing}
+                      className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-medium px-6 py-2.5 rounded-lg transition-colors"
+                    >
+                      {publishing ? (
+                        <>
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                          {isEdit ? 'Updating...' : 'Publishing...'}
+                        </>
+                      ) : (
+                        <>
+                          <CheckCircle className="w-4 h-4" />
+                          {conflict ? 'Publish Anyway' : isEdit ? 'Update EPK' : 'Publish EPK'}
+                        </>
+                      )}
+                    </button>
+                  ) : (
+                    <button
+                      onClick={goNext}
+                      className="flex items-center gap-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg transition-colors"
+                    >
+                      Next
+                      <ChevronRight className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               </div>
             )}
           </>
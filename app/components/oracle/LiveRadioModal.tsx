@@ -131,13 +131,20 @@ export function LiveRadioModal({
 }: LiveRadioModalProps) {
   const { user, walletAddress } = useFarcasterContext();
 
+  // Station selector. "main" is the original station; the rest come from
+  // /api/live-radio/stations. Everything below is scoped to the selected one.
+  const [stationId, setStationId] = useState("main");
+  const [stations, setStations] = useState<
+    { id: string; name: string; isLive: boolean; listenerCount: number }[]
+  >([]);
+
   // Real-time SSE stream (replaces 2s polling for radioState, queue, voiceNotes)
   const {
     radioState: streamRadioState,
     queue: streamQueue,
     voiceNotes: streamVoiceNotes,
     connectionStatus,
-  } = useRadioStream();
+  } = useRadioStream(stationId);
 
   const [mounted, setMounted] = useState(false);
   const [internalMinimized, setInternalMinimized] = useState(false);
@@ -285,7 +292,7 @@ export function LiveRadioModal({
   // Fetch radio state
   const fetchRadioState = useCallback(async () => {
     try {
-      const response = await fetch("/api/live-radio");
+      const response = await fetch(`/api/live-radio?station=${stationId}`);
       const data = await response.json();
       if (data.success) {
         setRadioState(data.state);
@@ -296,7 +303,7 @@ export function LiveRadioModal({
     } catch (error) {
       console.error("[LiveRadio] Failed to fetch state:", error);
     }
-  }, []);
+  }, [stationId]);
 
   // Resolve FIDs to Farcaster @usernames via Neynar bulk API
   const resolveArtistNames = useCallback(
@@ -392,7 +399,9 @@ export function LiveRadioModal({
   // Fetch queue
   const fetchQueue = useCallback(async () => {
     try {
-      const response = await fetch("/api/live-radio?action=queue");
+      const response = await fetch(
+        `/api/live-radio?action=queue&station=${stationId}`,
+      );
       const data = await response.json();
       if (data.success) {
         setQueue(data.queue);
@@ -400,12 +409,14 @@ export function LiveRadioModal({
     } catch (error) {
       console.error("[LiveRadio] Failed to fetch queue:", error);
     }
-  }, []);
+  }, [stationId]);
 
   // Fetch pending voice notes
   const fetchVoiceNotes = useCallback(async () => {
     try {
-      const response = await fetch("/api/live-radio?action=voice-notes");
+      const response = await fetch(
+        `/api/live-radio?action=voice-notes&station=${stationId}`,
+      );
       const data = await response.json();
       if (data.success) {
         setVoiceNotes(data.voiceNotes || []);
@@ -413,7 +424,7 @@ export function LiveRadioModal({
     } catch (error) {
       console.error("[LiveRadio] Failed to fetch voice notes:", error);
     }
-  }, []);
+  }, [stationId]);
 
   // Fetch listener stats
   const fetchListenerStats = useCallback(async () => {
@@ -450,7 +461,7 @@ export function LiveRadioModal({
   const fetchRecentPlays = useCallback(async () => {
     try {
       const response = await fetch(
-        "/api/live-radio?action=play-history&limit=10",
+        `/api/live-radio?action=play-history&limit=10&station=${stationId}`,
       );
       const data = await response.json();
       if (data.success && data.plays) {
@@ -459,6 +470,18 @@ export function LiveRadioModal({
     } catch (error) {
       console.error("[LiveRadio] Failed to fetch recent plays:", error);
     }
+  }, [stationId]);
+
+  // Fetch station list (once; listener counts refresh when the modal reopens)
+  useEffect(() => {
+    fetch("/api/live-radio/stations")
+      .then((res) => res.json())
+      .then((data) => {
+        if (data.success) setStations(data.stations || []);
+      })
+      .catch((error) =>
+        console.error("[LiveRadio] Failed to fetch stations:", error),
+      );
   }, []);
 
   // Listen session.
@@ -519,6 +542,7 @@ export function LiveRadioModal({
         },
         body: JSON.stringify({
           action: "heartbeat",
+          stationId,
           userFid: user?.fid,
           masterTokenId: radioState.currentSong!.tokenId,
         }),
@@ -553,6 +577,7 @@ export function LiveRadioModal({
     isPlaying,
     radioState?.currentSong,
     ensureRadioSession,
+    stationId,
   ]);
 
   // Initial fetch for data not covered by SSE (listener stats, leaderboard, recent plays, pricing)
@@ -684,6 +709,7 @@ export function LiveRadioModal({
               },
               body: JSON.stringify({
                 action: "song_ended",
+                stationId,
                 userAddress: walletAddress,
                 tokenId: radioState.currentSong.tokenId,
               }),
@@ -744,7 +770,7 @@ export function LiveRadioModal({
       audio.removeEventListener("ended", handleEnded);
       audio.removeEventListener("loadedmetadata", handleLoadedMetadata);
     };
-  }, [radioState?.currentSong, walletAddress]);
+  }, [radioState?.currentSong, walletAddress, stationId]);
 
   useEffect(() => {
     if (!audioRef.current) return;
@@ -983,6 +1009,7 @@ export function LiveRadioModal({
         },
         body: JSON.stringify({
           action: "queue_song",
+          stationId,
           userAddress: walletAddress,
           userFid: user?.fid,
           tokenId: song.tokenId,
@@ -1177,6 +1204,7 @@ export function LiveRadioModal({
         },
         body: JSON.stringify({
           action,
+          stationId,
           userAddress: walletAddress,
           userFid: user?.fid,
           username: user?.username,
@@ -1322,6 +1350,7 @@ export function LiveRadioModal({
           userAddress: walletAddress,
           action: "radio_skip_random",
           fid: user?.fid, // For Farcaster cast
+          params: { stationId },
         }),
       });
 
@@ -1478,6 +1507,31 @@ export function LiveRadioModal({
             <>
               {/* Radio Status */}
               <div className="mb-6">
+                {/* Station selector — hidden until there is more than one */}
+                {stations.length > 1 && (
+                  <div className="flex gap-2 overflow-x-auto pb-2 mb-2">
+                    {stations.map((station) => (
+                      <button
+                        key={station.id}
+                        onClick={() => setStationId(station.id)}
+                        className={`shrink-0 px-3 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                          station.id === stationId
+                            ? "bg-purple-500 border-purple-500 text-white"
+                            : isDarkMode
+                              ? "border-purple-500/30 text-gray-300 hover:bg-purple-500/20"
+                              : "border-purple-200 text-gray-700 hover:bg-purple-50"
+                        }`}
+                      >
+                        {station.name}
+                        {station.isLive && (
+                          <span className="ml-1 opacity-75">
+                            • {station.listenerCount}
+                          </span>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                )}
                 <div
                   className={`flex items-center gap-2 mb-2 ${radioState?.isLive ? "text-green-400" : "text-gray-500"}`}
                 >
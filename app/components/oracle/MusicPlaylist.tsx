@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo, memo } from 'react';
 import { createPortal } from 'react-dom';
-import { Play, Pause, SkipForward, SkipBack, Music2, GripVertical, ChevronUp, X, GripHorizontal, Crown } from 'lucide-react';
+import { Play, Pause, SkipForward, SkipBack, Music2, GripVertical, ChevronUp, X, GripHorizontal, Crown, ListMusic, Plus, Trash2, Link2, Radio, Users } from 'lucide-react';
+import type { Playlist, PlaylistSummary, PlaylistTrack, PlaylistVisibility } from '@/lib/playlists';
+import { authHeaders } from '@/lib/quick-auth-client';
 
 interface Song {
   id: string;
@@ -53,8 +55,6 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
   const previewTimeLimitRef = useRef<number | null>(null);
   const lastAutoPlayedTokenIdRef = useRef<string | null>(null);
   const clickedNFTsRef = useRef<string>(''); // Track serialized clickedNFTs to detect actual changes
-  const [savedPlaylistOrder, setSavedPlaylistOrder] = useState<string[] | null>(null);
-  const [playlistLoaded, setPlaylistLoaded] = useState(false);
   const [collectorImages, setCollectorImages] = useState<Record<string, string>>({});
 
   // Drag state for modal position
@@ -126,70 +126,236 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
   const recordedPlaysRef = useRef<Set<string>>(new Set()); // Track which plays have been recorded this session
   const MIN_PLAY_DURATION_FOR_RECORD = 30; // Minimum 30 seconds to count as a play
 
-  // Load saved playlist order from API on mount
+  // Saved playlists (see /api/music/playlist). While one is open the player plays its tracks
+  // instead of the clicked NFTs, and every change goes back to the server as an edit.
+  const [playlists, setPlaylists] = useState<{ owned: PlaylistSummary[]; shared: PlaylistSummary[] }>({ owned: [], shared: [] });
+  const [activePlaylist, setActivePlaylist] = useState<Playlist | null>(null);
+  const [canEditPlaylist, setCanEditPlaylist] = useState(false);
+  const [showPlaylists, setShowPlaylists] = useState(false);
+  const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [editorFid, setEditorFid] = useState('');
+  const [playlistBusy, setPlaylistBusy] = useState(false);
+  const [playlistNotice, setPlaylistNotice] = useState('');
+  const activePlaylistRef = useRef<Playlist | null>(null);
+  const draggedTokenIdRef = useRef<string | null>(null);
+
   useEffect(() => {
-    if (!userFid) {
-      setPlaylistLoaded(true);
-      return;
+    activePlaylistRef.current = activePlaylist;
+  }, [activePlaylist]);
+
+  const loadPlaylists = useCallback(async () => {
+    if (!userFid) return;
+    try {
+      const response = await fetch(`/api/music/playlist?fid=${userFid}`, { headers: await authHeaders() });
+      const data = await response.json();
+      if (data.success) {
+        setPlaylists({ owned: data.owned, shared: data.shared });
+      }
+    } catch (error) {
+      console.error('[MusicPlaylist] Failed to load playlists:', error);
     }
+  }, [userFid]);
 
-    const loadPlaylist = async () => {
-      try {
-        // First try localStorage for faster load
-        const localKey = `playlist_${userFid}`;
-        const localData = localStorage.getItem(localKey);
-        if (localData) {
-          const parsed = JSON.parse(localData);
-          setSavedPlaylistOrder(parsed.songOrder);
-          console.log('[MusicPlaylist] Loaded playlist from localStorage:', parsed.songOrder?.length);
-        }
+  useEffect(() => {
+    loadPlaylists();
+  }, [loadPlaylists]);
+
+  const playlistRequest = useCallback(async (body: Record<string, unknown>) => {
+    const response = await fetch('/api/music/playlist', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, data: await response.json() };
+  }, []);
 
-        // Then sync with server
-        const response = await fetch(`/api/music/playlist?fid=${userFid}`);
-        const data = await response.json();
-        if (data.success && data.playlist?.songOrder) {
-          setSavedPlaylistOrder(data.playlist.songOrder);
-          // Update localStorage with server data
-          localStorage.setItem(localKey, JSON.stringify(data.playlist));
-          console.log('[MusicPlaylist] Synced playlist from server:', data.playlist.songOrder.length);
-        }
-      } catch (error) {
-        console.error('[MusicPlaylist] Failed to load playlist:', error);
-      } finally {
-        setPlaylistLoaded(true);
-      }
+  const trackToSong = useCallback((track: PlaylistTrack): Song => {
+    const owned = ownedSongs.find(s => s.tokenId === track.tokenId);
+    if (owned) return owned;
+    return {
+      id: `preview-${track.tokenId}`,
+      tokenId: track.tokenId,
+      title: track.name,
+      artist: track.artist,
+      artistUsername: track.artistUsername,
+      audioUrl: track.audioUrl.replace('ipfs://', 'https://harlequin-used-hare-224.mypinata.cloud/ipfs/'),
+      imageUrl: track.imageUrl.replace('ipfs://', 'https://harlequin-used-hare-224.mypinata.cloud/ipfs/'),
+      isPreview: !isSubscriber,
     };
+  }, [ownedSongs, isSubscriber]);
+
+  // Show a playlist the server returned, keeping the current song playing if it is still in it
+  const showPlaylist = useCallback((playlist: Playlist) => {
+    const playingTokenId = songs[currentSongIndex]?.tokenId;
+    const nextSongs = playlist.tracks.map(trackToSong);
+    const nextIndex = nextSongs.findIndex(s => s.tokenId === playingTokenId);
+    setActivePlaylist(playlist);
+    setSongs(nextSongs);
+    if (nextIndex !== -1) {
+      setCurrentSongIndex(nextIndex);
+    } else {
+      setCurrentSongIndex(0);
+      setIsPlaying(false);
+    }
+  }, [songs, currentSongIndex, trackToSong]);
 
-    loadPlaylist();
-  }, [userFid]);
+  const openPlaylist = useCallback(async (id: string) => {
+    setPlaylistBusy(true);
+    setPlaylistNotice('');
+    try {
+      const response = await fetch(`/api/music/playlist?id=${id}`, { headers: await authHeaders() });
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Failed to open playlist');
+      setCanEditPlaylist(!!data.canEdit);
+      setCurrentSongIndex(0);
+      setIsPlaying(false);
+      setActivePlaylist(data.playlist);
+      setSongs(data.playlist.tracks.map(trackToSong));
+      setShowQueue(true);
+    } catch (error: any) {
+      setPlaylistNotice(error.message);
+    } finally {
+      setPlaylistBusy(false);
+    }
+  }, [trackToSong]);
+
+  const closePlaylist = () => {
+    setActivePlaylist(null);
+    setCanEditPlaylist(false);
+    // Fall back to whatever NFTs were clicked before the playlist was opened
+    clickedNFTsRef.current = '';
+    setSongs([]);
+  };
 
-  // Save playlist order when songs are reordered (debounced)
-  const savePlaylistOrder = useCallback(async (songOrder: string[]) => {
-    if (!userFid) return;
+  // Send ops against the version we last saw. The server rebases inserts, removes and moves onto
+  // newer versions; when it can't (409) it sends the current playlist back and we show that.
+  const editPlaylist = useCallback(async (ops: Record<string, unknown>[]) => {
+    const playlist = activePlaylistRef.current;
+    if (!playlist) return;
+    setPlaylistBusy(true);
+    try {
+      const { status, data } = await playlistRequest({ action: 'edit', id: playlist.id, baseVersion: playlist.version, ops });
+      if (data.playlist) showPlaylist(data.playlist);
+      if (status === 409) {
+        setPlaylistNotice(data.playlist ? 'Someone else changed this playlist. Reloaded the latest version.' : data.error);
+      } else if (!data.success) {
+        setPlaylistNotice(data.error || 'Edit failed');
+      } else if (data.result?.skipped?.length) {
+        setPlaylistNotice(data.result.skipped.map((s: { reason: string }) => s.reason).join('; '));
+      } else {
+        setPlaylistNotice('');
+      }
+      loadPlaylists();
+    } catch (error: any) {
+      setPlaylistNotice(error.message);
+    } finally {
+      setPlaylistBusy(false);
+    }
+  }, [playlistRequest, showPlaylist, loadPlaylists]);
+
+  const songToTrack = (song: Song) => ({
+    tokenId: song.tokenId,
+    name: song.title,
+    artist: song.artist,
+    artistUsername: song.artistUsername,
+    audioUrl: song.audioUrl,
+    imageUrl: song.imageUrl,
+  });
+
+  const createPlaylistFromQueue = async () => {
+    if (!newPlaylistName.trim()) return;
+    setPlaylistBusy(true);
+    try {
+      const ops = songs.filter(s => s.audioUrl).map(s => ({ op: 'insert', track: songToTrack(s) }));
+      const { data } = await playlistRequest({ action: 'create', name: newPlaylistName, ops });
+      if (!data.success) throw new Error(data.error || 'Failed to create playlist');
+      setNewPlaylistName('');
+      setCanEditPlaylist(true);
+      showPlaylist(data.playlist);
+      setPlaylistNotice('');
+      loadPlaylists();
+    } catch (error: any) {
+      setPlaylistNotice(error.message);
+    } finally {
+      setPlaylistBusy(false);
+    }
+  };
 
-    // Save to localStorage immediately
-    const localKey = `playlist_${userFid}`;
-    localStorage.setItem(localKey, JSON.stringify({
-      songOrder,
-      updatedAt: Date.now(),
-    }));
+  const updateActivePlaylist = async (body: Record<string, unknown>) => {
+    if (!activePlaylist) return;
+    setPlaylistBusy(true);
+    try {
+      const { data } = await playlistRequest({ id: activePlaylist.id, ...body });
+      if (!data.success) throw new Error(data.error || 'Update failed');
+      if (body.action === 'delete') {
+        closePlaylist();
+      } else {
+        setActivePlaylist(data.playlist);
+      }
+      setPlaylistNotice('');
+      loadPlaylists();
+    } catch (error: any) {
+      setPlaylistNotice(error.message);
+    } finally {
+      setPlaylistBusy(false);
+    }
+  };
 
-    // Sync to server
+  const copyShareLink = async () => {
+    if (!activePlaylist) return;
+    if (activePlaylist.visibility === 'private') {
+      await updateActivePlaylist({ action: 'update', visibility: 'link' });
+    }
+    await navigator.clipboard.writeText(`${window.location.origin}/playlist/${activePlaylist.id}`);
+    setPlaylistNotice('Share link copied');
+  };
+
+  // Queue the playlist on Live Radio: each track is paid for on-chain like a single queued song,
+  // then the paid tracks are handed to the radio together so they play in playlist order.
+  const queueToRadio = async () => {
+    if (!activePlaylist || !userAddress) return;
+    const tracks = activePlaylist.tracks.slice(0, 10);
+    setPlaylistBusy(true);
+    setPlaylistNotice(`Paying for ${tracks.length} tracks...`);
     try {
-      await fetch('/api/music/playlist', {
+      const payments: { tokenId: string; txHash: string }[] = [];
+      for (const track of tracks) {
+        const paymentRes = await fetch('/api/execute-delegated', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+          body: JSON.stringify({
+            userAddress,
+            action: 'radio_queue_song',
+            params: { masterTokenId: track.tokenId, userFid: userFid?.toString() || '0', tipAmount: '0' },
+          }),
+        });
+        const paymentData = await paymentRes.json();
+        if (!paymentData.success) {
+          console.warn('[MusicPlaylist] Radio payment failed for', track.tokenId, paymentData.error);
+          continue;
+        }
+        payments.push({ tokenId: track.tokenId, txHash: paymentData.txHash });
+      }
+      if (payments.length === 0) throw new Error('No tracks could be paid for');
+
+      const response = await fetch('/api/live-radio', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fid: userFid,
-          name: 'My Playlist',
-          songOrder,
-        }),
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ action: 'queue_playlist', playlistId: activePlaylist.id, payments, userAddress, userFid }),
       });
-      console.log('[MusicPlaylist] Saved playlist order:', songOrder.length, 'songs');
-    } catch (error) {
-      console.error('[MusicPlaylist] Failed to save playlist:', error);
+      const data = await response.json();
+      if (!data.success) throw new Error(data.error || 'Queue failed');
+      setPlaylistNotice(
+        data.message +
+          (data.skipped.length ? ` (${data.skipped.length} not cleared for radio)` : '') +
+          (data.unpaid?.length ? ` (${data.unpaid.length} payments not accepted: ${data.unpaid[0].error})` : '')
+      );
+    } catch (error: any) {
+      setPlaylistNotice(error.message);
+    } finally {
+      setPlaylistBusy(false);
     }
-  }, [userFid]);
+  };
 
   // Record play for artist royalties (only for non-preview plays >= 30 seconds)
   const recordPlay = useCallback(async (song: Song, playDuration: number) => {
@@ -278,6 +444,13 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
       const currentClickedIds = clickedNFTs.map(n => n.tokenId).join(',');
       const clickedNFTsChanged = currentClickedIds !== clickedNFTsRef.current;
 
+      // An open playlist owns the queue until the user clicks a different NFT
+      if (activePlaylist) {
+        if (!clickedNFTsChanged) return;
+        setActivePlaylist(null);
+        setCanEditPlaylist(false);
+      }
+
       // If no clicked NFTs, don't show the player (user must click a music NFT to play)
       if (clickedNFTs.length === 0) {
         clickedNFTsRef.current = '';
@@ -383,10 +556,10 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
       clickedNFTsRef.current = currentClickedIds;
     };
 
-    if ((clickedNFTs.length > 0 || ownedSongs.length > 0) && playlistLoaded) {
+    if (clickedNFTs.length > 0 || ownedSongs.length > 0) {
       processClickedNFTs();
     }
-  }, [clickedNFTs, ownedSongs, playlistLoaded, savedPlaylistOrder]);
+  }, [clickedNFTs, ownedSongs, activePlaylist]);
 
   // Fetch collector edition info for all songs
   useEffect(() => {
@@ -594,6 +767,7 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
   // Drag and drop for reordering
   const handleDragStart = (e: React.DragEvent, index: number) => {
     setDraggedIndex(index);
+    draggedTokenIdRef.current = songs[index].tokenId;
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -621,10 +795,14 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
 
   const handleDragEnd = () => {
     setDraggedIndex(null);
-    // Save the new playlist order
-    if (songs.length > 0) {
-      const songOrder = songs.map(s => s.tokenId);
-      savePlaylistOrder(songOrder);
+    const tokenId = draggedTokenIdRef.current;
+    draggedTokenIdRef.current = null;
+    if (!activePlaylist || !canEditPlaylist || !tokenId) return;
+
+    // Save as a move of the one dragged track so it survives a concurrent edit
+    const index = songs.findIndex(s => s.tokenId === tokenId);
+    if (index !== activePlaylist.tracks.findIndex(t => t.tokenId === tokenId)) {
+      editPlaylist([{ op: 'move', tokenId, index }]);
     }
   };
 
@@ -636,7 +814,7 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
   };
 
   // Render if we have songs (owned or clicked previews)
-  if (songs.length === 0 || !mounted) {
+  if ((songs.length === 0 && !activePlaylist) || !mounted) {
     return null;
   }
 
@@ -665,12 +843,163 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
           src={currentSong?.audioUrl}
         />
 
+        {/* Playlists Panel */}
+        {showPlaylists && (
+          <div className="mb-4">
+            <div className="bg-black/90 backdrop-blur-xl border border-cyan-500/20 rounded-2xl p-4 max-h-80 overflow-y-auto space-y-3">
+              <div className="flex justify-between items-center">
+                <h3 className="text-white font-semibold">Playlists</h3>
+                <button onClick={() => setShowPlaylists(false)} className="text-gray-400 hover:text-white">
+                  <ChevronUp className="w-5 h-5" />
+                </button>
+              </div>
+
+              {!userFid ? (
+                <p className="text-xs text-gray-400">Sign in with Farcaster to save playlists.</p>
+              ) : (
+                <>
+                  <div className="flex gap-2">
+                    <input
+                      value={newPlaylistName}
+                      onChange={(e) => setNewPlaylistName(e.target.value)}
+                      placeholder="Save this queue as..."
+                      maxLength={80}
+                      className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-sm text-white placeholder-gray-500"
+                    />
+                    <button
+                      onClick={createPlaylistFromQueue}
+                      disabled={playlistBusy || !newPlaylistName.trim()}
+                      className="px-3 py-1.5 bg-cyan-500 hover:bg-cyan-400 disabled:opacity-40 text-black text-sm rounded-lg flex items-center gap-1"
+                    >
+                      <Plus className="w-4 h-4" /> Save
+                    </button>
+                  </div>
+
+                  {[...playlists.owned, ...playlists.shared].map((p) => (
+                    <button
+                      key={p.id}
+                      onClick={() => openPlaylist(p.id)}
+                      disabled={playlistBusy}
+                      className={`w-full flex items-center gap-3 p-2 rounded-lg text-left hover:bg-gray-800/50 ${
+                        activePlaylist?.id === p.id ? 'bg-cyan-500/20 border border-cyan-500/30' : ''
+                      }`}
+                    >
+                      <ListMusic className="w-4 h-4 text-cyan-400 flex-shrink-0" />
+                      <span className="flex-1 text-sm text-white truncate">{p.name}</span>
+                      {p.collaborative && <Users className="w-3.5 h-3.5 text-gray-400" />}
+                      <span className="text-xs text-gray-500">{p.trackCount}</span>
+                    </button>
+                  ))}
+                  {playlists.owned.length + playlists.shared.length === 0 && (
+                    <p className="text-xs text-gray-500">No playlists yet.</p>
+                  )}
+                </>
+              )}
+
+              {activePlaylist && (
+                <div className="border-t border-gray-800 pt-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-cyan-400 font-semibold truncate">{activePlaylist.name}</span>
+                    <button onClick={closePlaylist} className="text-xs text-gray-400 hover:text-white">Close</button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {canEditPlaylist && currentSong?.audioUrl && !activePlaylist.tracks.some(t => t.tokenId === currentSong.tokenId) && (
+                      <button
+                        onClick={() => editPlaylist([{ op: 'insert', track: songToTrack(currentSong) }])}
+                        disabled={playlistBusy}
+                        className="px-2 py-1 text-xs bg-gray-800 hover:bg-gray-700 text-white rounded-lg flex items-center gap-1"
+                      >
+                        <Plus className="w-3 h-3" /> Add current song
+                      </button>
+                    )}
+                    <button
+                      onClick={copyShareLink}
+                      disabled={playlistBusy}
+                      className="px-2 py-1 text-xs bg-gray-800 hover:bg-gray-700 text-white rounded-lg flex items-center gap-1"
+                    >
+                      <Link2 className="w-3 h-3" /> Copy link
+                    </button>
+                    {userAddress && activePlaylist.tracks.length > 0 && (
+                      <button
+                        onClick={queueToRadio}
+                        disabled={playlistBusy}
+                        className="px-2 py-1 text-xs bg-gray-800 hover:bg-gray-700 text-white rounded-lg flex items-center gap-1"
+                      >
+                        <Radio className="w-3 h-3" /> Queue to radio
+                      </button>
+                    )}
+                  </div>
+
+                  {activePlaylist.ownerFid === userFid && (
+                    <>
+                      <div className="flex items-center gap-2">
+                        <span className="text-xs text-gray-400">Visibility</span>
+                        <select
+                          value={activePlaylist.visibility}
+                          onChange={(e) => updateActivePlaylist({ action: 'update', visibility: e.target.value as PlaylistVisibility })}
+                          disabled={playlistBusy}
+                          className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-xs text-white"
+                        >
+                          <option value="private">Private</option>
+                          <option value="link">Anyone with the link</option>
+                          <option value="public">Public on my profile</option>
+                        </select>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="text-xs text-gray-400 mr-1">Editors</span>
+                        {activePlaylist.editors.map((fid) => (
+                          <span key={fid} className="text-xs bg-gray-800 text-white rounded-full pl-2 pr-1 py-0.5 flex items-center gap-1">
+                            FID {fid}
+                            <button
+                              onClick={() => updateActivePlaylist({ action: 'editors', editors: activePlaylist.editors.filter(e => e !== fid) })}
+                              className="text-gray-400 hover:text-white"
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                        <input
+                          value={editorFid}
+                          onChange={(e) => setEditorFid(e.target.value.replace(/\D/g, ''))}
+                          placeholder="FID"
+                          className="w-16 bg-gray-900 border border-gray-700 rounded-lg px-2 py-0.5 text-xs text-white placeholder-gray-500"
+                        />
+                        <button
+                          onClick={() => {
+                            updateActivePlaylist({ action: 'editors', editors: [...activePlaylist.editors, Number(editorFid)] });
+                            setEditorFid('');
+                          }}
+                          disabled={playlistBusy || !editorFid}
+                          className="text-xs text-cyan-400 hover:text-cyan-300 disabled:opacity-40"
+                        >
+                          Add
+                        </button>
+                      </div>
+                      <button
+                        onClick={() => updateActivePlaylist({ action: 'delete' })}
+                        disabled={playlistBusy}
+                        className="text-xs text-red-400 hover:text-red-300 flex items-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" /> Delete playlist
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {playlistNotice && <p className="text-xs text-amber-300">{playlistNotice}</p>}
+            </div>
+          </div>
+        )}
+
         {/* Queue Panel */}
         {showQueue && (
           <div className="mb-4">
             <div className="bg-black/90 backdrop-blur-xl border border-cyan-500/20 rounded-2xl p-4 max-h-64 overflow-y-auto">
             <div className="flex justify-between items-center mb-3">
-              <h3 className="text-white font-semibold">Queue ({songs.length})</h3>
+              <h3 className="text-white font-semibold truncate">
+                {activePlaylist ? activePlaylist.name : 'Queue'} ({songs.length})
+              </h3>
               <button onClick={() => setShowQueue(false)} className="text-gray-400 hover:text-white">
                 <ChevronUp className="w-5 h-5" />
               </button>
@@ -714,6 +1043,18 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
                     </div>
                     <div className="text-xs text-gray-400 truncate">{song.artist}</div>
                   </div>
+                  {activePlaylist && canEditPlaylist && (
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        editPlaylist([{ op: 'remove', tokenId: song.tokenId }]);
+                      }}
+                      disabled={playlistBusy}
+                      className="text-gray-600 hover:text-red-400 flex-shrink-0"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  )}
                   {index === currentSongIndex && isPlaying && (
                     <div className="flex gap-0.5 items-end h-4">
                       <div className="w-1 bg-cyan-500 rounded-full animate-[bounce_0.6s_ease-in-out_infinite]" style={{ height: '40%', animationDelay: '0s' }}></div>
@@ -778,7 +1119,10 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
                 </button>
               </div>
 
-              {/* Queue */}
+              {/* Playlists + Queue */}
+              <button onClick={() => setShowPlaylists(!showPlaylists)} className="text-gray-400 hover:text-white p-1">
+                <ListMusic className="w-4 h-4" />
+              </button>
               <button onClick={() => setShowQueue(!showQueue)} className="text-gray-400 hover:text-white text-xs px-1">
                 Q({songs.length})
               </button>
@@ -880,8 +1224,14 @@ const MusicPlaylistComponent: React.FC<MusicPlaylistProps> = ({ userAddress, use
               </div>
             </div>
 
-            {/* Queue Button */}
-            <div className="flex-shrink-0">
+            {/* Playlists + Queue Buttons */}
+            <div className="flex-shrink-0 flex items-center">
+              <button
+                onClick={() => setShowPlaylists(!showPlaylists)}
+                className="px-3 py-2 text-sm text-gray-400 hover:text-white transition-colors whitespace-nowrap"
+              >
+                Playlists
+              </button>
               <button
                 onClick={() => setShowQueue(!showQueue)}
                 className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors whitespace-nowrap"
@@ -34,12 +34,15 @@ interface UnclaimedMonth {
   playCount: number;
   estimatedPayout: string;
   toursClaimed: boolean;
+  /** Kept out of the claim button while a rights dispute against one of its masters is unresolved. */
+  held?: { heldAmount: string; masters: string[]; disputeIds: string[] };
 }
 
 interface ArtistClaimsData {
   currentMonthId: number;
   unclaimedMonths: UnclaimedMonth[];
   totalUnclaimed: string;
+  totalHeld: string;
   toursEligible: boolean;
   masterCount: number;
   lifetimePlays: number;
@@ -142,7 +145,7 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
     if (
       !userAddress ||
       !artistClaims ||
-      artistClaims.unclaimedMonths.length === 0
+      !artistClaims.unclaimedMonths.some((m) => !m.held)
     )
       return;
 
@@ -151,10 +154,11 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
     setSuccess(null);
 
     try {
-      const monthIds = artistClaims.unclaimedMonths.map((m) => m.monthId);
+      // Months held by a rights dispute stay unclaimed until it is resolved.
+      const claimable = artistClaims.unclaimedMonths.filter((m) => !m.held);
+      const monthIds = claimable.map((m) => m.monthId);
       const hasUnclaimedTours =
-        artistClaims.toursEligible &&
-        artistClaims.unclaimedMonths.some((m) => !m.toursClaimed);
+        artistClaims.toursEligible && claimable.some((m) => !m.toursClaimed);
 
       // Signed by the artist wallet, not the Safe — the contract pays
       // msg.sender and the Safe holds no plays. See lib/artist-claim.ts.
@@ -171,7 +175,13 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
       );
       // Refresh claims data
       setArtistClaims((prev) =>
-        prev ? { ...prev, unclaimedMonths: [], totalUnclaimed: "0" } : null,
+        prev
+          ? {
+              ...prev,
+              unclaimedMonths: prev.unclaimedMonths.filter((m) => m.held),
+              totalUnclaimed: "0",
+            }
+          : null,
       );
     } catch (err: any) {
       console.error("Claim error:", err);
@@ -455,9 +465,21 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
                       ({month.playCount} plays)
                     </span>
                   </div>
-                  <span className="text-sm font-bold text-yellow-400">
-                    {parseFloat(month.estimatedPayout).toFixed(4)} WMON
-                  </span>
+                  {month.held ? (
+                    <span
+                      className="text-xs text-orange-300 text-right"
+                      title={`Disputed masters earned ${parseFloat(month.held.heldAmount).toFixed(4)} WMON of this month`}
+                    >
+                      {parseFloat(month.estimatedPayout).toFixed(4)} WMON held
+                      <span className="block text-[10px] text-gray-500">
+                        Rights dispute {month.held.disputeIds.join(", ")}
+                      </span>
+                    </span>
+                  ) : (
+                    <span className="text-sm font-bold text-yellow-400">
+                      {parseFloat(month.estimatedPayout).toFixed(4)} WMON
+                    </span>
+                  )}
                 </div>
               ))}
             </div>
@@ -471,6 +493,12 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
                   + TOURS rewards eligible
                 </div>
               )}
+              {parseFloat(artistClaims!.totalHeld || "0") > 0 && (
+                <div className="text-[10px] text-orange-300 mt-1">
+                  {artistClaims!.totalHeld} WMON held until rights disputes are
+                  resolved
+                </div>
+              )}
             </div>
 
             {/* Error/Success Messages */}
@@ -489,7 +517,9 @@ export const MusicSubscriptionModal: React.FC<MusicSubscriptionModalProps> = ({
 
             <button
               onClick={handleClaimPayouts}
-              disabled={claiming}
+              disabled={
+                claiming || artistClaims!.unclaimedMonths.every((m) => m.held)
+              }
               className="w-full bg-gradient-to-r from-yellow-500 to-orange-500 hover:from-yellow-400 hover:to-orange-400 text-black font-bold py-3 px-4 rounded-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
             >
               {claiming ? (
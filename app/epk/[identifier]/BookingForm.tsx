@@ -1,8 +1,10 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
 import { Send, Loader2, CheckCircle } from 'lucide-react';
 import { EVENT_TYPES } from '@/lib/epk/constants';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
 
 interface BookingFormProps {
   artistAddress: string;
@@ -11,6 +13,8 @@ interface BookingFormProps {
 }
 
 export default function BookingForm({ artistAddress, artistName, minimumDeposit }: BookingFormProps) {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
   const [form, setForm] = useState({
     name: '',
     email: '',
@@ -21,11 +25,23 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
     eventType: '',
     expectedAttendance: '',
     message: '',
-    depositAmount: '',
   });
   const [submitting, setSubmitting] = useState(false);
-  const [submitted, setSubmitted] = useState(false);
+  const [bookingUrl, setBookingUrl] = useState('');
   const [error, setError] = useState('');
+  const [unavailable, setUnavailable] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!artistAddress) return;
+    fetch(`/api/epk/calendar?artist=${artistAddress}`)
+      .then(res => res.json())
+      .then(data => {
+        if (data.success) setUnavailable(data.dates.map((d: { date: string }) => d.date));
+      })
+      .catch(() => {});
+  }, [artistAddress]);
+
+  const dateTaken = !!form.eventDate && unavailable.includes(form.eventDate);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
@@ -34,15 +50,24 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    // The wallet sent with the inquiry is the only one that can sign and pay for the booking
+    if (!address) {
+      setError('Connect the wallet you will sign and pay with');
+      return;
+    }
     setSubmitting(true);
 
     try {
       const res = await fetch('/api/epk/booking', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeadersWithWalletFallback({ address, signMessage: signMessageAsync, context: 'epk-booking' })),
+        },
         body: JSON.stringify({
           inquiry: {
             artistAddress,
+            organizerAddress: address,
             name: form.name,
             email: form.email,
             company: form.company,
@@ -53,8 +78,6 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
             expectedAttendance: form.expectedAttendance,
             message: form.message,
           },
-          userAddress: '', // Set by wallet connection if available
-          depositAmount: form.depositAmount,
         }),
       });
 
@@ -64,7 +87,7 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
         throw new Error(data.error || 'Failed to submit inquiry');
       }
 
-      setSubmitted(true);
+      setBookingUrl(`/epk/booking/${data.artistAddress}/${data.inquiryId}`);
     } catch (err: any) {
       setError(err.message || 'Failed to submit');
     } finally {
@@ -72,7 +95,7 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
     }
   };
 
-  if (submitted) {
+  if (bookingUrl) {
     return (
       <div className="bg-[#1e293b] rounded-xl p-8 border border-green-500/20 text-center">
         <CheckCircle className="w-12 h-12 text-green-400 mx-auto mb-4" />
@@ -80,11 +103,13 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
         <p className="text-slate-400">
           Your booking inquiry for {artistName} has been received. The artist will review your request.
         </p>
-        {form.depositAmount && (
-          <p className="text-sm text-purple-300 mt-3">
-            To secure your booking with a WMON deposit, connect your wallet and complete the on-chain transaction.
-          </p>
-        )}
+        <p className="text-sm text-purple-300 mt-3">
+          Keep this link: the artist&apos;s quote and the booking agreement will appear there, and that is
+          where you sign and pay the deposit (min. {minimumDeposit} WMON) into escrow.
+        </p>
+        <a href={bookingUrl} className="inline-block mt-3 text-sm text-purple-400 underline break-all">
+          {typeof window !== 'undefined' ? window.location.origin : ''}{bookingUrl}
+        </a>
       </div>
     );
   }
@@ -194,19 +219,13 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
           />
         </div>
         <div>
-          <label className="block text-sm text-slate-300 mb-1.5">WMON Deposit Amount</label>
-          <input
-            name="depositAmount"
-            type="number"
-            min="0"
-            step="1"
-            value={form.depositAmount}
-            onChange={handleChange}
-            className="w-full bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white placeholder-slate-500 focus:outline-none focus:border-purple-500 transition-colors"
-            placeholder={`Min. ${minimumDeposit} WMON`}
-          />
-          <p className="text-xs text-slate-500 mt-1">
-            Optional. On-chain deposit locks WMON in escrow.
+          <label className="block text-sm text-slate-300 mb-1.5">Availability</label>
+          <p className={`text-sm py-2.5 ${dateTaken ? 'text-red-400' : 'text-slate-400'}`}>
+            {dateTaken
+              ? `${artistName} is not available on ${form.eventDate}`
+              : unavailable.length > 0
+                ? `Unavailable: ${unavailable.slice(0, 6).join(', ')}${unavailable.length > 6 ? '…' : ''}`
+                : 'No dates booked yet'}
           </p>
         </div>
       </div>
@@ -224,13 +243,16 @@ export default function BookingForm({ artistAddress, artistName, minimumDeposit
         />
       </div>
 
+      {!address && (
+        <p className="text-sm text-slate-400">Connect your wallet: you will sign the agreement and pay from it.</p>
+      )}
       {error && (
         <p className="text-sm text-red-400">{error}</p>
       )}
 
       <button
         type="submit"
-        disabled={submitting}
+        disabled={submitting || dateTaken || !address}
         className="w-full flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium py-3 rounded-lg transition-colors"
       >
         {submitting ? (
@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { useAccount, useSignMessage } from 'wagmi';
+import { CalendarCheck, CheckCircle, Loader2 } from 'lucide-react';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
+import { agreementSignatureMessage, fundingBlocker, releaseBlocker } from '@/lib/epk/booking';
+import type { BookingInquiry, BookingSignature, MilestoneKind } from '@/lib/epk/types';
+
+/**
+ * Booking agreement — one booking, seen by the artist and the organizer
+ *
+ * The artist quotes and signs here; the organizer reads the agreement (riders included),
+ * countersigns with their wallet and pays each milestone into escrow. After the show the
+ * artist releases the funds. Either side can cancel, and the page shows what the refund
+ * policy will do before they confirm.
+ */
+
+const STATUS_LABEL: Record<BookingInquiry['status'], string> = {
+  inquiry: 'Waiting for the artist’s quote',
+  quoted: 'Quote sent — waiting for the organizer to sign',
+  agreed: 'Agreed — deposit due',
+  deposited: 'Deposit in escrow — balance due',
+  confirmed: 'Fully paid into escrow',
+  completed: 'Completed — paid out to the artist',
+  cancelled: 'Cancelled',
+};
+
+const KEEPS_LABEL = { nothing: 'full refund', deposit: 'artist keeps the deposit', everything: 'artist keeps everything' };
+
+const input =
+  'w-full bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white placeholder-slate-500 focus:outline-none focus:border-purple-500 transition-colors';
+const button =
+  'flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed text-white font-medium px-4 py-2.5 rounded-lg transition-colors';
+
+export default function BookingAgreementPage() {
+  const params = useParams();
+  const artist = (params.artist as string).toLowerCase();
+  const inquiryId = params.inquiryId as string;
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+
+  const [booking, setBooking] = useState<BookingInquiry | null>(null);
+  const [loadError, setLoadError] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [fee, setFee] = useState('');
+  const [note, setNote] = useState('');
+  const [reason, setReason] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/epk/booking/agreement?artist=${artist}&id=${inquiryId}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error || 'Booking not found');
+      setBooking(data.booking);
+    } catch (err: any) {
+      setLoadError(err.message);
+    }
+  }, [artist, inquiryId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const me = address?.toLowerCase();
+  const role: BookingSignature['role'] = me === artist ? 'artist' : 'organizer';
+
+  const post = async (action: string, extra: Record<string, unknown> = {}) => {
+    const res = await fetch('/api/epk/booking/agreement', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(action === 'sign'
+          ? {}
+          : await authHeadersWithWalletFallback(
+              address ? { address, signMessage: signMessageAsync, context: 'epk-booking' } : null
+            )),
+      },
+      body: JSON.stringify({ action, artistAddress: artist, inquiryId, ...extra }),
+    });
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Something went wrong');
+    setBooking(data.booking);
+    return data.booking as BookingInquiry;
+  };
+
+  const run = async (label: string, task: () => Promise<unknown>) => {
+    setBusy(label);
+    setError('');
+    try {
+      await task();
+    } catch (err: any) {
+      setError(err.shortMessage || err.message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const sign = async (current: BookingInquiry) => {
+    if (!address || !current.agreement) throw new Error('Connect your wallet to sign');
+    const hash = current.agreement.hash;
+    const signature = await signMessageAsync({ message: agreementSignatureMessage(hash, role, address) });
+    await post('sign', { role, userAddress: address, hash, signature });
+  };
+
+  if (!booking) {
+    return (
+      <div className="min-h-screen bg-[#0f172a] flex items-center justify-center">
+        <p className="text-slate-400">{loadError || 'Loading booking...'}</p>
+      </div>
+    );
+  }
+
+  const now = Date.now();
+  const isArtist = role === 'artist';
+  const signedBy = (r: BookingSignature['role']) => booking.agreement?.signatures.some(s => s.role === r);
+  const open = booking.status !== 'cancelled' && booking.status !== 'completed';
+  const canQuote = isArtist && (booking.status === 'inquiry' || booking.status === 'quoted');
+  const canSign =
+    booking.status === 'quoted' &&
+    !!booking.agreement &&
+    !signedBy(role) &&
+    (isArtist || (signedBy('artist') && booking.organizerAddress === me));
+  const canCancel = open && (isArtist || (!!booking.organizerAddress && booking.organizerAddress === me));
+  const fundable = (['deposit', 'balance'] as MilestoneKind[]).filter(
+    kind => booking.organizerAddress === me && !fundingBlocker(booking, kind, now)
+  );
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-white">
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        <header>
+          <p className="text-sm text-purple-400 flex items-center gap-2 mb-2">
+            <CalendarCheck className="w-4 h-4" /> Booking agreement
+          </p>
+          <h1 className="text-3xl font-bold">{booking.eventName}</h1>
+          <p className="text-slate-400 mt-1">
+            {booking.eventDate} · {booking.location} · {booking.eventType}
+          </p>
+          <p className="text-sm text-slate-300 mt-3">{STATUS_LABEL[booking.status]}</p>
+        </header>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!address && open && (
+          <p className="text-sm text-slate-400">Connect your wallet to quote, sign or pay.</p>
+        )}
+
+        {booking.quote && (
+          <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5">
+            <h2 className="text-lg font-semibold mb-1">Fee: {booking.quote.fee} WMON</h2>
+            <p className="text-xs text-slate-500 mb-4">
+              Quote v{booking.quote.version}
+              {booking.status === 'quoted' && ` · valid until ${new Date(booking.quote.expiresAt).toLocaleDateString()}`}
+            </p>
+            <table className="w-full text-sm mb-4">
+              <tbody>
+                {(booking.milestones ?? booking.quote.milestones).map(m => (
+                  <tr key={m.kind} className="border-t border-white/5">
+                    <td className="py-2 capitalize">{m.kind}</td>
+                    <td className="py-2">{m.amount} WMON</td>
+                    <td className="py-2 text-slate-400">due {m.dueDate}</td>
+                    <td className="py-2 text-right text-slate-300">
+                      {m.status}
+                      {m.escrowId !== undefined && ` · escrow #${m.escrowId}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-sm text-slate-400">
+              If the organizer cancels:{' '}
+              {booking.quote.refundPolicy
+                .map(t => `${t.daysBefore}+ days before, ${KEEPS_LABEL[t.artistKeeps]}`)
+                .join('; ')}
+              . If the artist cancels, everything is refunded.
+            </p>
+            {booking.quote.note && <p className="text-sm text-slate-300 mt-3">{booking.quote.note}</p>}
+          </section>
+        )}
+
+        {booking.agreement && (
+          <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5">
+            <h2 className="text-lg font-semibold mb-3">Agreement</h2>
+            <pre className="text-xs text-slate-300 whitespace-pre-wrap bg-[#0f172a] rounded-lg p-4 max-h-96 overflow-y-auto">
+              {booking.agreement.text}
+            </pre>
+            <p className="text-xs text-slate-500 mt-3 break-all">Hash {booking.agreement.hash}</p>
+            {booking.agreement.signatures.map(s => (
+              <p key={s.role} className="text-xs text-green-400 mt-1 flex items-center gap-1">
+                <CheckCircle className="w-3 h-3" /> Signed by the {s.role} ({s.address.slice(0, 6)}…{s.address.slice(-4)})
+                on {new Date(s.signedAt).toLocaleDateString()}
+              </p>
+            ))}
+          </section>
+        )}
+
+        {canQuote && (
+          <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5 space-y-3">
+            <h2 className="text-lg font-semibold">{booking.quote ? 'Revise quote' : 'Send a quote'}</h2>
+            <p className="text-sm text-slate-400">
+              {booking.name}
+              {booking.company && ` (${booking.company})`} · {booking.email} · {booking.expectedAttendance || 'attendance not stated'}
+            </p>
+            <p className="text-sm text-slate-300">{booking.message}</p>
+            <input className={input} value={fee} onChange={e => setFee(e.target.value)} placeholder="Fee in WMON (blank: from your EPK pricing)" />
+            <textarea className={`${input} resize-none`} rows={2} value={note} onChange={e => setNote(e.target.value)} placeholder="Notes for the organizer (optional)" />
+            <button
+              className={button}
+              disabled={busy !== null}
+              onClick={() => run('quote', async () => sign(await post('quote', { fee: fee || undefined, note: note || undefined })))}
+            >
+              {busy === 'quote' && <Loader2 className="w-4 h-4 animate-spin" />} Quote and sign
+            </button>
+          </section>
+        )}
+
+        <div className="flex flex-wrap gap-3">
+          {canSign && (
+            <button className={button} disabled={busy !== null || !address} onClick={() => run('sign', () => sign(booking))}>
+              {busy === 'sign' && <Loader2 className="w-4 h-4 animate-spin" />} Sign agreement as {role}
+            </button>
+          )}
+          {fundable.map(kind => (
+            <button key={kind} className={button} disabled={busy !== null} onClick={() => run(kind, () => post('fund', { kind, userAddress: address }))}>
+              {busy === kind && <Loader2 className="w-4 h-4 animate-spin" />} Pay {kind} into escrow
+            </button>
+          ))}
+          {isArtist && !releaseBlocker(booking, now) && (
+            <button className={button} disabled={busy !== null} onClick={() => run('release', () => post('release'))}>
+              {busy === 'release' && <Loader2 className="w-4 h-4 animate-spin" />} Release payment
+            </button>
+          )}
+        </div>
+
+        {canCancel && (
+          <section className="bg-[#1e293b] rounded-xl p-6 border border-red-500/10 space-y-3">
+            <h2 className="text-lg font-semibold">{isArtist && booking.status === 'inquiry' ? 'Decline' : 'Cancel booking'}</h2>
+            <input className={input} value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason (optional)" />
+            <button
+              className={`${button} bg-red-600 hover:bg-red-700`}
+              disabled={busy !== null}
+              onClick={() => {
+                if (confirm('Cancel this booking? Escrow is settled by the refund policy in the agreement.')) {
+                  run('cancel', () => post('cancel', { userAddress: address, reason }));
+                }
+              }}
+            >
+              {busy === 'cancel' && <Loader2 className="w-4 h-4 animate-spin" />} Cancel
+            </button>
+          </section>
+        )}
+
+        {booking.cancellation && (
+          <p className="text-sm text-slate-400">
+            Cancelled by the {booking.cancellation.by} on {new Date(booking.cancellation.at).toLocaleDateString()}
+            {booking.cancellation.organizerDefaulted && ' after a missed payment'}: {KEEPS_LABEL[booking.cancellation.artistKeeps]}.
+            {booking.cancellation.reason && ` “${booking.cancellation.reason}”`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { CalendarCheck, Loader2 } from 'lucide-react';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
+import type { BookingInquiry } from '@/lib/epk/types';
+
+/**
+ * My bookings — the connected artist's inquiries and availability calendar
+ *
+ * Every inquiry links to its agreement page. The calendar lists dates held by agreed bookings
+ * and days the artist blocked by hand; both are refused to new inquiries.
+ */
+
+interface CalendarDate {
+  date: string;
+  kind: 'booked' | 'blocked';
+}
+
+const input =
+  'bg-[#0f172a] border border-white/10 rounded-lg px-4 py-2.5 text-white focus:outline-none focus:border-purple-500 transition-colors';
+
+export default function MyBookingsPage() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const artist = address?.toLowerCase();
+
+  const [inquiries, setInquiries] = useState<BookingInquiry[]>([]);
+  const [dates, setDates] = useState<CalendarDate[]>([]);
+  const [blockDate, setBlockDate] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const authHeaders = useCallback(
+    () => authHeadersWithWalletFallback(address ? { address, signMessage: signMessageAsync, context: 'epk-booking' } : null),
+    [address, signMessageAsync]
+  );
+
+  const load = useCallback(async () => {
+    if (!artist) return;
+    try {
+      const [bookingsRes, calendarRes] = await Promise.all([
+        fetch(`/api/epk/booking?artist=${artist}`),
+        fetch(`/api/epk/calendar?artist=${artist}`),
+      ]);
+      const bookings = await bookingsRes.json();
+      const calendar = await calendarRes.json();
+      if (bookings.success) setInquiries(bookings.inquiries);
+      if (calendar.success) setDates(calendar.dates);
+    } catch {
+      // Keep showing what loaded last
+    }
+  }, [artist]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const editCalendar = async (action: 'block' | 'unblock', date: string) => {
+    setBusy(date);
+    setError('');
+    try {
+      const res = await fetch('/api/epk/calendar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ artistAddress: artist, action, date }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setDates(data.dates);
+      setBlockDate('');
+    } catch (err: any) {
+      setError(err.message || 'Calendar update failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!artist) {
+    return (
+      <div className="min-h-screen bg-[#0f172a] flex items-center justify-center">
+        <p className="text-slate-400">Connect your wallet to see your bookings.</p>
+      </div>
+    );
+  }
+
+  const eventOn = (date: string) =>
+    inquiries.find(i => i.eventDate === date && !['inquiry', 'quoted', 'cancelled'].includes(i.status))?.eventName;
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-white">
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <CalendarCheck className="w-7 h-7 text-purple-400" /> Bookings
+        </h1>
+
+        <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5">
+          <h2 className="text-lg font-semibold mb-4">Inquiries</h2>
+          {inquiries.length === 0 ? (
+            <p className="text-sm text-slate-400">No booking inquiries yet. Share your EPK page to start receiving bookings.</p>
+          ) : (
+            <ul className="divide-y divide-white/5">
+              {inquiries.map(inquiry => (
+                <li key={inquiry.id} className="py-3 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <a href={`/epk/booking/${artist}/${inquiry.id}`} className="font-medium hover:text-purple-400">
+                      {inquiry.eventName}
+                    </a>
+                    <p className="text-sm text-slate-400 truncate">
+                      {inquiry.eventDate} · {inquiry.location} · {inquiry.name}
+                    </p>
+                  </div>
+                  <span className="text-xs text-slate-300 bg-white/5 rounded-full px-3 py-1 flex-shrink-0">{inquiry.status}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5">
+          <h2 className="text-lg font-semibold mb-4">Availability</h2>
+          <div className="flex gap-3 mb-4">
+            <input type="date" value={blockDate} onChange={e => setBlockDate(e.target.value)} className={input} />
+            <button
+              disabled={!blockDate || busy !== null}
+              onClick={() => editCalendar('block', blockDate)}
+              className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 disabled:opacity-50 text-white font-medium px-4 rounded-lg transition-colors"
+            >
+              {busy === blockDate && blockDate && <Loader2 className="w-4 h-4 animate-spin" />} Mark unavailable
+            </button>
+          </div>
+          {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+          {dates.length === 0 ? (
+            <p className="text-sm text-slate-400">Every upcoming date is open.</p>
+          ) : (
+            <ul className="space-y-2">
+              {dates.map(entry => (
+                <li key={entry.date} className="flex items-center justify-between text-sm">
+                  <span>
+                    {entry.date}{' '}
+                    <span className="text-slate-400">
+                      {entry.kind === 'booked' ? `booked — ${eventOn(entry.date) || 'agreed booking'}` : 'unavailable'}
+                    </span>
+                  </span>
+                  {entry.kind === 'blocked' && (
+                    <button
+                      disabled={busy !== null}
+                      onClick={() => editCalendar('unblock', entry.date)}
+                      className="text-xs text-purple-400 hover:text-purple-300"
+                    >
+                      {busy === entry.date ? 'Freeing...' : 'Free this date'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
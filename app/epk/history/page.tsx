@@ -0,0 +1,181 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAccount, useSignMessage } from 'wagmi';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
+import type { EPKVersion, FieldChange } from '@/lib/epk/versions';
+
+/**
+ * EPK version history — every published version of the connected artist's press kit
+ *
+ * Pick a version to see what changed from the one before it, field by field, and roll back to
+ * it if someone replaced something they should not have.
+ */
+
+function show(value: unknown): string {
+  if (value === undefined) return '—';
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '(empty)';
+  return String(value);
+}
+
+export default function EPKHistoryPage() {
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const artist = address?.toLowerCase();
+
+  const [versions, setVersions] = useState<EPKVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [changes, setChanges] = useState<FieldChange[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const load = useCallback(async () => {
+    if (!artist) return;
+    try {
+      const res = await fetch(`/api/epk/versions?artist=${artist}`);
+      const data = await res.json();
+      if (data.success) setVersions(data.versions);
+    } catch {
+      // Keep showing what loaded last
+    } finally {
+      setLoading(false);
+    }
+  }, [artist]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const compare = async (index: number) => {
+    const to = versions[index];
+    const from = versions[index + 1];
+    setSelected(index);
+    setChanges(null);
+    setError('');
+    if (!from) return;
+    setBusy(`diff:${index}`);
+    try {
+      const res = await fetch(`/api/epk/versions?artist=${artist}&from=${from.cid}&to=${to.cid}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setChanges(data.changes);
+    } catch (err: any) {
+      setError(err.message || 'Could not compare versions');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const rollBack = async (version: EPKVersion) => {
+    if (!confirm(`Make version ${version.number} live again? It is re-registered on-chain as the newest version.`)) return;
+    setBusy(`rollback:${version.cid}`);
+    setError('');
+    try {
+      const res = await fetch('/api/epk/versions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeadersWithWalletFallback(
+            address ? { address, signMessage: signMessageAsync, context: 'epk-edit' } : null
+          )),
+        },
+        body: JSON.stringify({ userAddress: address, cid: version.cid }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setNotice(`Version ${version.number} is live again`);
+      setSelected(null);
+      setChanges(null);
+      await load();
+    } catch (err: any) {
+      setError(err.message || 'Rollback failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!artist) {
+    return (
+      <div className="min-h-screen bg-[#0f172a] flex items-center justify-center">
+        <p className="text-slate-400">Connect your wallet to see your EPK history.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0f172a] text-white">
+      <div className="max-w-3xl mx-auto px-4 py-10 space-y-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <History className="w-7 h-7 text-purple-400" /> EPK History
+        </h1>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+        <section className="bg-[#1e293b] rounded-xl p-6 border border-white/5">
+          {loading ? (
+            <p className="text-sm text-slate-400">Loading versions...</p>
+          ) : versions.length === 0 ? (
+            <p className="text-sm text-slate-400">No published versions yet.</p>
+          ) : (
+            <ul className="divide-y divide-white/5">
+              {versions.map((version, i) => (
+                <li key={`${version.cid}-${version.publishedAt}`} className="py-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <button onClick={() => compare(i)} className="text-left min-w-0">
+                      <span className="font-medium">
+                        Version {version.number}
+                        {i === 0 && <span className="ml-2 text-xs text-green-400">live</span>}
+                        {version.source === 'rollback' && <span className="ml-2 text-xs text-amber-400">rollback</span>}
+                        {!version.onChain && <span className="ml-2 text-xs text-slate-500">not indexed on-chain</span>}
+                      </span>
+                      <p className="text-xs text-slate-400 truncate">
+                        {new Date(version.publishedAt).toLocaleString()} · {version.cid}
+                      </p>
+                    </button>
+                    {i > 0 && (
+                      <button
+                        onClick={() => rollBack(version)}
+                        disabled={busy !== null}
+                        className="flex items-center gap-1.5 text-xs text-purple-400 hover:text-purple-300 disabled:opacity-50 flex-shrink-0"
+                      >
+                        {busy === `rollback:${version.cid}` ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+                        Roll back
+                      </button>
+                    )}
+                  </div>
+
+                  {selected === i && (
+                    <div className="mt-3 bg-[#0f172a] rounded-lg p-4 text-sm">
+                      {i === versions.length - 1 ? (
+                        <p className="text-slate-400">First version — nothing to compare with.</p>
+                      ) : busy === `diff:${i}` || !changes ? (
+                        <p className="text-slate-400">Comparing with version {versions[i + 1].number}...</p>
+                      ) : changes.length === 0 ? (
+                        <p className="text-slate-400">Same content as version {versions[i + 1].number}.</p>
+                      ) : (
+                        <ul className="space-y-2">
+                          {changes.map(change => (
+                            <li key={change.path}>
+                              <code className="text-purple-300">{change.path}</code>{' '}
+                              <span className="text-xs text-slate-500">{change.kind}</span>
+                              {change.kind !== 'added' && <p className="text-red-300/80 line-through break-words">{show(change.before)}</p>}
+                              {change.kind !== 'removed' && <p className="text-green-300 break-words">{show(change.after)}</p>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
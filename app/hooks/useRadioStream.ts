@@ -8,6 +8,9 @@ import { useState, useEffect, useRef, useCallback } from 'react';
  *
  * Returns reactive state that updates instantly via SSE or
  * falls back to 5s polling if the stream drops.
+ *
+ * `stationId` picks the station (see lib/radio-stations.ts); switching it
+ * closes the stream and reconnects to the new station's channel.
  */
 
 interface RadioState {
@@ -31,6 +34,12 @@ interface RadioState {
     isAd: boolean;
     startedAt: number;
   } | null;
+  currentShow?: {
+    showId: string;
+    title: string;
+    hostAddress: string;
+    hostName?: string;
+  } | null;
   listenerCount: number;
   lastUpdated: number;
 }
@@ -61,22 +70,37 @@ interface VoiceNote {
   isAd: boolean;
 }
 
+interface ScheduledShow {
+  showId: string;
+  title: string;
+  description?: string;
+  hostAddress: string;
+  hostFid?: number;
+  hostName?: string;
+  startsAt: number;
+  endsAt: number;
+  status: 'scheduled' | 'live' | 'completed' | 'cancelled';
+  trackCount: number;
+}
+
 type ConnectionStatus = 'connecting' | 'connected' | 'fallback' | 'disconnected';
 
 interface RadioStreamResult {
   radioState: RadioState | null;
   queue: QueuedSong[];
   voiceNotes: VoiceNote[];
+  shows: ScheduledShow[];
   connectionStatus: ConnectionStatus;
   lastEvent: { type: string; data: any } | null;
 }
 
 const FALLBACK_POLL_INTERVAL = 5000; // 5s polling when SSE is down
 
-export function useRadioStream(): RadioStreamResult {
+export function useRadioStream(stationId: string = 'main'): RadioStreamResult {
   const [radioState, setRadioState] = useState<RadioState | null>(null);
   const [queue, setQueue] = useState<QueuedSong[]>([]);
   const [voiceNotes, setVoiceNotes] = useState<VoiceNote[]>([]);
+  const [shows, setShows] = useState<ScheduledShow[]>([]);
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('connecting');
   const [lastEvent, setLastEvent] = useState<{ type: string; data: any } | null>(null);
 
@@ -90,21 +114,25 @@ export function useRadioStream(): RadioStreamResult {
 
     const poll = async () => {
       try {
-        const [stateRes, queueRes, voiceRes] = await Promise.all([
-          fetch('/api/live-radio'),
-          fetch('/api/live-radio?action=queue'),
-          fetch('/api/live-radio?action=voice-notes'),
+        const station = encodeURIComponent(stationId);
+        const [stateRes, queueRes, voiceRes, showsRes] = await Promise.all([
+          fetch(`/api/live-radio?station=${station}`),
+          fetch(`/api/live-radio?action=queue&station=${station}`),
+          fetch(`/api/live-radio?action=voice-notes&station=${station}`),
+          fetch('/api/live-radio/shows'),
         ]);
 
-        const [stateData, queueData, voiceData] = await Promise.all([
+        const [stateData, queueData, voiceData, showsData] = await Promise.all([
           stateRes.json(),
           queueRes.json(),
           voiceRes.json(),
+          showsRes.json(),
         ]);
 
         if (stateData.success) setRadioState(stateData.state);
         if (queueData.success) setQueue(queueData.queue || []);
         if (voiceData.success) setVoiceNotes(voiceData.voiceNotes || []);
+        if (showsData.success) setShows(showsData.shows || []);
       } catch (error) {
         console.error('[useRadioStream] Polling failed:', error);
       }
@@ -113,7 +141,7 @@ export function useRadioStream(): RadioStreamResult {
     poll(); // Immediate first poll
     pollIntervalRef.current = setInterval(poll, FALLBACK_POLL_INTERVAL);
     console.log('[useRadioStream] Fallback polling started (5s interval)');
-  }, []);
+  }, [stationId]);
 
   const stopPolling = useCallback(() => {
     if (pollIntervalRef.current) {
@@ -132,8 +160,13 @@ export function useRadioStream(): RadioStreamResult {
     }
 
     setConnectionStatus('connecting');
+    setRadioState(null);
+    setQueue([]);
+    setVoiceNotes([]);
 
-    const es = new EventSource('/api/live-radio/stream');
+    const es = new EventSource(
+      `/api/live-radio/stream?station=${encodeURIComponent(stationId)}`,
+    );
     eventSourceRef.current = es;
 
     // Handle initial state
@@ -143,6 +176,7 @@ export function useRadioStream(): RadioStreamResult {
         if (data.state) setRadioState(data.state);
         if (data.queue) setQueue(data.queue);
         if (data.voiceNotes) setVoiceNotes(data.voiceNotes);
+        if (data.shows) setShows(data.shows);
         setConnectionStatus('connected');
         stopPolling(); // SSE is live — stop polling
         console.log('[useRadioStream] SSE connected, initial state received');
@@ -173,6 +207,17 @@ export function useRadioStream(): RadioStreamResult {
       }
     });
 
+    // Show calendar updates (booked, cancelled, on air, ended)
+    es.addEventListener('shows_update', (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        if (data.shows) setShows(data.shows);
+        setLastEvent({ type: 'shows_update', data });
+      } catch (error) {
+        console.error('[useRadioStream] Failed to parse shows_update:', error);
+      }
+    });
+
     // Voice notes updates
     es.addEventListener('voice_notes_update', (event) => {
       try {
@@ -258,7 +303,7 @@ export function useRadioStream(): RadioStreamResult {
       // EventSource auto-reconnects. When it does, we'll get initial_state
       // and stop polling again. But if it stays broken, polling keeps us alive.
     };
-  }, [startPolling, stopPolling]);
+  }, [stationId, startPolling, stopPolling]);
 
   // Initialize SSE on mount
   useEffect(() => {
@@ -280,6 +325,7 @@ export function useRadioStream(): RadioStreamResult {
     radioState,
     queue,
     voiceNotes,
+    shows,
     connectionStatus,
     lastEvent,
   };
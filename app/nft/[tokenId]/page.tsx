@@ -7,6 +7,8 @@ import { monadTestnet } from "@/app/chains";
 import { useAccount } from "wagmi";
 import { useFarcasterContext } from "@/app/hooks/useFarcasterContext";
 import { useBotCommand } from "@/app/hooks/useBotCommand";
+import SplitSheetPanel from "@/components/rights/SplitSheetPanel";
+import DisputePanel from "@/components/rights/DisputePanel";
 
 interface NFTData {
   tokenId: string;
@@ -718,6 +720,24 @@ export default function NFTPage() {
           )}
         </div>
 
+        {/* Royalty Splits - Music NFTs only */}
+        {!isArt && nftData.artistAddress.startsWith("0x") && (
+          <SplitSheetPanel
+            tokenId={nftData.tokenId}
+            artistAddress={nftData.artistAddress}
+            viewerAddress={walletAddress || connectedAddress || null}
+          />
+        )}
+
+        {/* Rights disputes - Music NFTs only */}
+        {!isArt && nftData.artistAddress.startsWith("0x") && (
+          <DisputePanel
+            tokenId={nftData.tokenId}
+            artistAddress={nftData.artistAddress}
+            viewerAddress={walletAddress || connectedAddress || null}
+          />
+        )}
+
         {/* Info Footer */}
         <div className="text-center space-y-2 text-gray-400 text-xs">
           <p>⚡ Powered by EmpowerTours on Monad</p>
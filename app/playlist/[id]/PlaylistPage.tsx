@@ -0,0 +1,135 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { Copy, Check, Music2, Users } from 'lucide-react';
+import type { Playlist } from '@/lib/playlists';
+import { authHeaders } from '@/lib/quick-auth-client';
+
+const IPFS_GATEWAY = 'https://harlequin-used-hare-224.mypinata.cloud/ipfs/';
+
+interface PlaylistPageProps {
+  id: string;
+}
+
+export default function PlaylistPage({ id }: PlaylistPageProps) {
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    async function fetchPlaylist() {
+      try {
+        // Editors of a private playlist see it through their session
+        const res = await fetch(`/api/music/playlist?id=${encodeURIComponent(id)}`, {
+          headers: await authHeaders(),
+        });
+        const data = await res.json();
+
+        if (!res.ok || !data.success) {
+          setError(data.error || 'Playlist not found');
+          return;
+        }
+
+        setPlaylist(data.playlist);
+        setCanEdit(!!data.canEdit);
+      } catch (err: any) {
+        setError(err.message || 'Failed to load playlist');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchPlaylist();
+  }, [id]);
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#020617] flex items-center justify-center">
+        <div className="w-8 h-8 border-2 border-cyan-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !playlist) {
+    return (
+      <div className="min-h-screen bg-[#020617] flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-white mb-2">Playlist Not Found</h1>
+          <p className="text-slate-400">{error || 'This playlist does not exist or is private.'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const image = (url: string) => url.replace('ipfs://', IPFS_GATEWAY);
+
+  return (
+    <div className="min-h-screen bg-[#020617]">
+      <section className="relative overflow-hidden">
+        <div className="absolute inset-0 bg-gradient-to-br from-[#020617] via-[#083344] to-[#1e1b4b]" />
+        <div className="relative max-w-3xl mx-auto px-4 sm:px-6 py-16">
+          <p className="text-xs font-mono tracking-widest text-cyan-400 mb-3 flex items-center gap-2">
+            {playlist.editors.length > 0 && <Users className="w-3.5 h-3.5" />}
+            {playlist.editors.length > 0 ? 'COLLABORATIVE PLAYLIST' : 'PLAYLIST'}
+          </p>
+          <h1 className="text-4xl sm:text-5xl font-bold text-white mb-4">{playlist.name}</h1>
+          {playlist.description && (
+            <p className="text-slate-300 mb-6">{playlist.description}</p>
+          )}
+          <p className="text-slate-400 text-sm mb-8">
+            {playlist.tracks.length} {playlist.tracks.length === 1 ? 'track' : 'tracks'}
+          </p>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href="/oracle"
+              className="inline-flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-black font-medium px-6 py-3 rounded-lg transition-colors"
+            >
+              <Music2 className="w-4 h-4" />
+              {canEdit ? 'Edit in the Music Player' : 'Listen on EmpowerTours'}
+            </a>
+            <button
+              onClick={copyLink}
+              className="inline-flex items-center gap-2 bg-white/10 hover:bg-white/20 text-white font-medium px-6 py-3 rounded-lg border border-white/10 transition-colors"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+              {copied ? 'Copied' : 'Copy Link'}
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 py-8 space-y-2">
+        {playlist.tracks.map((track, index) => (
+          <div key={track.tokenId} className="flex items-center gap-4 p-3 rounded-xl bg-white/5">
+            <span className="w-6 text-right text-sm text-slate-500">{index + 1}</span>
+            <div className="w-12 h-12 rounded-lg overflow-hidden bg-gradient-to-br from-cyan-500/20 to-purple-600/20 flex items-center justify-center flex-shrink-0">
+              {track.imageUrl ? (
+                <Image src={image(track.imageUrl)} alt={track.name} width={48} height={48} unoptimized className="w-full h-full object-cover" />
+              ) : (
+                <Music2 className="w-5 h-5 text-cyan-400" />
+              )}
+            </div>
+            <div className="flex-1 min-w-0">
+              <div className="text-white text-sm font-semibold truncate">{track.name}</div>
+              <div className="text-xs text-slate-400 truncate">
+                {track.artistUsername ? `@${track.artistUsername}` : track.artist}
+              </div>
+            </div>
+          </div>
+        ))}
+        {playlist.tracks.length === 0 && (
+          <p className="text-center text-slate-500 py-12">No tracks yet.</p>
+        )}
+      </div>
+    </div>
+  );
+}
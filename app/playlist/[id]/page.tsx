@@ -0,0 +1,71 @@
+import { Metadata } from 'next';
+import PlaylistPage from './PlaylistPage';
+
+const APP_URL = process.env.NEXT_PUBLIC_URL || 'https://fcempowertours-production-6551.up.railway.app';
+const IPFS_GATEWAY = 'https://harlequin-used-hare-224.mypinata.cloud/ipfs/';
+
+interface Props {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+
+  // Only playlists shared by link or public load without a session, so a private one falls
+  // through to the default card rather than leaking its name.
+  try {
+    const res = await fetch(`${APP_URL}/api/music/playlist?id=${encodeURIComponent(id)}`, {
+      next: { revalidate: 60 },
+    });
+
+    if (res.ok) {
+      const { playlist } = await res.json();
+
+      if (playlist) {
+        const title = `${playlist.name} | EmpowerTours Playlist`;
+        const description = playlist.description || `${playlist.tracks.length} tracks on EmpowerTours`;
+        const cover = (playlist.tracks.find((t: { imageUrl: string }) => t.imageUrl)?.imageUrl || '')
+          .replace('ipfs://', IPFS_GATEWAY);
+        const ogImage = `${APP_URL}/api/og/playlist?name=${encodeURIComponent(playlist.name)}&tracks=${playlist.tracks.length}&cover=${encodeURIComponent(cover)}&collab=${playlist.editors.length > 0}`;
+
+        return {
+          title,
+          description,
+          openGraph: {
+            title,
+            description,
+            images: [{ url: ogImage, width: 1200, height: 630 }],
+            type: 'music.playlist',
+          },
+          twitter: {
+            card: 'summary_large_image',
+            title,
+            description,
+            images: [ogImage],
+          },
+          other: {
+            'fc:frame': 'vNext',
+            'fc:frame:image': ogImage,
+            'fc:frame:image:aspect_ratio': '1.91:1',
+            'fc:frame:button:1': 'Open Playlist',
+            'fc:frame:button:1:action': 'link',
+            'fc:frame:button:1:target': `${APP_URL}/playlist/${id}`,
+          },
+        };
+      }
+    }
+  } catch {
+    // Fall through to default
+  }
+
+  return {
+    title: 'Playlist | EmpowerTours',
+    description: 'A playlist on EmpowerTours',
+  };
+}
+
+export default async function PlaylistPageRoute({ params }: Props) {
+  const { id } = await params;
+
+  return <PlaylistPage id={id} />;
+}
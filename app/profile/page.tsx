@@ -14,6 +14,8 @@ import AnimatedLoader from "@/app/components/animations/AnimatedLoader";
 import { AnimatedStatCard } from "@/app/components/animations/AnimatedCard";
 import UserSafeWidget from "@/app/components/UserSafeWidget";
 import { claimArtistPayoutsFromEOA } from "@/lib/artist-claim";
+import { monthIdAt, monthWindow } from "@/lib/earnings-statement";
+import SplitSettlement from "@/components/rights/SplitSettlement";
 
 const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT!;
 
@@ -1567,6 +1569,58 @@ export default function ProfilePage() {
                         </p>
                       </div>
                     )}
+
+                  {/* What co-owners on split sheets are owed */}
+                  {walletAddress && (
+                    <SplitSettlement artistAddress={walletAddress} />
+                  )}
+
+                  {/* Monthly statements for accountants */}
+                  <div className="mt-5 p-4 bg-gray-50 border border-gray-200 rounded-xl">
+                    <h4 className="text-sm font-bold text-gray-900 mb-1 flex items-center gap-1">
+                      <span>🧾</span> Monthly Statements
+                    </h4>
+                    <p className="text-xs text-gray-500 mb-3">
+                      Plays, pool share, licenses, tips and TOURS with
+                      transaction hashes, checked against on-chain payouts.
+                    </p>
+                    <div className="space-y-2">
+                      {[1, 2, 3].map((ago) => {
+                        const monthId =
+                          monthIdAt(Math.floor(Date.now() / 1000)) - ago;
+                        const { start } = monthWindow(monthId);
+                        const href = `/api/artist-earnings/statement?address=${walletAddress}&month=${monthId}`;
+                        return (
+                          <div
+                            key={monthId}
+                            className="flex justify-between items-center text-sm bg-white rounded-lg px-3 py-2 border border-gray-200"
+                          >
+                            <span className="text-gray-600">
+                              Month #{monthId}
+                              <span className="text-xs text-gray-400 ml-2">
+                                from{" "}
+                                {new Date(start * 1000).toLocaleDateString()}
+                              </span>
+                            </span>
+                            <span className="flex gap-3 text-xs font-medium">
+                              <a
+                                href={`${href}&format=csv`}
+                                className="text-purple-600 hover:underline"
+                              >
+                                CSV
+                              </a>
+                              <a
+                                href={`${href}&format=pdf`}
+                                className="text-purple-600 hover:underline"
+                              >
+                                PDF
+                              </a>
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
                 </>
               ) : (
                 <div className="text-center py-4">
@@ -1,15 +1,22 @@
 'use client';
 
 import { authHeaders } from '@/lib/quick-auth-client';
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
-import { useAccount } from 'wagmi';
+import { useAccount, useSignMessage } from 'wagmi';
+import Image from 'next/image';
+import QRCode from 'qrcode';
 
 /**
  * Venue Owner Dashboard
  *
  * Requires wallet connection (venue owner only).
- * Registration, settings, analytics, catalog browser, API key management.
+ * Registration, settings, analytics, catalog browser, API key management,
+ * zones and their schedules, plan, usage and invoices. Managers and staff
+ * sign in with their own wallet or Farcaster account; what they see
+ * follows their permissions. The team tab manages members, keys and the
+ * audit log. Jukebox mode and its QR code are set up under settings.
  */
 
 interface Venue {
@@ -30,6 +37,108 @@ interface VenuePlaybackState {
   songsPlayedToday: number;
   totalSongsPlayed: number;
   lastUpdated: number;
+  billingHold?: string | null;
+}
+
+interface VenueZone {
+  zoneId: string;
+  name: string;
+  schedule: {
+    timezone: string;
+    dayparts: any[];
+    defaultVolume: number;
+  };
+  createdAt: string;
+}
+
+interface VenueDevice {
+  address: string;
+  name: string;
+  zoneId: string;
+  registeredAt: number;
+  revokedAt?: number;
+  lastPlayEnd?: number;
+}
+
+interface VenuePlan {
+  id: string;
+  name: string;
+  monthlyWmon: string;
+  maxZones: number;
+  maxDevices: number;
+  includedHours: number | null;
+  overageWmonPerHour: string | null;
+}
+
+interface VenueInvoice {
+  invoiceId: string;
+  period: string;
+  planId: string;
+  totalWei: string;
+  payTo: string;
+  dueAt: number;
+  status: 'open' | 'paid';
+  payment?: { txHash: string };
+}
+
+interface VenueBilling {
+  plan: string;
+  plans: Record<string, VenuePlan>;
+  usage: { seconds: number; plays: number };
+  access: { ok: boolean; message?: string; warnings: string[] };
+  invoices: VenueInvoice[];
+}
+
+interface VenueActor {
+  memberId: string | null;
+  name: string;
+  role: 'owner' | 'manager' | 'staff';
+  permissions: string[];
+  zoneId: string | null;
+}
+
+interface VenueMember {
+  memberId: string;
+  role: 'owner' | 'manager' | 'staff';
+  name: string;
+  address?: string;
+  fid?: number;
+  permissions?: string[];
+}
+
+interface VenueApiKey {
+  keyId: string;
+  name: string;
+  memberId: string;
+  zoneId: string | null;
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+interface AuditEntry {
+  at: number;
+  name: string;
+  action: string;
+  zoneId?: string;
+  detail?: string;
+}
+
+interface JukeboxSettings {
+  enabled: boolean;
+  zoneId: string;
+  requestsPerPatron: number;
+  windowMinutes: number;
+  bannedTokenIds: string[];
+  energy: { min: string; max: string } | null;
+  priceWmon: string;
+}
+
+interface JukeboxRequest {
+  tokenId: string;
+  name: string;
+  artist: string;
+  votes: number;
 }
 
 interface CatalogSong {
@@ -53,16 +162,56 @@ export default function VenueDashboardPage() {
   const params = useParams();
   const venueId = params.venueId as string;
   const { address, isConnected } = useAccount();
+  const { signMessageAsync } = useSignMessage();
 
   const [venue, setVenue] = useState<Venue | null>(null);
   const [state, setState] = useState<VenuePlaybackState | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [catalog, setCatalog] = useState<CatalogSong[]>([]);
+  const [playlistLink, setPlaylistLink] = useState('');
   const [apiKey, setApiKey] = useState<string | null>(null);
   const [newApiKey, setNewApiKey] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [tab, setTab] = useState<'overview' | 'catalog' | 'settings'>('overview');
+  const [tab, setTab] = useState<'overview' | 'catalog' | 'settings' | 'team'>('overview');
+  const [me, setMe] = useState<VenueActor | null>(null);
+  const [memberRole, setMemberRole] = useState<string | null>(null);
+
+  // Zones
+  const [zones, setZones] = useState<VenueZone[]>([]);
+  const [editingZone, setEditingZone] = useState<string | null>(null);
+  const [scheduleDraft, setScheduleDraft] = useState('');
+  const [newZoneName, setNewZoneName] = useState('');
+  const [zoneKey, setZoneKey] = useState<{ zoneId: string; apiKey: string } | null>(null);
+  const [zoneError, setZoneError] = useState<string | null>(null);
+  const [devices, setDevices] = useState<VenueDevice[]>([]);
+
+  // Plan and invoices
+  const [billing, setBilling] = useState<VenueBilling | null>(null);
+  const [billingError, setBillingError] = useState<string | null>(null);
+  const [paymentTx, setPaymentTx] = useState<Record<string, string>>({});
+
+  // Jukebox (patron requests)
+  const [jukebox, setJukebox] = useState<JukeboxSettings | null>(null);
+  const [jukeboxDraft, setJukeboxDraft] = useState({ requestsPerPatron: '', windowMinutes: '', priceWmon: '', banned: '', energy: '' });
+  const [jukeboxRequests, setJukeboxRequests] = useState<JukeboxRequest[]>([]);
+  const [jukeboxLink, setJukeboxLink] = useState<string | null>(null);
+  const [jukeboxQr, setJukeboxQr] = useState<string | null>(null);
+  const [jukeboxError, setJukeboxError] = useState<string | null>(null);
+
+  // Team (members, keys, audit)
+  const [members, setMembers] = useState<VenueMember[]>([]);
+  const [keys, setKeys] = useState<VenueApiKey[]>([]);
+  const [audit, setAudit] = useState<AuditEntry[]>([]);
+  const [newMember, setNewMember] = useState({ name: '', address: '', fid: '', role: 'staff' });
+  const [newKeyName, setNewKeyName] = useState('');
+  const [newKeyZone, setNewKeyZone] = useState('');
+  const [issuedKey, setIssuedKey] = useState<{ name: string; apiKey: string } | null>(null);
+  const [teamError, setTeamError] = useState<string | null>(null);
+
+  // Performance report range, UTC days
+  const [reportFrom, setReportFrom] = useState(() => `${new Date().toISOString().slice(0, 7)}-01`);
+  const [reportTo, setReportTo] = useState(() => new Date().toISOString().slice(0, 10));
 
   // Registration form state
   const [regName, setRegName] = useState('');
@@ -78,10 +227,14 @@ export default function VenueDashboardPage() {
       const res = await fetch(`/api/venue/register?address=${address}`);
       const data = await res.json();
 
-      if (data.hasVenue) {
-        setVenue(data.venue);
+      // The owner's own venue, else this venue if the wallet works here
+      const membership = (data.memberOf || []).find((m: { venueId: string }) => m.venueId === venueId);
+      const found = data.hasVenue ? data.venue : membership;
+      if (found) {
+        setVenue(found);
+        setMemberRole(data.hasVenue ? null : membership.role);
         // Load the stored API key from localStorage
-        const storedKey = localStorage.getItem(`venue-key:${data.venue.venueId}`);
+        const storedKey = localStorage.getItem(`venue-key:${found.venueId}`);
         if (storedKey) setApiKey(storedKey);
       }
     } catch (err: any) {
@@ -89,7 +242,7 @@ export default function VenueDashboardPage() {
     } finally {
       setLoading(false);
     }
-  }, [address]);
+  }, [address, venueId]);
 
   useEffect(() => {
     checkRegistration();
@@ -108,8 +261,18 @@ export default function VenueDashboardPage() {
         if (data.success) {
           setState(data.state);
           setHistory(data.history || []);
+          setZones(data.zones || []);
+          setDevices(data.devices || []);
+          setBilling(data.billing || null);
+          setMe(data.me || null);
+        } else if (res.status === 401) {
+          // Revoked, or the member was removed: back to sign-in
+          localStorage.removeItem(`venue-key:${venue.venueId}`);
+          setApiKey(null);
         }
-      } catch {}
+      } catch {
+        // Keep the last state; the next poll tries again
+      }
     };
 
     fetchData();
@@ -126,7 +289,9 @@ export default function VenueDashboardPage() {
         const res = await fetch(`/api/venue/${venue.venueId}/catalog?key=${apiKey}`);
         const data = await res.json();
         if (data.success) setCatalog(data.songs);
-      } catch {}
+      } catch {
+        // Keep the last list; opening the tab again retries
+      }
     };
 
     fetchCatalog();
@@ -189,6 +354,296 @@ export default function VenueDashboardPage() {
     }
   };
 
+  // Queue a shared playlist, pasted as its link or id
+  const handleQueuePlaylist = async () => {
+    if (!venue || !apiKey) return;
+    const playlistId = playlistLink.match(/pl_[0-9a-f]{16}/)?.[0];
+    if (!playlistId) {
+      alert('Paste a playlist link (…/playlist/pl_…)');
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}`, {
+        method: 'POST',
+        headers: { 'X-Venue-Key': apiKey, 'Content-Type': 'application/json', ...(await authHeaders()) },
+        body: JSON.stringify({ action: 'queue_playlist', playlistId }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setPlaylistLink('');
+      alert(data.skipped.length
+        ? `${data.message}. ${data.skipped.length} not rights-cleared for venues were skipped.`
+        : data.message);
+    } catch (err: any) {
+      alert(`Failed to queue playlist: ${err.message}`);
+    }
+  };
+
+  // Zone management (venue key only)
+  const zoneAction = async (body: Record<string, unknown>) => {
+    if (!venue || !apiKey) return null;
+    setZoneError(null);
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}`, {
+        method: 'POST',
+        headers: { 'X-Venue-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        throw new Error(data.errors ? data.errors.join('; ') : data.error);
+      }
+      return data;
+    } catch (err: any) {
+      setZoneError(err.message || 'Zone update failed');
+      return null;
+    }
+  };
+
+  const refreshZones = async () => {
+    if (!venue || !apiKey) return;
+    const res = await fetch(`/api/venue/${venue.venueId}`, { headers: { 'X-Venue-Key': apiKey } });
+    const data = await res.json();
+    if (data.success) setZones(data.zones || []);
+  };
+
+  const handleCreateZone = async () => {
+    if (!newZoneName.trim()) return;
+    const data = await zoneAction({ action: 'create_zone', name: newZoneName.trim() });
+    if (data) {
+      setZoneKey({ zoneId: data.zone.zoneId, apiKey: data.apiKey });
+      setNewZoneName('');
+      await refreshZones();
+    }
+  };
+
+  const handleSaveSchedule = async (zoneId: string) => {
+    let schedule: unknown;
+    try {
+      schedule = JSON.parse(scheduleDraft);
+    } catch {
+      setZoneError('Schedule is not valid JSON');
+      return;
+    }
+    const data = await zoneAction({ action: 'update_zone', zoneId, schedule });
+    if (data) {
+      setEditingZone(null);
+      await refreshZones();
+    }
+  };
+
+  const handleDeleteZone = async (zone: VenueZone) => {
+    if (!confirm(`Delete zone "${zone.name}"? Its queue and history are removed.`)) return;
+    if (await zoneAction({ action: 'delete_zone', zoneId: zone.zoneId })) await refreshZones();
+  };
+
+  const handleRotateZoneKey = async (zone: VenueZone) => {
+    if (!confirm(`Issue a new key for "${zone.name}"? Devices using the old key stop working.`)) return;
+    const data = await zoneAction({ action: 'rotate_zone_key', zoneId: zone.zoneId });
+    if (data) setZoneKey({ zoneId: zone.zoneId, apiKey: data.apiKey });
+  };
+
+  const handleRevokeDevice = async (device: VenueDevice) => {
+    if (!venue || !apiKey) return;
+    if (!confirm(`Revoke "${device.name}"? Its unsent offline plays will no longer count.`)) return;
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}/device?key=${apiKey}&zone=${device.zoneId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'revoke_device', data: { address: device.address } }),
+      });
+      const data = await res.json();
+      if (!data.ok) throw new Error(data.error);
+      setDevices(devices.map(d => d.address === device.address ? data.device : d));
+    } catch (err: any) {
+      alert(`Failed to revoke: ${err.message}`);
+    }
+  };
+
+  // Sign in as a member with wallet or Farcaster, for a key of one's own
+  const handleMemberSignIn = async () => {
+    if (!venue || !address) return;
+    setTeamError(null);
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}/staff`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await authHeadersWithWalletFallback({
+            address,
+            signMessage: signMessageAsync,
+            context: 'venue-staff-key',
+          })),
+        },
+        body: JSON.stringify({ action: 'claim_key', address, name: 'Dashboard sign-in' }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      localStorage.setItem(`venue-key:${venue.venueId}`, data.apiKey);
+      setApiKey(data.apiKey);
+    } catch (err: any) {
+      setTeamError(err.message || 'Sign-in failed');
+    }
+  };
+
+  const loadTeam = useCallback(async () => {
+    if (!venue || !apiKey) return;
+    const res = await fetch(`/api/venue/${venue.venueId}/staff`, { headers: { 'X-Venue-Key': apiKey } });
+    const data = await res.json();
+    if (data.success) {
+      setMembers(data.members || []);
+      setKeys(data.keys || []);
+      setAudit(data.audit || []);
+    }
+  }, [venue, apiKey]);
+
+  useEffect(() => {
+    if (tab === 'team') loadTeam();
+  }, [tab, loadTeam]);
+
+  const teamAction = async (body: Record<string, unknown>) => {
+    if (!venue || !apiKey) return null;
+    setTeamError(null);
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}/staff`, {
+        method: 'POST',
+        headers: { 'X-Venue-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      await loadTeam();
+      return data;
+    } catch (err: any) {
+      setTeamError(err.message || 'Team update failed');
+      return null;
+    }
+  };
+
+  const handleAddMember = async () => {
+    const data = await teamAction({
+      action: 'add_member',
+      name: newMember.name,
+      role: newMember.role,
+      address: newMember.address.trim(),
+      fid: newMember.fid.trim(),
+    });
+    if (data) setNewMember({ name: '', address: '', fid: '', role: 'staff' });
+  };
+
+  const handleCreateKey = async () => {
+    if (!newKeyName.trim()) return;
+    const data = await teamAction({ action: 'create_key', name: newKeyName.trim(), zoneId: newKeyZone || undefined });
+    if (data) {
+      setIssuedKey({ name: data.key.name, apiKey: data.apiKey });
+      setNewKeyName('');
+    }
+  };
+
+  const can = (permission: string) => !!me?.permissions.includes(permission);
+
+  // Jukebox (schedule permission)
+  const showJukebox = (settings: JukeboxSettings, link: string | null) => {
+    setJukebox(settings);
+    setJukeboxLink(link);
+    setJukeboxDraft({
+      requestsPerPatron: String(settings.requestsPerPatron),
+      windowMinutes: String(settings.windowMinutes),
+      priceWmon: settings.priceWmon,
+      banned: settings.bannedTokenIds.join(', '),
+      energy: settings.energy ? `${settings.energy.min}-${settings.energy.max}` : '',
+    });
+  };
+
+  const loadJukebox = useCallback(async () => {
+    if (!venue || !apiKey) return;
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}/jukebox`, { headers: { 'X-Venue-Key': apiKey } });
+      const data = await res.json();
+      if (data.success && data.settings) {
+        showJukebox(data.settings, data.link);
+        setJukeboxRequests(data.requests || []);
+      }
+    } catch {
+      // The tab keeps what it last loaded; opening it again retries
+    }
+  }, [venue, apiKey]);
+
+  useEffect(() => {
+    if (tab === 'settings' && me?.permissions.includes('schedule')) loadJukebox();
+  }, [tab, me, loadJukebox]);
+
+  useEffect(() => {
+    if (!jukeboxLink) {
+      setJukeboxQr(null);
+      return;
+    }
+    QRCode.toDataURL(jukeboxLink, { width: 240, margin: 2 })
+      .then(setJukeboxQr)
+      .catch(() => setJukeboxQr(null));
+  }, [jukeboxLink]);
+
+  const jukeboxAction = async (body: Record<string, unknown>) => {
+    if (!venue || !apiKey) return;
+    setJukeboxError(null);
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}/jukebox`, {
+        method: 'POST',
+        headers: { 'X-Venue-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.errors?.join('; ') || data.error);
+      await loadJukebox();
+    } catch (err: any) {
+      setJukeboxError(err.message || 'Jukebox update failed');
+    }
+  };
+
+  const handleSaveJukebox = async () => {
+    const [min, max] = jukeboxDraft.energy ? jukeboxDraft.energy.split('-') : [];
+    await jukeboxAction({
+      action: 'configure',
+      requestsPerPatron: jukeboxDraft.requestsPerPatron,
+      windowMinutes: jukeboxDraft.windowMinutes,
+      priceWmon: jukeboxDraft.priceWmon,
+      bannedTokenIds: jukeboxDraft.banned.split(/[\s,]+/).filter(Boolean),
+      energy: min ? { min, max } : null,
+    });
+  };
+
+  // Billing (venue key only)
+  const billingAction = async (body: Record<string, unknown>) => {
+    if (!venue || !apiKey) return;
+    setBillingError(null);
+    try {
+      const res = await fetch(`/api/venue/${venue.venueId}`, {
+        method: 'POST',
+        headers: { 'X-Venue-Key': apiKey, 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      const refreshed = await fetch(`/api/venue/${venue.venueId}`, { headers: { 'X-Venue-Key': apiKey } });
+      const next = await refreshed.json();
+      if (next.success) setBilling(next.billing || null);
+    } catch (err: any) {
+      setBillingError(err.message || 'Billing update failed');
+    }
+  };
+
+  const handleChangePlan = async (plan: VenuePlan) => {
+    if (!confirm(`Move to the ${plan.name} plan (${plan.monthlyWmon} WMON/month)? This month is billed at the dearer plan.`)) return;
+    await billingAction({ action: 'set_plan', plan: plan.id });
+  };
+
+  const handlePayInvoice = async (invoice: VenueInvoice) => {
+    const txHash = (paymentTx[invoice.invoiceId] || '').trim();
+    if (!txHash) return;
+    await billingAction({ action: 'pay_invoice', invoiceId: invoice.invoiceId, txHash });
+  };
+
   // Styles
   const card: React.CSSProperties = {
     background: 'rgba(255,255,255,0.05)',
@@ -214,6 +669,16 @@ export default function VenueDashboardPage() {
     border: '1px solid rgba(255,255,255,0.2)',
   };
 
+  const field: React.CSSProperties = {
+    padding: '8px 12px',
+    borderRadius: 8,
+    border: '1px solid rgba(255,255,255,0.15)',
+    background: 'rgba(255,255,255,0.05)',
+    color: '#fff',
+    fontSize: 14,
+    outline: 'none',
+  };
+
   // Not connected
   if (!isConnected) {
     return (
@@ -400,8 +865,18 @@ export default function VenueDashboardPage() {
           <div style={{ ...card, maxWidth: 500 }}>
             <h3 style={{ marginBottom: 12 }}>Enter API Key</h3>
             <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.5)', marginBottom: 16 }}>
-              Enter the API key you received during registration.
+              {memberRole
+                ? `You are ${memberRole === 'manager' ? 'a manager' : 'staff'} here. Sign in to get a key of your own, or enter one you were given.`
+                : 'Enter the API key you received during registration.'}
             </p>
+            {memberRole && (
+              <button onClick={handleMemberSignIn} style={{ ...btnOutline, fontSize: 13, marginBottom: 12 }}>
+                Sign in as team member
+              </button>
+            )}
+            {teamError && (
+              <p style={{ color: '#ef4444', fontSize: 13, marginBottom: 12 }}>{teamError}</p>
+            )}
             <input
               type="text"
               placeholder="vk_..."
@@ -437,7 +912,9 @@ export default function VenueDashboardPage() {
             borderBottom: '1px solid rgba(255,255,255,0.08)',
             padding: '0 24px',
           }}>
-            {(['overview', 'catalog', 'settings'] as const).map(t => (
+            {(['overview', 'catalog', 'settings', 'team'] as const)
+              .filter(t => t !== 'team' || can('staff') || can('keys'))
+              .map(t => (
               <button
                 key={t}
                 onClick={() => setTab(t)}
@@ -490,9 +967,9 @@ export default function VenueDashboardPage() {
                     <div style={{
                       fontSize: 16,
                       fontWeight: 600,
-                      color: state?.isPlaying ? '#22c55e' : 'rgba(255,255,255,0.5)',
+                      color: state?.isPlaying ? '#22c55e' : state?.billingHold ? '#f59e0b' : 'rgba(255,255,255,0.5)',
                     }}>
-                      {state?.isPlaying ? 'Playing' : 'Paused'}
+                      {state?.isPlaying ? 'Playing' : state?.billingHold ? 'Held (billing)' : 'Paused'}
                     </div>
                   </div>
                 </div>
@@ -521,7 +998,7 @@ export default function VenueDashboardPage() {
                             flexShrink: 0,
                           }}>
                             {entry.imageUrl && (
-                              <img src={entry.imageUrl} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                              <Image src={entry.imageUrl} alt="" width={36} height={36} unoptimized style={{ objectFit: 'cover' }} />
                             )}
                           </div>
                           <div style={{ flex: 1 }}>
@@ -536,6 +1013,127 @@ export default function VenueDashboardPage() {
                     </div>
                   )}
                 </div>
+
+                {/* Performance report */}
+                {can('reports') && <div style={card}>
+                  <h3 style={{ fontSize: 16, marginBottom: 4 }}>Performance Report</h3>
+                  <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                    Every play in a date range with its rights agreement and on-chain record, signed for a rights
+                    organization audit. Dates are UTC; up to 93 days per report.
+                  </p>
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    {([[reportFrom, setReportFrom], [reportTo, setReportTo]] as const).map(([value, set], i) => (
+                      <input
+                        key={i}
+                        type="date"
+                        value={value}
+                        onChange={(e) => set(e.target.value)}
+                        style={{
+                          padding: '8px 12px',
+                          borderRadius: 8,
+                          border: '1px solid rgba(255,255,255,0.15)',
+                          background: 'rgba(255,255,255,0.05)',
+                          color: '#fff',
+                          fontSize: 14,
+                          outline: 'none',
+                        }}
+                      />
+                    ))}
+                    {(['csv', 'pdf'] as const).map(format => (
+                      <a
+                        key={format}
+                        href={`/api/venue/${venue.venueId}/report?key=${apiKey}&from=${reportFrom}&to=${reportTo}&format=${format}`}
+                        style={{ ...btnOutline, fontSize: 13, textDecoration: 'none' }}
+                      >
+                        Download {format.toUpperCase()}
+                      </a>
+                    ))}
+                  </div>
+                </div>}
+
+                {/* Plan and usage */}
+                {billing && (() => {
+                  const plan = billing.plans[billing.plan];
+                  const hours = Math.round((billing.usage.seconds / 3600) * 10) / 10;
+                  const activeDevices = devices.filter(d => d.revokedAt === undefined).length;
+                  return (
+                    <div style={card}>
+                      <h3 style={{ fontSize: 16, marginBottom: 4 }}>Plan &amp; Usage</h3>
+                      <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                        {plan.name}: {plan.monthlyWmon} WMON/month, invoiced on the 1st and payable in WMON within 14 days.
+                      </p>
+                      <div style={{ display: 'flex', gap: 24, fontSize: 14, marginBottom: 12, flexWrap: 'wrap' }}>
+                        <div>{hours}{plan.includedHours === null ? '' : ` / ${plan.includedHours}`} hours this month</div>
+                        <div>{zones.length} / {plan.maxZones} zones</div>
+                        <div>{activeDevices} / {plan.maxDevices} devices</div>
+                      </div>
+                      {!billing.access.ok && (
+                        <p style={{ fontSize: 13, color: '#ef4444', marginBottom: 8 }}>{billing.access.message}</p>
+                      )}
+                      {billing.access.warnings.map(w => (
+                        <p key={w} style={{ fontSize: 13, color: '#f59e0b', marginBottom: 8 }}>{w}</p>
+                      ))}
+                      {billingError && (
+                        <p style={{ fontSize: 13, color: '#ef4444', marginBottom: 8 }}>{billingError}</p>
+                      )}
+                      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 16 }}>
+                        {Object.values(billing.plans).filter(p => p.id !== plan.id).map(p => (
+                          <button key={p.id} onClick={() => handleChangePlan(p)} style={{ ...btnOutline, fontSize: 13 }}>
+                            Switch to {p.name} ({p.monthlyWmon} WMON)
+                          </button>
+                        ))}
+                      </div>
+                      {billing.invoices.length === 0 ? (
+                        <p style={{ color: 'rgba(255,255,255,0.4)', fontSize: 14 }}>No invoices yet</p>
+                      ) : (
+                        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                          {billing.invoices.map(invoice => (
+                            <div key={invoice.invoiceId} style={{
+                              display: 'flex',
+                              alignItems: 'center',
+                              gap: 12,
+                              padding: '6px 0',
+                              borderBottom: '1px solid rgba(255,255,255,0.05)',
+                              fontSize: 14,
+                              flexWrap: 'wrap',
+                            }}>
+                              <div style={{ flex: 1 }}>
+                                {invoice.period} · {Number(invoice.totalWei) / 1e18} WMON
+                                <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)' }}>
+                                  {invoice.status === 'paid'
+                                    ? `Paid ${invoice.payment?.txHash.slice(0, 10)}…`
+                                    : `Due ${new Date(invoice.dueAt).toISOString().slice(0, 10)} to ${invoice.payTo}`}
+                                </div>
+                              </div>
+                              {invoice.status === 'open' && (
+                                <>
+                                  <input
+                                    placeholder="Payment tx hash"
+                                    value={paymentTx[invoice.invoiceId] || ''}
+                                    onChange={(e) => setPaymentTx({ ...paymentTx, [invoice.invoiceId]: e.target.value })}
+                                    style={{
+                                      padding: '6px 10px',
+                                      borderRadius: 8,
+                                      border: '1px solid rgba(255,255,255,0.15)',
+                                      background: 'rgba(255,255,255,0.05)',
+                                      color: '#fff',
+                                      fontSize: 13,
+                                      outline: 'none',
+                                      width: 220,
+                                    }}
+                                  />
+                                  <button onClick={() => handlePayInvoice(invoice)} style={{ ...btnOutline, fontSize: 13 }}>
+                                    Confirm payment
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })()}
               </div>
             )}
 
@@ -547,6 +1145,19 @@ export default function VenueDashboardPage() {
                   {catalog.length} songs available — all PRO-free with on-chain rights declarations
                 </p>
 
+                <div style={{ display: 'flex', gap: 8, marginBottom: 20 }}>
+                  <input
+                    type="text"
+                    value={playlistLink}
+                    onChange={(e) => setPlaylistLink(e.target.value)}
+                    placeholder="Queue a shared playlist: paste its link"
+                    style={{ ...field, flex: 1 }}
+                  />
+                  <button onClick={handleQueuePlaylist} disabled={!playlistLink.trim()} style={{ ...btnOutline, fontSize: 13 }}>
+                    Queue Playlist
+                  </button>
+                </div>
+
                 {catalog.length === 0 ? (
                   <p style={{ color: 'rgba(255,255,255,0.4)', fontSize: 14 }}>
                     No cleared songs available yet. Artists must submit rights declarations.
@@ -570,7 +1181,7 @@ export default function VenueDashboardPage() {
                           flexShrink: 0,
                         }}>
                           {song.imageUrl && (
-                            <img src={song.imageUrl} alt="" style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                            <Image src={song.imageUrl} alt="" width={44} height={44} unoptimized style={{ objectFit: 'cover' }} />
                           )}
                         </div>
                         <div style={{ flex: 1 }}>
@@ -638,6 +1249,266 @@ export default function VenueDashboardPage() {
                   </div>
                 </div>
 
+                {can('schedule') && jukebox && (
+                  <div style={card}>
+                    <h3 style={{ fontSize: 16, marginBottom: 4 }}>Jukebox</h3>
+                    <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                      Patrons scan the QR code to request and upvote songs. Requests play in vote order whenever the
+                      zone&apos;s queue is empty; paid requests send WMON to the owner wallet.
+                    </p>
+
+                    {jukeboxError && (
+                      <p style={{ color: '#ef4444', fontSize: 13, marginBottom: 12 }}>{jukeboxError}</p>
+                    )}
+
+                    <label style={{ display: 'flex', alignItems: 'center', gap: 8, cursor: 'pointer', marginBottom: 12 }}>
+                      <input
+                        type="checkbox"
+                        checked={jukebox.enabled}
+                        onChange={(e) => jukeboxAction({ action: 'configure', enabled: e.target.checked })}
+                        style={{ accentColor: '#8b5cf6' }}
+                      />
+                      <span style={{ fontSize: 14 }}>Take requests from patrons</span>
+                    </label>
+
+                    {jukebox.enabled && jukeboxLink && (
+                      <div style={{ display: 'flex', gap: 16, alignItems: 'center', marginBottom: 16, flexWrap: 'wrap' }}>
+                        {jukeboxQr && (
+                          <Image src={jukeboxQr} alt="Jukebox QR code" width={120} height={120} unoptimized style={{ borderRadius: 8 }} />
+                        )}
+                        <div style={{ fontSize: 12 }}>
+                          <code style={{ wordBreak: 'break-all' }}>{jukeboxLink}</code>
+                          {jukeboxQr && (
+                            <div style={{ marginTop: 8 }}>
+                              <a href={jukeboxQr} download={`jukebox-${venue.venueId}.png`} style={{ color: '#8b5cf6' }}>
+                                Download QR code
+                              </a>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+                      <select
+                        value={jukebox.zoneId}
+                        onChange={(e) => jukeboxAction({ action: 'configure', zoneId: e.target.value })}
+                        style={field}
+                      >
+                        {zones.map(zone => (
+                          <option key={zone.zoneId} value={zone.zoneId}>{zone.name}</option>
+                        ))}
+                      </select>
+                      <input
+                        value={jukeboxDraft.requestsPerPatron}
+                        onChange={(e) => setJukeboxDraft({ ...jukeboxDraft, requestsPerPatron: e.target.value })}
+                        style={{ ...field, width: 60 }}
+                        title="Requests per patron"
+                      />
+                      <span style={{ fontSize: 13 }}>requests per</span>
+                      <input
+                        value={jukeboxDraft.windowMinutes}
+                        onChange={(e) => setJukeboxDraft({ ...jukeboxDraft, windowMinutes: e.target.value })}
+                        style={{ ...field, width: 70 }}
+                        title="Window in minutes"
+                      />
+                      <span style={{ fontSize: 13 }}>min at</span>
+                      <input
+                        value={jukeboxDraft.priceWmon}
+                        onChange={(e) => setJukeboxDraft({ ...jukeboxDraft, priceWmon: e.target.value })}
+                        style={{ ...field, width: 70 }}
+                        title="WMON per request"
+                      />
+                      <span style={{ fontSize: 13 }}>WMON</span>
+                    </div>
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginBottom: 12 }}>
+                      <select
+                        value={jukeboxDraft.energy}
+                        onChange={(e) => setJukeboxDraft({ ...jukeboxDraft, energy: e.target.value })}
+                        style={field}
+                      >
+                        <option value="">Any energy</option>
+                        <option value="low-low">Low only</option>
+                        <option value="low-medium">Low to medium</option>
+                        <option value="medium-medium">Medium only</option>
+                        <option value="medium-high">Medium to high</option>
+                        <option value="high-high">High only</option>
+                      </select>
+                      <input
+                        placeholder="Banned token IDs, e.g. 12, 40"
+                        value={jukeboxDraft.banned}
+                        onChange={(e) => setJukeboxDraft({ ...jukeboxDraft, banned: e.target.value })}
+                        style={{ ...field, flex: 1, minWidth: 180 }}
+                      />
+                      <button onClick={handleSaveJukebox} style={{ ...btn, fontSize: 13 }}>Save</button>
+                    </div>
+
+                    {jukeboxRequests.length > 0 && (
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                        {jukeboxRequests.map(request => (
+                          <div key={request.tokenId} style={{ display: 'flex', alignItems: 'center', gap: 12, fontSize: 13 }}>
+                            <span style={{ flex: 1 }}>
+                              ▲ {request.votes} · {request.name} — {request.artist}
+                            </span>
+                            <button
+                              onClick={() => jukeboxAction({ action: 'remove_request', tokenId: request.tokenId })}
+                              style={{ ...btnOutline, fontSize: 12, padding: '4px 10px' }}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div style={card}>
+                  <h3 style={{ fontSize: 16, marginBottom: 4 }}>Zones</h3>
+                  <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                    Each zone plays independently. Open its player with &amp;zone=ID, using the venue key or the zone&apos;s own key.
+                    A schedule lists dayparts in the zone&apos;s time zone, e.g.{' '}
+                    <code>{'{"name":"Happy hour","days":[1,2,3,4,5],"start":"17:00","end":"20:00","genres":["funk"],"energy":["high"],"volume":80}'}</code>
+                  </p>
+
+                  {zoneError && (
+                    <p style={{ color: '#ef4444', fontSize: 13, marginBottom: 12 }}>{zoneError}</p>
+                  )}
+
+                  {zoneKey && (
+                    <div style={{
+                      background: 'rgba(34,197,94,0.1)',
+                      border: '1px solid rgba(34,197,94,0.3)',
+                      borderRadius: 8,
+                      padding: 12,
+                      marginBottom: 12,
+                      fontSize: 12,
+                    }}>
+                      Key for zone <strong>{zoneKey.zoneId}</strong> (shown once):
+                      <code style={{ display: 'block', wordBreak: 'break-all', marginTop: 6 }}>{zoneKey.apiKey}</code>
+                    </div>
+                  )}
+
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+                    {zones.map(zone => (
+                      <div key={zone.zoneId} style={{ borderBottom: '1px solid rgba(255,255,255,0.05)', paddingBottom: 12 }}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          <div style={{ flex: 1 }}>
+                            <div style={{ fontSize: 14, fontWeight: 500 }}>{zone.name}</div>
+                            <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)' }}>
+                              {zone.zoneId} · {zone.schedule.timezone} · {zone.schedule.dayparts.length} dayparts · volume {zone.schedule.defaultVolume}
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => {
+                              setEditingZone(zone.zoneId);
+                              setScheduleDraft(JSON.stringify(zone.schedule, null, 2));
+                            }}
+                            style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}
+                          >
+                            Schedule
+                          </button>
+                          {zone.zoneId !== 'main' && (
+                            <>
+                              <button onClick={() => handleRotateZoneKey(zone)} style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}>
+                                New Key
+                              </button>
+                              <button onClick={() => handleDeleteZone(zone)} style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}>
+                                Delete
+                              </button>
+                            </>
+                          )}
+                        </div>
+                        {editingZone === zone.zoneId && (
+                          <div style={{ marginTop: 8 }}>
+                            <textarea
+                              value={scheduleDraft}
+                              onChange={(e) => setScheduleDraft(e.target.value)}
+                              rows={12}
+                              style={{
+                                width: '100%',
+                                fontFamily: 'monospace',
+                                fontSize: 12,
+                                padding: 8,
+                                borderRadius: 6,
+                                border: '1px solid rgba(255,255,255,0.15)',
+                                background: 'rgba(0,0,0,0.3)',
+                                color: '#fff',
+                                boxSizing: 'border-box',
+                              }}
+                            />
+                            <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                              <button onClick={() => handleSaveSchedule(zone.zoneId)} style={{ ...btn, fontSize: 12, padding: '6px 14px' }}>
+                                Save
+                              </button>
+                              <button onClick={() => setEditingZone(null)} style={{ ...btnOutline, fontSize: 12, padding: '6px 14px' }}>
+                                Cancel
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+
+                  <div style={{ display: 'flex', gap: 8, marginTop: 16 }}>
+                    <input
+                      type="text"
+                      value={newZoneName}
+                      onChange={(e) => setNewZoneName(e.target.value)}
+                      placeholder="e.g. Patio"
+                      style={{
+                        flex: 1,
+                        padding: '8px 12px',
+                        borderRadius: 8,
+                        border: '1px solid rgba(255,255,255,0.15)',
+                        background: 'rgba(255,255,255,0.05)',
+                        color: '#fff',
+                        fontSize: 14,
+                        outline: 'none',
+                      }}
+                    />
+                    <button
+                      onClick={handleCreateZone}
+                      disabled={!newZoneName.trim()}
+                      style={{ ...btn, fontSize: 13, opacity: newZoneName.trim() ? 1 : 0.5 }}
+                    >
+                      Add Zone
+                    </button>
+                  </div>
+                </div>
+
+                <div style={card}>
+                  <h3 style={{ fontSize: 16, marginBottom: 4 }}>Offline Devices</h3>
+                  <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                    Players that cache a signed playlist and upload signed play receipts when back online.
+                  </p>
+                  {devices.length === 0 ? (
+                    <p style={{ color: 'rgba(255,255,255,0.4)', fontSize: 14 }}>No devices registered</p>
+                  ) : (
+                    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+                      {devices.map(device => (
+                        <div key={device.address} style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                          <div style={{ flex: 1 }}>
+                            <div style={{ fontSize: 14 }}>{device.name}</div>
+                            <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)' }}>
+                              {device.address.slice(0, 10)}… · {device.zoneId}
+                              {device.lastPlayEnd ? ` · last play ${new Date(device.lastPlayEnd).toLocaleString()}` : ''}
+                            </div>
+                          </div>
+                          {device.revokedAt ? (
+                            <span style={{ fontSize: 12, color: '#ef4444' }}>Revoked</span>
+                          ) : (
+                            <button onClick={() => handleRevokeDevice(device)} style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}>
+                              Revoke
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 <div style={card}>
                   <h3 style={{ fontSize: 16, marginBottom: 16 }}>Venue ID</h3>
                   <code style={{
@@ -653,6 +1524,176 @@ export default function VenueDashboardPage() {
                 </div>
               </div>
             )}
+
+            {/* Team Tab */}
+            {tab === 'team' && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
+                {teamError && (
+                  <p style={{ color: '#ef4444', fontSize: 13 }}>{teamError}</p>
+                )}
+
+                <div style={card}>
+                  <h3 style={{ fontSize: 16, marginBottom: 4 }}>Members</h3>
+                  <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                    Managers run schedules, keys, devices and reports; staff play, skip and queue. Members sign in
+                    to this dashboard with the wallet or Farcaster account added here.
+                  </p>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+                    {members.map(member => (
+                      <div key={member.memberId} style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 12,
+                        padding: '6px 0',
+                        borderBottom: '1px solid rgba(255,255,255,0.05)',
+                      }}>
+                        <div style={{ flex: 1 }}>
+                          <div style={{ fontSize: 14 }}>{member.name} · {member.role}</div>
+                          <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)' }}>
+                            {[member.address, member.fid ? `FID ${member.fid}` : null].filter(Boolean).join(' · ')}
+                          </div>
+                        </div>
+                        {member.role !== 'owner' && can('staff') && (me?.role === 'owner' || member.role === 'staff') && (
+                          <button
+                            onClick={() => {
+                              if (confirm(`Remove ${member.name}? Their keys stop working.`)) {
+                                teamAction({ action: 'remove_member', memberId: member.memberId });
+                              }
+                            }}
+                            style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {can('staff') && (
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                      <input
+                        placeholder="Name"
+                        value={newMember.name}
+                        onChange={(e) => setNewMember({ ...newMember, name: e.target.value })}
+                        style={field}
+                      />
+                      <input
+                        placeholder="Wallet 0x…"
+                        value={newMember.address}
+                        onChange={(e) => setNewMember({ ...newMember, address: e.target.value })}
+                        style={field}
+                      />
+                      <input
+                        placeholder="or FID"
+                        value={newMember.fid}
+                        onChange={(e) => setNewMember({ ...newMember, fid: e.target.value })}
+                        style={{ ...field, width: 90 }}
+                      />
+                      <select
+                        value={newMember.role}
+                        onChange={(e) => setNewMember({ ...newMember, role: e.target.value })}
+                        style={field}
+                      >
+                        <option value="staff">Staff</option>
+                        {me?.role === 'owner' && <option value="manager">Manager</option>}
+                      </select>
+                      <button onClick={handleAddMember} style={{ ...btn, fontSize: 13 }}>Add</button>
+                    </div>
+                  )}
+                </div>
+
+                <div style={card}>
+                  <h3 style={{ fontSize: 16, marginBottom: 4 }}>API Keys</h3>
+                  <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)', marginBottom: 16 }}>
+                    One key per device or browser, acting as the member it belongs to. Revoking one leaves the others working.
+                  </p>
+                  {issuedKey && (
+                    <div style={{
+                      background: 'rgba(34,197,94,0.1)',
+                      border: '1px solid rgba(34,197,94,0.3)',
+                      borderRadius: 8,
+                      padding: 12,
+                      marginBottom: 12,
+                      fontSize: 12,
+                    }}>
+                      Key <strong>{issuedKey.name}</strong> (shown once):
+                      <code style={{ display: 'block', wordBreak: 'break-all', marginTop: 6 }}>{issuedKey.apiKey}</code>
+                    </div>
+                  )}
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+                    {keys.map(key => (
+                      <div key={key.keyId} style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 12,
+                        padding: '6px 0',
+                        borderBottom: '1px solid rgba(255,255,255,0.05)',
+                        opacity: key.revokedAt ? 0.4 : 1,
+                      }}>
+                        <div style={{ flex: 1 }}>
+                          <div style={{ fontSize: 14 }}>{key.name}</div>
+                          <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.4)' }}>
+                            {members.find(m => m.memberId === key.memberId)?.name || key.memberId}
+                            {key.zoneId ? ` · zone ${key.zoneId}` : ''}
+                            {key.revokedAt
+                              ? ' · revoked'
+                              : key.lastUsedAt ? ` · used ${new Date(key.lastUsedAt).toLocaleDateString()}` : ' · never used'}
+                          </div>
+                        </div>
+                        {!key.revokedAt && (
+                          <button
+                            onClick={() => teamAction({ action: 'revoke_key', keyId: key.keyId })}
+                            style={{ ...btnOutline, fontSize: 12, padding: '6px 12px' }}
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {can('keys') && (
+                    <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+                      <input
+                        placeholder="Key name, e.g. Bar tablet"
+                        value={newKeyName}
+                        onChange={(e) => setNewKeyName(e.target.value)}
+                        style={field}
+                      />
+                      <select value={newKeyZone} onChange={(e) => setNewKeyZone(e.target.value)} style={field}>
+                        <option value="">All zones</option>
+                        {zones.map(zone => (
+                          <option key={zone.zoneId} value={zone.zoneId}>{zone.name}</option>
+                        ))}
+                      </select>
+                      <button onClick={handleCreateKey} style={{ ...btn, fontSize: 13 }}>Issue key</button>
+                    </div>
+                  )}
+                </div>
+
+                {can('staff') && (
+                  <div style={card}>
+                    <h3 style={{ fontSize: 16, marginBottom: 16 }}>Audit Log</h3>
+                    {audit.length === 0 ? (
+                      <p style={{ color: 'rgba(255,255,255,0.4)', fontSize: 14 }}>Nothing yet</p>
+                    ) : (
+                      <div style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+                        {audit.map((entry, i) => (
+                          <div key={`${entry.at}-${i}`} style={{ fontSize: 13, display: 'flex', gap: 12 }}>
+                            <span style={{ color: 'rgba(255,255,255,0.4)', flexShrink: 0 }}>
+                              {new Date(entry.at).toLocaleString()}
+                            </span>
+                            <span>
+                              <strong>{entry.name}</strong> {entry.action.replace(/_/g, ' ')}
+                              {entry.zoneId ? ` in ${entry.zoneId}` : ''}
+                              {entry.detail ? ` — ${entry.detail}` : ''}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
         </>
       )}
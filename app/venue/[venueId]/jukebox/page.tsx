@@ -0,0 +1,279 @@
+'use client';
+
+import { authHeadersWithWalletFallback } from '@/lib/wallet-auth-client';
+import { useEffect, useState, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import Image from 'next/image';
+import { parseAbi, parseEther } from 'viem';
+import { useAccount, usePublicClient, useSignMessage, useWriteContract } from 'wagmi';
+
+/**
+ * Venue Jukebox — the page behind a venue's QR code
+ *
+ * Patrons see what is playing, the queue and the ranked requests, and can
+ * request or upvote songs from the venue's cleared catalogue. Signing in
+ * is by Farcaster when opened in a client, otherwise by wallet signature;
+ * paid requests send WMON to the venue from the connected wallet.
+ */
+
+interface Song {
+  tokenId: string;
+  name: string;
+  artist: string;
+  imageUrl: string;
+}
+
+interface JukeboxRequest extends Song {
+  votes: number;
+  voted?: boolean;
+}
+
+interface JukeboxView {
+  enabled: boolean;
+  venue: { name: string };
+  nowPlaying?: Song | null;
+  queue?: Song[];
+  requests?: JukeboxRequest[];
+  catalog?: Song[];
+  limits?: { requestsPerPatron: number; windowMinutes: number; remaining?: number };
+  price?: { priceWmon: string; token: string | null; payTo: string };
+  patron?: { patronId: string };
+}
+
+const ERC20_TRANSFER = parseAbi(['function transfer(address to, uint256 amount) returns (bool)']);
+
+export default function VenueJukeboxPage() {
+  const params = useParams();
+  const venueId = params.venueId as string;
+  const { address } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const { writeContractAsync } = useWriteContract();
+  const publicClient = usePublicClient();
+
+  const [view, setView] = useState<JukeboxView | null>(null);
+  const [token, setToken] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ text: string; error?: boolean } | null>(null);
+
+  useEffect(() => {
+    setToken(localStorage.getItem(`jukebox-patron:${venueId}`));
+  }, [venueId]);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/venue/${venueId}/jukebox`, {
+        headers: token ? { 'X-Jukebox-Patron': token } : {},
+      });
+      const data = await res.json();
+      if (data.success) {
+        setView(data);
+        if (token && !data.patron && data.enabled) {
+          // Token expired; sign in again on the next action
+          localStorage.removeItem(`jukebox-patron:${venueId}`);
+          setToken(null);
+        }
+      }
+    } catch {
+      // Keep showing the last list; the next poll tries again
+    }
+  }, [venueId, token]);
+
+  useEffect(() => {
+    load();
+    const interval = setInterval(load, 15000);
+    return () => clearInterval(interval);
+  }, [load]);
+
+  const join = async (): Promise<string | null> => {
+    const res = await fetch(`/api/venue/${venueId}/jukebox`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await authHeadersWithWalletFallback(
+          address ? { address, signMessage: signMessageAsync, context: 'venue-jukebox' } : null
+        )),
+      },
+      body: JSON.stringify({ action: 'join', address }),
+    });
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Sign-in failed');
+    localStorage.setItem(`jukebox-patron:${venueId}`, data.token);
+    setToken(data.token);
+    return data.token;
+  };
+
+  const pay = async (): Promise<string | undefined> => {
+    const price = view?.price;
+    if (!price || price.priceWmon === '0' || Number(price.priceWmon) === 0) return undefined;
+    if (!price.token || !address) throw new Error('Connect a wallet to pay for requests');
+    const hash = await writeContractAsync({
+      address: price.token as `0x${string}`,
+      abi: ERC20_TRANSFER,
+      functionName: 'transfer',
+      args: [price.payTo as `0x${string}`, parseEther(price.priceWmon)],
+    });
+    await publicClient?.waitForTransactionReceipt({ hash });
+    return hash;
+  };
+
+  const submit = async (action: 'request' | 'vote', song: Song) => {
+    setBusy(song.tokenId);
+    setMessage(null);
+    try {
+      const patronToken = token || (await join());
+      const txHash = action === 'request' ? await pay() : undefined;
+      const res = await fetch(`/api/venue/${venueId}/jukebox`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'X-Jukebox-Patron': patronToken! },
+        body: JSON.stringify({ action, tokenId: song.tokenId, ...(txHash ? { txHash } : {}) }),
+      });
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setMessage({ text: action === 'vote' ? `Voted for ${song.name}` : `Requested ${song.name}` });
+      await load();
+    } catch (err: any) {
+      setMessage({ text: err.shortMessage || err.message || 'Something went wrong', error: true });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const page: React.CSSProperties = {
+    minHeight: '100vh',
+    background: '#0a0a0f',
+    color: '#fff',
+    fontFamily: 'system-ui, sans-serif',
+    padding: 20,
+    maxWidth: 560,
+    margin: '0 auto',
+  };
+  const card: React.CSSProperties = {
+    background: 'rgba(255,255,255,0.05)',
+    borderRadius: 12,
+    padding: 16,
+    border: '1px solid rgba(255,255,255,0.08)',
+    marginBottom: 16,
+  };
+  const btn: React.CSSProperties = {
+    padding: '6px 14px',
+    borderRadius: 8,
+    border: 'none',
+    background: '#8b5cf6',
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 600,
+    cursor: 'pointer',
+    flexShrink: 0,
+  };
+
+  if (!view) {
+    return <div style={page}><p>Loading...</p></div>;
+  }
+
+  if (!view.enabled) {
+    return (
+      <div style={page}>
+        <h1 style={{ fontSize: 22 }}>{view.venue.name}</h1>
+        <p style={{ color: 'rgba(255,255,255,0.5)' }}>This venue is not taking requests right now.</p>
+      </div>
+    );
+  }
+
+  const requested = new Set((view.requests || []).map(r => r.tokenId));
+  const query = search.trim().toLowerCase();
+  const catalog = (view.catalog || []).filter(song =>
+    !requested.has(song.tokenId) &&
+    (!query || song.name.toLowerCase().includes(query) || song.artist.toLowerCase().includes(query))
+  );
+  const free = !view.price || Number(view.price.priceWmon) === 0;
+
+  const row = (song: Song, right: React.ReactNode) => (
+    <div key={song.tokenId} style={{ display: 'flex', alignItems: 'center', gap: 12, padding: '8px 0' }}>
+      {song.imageUrl ? (
+        <Image src={song.imageUrl} alt="" width={40} height={40} unoptimized style={{ borderRadius: 6, objectFit: 'cover' }} />
+      ) : (
+        <div style={{ width: 40, height: 40, borderRadius: 6, background: 'rgba(255,255,255,0.08)' }} />
+      )}
+      <div style={{ flex: 1, minWidth: 0 }}>
+        <div style={{ fontSize: 14, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{song.name}</div>
+        <div style={{ fontSize: 12, color: 'rgba(255,255,255,0.5)' }}>{song.artist}</div>
+      </div>
+      {right}
+    </div>
+  );
+
+  return (
+    <div style={page}>
+      <h1 style={{ fontSize: 22, marginBottom: 4 }}>{view.venue.name}</h1>
+      <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.5)', marginBottom: 16 }}>
+        Request a song or upvote one already asked for; the most votes play next.{' '}
+        {free ? 'Requests are free.' : `A request costs ${view.price!.priceWmon} WMON; votes are free.`}{' '}
+        {view.limits && `Up to ${view.limits.requestsPerPatron} every ${view.limits.windowMinutes} minutes`}
+        {view.limits?.remaining !== undefined && ` (${view.limits.remaining} left)`}.
+      </p>
+
+      {message && (
+        <p style={{ fontSize: 13, color: message.error ? '#ef4444' : '#22c55e', marginBottom: 12 }}>{message.text}</p>
+      )}
+
+      <div style={card}>
+        <h3 style={{ fontSize: 15, marginBottom: 8 }}>Now playing</h3>
+        {view.nowPlaying ? row(view.nowPlaying, null) : (
+          <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)' }}>Nothing right now</p>
+        )}
+        {(view.queue || []).length > 0 && (
+          <>
+            <h3 style={{ fontSize: 15, margin: '12px 0 8px' }}>Up next</h3>
+            {view.queue!.map(song => row(song, null))}
+          </>
+        )}
+      </div>
+
+      <div style={card}>
+        <h3 style={{ fontSize: 15, marginBottom: 8 }}>Requests</h3>
+        {(view.requests || []).length === 0 ? (
+          <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)' }}>No requests yet — be the first</p>
+        ) : (
+          view.requests!.map(request => row(request, (
+            <button
+              onClick={() => submit('vote', request)}
+              disabled={request.voted || busy !== null}
+              style={{ ...btn, background: request.voted ? 'rgba(255,255,255,0.1)' : '#8b5cf6' }}
+            >
+              ▲ {request.votes}
+            </button>
+          )))
+        )}
+      </div>
+
+      <div style={card}>
+        <h3 style={{ fontSize: 15, marginBottom: 8 }}>Request a song</h3>
+        <input
+          placeholder="Search songs or artists"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          style={{
+            width: '100%',
+            padding: '8px 12px',
+            borderRadius: 8,
+            border: '1px solid rgba(255,255,255,0.15)',
+            background: 'rgba(255,255,255,0.05)',
+            color: '#fff',
+            fontSize: 14,
+            outline: 'none',
+            marginBottom: 8,
+          }}
+        />
+        {catalog.slice(0, 50).map(song => row(song, (
+          <button onClick={() => submit('request', song)} disabled={busy !== null} style={btn}>
+            {busy === song.tokenId ? '...' : 'Request'}
+          </button>
+        )))}
+        {catalog.length === 0 && (
+          <p style={{ fontSize: 13, color: 'rgba(255,255,255,0.4)' }}>No songs match</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,8 @@ import { useParams, useSearchParams } from 'next/navigation';
  *
  * Standalone page optimized for tablets, TVs, and computers.
  * Authenticated via URL token (?key=X), no wallet required for playback.
+ * ?zone=Y plays one zone of a multi-zone venue (default "main"); the
+ * zone's schedule sets the volume.
  * Dark theme with ambient color extraction from album art.
  */
 
@@ -28,6 +30,7 @@ interface VenuePlaybackState {
   songsPlayedToday: number;
   totalSongsPlayed: number;
   lastUpdated: number;
+  volume?: number;
 }
 
 interface VenueInfo {
@@ -46,6 +49,7 @@ export default function VenuePlayerPage() {
   const searchParams = useSearchParams();
   const venueId = params.venueId as string;
   const apiKey = searchParams.get('key') || '';
+  const zoneId = searchParams.get('zone') || 'main';
 
   const audioRef = useRef<HTMLAudioElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -91,7 +95,7 @@ export default function VenuePlayerPage() {
     }
 
     try {
-      const res = await fetch(`/api/venue/${venueId}?key=${apiKey}`);
+      const res = await fetch(`/api/venue/${venueId}?key=${apiKey}&zone=${zoneId}`);
       const data = await res.json();
       if (!data.success) {
         setError(data.error || 'Failed to load venue');
@@ -104,13 +108,13 @@ export default function VenuePlayerPage() {
     } catch (err: any) {
       setError('Failed to connect to venue');
     }
-  }, [venueId, apiKey]);
+  }, [venueId, apiKey, zoneId]);
 
   // SSE connection
   useEffect(() => {
     if (!apiKey) return;
 
-    const eventSource = new EventSource(`/api/venue/${venueId}/stream?key=${apiKey}`);
+    const eventSource = new EventSource(`/api/venue/${venueId}/stream?key=${apiKey}&zone=${zoneId}`);
 
     eventSource.addEventListener('initial_state', (e) => {
       try {
@@ -140,7 +144,7 @@ export default function VenuePlayerPage() {
     };
 
     return () => eventSource.close();
-  }, [venueId, apiKey]);
+  }, [venueId, apiKey, zoneId]);
 
   // Initial fetch
   useEffect(() => {
@@ -170,6 +174,13 @@ export default function VenuePlayerPage() {
     }
   }, [state?.currentSong?.tokenId, state?.isPlaying]);
 
+  // Zone volume follows the schedule's daypart
+  useEffect(() => {
+    if (audioRef.current && typeof state?.volume === 'number') {
+      audioRef.current.volume = state.volume / 100;
+    }
+  }, [state?.volume]);
+
   // Progress bar
   useEffect(() => {
     if (!state?.currentSong || !state.isPlaying) return;
@@ -193,6 +204,7 @@ export default function VenuePlayerPage() {
         headers,
         body: JSON.stringify({
           action: 'song_ended',
+          zoneId,
           tokenId: state.currentSong.tokenId,
         }),
       });
@@ -207,7 +219,7 @@ export default function VenuePlayerPage() {
       const res = await fetch(`/api/venue/${venueId}`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ action: 'play' }),
+        body: JSON.stringify({ action: 'play', zoneId }),
       });
       const data = await res.json();
       if (data.state) setState(data.state);
@@ -219,7 +231,7 @@ export default function VenuePlayerPage() {
       const res = await fetch(`/api/venue/${venueId}`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ action: 'pause' }),
+        body: JSON.stringify({ action: 'pause', zoneId }),
       });
       const data = await res.json();
       if (data.state) setState(data.state);
@@ -231,7 +243,7 @@ export default function VenuePlayerPage() {
       const res = await fetch(`/api/venue/${venueId}`, {
         method: 'POST',
         headers,
-        body: JSON.stringify({ action: 'skip' }),
+        body: JSON.stringify({ action: 'skip', zoneId }),
       });
       const data = await res.json();
       if (data.state) setState(data.state);
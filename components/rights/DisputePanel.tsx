@@ -0,0 +1,327 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signRightsMessageFromEOA } from "@/lib/artist-claim";
+import {
+  DISPUTE_GROUNDS,
+  buildFiling,
+  buildResponse,
+  filingMessage,
+  responseMessage,
+  withdrawalMessage,
+  type DisputeEvidence,
+  type DisputeGrounds,
+  type RightsDispute,
+} from "@/lib/rights-dispute";
+
+/**
+ * DisputePanel
+ *
+ * Rights disputes on a master's page: the hold banner, every dispute with its response and
+ * decision, and the forms for whoever may act — anyone may file, the artist may respond, the
+ * claimant may withdraw. Decisions are made by admins elsewhere. See lib/rights-dispute.ts.
+ */
+
+type DescribedDispute = RightsDispute & { verified: boolean };
+
+const GROUND_LABELS: Record<DisputeGrounds, string> = {
+  copyright: "I own the copyright",
+  impersonation: "Uploaded by someone posing as the artist",
+  "uncleared-sample": "Contains an uncleared sample",
+  "pro-registered": "Registered with a PRO",
+  "co-owner": "I am an uncredited co-owner",
+  other: "Other",
+};
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+const day = (ms: number) => new Date(ms).toLocaleDateString();
+
+/** One item per line: a link, then optionally a description. */
+function parseEvidence(text: string): DisputeEvidence[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [url, ...rest] = line.split(/\s+/);
+      return { url, description: rest.join(" ").replace(/^\|\s*/, "") };
+    });
+}
+
+export default function DisputePanel({
+  tokenId,
+  artistAddress,
+  viewerAddress,
+}: {
+  tokenId: string;
+  artistAddress: string;
+  viewerAddress: string | null;
+}) {
+  const [hold, setHold] = useState<string | null>(null);
+  const [disputes, setDisputes] = useState<DescribedDispute[]>([]);
+  const [filing, setFiling] = useState(false);
+  const [grounds, setGrounds] = useState<DisputeGrounds>("copyright");
+  const [statement, setStatement] = useState("");
+  const [evidence, setEvidence] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const viewer = viewerAddress?.toLowerCase() || null;
+  const isArtist = viewer === artistAddress.toLowerCase();
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/rights/disputes?tokenId=${tokenId}`);
+      if (!res.ok) return;
+      const json = await res.json();
+      setHold(json.hold);
+      setDisputes(json.disputes || []);
+    } catch {
+      // Disputes are supplementary; the page works without them.
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const post = async (body: Record<string, unknown>) => {
+    const res = await fetch("/api/rights/disputes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json();
+    if (!res.ok) throw new Error(json.error || "Request failed");
+  };
+
+  const run = async (fn: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await fn();
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const file = () =>
+    run(async () => {
+      if (!viewer) return;
+      // Same normalisation the server applies, so the signed digest matches.
+      const f = buildFiling({
+        tokenId,
+        claimant: viewer,
+        grounds,
+        statement,
+        evidence: parseEvidence(evidence),
+        filedAt: Date.now(),
+      });
+      const signature = await signRightsMessageFromEOA(
+        filingMessage(f),
+        viewer,
+      );
+      await post({ action: "file", ...f, signature });
+      setFiling(false);
+      setStatement("");
+      setEvidence("");
+    });
+
+  const respond = (d: DescribedDispute) =>
+    run(async () => {
+      const r = buildResponse({
+        statement,
+        evidence: parseEvidence(evidence),
+        at: Date.now(),
+      });
+      const signature = await signRightsMessageFromEOA(
+        responseMessage(d.id, r),
+        artistAddress,
+      );
+      await post({ action: "respond", id: d.id, ...r, signature });
+      setStatement("");
+      setEvidence("");
+    });
+
+  const withdraw = (d: DescribedDispute) =>
+    run(async () => {
+      if (!viewer) return;
+      const at = Date.now();
+      const signature = await signRightsMessageFromEOA(
+        withdrawalMessage(d.id, at),
+        viewer,
+      );
+      await post({ action: "withdraw", id: d.id, at, signature });
+    });
+
+  if (!hold && disputes.length === 0 && (!viewer || isArtist)) return null;
+
+  const evidenceList = (items: DisputeEvidence[]) =>
+    items.length > 0 && (
+      <ul className="text-xs space-y-1">
+        {items.map((e, i) => (
+          <li key={i} className="break-all">
+            <a
+              href={e.url.replace(/^ipfs:\/\//, "https://ipfs.io/ipfs/")}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-300 hover:underline"
+            >
+              {e.url}
+            </a>
+            {e.description && (
+              <span className="text-gray-400"> — {e.description}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    );
+
+  const form = (submitLabel: string, onSubmit: () => void) => (
+    <div className="space-y-2">
+      <textarea
+        value={statement}
+        onChange={(e) => setStatement(e.target.value)}
+        rows={4}
+        placeholder="What happened, and why"
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 text-gray-200 rounded text-sm"
+      />
+      <textarea
+        value={evidence}
+        onChange={(e) => setEvidence(e.target.value)}
+        rows={2}
+        placeholder="Evidence links, one per line: https://… description"
+        className="w-full px-3 py-2 bg-gray-900 border border-gray-700 text-gray-200 rounded text-xs"
+      />
+      <button
+        onClick={onSubmit}
+        disabled={busy}
+        className="w-full py-2 bg-red-600 hover:bg-red-500 text-white font-bold rounded-lg text-sm disabled:opacity-50"
+      >
+        {busy ? "Signing…" : submitLabel}
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-bold text-white">⚖️ Rights</h3>
+
+      {hold && (
+        <p className="text-sm p-3 rounded-lg bg-red-900/30 border border-red-600/40 text-red-300">
+          {hold === "revoked"
+            ? "Revoked after a rights dispute. This track is no longer played on radio or in venues."
+            : "Under rights dispute. This track is off radio and venue play until the dispute is decided."}
+        </p>
+      )}
+
+      {disputes.map((d) => {
+        const open = d.status === "open" || d.status === "answered";
+        return (
+          <div
+            key={d.id}
+            className="p-4 bg-gray-900/40 border border-gray-700 rounded-xl space-y-2"
+          >
+            <div className="flex justify-between text-sm">
+              <span className="font-semibold text-gray-200">
+                {d.id} · {GROUND_LABELS[d.grounds]}
+              </span>
+              <span className={open ? "text-yellow-400" : "text-gray-400"}>
+                {d.status}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">
+              Filed {day(d.filedAt)} by {short(d.claimant)}
+              {!d.verified && (
+                <span className="text-red-400"> · record does not verify</span>
+              )}
+            </p>
+            <p className="text-sm text-gray-300 whitespace-pre-wrap">
+              {d.statement}
+            </p>
+            {evidenceList(d.evidence)}
+            {d.response && (
+              <div className="pl-3 border-l-2 border-purple-500/50 space-y-1">
+                <p className="text-xs text-purple-300">
+                  Artist response, {day(d.response.at)}
+                </p>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap">
+                  {d.response.statement}
+                </p>
+                {evidenceList(d.response.evidence)}
+              </div>
+            )}
+            {d.decision && (
+              <div className="pl-3 border-l-2 border-gray-500 space-y-1">
+                <p className="text-xs text-gray-400">
+                  Decision: {d.decision.outcome}, {day(d.decision.at)}
+                </p>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap">
+                  {d.decision.reason}
+                </p>
+                <p className="text-[10px] text-gray-500 break-all">
+                  {d.decision.hash}
+                </p>
+              </div>
+            )}
+            {open &&
+              isArtist &&
+              !d.response &&
+              form("Sign & respond", () => respond(d))}
+            {open && viewer === d.claimant && (
+              <button
+                onClick={() => withdraw(d)}
+                disabled={busy}
+                className="text-xs text-gray-400 hover:underline disabled:opacity-50"
+              >
+                Withdraw this dispute
+              </button>
+            )}
+          </div>
+        );
+      })}
+
+      {viewer && !isArtist && hold !== "revoked" && !filing && (
+        <button
+          onClick={() => setFiling(true)}
+          className="text-xs text-gray-400 hover:underline"
+        >
+          Report a rights problem with this track
+        </button>
+      )}
+
+      {filing && (
+        <div className="space-y-2">
+          <select
+            value={grounds}
+            onChange={(e) => setGrounds(e.target.value as DisputeGrounds)}
+            className="w-full px-2 py-2 bg-gray-900 border border-gray-700 text-gray-200 rounded text-sm"
+          >
+            {DISPUTE_GROUNDS.map((g) => (
+              <option key={g} value={g}>
+                {GROUND_LABELS[g]}
+              </option>
+            ))}
+          </select>
+          {form("Sign & file dispute", file)}
+          <p className="text-xs text-gray-400">
+            Filing takes the track off radio and venue play straight away, so
+            only file in good faith. The artist can respond before an admin
+            decides.
+          </p>
+          <button
+            onClick={() => setFiling(false)}
+            className="text-xs text-gray-400 hover:underline"
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
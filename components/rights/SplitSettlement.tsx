@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { formatEther, type Address } from "viem";
+import { payCollaboratorsFromEOA } from "@/lib/artist-claim";
+import { monthIdAt } from "@/lib/earnings-statement";
+import type { SplitTransfer } from "@/lib/split-sheet";
+
+/**
+ * SplitSettlement
+ *
+ * The artist's side of a split sheet: what co-owners are owed for a month's claimed pool share,
+ * license sales and tips, and a button that pays it from the artist's wallet. Every transfer is
+ * recorded against /api/rights/splits/settlement as soon as it is mined.
+ */
+
+const WMON = process.env.NEXT_PUBLIC_WMON as Address;
+
+interface SettlementResponse {
+  transfers: SplitTransfer[];
+  outstanding: { payee: string; amountWei: string; keys: string[] }[];
+}
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+const wmon = (wei: string) => Number(formatEther(BigInt(wei))).toFixed(4);
+
+export default function SplitSettlement({
+  artistAddress,
+}: {
+  artistAddress: string;
+}) {
+  const lastMonth = monthIdAt(Math.floor(Date.now() / 1000)) - 1;
+  const [monthId, setMonthId] = useState(lastMonth);
+  const [data, setData] = useState<SettlementResponse | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(
+        `/api/rights/splits/settlement?artist=${artistAddress}&month=${monthId}`,
+      );
+      if (res.ok) setData(await res.json());
+    } catch {
+      // Nothing to settle is the safe default.
+    }
+  }, [artistAddress, monthId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const pay = async () => {
+    if (!data?.outstanding.length) return;
+    setPaying(true);
+    setMessage(null);
+    try {
+      const paid = await payCollaboratorsFromEOA({
+        payments: data.outstanding,
+        expectedAddress: artistAddress,
+        wmonAddress: WMON,
+        onPaid: async (_payee, txHash) => {
+          const res = await fetch("/api/rights/splits/settlement", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              artist: artistAddress,
+              month: monthId,
+              txHash,
+            }),
+          });
+          if (!res.ok) {
+            const json = await res.json().catch(() => ({}));
+            throw new Error(
+              `Paid in ${txHash}, but recording failed: ${json.error || res.status}`,
+            );
+          }
+        },
+      });
+      setMessage(`Paid ${paid.length} collaborator(s).`);
+    } catch (e: any) {
+      setMessage(e?.message || "Payment failed");
+    } finally {
+      setPaying(false);
+      await load();
+    }
+  };
+
+  // Only artists with a split sheet ever see this. Once shown, the picker stays up so an
+  // older month with nothing owed does not make the panel vanish under the cursor.
+  if (!data || (data.transfers.length === 0 && monthId === lastMonth)) {
+    return null;
+  }
+
+  const settled = data.transfers.filter((t) => t.settledTxHash);
+
+  return (
+    <div className="mt-5 p-4 bg-purple-50 border border-purple-200 rounded-xl">
+      <h4 className="text-sm font-bold text-gray-900 mb-1 flex items-center gap-1">
+        <span>🤝</span> Collaborator Splits
+      </h4>
+      <MonthPicker
+        monthId={monthId}
+        lastMonth={lastMonth}
+        onPick={setMonthId}
+      />
+      <div className="space-y-2 my-3">
+        {data.outstanding.map((o) => (
+          <div
+            key={o.payee}
+            className="flex justify-between items-center text-sm bg-white rounded-lg px-3 py-2 border border-purple-100"
+          >
+            <span className="text-gray-600">
+              {short(o.payee)}
+              <span className="text-xs text-gray-400 ml-2">
+                ({o.keys.length} payments)
+              </span>
+            </span>
+            <span className="font-bold text-purple-700">
+              {wmon(o.amountWei)} WMON
+            </span>
+          </div>
+        ))}
+        {data.outstanding.length === 0 && (
+          <p className="text-xs text-green-700">
+            All {settled.length} shares for this month are paid.
+          </p>
+        )}
+      </div>
+      {data.outstanding.length > 0 && (
+        <button
+          onClick={pay}
+          disabled={paying}
+          className="w-full py-2 bg-purple-600 hover:bg-purple-500 text-white font-bold rounded-lg disabled:opacity-50"
+        >
+          {paying ? "Paying…" : "Pay collaborators"}
+        </button>
+      )}
+      {message && <p className="text-xs text-gray-600 mt-2">{message}</p>}
+    </div>
+  );
+}
+
+function MonthPicker({
+  monthId,
+  lastMonth,
+  onPick,
+}: {
+  monthId: number;
+  lastMonth: number;
+  onPick: (monthId: number) => void;
+}) {
+  return (
+    <div className="flex gap-2 text-xs">
+      {[0, 1, 2].map((ago) => (
+        <button
+          key={ago}
+          onClick={() => onPick(lastMonth - ago)}
+          className={
+            monthId === lastMonth - ago
+              ? "font-bold text-purple-700"
+              : "text-gray-500 hover:underline"
+          }
+        >
+          Month #{lastMonth - ago}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { signRightsMessageFromEOA } from "@/lib/artist-claim";
+import {
+  SPLIT_ROLES,
+  normalizeSplitPayees,
+  splitSheetHash,
+  splitSignatureMessage,
+  validateSplitPayees,
+  type SplitRole,
+  type SplitSheet,
+  type SplitSheetBody,
+} from "@/lib/split-sheet";
+
+/**
+ * SplitSheetPanel
+ *
+ * Shows who shares in a master's earnings, and lets the people involved act on it: the artist
+ * proposes a new version, each listed co-owner countersigns theirs. See lib/split-sheet.ts.
+ */
+
+type DescribedSheet = SplitSheet & { hashValid: boolean; awaiting: string[] };
+
+interface SplitsResponse {
+  active: DescribedSheet | null;
+  pending: DescribedSheet | null;
+  versions: DescribedSheet[];
+  nextVersion: number;
+}
+
+interface DraftRow {
+  address: string;
+  role: SplitRole;
+  name: string;
+  percent: string;
+}
+
+const ROLE_LABELS: Record<SplitRole, string> = {
+  artist: "Artist",
+  producer: "Producer",
+  "featured-artist": "Featured artist",
+  "co-writer": "Co-writer",
+  other: "Other",
+};
+
+const short = (a: string) => `${a.slice(0, 6)}…${a.slice(-4)}`;
+
+export default function SplitSheetPanel({
+  tokenId,
+  artistAddress,
+  viewerAddress,
+}: {
+  tokenId: string;
+  artistAddress: string;
+  viewerAddress: string | null;
+}) {
+  const [data, setData] = useState<SplitsResponse | null>(null);
+  const [draft, setDraft] = useState<DraftRow[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const artist = artistAddress.toLowerCase();
+  const viewer = viewerAddress?.toLowerCase() || null;
+  const isArtist = viewer === artist;
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/rights/splits?tokenId=${tokenId}`);
+      if (res.ok) setData(await res.json());
+    } catch {
+      // Splits are supplementary; the page works without them.
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const startDraft = () => {
+    const from = data?.active?.payees || [
+      { address: artist, role: "artist" as SplitRole, bps: 10_000 },
+    ];
+    setDraft(
+      from.map((p) => ({
+        address: p.address,
+        role: p.role,
+        name: p.name || "",
+        percent: String(p.bps / 100),
+      })),
+    );
+    setError(null);
+  };
+
+  const propose = async () => {
+    if (!draft || !data || !viewer) return;
+    const body: SplitSheetBody = {
+      tokenId,
+      version: data.nextVersion,
+      artist,
+      payees: normalizeSplitPayees(
+        draft.map((r) => ({
+          address: r.address.trim(),
+          role: r.role,
+          name: r.name,
+          bps: Math.round(Number(r.percent) * 100),
+        })),
+      ),
+      supersedes: data.active?.hash ?? null,
+    };
+    const problem = validateSplitPayees(body.payees, artist);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const hash = splitSheetHash(body);
+      const signature = await signRightsMessageFromEOA(
+        splitSignatureMessage(body, hash, artist),
+        artist,
+      );
+      const res = await fetch("/api/rights/splits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "propose",
+          tokenId,
+          version: body.version,
+          payees: body.payees,
+          signature,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Proposal failed");
+      setDraft(null);
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Proposal failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const countersign = async (sheet: DescribedSheet) => {
+    if (!viewer) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const signature = await signRightsMessageFromEOA(
+        splitSignatureMessage(sheet, sheet.hash, viewer),
+        viewer,
+      );
+      const res = await fetch("/api/rights/splits", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "sign",
+          tokenId,
+          version: sheet.version,
+          address: viewer,
+          signature,
+        }),
+      });
+      const json = await res.json();
+      if (!res.ok) throw new Error(json.error || "Signature failed");
+      await load();
+    } catch (e: any) {
+      setError(e?.message || "Signature failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!data) return null;
+  if (!data.active && !data.pending && !isArtist) return null;
+
+  const payeeList = (sheet: DescribedSheet) => (
+    <ul className="space-y-1">
+      {sheet.payees.map((p) => (
+        <li
+          key={p.address}
+          className="flex justify-between items-center text-sm bg-gray-900/40 rounded-lg px-3 py-2 border border-gray-700"
+        >
+          <span className="text-gray-200">
+            {p.name || short(p.address)}
+            <span className="text-xs text-gray-500 ml-2">
+              {ROLE_LABELS[p.role]}
+            </span>
+            {sheet.status === "pending" && (
+              <span
+                className={`text-xs ml-2 ${sheet.awaiting.includes(p.address) ? "text-yellow-400" : "text-green-400"}`}
+              >
+                {sheet.awaiting.includes(p.address) ? "awaiting" : "✓ signed"}
+              </span>
+            )}
+          </span>
+          <span className="font-bold text-purple-300">
+            {(p.bps / 100).toFixed(2)}%
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="bg-gray-800/50 border border-gray-700 rounded-2xl p-6 space-y-4">
+      <h3 className="text-lg font-bold text-white">🤝 Royalty Splits</h3>
+
+      {data.active ? (
+        <div className="space-y-2">
+          {payeeList(data.active)}
+          <p className="text-xs text-gray-500 break-all">
+            Version {data.active.version} · signed by all{" "}
+            {data.active.payees.length} · hash {data.active.hash}
+            {!data.active.hashValid && (
+              <span className="text-red-400"> · does not verify</span>
+            )}
+          </p>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">
+          No split sheet — the artist receives 100%.
+        </p>
+      )}
+
+      {data.pending && (
+        <div className="p-4 bg-yellow-900/20 border border-yellow-600/30 rounded-xl space-y-2">
+          <p className="text-sm font-semibold text-yellow-300">
+            Version {data.pending.version} awaiting signatures
+          </p>
+          {payeeList(data.pending)}
+          {viewer && data.pending.awaiting.includes(viewer) && (
+            <p className="text-xs text-gray-400">
+              Payments still reach the artist&apos;s wallet; the artist pays
+              your share from their monthly statement.
+            </p>
+          )}
+          {viewer && data.pending.awaiting.includes(viewer) && (
+            <button
+              onClick={() => countersign(data.pending!)}
+              disabled={busy}
+              className="w-full py-2 bg-purple-600 hover:bg-purple-500 text-white font-bold rounded-lg disabled:opacity-50"
+            >
+              {busy ? "Signing…" : "Review and sign my share"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {isArtist && !draft && (
+        <button
+          onClick={startDraft}
+          className="w-full py-2 border-2 border-purple-500/50 text-purple-300 font-semibold rounded-lg hover:bg-purple-900/30"
+        >
+          {data.active ? "Propose a new version" : "Add collaborators"}
+        </button>
+      )}
+
+      {isArtist && draft && (
+        <div className="space-y-2">
+          {draft.map((row, i) => (
+            <div key={i} className="grid grid-cols-12 gap-2">
+              <input
+                value={row.address}
+                disabled={row.role === "artist"}
+                onChange={(e) =>
+                  setDraft(
+                    draft.map((r, j) =>
+                      j === i ? { ...r, address: e.target.value } : r,
+                    ),
+                  )
+                }
+                placeholder="0x…"
+                className="col-span-5 px-2 py-1 bg-gray-900 border border-gray-700 text-gray-200 rounded text-xs"
+              />
+              <select
+                value={row.role}
+                disabled={row.role === "artist"}
+                onChange={(e) =>
+                  setDraft(
+                    draft.map((r, j) =>
+                      j === i ? { ...r, role: e.target.value as SplitRole } : r,
+                    ),
+                  )
+                }
+                className="col-span-3 px-1 py-1 bg-gray-900 border border-gray-700 text-gray-200 rounded text-xs"
+              >
+                {SPLIT_ROLES.filter(
+                  (r) => r !== "artist" || row.role === "artist",
+                ).map((r) => (
+                  <option key={r} value={r}>
+                    {ROLE_LABELS[r]}
+                  </option>
+                ))}
+              </select>
+              <input
+                value={row.percent}
+                onChange={(e) =>
+                  setDraft(
+                    draft.map((r, j) =>
+                      j === i ? { ...r, percent: e.target.value } : r,
+                    ),
+                  )
+                }
+                inputMode="decimal"
+                className="col-span-2 px-2 py-1 bg-gray-900 border border-gray-700 text-gray-200 rounded text-xs text-right"
+              />
+              <button
+                onClick={() => setDraft(draft.filter((_, j) => j !== i))}
+                disabled={row.role === "artist"}
+                className="col-span-2 text-xs text-red-400 disabled:opacity-30"
+              >
+                Remove
+              </button>
+              <input
+                value={row.name}
+                onChange={(e) =>
+                  setDraft(
+                    draft.map((r, j) =>
+                      j === i ? { ...r, name: e.target.value } : r,
+                    ),
+                  )
+                }
+                placeholder="Name (optional)"
+                className="col-span-12 px-2 py-1 bg-gray-900 border border-gray-700 text-gray-200 rounded text-xs"
+              />
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                setDraft([
+                  ...draft,
+                  { address: "", role: "producer", name: "", percent: "0" },
+                ])
+              }
+              className="flex-1 py-2 border border-gray-600 rounded-lg text-sm text-gray-300"
+            >
+              + Payee
+            </button>
+            <button
+              onClick={() => setDraft(null)}
+              className="flex-1 py-2 border border-gray-600 rounded-lg text-sm text-gray-400"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={propose}
+              disabled={busy}
+              className="flex-1 py-2 bg-purple-600 text-white font-bold rounded-lg text-sm disabled:opacity-50"
+            >
+              {busy ? "Signing…" : "Sign & propose"}
+            </button>
+          </div>
+          <p className="text-xs text-gray-400">
+            Every payee must countersign before the new split takes effect.
+            Earnings up to then follow the current version.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
@@ -1268,6 +1268,17 @@ MusicSubscriptionV5.ArtistPayout.handler(async ({ event, context }) => {
 MusicSubscriptionV5.ArtistToursReward.handler(async ({ event, context }) => {
   const { monthId, artist, toursAmount } = event.params;
 
+  // Per-month record for earnings statements
+  await context.ArtistToursReward.set({
+    id: `tours-reward-${event.chainId}-${monthId}-${artist.toLowerCase()}`,
+    monthId: monthId.toString(),
+    artist: artist.toLowerCase(),
+    amount: toursAmount,
+    claimedAt: new Date(event.block.timestamp * 1000),
+    blockNumber: BigInt(event.block.number),
+    txHash: event.transaction.hash,
+  });
+
   // Update artist stats with TOURS rewards
   const artistStatsId = `artist-stats-${event.chainId}-${artist.toLowerCase()}`;
   let artistStats = await context.ArtistStreamingStats.get(artistStatsId);
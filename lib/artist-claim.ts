@@ -3,6 +3,7 @@ import {
   encodeFunctionData,
   http,
   parseAbi,
+  toHex,
   type Address,
   type Hex,
 } from "viem";
@@ -173,6 +174,105 @@ export async function claimArtistPayoutsFromEOA({
   return { payoutTxHash, toursTxHash, toursError };
 }
 
+const WMON_TRANSFER_ABI = parseAbi([
+  "function transfer(address to, uint256 amount) returns (bool)",
+]);
+
+export interface PayCollaboratorsArgs {
+  /** From /api/rights/splits/settlement — one payment per payee. */
+  payments: { payee: string; amountWei: string }[];
+  /** The artist wallet the payouts landed in; the signer must match it. */
+  expectedAddress: string;
+  wmonAddress: Address;
+  /** Called after each mined transfer, so it can be recorded before the next prompt. */
+  onPaid?: (payee: string, txHash: string) => Promise<void> | void;
+}
+
+/**
+ * Pay co-owners their split-sheet shares from the artist's wallet.
+ *
+ * Same constraint as the claim above: the money is in the artist's own wallet, so only that
+ * wallet can pass it on. Each payee is a separate WMON transfer, mined and reported before the
+ * next is sent; a rejection part-way leaves the earlier ones paid and recorded.
+ */
+export async function payCollaboratorsFromEOA({
+  payments,
+  expectedAddress,
+  wmonAddress,
+  onPaid,
+}: PayCollaboratorsArgs): Promise<{ payee: string; txHash: string }[]> {
+  if (!wmonAddress) throw new Error("WMON token not configured");
+  if (!payments.length) throw new Error("Nothing owed to collaborators");
+
+  const provider = await resolveWalletProvider();
+  const accounts = (await provider.request({
+    method: "eth_requestAccounts",
+  })) as string[];
+  const from = accounts?.[0];
+  if (!from) throw new Error("Wallet returned no account");
+  if (from.toLowerCase() !== expectedAddress.toLowerCase()) {
+    throw new Error(
+      `Splits are paid from ${shorten(expectedAddress)} but the signed-in wallet is ${shorten(from)}. Switch wallets to pay.`,
+    );
+  }
+  try {
+    await provider.request({
+      method: "wallet_switchEthereumChain",
+      params: [{ chainId: MONAD_CHAIN_ID_HEX }],
+    });
+  } catch {
+    // Already on Monad, or the host doesn't support switching.
+  }
+
+  const paid: { payee: string; txHash: string }[] = [];
+  for (const { payee, amountWei } of payments) {
+    let txHash: string;
+    try {
+      txHash = await sendAndConfirm(
+        provider,
+        from as Address,
+        wmonAddress,
+        encodeFunctionData({
+          abi: WMON_TRANSFER_ABI,
+          functionName: "transfer",
+          args: [payee as Address, BigInt(amountWei)],
+        }) as Hex,
+      );
+    } catch (e: unknown) {
+      throw new Error(explainClaimError(e));
+    }
+    paid.push({ payee, txHash });
+    await onPaid?.(payee, txHash);
+  }
+  return paid;
+}
+
+/**
+ * Sign a rights message — a split-sheet share, a dispute filing or response — with the signer's
+ * own wallet. The signature is kept as the record of what they agreed to or claimed, so it must
+ * come from the named address, not a Safe acting for it.
+ */
+export async function signRightsMessageFromEOA(
+  message: string,
+  expectedAddress: string,
+): Promise<string> {
+  const provider = await resolveWalletProvider();
+  const accounts = (await provider.request({
+    method: "eth_requestAccounts",
+  })) as string[];
+  const from = accounts?.[0];
+  if (!from) throw new Error("Wallet returned no account");
+  if (from.toLowerCase() !== expectedAddress.toLowerCase()) {
+    throw new Error(
+      `This signature is for ${shorten(expectedAddress)} but the signed-in wallet is ${shorten(from)}.`,
+    );
+  }
+  return (await provider.request({
+    method: "personal_sign",
+    params: [toHex(message), from],
+  })) as string;
+}
+
 /**
  * Send a transaction and wait until it is mined, throwing if it reverted.
  *
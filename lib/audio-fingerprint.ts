@@ -0,0 +1,796 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Acoustic fingerprints for uploaded masters: catching a track that is already on the platform
+ * before it is minted again, whether by its own artist or by someone who downloaded it.
+ *
+ * `findDuplicateMaster` (lib/contract-generation.ts) compares uris and titles, so re-encoding the
+ * file or retitling it defeats it. This compares what the audio does instead.
+ *
+ * ## What is fingerprinted
+ *
+ * A loudness envelope at {@link FRAME_RATE} frames a second, reduced to one bit per frame: is it
+ * louder than the second around it. Re-encoding, a different bitrate, a gain change or a trimmed intro
+ * leave that sequence mostly intact; two different recordings agree on about half of it.
+ *
+ * Nothing here decodes audio. There is no decoder in the deployment (no ffmpeg, no native
+ * modules), so the envelope is read where it can be read without one:
+ *
+ * - WAV: the PCM samples themselves, energy per 576-sample granule.
+ * - MP3: each granule's `global_gain` from the frame side info. The encoder sets the quantiser
+ *   step from the granule's level, so the gain tracks loudness in 1.5 dB steps without touching
+ *   the Huffman-coded data.
+ *
+ * Anything else (AAC, M4A, OGG) is reported as unscanned, and the upload route records that
+ * rather than pretending it was checked.
+ *
+ * ## Matching
+ *
+ * The index holds one record per full-track CID. A query is matched in two passes: 16-bit words
+ * of the fingerprint vote for (record, offset) pairs, then the best-voted pairs are scored by
+ * bit error rate over the overlap ({@link findMatches}). {@link screenUpload} turns the best
+ * match into a verdict — block, flag for review, or clear.
+ *
+ * ## Clips
+ *
+ * The same container parsing cuts excerpts ({@link cutClip}) for Beat Match, where the point is
+ * that the file says nothing about the song it came from.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Bumped when the envelope or bit derivation changes; older records need a rebuild. */
+export const FINGERPRINT_VERSION = 1;
+/** Envelope frames per second. */
+export const FRAME_RATE = 10;
+/** Ignore audio after ~13 minutes. Also the stride of the packed keys in {@link findMatches}. */
+export const MAX_FRAMES = 8000;
+/** Shorter than this and a match means nothing. */
+export const MIN_FRAMES = 150;
+
+/** At or below this bit error rate the upload is the same recording. */
+export const BLOCK_BER = 0.2;
+/** At or below this it is close enough for a person to look at it. */
+export const FLAG_BER = 0.32;
+
+const GRANULE = 576;
+const WORD_BITS = 16;
+const MIN_VOTES = 3;
+const CANDIDATES = 8;
+
+export const FINGERPRINT_KEYS = {
+  /** Hash: full-track CID → FingerprintRecord. */
+  index: "fingerprint:index",
+  /** List, newest first: uploads that were flagged or could not be scanned. */
+  flags: "fingerprint:flags",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AudioFormat = "mp3" | "wav";
+
+export interface AudioEnvelope {
+  format: AudioFormat;
+  sampleRate: number;
+  durationSec: number;
+  /** Relative loudness in dB, one value per 1/FRAME_RATE seconds. */
+  frames: number[];
+}
+
+export interface AudioFingerprint {
+  version: number;
+  format: AudioFormat;
+  durationSec: number;
+  /** Fingerprint bits, packed MSB-first, base64. */
+  bits: string;
+  length: number;
+}
+
+export interface FingerprintRecord extends AudioFingerprint {
+  /** CID of the full track — the index key. */
+  cid: string;
+  /** Null until the master is minted and the mint (or the catalogue backfill) links it. */
+  tokenId: string | null;
+  artist: string;
+  /** Metadata uri, when known. */
+  uri?: string;
+  indexedAt: number;
+}
+
+export interface FingerprintMatch {
+  cid: string;
+  tokenId: string | null;
+  artist: string;
+  /** Bit error rate over the overlap: 0 identical, ~0.5 unrelated. */
+  ber: number;
+  /** Where the query starts within the match, in seconds (negative: the query starts earlier). */
+  offsetSec: number;
+  overlapSec: number;
+}
+
+export type FingerprintVerdict = "clear" | "flag" | "block" | "unscanned";
+
+export interface FingerprintFlag {
+  verdict: "flag" | "unscanned";
+  artist: string;
+  cid: string;
+  uri?: string;
+  reason: string;
+  match?: FingerprintMatch;
+  at: number;
+}
+
+// ============================================================================
+// ENVELOPES
+// ============================================================================
+
+const MP3_KBPS_V1 = [
+  0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320,
+];
+const MP3_KBPS_V2 = [
+  0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160,
+];
+const MP3_RATES = [44100, 48000, 32000];
+/** global_gain is a power-of-2^(1/4) step: 6.02 dB / 4. */
+const DB_PER_GAIN_STEP = 1.505;
+
+const ascii = (b: Uint8Array, p: number, n: number) =>
+  String.fromCharCode(...b.subarray(p, p + n));
+
+function readBits(b: Uint8Array, bitOffset: number, count: number): number {
+  let v = 0;
+  for (let i = 0; i < count; i++) {
+    const bit = bitOffset + i;
+    v = (v << 1) | ((b[bit >> 3] >> (7 - (bit & 7))) & 1);
+  }
+  return v;
+}
+
+export function sniffFormat(b: Uint8Array): AudioFormat | null {
+  if (
+    b.length >= 12 &&
+    ascii(b, 0, 4) === "RIFF" &&
+    ascii(b, 8, 4) === "WAVE"
+  ) {
+    return "wav";
+  }
+  if (b.length >= 3 && ascii(b, 0, 3) === "ID3") return "mp3";
+  if (b.length >= 2 && b[0] === 0xff && (b[1] & 0xe6) === 0xe2) return "mp3";
+  return null;
+}
+
+export interface Mp3Frame {
+  length: number;
+  sampleRate: number;
+  /** Mean global_gain over channels, one per granule. */
+  gains: number[];
+  /** The first frame of a VBR file carries a Xing/Info/VBRI header and no audio. */
+  vbrHeader: boolean;
+}
+
+/** Header and side info of the Layer III frame at `p`, or null if there is none. */
+function parseMp3Frame(b: Uint8Array, p: number): Mp3Frame | null {
+  if (p + 4 > b.length || b[p] !== 0xff || (b[p + 1] & 0xe0) !== 0xe0)
+    return null;
+  const version = (b[p + 1] >> 3) & 3; // 0: 2.5, 1: reserved, 2: MPEG-2, 3: MPEG-1
+  const layer = (b[p + 1] >> 1) & 3; // 1: Layer III
+  const bitrateIndex = b[p + 2] >> 4;
+  const rateIndex = (b[p + 2] >> 2) & 3;
+  // Free-format bitrates have no computable frame length; nobody ships them.
+  if (
+    version === 1 ||
+    layer !== 1 ||
+    bitrateIndex === 0 ||
+    bitrateIndex === 15 ||
+    rateIndex === 3
+  ) {
+    return null;
+  }
+
+  const mpeg1 = version === 3;
+  const sampleRate = MP3_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+  const kbps = (mpeg1 ? MP3_KBPS_V1 : MP3_KBPS_V2)[bitrateIndex];
+  const padding = (b[p + 2] >> 1) & 1;
+  const length =
+    Math.floor(((mpeg1 ? 144 : 72) * kbps * 1000) / sampleRate) + padding;
+  const channels = b[p + 3] >> 6 === 3 ? 1 : 2;
+
+  const side = p + 4 + ((b[p + 1] & 1) === 0 ? 2 : 0);
+  const sideBytes = mpeg1
+    ? channels === 1
+      ? 17
+      : 32
+    : channels === 1
+      ? 9
+      : 17;
+  if (side + sideBytes > b.length) return null;
+
+  // main_data_begin, private bits and (MPEG-1) scfsi precede the per-granule blocks, each of
+  // which opens with part2_3_length (12) and big_values (9) before global_gain (8).
+  const lead = mpeg1
+    ? 9 + (channels === 1 ? 5 : 3) + 4 * channels
+    : 8 + channels;
+  const block = mpeg1 ? 59 : 63;
+  const gains: number[] = [];
+  for (let g = 0; g < (mpeg1 ? 2 : 1); g++) {
+    let sum = 0;
+    for (let ch = 0; ch < channels; ch++) {
+      sum += readBits(b, side * 8 + lead + (g * channels + ch) * block + 21, 8);
+    }
+    gains.push(sum / channels);
+  }
+
+  const tag = ascii(b, side + sideBytes, 4);
+  const vbrHeader =
+    tag === "Xing" || tag === "Info" || ascii(b, p + 36, 4) === "VBRI";
+  return { length, sampleRate, gains, vbrHeader };
+}
+
+/** Averages per-granule loudness into FRAME_RATE buckets. */
+function toFrames(granuleDb: number[], granuleSec: number): number[] {
+  const count = Math.min(
+    MAX_FRAMES,
+    Math.floor(granuleDb.length * granuleSec * FRAME_RATE),
+  );
+  const sum = new Array<number>(count).fill(0);
+  const n = new Array<number>(count).fill(0);
+  for (let i = 0; i < granuleDb.length; i++) {
+    const f = Math.floor((i + 0.5) * granuleSec * FRAME_RATE);
+    if (f >= count) break;
+    sum[f] += granuleDb[i];
+    n[f]++;
+  }
+  const frames: number[] = [];
+  for (let f = 0; f < count; f++) {
+    frames.push(n[f] ? sum[f] / n[f] : (frames[f - 1] ?? 0));
+  }
+  return frames;
+}
+
+function id3Length(b: Uint8Array): number {
+  if (ascii(b, 0, 3) !== "ID3" || b.length < 10) return 0;
+  const size =
+    ((b[6] & 0x7f) << 21) |
+    ((b[7] & 0x7f) << 14) |
+    ((b[8] & 0x7f) << 7) |
+    (b[9] & 0x7f);
+  return 10 + size + (b[5] & 0x10 ? 10 : 0);
+}
+
+/**
+ * Every trusted Layer III frame in the file with its byte offset, after the ID3v2 tag. Trailing
+ * ID3v1 and APE tags are not frames and fall out of the scan.
+ */
+export function mp3Frames(
+  b: Uint8Array,
+): { offset: number; frame: Mp3Frame }[] {
+  const frames: { offset: number; frame: Mp3Frame }[] = [];
+  let p = id3Length(b);
+  let sampleRate = 0;
+  let synced = false;
+  while (p + 4 <= b.length) {
+    const f = parseMp3Frame(b, p);
+    // Out of sync, a header only counts if another one follows it where it says: sync words
+    // turn up inside audio data, and one false frame would skew the sample rate for the rest.
+    const trusted =
+      f !== null &&
+      (synced ||
+        p + f.length >= b.length ||
+        parseMp3Frame(b, p + f.length) !== null) &&
+      (sampleRate === 0 || f.sampleRate === sampleRate);
+    if (!trusted) {
+      synced = false;
+      p++;
+      continue;
+    }
+    sampleRate = f!.sampleRate;
+    frames.push({ offset: p, frame: f! });
+    p += f!.length;
+    synced = true;
+  }
+  return frames;
+}
+
+export function mp3Envelope(b: Uint8Array): AudioEnvelope | null {
+  const frames = mp3Frames(b);
+  const gains: number[] = [];
+  for (const [i, { frame }] of frames.entries()) {
+    if (!(i === 0 && frame.vbrHeader)) gains.push(...frame.gains);
+  }
+  if (gains.length === 0) return null;
+
+  const sampleRate = frames[0].frame.sampleRate;
+  const granuleSec = GRANULE / sampleRate;
+  return {
+    format: "mp3",
+    sampleRate,
+    durationSec: gains.length * granuleSec,
+    frames: toFrames(
+      gains.map((g) => g * DB_PER_GAIN_STEP),
+      granuleSec,
+    ),
+  };
+}
+
+export interface WavLayout {
+  codec: number;
+  channels: number;
+  sampleRate: number;
+  bits: number;
+  /** The raw `fmt ` chunk body, for writing the format back out unchanged. */
+  fmtChunk: Uint8Array;
+  /** Byte range of the sample data. */
+  data: [number, number];
+}
+
+/** The format and sample data of a RIFF/WAVE file; every other chunk is skipped. */
+export function wavLayout(b: Uint8Array): WavLayout | null {
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  let p = 12;
+  let fmt: Omit<WavLayout, "data"> | null = null;
+  let data: [number, number] | null = null;
+  while (p + 8 <= b.length && !data) {
+    const id = ascii(b, p, 4);
+    const size = view.getUint32(p + 4, true);
+    if (id === "fmt " && p + 24 <= b.length) {
+      let codec = view.getUint16(p + 8, true);
+      // WAVE_FORMAT_EXTENSIBLE: the real format is the first two bytes of the sub-format GUID.
+      if (codec === 0xfffe && size >= 26 && p + 34 <= b.length)
+        codec = view.getUint16(p + 32, true);
+      fmt = {
+        codec,
+        channels: view.getUint16(p + 10, true),
+        sampleRate: view.getUint32(p + 12, true),
+        bits: view.getUint16(p + 22, true),
+        fmtChunk: b.subarray(p + 8, Math.min(p + 8 + size, b.length)),
+      };
+    } else if (id === "data") {
+      // Streamed WAVs write 0 or 0xFFFFFFFF here; the data runs to the end of the file.
+      const end =
+        size === 0 || p + 8 + size > b.length ? b.length : p + 8 + size;
+      data = [p + 8, end];
+    }
+    p += 8 + size + (size & 1);
+  }
+  if (!fmt || !data || fmt.channels < 1 || fmt.sampleRate < 1) return null;
+  return { ...fmt, data };
+}
+
+export function wavEnvelope(b: Uint8Array): AudioEnvelope | null {
+  const layout = wavLayout(b);
+  if (!layout) return null;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+
+  const { codec, channels, sampleRate, bits, data } = layout;
+  const bytes = bits / 8;
+  const read =
+    codec === 3 && bits === 32
+      ? (o: number) => view.getFloat32(o, true)
+      : codec !== 1
+        ? null
+        : bits === 8
+          ? (o: number) => (b[o] - 128) / 128
+          : bits === 16
+            ? (o: number) => view.getInt16(o, true) / 32768
+            : bits === 24
+              ? (o: number) =>
+                  (((b[o] | (b[o + 1] << 8) | (b[o + 2] << 16)) << 8) >> 8) /
+                  8388608
+              : bits === 32
+                ? (o: number) => view.getInt32(o, true) / 2147483648
+                : null;
+  if (!read) return null;
+
+  const frameBytes = bytes * channels;
+  const [start, end] = data;
+  const samples = Math.floor((end - start) / frameBytes);
+  const limit = Math.min(
+    samples,
+    Math.ceil((MAX_FRAMES / FRAME_RATE) * sampleRate) + GRANULE,
+  );
+  const granuleDb: number[] = [];
+  for (let s = 0; s + GRANULE <= limit; s += GRANULE) {
+    let energy = 0;
+    for (
+      let o = start + s * frameBytes, e = o + GRANULE * frameBytes;
+      o < e;
+      o += bytes
+    ) {
+      const v = read(o);
+      energy += v * v;
+    }
+    granuleDb.push(10 * Math.log10(energy / (GRANULE * channels) + 1e-10));
+  }
+  if (granuleDb.length === 0) return null;
+
+  return {
+    format: "wav",
+    sampleRate,
+    durationSec: samples / sampleRate,
+    frames: toFrames(granuleDb, GRANULE / sampleRate),
+  };
+}
+
+export function audioEnvelope(b: Uint8Array): AudioEnvelope | null {
+  const format = sniffFormat(b);
+  if (format === "wav") return wavEnvelope(b);
+  if (format === "mp3") return mp3Envelope(b);
+  return null;
+}
+
+// ============================================================================
+// CLIPS
+// ============================================================================
+
+export interface AudioClip {
+  format: AudioFormat;
+  bytes: Uint8Array;
+  /** Where the clip actually starts and how long it is, after snapping to frames. */
+  startSec: number;
+  durationSec: number;
+}
+
+/**
+ * A `durationSec` excerpt from `startSec`, cut without decoding and carrying nothing of the
+ * source but its audio: no ID3 or APE tags, no Xing/LAME header, no LIST/INFO chunks.
+ *
+ * MP3 is cut on frame boundaries. Layer III frames may borrow bits from the frames before them
+ * (the bit reservoir), so a decoder can drop the clip's first frame — 26 ms of silence. WAV keeps
+ * the source's `fmt ` chunk and a block-aligned slice of the samples.
+ */
+export function cutClip(
+  b: Uint8Array,
+  startSec: number,
+  durationSec: number,
+): AudioClip | null {
+  const format = sniffFormat(b);
+  if (format === "mp3") {
+    const frames = mp3Frames(b).filter(
+      ({ frame }, i) => !(i === 0 && frame.vbrHeader),
+    );
+    if (frames.length === 0) return null;
+    const { gains, sampleRate } = frames[0].frame;
+    const frameSec = (gains.length * GRANULE) / sampleRate;
+    const first = Math.max(0, Math.floor(startSec / frameSec));
+    const picked = frames.slice(
+      first,
+      first + Math.ceil(durationSec / frameSec),
+    );
+    if (picked.length === 0) return null;
+    const bytes = new Uint8Array(
+      picked.reduce((n, { frame }) => n + frame.length, 0),
+    );
+    let o = 0;
+    for (const { offset, frame } of picked) {
+      bytes.set(b.subarray(offset, offset + frame.length), o);
+      o += frame.length;
+    }
+    return {
+      format,
+      bytes: bytes.subarray(0, o),
+      startSec: first * frameSec,
+      durationSec: picked.length * frameSec,
+    };
+  }
+
+  if (format === "wav") {
+    const layout = wavLayout(b);
+    if (!layout) return null;
+    const { channels, sampleRate, bits, fmtChunk, data } = layout;
+    const block = channels * Math.ceil(bits / 8);
+    const total = Math.floor((data[1] - data[0]) / block);
+    const first = Math.min(
+      Math.max(0, Math.round(startSec * sampleRate)),
+      total,
+    );
+    const count = Math.min(Math.round(durationSec * sampleRate), total - first);
+    if (count <= 0) return null;
+
+    const fmtPad = fmtChunk.length & 1;
+    const dataBytes = count * block;
+    const bytes = new Uint8Array(
+      12 + 8 + fmtChunk.length + fmtPad + 8 + dataBytes + (dataBytes & 1),
+    );
+    const view = new DataView(bytes.buffer);
+    const tag = (p: number, id: string) =>
+      [...id].forEach((c, i) => (bytes[p + i] = c.charCodeAt(0)));
+    tag(0, "RIFF");
+    view.setUint32(4, bytes.length - 8, true);
+    tag(8, "WAVE");
+    tag(12, "fmt ");
+    view.setUint32(16, fmtChunk.length, true);
+    bytes.set(fmtChunk, 20);
+    const p = 20 + fmtChunk.length + fmtPad;
+    tag(p, "data");
+    view.setUint32(p + 4, dataBytes, true);
+    const from = data[0] + first * block;
+    bytes.set(b.subarray(from, from + dataBytes), p + 8);
+    return {
+      format,
+      bytes,
+      startSec: first / sampleRate,
+      durationSec: count / sampleRate,
+    };
+  }
+
+  return null;
+}
+
+// ============================================================================
+// FINGERPRINTS
+// ============================================================================
+
+/**
+ * One bit per frame: 1 where the frame is louder than the second around it.
+ *
+ * Not frame against next frame — within a sustained note consecutive frames differ only by
+ * encoder noise, so that bit is a coin toss. Against a local mean, the note's level decides it.
+ */
+export function fingerprintBits(frames: number[]): Uint8Array {
+  const bits = new Uint8Array(frames.length);
+  const half = Math.floor(FRAME_RATE / 2);
+  for (let t = 0; t < frames.length; t++) {
+    let sum = 0;
+    let n = 0;
+    for (
+      let k = Math.max(0, t - half);
+      k <= Math.min(frames.length - 1, t + half);
+      k++
+    ) {
+      sum += frames[k];
+      n++;
+    }
+    bits[t] = frames[t] > sum / n ? 1 : 0;
+  }
+  return bits;
+}
+
+export function packBits(bits: Uint8Array): string {
+  const packed = new Uint8Array(Math.ceil(bits.length / 8));
+  for (let i = 0; i < bits.length; i++)
+    if (bits[i]) packed[i >> 3] |= 0x80 >> (i & 7);
+  return Buffer.from(packed).toString("base64");
+}
+
+export function unpackBits(packed: string, length: number): Uint8Array {
+  const bytes = Buffer.from(packed, "base64");
+  const bits = new Uint8Array(length);
+  for (let i = 0; i < length; i++)
+    bits[i] = (bytes[i >> 3] >> (7 - (i & 7))) & 1;
+  return bits;
+}
+
+/**
+ * Fingerprints an audio file. Null when the format cannot be read or the track is too short to
+ * fingerprint — the caller decides what an unscanned upload means.
+ */
+export function fingerprintAudio(audio: Uint8Array): AudioFingerprint | null {
+  const envelope = audioEnvelope(audio);
+  if (!envelope || envelope.frames.length < MIN_FRAMES) return null;
+  const bits = fingerprintBits(envelope.frames);
+  return {
+    version: FINGERPRINT_VERSION,
+    format: envelope.format,
+    durationSec: Math.round(envelope.durationSec * 10) / 10,
+    bits: packBits(bits),
+    length: bits.length,
+  };
+}
+
+/** The 16 bits starting at `t`, or -1 for a word too flat to say anything (silence, a drone). */
+function wordAt(bits: Uint8Array, t: number): number {
+  let w = 0;
+  for (let i = 0; i < WORD_BITS; i++) w = (w << 1) | bits[t + i];
+  return w === 0 || w === 0xffff ? -1 : w;
+}
+
+/**
+ * Every record whose fingerprint overlaps the query's by at least MIN_FRAMES at some offset,
+ * best first. Records are decoded once per call; at the catalogue's size that is cheaper than
+ * keeping a word index in Redis in step with the records.
+ */
+export function findMatches(
+  query: Uint8Array,
+  records: FingerprintRecord[],
+  opts: { maxBer?: number } = {},
+): FingerprintMatch[] {
+  const maxBer = opts.maxBer ?? FLAG_BER;
+  const usable = records.filter((r) => r.version === FINGERPRINT_VERSION);
+  const decoded = usable.map((r) =>
+    unpackBits(r.bits, Math.min(r.length, MAX_FRAMES)),
+  );
+
+  const postings = new Map<number, number[]>();
+  decoded.forEach((bits, e) => {
+    for (let t = 0; t + WORD_BITS <= bits.length; t++) {
+      const w = wordAt(bits, t);
+      if (w < 0) continue;
+      const list = postings.get(w);
+      const entry = e * MAX_FRAMES + t;
+      if (list) list.push(entry);
+      else postings.set(w, [entry]);
+    }
+  });
+
+  // Key: record × 2·MAX_FRAMES + (offset + MAX_FRAMES), offset = position in record − in query.
+  const votes = new Map<number, number>();
+  for (let t = 0; t + WORD_BITS <= Math.min(query.length, MAX_FRAMES); t++) {
+    const w = wordAt(query, t);
+    if (w < 0) continue;
+    for (const entry of postings.get(w) ?? []) {
+      const e = Math.floor(entry / MAX_FRAMES);
+      const key = e * 2 * MAX_FRAMES + (entry % MAX_FRAMES) - t + MAX_FRAMES;
+      votes.set(key, (votes.get(key) ?? 0) + 1);
+    }
+  }
+
+  const best = new Map<number, FingerprintMatch>();
+  const ranked = [...votes.entries()]
+    .filter(([, n]) => n >= MIN_VOTES)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, CANDIDATES);
+  for (const [key] of ranked) {
+    const e = Math.floor(key / (2 * MAX_FRAMES));
+    const offset = (key % (2 * MAX_FRAMES)) - MAX_FRAMES;
+    const ref = decoded[e];
+    const from = Math.max(0, -offset);
+    const to = Math.min(query.length, ref.length - offset);
+    if (to - from < MIN_FRAMES) continue;
+    let errors = 0;
+    for (let t = from; t < to; t++) errors += query[t] ^ ref[t + offset];
+    const ber = errors / (to - from);
+    if (ber > maxBer || (best.get(e)?.ber ?? 1) <= ber) continue;
+    const r = usable[e];
+    best.set(e, {
+      cid: r.cid,
+      tokenId: r.tokenId,
+      artist: r.artist,
+      ber: Math.round(ber * 1000) / 1000,
+      offsetSec: offset / FRAME_RATE,
+      overlapSec: (to - from) / FRAME_RATE,
+    });
+  }
+  return [...best.values()].sort((a, b) => a.ber - b.ber);
+}
+
+export interface UploadScreening {
+  verdict: Exclude<FingerprintVerdict, "unscanned">;
+  match?: FingerprintMatch;
+  reason?: string;
+}
+
+/**
+ * What to do with an upload, given the index.
+ *
+ * Only a minted master can block. An upload that was pinned but never minted has no owner to
+ * protect, and letting it block would let anyone who uploads a stolen file first lock its real
+ * artist out; a match against one is flagged instead. The uploader's own unminted uploads are
+ * skipped entirely, so retrying a failed mint does not trip over itself.
+ */
+export function screenUpload(
+  query: AudioFingerprint,
+  records: FingerprintRecord[],
+  uploader: string,
+): UploadScreening {
+  const artist = uploader.toLowerCase();
+  const others = records.filter(
+    (r) => r.tokenId !== null || r.artist !== artist,
+  );
+  const [match] = findMatches(unpackBits(query.bits, query.length), others);
+  if (!match) return { verdict: "clear" };
+
+  const what =
+    match.tokenId === null
+      ? `an upload by ${match.artist} that has not been minted`
+      : match.artist === artist
+        ? `your master #${match.tokenId}`
+        : `master #${match.tokenId}`;
+  if (match.ber <= BLOCK_BER && match.tokenId !== null) {
+    return {
+      verdict: "block",
+      match,
+      reason:
+        match.artist === artist
+          ? `This recording is already minted as your master #${match.tokenId}.`
+          : `This recording matches master #${match.tokenId} by another artist. If it is yours, file a rights dispute against that master.`,
+    };
+  }
+  return { verdict: "flag", match, reason: `Sounds close to ${what}` };
+}
+
+/**
+ * The full-track CID a metadata document points at, read the way the indexer reads
+ * `fullAudioUrl`: `external_url`, else `animation_url`. Null for art and anything not on IPFS.
+ */
+export function metadataAudioCid(metadata: {
+  external_url?: unknown;
+  animation_url?: unknown;
+}): string | null {
+  const url = String(metadata.external_url || metadata.animation_url || "");
+  return url.match(/(?:ipfs:\/\/|\/ipfs\/)([A-Za-z0-9]+)/)?.[1] ?? null;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadFingerprintIndex(
+  redis: Pick<Redis, "hgetall">,
+): Promise<FingerprintRecord[]> {
+  const all =
+    (await redis.hgetall<Record<string, unknown>>(FINGERPRINT_KEYS.index)) ||
+    {};
+  return Object.values(all)
+    .map((v) => parseMaybeJson<FingerprintRecord>(v))
+    .filter((r): r is FingerprintRecord => r !== null);
+}
+
+export async function getFingerprint(
+  redis: Pick<Redis, "hget">,
+  cid: string,
+): Promise<FingerprintRecord | null> {
+  return parseMaybeJson<FingerprintRecord>(
+    await redis.hget(FINGERPRINT_KEYS.index, cid),
+  );
+}
+
+export async function saveFingerprint(
+  redis: Pick<Redis, "hset">,
+  record: FingerprintRecord,
+): Promise<void> {
+  await redis.hset(FINGERPRINT_KEYS.index, {
+    [record.cid]: JSON.stringify(record),
+  });
+}
+
+/**
+ * Points the record for `cid` at the master minted from it, which is what lets it block. False
+ * when the recording was never indexed.
+ */
+export async function linkFingerprint(
+  redis: Pick<Redis, "hget" | "hset">,
+  cid: string,
+  master: { tokenId: string; artist: string; uri: string },
+): Promise<boolean> {
+  const record = await getFingerprint(redis, cid);
+  if (!record) return false;
+  await saveFingerprint(redis, {
+    ...record,
+    tokenId: master.tokenId,
+    artist: master.artist.toLowerCase(),
+    uri: master.uri,
+  });
+  return true;
+}
+
+export async function recordFingerprintFlag(
+  redis: Pick<Redis, "lpush" | "ltrim">,
+  flag: FingerprintFlag,
+): Promise<void> {
+  await redis.lpush(FINGERPRINT_KEYS.flags, JSON.stringify(flag));
+  await redis.ltrim(FINGERPRINT_KEYS.flags, 0, 999);
+}
+
+export async function listFingerprintFlags(
+  redis: Pick<Redis, "lrange">,
+  limit = 100,
+): Promise<FingerprintFlag[]> {
+  const raw = await redis.lrange(FINGERPRINT_KEYS.flags, 0, limit - 1);
+  return raw
+    .map((v) => parseMaybeJson<FingerprintFlag>(v))
+    .filter((f): f is FingerprintFlag => f !== null);
+}
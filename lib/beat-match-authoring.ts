@@ -0,0 +1,288 @@
+import { randomBytes } from "crypto";
+import type { Redis } from "@upstash/redis";
+import { audioEnvelope, cutClip } from "@/lib/audio-fingerprint";
+import { getClearedTokenIds, getRightsHolds } from "@/lib/rights-declaration";
+import {
+  BeatMatchError,
+  CLIP_SECONDS,
+  challengeResult,
+  cidOf,
+  clipLeakBlocker,
+  clipStart,
+  getUsage,
+  type BeatMatchChallengeRecord,
+  type BeatMatchClip,
+  type BeatMatchEligibility,
+  type BeatMatchResult,
+  type BeatMatchTrack,
+} from "@/lib/beat-match";
+
+/**
+ * The I/O around lib/beat-match.ts: the catalogue and challenges from Envio, usernames from
+ * Neynar, and clips to Pinata.
+ */
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT;
+const NEYNAR_API_KEY =
+  process.env.NEYNAR_API_KEY || process.env.NEXT_PUBLIC_NEYNAR_API_KEY || "";
+const PINATA_JWT = process.env.PINATA_JWT;
+const PINATA_GATEWAY =
+  process.env.NEXT_PUBLIC_PINATA_GATEWAY || "gateway.pinata.cloud";
+const APP_URL =
+  process.env.NEXT_PUBLIC_URL ||
+  "https://fcempowertours-production-6551.up.railway.app";
+const KEEPER_SECRET =
+  process.env.KEEPER_SECRET || process.env.CRON_SECRET || "";
+
+const PAGE_SIZE = 1000;
+
+export function clipUrl(cid: string): string {
+  return `https://${PINATA_GATEWAY}/ipfs/${cid}`;
+}
+
+/** A crypto-backed `random()` for picks and clip offsets. */
+export function secureRandom(): number {
+  return randomBytes(4).readUInt32BE(0) / 2 ** 32;
+}
+
+async function envio<T>(
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T> {
+  if (!ENVIO_ENDPOINT) throw new Error("NEXT_PUBLIC_ENVIO_ENDPOINT not set");
+  const res = await fetch(ENVIO_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+    body: JSON.stringify({ query, variables }),
+  });
+  if (!res.ok) throw new Error(`Envio query failed: ${res.status}`);
+  const json = await res.json();
+  if (json.errors?.length) throw new Error(`Envio: ${json.errors[0].message}`);
+  return json.data as T;
+}
+
+async function usernamesByFid(fids: number[]): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  if (!NEYNAR_API_KEY) return names;
+  for (let i = 0; i < fids.length; i += 100) {
+    const res = await fetch(
+      `https://api.neynar.com/v2/farcaster/user/bulk?fids=${fids.slice(i, i + 100).join(",")}`,
+      { headers: { api_key: NEYNAR_API_KEY } },
+    );
+    if (!res.ok) continue;
+    const { users = [] } = await res.json();
+    for (const u of users) if (u.username) names.set(Number(u.fid), u.username);
+  }
+  return names;
+}
+
+export async function usernameForAddress(
+  address: string,
+): Promise<string | undefined> {
+  if (!NEYNAR_API_KEY) return undefined;
+  try {
+    const res = await fetch(
+      `https://api.neynar.com/v2/farcaster/user/bulk-by-address?addresses=${address}`,
+      { headers: { api_key: NEYNAR_API_KEY } },
+    );
+    if (!res.ok) return undefined;
+    const data = await res.json();
+    return data[address.toLowerCase()]?.[0]?.username;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Every playable master, with its artist's username where Farcaster has one. */
+export async function loadTracks(): Promise<BeatMatchTrack[]> {
+  const rows: any[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const data = await envio<{ MusicNFT: any[] }>(
+      `query ($limit: Int!, $offset: Int!) {
+        MusicNFT(
+          where: { isBurned: { _eq: false }, isArt: { _eq: false }, fullAudioUrl: { _is_null: false } }
+          order_by: { tokenId: asc }, limit: $limit, offset: $offset
+        ) { tokenId artist artistFid name fullAudioUrl previewAudioUrl }
+      }`,
+      { limit: PAGE_SIZE, offset },
+    );
+    rows.push(...data.MusicNFT);
+    if (data.MusicNFT.length < PAGE_SIZE) break;
+  }
+
+  const fids = [
+    ...new Set(rows.map((r) => Number(r.artistFid)).filter((f) => f > 0)),
+  ];
+  const names = await usernamesByFid(fids);
+  return rows.map((r) => {
+    const track: BeatMatchTrack = {
+      tokenId: String(r.tokenId),
+      artist: String(r.artist || "").toLowerCase(),
+      songTitle: String(r.name || ""),
+    };
+    const fid = Number(r.artistFid);
+    if (fid > 0) track.artistFid = fid;
+    if (names.has(fid)) track.artistUsername = names.get(fid);
+    if (r.fullAudioUrl) track.fullAudioUrl = r.fullAudioUrl;
+    if (r.previewAudioUrl) track.previewAudioUrl = r.previewAudioUrl;
+    return track;
+  });
+}
+
+export async function loadEligibility(
+  redis: Redis,
+): Promise<BeatMatchEligibility> {
+  const [holds, cleared, usage] = await Promise.all([
+    getRightsHolds(redis),
+    getClearedTokenIds(redis),
+    getUsage(redis),
+  ]);
+  return { holds, cleared: new Set(cleared), usage };
+}
+
+/** The full and preview audio CIDs of every track: files a clip must not be. */
+export function catalogueCids(tracks: BeatMatchTrack[]): Set<string> {
+  const cids = new Set<string>();
+  for (const t of tracks) {
+    for (const url of [t.fullAudioUrl, t.previewAudioUrl]) {
+      const cid = cidOf(url);
+      if (cid) cids.add(cid);
+    }
+  }
+  return cids;
+}
+
+/**
+ * Cuts and pins the clip for `track`. The pin's name is random and carries no keyvalues: Pinata
+ * metadata is private, but it is the first thing anyone with dashboard access sees.
+ */
+export async function prepareClip(
+  track: BeatMatchTrack,
+  tracks: BeatMatchTrack[],
+): Promise<BeatMatchClip> {
+  if (!PINATA_JWT) throw new Error("PINATA_JWT not set");
+  const source = cidOf(track.fullAudioUrl);
+  const res = await fetch(clipUrl(source!));
+  if (!res.ok) throw new Error(`Could not fetch the track: ${res.status}`);
+  const audio = new Uint8Array(await res.arrayBuffer());
+
+  const envelope = audioEnvelope(audio);
+  if (!envelope) {
+    throw new BeatMatchError("Only MP3 and WAV masters can be clipped", 422);
+  }
+  const clip = cutClip(
+    audio,
+    clipStart(envelope.durationSec, secureRandom),
+    CLIP_SECONDS,
+  );
+  if (!clip) throw new BeatMatchError("Could not cut a clip", 422);
+
+  const form = new FormData();
+  const name = `${randomBytes(12).toString("hex")}.${clip.format}`;
+  form.append(
+    "file",
+    new Blob([Buffer.from(clip.bytes)], {
+      type: clip.format === "mp3" ? "audio/mpeg" : "audio/wav",
+    }),
+    name,
+  );
+  form.append("pinataMetadata", JSON.stringify({ name }));
+  const pin = await fetch("https://api.pinata.cloud/pinning/pinFileToIPFS", {
+    method: "POST",
+    headers: { Authorization: `Bearer ${PINATA_JWT}` },
+    body: form,
+  });
+  if (!pin.ok) throw new Error(`Pinata error: ${pin.status}`);
+  const cid = String((await pin.json()).IpfsHash);
+
+  const leak = clipLeakBlocker(clipUrl(cid), cid, track, catalogueCids(tracks));
+  if (leak) throw new BeatMatchError(leak, 422);
+  return {
+    cid,
+    format: clip.format,
+    startSec: clip.startSec,
+    durationSec: clip.durationSec,
+  };
+}
+
+/** The indexed challenge created with this clip, once the indexer has it. */
+export async function findIndexedChallenge(clipCid: string): Promise<{
+  challengeId: string;
+  txHash: string;
+  finalized: boolean;
+  winner: string | null;
+  rewardAmount: string | null;
+  totalGuesses: number;
+} | null> {
+  const data = await envio<{ BeatMatchChallenge: any[] }>(
+    `query ($hash: String!) {
+      BeatMatchChallenge(where: { ipfsAudioHash: { _eq: $hash } }, limit: 1) {
+        challengeId txHash finalized winner rewardAmount totalGuesses
+      }
+    }`,
+    { hash: clipCid },
+  );
+  const row = data.BeatMatchChallenge[0];
+  return row
+    ? {
+        challengeId: String(row.challengeId),
+        txHash: String(row.txHash),
+        finalized: Boolean(row.finalized),
+        winner: row.winner ?? null,
+        rewardAmount:
+          row.rewardAmount == null ? null : String(row.rewardAmount),
+        totalGuesses: Number(row.totalGuesses ?? 0),
+      }
+    : null;
+}
+
+/** The finalized result, or null while the indexer has not seen the finalization. */
+export async function loadResult(
+  clipCid: string,
+): Promise<BeatMatchResult | null> {
+  const indexed = await findIndexedChallenge(clipCid);
+  if (!indexed?.finalized) return null;
+  const data = await envio<{ BeatMatchGuess: any[] }>(
+    `query ($id: String!) {
+      BeatMatchGuess(where: { challengeId: { _eq: $id } }) { correct }
+    }`,
+    { id: indexed.challengeId },
+  );
+  const result = challengeResult(indexed, data.BeatMatchGuess);
+  if (result.winner) {
+    const username = await usernameForAddress(result.winner);
+    if (username) result.winnerUsername = username;
+  }
+  return result;
+}
+
+/**
+ * Posts the results through /api/cast-nft, which only casts them for the keeper secret: the cast
+ * hash ("" if Neynar returned none), or null if it did not go out.
+ */
+export async function castResult(
+  c: BeatMatchChallengeRecord,
+): Promise<string | null> {
+  const res = await fetch(`${APP_URL}/api/cast-nft`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "x-cron-secret": KEEPER_SECRET,
+    },
+    body: JSON.stringify({
+      type: "beat_match_result",
+      tokenId: c.tokenId,
+      songTitle: c.songTitle,
+      txHash: c.createTx,
+      params: {
+        challengeId: c.challengeId,
+        day: c.day,
+        artistUsername: c.artistUsername,
+        ...c.result,
+      },
+    }),
+  });
+  const body = await res.json().catch(() => ({}));
+  return body.success ? String(body.castHash ?? "") : null;
+}
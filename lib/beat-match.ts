@@ -0,0 +1,573 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Beat Match authoring: choosing the day's song, cutting the clip players hear, and following the
+ * challenge on MusicBeatMatchV2 through to the results cast.
+ *
+ * Players guess from a short excerpt of a master — the title, the artist's username, or the token
+ * itself (`beat_match_submit_guess`). The contract holds the answer and pays the winner; this
+ * module decides what goes into it, one challenge per UTC day, keyed `YYYY-MM-DD`.
+ *
+ * ## Choosing a track
+ *
+ * A master is eligible when it is playable (minted, not burned, not art, full audio on IPFS), its
+ * rights are explicitly cleared and not on hold, and its artist has a Farcaster username to guess.
+ * A track is not reused for {@link TRACK_COOLDOWN_DAYS} and an artist not featured again for
+ * {@link ARTIST_COOLDOWN_DAYS}, counted either side of the day being scheduled so a curator
+ * filling the calendar ahead is held to the same spacing. {@link trackBlocker} gives the reason a
+ * track is out; a curator picks from what is left, and the keeper fills any day nobody scheduled
+ * with a random pick.
+ *
+ * ## Fairness
+ *
+ * The clip is the only thing players get, so it must not name the song. It is cut from the middle
+ * of the track — intros and hooks are what people recognise first, and what previews start on —
+ * with every tag stripped ({@link cutClip} in lib/audio-fingerprint.ts), pinned under a random
+ * name, and served by its own CID. {@link clipLeakBlocker} refuses a clip whose URL carries the
+ * title, the artist, the token id or a CID from the catalogue, since the full track or its preview
+ * at a known CID answers the challenge outright. The public read (`/api/beat-match`) withholds
+ * the answer fields until the challenge is finalized.
+ *
+ * What this cannot hide is the contract's own record: MusicBeatMatchV2 takes the answer in the
+ * clear, so it is in the calldata and the indexed `BeatMatchChallenge` from the moment the day
+ * opens. Nothing here writes to the contract: its owner creates and finalizes each challenge, with
+ * the clip's CID as the audio hash, on the day itself. The clip is not served before then.
+ *
+ * ## Lifecycle
+ *
+ *   scheduled → created → finalized → published
+ *
+ * Once the day starts the keeper looks for the challenge in the indexer (the clip's CID is unique
+ * to it) and records its challengeId; a day that ends with nothing indexed is cancelled. After
+ * `endTime` it waits for the indexer to show the challenge finalized, records the winner, and
+ * casts the results. A curator may cancel a challenge until it is on-chain.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const CLIP_SECONDS = 15;
+/** Shorter tracks leave too little middle to cut from. */
+export const MIN_TRACK_SECONDS = 60;
+export const TRACK_COOLDOWN_DAYS = 90;
+export const ARTIST_COOLDOWN_DAYS = 14;
+/** How far ahead a curator may schedule. */
+export const SCHEDULE_AHEAD_DAYS = 30;
+/** The clip starts somewhere in this part of the track. */
+const CLIP_WINDOW = [0.3, 0.7] as const;
+/** Title words shorter than this are too common to count as a giveaway ("the", "me"). */
+const MIN_LEAK_WORD = 4;
+const ACTION_LOCK_SECONDS = 120;
+
+export const BEAT_MATCH_KEYS = {
+  challenge: (day: string) => `beatmatch:day:${day}`,
+  /** Sorted set: every scheduled day, scored by its start (ms). */
+  schedule: "beatmatch:schedule",
+  /** Sorted set: days the keeper still has work on, scored by when that work is due (ms). */
+  open: "beatmatch:open",
+  /** Hash: tokenId → the last day it was (or is) the song. */
+  trackUses: "beatmatch:uses:track",
+  /** Hash: artist address → the last day they were (or are) featured. */
+  artistUses: "beatmatch:uses:artist",
+  lock: (day: string) => `beatmatch:lock:${day}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A master as the authoring side sees it. */
+export interface BeatMatchTrack {
+  tokenId: string;
+  artist: string;
+  artistFid?: number;
+  artistUsername?: string;
+  songTitle: string;
+  fullAudioUrl?: string;
+  previewAudioUrl?: string;
+  isArt?: boolean;
+  isBurned?: boolean;
+}
+
+export interface BeatMatchUsage {
+  tracks: Record<string, string>;
+  artists: Record<string, string>;
+}
+
+export interface BeatMatchEligibility {
+  /** Rights holds from lib/rights-declaration.ts. */
+  holds: Record<string, string>;
+  /** Token ids with an explicit `cleared` rights status. */
+  cleared: Set<string>;
+  usage: BeatMatchUsage;
+}
+
+export type BeatMatchStatus =
+  | "scheduled"
+  | "created"
+  | "finalized"
+  | "published"
+  | "cancelled";
+
+export interface BeatMatchClip {
+  cid: string;
+  format: "mp3" | "wav";
+  startSec: number;
+  durationSec: number;
+}
+
+export interface BeatMatchChallengeRecord {
+  day: string;
+  status: BeatMatchStatus;
+  tokenId: string;
+  artist: string;
+  artistUsername: string;
+  songTitle: string;
+  clip: BeatMatchClip;
+  /** Unix seconds. */
+  startTime: number;
+  endTime: number;
+  /** An admin address, or "keeper" for a day nobody scheduled. */
+  scheduledBy: string;
+  scheduledAt: number;
+  challengeId?: string;
+  /** The owner's `createChallenge` transaction, as the indexer recorded it. */
+  createTx?: string;
+  result?: BeatMatchResult;
+  castHash?: string;
+  cancelled?: { by: string; reason: string; at: number };
+  /** The last keeper failure on this day, cleared by the next success. */
+  error?: string;
+}
+
+export interface BeatMatchResult {
+  winner: string | null;
+  winnerUsername?: string;
+  rewardAmount: string;
+  totalGuesses: number;
+  correctGuesses: number;
+}
+
+export class BeatMatchError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "BeatMatchError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// DAYS
+// ============================================================================
+
+export function dayKey(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+export function parseDay(day: unknown): string {
+  const s = String(day ?? "");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || dayKey(Date.parse(s)) !== s) {
+    throw new BeatMatchError("day must be YYYY-MM-DD", 400);
+  }
+  return s;
+}
+
+/** The UTC day as unix seconds, start inclusive, end exclusive. */
+export function challengeWindow(day: string): {
+  startTime: number;
+  endTime: number;
+} {
+  const start = Date.parse(`${day}T00:00:00Z`) / 1000;
+  return { startTime: start, endTime: start + DAY_MS / 1000 };
+}
+
+const daysBetween = (a: string, b: string) =>
+  Math.abs(Date.parse(a) - Date.parse(b)) / DAY_MS;
+
+// ============================================================================
+// ELIGIBILITY
+// ============================================================================
+
+/** The CID in `ipfs://…` or a gateway `/ipfs/…` URL. */
+export function cidOf(url: string | undefined): string | null {
+  if (!url) return null;
+  const m =
+    url.match(/^ipfs:\/\/(?:ipfs\/)?([^/?#]+)/) ||
+    url.match(/\/ipfs\/([^/?#]+)/);
+  return m ? m[1] : null;
+}
+
+/** Why `track` cannot be the song on `day`, or null if it can. */
+export function trackBlocker(
+  track: BeatMatchTrack,
+  day: string,
+  e: BeatMatchEligibility,
+): string | null {
+  if (track.isBurned || track.isArt) return "Not a playable track";
+  if (!cidOf(track.fullAudioUrl)) return "No full-length audio on IPFS";
+  const hold = e.holds[track.tokenId];
+  if (hold) return `Rights ${hold}`;
+  if (!e.cleared.has(track.tokenId)) return "Rights not cleared";
+  if (!track.artistUsername) return "Artist has no Farcaster username";
+  const usedOn = e.usage.tracks[track.tokenId];
+  if (
+    usedOn &&
+    usedOn !== day &&
+    daysBetween(usedOn, day) < TRACK_COOLDOWN_DAYS
+  ) {
+    return `Song of ${usedOn}`;
+  }
+  const featuredOn = e.usage.artists[track.artist.toLowerCase()];
+  if (
+    featuredOn &&
+    featuredOn !== day &&
+    daysBetween(featuredOn, day) < ARTIST_COOLDOWN_DAYS
+  ) {
+    return `Artist featured on ${featuredOn}`;
+  }
+  return null;
+}
+
+export function eligibleTracks(
+  tracks: BeatMatchTrack[],
+  day: string,
+  e: BeatMatchEligibility,
+): {
+  eligible: BeatMatchTrack[];
+  excluded: { tokenId: string; reason: string }[];
+} {
+  const eligible: BeatMatchTrack[] = [];
+  const excluded: { tokenId: string; reason: string }[] = [];
+  for (const t of tracks) {
+    const reason = trackBlocker(t, day, e);
+    if (reason) excluded.push({ tokenId: t.tokenId, reason });
+    else eligible.push(t);
+  }
+  return { eligible, excluded };
+}
+
+/**
+ * A random eligible track. `random` must be unpredictable (crypto in the routes): anyone can list
+ * the eligible tracks, so a pick derived from the date could be worked out in advance.
+ */
+export function pickTrack(
+  eligible: BeatMatchTrack[],
+  random: () => number,
+): BeatMatchTrack | null {
+  if (eligible.length === 0) return null;
+  return eligible[Math.floor(random() * eligible.length) % eligible.length];
+}
+
+/** Where to start the clip: somewhere in the middle of the track, never the intro. */
+export function clipStart(
+  durationSec: number,
+  random: () => number,
+  clipSec: number = CLIP_SECONDS,
+): number {
+  if (durationSec < MIN_TRACK_SECONDS) {
+    throw new BeatMatchError(
+      `Track is under ${MIN_TRACK_SECONDS} seconds`,
+      422,
+    );
+  }
+  const from = durationSec * CLIP_WINDOW[0];
+  const to = Math.max(from, durationSec * CLIP_WINDOW[1] - clipSec);
+  return Math.round((from + random() * (to - from)) * 10) / 10;
+}
+
+// ============================================================================
+// FAIRNESS
+// ============================================================================
+
+const tokens = (s: string) =>
+  s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+/**
+ * Why `clipUrl` would give the answer away, or null if it does not. `catalogueCids` holds the
+ * full and preview audio CIDs of every master: a clip that is one of those files is the song.
+ *
+ * Words are compared whole, so a title word that happens to occur inside the clip's CID does not
+ * count; a title written as one run ("lovesong") is caught as a substring.
+ */
+export function clipLeakBlocker(
+  clipUrl: string,
+  clipCid: string,
+  track: BeatMatchTrack,
+  catalogueCids: Set<string>,
+): string | null {
+  if (!clipCid || !clipUrl.includes(clipCid)) {
+    return "Clip URL does not point at the clip";
+  }
+  if (catalogueCids.has(clipCid)) {
+    return "Clip is a catalogue file, not a cut";
+  }
+  const urlTokens = tokens(clipUrl);
+  const inUrl = new Set(urlTokens);
+  for (const cid of catalogueCids) {
+    if (clipUrl.includes(cid)) return "Clip URL carries a catalogue CID";
+  }
+  if (inUrl.has(track.tokenId)) return "Clip URL carries the token id";
+  if (
+    track.artist &&
+    clipUrl.toLowerCase().includes(track.artist.toLowerCase())
+  ) {
+    return "Clip URL carries the artist address";
+  }
+  const username = tokens(track.artistUsername ?? "");
+  if (username.some((w) => w.length >= 3 && inUrl.has(w))) {
+    return "Clip URL carries the artist's username";
+  }
+  const title = tokens(track.songTitle);
+  if (title.some((w) => w.length >= MIN_LEAK_WORD && inUrl.has(w))) {
+    return "Clip URL carries a word of the title";
+  }
+  const run = title.join("");
+  if (
+    run.length > MIN_LEAK_WORD &&
+    urlTokens.some((t) => t !== clipCid.toLowerCase() && t.includes(run))
+  ) {
+    return "Clip URL carries the title";
+  }
+  return null;
+}
+
+/** The public view of a challenge: the answer fields only once it is decided. */
+export function publicChallenge(
+  c: BeatMatchChallengeRecord,
+  clipUrl: string,
+): Record<string, unknown> {
+  const decided = c.status === "finalized" || c.status === "published";
+  return {
+    day: c.day,
+    status: c.status,
+    challengeId: c.challengeId ?? null,
+    clipUrl,
+    clipDurationSec: c.clip.durationSec,
+    startTime: c.startTime,
+    endTime: c.endTime,
+    ...(decided
+      ? {
+          answer: {
+            tokenId: c.tokenId,
+            songTitle: c.songTitle,
+            artistUsername: c.artistUsername,
+          },
+          result: c.result ?? null,
+        }
+      : {}),
+  };
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+export function scheduleBlocker(
+  day: string,
+  existing: BeatMatchChallengeRecord | null,
+  now: number,
+): string | null {
+  if (existing && existing.status !== "cancelled") {
+    return `${day} already has a challenge`;
+  }
+  const { startTime } = challengeWindow(day);
+  if (startTime * 1000 < Date.parse(dayKey(now))) return "That day has passed";
+  if (startTime * 1000 > now + SCHEDULE_AHEAD_DAYS * DAY_MS) {
+    return `Schedule at most ${SCHEDULE_AHEAD_DAYS} days ahead`;
+  }
+  return null;
+}
+
+export function buildChallenge(
+  day: string,
+  track: BeatMatchTrack,
+  clip: BeatMatchClip,
+  scheduledBy: string,
+  now: number,
+): BeatMatchChallengeRecord {
+  return {
+    day,
+    status: "scheduled",
+    tokenId: track.tokenId,
+    artist: track.artist.toLowerCase(),
+    artistUsername: track.artistUsername!,
+    songTitle: track.songTitle,
+    clip,
+    ...challengeWindow(day),
+    scheduledBy: scheduledBy.toLowerCase(),
+    scheduledAt: now,
+  };
+}
+
+export function cancelChallenge(
+  c: BeatMatchChallengeRecord,
+  by: string,
+  reason: string,
+  now: number,
+): void {
+  if (c.status !== "scheduled") {
+    throw new BeatMatchError(
+      c.status === "cancelled"
+        ? "Challenge is already cancelled"
+        : "Challenge is already on-chain",
+    );
+  }
+  if (!reason.trim()) throw new BeatMatchError("A reason is required", 400);
+  c.status = "cancelled";
+  c.cancelled = { by: by.toLowerCase(), reason: reason.trim(), at: now };
+}
+
+/** What the keeper should do with `c` now, or null if nothing is due. */
+export function nextStep(
+  c: BeatMatchChallengeRecord,
+  now: number,
+): "resolve" | "record" | "publish" | null {
+  const seconds = now / 1000;
+  switch (c.status) {
+    case "scheduled":
+      return seconds >= c.startTime ? "resolve" : null;
+    case "created":
+      return seconds >= c.endTime ? "record" : null;
+    case "finalized":
+      return "publish";
+    default:
+      return null;
+  }
+}
+
+/** When the keeper next has work on `c` (ms), or null once it never will. */
+export function dueAt(c: BeatMatchChallengeRecord): number | null {
+  switch (c.status) {
+    case "scheduled":
+      return c.startTime * 1000;
+    case "created":
+    case "finalized":
+      return c.endTime * 1000;
+    default:
+      return null;
+  }
+}
+
+/** The indexed challenge and its guesses, reduced to what the results cast says. */
+export function challengeResult(
+  indexed: {
+    winner?: string | null;
+    rewardAmount?: string | null;
+    totalGuesses?: number;
+  },
+  guesses: { correct?: boolean | null }[],
+): BeatMatchResult {
+  const winner =
+    indexed.winner && !/^0x0+$/.test(indexed.winner)
+      ? indexed.winner.toLowerCase()
+      : null;
+  return {
+    winner,
+    rewardAmount: String(indexed.rewardAmount ?? "0"),
+    totalGuesses: Math.max(Number(indexed.totalGuesses ?? 0), guesses.length),
+    correctGuesses: guesses.filter((g) => g.correct).length,
+  };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value == null) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getChallenge(
+  redis: Pick<Redis, "get">,
+  day: string,
+): Promise<BeatMatchChallengeRecord | null> {
+  return parseMaybeJson<BeatMatchChallengeRecord>(
+    await redis.get(BEAT_MATCH_KEYS.challenge(day)),
+  );
+}
+
+export async function getChallenges(
+  redis: Pick<Redis, "mget">,
+  days: string[],
+): Promise<BeatMatchChallengeRecord[]> {
+  if (days.length === 0) return [];
+  const raw = await redis.mget<unknown[]>(
+    ...days.map((d) => BEAT_MATCH_KEYS.challenge(d)),
+  );
+  return raw
+    .map((v) => parseMaybeJson<BeatMatchChallengeRecord>(v))
+    .filter((c): c is BeatMatchChallengeRecord => !!c);
+}
+
+export async function getUsage(
+  redis: Pick<Redis, "hgetall">,
+): Promise<BeatMatchUsage> {
+  const [tracks, artists] = await Promise.all([
+    redis.hgetall<Record<string, string>>(BEAT_MATCH_KEYS.trackUses),
+    redis.hgetall<Record<string, string>>(BEAT_MATCH_KEYS.artistUses),
+  ]);
+  return { tracks: tracks || {}, artists: artists || {} };
+}
+
+/**
+ * Saves the record and keeps the schedule, the keeper's queue and the cooldowns in step with its
+ * status. A cancelled day gives its track and artist back unless something later has used them.
+ */
+export async function saveChallenge(
+  redis: Pick<Redis, "set" | "zadd" | "zrem" | "hset" | "hget" | "hdel">,
+  c: BeatMatchChallengeRecord,
+): Promise<void> {
+  await redis.set(BEAT_MATCH_KEYS.challenge(c.day), JSON.stringify(c));
+  await redis.zadd(BEAT_MATCH_KEYS.schedule, {
+    score: c.startTime * 1000,
+    member: c.day,
+  });
+  const due = dueAt(c);
+  if (due === null) await redis.zrem(BEAT_MATCH_KEYS.open, c.day);
+  else await redis.zadd(BEAT_MATCH_KEYS.open, { score: due, member: c.day });
+
+  const uses: [string, string][] = [
+    [BEAT_MATCH_KEYS.trackUses, c.tokenId],
+    [BEAT_MATCH_KEYS.artistUses, c.artist],
+  ];
+  for (const [key, field] of uses) {
+    if (c.status !== "cancelled") {
+      const current = await redis.hget<string>(key, field);
+      if (!current || current <= c.day)
+        await redis.hset(key, { [field]: c.day });
+    } else if ((await redis.hget<string>(key, field)) === c.day) {
+      await redis.hdel(key, field);
+    }
+  }
+}
+
+/** Serialise keeper and curator work on a day; false if something already holds it. */
+export async function claimBeatMatchDay(
+  redis: Pick<Redis, "set">,
+  day: string,
+): Promise<boolean> {
+  return (
+    (await redis.set(BEAT_MATCH_KEYS.lock(day), "1", {
+      nx: true,
+      ex: ACTION_LOCK_SECONDS,
+    })) === "OK"
+  );
+}
+
+export async function releaseBeatMatchDay(
+  redis: Pick<Redis, "del">,
+  day: string,
+): Promise<void> {
+  await redis.del(BEAT_MATCH_KEYS.lock(day));
+}
@@ -0,0 +1,243 @@
+import { encodeFunctionData, parseAbi, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { Redis } from "@upstash/redis";
+import { loadTracks } from "@/lib/beat-match-authoring";
+import { fetchEPKFromChain, fetchEPKFromIPFS } from "@/lib/epk/utils";
+import { loadExcludedListeners } from "@/lib/listener-risk";
+import { getClearedTokenIds, getRightsHolds } from "@/lib/rights-declaration";
+import type {
+  CollectorCompletion,
+  CollectorPassport,
+  CollectorPlay,
+  CollectorTrack,
+  CollectorWeekRecord,
+} from "@/lib/country-collector";
+
+/**
+ * The I/O around lib/country-collector.ts: passports, the catalogue, plays and completions from
+ * Envio, artist locations from their EPKs, and `completeArtistFor` call data for the Platform Safe.
+ */
+
+export const COUNTRY_COLLECTOR_V2 = process.env
+  .NEXT_PUBLIC_COUNTRY_COLLECTOR_V2 as Address;
+
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT;
+const DEPLOYER_PRIVATE_KEY = process.env.DEPLOYER_PRIVATE_KEY as
+  | Hex
+  | undefined;
+
+// The same call execute-delegated's `country_collector_complete` sends for a player's own Safe
+const COUNTRY_COLLECTOR_ABI = parseAbi([
+  "function completeArtistFor(address beneficiary, uint256 weekId, uint256 artistIndex, uint256 artistId) external",
+]);
+
+const PAGE_SIZE = 1000;
+/** EPKs fetched at once when resolving artist locations. */
+const EPK_CONCURRENCY = 8;
+
+async function envio<T>(
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T> {
+  if (!ENVIO_ENDPOINT) throw new Error("NEXT_PUBLIC_ENVIO_ENDPOINT not set");
+  const res = await fetch(ENVIO_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+    body: JSON.stringify({ query, variables }),
+  });
+  if (!res.ok) throw new Error(`Envio query failed: ${res.status}`);
+  const json = await res.json();
+  if (json.errors?.length) throw new Error(`Envio: ${json.errors[0].message}`);
+  return json.data as T;
+}
+
+async function envioAll<T>(
+  entity: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const data = await envio<Record<string, T[]>>(query, {
+      ...variables,
+      limit: PAGE_SIZE,
+      offset,
+    });
+    rows.push(...data[entity]);
+    if (data[entity].length < PAGE_SIZE) return rows;
+  }
+}
+
+export function completeCall(weekId: string, x: CollectorCompletion) {
+  return {
+    to: COUNTRY_COLLECTOR_V2,
+    value: 0n,
+    data: encodeFunctionData({
+      abi: COUNTRY_COLLECTOR_ABI,
+      functionName: "completeArtistFor",
+      args: [
+        x.player as Address,
+        BigInt(weekId),
+        BigInt(x.artistIndex),
+        BigInt(x.artistId),
+      ],
+    }) as Hex,
+  };
+}
+
+/** Every passport, or only those `owners` hold. */
+export async function loadPassports(
+  owners?: string[],
+): Promise<CollectorPassport[]> {
+  const rows = owners
+    ? await envioAll<any>(
+        "PassportNFT",
+        `query ($owners: [String!]!, $limit: Int!, $offset: Int!) {
+          PassportNFT(
+            where: { owner: { _in: $owners } }
+            order_by: { tokenId: asc }, limit: $limit, offset: $offset
+          ) { tokenId owner countryCode mintedAt }
+        }`,
+        { owners: owners.map((o) => o.toLowerCase()) },
+      )
+    : await envioAll<any>(
+        "PassportNFT",
+        `query ($limit: Int!, $offset: Int!) {
+          PassportNFT(order_by: { tokenId: asc }, limit: $limit, offset: $offset) {
+            tokenId owner countryCode mintedAt
+          }
+        }`,
+        {},
+      );
+  return rows.map((r) => ({
+    tokenId: String(r.tokenId),
+    owner: String(r.owner || "").toLowerCase(),
+    countryCode: String(r.countryCode || "").toUpperCase(),
+    mintedAt: Math.floor(Date.parse(r.mintedAt) / 1000) || 0,
+  }));
+}
+
+/** Every playable master with rights explicitly cleared and no hold. */
+export async function loadClearedTracks(
+  redis: Redis,
+): Promise<CollectorTrack[]> {
+  const [tracks, holds, cleared] = await Promise.all([
+    loadTracks(),
+    getRightsHolds(redis),
+    getClearedTokenIds(redis),
+  ]);
+  const clearedIds = new Set(cleared);
+  return tracks
+    .filter((t) => clearedIds.has(t.tokenId) && !holds[t.tokenId])
+    .map((t) => ({
+      tokenId: t.tokenId,
+      artist: t.artist,
+      songTitle: t.songTitle,
+      ...(t.artistUsername ? { artistUsername: t.artistUsername } : {}),
+    }));
+}
+
+/** Each artist's EPK `location`, where they have an EPK that gives one. */
+export async function loadArtistLocations(
+  artists: string[],
+): Promise<Record<string, string | undefined>> {
+  if (!ENVIO_ENDPOINT) throw new Error("NEXT_PUBLIC_ENVIO_ENDPOINT not set");
+  const locations: Record<string, string | undefined> = {};
+  for (let i = 0; i < artists.length; i += EPK_CONCURRENCY) {
+    await Promise.all(
+      artists.slice(i, i + EPK_CONCURRENCY).map(async (artist) => {
+        const onChain = await fetchEPKFromChain(artist, ENVIO_ENDPOINT);
+        if (!onChain) return;
+        const epk = await fetchEPKFromIPFS(onChain.ipfsCid);
+        const location = epk?.artist?.location?.trim();
+        if (location) locations[artist.toLowerCase()] = location;
+      }),
+    );
+  }
+  return locations;
+}
+
+/** The indexed weekId of the challenge created for `c`, once the indexer has it. */
+export async function findIndexedWeek(
+  c: CollectorWeekRecord,
+): Promise<string | null> {
+  const data = await envio<{ CountryChallenge: any[] }>(
+    `query ($code: String!, $from: numeric!, $to: numeric!) {
+      CountryChallenge(
+        where: { countryCode: { _eq: $code }, startTime: { _gte: $from, _lt: $to } }
+        order_by: { startTime: desc }, limit: 10
+      ) { weekId artistIds }
+    }`,
+    {
+      code: c.countryCode,
+      from: String(c.startTime),
+      to: String(c.endTime),
+    },
+  );
+  const ids = c.artists.map((a) => a.tokenId).join(",");
+  const row = data.CountryChallenge.find(
+    (r) => (r.artistIds || []).map(String).join(",") === ids,
+  );
+  return row ? String(row.weekId) : null;
+}
+
+/** Plays of the week's tracks during the week. */
+export async function loadPlays(
+  c: CollectorWeekRecord,
+): Promise<CollectorPlay[]> {
+  const rows = await envioAll<any>(
+    "PlayRecord",
+    `query ($ids: [String!]!, $from: numeric!, $to: numeric!, $limit: Int!, $offset: Int!) {
+      PlayRecord(
+        where: { masterTokenId: { _in: $ids }, timestamp: { _gte: $from, _lt: $to } }
+        order_by: { timestamp: asc }, limit: $limit, offset: $offset
+      ) { user masterTokenId duration timestamp }
+    }`,
+    {
+      ids: c.artists.map((a) => a.tokenId),
+      from: String(c.startTime),
+      to: String(c.endTime),
+    },
+  );
+  return rows.map((r) => ({
+    user: String(r.user).toLowerCase(),
+    masterTokenId: String(r.masterTokenId),
+    duration: Number(r.duration),
+    timestamp: Number(r.timestamp),
+  }));
+}
+
+/** Completions the indexer has for the week, however they were sent. */
+export async function loadIndexedCompletions(
+  weekId: string,
+): Promise<{ player: string; artistIndex: number }[]> {
+  const rows = await envioAll<any>(
+    "ArtistCompletion",
+    `query ($weekId: String!, $limit: Int!, $offset: Int!) {
+      ArtistCompletion(
+        where: { weekId: { _eq: $weekId } }
+        order_by: { completedAt: asc }, limit: $limit, offset: $offset
+      ) { player artistIndex }
+    }`,
+    { weekId },
+  );
+  return rows.map((r) => ({
+    player: String(r.player).toLowerCase(),
+    artistIndex: Number(r.artistIndex),
+  }));
+}
+
+/**
+ * Addresses whose plays do not complete anything: listeners held out of on-chain plays, and the
+ * oracle wallet, which venue plays are recorded under.
+ */
+export async function loadExcludedPlayers(redis: Redis): Promise<Set<string>> {
+  const excluded = await loadExcludedListeners(redis);
+  if (DEPLOYER_PRIVATE_KEY) {
+    excluded.add(
+      privateKeyToAccount(DEPLOYER_PRIVATE_KEY).address.toLowerCase(),
+    );
+  }
+  return excluded;
+}
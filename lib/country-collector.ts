@@ -0,0 +1,734 @@
+import type { Redis } from "@upstash/redis";
+import type { Country } from "./passport/countries";
+
+/**
+ * Country Collector: choosing each week's country and artists, following the challenge on
+ * CountryCollectorV2, completing it for listeners who played the music, and stamping their
+ * passports when they have all three.
+ *
+ * A week runs Monday 00:00 UTC to the next Monday, keyed by its Monday (`YYYY-MM-DD`). The
+ * contract holds a country and three music NFT token ids; a player completes an artist with
+ * `completeArtistFor(player, weekId, artistIndex, artistId)` and is rewarded for all three.
+ *
+ * ## Choosing the country
+ *
+ * Countries are weighted by how many distinct addresses hold a passport for them (`PassportNFT`),
+ * so the challenge goes where the players are, and a country is not chosen again for
+ * {@link COUNTRY_COOLDOWN_WEEKS}. Only countries with at least three eligible artists are in the
+ * draw. When the cooldown would leave nothing to draw from it is waived rather than skip a week.
+ *
+ * ## Choosing the artists
+ *
+ * An artist is eligible when they have a playable master whose rights are explicitly cleared and
+ * not on hold, and they were not featured in the last {@link ARTIST_COOLDOWN_WEEKS}. Their
+ * country is the one their EPK `location` names ({@link countryFromLocation}); an artist without
+ * an EPK location counts for the country of their earliest passport, which is usually home.
+ * Three distinct artists are drawn and one of their cleared tracks each.
+ *
+ * ## Completion and stamps
+ *
+ * A play counts for an artist when `PlayRecord` shows the player on that artist's track during
+ * the week, for at least {@link MIN_LISTEN_SECONDS}. Listeners that lib/listener-risk.ts holds
+ * out of on-chain plays, and the oracle's own venue address, are not completed for. The keeper
+ * sends what is due from the Platform Safe and records each in a ledger, so nothing is sent twice
+ * while the indexer catches up; completions players send themselves count from `ArtistCompletion`.
+ *
+ * A player with all three gets a stamp on their passport for the week's country if they hold
+ * one, otherwise on their earliest passport. A player without a passport is retried until the
+ * week closes, {@link STAMP_GRACE_DAYS} after it ends.
+ *
+ * ## Lifecycle
+ *
+ *   scheduled → created → closed
+ *
+ * The keeper draws the week on its first run of the week; the contract's owner creates it on-chain
+ * with the drawn country and artists. The keeper learns the weekId once the indexer has it, then
+ * syncs completions and stamps every run. A week that ends with nothing indexed is skipped.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEK_MS = 7 * DAY_MS;
+export const ARTISTS_PER_WEEK = 3;
+export const COUNTRY_COOLDOWN_WEEKS = 6;
+export const ARTIST_COOLDOWN_WEEKS = 4;
+/** A play shorter than this is a skip, not a listen. */
+export const MIN_LISTEN_SECONDS = 30;
+/** Stamps are still awarded this long after the week ends, while the indexer catches up. */
+export const STAMP_GRACE_DAYS = 2;
+/** Completions sent per keeper run, in one Safe transaction. */
+export const MAX_COMPLETIONS_PER_RUN = 25;
+const ACTION_LOCK_SECONDS = 120;
+
+/** Spellings in EPK locations that are not the country's name in lib/passport/countries.ts. */
+const LOCATION_ALIASES: Record<string, string> = {
+  usa: "US",
+  "u s a": "US",
+  "united states of america": "US",
+  uk: "GB",
+  "u k": "GB",
+  "great britain": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  korea: "KR",
+  "cote d ivoire": "CI",
+  "czech republic": "CZ",
+  holland: "NL",
+};
+
+export const COUNTRY_COLLECTOR_KEYS = {
+  week: (week: string) => `countrycollector:week:${week}`,
+  /** Sorted set: every drawn week, scored by its start (ms). */
+  weeks: "countrycollector:weeks",
+  /** Sorted set: weeks the keeper still has work on, scored by when that work is due (ms). */
+  open: "countrycollector:open",
+  /** Hash: `${player}:${artistIndex}` → the tx that completed it for them. */
+  completions: (week: string) => `countrycollector:completions:${week}`,
+  /** Hash: player → the passport token id stamped. */
+  stamps: (week: string) => `countrycollector:stamps:${week}`,
+  /** Hash: country code → the last week it was drawn. */
+  countryUses: "countrycollector:uses:country",
+  /** Hash: artist address → the last week they were featured. */
+  artistUses: "countrycollector:uses:artist",
+  lock: (week: string) => `countrycollector:lock:${week}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CollectorPassport {
+  tokenId: string;
+  owner: string;
+  countryCode: string;
+  /** Unix seconds. */
+  mintedAt: number;
+}
+
+/** A cleared master the draw may feature. */
+export interface CollectorTrack {
+  tokenId: string;
+  artist: string;
+  songTitle: string;
+  artistUsername?: string;
+}
+
+export interface CollectorUsage {
+  countries: Record<string, string>;
+  artists: Record<string, string>;
+}
+
+export interface CollectorArtist {
+  index: number;
+  tokenId: string;
+  artist: string;
+  songTitle: string;
+  artistUsername?: string;
+}
+
+export type CollectorWeekStatus =
+  | "scheduled"
+  | "created"
+  | "closed"
+  | "skipped";
+
+export interface CollectorWeekRecord {
+  week: string;
+  status: CollectorWeekStatus;
+  countryCode: string;
+  country: string;
+  flag: string;
+  /** Distinct passport holders for the country when it was drawn. */
+  holders: number;
+  artists: CollectorArtist[];
+  /** Unix seconds. */
+  startTime: number;
+  endTime: number;
+  drawnAt: number;
+  /** Set when the cooldown had to be waived to draw anything. */
+  cooldownWaived?: boolean;
+  weekId?: string;
+  completionsSent: number;
+  stampsAwarded: number;
+  skipped?: { reason: string; at: number };
+  /** The last keeper failure on this week, cleared by the next success. */
+  error?: string;
+}
+
+export interface CollectorPlay {
+  user: string;
+  masterTokenId: string;
+  /** Seconds listened. */
+  duration: number;
+  /** Unix seconds. */
+  timestamp: number;
+}
+
+export interface CollectorCompletion {
+  player: string;
+  artistIndex: number;
+  artistId: string;
+}
+
+export class CountryCollectorError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "CountryCollectorError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// WEEKS
+// ============================================================================
+
+/** The Monday (UTC) of the week containing `ms`. */
+export function weekKey(ms: number): string {
+  const day = Math.floor(ms / DAY_MS);
+  // 1970-01-01 was a Thursday, three days after a Monday
+  const monday = day - ((day + 3) % 7);
+  return new Date(monday * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function parseWeek(week: unknown): string {
+  const s = String(week ?? "");
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(s) || weekKey(Date.parse(s)) !== s) {
+    throw new CountryCollectorError("week must be a Monday, YYYY-MM-DD", 400);
+  }
+  return s;
+}
+
+/** The week as unix seconds, start inclusive, end exclusive. */
+export function weekWindow(week: string): {
+  startTime: number;
+  endTime: number;
+} {
+  const start = Date.parse(`${week}T00:00:00Z`) / 1000;
+  return { startTime: start, endTime: start + WEEK_MS / 1000 };
+}
+
+const weeksBetween = (a: string, b: string) =>
+  Math.abs(Date.parse(a) - Date.parse(b)) / WEEK_MS;
+
+const inCooldown = (
+  lastWeek: string | undefined,
+  week: string,
+  weeks: number,
+) => !!lastWeek && lastWeek !== week && weeksBetween(lastWeek, week) < weeks;
+
+// ============================================================================
+// COUNTRIES
+// ============================================================================
+
+const normalise = (s: string) =>
+  ` ${s
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+
+/** Distinct passport holders per country code. */
+export function holdersByCountry(
+  passports: CollectorPassport[],
+): Record<string, number> {
+  const owners: Record<string, Set<string>> = {};
+  for (const p of passports) {
+    const code = p.countryCode.toUpperCase();
+    if (!code || !p.owner) continue;
+    (owners[code] ||= new Set()).add(p.owner.toLowerCase());
+  }
+  return Object.fromEntries(
+    Object.entries(owners).map(([code, set]) => [code, set.size]),
+  );
+}
+
+/**
+ * The country an EPK location names, or null. Locations are written city first
+ * ("Atlanta, Georgia, USA"), so the last country named wins; of several places separated by "/"
+ * the first that names a country is taken, since artists list where they are from first.
+ */
+export function countryFromLocation(
+  location: string | undefined,
+  countries: Country[],
+): string | null {
+  if (!location) return null;
+  const names: [string, string][] = [
+    ...countries.map((c): [string, string] => [normalise(c.name), c.code]),
+    ...Object.entries(LOCATION_ALIASES).map(
+      ([alias, code]): [string, string] => [` ${alias} `, code],
+    ),
+  ];
+  for (const place of location.split(/[/|;]/)) {
+    const text = normalise(place);
+    let best: { at: number; length: number; code: string } | null = null;
+    for (const [name, code] of names) {
+      const at = text.lastIndexOf(name);
+      if (at < 0) continue;
+      // Later wins; at the same place the longer name ("Democratic Republic of the Congo" over "Congo")
+      const end = at + name.length;
+      if (
+        !best ||
+        end > best.at + best.length ||
+        (end === best.at + best.length && name.length > best.length)
+      ) {
+        best = { at, length: name.length, code };
+      }
+    }
+    if (best) return best.code;
+  }
+  return null;
+}
+
+/**
+ * Each artist's country: their EPK location's, else their earliest passport's. Artists with
+ * neither are left out.
+ */
+export function artistCountries(
+  artists: string[],
+  locations: Record<string, string | undefined>,
+  passports: CollectorPassport[],
+  countries: Country[],
+): Record<string, string> {
+  const earliest: Record<string, CollectorPassport> = {};
+  for (const p of passports) {
+    const owner = p.owner.toLowerCase();
+    const current = earliest[owner];
+    if (!current || p.mintedAt < current.mintedAt) earliest[owner] = p;
+  }
+  const known = new Set(countries.map((c) => c.code));
+  const result: Record<string, string> = {};
+  for (const a of artists) {
+    const artist = a.toLowerCase();
+    const code =
+      countryFromLocation(locations[artist], countries) ||
+      earliest[artist]?.countryCode.toUpperCase();
+    if (code && known.has(code)) result[artist] = code;
+  }
+  return result;
+}
+
+// ============================================================================
+// THE DRAW
+// ============================================================================
+
+/** Cleared tracks grouped by artist, leaving out artists still in their cooldown. */
+export function eligibleArtists(
+  tracks: CollectorTrack[],
+  week: string,
+  usage: CollectorUsage,
+): Map<string, CollectorTrack[]> {
+  const byArtist = new Map<string, CollectorTrack[]>();
+  for (const t of tracks) {
+    const artist = t.artist.toLowerCase();
+    if (!artist) continue;
+    if (inCooldown(usage.artists[artist], week, ARTIST_COOLDOWN_WEEKS))
+      continue;
+    byArtist.set(artist, [...(byArtist.get(artist) || []), t]);
+  }
+  return byArtist;
+}
+
+/**
+ * The week's country, drawn with probability proportional to its passport holders among the
+ * countries with enough eligible artists. `random` must be unpredictable (crypto in the routes).
+ */
+export function pickCountry(
+  holders: Record<string, number>,
+  artistsByCountry: Record<string, number>,
+  week: string,
+  usage: CollectorUsage,
+  random: () => number,
+): { countryCode: string; cooldownWaived: boolean } | null {
+  const drawable = Object.keys(holders)
+    .filter(
+      (c) => holders[c] > 0 && (artistsByCountry[c] || 0) >= ARTISTS_PER_WEEK,
+    )
+    .sort();
+  const rested = drawable.filter(
+    (c) => !inCooldown(usage.countries[c], week, COUNTRY_COOLDOWN_WEEKS),
+  );
+  const pool = rested.length > 0 ? rested : drawable;
+  if (pool.length === 0) return null;
+
+  const total = pool.reduce((sum, c) => sum + holders[c], 0);
+  let ticket = random() * total;
+  for (const c of pool) {
+    ticket -= holders[c];
+    if (ticket < 0) {
+      return { countryCode: c, cooldownWaived: rested.length === 0 };
+    }
+  }
+  return {
+    countryCode: pool[pool.length - 1],
+    cooldownWaived: rested.length === 0,
+  };
+}
+
+/** Three distinct artists from `byArtist` at random, and one of each one's tracks. */
+export function pickArtists(
+  byArtist: Map<string, CollectorTrack[]>,
+  random: () => number,
+): CollectorArtist[] | null {
+  const artists = [...byArtist.keys()].sort();
+  if (artists.length < ARTISTS_PER_WEEK) return null;
+  const picked: CollectorArtist[] = [];
+  for (let index = 0; index < ARTISTS_PER_WEEK; index++) {
+    const [artist] = artists.splice(
+      Math.floor(random() * artists.length) % artists.length,
+      1,
+    );
+    const tracks = byArtist.get(artist)!;
+    const track = tracks[Math.floor(random() * tracks.length) % tracks.length];
+    picked.push({
+      index,
+      tokenId: track.tokenId,
+      artist,
+      songTitle: track.songTitle,
+      ...(track.artistUsername ? { artistUsername: track.artistUsername } : {}),
+    });
+  }
+  return picked;
+}
+
+export function buildWeek(
+  week: string,
+  country: Country,
+  holders: number,
+  artists: CollectorArtist[],
+  cooldownWaived: boolean,
+  now: number,
+): CollectorWeekRecord {
+  if (artists.length !== ARTISTS_PER_WEEK) {
+    throw new CountryCollectorError(
+      `A week needs ${ARTISTS_PER_WEEK} artists`,
+      422,
+    );
+  }
+  return {
+    week,
+    status: "scheduled",
+    countryCode: country.code,
+    country: country.name,
+    flag: country.flag,
+    holders,
+    artists,
+    ...weekWindow(week),
+    drawnAt: now,
+    ...(cooldownWaived ? { cooldownWaived } : {}),
+    completionsSent: 0,
+    stampsAwarded: 0,
+  };
+}
+
+/** The public view of a week. Nothing in it is secret; the contract holds all of it. */
+export function publicWeek(c: CollectorWeekRecord): Record<string, unknown> {
+  return {
+    week: c.week,
+    status: c.status,
+    weekId: c.weekId ?? null,
+    countryCode: c.countryCode,
+    country: c.country,
+    flag: c.flag,
+    artists: c.artists,
+    startTime: c.startTime,
+    endTime: c.endTime,
+  };
+}
+
+// ============================================================================
+// COMPLETION
+// ============================================================================
+
+export const completionField = (player: string, artistIndex: number) =>
+  `${player.toLowerCase()}:${artistIndex}`;
+
+/**
+ * Completions the week's plays have earned that are not already done, oldest play first and one
+ * per player and artist. `done` holds {@link completionField}s from the ledger and the indexer.
+ */
+export function completionsDue(
+  c: CollectorWeekRecord,
+  plays: CollectorPlay[],
+  done: Set<string>,
+  excluded: Set<string>,
+): CollectorCompletion[] {
+  const indexOf = new Map(c.artists.map((a) => [a.tokenId, a.index]));
+  const due = new Map<string, CollectorCompletion>();
+  for (const p of [...plays].sort((a, b) => a.timestamp - b.timestamp)) {
+    const player = p.user.toLowerCase();
+    const artistIndex = indexOf.get(String(p.masterTokenId));
+    if (artistIndex === undefined || excluded.has(player)) continue;
+    if (p.timestamp < c.startTime || p.timestamp >= c.endTime) continue;
+    if (p.duration < MIN_LISTEN_SECONDS) continue;
+    const field = completionField(player, artistIndex);
+    if (done.has(field) || due.has(field)) continue;
+    due.set(field, {
+      player,
+      artistIndex,
+      artistId: c.artists[artistIndex].tokenId,
+    });
+  }
+  return [...due.values()];
+}
+
+/** Players who have every artist and no stamp yet. */
+export function stampsDue(done: Set<string>, stamped: Set<string>): string[] {
+  const counts = new Map<string, Set<number>>();
+  for (const field of done) {
+    const at = field.lastIndexOf(":");
+    const player = field.slice(0, at);
+    const index = Number(field.slice(at + 1));
+    if (!Number.isInteger(index) || index < 0 || index >= ARTISTS_PER_WEEK)
+      continue;
+    counts.set(player, (counts.get(player) || new Set()).add(index));
+  }
+  return [...counts]
+    .filter(
+      ([player, set]) => set.size === ARTISTS_PER_WEEK && !stamped.has(player),
+    )
+    .map(([player]) => player)
+    .sort();
+}
+
+/** The passport a stamp goes on: the one for the week's country, else the earliest. */
+export function stampPassport(
+  passports: CollectorPassport[],
+  player: string,
+  countryCode: string,
+): CollectorPassport | null {
+  const own = passports
+    .filter((p) => p.owner.toLowerCase() === player.toLowerCase())
+    .sort(
+      (a, b) =>
+        a.mintedAt - b.mintedAt || Number(a.tokenId) - Number(b.tokenId),
+    );
+  return (
+    own.find((p) => p.countryCode.toUpperCase() === countryCode) ||
+    own[0] ||
+    null
+  );
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/** What the keeper should do with `c` now, or null if nothing is due. */
+export function nextStep(
+  c: CollectorWeekRecord,
+  now: number,
+): "resolve" | "sync" | "close" | null {
+  const seconds = now / 1000;
+  switch (c.status) {
+    case "scheduled":
+      return seconds >= c.startTime ? "resolve" : null;
+    case "created":
+      // Past the grace period there is nothing left to do
+      if (seconds >= c.endTime + (STAMP_GRACE_DAYS * DAY_MS) / 1000)
+        return "close";
+      return "sync";
+    default:
+      return null;
+  }
+}
+
+/** What the contract's owner creates the week with, for a week the indexer does not have yet. */
+export function createParams(c: CollectorWeekRecord): {
+  country: string;
+  countryCode: string;
+  artistIds: string[];
+} {
+  return {
+    country: c.country,
+    countryCode: c.countryCode,
+    artistIds: c.artists.map((a) => a.tokenId),
+  };
+}
+
+/** When the keeper next has work on `c` (ms), or null once it never will. */
+export function dueAt(c: CollectorWeekRecord): number | null {
+  switch (c.status) {
+    case "scheduled":
+    case "created":
+      return c.startTime * 1000;
+    default:
+      return null;
+  }
+}
+
+export function skipWeek(
+  c: CollectorWeekRecord,
+  reason: string,
+  now: number,
+): void {
+  if (c.status === "closed" || c.status === "skipped") {
+    throw new CountryCollectorError(`Week is already ${c.status}`);
+  }
+  c.status = "skipped";
+  c.skipped = { reason, at: now };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value == null) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getWeek(
+  redis: Pick<Redis, "get">,
+  week: string,
+): Promise<CollectorWeekRecord | null> {
+  return parseMaybeJson<CollectorWeekRecord>(
+    await redis.get(COUNTRY_COLLECTOR_KEYS.week(week)),
+  );
+}
+
+export async function getWeeks(
+  redis: Pick<Redis, "mget">,
+  weeks: string[],
+): Promise<CollectorWeekRecord[]> {
+  if (weeks.length === 0) return [];
+  const raw = await redis.mget<unknown[]>(
+    ...weeks.map((w) => COUNTRY_COLLECTOR_KEYS.week(w)),
+  );
+  return raw
+    .map((v) => parseMaybeJson<CollectorWeekRecord>(v))
+    .filter((c): c is CollectorWeekRecord => !!c);
+}
+
+export async function getCollectorUsage(
+  redis: Pick<Redis, "hgetall">,
+): Promise<CollectorUsage> {
+  const [countries, artists] = await Promise.all([
+    redis.hgetall<Record<string, string>>(COUNTRY_COLLECTOR_KEYS.countryUses),
+    redis.hgetall<Record<string, string>>(COUNTRY_COLLECTOR_KEYS.artistUses),
+  ]);
+  return { countries: countries || {}, artists: artists || {} };
+}
+
+/**
+ * Saves the record and keeps the week list, the keeper's queue and the cooldowns in step with its
+ * status. A skipped week gives its country and artists back unless a later week has used them.
+ */
+export async function saveWeek(
+  redis: Pick<Redis, "set" | "zadd" | "zrem" | "hset" | "hget" | "hdel">,
+  c: CollectorWeekRecord,
+): Promise<void> {
+  await redis.set(COUNTRY_COLLECTOR_KEYS.week(c.week), JSON.stringify(c));
+  await redis.zadd(COUNTRY_COLLECTOR_KEYS.weeks, {
+    score: c.startTime * 1000,
+    member: c.week,
+  });
+  const due = dueAt(c);
+  if (due === null) await redis.zrem(COUNTRY_COLLECTOR_KEYS.open, c.week);
+  else
+    await redis.zadd(COUNTRY_COLLECTOR_KEYS.open, {
+      score: due,
+      member: c.week,
+    });
+
+  const uses: [string, string][] = [
+    [COUNTRY_COLLECTOR_KEYS.countryUses, c.countryCode],
+    ...c.artists.map((a): [string, string] => [
+      COUNTRY_COLLECTOR_KEYS.artistUses,
+      a.artist,
+    ]),
+  ];
+  for (const [key, field] of uses) {
+    if (c.status !== "skipped") {
+      const current = await redis.hget<string>(key, field);
+      if (!current || current <= c.week)
+        await redis.hset(key, { [field]: c.week });
+    } else if ((await redis.hget<string>(key, field)) === c.week) {
+      await redis.hdel(key, field);
+    }
+  }
+}
+
+/** The ledger's completed fields for the week. */
+export async function getCompletionLedger(
+  redis: Pick<Redis, "hgetall">,
+  week: string,
+): Promise<Record<string, string>> {
+  return (
+    (await redis.hgetall<Record<string, string>>(
+      COUNTRY_COLLECTOR_KEYS.completions(week),
+    )) || {}
+  );
+}
+
+export async function recordCompletions(
+  redis: Pick<Redis, "hset">,
+  week: string,
+  completions: CollectorCompletion[],
+  txHash: string,
+): Promise<void> {
+  if (completions.length === 0) return;
+  await redis.hset(
+    COUNTRY_COLLECTOR_KEYS.completions(week),
+    Object.fromEntries(
+      completions.map((x) => [
+        completionField(x.player, x.artistIndex),
+        txHash,
+      ]),
+    ),
+  );
+}
+
+export async function getStamped(
+  redis: Pick<Redis, "hgetall">,
+  week: string,
+): Promise<Record<string, string>> {
+  return (
+    (await redis.hgetall<Record<string, string>>(
+      COUNTRY_COLLECTOR_KEYS.stamps(week),
+    )) || {}
+  );
+}
+
+/** Records the stamp; false if the player already had one this week. */
+export async function recordStamp(
+  redis: Pick<Redis, "hsetnx">,
+  week: string,
+  player: string,
+  passportTokenId: string,
+): Promise<boolean> {
+  return (
+    (await redis.hsetnx(
+      COUNTRY_COLLECTOR_KEYS.stamps(week),
+      player.toLowerCase(),
+      passportTokenId,
+    )) === 1
+  );
+}
+
+/** Serialise keeper work on a week; false if something already holds it. */
+export async function claimCollectorWeek(
+  redis: Pick<Redis, "set">,
+  week: string,
+): Promise<boolean> {
+  return (
+    (await redis.set(COUNTRY_COLLECTOR_KEYS.lock(week), "1", {
+      nx: true,
+      ex: ACTION_LOCK_SECONDS,
+    })) === "OK"
+  );
+}
+
+export async function releaseCollectorWeek(
+  redis: Pick<Redis, "del">,
+  week: string,
+): Promise<void> {
+  await redis.del(COUNTRY_COLLECTOR_KEYS.lock(week));
+}
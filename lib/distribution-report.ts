@@ -0,0 +1,366 @@
+import {
+  keccak256,
+  stringToBytes,
+  verifyMessage,
+  type Address,
+  type Hex,
+} from "viem";
+import type { Redis } from "@upstash/redis";
+import type { DistributionPlan } from "./listener-points";
+
+/**
+ * Listener distribution reports.
+ *
+ * The distribution cron moves the whole listener reserve in one unattended pass. A report is
+ * the artifact the team signs off on before that happens: every listener's points and expected
+ * payout, the reserve percentage the month was actually settled under, each address's delta
+ * against DISTRIBUTION_SNAPSHOT_KEY, and a diff against last month.
+ *
+ * ## Signed twice
+ *
+ *   1. The server signs the report digest with the keeper key when it drafts it, so a report
+ *      edited in Redis no longer verifies.
+ *   2. An admin approves that digest through authenticateAdminAction(), so the approval binds
+ *      the exact numbers, not a report id whose contents could change underneath it.
+ *
+ * ## Executed exactly
+ *
+ * Execution sends the report's own points, pool and snapshot, never a recomputation. Listens
+ * that arrive after the draft roll into next month because the snapshot written is the one
+ * captured at draft time. If the snapshot has moved since, or the reserve no longer covers the
+ * pool, execution refuses and a fresh report has to be drafted and approved.
+ *
+ * Status lives on the envelope, outside the signed body, so approving or executing a report does
+ * not change what was signed.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReserveSource = "month-split" | "current" | "fallback";
+
+export interface ReportEntry {
+  address: string;
+  previousTotal: number;
+  totalSongsListened: number;
+  /** totalSongsListened - previousTotal, before streak bonus and risk weight. */
+  songsDelta: number;
+  rawPoints: number;
+  weight: number;
+  points: number;
+  payoutWei: string;
+  held: boolean;
+}
+
+export interface ReportDiff {
+  previousReportId: string;
+  previousMonthId: number;
+  totalPoints: { previous: number; current: number };
+  poolWei: { previous: string; current: string };
+  listeners: { previous: number; current: number };
+  added: string[];
+  dropped: string[];
+  /** Largest point changes first, capped at REPORT_DIFF_LIMIT. */
+  changed: { address: string; previous: number; current: number }[];
+}
+
+export interface DistributionReport {
+  reportId: string;
+  monthId: number;
+  createdAt: number;
+  chainId: number;
+  pool: Address;
+  subscription: Address;
+  reserve: {
+    /** getReserveBalance() at draft time — the amount withdrawn and funded. */
+    balanceWei: string;
+    percentage: number;
+    percentageSource: ReserveSource;
+    /** monthlyStats(monthId).totalRevenue, when it could be read. */
+    monthRevenueWei: string | null;
+    /** That revenue at `percentage`: what this month alone added to the reserve. */
+    expectedFromRevenueWei: string | null;
+  };
+  poolWei: string;
+  totalPoints: number;
+  /** Listeners with points to set on-chain. */
+  listenerCount: number;
+  heldCount: number;
+  entries: ReportEntry[];
+  /** canonicalDigest() of DISTRIBUTION_SNAPSHOT_KEY when drafted. */
+  snapshotDigest: Hex;
+  snapshotAfter: Record<string, number>;
+  diff: ReportDiff | null;
+}
+
+export type ReportStatus =
+  | "draft"
+  | "approved"
+  | "rejected"
+  | "superseded"
+  | "executing"
+  | "executed"
+  | "failed";
+
+export interface SignedReport {
+  report: DistributionReport;
+  digest: Hex;
+  signer: Address;
+  signature: Hex;
+  status: ReportStatus;
+  approval?: { by: string; at: number; signature: string };
+  rejection?: { by: string; at: number; note?: string };
+  execution?: {
+    startedAt: number;
+    finishedAt?: number;
+    transactions: Record<string, string | string[]>;
+    error?: string;
+  };
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const REPORT_KEYS = {
+  report: (reportId: string) => `live-radio:distribution-report:${reportId}`,
+  /** List of report ids drafted for a month, oldest first. */
+  month: (monthId: number) => `live-radio:distribution-reports:${monthId}`,
+  /** The report id that was executed for a month. */
+  executed: (monthId: number) =>
+    `live-radio:distribution-report-executed:${monthId}`,
+} as const;
+
+export const REPORT_DIFF_LIMIT = 50;
+
+// ============================================================================
+// DIGEST
+// ============================================================================
+
+/** JSON with object keys sorted at every level, so equal values always hash equal. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function canonicalDigest(value: unknown): Hex {
+  return keccak256(stringToBytes(canonicalJson(value)));
+}
+
+/** True when the stored digest is the report's and the signer signed it. */
+export async function verifySignedReport(
+  signed: SignedReport,
+  expectedSigner: Address,
+): Promise<boolean> {
+  if (signed.signer.toLowerCase() !== expectedSigner.toLowerCase())
+    return false;
+  if (canonicalDigest(signed.report) !== signed.digest) return false;
+  try {
+    return await verifyMessage({
+      address: signed.signer,
+      message: { raw: signed.digest },
+      signature: signed.signature,
+    });
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/** The plan from planDistribution(), in the report's string-wei form. */
+export function toReportEntries(plan: DistributionPlan): ReportEntry[] {
+  return plan.lines.map((l) => ({
+    address: l.address,
+    previousTotal: l.previousTotal,
+    totalSongsListened: l.totalSongsListened,
+    songsDelta: l.totalSongsListened - l.previousTotal,
+    rawPoints: l.rawPoints,
+    weight: l.weight,
+    points: l.points,
+    payoutWei: l.payoutWei.toString(),
+    held: l.held,
+  }));
+}
+
+/** Per-address point changes against an earlier report, typically last month's executed one. */
+export function diffReports(
+  current: Pick<
+    DistributionReport,
+    "entries" | "totalPoints" | "poolWei" | "listenerCount"
+  >,
+  previous: DistributionReport | null,
+): ReportDiff | null {
+  if (!previous) return null;
+  const points = (r: Pick<DistributionReport, "entries">) =>
+    new Map(
+      r.entries.filter((e) => e.points > 0).map((e) => [e.address, e.points]),
+    );
+  const before = points(previous);
+  const after = points(current);
+
+  const added = [...after.keys()].filter((a) => !before.has(a)).sort();
+  const dropped = [...before.keys()].filter((a) => !after.has(a)).sort();
+  const changed = [...new Set([...before.keys(), ...after.keys()])]
+    .map((address) => ({
+      address,
+      previous: before.get(address) || 0,
+      current: after.get(address) || 0,
+    }))
+    .filter((c) => c.previous !== c.current)
+    .sort(
+      (a, b) =>
+        Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous) ||
+        (a.address < b.address ? -1 : 1),
+    )
+    .slice(0, REPORT_DIFF_LIMIT);
+
+  return {
+    previousReportId: previous.reportId,
+    previousMonthId: previous.monthId,
+    totalPoints: {
+      previous: previous.totalPoints,
+      current: current.totalPoints,
+    },
+    poolWei: { previous: previous.poolWei, current: current.poolWei },
+    listeners: {
+      previous: previous.listenerCount,
+      current: current.listenerCount,
+    },
+    added,
+    dropped,
+    changed,
+  };
+}
+
+/**
+ * Why a report cannot be executed now, or null when it can. `reserveBalanceWei` and
+ * `snapshotDigest` are read fresh at execution time.
+ *
+ * `resume` is set when the month's pipeline (lib/month-pipeline.ts) already started this
+ * report. The reserve has then shrunk by the pool it withdrew, and the snapshot may already
+ * be written, so those checks would only ever block the run that finishes the job.
+ */
+export function executionBlocker(
+  signed: SignedReport,
+  now: {
+    monthId: number;
+    reserveBalanceWei: bigint;
+    snapshotDigest: Hex;
+    resume?: { withdrawn: boolean; snapshotWritten: boolean };
+  },
+): string | null {
+  const resumable = ["approved", "executing", "failed"];
+  if (
+    now.resume
+      ? !resumable.includes(signed.status)
+      : signed.status !== "approved"
+  ) {
+    return `Report is ${signed.status}, not approved`;
+  }
+  if (!signed.approval) return "Report has no approval on record";
+  if (signed.report.monthId !== now.monthId) {
+    return `Report is for month ${signed.report.monthId}; month ${now.monthId} is being distributed`;
+  }
+  if (
+    !now.resume?.snapshotWritten &&
+    signed.report.snapshotDigest !== now.snapshotDigest
+  ) {
+    return "The distribution snapshot has moved since this report was drafted";
+  }
+  if (
+    !now.resume?.withdrawn &&
+    now.reserveBalanceWei < BigInt(signed.report.poolWei)
+  ) {
+    return "The reserve no longer covers this report's pool";
+  }
+  return null;
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export type ReportRedis = Pick<Redis, "get" | "set" | "rpush" | "lrange">;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getReport(
+  redis: Pick<Redis, "get">,
+  reportId: string,
+): Promise<SignedReport | null> {
+  return parseMaybeJson<SignedReport>(
+    await redis.get(REPORT_KEYS.report(reportId)),
+  );
+}
+
+export async function saveReport(
+  redis: Pick<Redis, "set">,
+  signed: SignedReport,
+): Promise<void> {
+  await redis.set(
+    REPORT_KEYS.report(signed.report.reportId),
+    JSON.stringify(signed),
+  );
+}
+
+/** Every report drafted for a month, oldest first. */
+export async function listMonthReports(
+  redis: Pick<Redis, "get" | "lrange">,
+  monthId: number,
+): Promise<SignedReport[]> {
+  const ids = await redis.lrange<string>(REPORT_KEYS.month(monthId), 0, -1);
+  const reports: SignedReport[] = [];
+  for (const id of ids) {
+    const report = await getReport(redis, String(id));
+    if (report) reports.push(report);
+  }
+  return reports;
+}
+
+/** What this month's report is diffed against: last month's executed report, else its latest. */
+export async function previousMonthReport(
+  redis: Pick<Redis, "get" | "lrange">,
+  monthId: number,
+): Promise<DistributionReport | null> {
+  const executedId = await redis.get<string>(REPORT_KEYS.executed(monthId - 1));
+  if (executedId)
+    return (await getReport(redis, String(executedId)))?.report ?? null;
+  const reports = await listMonthReports(redis, monthId - 1);
+  return reports.at(-1)?.report ?? null;
+}
+
+/** Persist a new draft and supersede any earlier draft for the month. */
+export async function storeDraft(
+  redis: ReportRedis,
+  signed: SignedReport,
+): Promise<void> {
+  for (const earlier of await listMonthReports(redis, signed.report.monthId)) {
+    if (earlier.status === "draft") {
+      earlier.status = "superseded";
+      await saveReport(redis, earlier);
+    }
+  }
+  await saveReport(redis, signed);
+  await redis.rpush(
+    REPORT_KEYS.month(signed.report.monthId),
+    signed.report.reportId,
+  );
+}
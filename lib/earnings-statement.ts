@@ -0,0 +1,841 @@
+import { formatEther, parseAbi, type Address, type PublicClient } from "viem";
+
+/**
+ * Monthly artist earnings statements.
+ *
+ * /api/artist-earnings shows running totals; an accountant wants one month, line by line,
+ * with a transaction hash next to every amount. A statement covers one artist and one
+ * MusicSubscription month — the contract's 30-day bucket, `floor(timestamp / 30 days)`, not
+ * a calendar month — and lists:
+ *
+ *   - plays per track, from PlayRecord (subscription) and RadioPlay (radio)
+ *   - the artist's pro-rata share of that month's artist pool
+ *   - license sales, at the artist's 90% of price (EmpowerToursNFTV3 keeps a 10% treasury fee)
+ *   - radio tips, which reach the artist whole
+ *   - TOURS rewards claimed for the month
+ *
+ * ## Reconciliation
+ *
+ * The indexer is the source of every line, so a statement also says whether the indexer
+ * agrees with the chain. The pool share is recomputed the way claimArtistPayout computes it
+ * and compared to the ArtistPayout entity; the MonthlyDistribution entity is compared to
+ * monthlyStats(); indexed plays are compared to artistMonthlyPlays; license lines are
+ * compared to the RoyaltyPaid transfers in the same transactions. A failed check does not
+ * stop the statement — it is printed on it, so nobody files numbers that do not add up.
+ */
+
+export const MONTH_SECONDS = 30 * 24 * 60 * 60;
+
+/** EmpowerToursNFTV3.treasuryFee is 10; the artist receives the rest of the price. */
+export const LICENSE_ARTIST_PERCENTAGE = 90n;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Raw rows for one artist and month. Times are unix seconds, amounts wei strings. */
+export interface StatementSources {
+  artist: string;
+  monthId: number;
+  plays: { masterTokenId: string; name: string | null; at: number }[];
+  radioPlays: { masterTokenId: string; name: string | null; at: number }[];
+  licenses: {
+    licenseId: string;
+    masterTokenId: string;
+    name: string | null;
+    buyer: string;
+    priceWei: string | null;
+    isCollector: boolean;
+    at: number;
+    txHash: string;
+  }[];
+  royalties: {
+    masterTokenId: string;
+    amountWei: string;
+    at: number;
+    txHash: string;
+  }[];
+  tips: {
+    masterTokenId: string;
+    name: string | null;
+    tipper: string;
+    amountWei: string;
+    at: number;
+    txHash: string;
+  }[];
+  /** MonthlyDistribution entity; null while the month is not finalized. */
+  distribution: {
+    totalRevenueWei: string;
+    totalPlays: string;
+    artistPoolWei: string;
+    at: number;
+    txHash: string;
+  } | null;
+  /** ArtistPayout entity; null until the artist claims. */
+  payout: {
+    amountWei: string;
+    playCount: string;
+    at: number;
+    txHash: string;
+  } | null;
+  toursRewards: { amountWei: string; at: number; txHash: string }[];
+  /** Contract reads; null when the RPC could not be reached. */
+  onChain: {
+    artistPlays: string;
+    claimed: boolean;
+    monthTotalPlays: string;
+    monthDistributedWei: string;
+    monthFinalized: boolean;
+  } | null;
+}
+
+export interface StatementTrack {
+  masterTokenId: string;
+  name: string;
+  subscriptionPlays: number;
+  radioPlays: number;
+  licensesSold: number;
+  licenseWei: string;
+  tipsWei: string;
+}
+
+export interface StatementLine {
+  kind: "artist-pool" | "license" | "tip" | "tours-reward";
+  at: number;
+  masterTokenId: string | null;
+  description: string;
+  /** WMON for everything but TOURS rewards. */
+  amountWei: string;
+  txHash: string | null;
+}
+
+export interface ReconciliationCheck {
+  name: string;
+  expected: string;
+  actual: string;
+  ok: boolean;
+}
+
+export type PoolStatus = "not-finalized" | "unclaimed" | "claimed";
+
+export interface EarningsStatement {
+  artist: string;
+  monthId: number;
+  period: { start: string; end: string };
+  generatedAt: string;
+  tracks: StatementTrack[];
+  artistPool: {
+    status: PoolStatus;
+    artistPlays: string;
+    totalPlays: string | null;
+    artistPoolWei: string | null;
+    shareWei: string;
+    finalizeTxHash: string | null;
+    claimTxHash: string | null;
+  };
+  lines: StatementLine[];
+  totals: {
+    artistPoolWei: string;
+    licenseWei: string;
+    tipsWei: string;
+    wmonWei: string;
+    toursWei: string;
+    subscriptionPlays: number;
+    radioPlays: number;
+  };
+  reconciliation: { ok: boolean; checks: ReconciliationCheck[] };
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/** [start, end) of a contract month, in unix seconds. */
+export function monthWindow(monthId: number): { start: number; end: number } {
+  return { start: monthId * MONTH_SECONDS, end: (monthId + 1) * MONTH_SECONDS };
+}
+
+export function monthIdAt(unixSeconds: number): number {
+  return Math.floor(unixSeconds / MONTH_SECONDS);
+}
+
+/** The artist's cut of a license price, as the NFT contract splits it. */
+export function licenseArtistWei(priceWei: bigint): bigint {
+  return priceWei - (priceWei * (100n - LICENSE_ARTIST_PERCENTAGE)) / 100n;
+}
+
+/** claimArtistPayout's formula: floor(artistPlays × distributed / totalPlays). */
+export function poolShareWei(
+  artistPlays: bigint,
+  distributedWei: bigint,
+  totalPlays: bigint,
+): bigint {
+  if (totalPlays <= 0n || artistPlays <= 0n) return 0n;
+  return (artistPlays * distributedWei) / totalPlays;
+}
+
+const iso = (unixSeconds: number) => new Date(unixSeconds * 1000).toISOString();
+
+export function buildStatement(
+  src: StatementSources,
+  now: number = Date.now(),
+): EarningsStatement {
+  const { start, end } = monthWindow(src.monthId);
+  const inMonth = (at: number) => at >= start && at < end;
+
+  const tracks = new Map<
+    string,
+    StatementTrack & { license: bigint; tips: bigint }
+  >();
+  const track = (masterTokenId: string, name: string | null) => {
+    let t = tracks.get(masterTokenId);
+    if (!t) {
+      t = {
+        masterTokenId,
+        name: name || `Song #${masterTokenId}`,
+        subscriptionPlays: 0,
+        radioPlays: 0,
+        licensesSold: 0,
+        licenseWei: "0",
+        tipsWei: "0",
+        license: 0n,
+        tips: 0n,
+      };
+      tracks.set(masterTokenId, t);
+    } else if (name && t.name.startsWith("Song #")) {
+      t.name = name;
+    }
+    return t;
+  };
+
+  const plays = src.plays.filter((p) => inMonth(p.at));
+  const radioPlays = src.radioPlays.filter((p) => inMonth(p.at));
+  for (const p of plays) track(p.masterTokenId, p.name).subscriptionPlays++;
+  for (const p of radioPlays) track(p.masterTokenId, p.name).radioPlays++;
+
+  const lines: StatementLine[] = [];
+  const checks: ReconciliationCheck[] = [];
+  const check = (name: string, expected: unknown, actual: unknown) =>
+    checks.push({
+      name,
+      expected: String(expected),
+      actual: String(actual),
+      ok: String(expected) === String(actual),
+    });
+
+  // --- Artist pool -------------------------------------------------------
+
+  const artistPlays = BigInt(
+    src.payout?.playCount ?? src.onChain?.artistPlays ?? plays.length,
+  );
+  const dist = src.distribution;
+  const shareWei = dist
+    ? poolShareWei(
+        artistPlays,
+        BigInt(dist.artistPoolWei),
+        BigInt(dist.totalPlays),
+      )
+    : 0n;
+  const status: PoolStatus = !dist
+    ? "not-finalized"
+    : src.payout
+      ? "claimed"
+      : "unclaimed";
+
+  if (dist && shareWei > 0n) {
+    lines.push({
+      kind: "artist-pool",
+      at: src.payout?.at ?? dist.at,
+      masterTokenId: null,
+      description:
+        status === "claimed"
+          ? `Artist pool share, ${artistPlays} of ${dist.totalPlays} plays (claimed)`
+          : `Artist pool share, ${artistPlays} of ${dist.totalPlays} plays (unclaimed)`,
+      amountWei: shareWei.toString(),
+      txHash: src.payout?.txHash ?? null,
+    });
+  }
+
+  if (src.onChain) {
+    check(
+      "Indexed subscription plays match artistMonthlyPlays",
+      src.onChain.artistPlays,
+      plays.length,
+    );
+    check(
+      "ArtistPayout indexed exactly when the month is claimed on-chain",
+      src.onChain.claimed,
+      !!src.payout,
+    );
+    if (dist) {
+      check(
+        "MonthlyDistribution.totalPlays matches monthlyStats",
+        src.onChain.monthTotalPlays,
+        dist.totalPlays,
+      );
+      check(
+        "MonthlyDistribution.artistPool matches monthlyStats.distributedAmount",
+        src.onChain.monthDistributedWei,
+        dist.artistPoolWei,
+      );
+    } else if (src.onChain.monthFinalized) {
+      check(
+        "MonthlyDistribution indexed for a finalized month",
+        "indexed",
+        "missing",
+      );
+    }
+  }
+  if (src.payout) {
+    if (src.onChain) {
+      check(
+        "ArtistPayout.playCount matches artistMonthlyPlays",
+        src.onChain.artistPlays,
+        src.payout.playCount,
+      );
+    }
+    if (dist) {
+      check(
+        "ArtistPayout.amount is the pro-rata share of the artist pool",
+        shareWei,
+        src.payout.amountWei,
+      );
+    } else {
+      check(
+        "MonthlyDistribution indexed for a claimed month",
+        "indexed",
+        "missing",
+      );
+    }
+  }
+
+  // --- Licenses ----------------------------------------------------------
+
+  const royaltiesByTx = new Map<string, bigint>();
+  for (const r of src.royalties) {
+    if (!inMonth(r.at)) continue;
+    const tx = r.txHash.toLowerCase();
+    royaltiesByTx.set(tx, (royaltiesByTx.get(tx) || 0n) + BigInt(r.amountWei));
+  }
+
+  let licenseTotal = 0n;
+  let licenseExpected = 0n;
+  let licensePaid = 0n;
+  const licenseTxs = new Set<string>();
+  for (const l of src.licenses.filter((x) => inMonth(x.at))) {
+    const tx = l.txHash.toLowerCase();
+    licenseTxs.add(tx);
+    const computed =
+      l.priceWei === null ? null : licenseArtistWei(BigInt(l.priceWei));
+    const paid = royaltiesByTx.get(tx);
+    // The royalty transfer is what the artist received; the price can have changed since.
+    const amount = paid ?? computed ?? 0n;
+    if (paid !== undefined && computed !== null) {
+      licenseExpected += computed;
+      licensePaid += paid;
+    }
+    licenseTotal += amount;
+
+    const t = track(l.masterTokenId, l.name);
+    t.licensesSold++;
+    t.license += amount;
+    lines.push({
+      kind: "license",
+      at: l.at,
+      masterTokenId: l.masterTokenId,
+      description: `${l.isCollector ? "Collector edition" : "License"} #${l.licenseId} to ${l.buyer}`,
+      amountWei: amount.toString(),
+      txHash: l.txHash,
+    });
+  }
+  // Renewals pay a royalty without minting a license.
+  for (const r of src.royalties) {
+    if (!inMonth(r.at) || licenseTxs.has(r.txHash.toLowerCase())) continue;
+    const amount = BigInt(r.amountWei);
+    licenseTotal += amount;
+    track(r.masterTokenId, null).license += amount;
+    lines.push({
+      kind: "license",
+      at: r.at,
+      masterTokenId: r.masterTokenId,
+      description: "License renewal royalty",
+      amountWei: amount.toString(),
+      txHash: r.txHash,
+    });
+  }
+  if (licenseExpected > 0n || licensePaid > 0n) {
+    check(
+      `License royalties are ${LICENSE_ARTIST_PERCENTAGE}% of price`,
+      licenseExpected,
+      licensePaid,
+    );
+  }
+
+  // --- Tips and TOURS ----------------------------------------------------
+
+  let tipsTotal = 0n;
+  for (const tip of src.tips.filter((x) => inMonth(x.at))) {
+    const amount = BigInt(tip.amountWei);
+    tipsTotal += amount;
+    track(tip.masterTokenId, tip.name).tips += amount;
+    lines.push({
+      kind: "tip",
+      at: tip.at,
+      masterTokenId: tip.masterTokenId,
+      description: `Radio tip from ${tip.tipper}`,
+      amountWei: amount.toString(),
+      txHash: tip.txHash,
+    });
+  }
+
+  // TOURS rewards are keyed by the month they were earned for, whenever claimed.
+  let toursTotal = 0n;
+  for (const reward of src.toursRewards) {
+    toursTotal += BigInt(reward.amountWei);
+    lines.push({
+      kind: "tours-reward",
+      at: reward.at,
+      masterTokenId: null,
+      description: "TOURS artist reward",
+      amountWei: reward.amountWei,
+      txHash: reward.txHash,
+    });
+  }
+
+  lines.sort((a, b) => a.at - b.at || a.kind.localeCompare(b.kind));
+
+  const trackList: StatementTrack[] = [...tracks.values()]
+    .map(({ license, tips, ...t }) => ({
+      ...t,
+      licenseWei: license.toString(),
+      tipsWei: tips.toString(),
+    }))
+    .sort(
+      (a, b) =>
+        b.subscriptionPlays +
+          b.radioPlays -
+          (a.subscriptionPlays + a.radioPlays) ||
+        Number(a.masterTokenId) - Number(b.masterTokenId),
+    );
+
+  return {
+    artist: src.artist.toLowerCase(),
+    monthId: src.monthId,
+    period: { start: iso(start), end: iso(end) },
+    generatedAt: new Date(now).toISOString(),
+    tracks: trackList,
+    artistPool: {
+      status,
+      artistPlays: artistPlays.toString(),
+      totalPlays: dist?.totalPlays ?? null,
+      artistPoolWei: dist?.artistPoolWei ?? null,
+      shareWei: shareWei.toString(),
+      finalizeTxHash: dist?.txHash ?? null,
+      claimTxHash: src.payout?.txHash ?? null,
+    },
+    lines,
+    totals: {
+      artistPoolWei: shareWei.toString(),
+      licenseWei: licenseTotal.toString(),
+      tipsWei: tipsTotal.toString(),
+      wmonWei: (shareWei + licenseTotal + tipsTotal).toString(),
+      toursWei: toursTotal.toString(),
+      subscriptionPlays: plays.length,
+      radioPlays: radioPlays.length,
+    },
+    reconciliation: { ok: checks.every((c) => c.ok), checks },
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  "section",
+  "date",
+  "master_token_id",
+  "track",
+  "description",
+  "subscription_plays",
+  "radio_plays",
+  "amount_wmon",
+  "amount_tours",
+  "tx_hash",
+];
+
+/**
+ * One flat ledger: a row per track, then a row per payment, then totals and the
+ * reconciliation checks. Amounts are decimal WMON/TOURS so a spreadsheet can sum them.
+ */
+export function statementToCsv(statement: EarningsStatement): string {
+  const rows: unknown[][] = [CSV_COLUMNS];
+  const names = new Map(statement.tracks.map((t) => [t.masterTokenId, t.name]));
+  const date = (at: number) => iso(at).slice(0, 10);
+
+  for (const t of statement.tracks) {
+    rows.push([
+      "track",
+      "",
+      t.masterTokenId,
+      t.name,
+      `${t.licensesSold} licenses, tips ${formatEther(BigInt(t.tipsWei))} WMON`,
+      t.subscriptionPlays,
+      t.radioPlays,
+      formatEther(BigInt(t.licenseWei) + BigInt(t.tipsWei)),
+      "",
+      "",
+    ]);
+  }
+  for (const line of statement.lines) {
+    const tours = line.kind === "tours-reward";
+    rows.push([
+      line.kind,
+      date(line.at),
+      line.masterTokenId ?? "",
+      line.masterTokenId ? (names.get(line.masterTokenId) ?? "") : "",
+      line.description,
+      "",
+      "",
+      tours ? "" : formatEther(BigInt(line.amountWei)),
+      tours ? formatEther(BigInt(line.amountWei)) : "",
+      line.txHash ?? "",
+    ]);
+  }
+
+  const t = statement.totals;
+  const total = (description: string, wei: string, tours = false) =>
+    rows.push([
+      "total",
+      "",
+      "",
+      "",
+      description,
+      "",
+      "",
+      tours ? "" : formatEther(BigInt(wei)),
+      tours ? formatEther(BigInt(wei)) : "",
+      "",
+    ]);
+  total("Artist pool share", t.artistPoolWei);
+  total("License sales (artist share)", t.licenseWei);
+  total("Radio tips", t.tipsWei);
+  total("Total WMON", t.wmonWei);
+  total("TOURS rewards", t.toursWei, true);
+  rows.push([
+    "total",
+    "",
+    "",
+    "",
+    "Plays",
+    t.subscriptionPlays,
+    t.radioPlays,
+    "",
+    "",
+    "",
+  ]);
+
+  for (const c of statement.reconciliation.checks) {
+    rows.push([
+      "reconciliation",
+      "",
+      "",
+      "",
+      `${c.ok ? "OK" : "MISMATCH"}: ${c.name} (expected ${c.expected}, indexed ${c.actual})`,
+      "",
+      "",
+      "",
+      "",
+      "",
+    ]);
+  }
+
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+const SUBSCRIPTION_ABI = parseAbi([
+  "function getArtistMonthlyStats(address artist, uint256 monthId) view returns (uint256 playCount, uint256 payout, bool claimed)",
+  "function monthlyStats(uint256 monthId) view returns (uint256 totalRevenue, uint256 totalPlays, uint256 distributedAmount, bool finalized)",
+]);
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+
+/** Envio Timestamp fields arrive as ISO strings, BigInt ones as numeric strings. */
+function toSeconds(value: unknown): number {
+  if (typeof value === "number") return value;
+  const text = String(value ?? "");
+  return /^\d+$/.test(text)
+    ? Number(text)
+    : Math.floor(Date.parse(text) / 1000);
+}
+
+async function envioQuery<T>(
+  endpoint: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T> {
+  const res = await fetch(endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    cache: "no-store",
+    body: JSON.stringify({ query, variables }),
+  });
+  if (!res.ok) throw new Error(`Envio query failed: ${res.status}`);
+  const json = await res.json();
+  if (json.errors?.length) throw new Error(`Envio: ${json.errors[0].message}`);
+  return json.data as T;
+}
+
+/** Every row of one entity, a page at a time. `query` takes $limit and $offset. */
+async function envioAll<T>(
+  endpoint: string,
+  entity: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await envioQuery<Record<string, T[]>>(endpoint, query, {
+      ...variables,
+      limit: PAGE_SIZE,
+      offset: page * PAGE_SIZE,
+    });
+    const batch = data[entity] || [];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/**
+ * Everything a statement needs, from Envio and the subscription contract. Indexer reads
+ * fail the load; the contract read is best-effort and its absence only drops the
+ * on-chain reconciliation checks.
+ */
+export async function loadStatementSources(
+  artist: string,
+  monthId: number,
+  opts: {
+    envioEndpoint: string;
+    client?: Pick<PublicClient, "readContract">;
+    subscription?: Address;
+  },
+): Promise<StatementSources> {
+  const a = artist.toLowerCase();
+  const { start, end } = monthWindow(monthId);
+  const from = iso(start);
+  const to = iso(end);
+  const ep = opts.envioEndpoint;
+
+  const [plays, radioPlays, licenses, royalties, tips, monthly] =
+    await Promise.all([
+      envioAll<any>(
+        ep,
+        "PlayRecord",
+        `query ($artist: String!, $from: numeric!, $to: numeric!, $limit: Int!, $offset: Int!) {
+          PlayRecord(
+            where: { masterToken: { artist: { _eq: $artist } }, timestamp: { _gte: $from, _lt: $to } }
+            order_by: { timestamp: asc }, limit: $limit, offset: $offset
+          ) { masterTokenId timestamp masterToken { name } }
+        }`,
+        { artist: a, from: String(start), to: String(end) },
+      ),
+      envioAll<any>(
+        ep,
+        "RadioPlay",
+        `query ($artist: String!, $from: timestamptz!, $to: timestamptz!, $limit: Int!, $offset: Int!) {
+          RadioPlay(
+            where: { artist: { _eq: $artist }, playedAt: { _gte: $from, _lt: $to } }
+            order_by: { playedAt: asc }, limit: $limit, offset: $offset
+          ) { masterTokenId playedAt masterToken { name } }
+        }`,
+        { artist: a, from, to },
+      ),
+      envioAll<any>(
+        ep,
+        "MusicLicense",
+        `query ($artist: String!, $from: timestamptz!, $to: timestamptz!, $limit: Int!, $offset: Int!) {
+          MusicLicense(
+            where: { masterToken: { artist: { _eq: $artist } }, purchasedAt: { _gte: $from, _lt: $to } }
+            order_by: { purchasedAt: asc }, limit: $limit, offset: $offset
+          ) { licenseId masterTokenId licensee isCollector purchasedAt txHash masterToken { name price } }
+        }`,
+        { artist: a, from, to },
+      ),
+      envioAll<any>(
+        ep,
+        "RoyaltyPayment",
+        `query ($artist: String!, $from: timestamptz!, $to: timestamptz!, $limit: Int!, $offset: Int!) {
+          RoyaltyPayment(
+            where: { artist: { _eq: $artist }, paidAt: { _gte: $from, _lt: $to } }
+            order_by: { paidAt: asc }, limit: $limit, offset: $offset
+          ) { masterTokenId amount paidAt txHash }
+        }`,
+        { artist: a, from, to },
+      ),
+      envioAll<any>(
+        ep,
+        "RadioTip",
+        `query ($artist: String!, $from: timestamptz!, $to: timestamptz!, $limit: Int!, $offset: Int!) {
+          RadioTip(
+            where: { artist: { _eq: $artist }, tippedAt: { _gte: $from, _lt: $to } }
+            order_by: { tippedAt: asc }, limit: $limit, offset: $offset
+          ) { masterTokenId tipper amount tippedAt txHash masterToken { name } }
+        }`,
+        { artist: a, from, to },
+      ),
+      envioQuery<any>(
+        ep,
+        `query ($artist: String!, $monthId: String!) {
+          MonthlyDistribution(where: { monthId: { _eq: $monthId } }, limit: 1) {
+            totalRevenue totalPlays artistPool finalizedAt txHash
+          }
+          ArtistPayout(where: { monthId: { _eq: $monthId }, artist: { _eq: $artist } }, limit: 1) {
+            amount playCount paidAt txHash
+          }
+          ArtistToursReward(where: { monthId: { _eq: $monthId }, artist: { _eq: $artist } }) {
+            amount claimedAt txHash
+          }
+        }`,
+        { artist: a, monthId: String(monthId) },
+      ),
+    ]);
+
+  let onChain: StatementSources["onChain"] = null;
+  if (opts.client && opts.subscription) {
+    try {
+      const [artistStats, month] = await Promise.all([
+        opts.client.readContract({
+          address: opts.subscription,
+          abi: SUBSCRIPTION_ABI,
+          functionName: "getArtistMonthlyStats",
+          args: [a as Address, BigInt(monthId)],
+        }),
+        opts.client.readContract({
+          address: opts.subscription,
+          abi: SUBSCRIPTION_ABI,
+          functionName: "monthlyStats",
+          args: [BigInt(monthId)],
+        }),
+      ]);
+      onChain = {
+        artistPlays: artistStats[0].toString(),
+        claimed: artistStats[2],
+        monthTotalPlays: month[1].toString(),
+        monthDistributedWei: month[2].toString(),
+        monthFinalized: month[3],
+      };
+    } catch (err) {
+      console.warn(
+        "[EarningsStatement] Contract read failed:",
+        (err as Error).message?.slice(0, 80),
+      );
+    }
+  }
+
+  const dist = monthly?.MonthlyDistribution?.[0];
+  const payout = monthly?.ArtistPayout?.[0];
+
+  return {
+    artist: a,
+    monthId,
+    plays: plays.map((p) => ({
+      masterTokenId: String(p.masterTokenId),
+      name: p.masterToken?.name ?? null,
+      at: toSeconds(p.timestamp),
+    })),
+    radioPlays: radioPlays.map((p) => ({
+      masterTokenId: String(p.masterTokenId),
+      name: p.masterToken?.name ?? null,
+      at: toSeconds(p.playedAt),
+    })),
+    licenses: licenses.map((l) => ({
+      licenseId: String(l.licenseId),
+      masterTokenId: String(l.masterTokenId),
+      name: l.masterToken?.name ?? null,
+      buyer: String(l.licensee).toLowerCase(),
+      priceWei:
+        l.masterToken?.price != null ? String(l.masterToken.price) : null,
+      isCollector: !!l.isCollector,
+      at: toSeconds(l.purchasedAt),
+      txHash: String(l.txHash),
+    })),
+    royalties: royalties.map((r) => ({
+      masterTokenId: String(r.masterTokenId),
+      amountWei: String(r.amount),
+      at: toSeconds(r.paidAt),
+      txHash: String(r.txHash),
+    })),
+    tips: tips.map((t) => ({
+      masterTokenId: String(t.masterTokenId),
+      name: t.masterToken?.name ?? null,
+      tipper: String(t.tipper).toLowerCase(),
+      amountWei: String(t.amount),
+      at: toSeconds(t.tippedAt),
+      txHash: String(t.txHash),
+    })),
+    distribution: dist
+      ? {
+          totalRevenueWei: String(dist.totalRevenue),
+          totalPlays: String(dist.totalPlays),
+          artistPoolWei: String(dist.artistPool),
+          at: toSeconds(dist.finalizedAt),
+          txHash: String(dist.txHash),
+        }
+      : null,
+    payout: payout
+      ? {
+          amountWei: String(payout.amount),
+          playCount: String(payout.playCount),
+          at: toSeconds(payout.paidAt),
+          txHash: String(payout.txHash),
+        }
+      : null,
+    toursRewards: (monthly?.ArtistToursReward || []).map((r: any) => ({
+      amountWei: String(r.amount),
+      at: toSeconds(r.claimedAt),
+      txHash: String(r.txHash),
+    })),
+    onChain,
+  };
+}
+
+/**
+ * Subscription plays per master for a handful of masters in one month — the numerator of each
+ * master's slice of the artist's pool share, without loading a whole statement.
+ */
+export async function loadTrackPlays(
+  tokenIds: string[],
+  monthId: number,
+  envioEndpoint: string,
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  if (tokenIds.length === 0) return counts;
+  const { start, end } = monthWindow(monthId);
+  const rows = await envioAll<{ masterTokenId: string }>(
+    envioEndpoint,
+    "PlayRecord",
+    `query ($ids: [String!]!, $from: numeric!, $to: numeric!, $limit: Int!, $offset: Int!) {
+      PlayRecord(
+        where: { masterTokenId: { _in: $ids }, timestamp: { _gte: $from, _lt: $to } }
+        order_by: { timestamp: asc }, limit: $limit, offset: $offset
+      ) { masterTokenId }
+    }`,
+    { ids: tokenIds, from: String(start), to: String(end) },
+  );
+  for (const r of rows) {
+    const id = String(r.masterTokenId);
+    counts[id] = (counts[id] || 0) + 1;
+  }
+  return counts;
+}
@@ -0,0 +1,560 @@
+import { formatEther, keccak256, parseEther, stringToBytes } from 'viem';
+import type { Redis } from '@upstash/redis';
+import type {
+  BookingAgreement,
+  BookingCancellation,
+  BookingConfig,
+  BookingInquiry,
+  BookingMilestone,
+  BookingQuote,
+  BookingSignature,
+  BookingStatus,
+  HospitalityRider,
+  MilestoneKind,
+  RefundTier,
+  RiderSection,
+  TechnicalRider,
+} from './types';
+
+/**
+ * EPK bookings: from inquiry to paid show.
+ *
+ * An organizer's inquiry is only a request. The artist answers it with a quote — the fee
+ * (read from `BookingConfig.pricing` unless they name one), split into a deposit and a
+ * balance, with the refund policy that will govern a cancellation. Quoting draws up the
+ * agreement text, which carries the technical and hospitality riders as they stand that day,
+ * and the artist signs its hash. The organizer countersigns with the wallet that sent the
+ * inquiry — it is bound then, so knowing a booking's id is not enough to sign for it — and from
+ * then on the booking is agreed and its date is taken.
+ *
+ * ## Milestones
+ *
+ * Each milestone is its own EPKRegistry escrow, created from the organizer's Safe: the deposit
+ * once the agreement is signed, the balance before `balanceDueDays` ahead of the show. After
+ * the show the artist releases both. Re-quoting before the organizer signs replaces the quote
+ * and the agreement with a new version; after that the terms are fixed.
+ *
+ * A deposit still unpaid after its due date cannot be paid any more: the deposit keeper
+ * (/api/cron/epk-deposits) cancels the booking and gives the date back to the artist.
+ *
+ * ## Cancellation
+ *
+ * Whatever is in escrow is settled by the policy in the agreement, not by whoever asks first.
+ * An organizer cancelling keeps nothing, the deposit or everything for the artist depending on
+ * how close the show is. An artist cancelling refunds everything — unless the organizer has let
+ * a milestone go unpaid past its due date, which counts as the organizer walking away.
+ *
+ * ## Calendar
+ *
+ * Every artist has one calendar hash: date → the booking holding it, or `blocked` for days the
+ * artist marked unavailable. A date is taken with HSETNX when the agreement is signed, so two
+ * inquiries for the same night cannot both become bookings; new inquiries and quotes for a taken
+ * date are turned away up front.
+ */
+
+export const DEFAULT_DEPOSIT_PERCENT = 30;
+export const DEFAULT_BALANCE_DUE_DAYS = 14;
+/** The deposit is due this many days after the agreement, or the day before the show. */
+export const DEPOSIT_DUE_DAYS = 7;
+export const QUOTE_VALID_DAYS = 14;
+const MAX_NOTE_LENGTH = 500;
+const MAX_REFUND_TIERS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const REFUND_POLICY_PRESETS: Record<'flexible' | 'standard' | 'strict', RefundTier[]> = {
+  flexible: [
+    { daysBefore: 14, artistKeeps: 'nothing' },
+    { daysBefore: 3, artistKeeps: 'deposit' },
+    { daysBefore: 0, artistKeeps: 'everything' },
+  ],
+  standard: [
+    { daysBefore: 30, artistKeeps: 'nothing' },
+    { daysBefore: 7, artistKeeps: 'deposit' },
+    { daysBefore: 0, artistKeeps: 'everything' },
+  ],
+  strict: [
+    { daysBefore: 60, artistKeeps: 'nothing' },
+    { daysBefore: 30, artistKeeps: 'deposit' },
+    { daysBefore: 0, artistKeeps: 'everything' },
+  ],
+};
+export const DEFAULT_REFUND_POLICY = REFUND_POLICY_PRESETS.standard;
+
+const ARTIST_KEEPS = ['nothing', 'deposit', 'everything'] as const;
+
+// Same value as EPK_INQUIRY_PREFIX in ./constants, repeated so this module has no
+// project imports at runtime and the verify script can load it directly.
+const INQUIRY_PREFIX = 'epk:inquiry:';
+const INQUIRY_TTL_SECONDS = 60 * 60 * 24 * 90;
+const ACTION_LOCK_SECONDS = 120;
+
+export const BOOKING_KEYS = {
+  inquiry: (artist: string, id: string) => `${INQUIRY_PREFIX}${artist.toLowerCase()}:${id}`,
+  /** Hash: YYYY-MM-DD → inquiry id holding the date, or CALENDAR_BLOCKED. */
+  calendar: (artist: string) => `epk:calendar:${artist.toLowerCase()}`,
+  /** One escrow or settlement transaction per booking at a time. */
+  lock: (id: string) => `epk:booking:lock:${id}`,
+  /** Sorted set of agreed bookings (`artist:id`) scored by when their unpaid deposit lapses. */
+  awaitingDeposit: 'epk:booking:awaiting-deposit',
+};
+
+export const CALENDAR_BLOCKED = 'blocked';
+
+export class BookingError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = 'BookingError';
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// DATES
+// ============================================================================
+
+export function isBookingDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+function dayNumber(date: string): number {
+  return Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+}
+
+function dateFromDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Whole days from today (UTC) to `date`; 0 on the day itself, negative once it has passed. */
+export function daysUntil(date: string, now: number): number {
+  return dayNumber(date) - Math.floor(now / DAY_MS);
+}
+
+// ============================================================================
+// QUOTES
+// ============================================================================
+
+/**
+ * The fee stated in free-text pricing ("1,500 WMON per set" → "1500"), or null when it names
+ * no amount ("Contact for rates").
+ */
+export function parsePricing(pricing: string): string | null {
+  const match = pricing.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  if (!match || Number(match[0]) <= 0) return null;
+  return match[0];
+}
+
+function toWei(amount: string, field: string): bigint {
+  try {
+    return parseEther(amount.trim());
+  } catch {
+    throw new BookingError(`${field} must be a WMON amount`, 400);
+  }
+}
+
+/** Validate a refund policy, strictest-last. Days closer than every tier keep everything. */
+export function parseRefundPolicy(raw: unknown): RefundTier[] {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_REFUND_TIERS) {
+    throw new BookingError(`A refund policy needs 1 to ${MAX_REFUND_TIERS} tiers`, 400);
+  }
+  const tiers = raw.map((tier: any) => {
+    const daysBefore = Number(tier?.daysBefore);
+    if (!Number.isInteger(daysBefore) || daysBefore < 0 || daysBefore > 365) {
+      throw new BookingError('Refund tiers need a daysBefore between 0 and 365', 400);
+    }
+    if (!ARTIST_KEEPS.includes(tier?.artistKeeps)) {
+      throw new BookingError(`artistKeeps must be one of: ${ARTIST_KEEPS.join(', ')}`, 400);
+    }
+    return { daysBefore, artistKeeps: tier.artistKeeps as RefundTier['artistKeeps'] };
+  });
+  tiers.sort((a, b) => b.daysBefore - a.daysBefore);
+  if (new Set(tiers.map(t => t.daysBefore)).size !== tiers.length) {
+    throw new BookingError('Two refund tiers start on the same day', 400);
+  }
+  return tiers;
+}
+
+/** What the artist keeps when the organizer cancels `daysBefore` days ahead of the show. */
+export function artistKeepsFor(policy: RefundTier[], daysBefore: number): RefundTier['artistKeeps'] {
+  if (daysBefore < 0) return 'everything';
+  const tier = [...policy].sort((a, b) => b.daysBefore - a.daysBefore).find(t => daysBefore >= t.daysBefore);
+  return tier ? tier.artistKeeps : 'everything';
+}
+
+export interface QuoteOptions {
+  /** Overrides the amount read from pricing. */
+  fee?: string;
+  refundPolicy?: RefundTier[];
+  note?: string;
+  version: number;
+  now: number;
+}
+
+/**
+ * Price a booking: the fee, a deposit of `depositPercent` of it (never below the EPK's minimum
+ * deposit, never above the fee) and the balance, each with its due date.
+ */
+export function buildQuote(config: BookingConfig, eventDate: string, options: QuoteOptions): BookingQuote {
+  const { now } = options;
+  if (!isBookingDate(eventDate)) throw new BookingError('The inquiry has no valid event date', 400);
+  const daysLeft = daysUntil(eventDate, now);
+  if (daysLeft < 1) throw new BookingError('Too late to quote for this date', 400);
+
+  const fee = options.fee?.trim() || parsePricing(config.pricing || '');
+  if (!fee) throw new BookingError('Pricing does not state a fee; quote one', 400);
+  const feeWei = toWei(fee, 'Fee');
+  if (feeWei <= 0n) throw new BookingError('Fee must be more than zero', 400);
+
+  const percent = Math.min(100, Math.max(0, Math.round(config.depositPercent ?? DEFAULT_DEPOSIT_PERCENT)));
+  const minimumWei = config.minimumDeposit ? toWei(config.minimumDeposit, 'Minimum deposit') : 0n;
+  let depositWei = (feeWei * BigInt(percent)) / 100n;
+  if (depositWei < minimumWei) depositWei = minimumWei;
+  if (depositWei > feeWei || depositWei === 0n) depositWei = feeWei;
+  const balanceWei = feeWei - depositWei;
+
+  const today = Math.floor(now / DAY_MS);
+  const eventDay = dayNumber(eventDate);
+  const depositDay = Math.min(today + DEPOSIT_DUE_DAYS, eventDay - 1);
+  const balanceDueDays = Math.max(0, Math.round(config.balanceDueDays ?? DEFAULT_BALANCE_DUE_DAYS));
+  const balanceDay = Math.max(eventDay - balanceDueDays, depositDay);
+
+  const milestones: BookingMilestone[] = [
+    { kind: 'deposit', amount: formatEther(depositWei), dueDate: dateFromDay(depositDay), status: 'due' },
+  ];
+  if (balanceWei > 0n) {
+    milestones.push({ kind: 'balance', amount: formatEther(balanceWei), dueDate: dateFromDay(balanceDay), status: 'due' });
+  }
+
+  const note = options.note?.trim().slice(0, MAX_NOTE_LENGTH);
+  return {
+    version: options.version,
+    fee: formatEther(feeWei),
+    milestones,
+    refundPolicy: options.refundPolicy ?? config.refundPolicy ?? DEFAULT_REFUND_POLICY,
+    ...(note ? { note } : {}),
+    quotedAt: now,
+    expiresAt: Math.min(now + QUOTE_VALID_DAYS * DAY_MS, eventDay * DAY_MS),
+  };
+}
+
+// ============================================================================
+// AGREEMENT
+// ============================================================================
+
+export interface AgreementRiders {
+  artistName: string;
+  technicalRider?: TechnicalRider;
+  hospitalityRider?: HospitalityRider;
+}
+
+const KEEPS_TEXT: Record<RefundTier['artistKeeps'], string> = {
+  nothing: 'full refund',
+  deposit: 'the artist keeps the deposit',
+  everything: 'the artist keeps everything paid',
+};
+
+function riderLines(heading: string, rider: TechnicalRider | HospitalityRider | undefined): string[] {
+  const sections = rider ? (Object.values(rider) as RiderSection[]).filter(s => s?.items?.length) : [];
+  if (sections.length === 0) return [`${heading}: none`];
+  return [
+    `${heading}:`,
+    ...sections.flatMap(section => [`[${section.title}]`, ...section.items.map(item => `- ${item}`)]),
+  ];
+}
+
+/**
+ * The text both parties sign. Everything the booking is held to is in here, the riders
+ * included, so a later EPK edit cannot change what was agreed.
+ */
+export function agreementText(inquiry: BookingInquiry, quote: BookingQuote, riders: AgreementRiders): string {
+  const organizer = [inquiry.name, inquiry.company, inquiry.email].filter(Boolean).join(', ');
+  const tiers = [...quote.refundPolicy].sort((a, b) => b.daysBefore - a.daysBefore);
+  return [
+    'EmpowerTours booking agreement',
+    `Booking: ${inquiry.id} (version ${quote.version})`,
+    `Artist: ${riders.artistName} (${inquiry.artistAddress.toLowerCase()})`,
+    `Organizer: ${organizer}`,
+    `Event: ${inquiry.eventName} (${inquiry.eventType})`,
+    `Date: ${inquiry.eventDate}`,
+    `Location: ${inquiry.location}`,
+    `Expected attendance: ${inquiry.expectedAttendance || 'not stated'}`,
+    '',
+    `Fee: ${quote.fee} WMON, paid into escrow and released to the artist after the show`,
+    ...quote.milestones.map(m => `- ${m.kind}: ${m.amount} WMON, due ${m.dueDate}`),
+    '',
+    'If the organizer cancels:',
+    ...tiers.map(t => `- ${t.daysBefore}+ days before the show: ${KEEPS_TEXT[t.artistKeeps]}`),
+    ...(tiers.length && tiers[tiers.length - 1].daysBefore > 0 ? ['- any later: the artist keeps everything paid'] : []),
+    'If the artist cancels: full refund, unless a milestone is unpaid past its due date,',
+    'in which case the organizer is treated as having cancelled.',
+    '',
+    ...riderLines('Technical rider', riders.technicalRider),
+    '',
+    ...riderLines('Hospitality rider', riders.hospitalityRider),
+    ...(quote.note ? ['', `Notes: ${quote.note}`] : []),
+  ].join('\n');
+}
+
+export function agreementHash(text: string): string {
+  return keccak256(stringToBytes(text));
+}
+
+export function draftAgreement(text: string, version: number): BookingAgreement {
+  return { version, text, hash: agreementHash(text), signatures: [] };
+}
+
+/** What each party signs with their wallet. */
+export function agreementSignatureMessage(hash: string, role: BookingSignature['role'], address: string): string {
+  return [
+    'EmpowerTours booking agreement',
+    `I sign as the ${role}.`,
+    `Address: ${address.toLowerCase()}`,
+    `Agreement: ${hash}`,
+  ].join('\n');
+}
+
+export function isAgreed(agreement: BookingAgreement | undefined): boolean {
+  return !!agreement && (['artist', 'organizer'] as const).every(role => agreement.signatures.some(s => s.role === role));
+}
+
+/** Add a verified signature. The artist signs first, when quoting. */
+export function addAgreementSignature(agreement: BookingAgreement, signature: BookingSignature): BookingAgreement {
+  if (agreement.signatures.some(s => s.role === signature.role)) {
+    throw new BookingError(`The ${signature.role} has already signed this agreement`);
+  }
+  if (signature.role === 'organizer' && !agreement.signatures.some(s => s.role === 'artist')) {
+    throw new BookingError('The artist has not signed this agreement yet');
+  }
+  const signed = { ...agreement, signatures: [...agreement.signatures, signature] };
+  return isAgreed(signed) ? { ...signed, agreedAt: signature.signedAt } : signed;
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+const FUNDED = new Set<BookingMilestone['status']>(['escrowed', 'released']);
+
+/** Status as it follows from the agreement and the milestones. */
+export function bookingStatus(inquiry: BookingInquiry): BookingStatus {
+  if (inquiry.cancellation) return 'cancelled';
+  if (inquiry.completedAt) return 'completed';
+  if (!isAgreed(inquiry.agreement)) return inquiry.quote ? 'quoted' : 'inquiry';
+  const milestones = inquiry.milestones ?? [];
+  if (milestones.length > 0 && milestones.every(m => FUNDED.has(m.status))) return 'confirmed';
+  if (milestones.some(m => FUNDED.has(m.status))) return 'deposited';
+  return 'agreed';
+}
+
+/** Why the organizer cannot pay `kind` into escrow now, or null. */
+export function fundingBlocker(inquiry: BookingInquiry, kind: MilestoneKind, now: number): string | null {
+  if (inquiry.cancellation) return 'This booking was cancelled';
+  if (!isAgreed(inquiry.agreement)) return 'Both parties must sign the agreement first';
+  const milestone = inquiry.milestones?.find(m => m.kind === kind);
+  if (!milestone) return `This booking has no ${kind}`;
+  if (milestone.status !== 'due') return `The ${kind} is already paid`;
+  if (kind === 'deposit' && daysUntil(milestone.dueDate, now) < 0) return `The deposit was due by ${milestone.dueDate}`;
+  if (kind === 'balance' && inquiry.milestones?.find(m => m.kind === 'deposit')?.status !== 'escrowed') {
+    return 'Pay the deposit first';
+  }
+  if (daysUntil(inquiry.eventDate, now) < 0) return 'The show date has passed';
+  return null;
+}
+
+/** True once an agreed booking's deposit is past its due date and still unpaid. */
+export function depositLapsed(inquiry: BookingInquiry, now: number): boolean {
+  if (inquiry.cancellation || !isAgreed(inquiry.agreement)) return false;
+  const deposit = inquiry.milestones?.find(m => m.kind === 'deposit');
+  return deposit?.status === 'due' && daysUntil(deposit.dueDate, now) < 0;
+}
+
+/** When {@link depositLapsed} turns true: the end of the deposit's due date, in ms. */
+export function depositDeadline(inquiry: BookingInquiry): number | null {
+  const deposit = inquiry.milestones?.find(m => m.kind === 'deposit');
+  return deposit ? (dayNumber(deposit.dueDate) + 1) * DAY_MS : null;
+}
+
+/**
+ * Cancel a booking whose deposit lapsed. Mutates `inquiry`. Nothing is in escrow yet — the balance
+ * waits for the deposit — so there is nothing to settle; the caller frees the date.
+ */
+export function lapseBooking(inquiry: BookingInquiry, now: number): void {
+  if (!depositLapsed(inquiry, now)) throw new BookingError('The deposit is not overdue');
+  for (const m of inquiry.milestones!) if (m.status === 'due') m.status = 'waived';
+  inquiry.cancellation = {
+    by: 'organizer',
+    at: now,
+    reason: 'The deposit was not paid by its due date',
+    artistKeeps: 'nothing',
+    organizerDefaulted: true,
+    lapsed: true,
+  };
+}
+
+/** Why the artist cannot release the escrow now, or null. Release opens the day after the show. */
+export function releaseBlocker(inquiry: BookingInquiry, now: number): string | null {
+  const status = bookingStatus(inquiry);
+  if (status !== 'confirmed') {
+    return status === 'completed' ? 'Already released' : 'Every milestone must be in escrow before release';
+  }
+  if (daysUntil(inquiry.eventDate, now) >= 0) return 'Funds release the day after the show';
+  return null;
+}
+
+export type EscrowCall = {
+  party: 'artist' | 'organizer';
+  functionName: 'confirmBooking' | 'completeBooking' | 'requestRefund';
+};
+
+/**
+ * EPKRegistry calls that settle one escrowed milestone. Escrows stay PENDING until settled, so
+ * a release is confirm-then-complete by the artist and a refund is the organizer's
+ * requestRefund.
+ */
+export function settlementCalls(milestone: BookingMilestone, outcome: 'release' | 'refund'): EscrowCall[] {
+  if (milestone.status !== 'escrowed') return [];
+  return outcome === 'release'
+    ? [{ party: 'artist', functionName: 'confirmBooking' }, { party: 'artist', functionName: 'completeBooking' }]
+    : [{ party: 'organizer', functionName: 'requestRefund' }];
+}
+
+export interface CancellationTerms {
+  cancellation: BookingCancellation;
+  /** What happens to each milestone; unpaid ones are waived. */
+  outcomes: Array<{ kind: MilestoneKind; outcome: 'release' | 'refund' | 'waive' }>;
+}
+
+/** Apply the agreement's refund policy to a cancellation by `by` at `now`. */
+export function cancellationTerms(
+  inquiry: BookingInquiry,
+  by: BookingCancellation['by'],
+  now: number,
+  reason?: string
+): CancellationTerms {
+  const status = bookingStatus(inquiry);
+  if (status === 'cancelled' || status === 'completed') throw new BookingError(`This booking is already ${status}`);
+
+  const milestones = inquiry.milestones ?? [];
+  const today = Math.floor(now / DAY_MS);
+  const organizerDefaulted = by === 'artist' && milestones.some(m => m.status === 'due' && dayNumber(m.dueDate) < today);
+  const policy = inquiry.quote?.refundPolicy ?? DEFAULT_REFUND_POLICY;
+  const artistKeeps =
+    by === 'organizer' || organizerDefaulted ? artistKeepsFor(policy, daysUntil(inquiry.eventDate, now)) : 'nothing';
+
+  const outcomes = milestones.map(m => ({
+    kind: m.kind,
+    outcome:
+      m.status !== 'escrowed'
+        ? ('waive' as const)
+        : artistKeeps === 'everything' || (artistKeeps === 'deposit' && m.kind === 'deposit')
+          ? ('release' as const)
+          : ('refund' as const),
+  }));
+
+  const trimmed = reason?.trim().slice(0, MAX_NOTE_LENGTH);
+  return {
+    cancellation: { by, at: now, ...(trimmed ? { reason: trimmed } : {}), artistKeeps, organizerDefaulted },
+    outcomes,
+  };
+}
+
+// ============================================================================
+// CALENDAR
+// ============================================================================
+
+export interface CalendarEntry {
+  date: string;
+  kind: 'booked' | 'blocked';
+  inquiryId?: string;
+}
+
+/** Calendar entries from `fromDate` on, in date order. */
+export function calendarEntries(raw: Record<string, unknown> | null, fromDate?: string): CalendarEntry[] {
+  return Object.entries(raw ?? {})
+    .filter(([date]) => isBookingDate(date) && (!fromDate || date >= fromDate))
+    .map(([date, holder]) =>
+      String(holder) === CALENDAR_BLOCKED
+        ? { date, kind: 'blocked' as const }
+        : { date, kind: 'booked' as const, inquiryId: String(holder) }
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export async function getCalendar(redis: Redis, artist: string): Promise<Record<string, unknown>> {
+  return (await redis.hgetall<Record<string, unknown>>(BOOKING_KEYS.calendar(artist))) ?? {};
+}
+
+/** Who holds `date` — `holder` if it was free and is now taken, otherwise the existing holder. */
+export async function holdDate(redis: Redis, artist: string, date: string, holder: string): Promise<string> {
+  const key = BOOKING_KEYS.calendar(artist);
+  if (await redis.hsetnx(key, date, holder)) return holder;
+  return String((await redis.hget(key, date)) ?? holder);
+}
+
+/** Free `date` if `holder` still holds it. */
+export async function releaseDate(redis: Redis, artist: string, date: string, holder: string): Promise<void> {
+  const key = BOOKING_KEYS.calendar(artist);
+  if (String(await redis.hget(key, date)) === holder) await redis.hdel(key, date);
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value == null) return null;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getInquiry(redis: Redis, artist: string, id: string): Promise<BookingInquiry | null> {
+  return parseMaybeJson<BookingInquiry>(await redis.get(BOOKING_KEYS.inquiry(artist, id)));
+}
+
+/** Open inquiries expire after 90 days; once quoted a booking is kept. */
+export async function saveInquiry(redis: Redis, inquiry: BookingInquiry): Promise<void> {
+  const key = BOOKING_KEYS.inquiry(inquiry.artistAddress, inquiry.id);
+  if (inquiry.status === 'inquiry') {
+    await redis.set(key, JSON.stringify(inquiry), { ex: INQUIRY_TTL_SECONDS });
+  } else {
+    await redis.set(key, JSON.stringify(inquiry));
+  }
+}
+
+function depositMember(inquiry: BookingInquiry): string {
+  return `${inquiry.artistAddress.toLowerCase()}:${inquiry.id}`;
+}
+
+/** The artist and inquiry id behind an `awaitingDeposit` member. */
+export function parseDepositMember(member: string): { artist: string; id: string } {
+  const split = member.indexOf(':');
+  return { artist: member.slice(0, split), id: member.slice(split + 1) };
+}
+
+/** Hand an agreed booking to the deposit keeper, due when its deposit lapses. */
+export async function awaitDeposit(redis: Redis, inquiry: BookingInquiry): Promise<void> {
+  const at = depositDeadline(inquiry);
+  if (at !== null) await redis.zadd(BOOKING_KEYS.awaitingDeposit, { score: at, member: depositMember(inquiry) });
+}
+
+/** The deposit was paid or the booking ended; the keeper has nothing to do for it. */
+export async function stopAwaitingDeposit(redis: Redis, inquiry: BookingInquiry): Promise<void> {
+  await redis.zrem(BOOKING_KEYS.awaitingDeposit, depositMember(inquiry));
+}
+
+/** Serialise escrow transactions per booking; false if one is already running. */
+export async function claimBookingAction(redis: Redis, id: string): Promise<boolean> {
+  return (await redis.set(BOOKING_KEYS.lock(id), '1', { nx: true, ex: ACTION_LOCK_SECONDS })) === 'OK';
+}
+
+export async function releaseBookingAction(redis: Redis, id: string): Promise<void> {
+  await redis.del(BOOKING_KEYS.lock(id));
+}
@@ -124,3 +124,276 @@ export const DEFAULT_HOSPITALITY_RIDER: HospitalityRider = {
     ],
   },
 };
+
+export type RiderTemplateId = 'solo-dj' | 'full-band' | 'acoustic';
+
+export interface RiderTemplate {
+  id: RiderTemplateId;
+  label: string;
+  description: string;
+  technicalRider: TechnicalRider;
+  hospitalityRider: HospitalityRider;
+}
+
+/**
+ * Starting points for the rider step; the artist edits from there.
+ * Solo DJ is the same rider the generator falls back to.
+ */
+export const RIDER_TEMPLATES: RiderTemplate[] = [
+  {
+    id: 'solo-dj',
+    label: 'Solo DJ',
+    description: 'One performer, decks or a controller, booth monitors',
+    technicalRider: DEFAULT_TECHNICAL_RIDER,
+    hospitalityRider: DEFAULT_HOSPITALITY_RIDER,
+  },
+  {
+    id: 'full-band',
+    label: 'Full Band',
+    description: 'Five-piece with drums, bass, guitar, keys and lead vocals',
+    technicalRider: {
+      stage: {
+        title: 'Stage Requirements',
+        items: [
+          '32ft x 24ft minimum stage area',
+          '8ft x 8ft drum riser, 2ft high, carpeted',
+          'Stage plot and input list sent on confirmation',
+          'Covered stage for outdoor shows',
+        ],
+      },
+      sound: {
+        title: 'Sound System',
+        items: [
+          'Full-range PA with subs, rated for the room at 105 dB at FOH',
+          'FOH console with 32+ inputs (Yamaha CL, DiGiCo SD or Avid S6L)',
+          '6 monitor mixes: 5 wedges plus 1 drum fill',
+          '4 channels of wireless IEM (Shure PSM1000 or equivalent)',
+          'Full drum mic kit and 8 DI boxes',
+        ],
+      },
+      lighting: {
+        title: 'Lighting',
+        items: [
+          'Front wash and back light for all five positions',
+          '8+ moving heads',
+          'Haze machine',
+          'Lighting operator provided by venue; cue notes sent in advance',
+        ],
+      },
+      video: {
+        title: 'Video / LED',
+        items: [
+          'Upstage LED wall or projection screen (optional)',
+          'HDMI input at FOH for band visuals',
+        ],
+      },
+      backline: {
+        title: 'Backline',
+        items: [
+          'Drum kit: 22" kick, 12"/16" toms, snare stand, 4 cymbal stands, throne',
+          'Bass amp: Ampeg SVT with 8x10 cabinet',
+          'Guitar amp: Fender Twin Reverb or Vox AC30',
+          'Keyboard stand (2-tier) and sustain pedal',
+          '5 straight mic stands, 4 boom stands',
+        ],
+      },
+      soundcheck: {
+        title: 'Soundcheck',
+        items: [
+          '90-minute soundcheck required',
+          'Line check with stage crew 30 minutes before doors',
+        ],
+      },
+      crew: {
+        title: 'Crew Requirements',
+        items: [
+          '1x FOH engineer and 1x monitor engineer',
+          '1x lighting operator',
+          '2x stage hands for load-in and changeover',
+        ],
+      },
+    },
+    hospitalityRider: {
+      dressingRoom: {
+        title: 'Dressing Room',
+        items: [
+          'Lockable room for 8 people',
+          'Mirror, clothing rack and 8 clean towels',
+          'Private restroom',
+          'WiFi access',
+        ],
+      },
+      catering: {
+        title: 'Catering',
+        items: [
+          'Hot meal for 8 people (band and crew)',
+          '2 vegetarian and 1 vegan option',
+          'Fresh fruit, bread and snacks on arrival',
+        ],
+      },
+      beverages: {
+        title: 'Beverages',
+        items: [
+          '24 bottles of still water, 12 on stage',
+          'Assorted soft drinks and juice',
+          'Coffee and tea',
+          '1 case of local beer',
+        ],
+      },
+      transport: {
+        title: 'Transportation',
+        items: [
+          'Van for 8 plus gear from airport/hotel to venue',
+          'Secure parking for the band vehicle at the load-in door',
+        ],
+      },
+      hotel: {
+        title: 'Hotel',
+        items: [
+          '5 rooms for the night of performance (4 twin, 1 single)',
+          'Breakfast included',
+        ],
+      },
+      security: {
+        title: 'Security',
+        items: [
+          'Security at stage and backstage entrance',
+          'Secured storage for instruments before and after the show',
+        ],
+      },
+      guestList: {
+        title: 'Guest List',
+        items: [
+          '10 complimentary general admission',
+          '4 VIP/backstage passes',
+        ],
+      },
+      payment: {
+        title: 'Payment',
+        items: [
+          'WMON deposit required for booking confirmation',
+          'Balance due before the show per the booking agreement',
+        ],
+      },
+    },
+  },
+  {
+    id: 'acoustic',
+    label: 'Acoustic',
+    description: 'Singer-songwriter or duo with acoustic instruments',
+    technicalRider: {
+      stage: {
+        title: 'Stage Requirements',
+        items: [
+          '12ft x 10ft performance area',
+          '2 armless chairs or stools',
+          'Small side table for water and setlist',
+        ],
+      },
+      sound: {
+        title: 'Sound System',
+        items: [
+          'Small full-range PA suitable for a seated audience',
+          'Mixer with 6+ channels and reverb',
+          '2 vocal mics (Shure SM58 or Beta 58)',
+          '2 DI boxes for acoustic guitar pickups',
+          '2 wedge monitors',
+        ],
+      },
+      lighting: {
+        title: 'Lighting',
+        items: [
+          'Warm front wash',
+          'No strobe or haze',
+        ],
+      },
+      video: {
+        title: 'Video / LED',
+        items: [],
+      },
+      backline: {
+        title: 'Backline',
+        items: [
+          '2 guitar stands',
+          '3 boom mic stands',
+        ],
+      },
+      soundcheck: {
+        title: 'Soundcheck',
+        items: [
+          '30-minute soundcheck required',
+          'Quiet room during soundcheck',
+        ],
+      },
+      crew: {
+        title: 'Crew Requirements',
+        items: [
+          '1x sound engineer on-site',
+        ],
+      },
+    },
+    hospitalityRider: {
+      dressingRoom: {
+        title: 'Dressing Room',
+        items: [
+          'Quiet private room for 2 people',
+          'Access to clean restroom',
+        ],
+      },
+      catering: {
+        title: 'Catering',
+        items: [
+          'Hot meal for 2 people',
+          'Vegetarian option available',
+        ],
+      },
+      beverages: {
+        title: 'Beverages',
+        items: [
+          'Room-temperature still water',
+          'Herbal tea with honey and lemon',
+        ],
+      },
+      transport: {
+        title: 'Transportation',
+        items: [
+          'Airport/hotel pickup and drop-off',
+        ],
+      },
+      hotel: {
+        title: 'Hotel',
+        items: [
+          '1 double room for night of performance',
+        ],
+      },
+      security: {
+        title: 'Security',
+        items: [
+          'Venue staff at the stage area',
+        ],
+      },
+      guestList: {
+        title: 'Guest List',
+        items: [
+          '2 complimentary general admission',
+        ],
+      },
+      payment: {
+        title: 'Payment',
+        items: [
+          'WMON deposit required for booking confirmation',
+          'Crypto payments accepted (WMON on Monad)',
+        ],
+      },
+    },
+  },
+];
+
+/** A fresh copy of a template's riders, safe to edit. */
+export function riderTemplate(id: RiderTemplateId): Pick<RiderTemplate, 'technicalRider' | 'hospitalityRider'> {
+  const template = RIDER_TEMPLATES.find(t => t.id === id) || RIDER_TEMPLATES[0];
+  return {
+    technicalRider: structuredClone(template.technicalRider),
+    hospitalityRider: structuredClone(template.hospitalityRider),
+  };
+}
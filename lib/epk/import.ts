@@ -0,0 +1,569 @@
+import type {
+  ArtistInfo,
+  EPKMetadata,
+  HospitalityRider,
+  MediaVideo,
+  PressArticle,
+  RiderSection,
+  SocialLinks,
+  TechnicalRider,
+} from './types';
+
+/**
+ * EPK import: turn the press kit an artist already has into EPKMetadata.
+ *
+ * Four sources feed the same partial EPK:
+ * - JSON: an EPK exported from here, or the looser `{ name, bio, genres, press: [...] }` shapes
+ *   other press-kit and link-in-bio tools export
+ * - PDF: the route pulls the text out with `extractPdfText` (lib/epk/pdf-text.ts) and
+ *   {@link importFromText} reads it by its headings (Bio, Genre:, Stage, Catering...)
+ * - a pasted link list, one link per line, sorted into videos, socials, photos and press
+ * - a Farcaster profile: name, bio, picture, location and the links in the bio
+ *
+ * Nothing here touches the network, so every importer runs offline against fixtures. An import
+ * is never applied wholesale: {@link mergeImport} only fills what the form has left empty and
+ * appends press, videos and photos it does not have yet, and the editor runs validateEPK on the
+ * merged result to say what is still missing.
+ */
+
+export type ImportSource = 'json' | 'pdf' | 'links' | 'farcaster';
+
+/** An EPK with any part possibly missing — importers rarely find everything. */
+export interface ImportedEPK {
+  artist?: Partial<ArtistInfo>;
+  media?: { videos: MediaVideo[]; photos: string[] };
+  press?: PressArticle[];
+  socials?: SocialLinks;
+  technicalRider?: Partial<TechnicalRider>;
+  hospitalityRider?: Partial<HospitalityRider>;
+}
+
+export interface EPKImport {
+  source: ImportSource;
+  draft: ImportedEPK;
+  /** What was recognised, e.g. ['name', 'bio', '3 press articles']. */
+  found: string[];
+  warnings: string[];
+}
+
+export interface FarcasterImportProfile {
+  fid: number;
+  username: string;
+  displayName?: string;
+  bio?: string;
+  pfpUrl?: string;
+  location?: string;
+  /** Verified X handle, if the profile has one. */
+  twitter?: string;
+}
+
+type TechnicalKey = keyof TechnicalRider;
+type HospitalityKey = keyof HospitalityRider;
+type RiderTarget = ['technicalRider', TechnicalKey] | ['hospitalityRider', HospitalityKey];
+type SectionTarget = 'bio' | 'press' | 'links' | 'other' | RiderTarget;
+
+/** Section titles as lib/epk/defaults.ts writes them. */
+const RIDER_TITLES: Record<TechnicalKey | HospitalityKey, string> = {
+  stage: 'Stage Requirements',
+  sound: 'Sound System',
+  lighting: 'Lighting',
+  video: 'Video / LED',
+  backline: 'Backline',
+  soundcheck: 'Soundcheck',
+  crew: 'Crew Requirements',
+  dressingRoom: 'Dressing Room',
+  catering: 'Catering',
+  beverages: 'Beverages',
+  transport: 'Transportation',
+  hotel: 'Hotel',
+  security: 'Security',
+  guestList: 'Guest List',
+  payment: 'Payment',
+};
+
+const TECHNICAL_KEYS: TechnicalKey[] = ['stage', 'sound', 'lighting', 'video', 'backline', 'soundcheck', 'crew'];
+const HOSPITALITY_KEYS: HospitalityKey[] = [
+  'dressingRoom', 'catering', 'beverages', 'transport', 'hotel', 'security', 'guestList', 'payment',
+];
+
+/** Headings a press kit uses for each part, matched against a whole line. */
+const HEADINGS: [RegExp, SectionTarget][] = [
+  [/^(bio|biography|about|about the artist)$/i, 'bio'],
+  [/^(press|press coverage|press quotes|as seen in)$/i, 'press'],
+  [/^(links|socials|social media|listen|watch|videos|media)$/i, 'links'],
+  [/^(technical|tech|hospitality) rider$/i, 'other'],
+  [/^(contact|booking|booking contact|management)$/i, 'other'],
+  [/^stage( requirements| plot)?$/i, ['technicalRider', 'stage']],
+  [/^(sound|audio|pa|sound system|monitors)( requirements)?$/i, ['technicalRider', 'sound']],
+  [/^(lighting|lights)( requirements)?$/i, ['technicalRider', 'lighting']],
+  [/^(video|visuals|led|video \/ led)( requirements)?$/i, ['technicalRider', 'video']],
+  [/^backline$/i, ['technicalRider', 'backline']],
+  [/^sound ?check$/i, ['technicalRider', 'soundcheck']],
+  [/^crew( requirements)?$/i, ['technicalRider', 'crew']],
+  [/^(dressing room|green room|backstage)$/i, ['hospitalityRider', 'dressingRoom']],
+  [/^(catering|food|meals)$/i, ['hospitalityRider', 'catering']],
+  [/^(beverages|drinks)$/i, ['hospitalityRider', 'beverages']],
+  [/^(transport|transportation|travel|ground transport)$/i, ['hospitalityRider', 'transport']],
+  [/^(hotel|accommodation|lodging)$/i, ['hospitalityRider', 'hotel']],
+  [/^security$/i, ['hospitalityRider', 'security']],
+  [/^guest ?list$/i, ['hospitalityRider', 'guestList']],
+  [/^payment( terms)?$/i, ['hospitalityRider', 'payment']],
+];
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"')\]]+|www\.[^\s<>"')\]]+)/i;
+const BULLET = /^(?:[-*•·–]|\d+[.)])\s+/;
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+export type LinkTarget =
+  | { kind: 'video'; platform: MediaVideo['platform'] }
+  | { kind: 'social'; key: keyof SocialLinks; value: string }
+  | { kind: 'photo' }
+  | { kind: 'press' };
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+}
+
+function firstPathSegment(url: URL): string {
+  return url.pathname.split('/').filter(Boolean)[0]?.replace(/^@/, '') || '';
+}
+
+/** The video platform a URL plays on, or null when it is not a video link. */
+export function videoPlatform(url: string): MediaVideo['platform'] | null {
+  const host = parseUrl(url)?.hostname.replace(/^www\./, '') || '';
+  if (/(^|\.)youtube\.com$|^youtu\.be$/.test(host)) return 'youtube';
+  if (/(^|\.)rumble\.com$/.test(host)) return 'rumble';
+  if (/(^|\.)vimeo\.com$/.test(host)) return 'vimeo';
+  return null;
+}
+
+/** Where a link belongs in an EPK. Socials keep a handle where the EPK page builds the URL. */
+export function classifyLink(url: string, label = ''): LinkTarget {
+  const parsed = parseUrl(url);
+  if (!parsed) return { kind: 'press' };
+  const host = parsed.hostname.replace(/^www\./, '').toLowerCase();
+
+  const platform = videoPlatform(url);
+  if (platform) return { kind: 'video', platform };
+
+  const handle = firstPathSegment(parsed);
+  if ((host === 'warpcast.com' || host === 'farcaster.xyz') && handle) {
+    return { kind: 'social', key: 'farcaster', value: handle };
+  }
+  if ((host === 'twitter.com' || host === 'x.com') && handle) return { kind: 'social', key: 'twitter', value: handle };
+  if (host === 'instagram.com' && handle) return { kind: 'social', key: 'instagram', value: handle };
+  if (host === 'open.spotify.com' || host === 'spotify.com') return { kind: 'social', key: 'spotify', value: parsed.href };
+  if (host === 'soundcloud.com') return { kind: 'social', key: 'soundcloud', value: parsed.href };
+
+  if (/\.(jpe?g|png|webp|gif)$/i.test(parsed.pathname)) return { kind: 'photo' };
+  if (/^(official )?(website|site|homepage|home)$/i.test(label.trim())) {
+    return { kind: 'social', key: 'website', value: parsed.href };
+  }
+  return { kind: 'press' };
+}
+
+/** 'https://www.mixmag.net/feature/x' → 'Mixmag'; short names are read as initials ('ra.co' → 'RA'). */
+export function outletFromUrl(url: string): string {
+  const host = parseUrl(url)?.hostname.replace(/^www\./, '') || '';
+  const name = host.split('.').slice(-2, -1)[0] || host;
+  if (!name) return '';
+  return name.length <= 3 ? name.toUpperCase() : name[0].toUpperCase() + name.slice(1);
+}
+
+interface Collected {
+  videos: MediaVideo[];
+  photos: string[];
+  press: PressArticle[];
+  socials: SocialLinks;
+}
+
+function emptyCollected(): Collected {
+  return { videos: [], photos: [], press: [], socials: {} };
+}
+
+function hasUrl(c: Collected, url: string): boolean {
+  return c.videos.some(v => v.url === url) || c.photos.includes(url) || c.press.some(p => p.url === url);
+}
+
+/** Files one link, labelled by whatever text surrounded it. `asPress` is for links under a Press heading. */
+function addLink(into: Collected, rawUrl: string, label: string, asPress = false) {
+  const url = /^https?:\/\//i.test(rawUrl) ? rawUrl : `https://${rawUrl}`;
+  if (hasUrl(into, url)) return;
+  const target = classifyLink(url, label);
+
+  if (target.kind === 'video') {
+    into.videos.push({ title: label || 'Video', url, platform: target.platform });
+  } else if (target.kind === 'social' && !asPress) {
+    if (!into.socials[target.key]) into.socials[target.key] = target.value;
+  } else if (target.kind === 'photo') {
+    into.photos.push(url);
+  } else {
+    // "Mixmag: Ones to watch" names the outlet; a bare title takes it from the URL
+    const split = label.match(/^([^:]{2,40}):\s*(.+)$/);
+    const outlet = split ? split[1].trim() : outletFromUrl(url);
+    into.press.push({ outlet, title: (split ? split[2] : label).trim() || outlet, url, date: '', excerpt: '' });
+  }
+}
+
+/** A line's link and the text around it, with separators like ' - ' or '|' dropped. */
+function splitLinkLine(line: string): { url: string; label: string } | null {
+  const match = line.match(URL_PATTERN);
+  if (!match) return null;
+  const url = match[0].replace(/[.,;]+$/, '');
+  const label = line
+    .replace(match[0], ' ')
+    .replace(BULLET, '')
+    .replace(/\s*[-–—|•]\s*$/, '')
+    .replace(/^\s*[-–—|•]\s*/, '')
+    .replace(/\(\s*\)/, '')
+    .trim()
+    .replace(/:$/, '');
+  return { url, label };
+}
+
+// ============================================================================
+// IMPORTERS
+// ============================================================================
+
+function finish(source: ImportSource, artist: Partial<ArtistInfo>, links: Collected, riders: Riders, warnings: string[]): EPKImport {
+  const draft: ImportedEPK = {};
+  const cleanArtist = Object.fromEntries(
+    Object.entries(artist).filter(([, v]) => v !== undefined && v !== '' && !(Array.isArray(v) && v.length === 0))
+  ) as Partial<ArtistInfo>;
+  if (Object.keys(cleanArtist).length) draft.artist = cleanArtist;
+  if (links.videos.length || links.photos.length) draft.media = { videos: links.videos, photos: links.photos };
+  if (links.press.length) draft.press = links.press;
+  if (Object.keys(links.socials).length) draft.socials = links.socials;
+  if (Object.keys(riders.technicalRider).length) draft.technicalRider = riders.technicalRider;
+  if (Object.keys(riders.hospitalityRider).length) draft.hospitalityRider = riders.hospitalityRider;
+  return { source, draft, found: describeImport(draft), warnings };
+}
+
+/** A short list of what an import found, for the editor to show. */
+export function describeImport(draft: ImportedEPK): string[] {
+  const found: string[] = [];
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+  if (draft.artist?.name) found.push('name');
+  if (draft.artist?.bio) found.push('bio');
+  if (draft.artist?.genre?.length) found.push('genres');
+  if (draft.artist?.location) found.push('location');
+  if (draft.artist?.profileImage) found.push('profile image');
+  if (draft.press?.length) found.push(plural(draft.press.length, 'press article'));
+  if (draft.media?.videos.length) found.push(plural(draft.media.videos.length, 'video'));
+  if (draft.media?.photos.length) found.push(plural(draft.media.photos.length, 'photo'));
+  const socials = Object.keys(draft.socials || {});
+  if (socials.length) found.push(`socials (${socials.join(', ')})`);
+  const sections = Object.keys(draft.technicalRider || {}).length + Object.keys(draft.hospitalityRider || {}).length;
+  if (sections) found.push(plural(sections, 'rider section'));
+  return found;
+}
+
+interface Riders {
+  technicalRider: Partial<TechnicalRider>;
+  hospitalityRider: Partial<HospitalityRider>;
+}
+
+function addRiderItems(riders: Riders, [rider, key]: RiderTarget, items: string[]) {
+  if (items.length === 0) return;
+  const sections = riders[rider] as Partial<Record<string, RiderSection>>;
+  const section = sections[key] || { title: RIDER_TITLES[key], items: [] };
+  section.items.push(...items.filter(item => !section.items.includes(item)));
+  sections[key] = section;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/\s*[,/|•·]\s*/).map(s => s.trim()).filter(Boolean);
+}
+
+function headingFor(line: string): SectionTarget | null {
+  const text = line.replace(/^#+\s*/, '').replace(/:$/, '').trim();
+  if (text.length > 40) return null;
+  return HEADINGS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+/**
+ * Reads a press kit as plain text (what a PDF yields): the first line is the name, "Genre:" and
+ * "Location:" lines fill those fields, and the lines under a heading belong to that section.
+ */
+export function importFromText(text: string, source: ImportSource = 'pdf'): EPKImport {
+  const lines = text.split(/\r?\n/).map(l => l.replace(/\s+/g, ' ').trim()).filter(Boolean);
+  // Keys in the order the other importers produce them
+  const artist: Partial<ArtistInfo> = { name: undefined, bio: undefined, genre: undefined, location: undefined };
+  const links = emptyCollected();
+  const riders: Riders = { technicalRider: {}, hospitalityRider: {} };
+  const bio: string[] = [];
+  const warnings: string[] = [];
+  let section: SectionTarget | null = null;
+
+  for (const line of lines) {
+    const heading = headingFor(line);
+    if (heading) {
+      section = heading;
+      continue;
+    }
+
+    const field = line.match(/^(genres?|style|location|based in|hometown|city|website)\s*[:–-]\s*(.+)$/i);
+    const basedIn = line.match(/^based in\s+(.+)$/i);
+    if (field || basedIn) {
+      const key = field ? field[1].toLowerCase() : 'based in';
+      const value = (field ? field[2] : basedIn![1]).trim();
+      if (key.startsWith('genre') || key === 'style') artist.genre = splitList(value);
+      else if (key === 'website') addLink(links, value, 'website');
+      else artist.location ||= value;
+      continue;
+    }
+
+    if (!artist.name && section === null && !URL_PATTERN.test(line)) {
+      artist.name = line.replace(/\s*[-–—|:]\s*(electronic )?(press kit|epk)$/i, '').trim();
+      continue;
+    }
+
+    const link = splitLinkLine(line);
+    if (Array.isArray(section)) {
+      addRiderItems(riders, section, [line.replace(BULLET, '').trim()]);
+    } else if (link) {
+      addLink(links, link.url, link.label, section === 'press');
+    } else if (section === 'bio') {
+      bio.push(line);
+    } else if (section === 'press') {
+      warnings.push(`Press line without a link skipped: "${line.slice(0, 60)}"`);
+    }
+  }
+
+  artist.bio = bio.join(' ').trim();
+  if (!artist.name) warnings.push('Could not find the artist name');
+  if (!artist.bio) warnings.push('No section headed "Bio" or "About" was found');
+  return finish(source, artist, links, riders, warnings);
+}
+
+/** One link per line; any text on the line becomes its title ("Mixmag: Ones to watch - https://..."). */
+export function importFromLinks(text: string): EPKImport {
+  const links = emptyCollected();
+  const warnings: string[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    const link = splitLinkLine(line.trim());
+    if (!link || !parseUrl(link.url)) {
+      warnings.push(`Line ${i + 1} has no link`);
+      return;
+    }
+    addLink(links, link.url, link.label);
+  });
+  return finish('links', {}, links, { technicalRider: {}, hospitalityRider: {} }, warnings);
+}
+
+/** A profile as the route reads it from Neynar; links in the bio are filed like a link list. */
+export function importFromFarcaster(profile: FarcasterImportProfile): EPKImport {
+  const links = emptyCollected();
+  links.socials.farcaster = profile.username;
+  if (profile.twitter) links.socials.twitter = profile.twitter.replace(/^@/, '');
+
+  const bio = (profile.bio || '').replace(new RegExp(URL_PATTERN.source, 'gi'), url => {
+    addLink(links, url.replace(/[.,;]+$/, ''), '');
+    return '';
+  }).replace(/\s+/g, ' ').trim();
+
+  const warnings: string[] = [];
+  if (bio.length < 80) warnings.push('Your Farcaster bio is short; a booking bio usually runs a paragraph or two');
+
+  return finish('farcaster', {
+    name: profile.displayName || profile.username,
+    bio,
+    location: profile.location,
+    profileImage: profile.pfpUrl,
+    farcasterFid: profile.fid,
+  }, links, { technicalRider: {}, hospitalityRider: {} }, warnings);
+}
+
+// JSON exports name the same things many ways
+function pick(source: unknown, ...keys: string[]): unknown {
+  if (!source || typeof source !== 'object') return undefined;
+  for (const key of keys) {
+    const value = (source as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+function pickString(source: unknown, ...keys: string[]): string {
+  const value = pick(source, ...keys);
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  // { text: '...' } as Farcaster and some CMS exports nest it
+  const text = pick(value, 'text', 'long', 'full', 'short');
+  return typeof text === 'string' ? text.trim() : '';
+}
+
+function toList(value: unknown): string[] {
+  if (typeof value === 'string') return splitList(value);
+  if (!Array.isArray(value)) return [];
+  return value.map(v => (typeof v === 'string' ? v.trim() : pickString(v, 'name', 'title', 'url'))).filter(Boolean);
+}
+
+function pickList(source: unknown, ...keys: string[]): string[] {
+  return toList(pick(source, ...keys));
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function importRider(value: unknown, rider: 'technicalRider' | 'hospitalityRider', riders: Riders) {
+  if (!value || typeof value !== 'object') return;
+  const keys: string[] = rider === 'technicalRider' ? TECHNICAL_KEYS : HOSPITALITY_KEYS;
+  for (const [name, section] of Object.entries(value as Record<string, unknown>)) {
+    const heading = headingFor(name);
+    const key = keys.includes(name)
+      ? name
+      : Array.isArray(heading) && heading[0] === rider ? heading[1] : null;
+    if (!key) continue;
+    const items = typeof section === 'string'
+      ? section.split(/\r?\n/).map(s => s.replace(BULLET, '').trim()).filter(Boolean)
+      : Array.isArray(section) ? toList(section) : pickList(section, 'items');
+    addRiderItems(riders, [rider, key] as RiderTarget, items);
+  }
+}
+
+/** An EPK JSON from here, or a press kit exported elsewhere with looser field names. */
+export function importFromJSON(value: unknown): EPKImport {
+  const links = emptyCollected();
+  const riders: Riders = { technicalRider: {}, hospitalityRider: {} };
+  const warnings: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return finish('json', {}, links, riders, ['The file is not a press kit object']);
+  }
+
+  const root = value as Record<string, unknown>;
+  const source = root.artist && typeof root.artist === 'object' ? root.artist : root;
+  const artist: Partial<ArtistInfo> = {
+    name: typeof root.artist === 'string' ? root.artist.trim() : pickString(source, 'name', 'artistName', 'displayName'),
+    bio: pickString(source, 'bio', 'biography', 'about', 'description'),
+    genre: pickList(source, 'genre', 'genres', 'style').concat(source === root ? [] : pickList(root, 'genre', 'genres')),
+    location: pickString(source, 'location', 'city', 'basedIn', 'hometown') || pickString(root, 'location', 'city'),
+    profileImage: pickString(source, 'profileImage', 'image', 'avatar', 'photo', 'pfp') || undefined,
+  };
+
+  const press = pick(root, 'press', 'pressArticles', 'articles', 'pressQuotes');
+  for (const item of asArray(press)) {
+    if (typeof item === 'string') {
+      const link = splitLinkLine(item);
+      if (link) addLink(links, link.url, link.label, true);
+      continue;
+    }
+    const url = pickString(item, 'url', 'link', 'href');
+    if (!url) {
+      warnings.push(`Press item without a link skipped: "${pickString(item, 'title', 'headline', 'outlet').slice(0, 60)}"`);
+      continue;
+    }
+    const outlet = pickString(item, 'outlet', 'publication', 'source', 'publisher', 'name') || outletFromUrl(url);
+    if (links.press.some(p => p.url === url)) continue;
+    links.press.push({
+      outlet,
+      title: pickString(item, 'title', 'headline') || outlet,
+      url,
+      date: pickString(item, 'date', 'publishedAt', 'published'),
+      excerpt: pickString(item, 'excerpt', 'quote', 'summary', 'description'),
+    });
+  }
+
+  const media = pick(root, 'media');
+  for (const item of asArray(pick(media, 'videos') ?? pick(root, 'videos'))) {
+    const url = typeof item === 'string' ? item : pickString(item, 'url', 'link');
+    if (!url || hasUrl(links, url)) continue;
+    links.videos.push({ title: pickString(item, 'title') || 'Video', url, platform: videoPlatform(url) || 'other' });
+  }
+  for (const item of asArray(pick(media, 'photos') ?? pick(root, 'photos', 'images'))) {
+    const url = typeof item === 'string' ? item : pickString(item, 'url', 'src');
+    if (url && !links.photos.includes(url)) links.photos.push(url);
+  }
+
+  const socials = pick(root, 'socials', 'social', 'links');
+  if (Array.isArray(socials)) {
+    for (const item of socials) {
+      const url = typeof item === 'string' ? item : pickString(item, 'url', 'href');
+      if (url) addLink(links, url, typeof item === 'string' ? '' : pickString(item, 'label', 'title', 'name'));
+    }
+  } else if (socials && typeof socials === 'object') {
+    for (const [key, raw] of Object.entries(socials as Record<string, unknown>)) {
+      if (typeof raw !== 'string' || !raw.trim()) continue;
+      const name = key === 'x' ? 'twitter' : key;
+      if (URL_PATTERN.test(raw)) {
+        addLink(links, raw.trim(), name === 'website' ? 'website' : '');
+      } else if (['farcaster', 'twitter', 'instagram'].includes(name)) {
+        links.socials[name as keyof SocialLinks] ||= raw.trim().replace(/^@/, '');
+      }
+    }
+  }
+
+  importRider(pick(root, 'technicalRider', 'techRider', 'technical'), 'technicalRider', riders);
+  importRider(pick(root, 'hospitalityRider', 'hospitality'), 'hospitalityRider', riders);
+
+  if (!artist.name) warnings.push('No artist name in the file');
+  return finish('json', artist, links, riders, warnings);
+}
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+/**
+ * `current` with the gaps filled from `incoming`. Nothing the artist has typed is replaced; press,
+ * videos and photos are appended when their URL is new, and a rider section is taken only while
+ * the current one is empty.
+ */
+export function mergeImport<T extends Partial<EPKMetadata>>(current: T, incoming: ImportedEPK): T {
+  const merged: Partial<EPKMetadata> = { ...current };
+
+  if (incoming.artist) {
+    const artist = { ...(current.artist || {}) } as Record<string, unknown>;
+    for (const [key, value] of Object.entries(incoming.artist)) {
+      if (isBlank(artist[key]) && !isBlank(value)) artist[key] = value;
+    }
+    merged.artist = artist as unknown as ArtistInfo;
+  }
+
+  if (incoming.media) {
+    const videos = [...(current.media?.videos || [])];
+    for (const video of incoming.media.videos) if (!videos.some(v => v.url === video.url)) videos.push(video);
+    const photos = [...(current.media?.photos || [])];
+    for (const photo of incoming.media.photos) if (!photos.includes(photo)) photos.push(photo);
+    merged.media = { videos, photos };
+  }
+
+  if (incoming.press) {
+    const press = (current.press || []).filter(a => a.outlet || a.title || a.url);
+    for (const article of incoming.press) if (!press.some(a => a.url === article.url)) press.push(article);
+    merged.press = press;
+  }
+
+  if (incoming.socials) {
+    const socials: SocialLinks = { ...(current.socials || {}) };
+    for (const [key, value] of Object.entries(incoming.socials) as [keyof SocialLinks, string][]) {
+      if (!socials[key]) socials[key] = value;
+    }
+    merged.socials = socials;
+  }
+
+  for (const rider of ['technicalRider', 'hospitalityRider'] as const) {
+    const sections = incoming[rider] as Partial<Record<string, RiderSection>> | undefined;
+    if (!sections) continue;
+    const next = { ...(current[rider] || {}) } as Record<string, RiderSection>;
+    for (const [key, section] of Object.entries(sections)) {
+      if (section && !next[key]?.items?.length) next[key] = section;
+    }
+    (merged as Record<string, unknown>)[rider] = next;
+  }
+
+  return merged as T;
+}
@@ -0,0 +1,196 @@
+import { inflateSync } from 'zlib';
+
+/**
+ * Plain text out of a PDF press kit, server-side and without a PDF library.
+ *
+ * Reads each content stream (inflating FlateDecode ones) and keeps the strings drawn by the text
+ * operators — `Tj`, `TJ`, `'` and `"` — starting a new line wherever the page moves down
+ * (`Td`/`TD` with a vertical offset, a new `Tm` baseline, `T*`, `ET`). That covers what word processors and design tools
+ * export with standard fonts. Scanned pages and fonts with custom encodings come back empty or
+ * garbled; the importer says so rather than guessing.
+ *
+ * Uploads are unauthenticated, so inflating is bounded: a few MB per stream and a total across
+ * the file. A PDF that goes over either is treated as unreadable rather than inflated further.
+ */
+
+const MAX_STREAM_BYTES = 4 * 1024 * 1024;
+const MAX_INFLATED_BYTES = 8 * 1024 * 1024;
+
+const SKIPPED_STREAM = /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType|XML)|\/Length1|\/Type\s*\/(XRef|Metadata)/;
+
+/** Every stream that may hold page content, decoded to a latin1 string; null past the inflate budget. */
+function contentStreams(bytes: Uint8Array): string[] | null {
+  const raw = Buffer.from(bytes).toString('latin1');
+  const streams: string[] = [];
+  let budget = MAX_INFLATED_BYTES;
+  let pos = 0;
+
+  for (;;) {
+    const start = raw.indexOf('stream', pos);
+    if (start < 0) break;
+    if (raw.slice(start - 3, start) === 'end') {
+      pos = start + 6;
+      continue;
+    }
+
+    let dataStart = start + 6;
+    if (raw[dataStart] === '\r') dataStart++;
+    if (raw[dataStart] === '\n') dataStart++;
+    const end = raw.indexOf('endstream', dataStart);
+    if (end < 0) break;
+    pos = end + 9;
+
+    const header = raw.slice(Math.max(0, raw.lastIndexOf('obj', start)), start);
+    if (SKIPPED_STREAM.test(header)) continue;
+
+    const data = bytes.subarray(dataStart, end);
+    if (/\/FlateDecode/.test(header)) {
+      if (budget <= 0) return null;
+      try {
+        const inflated = inflateSync(data, { maxOutputLength: Math.min(MAX_STREAM_BYTES, budget) });
+        budget -= inflated.length;
+        streams.push(inflated.toString('latin1'));
+      } catch (err) {
+        if ((err as { code?: string }).code === 'ERR_BUFFER_TOO_LARGE') return null;
+        // A stream that does not inflate is not text we can read
+      }
+    } else if (!/\/Filter/.test(header)) {
+      streams.push(Buffer.from(data).toString('latin1'));
+    }
+  }
+  return streams;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+/** WinAnsiEncoding punctuation that latin1 leaves as control characters. */
+const WIN_ANSI: Record<string, string> = {
+  '\x91': '\u2018', '\x92': '\u2019', '\x93': '\u201c', '\x94': '\u201d',
+  '\x95': '\u2022', '\x96': '\u2013', '\x97': '\u2014', '\x85': '\u2026',
+};
+
+/** Reads a literal string starting at `i` (just past the opening paren); returns it and the index after it. */
+function readLiteral(s: string, i: number): [string, number] {
+  let out = '';
+  let depth = 1;
+  while (i < s.length) {
+    const c = s[i++];
+    if (c === '\\') {
+      const next = s[i++];
+      if (next in ESCAPES) out += ESCAPES[next];
+      else if (/[0-7]/.test(next)) {
+        let octal = next;
+        while (octal.length < 3 && /[0-7]/.test(s[i])) octal += s[i++];
+        out += String.fromCharCode(parseInt(octal, 8));
+      } else if (next === '\r' || next === '\n') {
+        if (next === '\r' && s[i] === '\n') i++;
+      } else out += next;
+    } else if (c === '(') {
+      depth++;
+      out += c;
+    } else if (c === ')') {
+      if (--depth === 0) break;
+      out += c;
+    } else out += c;
+  }
+  return [out, i];
+}
+
+/** Text drawn by one content stream, with line breaks where the page moves down. */
+function textFromContent(s: string): string {
+  let text = '';
+  let operands: (string | number)[] = [];
+  let inArray = false;
+  let arrayText = '';
+  let lineY: number | null = null;
+  let i = 0;
+
+  const newline = () => {
+    if (text && !text.endsWith('\n')) text += '\n';
+  };
+
+  while (i < s.length) {
+    const c = s[i];
+    if (c === '(') {
+      const [str, next] = readLiteral(s, i + 1);
+      i = next;
+      if (inArray) arrayText += str;
+      else operands.push(str);
+    } else if (c === '<' && s[i + 1] !== '<') {
+      const close = s.indexOf('>', i);
+      const hex = s.slice(i + 1, close < 0 ? s.length : close).replace(/\s+/g, '');
+      i = close < 0 ? s.length : close + 1;
+      let str = '';
+      for (let h = 0; h + 1 < hex.length; h += 2) str += String.fromCharCode(parseInt(hex.slice(h, h + 2), 16));
+      if (inArray) arrayText += str;
+      else operands.push(str);
+    } else if (c === '[') {
+      inArray = true;
+      arrayText = '';
+      i++;
+    } else if (c === ']') {
+      inArray = false;
+      operands.push(arrayText);
+      i++;
+    } else if (c === '%') {
+      while (i < s.length && s[i] !== '\n' && s[i] !== '\r') i++;
+    } else if (/[-+.\d]/.test(c)) {
+      const match = s.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)/);
+      const length = match ? match[0].length : 1;
+      const value = match ? parseFloat(match[0]) : 0;
+      // A large negative kern inside TJ is a word gap
+      if (inArray && value < -200) arrayText += ' ';
+      else if (!inArray) operands.push(value);
+      i += length;
+    } else if (/[A-Za-z'"*]/.test(c)) {
+      const match = s.slice(i).match(/^[A-Za-z'"*]+/)!;
+      const op = match[0];
+      i += op.length;
+      if (inArray) continue;
+
+      if (op === 'Tj' || op === 'TJ') {
+        const str = operands[operands.length - 1];
+        if (typeof str === 'string') text += str;
+      } else if (op === "'" || op === '"') {
+        newline();
+        const str = operands[operands.length - 1];
+        if (typeof str === 'string') text += str;
+      } else if (op === 'Td' || op === 'TD') {
+        const ty = operands[operands.length - 1];
+        if (typeof ty === 'number' && ty !== 0) newline();
+        else if (text && !/\s$/.test(text)) text += ' ';
+      } else if (op === 'Tm') {
+        // Absolute positioning: a new baseline is a new line
+        const y = operands[operands.length - 1];
+        if (typeof y === 'number') {
+          if (lineY !== null && y !== lineY) newline();
+          lineY = y;
+        }
+      } else if (op === 'T*') {
+        newline();
+      } else if (op === 'ET') {
+        newline();
+      }
+      operands = [];
+    } else if (c === '/') {
+      const match = s.slice(i).match(/^\/[^\s/[\]()<>{}%]*/)!;
+      i += match[0].length;
+    } else {
+      i++;
+    }
+  }
+  return text;
+}
+
+/** The PDF's text, line by line; empty when nothing readable was found or it inflates too far. */
+export function extractPdfText(bytes: Uint8Array): string {
+  const streams = contentStreams(bytes);
+  if (!streams) return '';
+  return streams
+    .map(textFromContent)
+    .join('\n')
+    .split('\n')
+    .map(line => line.replace(/[\x85\x91-\x97]/g, c => WIN_ANSI[c]).replace(/[^\S\n]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
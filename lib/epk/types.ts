@@ -55,6 +55,9 @@ export interface BookingConfig {
   territories: string[];
   targetEvents: string[];
   minimumDeposit?: string; // WMON amount
+  depositPercent?: number; // share of the fee due on signing, default 30
+  balanceDueDays?: number; // balance due this many days before the show, default 14
+  refundPolicy?: RefundTier[]; // organizer cancellations; see lib/epk/booking.ts
 }
 
 export interface TechnicalRider {
@@ -135,6 +138,73 @@ export interface BookingInquiry {
   depositAmount?: string;
   bookingId?: number; // on-chain booking ID
   txHash?: string;
-  status: 'inquiry' | 'deposited' | 'confirmed' | 'completed' | 'cancelled';
+  status: BookingStatus;
   createdAt: number;
+  organizerAddress?: string; // the wallet that sent the inquiry; only it signs and pays as the organizer
+  quote?: BookingQuote;
+  agreement?: BookingAgreement;
+  milestones?: BookingMilestone[]; // copied from the quote once both parties sign
+  cancellation?: BookingCancellation;
+  completedAt?: number;
+}
+
+export type BookingStatus =
+  | 'inquiry'    // organizer asked
+  | 'quoted'     // artist countered with a signed quote
+  | 'agreed'     // organizer countersigned; the date is held
+  | 'deposited'  // deposit in escrow
+  | 'confirmed'  // every milestone in escrow
+  | 'completed'  // released to the artist after the show
+  | 'cancelled';
+
+export interface RefundTier {
+  daysBefore: number; // applies to cancellations at least this many days before the show
+  artistKeeps: 'nothing' | 'deposit' | 'everything';
+}
+
+export type MilestoneKind = 'deposit' | 'balance';
+
+export interface BookingMilestone {
+  kind: MilestoneKind;
+  amount: string; // WMON
+  dueDate: string; // YYYY-MM-DD
+  status: 'due' | 'escrowed' | 'released' | 'refunded' | 'waived';
+  escrowId?: number; // EPKRegistry booking ID holding this milestone
+  fundedTx?: string;
+  settledTx?: string;
+}
+
+export interface BookingQuote {
+  version: number;
+  fee: string; // WMON
+  milestones: BookingMilestone[];
+  refundPolicy: RefundTier[];
+  note?: string;
+  quotedAt: number;
+  expiresAt: number;
+}
+
+export interface BookingSignature {
+  role: 'artist' | 'organizer';
+  address: string;
+  signature: string;
+  signedAt: number;
+}
+
+export interface BookingAgreement {
+  version: number; // the quote version it was drawn from
+  text: string;    // includes the technical and hospitality riders as they stood
+  hash: string;
+  signatures: BookingSignature[];
+  agreedAt?: number;
+  ipfsCid?: string;
+}
+
+export interface BookingCancellation {
+  by: 'artist' | 'organizer';
+  at: number;
+  reason?: string;
+  artistKeeps: RefundTier['artistKeeps'];
+  organizerDefaulted: boolean; // a milestone was left unpaid past its due date
+  lapsed?: boolean; // cancelled by the deposit keeper, not by either party
 }
@@ -195,6 +195,52 @@ export async function fetchEPKFromChain(
   }
 }
 
+/**
+ * Fetch every CID an artist's EPK has pointed at, oldest first (EPKCreated then each EPKUpdated)
+ */
+export async function fetchEPKHistoryFromChain(
+  artistAddress: string,
+  envioEndpoint: string
+): Promise<Array<{ ipfsCid: string; blockTimestamp: number }>> {
+  const query = `
+    query GetEPKHistory($artist: String!) {
+      EPKRegistry_EPKCreated(
+        where: { artist: { _eq: $artist } }
+        limit: 1
+      ) {
+        ipfsCid
+        blockTimestamp
+      }
+      EPKRegistry_EPKUpdated(
+        where: { artist: { _eq: $artist } }
+        order_by: { blockTimestamp: asc }
+        limit: 100
+      ) {
+        ipfsCid
+        blockTimestamp
+      }
+    }
+  `;
+
+  try {
+    const response = await fetch(envioEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, variables: { artist: artistAddress.toLowerCase() } }),
+    });
+
+    const data = await response.json();
+    const events = [
+      ...(data?.data?.EPKRegistry_EPKCreated || []),
+      ...(data?.data?.EPKRegistry_EPKUpdated || []),
+    ];
+    return events.map((e: any) => ({ ipfsCid: e.ipfsCid, blockTimestamp: Number(e.blockTimestamp) }));
+  } catch (error) {
+    console.error('[EPK] Failed to fetch history from chain:', error);
+    return [];
+  }
+}
+
 /**
  * Fetch EPK metadata JSON from IPFS
  */
@@ -0,0 +1,197 @@
+import type { Redis } from '@upstash/redis';
+import type { EPKMetadata } from './types';
+
+/**
+ * EPK versions: drafts, publish history, diffs and rollback.
+ *
+ * Every publish uploads a fresh JSON to IPFS and points the registry at the new CID, so the
+ * old versions are all still there — nothing remembered which ones they were. The version list
+ * is rebuilt from the registry's EPKCreated/EPKUpdated events and the publish records kept here
+ * (which also cover publishes the indexer has not caught up with, or whose chain call failed).
+ *
+ * ## Drafts
+ *
+ * Saving a draft touches neither IPFS nor the chain. A draft remembers the CID it was started
+ * from; publishing it after someone else has published in between is refused unless the artist
+ * says so, which is what stops a collaborator's save from silently replacing a bio or a rider.
+ *
+ * ## Diff and rollback
+ *
+ * {@link diffEPK} compares two versions field by field (`artist.bio`, `press[1].title`,
+ * `technicalRider.stage.items`), ignoring the `onChain` block the API fills in. Rolling back
+ * re-registers an earlier CID; it becomes the newest entry in the list rather than rewriting it.
+ */
+
+export const MAX_PUBLISH_RECORDS = 100;
+/** A publish record and a registry event for the same CID this close together are one version. */
+const MATCH_WINDOW_MS = 15 * 60 * 1000;
+const IGNORED_FIELDS = new Set(['onChain']);
+
+export const EPK_VERSION_KEYS = {
+  draft: (artist: string) => `epk:draft:${artist.toLowerCase()}`,
+  /** List of PublishRecord JSON, newest first. */
+  history: (artist: string) => `epk:history:${artist.toLowerCase()}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChainVersionEvent {
+  ipfsCid: string;
+  blockTimestamp: number; // seconds
+}
+
+export interface PublishRecord {
+  cid: string;
+  publishedAt: number;
+  source: 'publish' | 'rollback';
+  txHash?: string | null;
+}
+
+export interface EPKVersion extends PublishRecord {
+  /** 1 for the first publish. */
+  number: number;
+  /** Seen in the registry's events; false while unindexed or when the chain call failed. */
+  onChain: boolean;
+}
+
+export interface EPKDraft {
+  metadata: EPKMetadata;
+  savedAt: number;
+  /** The published CID this draft was started from, null for a first EPK. */
+  baseCid: string | null;
+}
+
+export interface FieldChange {
+  path: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+// ============================================================================
+// VERSION LIST
+// ============================================================================
+
+/** Registry events and publish records, merged into one list, newest first. */
+export function mergeVersions(events: ChainVersionEvent[], records: PublishRecord[]): EPKVersion[] {
+  const unmatched = [...records];
+  const merged: Omit<EPKVersion, 'number'>[] = events.map(event => {
+    const at = event.blockTimestamp * 1000;
+    const index = unmatched.findIndex(r => r.cid === event.ipfsCid && Math.abs(r.publishedAt - at) <= MATCH_WINDOW_MS);
+    const record = index >= 0 ? unmatched.splice(index, 1)[0] : null;
+    return {
+      cid: event.ipfsCid,
+      publishedAt: at,
+      source: record?.source ?? 'publish',
+      txHash: record?.txHash ?? null,
+      onChain: true,
+    };
+  });
+  for (const record of unmatched) {
+    merged.push({ ...record, txHash: record.txHash ?? null, onChain: false });
+  }
+
+  merged.sort((a, b) => a.publishedAt - b.publishedAt);
+  return merged.map((version, i) => ({ ...version, number: i + 1 })).reverse();
+}
+
+/** Why `cid` cannot be rolled back to, or null. */
+export function rollbackBlocker(versions: EPKVersion[], cid: string): string | null {
+  if (!versions.some(v => v.cid === cid)) return 'That CID is not a version of this EPK';
+  if (versions[0]?.cid === cid) return 'That version is already live';
+  return null;
+}
+
+/** Why a draft started from `baseCid` should not be published over `currentCid`, or null. */
+export function publishConflict(baseCid: string | null | undefined, currentCid: string | null): string | null {
+  if (baseCid === undefined || baseCid === currentCid) return null;
+  return 'Someone published a newer version since you started editing; review it before replacing it';
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+function flatten(value: unknown, path: string, out: Map<string, unknown>) {
+  if (Array.isArray(value)) {
+    // Lists of strings (genres, rider items) change as a whole
+    if (value.length === 0 || value.every(v => v === null || typeof v !== 'object')) {
+      out.set(path, value);
+      return;
+    }
+    value.forEach((item, i) => flatten(item, `${path}[${i}]`, out));
+    return;
+  }
+  if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (!path && IGNORED_FIELDS.has(key)) continue;
+      flatten(child, path ? `${path}.${key}` : key, out);
+    }
+    return;
+  }
+  if (value !== undefined && value !== '') out.set(path, value);
+}
+
+/** Field-level changes from `before` to `after`, in the order the fields appear. */
+export function diffEPK(before: Partial<EPKMetadata>, after: Partial<EPKMetadata>): FieldChange[] {
+  const a = new Map<string, unknown>();
+  const b = new Map<string, unknown>();
+  flatten(before, '', a);
+  flatten(after, '', b);
+
+  const changes: FieldChange[] = [];
+  for (const [path, value] of b) {
+    if (!a.has(path)) changes.push({ path, kind: 'added', after: value });
+    else if (JSON.stringify(a.get(path)) !== JSON.stringify(value)) {
+      changes.push({ path, kind: 'changed', before: a.get(path), after: value });
+    }
+  }
+  for (const [path, value] of a) {
+    if (!b.has(path)) changes.push({ path, kind: 'removed', before: value });
+  }
+  return changes;
+}
+
+/** Top-level sections touched by a diff, e.g. ['artist', 'technicalRider']. */
+export function changedSections(changes: FieldChange[]): string[] {
+  return [...new Set(changes.map(c => c.path.split(/[.[]/)[0]))];
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value == null) return null;
+  if (typeof value !== 'string') return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getDraft(redis: Redis, artist: string): Promise<EPKDraft | null> {
+  return parseMaybeJson<EPKDraft>(await redis.get(EPK_VERSION_KEYS.draft(artist)));
+}
+
+export async function saveDraft(redis: Redis, artist: string, draft: EPKDraft): Promise<void> {
+  await redis.set(EPK_VERSION_KEYS.draft(artist), JSON.stringify(draft));
+}
+
+export async function deleteDraft(redis: Redis, artist: string): Promise<void> {
+  await redis.del(EPK_VERSION_KEYS.draft(artist));
+}
+
+export async function listPublishRecords(redis: Redis, artist: string): Promise<PublishRecord[]> {
+  const raw = await redis.lrange(EPK_VERSION_KEYS.history(artist), 0, MAX_PUBLISH_RECORDS - 1);
+  return raw.map(r => parseMaybeJson<PublishRecord>(r)).filter((r): r is PublishRecord => !!r);
+}
+
+export async function recordPublish(redis: Redis, artist: string, record: PublishRecord): Promise<void> {
+  const key = EPK_VERSION_KEYS.history(artist);
+  await redis.lpush(key, JSON.stringify(record));
+  await redis.ltrim(key, 0, MAX_PUBLISH_RECORDS - 1);
+}
@@ -3,6 +3,7 @@ import { getWsClient, reconnectWsClient } from './ws-client';
 import { broadcast } from './sse-broadcaster';
 import { redis } from './redis';
 import { env } from './env';
+import { MAIN_STATION_ID, stationChannel } from './radio-stations';
 
 /**
  * Event Manager — subscribes to on-chain contract events via WebSocket,
@@ -464,7 +465,14 @@ export function isEventManagerActive(): boolean {
  * Broadcast a manual update (called from API routes when Redis is updated directly).
  * This ensures SSE clients get updates even when state changes come from
  * API requests (like queue_song, next_song, heartbeat) rather than on-chain events.
+ *
+ * Each station has its own channel; on-chain events above only ever concern the
+ * main station, which keeps the original 'live-radio' channel.
  */
-export function broadcastRadioUpdate(eventType: string, data: Record<string, unknown>): void {
-  broadcast('live-radio', eventType, data);
+export function broadcastRadioUpdate(
+  eventType: string,
+  data: Record<string, unknown>,
+  stationId: string = MAIN_STATION_ID,
+): void {
+  broadcast(stationChannel(stationId), eventType, data);
 }
@@ -0,0 +1,892 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Tour guide bookings: from an open slot on a guide's calendar to a paid, reviewed tour.
+ *
+ * The money never leaves TourGuideRegistry. `bookGuideFor` pulls the traveler's WMON into the
+ * registry, `confirmAndRate` or `autoCompleteTour` pays the guide out of it, and `cancelBooking`
+ * refunds it. What the registry does not have is everything around those calls — when a guide is
+ * free, what they agreed to, who is unhappy and why — and that is what lives here, in Redis,
+ * keyed by a marketplace id (`GB-12`) that records the registry's bookingId once it is paid.
+ *
+ * ## Slots and quotes
+ *
+ * A guide publishes availability as slots: a start and an end, in whole hours. A traveler asks
+ * for a number of hours inside one slot. The guide answers with a quote — the hours and their
+ * on-chain hourly rate, which is what the registry will charge — valid for {@link QUOTE_VALID_MS}.
+ * Paying takes the slot (HSETNX), so of several travelers quoted for the same slot only the first
+ * to pay books it. A guide who changes their rate after quoting has to quote again: the payment
+ * is refused if the rate on-chain no longer matches.
+ *
+ * ## Completion and the auto-complete timer
+ *
+ * Once the tour has started the guide marks it complete with a proof (a photo, a ticket stub)
+ * pinned to IPFS. The traveler then confirms with a star rating and a written review, or does
+ * nothing: when the registry's `AUTO_COMPLETE_PERIOD` has passed, the guide-auto-complete keeper
+ * completes it for them. Every booking waiting on a traveler sits in one sorted set by the time
+ * it falls due.
+ *
+ * ## Disputes
+ *
+ * Either party can open one dispute per booking, from payment until completion, with a statement
+ * and proof. Opening stops the timer. The other side answers once, with their own proof, and an
+ * admin decides: `release` lets the tour stand and restarts the timer, `refund` cancels the
+ * registry booking from the Platform Safe so the traveler gets their WMON back.
+ */
+
+export const HOUR_MS = 60 * 60 * 1000;
+export const MAX_SLOT_HOURS = 12;
+/** Open slots a guide may publish at once. */
+export const MAX_OPEN_SLOTS = 60;
+/** How far ahead a slot may be published. */
+export const SLOT_HORIZON_MS = 180 * 24 * HOUR_MS;
+export const QUOTE_VALID_MS = 48 * HOUR_MS;
+/** Used when the registry's AUTO_COMPLETE_PERIOD cannot be read. */
+export const DEFAULT_AUTO_COMPLETE_MS = 72 * HOUR_MS;
+/** The registry stores ratings as stars × 100 (5 stars = 500). */
+export const RATING_SCALE = 100;
+export const MAX_REVIEW_LENGTH = 2000;
+export const MAX_EVIDENCE_ITEMS = 10;
+export const MAX_STATEMENT_LENGTH = 4000;
+const MAX_NOTE_LENGTH = 500;
+const MAX_EVIDENCE_DESCRIPTION = 500;
+const ACTION_LOCK_SECONDS = 120;
+
+export const GUIDE_BOOKING_KEYS = {
+  booking: (id: string) => `guide:booking:${id}`,
+  seq: "guide:booking:seq",
+  lock: (id: string) => `guide:booking:lock:${id}`,
+  /** Lists of booking ids, newest first. */
+  byGuide: (guideFid: number) => `guide:bookings:guide:${guideFid}`,
+  byTraveler: (traveler: string) =>
+    `guide:bookings:traveler:${traveler.toLowerCase()}`,
+  /** Hash: slot id → slot JSON. */
+  slots: (guideFid: number) => `guide:slots:${guideFid}`,
+  /** Hash: slot id → the booking that paid for it. */
+  slotHolds: (guideFid: number) => `guide:slot-holds:${guideFid}`,
+  /** Sorted set: booking id scored by when it auto-completes. */
+  autoComplete: "guide:autocomplete",
+  /** Set of bookings with a dispute awaiting a decision. */
+  openDisputes: "guide:disputes:open",
+  /** Hash: booking id → review JSON. */
+  reviews: (guideFid: number) => `guide:reviews:${guideFid}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GuideSlot {
+  id: string;
+  guideFid: number;
+  start: number;
+  end: number;
+  createdAt: number;
+}
+
+export type GuideBookingStatus =
+  | "requested"
+  | "quoted"
+  | "paying"
+  | "expired"
+  | "declined"
+  | "booked"
+  | "marked_complete"
+  | "disputed"
+  | "completed"
+  | "cancelled";
+
+export type GuideParty = "traveler" | "guide";
+
+export interface GuideQuote {
+  version: number;
+  hours: number;
+  /** The guide's on-chain hourly rate when quoted, in wei. */
+  hourlyRateWei: string;
+  totalWei: string;
+  note?: string;
+  quotedAt: number;
+  expiresAt: number;
+}
+
+export interface GuideEvidence {
+  url: string;
+  description: string;
+  addedBy: GuideParty;
+  at: number;
+}
+
+export interface GuideDispute {
+  openedBy: GuideParty;
+  openedAt: number;
+  statement: string;
+  evidence: GuideEvidence[];
+  response?: { by: GuideParty; at: number; statement: string };
+  decision?: {
+    outcome: "release" | "refund";
+    reason: string;
+    admin: string;
+    at: number;
+  };
+}
+
+export interface GuideBooking {
+  id: string;
+  status: GuideBookingStatus;
+  guideFid: number;
+  guideAddress: string;
+  travelerFid: number;
+  traveler: string;
+  slotId: string;
+  slotStart: number;
+  slotEnd: number;
+  hours: number;
+  note?: string;
+  meetingPoint?: string;
+  createdAt: number;
+  quote?: GuideQuote;
+  declined?: { at: number; reason?: string };
+  /** A payment sent but not yet read back from its receipt; the slot stays held meanwhile. */
+  payment?: { txHash: string; sentAt: number };
+  /** Set once the WMON is in the registry. */
+  escrow?: { bookingId: number; totalWei: string; txHash: string; at: number };
+  completion?: {
+    proofIPFS: string;
+    markedAt: number;
+    autoCompleteAt: number;
+    txHash: string;
+  };
+  completed?: { at: number; by: "traveler" | "auto"; txHash: string };
+  cancellation?: {
+    at: number;
+    by: GuideParty | "admin";
+    reason?: string;
+    txHash?: string;
+  };
+  dispute?: GuideDispute;
+}
+
+export interface GuideReview {
+  bookingId: string;
+  guideFid: number;
+  travelerFid: number;
+  traveler: string;
+  /** 1–5 stars. */
+  rating: number;
+  text: string;
+  ipfsCid?: string;
+  at: number;
+  reply?: { text: string; at: number };
+}
+
+export class GuideBookingError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "GuideBookingError";
+    this.status = status;
+  }
+}
+
+function tidy(value: unknown, max: number): string {
+  return String(value ?? "")
+    .trim()
+    .slice(0, max);
+}
+
+function toTime(value: unknown, field: string): number {
+  const time =
+    typeof value === "number" ? value : Date.parse(String(value ?? ""));
+  if (!Number.isFinite(time)) {
+    throw new GuideBookingError(`${field} must be a date`, 400);
+  }
+  return time;
+}
+
+// ============================================================================
+// SLOTS
+// ============================================================================
+
+export const slotIdFor = (start: number) => `s${start.toString(36)}`;
+
+/**
+ * Validate new slots against each other and the guide's existing ones. Slots are whole hours,
+ * in the future, at most {@link MAX_SLOT_HOURS} long, and never overlap.
+ */
+export function parseSlots(
+  raw: unknown,
+  guideFid: number,
+  existing: GuideSlot[],
+  now: number,
+): GuideSlot[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new GuideBookingError("slots must be a non-empty array", 400);
+  }
+  const slots = raw.map((item) => {
+    const start = toTime(item?.start, "start");
+    const end = toTime(item?.end, "end");
+    const hours = (end - start) / HOUR_MS;
+    if (!Number.isInteger(hours) || hours < 1 || hours > MAX_SLOT_HOURS) {
+      throw new GuideBookingError(
+        `A slot is 1-${MAX_SLOT_HOURS} whole hours`,
+        400,
+      );
+    }
+    if (start <= now || start > now + SLOT_HORIZON_MS) {
+      throw new GuideBookingError(
+        "Slots must start in the future, within 180 days",
+        400,
+      );
+    }
+    return { id: slotIdFor(start), guideFid, start, end, createdAt: now };
+  });
+
+  const upcoming = existing.filter((s) => s.end > now);
+  if (upcoming.length + slots.length > MAX_OPEN_SLOTS) {
+    throw new GuideBookingError(
+      `At most ${MAX_OPEN_SLOTS} upcoming slots at a time`,
+      400,
+    );
+  }
+  const all = [...upcoming, ...slots].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < all.length; i++) {
+    if (all[i].start < all[i - 1].end) {
+      throw new GuideBookingError(
+        `Slots overlap at ${new Date(all[i].start).toISOString()}`,
+      );
+    }
+  }
+  return slots;
+}
+
+/** Upcoming slots nobody has paid for yet, soonest first. */
+export function openSlots(
+  slots: GuideSlot[],
+  holds: Record<string, unknown>,
+  now: number,
+): GuideSlot[] {
+  return slots
+    .filter((s) => s.start > now && holds[s.id] == null)
+    .sort((a, b) => a.start - b.start);
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+export function guideBookingStatus(
+  b: GuideBooking,
+  now: number,
+): GuideBookingStatus {
+  if (b.cancellation) return "cancelled";
+  if (b.completed) return "completed";
+  // A decided refund stays disputed until its cancellation lands
+  if (b.dispute && b.dispute.decision?.outcome !== "release") return "disputed";
+  if (b.completion) return "marked_complete";
+  if (b.escrow) return "booked";
+  if (b.payment) return "paying";
+  if (b.declined) return "declined";
+  if (now >= b.slotStart) return "expired";
+  if (b.quote) return b.quote.expiresAt < now ? "expired" : "quoted";
+  return "requested";
+}
+
+function requireStatus(
+  b: GuideBooking,
+  now: number,
+  allowed: GuideBookingStatus[],
+  action: string,
+) {
+  const status = guideBookingStatus(b, now);
+  if (!allowed.includes(status)) {
+    throw new GuideBookingError(`Cannot ${action} a booking that is ${status}`);
+  }
+}
+
+export function partyOf(b: GuideBooking, address: string): GuideParty | null {
+  const a = address.toLowerCase();
+  if (a === b.traveler) return "traveler";
+  if (a === b.guideAddress) return "guide";
+  return null;
+}
+
+export function requestBooking(input: {
+  id: string;
+  slot: GuideSlot;
+  guideAddress: string;
+  travelerFid: number;
+  traveler: string;
+  hours: unknown;
+  note?: unknown;
+  meetingPoint?: unknown;
+  now: number;
+}): GuideBooking {
+  const { slot, now } = input;
+  const traveler = input.traveler.toLowerCase();
+  const guideAddress = input.guideAddress.toLowerCase();
+  if (traveler === guideAddress) {
+    throw new GuideBookingError("Guides cannot book themselves", 403);
+  }
+  if (slot.start <= now) {
+    throw new GuideBookingError("That slot has already started");
+  }
+  const hours = Number(input.hours);
+  const slotHours = (slot.end - slot.start) / HOUR_MS;
+  if (!Number.isInteger(hours) || hours < 1 || hours > slotHours) {
+    throw new GuideBookingError(`hours must be 1-${slotHours}`, 400);
+  }
+
+  const note = tidy(input.note, MAX_NOTE_LENGTH);
+  const meetingPoint = tidy(input.meetingPoint, MAX_NOTE_LENGTH);
+  return {
+    id: input.id,
+    status: "requested",
+    guideFid: slot.guideFid,
+    guideAddress,
+    travelerFid: input.travelerFid,
+    traveler,
+    slotId: slot.id,
+    slotStart: slot.start,
+    slotEnd: slot.end,
+    hours,
+    ...(note ? { note } : {}),
+    ...(meetingPoint ? { meetingPoint } : {}),
+    createdAt: now,
+  };
+}
+
+/** Quote, or re-quote until the traveler pays. The total is what the registry will charge. */
+export function quoteBooking(
+  b: GuideBooking,
+  input: { hourlyRateWei: bigint; hours?: unknown; note?: unknown },
+  now: number,
+): GuideQuote {
+  requireStatus(b, now, ["requested", "quoted"], "quote");
+  if (b.quote && b.quote.expiresAt < now) {
+    throw new GuideBookingError("Cannot quote a booking that is expired");
+  }
+  const hours = input.hours === undefined ? b.hours : Number(input.hours);
+  const slotHours = (b.slotEnd - b.slotStart) / HOUR_MS;
+  if (!Number.isInteger(hours) || hours < 1 || hours > slotHours) {
+    throw new GuideBookingError(`hours must be 1-${slotHours}`, 400);
+  }
+  if (input.hourlyRateWei <= 0n) {
+    throw new GuideBookingError("Set an hourly rate on your guide profile");
+  }
+  const note = tidy(input.note, MAX_NOTE_LENGTH);
+  const quote: GuideQuote = {
+    version: (b.quote?.version ?? 0) + 1,
+    hours,
+    hourlyRateWei: input.hourlyRateWei.toString(),
+    totalWei: (input.hourlyRateWei * BigInt(hours)).toString(),
+    ...(note ? { note } : {}),
+    quotedAt: now,
+    expiresAt: Math.min(now + QUOTE_VALID_MS, b.slotStart),
+  };
+  b.quote = quote;
+  b.status = guideBookingStatus(b, now);
+  return quote;
+}
+
+export function declineBooking(b: GuideBooking, reason: unknown, now: number) {
+  requireStatus(b, now, ["requested", "quoted"], "decline");
+  const text = tidy(reason, MAX_NOTE_LENGTH);
+  b.declined = { at: now, ...(text ? { reason: text } : {}) };
+  b.status = guideBookingStatus(b, now);
+}
+
+/** Why the traveler cannot pay this quote now, or null if they can. */
+export function paymentBlocker(
+  b: GuideBooking,
+  onChainRateWei: bigint,
+  now: number,
+): string | null {
+  const status = guideBookingStatus(b, now);
+  if (status !== "quoted") return `This booking is ${status}`;
+  if (onChainRateWei.toString() !== b.quote!.hourlyRateWei) {
+    return "The guide's rate has changed since the quote; ask for a new one";
+  }
+  return null;
+}
+
+/**
+ * The payment left the traveler's Safe. Saved before its receipt is read, so a request that fails
+ * in between settles it on retry rather than paying twice or freeing a slot that was paid for.
+ */
+export function recordPaymentSent(
+  b: GuideBooking,
+  txHash: string,
+  now: number,
+) {
+  requireStatus(b, now, ["quoted"], "pay");
+  b.payment = { txHash, sentAt: now };
+  b.status = guideBookingStatus(b, now);
+}
+
+/** The payment's receipt shows no registry booking; the quote can be paid again. */
+export function recordPaymentFailed(b: GuideBooking, now: number) {
+  delete b.payment;
+  b.status = guideBookingStatus(b, now);
+}
+
+export function recordEscrow(
+  b: GuideBooking,
+  escrow: { bookingId: number; txHash: string },
+  now: number,
+) {
+  delete b.payment;
+  b.escrow = { ...escrow, totalWei: b.quote!.totalWei, at: now };
+  b.hours = b.quote!.hours;
+  b.status = guideBookingStatus(b, now);
+}
+
+const CID_PATTERN = /^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/;
+
+export function isCid(value: string): boolean {
+  return CID_PATTERN.test(value);
+}
+
+/** Why the guide cannot mark this tour complete with this proof, or null if they can. */
+export function completionBlocker(
+  b: GuideBooking,
+  proofIPFS: string,
+  now: number,
+): string | null {
+  const status = guideBookingStatus(b, now);
+  if (status !== "booked") return `This booking is ${status}`;
+  if (now < b.slotStart) return "The tour has not started yet";
+  if (!isCid(proofIPFS)) return "proofIPFS must be an IPFS CID";
+  return null;
+}
+
+/** The guide says the tour happened. Starts the auto-complete timer. */
+export function markComplete(
+  b: GuideBooking,
+  input: { proofIPFS: string; txHash: string; autoCompletePeriodMs: number },
+  now: number,
+) {
+  const blocker = completionBlocker(b, input.proofIPFS, now);
+  if (blocker) throw new GuideBookingError(blocker);
+  b.completion = {
+    proofIPFS: input.proofIPFS,
+    markedAt: now,
+    autoCompleteAt: now + input.autoCompletePeriodMs,
+    txHash: input.txHash,
+  };
+  b.status = guideBookingStatus(b, now);
+}
+
+/** Who may cancel, and whether it needs a registry call (anything already paid does). */
+export function cancelBlocker(
+  b: GuideBooking,
+  party: GuideParty,
+  now: number,
+): string | null {
+  const status = guideBookingStatus(b, now);
+  if (status === "requested" || status === "quoted") return null;
+  if (status !== "booked") return `This booking is ${status}`;
+  if (now >= b.slotStart) {
+    return party === "traveler"
+      ? "The tour has started; open a dispute instead"
+      : "The tour has started; it can no longer be cancelled";
+  }
+  return null;
+}
+
+export function recordCancellation(
+  b: GuideBooking,
+  by: GuideParty | "admin",
+  input: { reason?: unknown; txHash?: string },
+  now: number,
+) {
+  const reason = tidy(input.reason, MAX_NOTE_LENGTH);
+  b.cancellation = {
+    at: now,
+    by,
+    ...(reason ? { reason } : {}),
+    ...(input.txHash ? { txHash: input.txHash } : {}),
+  };
+  b.status = guideBookingStatus(b, now);
+}
+
+/** Bookings whose traveler has gone quiet for the whole auto-complete period. */
+export function dueAutoCompletions(
+  bookings: GuideBooking[],
+  now: number,
+): GuideBooking[] {
+  return bookings.filter(
+    (b) =>
+      guideBookingStatus(b, now) === "marked_complete" &&
+      b.completion!.autoCompleteAt <= now,
+  );
+}
+
+export function recordCompletion(
+  b: GuideBooking,
+  by: "traveler" | "auto",
+  txHash: string,
+  now: number,
+) {
+  b.completed = { at: now, by, txHash };
+  b.status = guideBookingStatus(b, now);
+}
+
+// ============================================================================
+// DISPUTES
+// ============================================================================
+
+/**
+ * Uploaded files (a bare CID or ipfs://) and https:// links. Proof is uploaded through
+ * /api/upload-pinata first; only its CID is sent here.
+ */
+export function normalizeEvidence(
+  items: unknown,
+  addedBy: GuideParty,
+  at: number,
+): GuideEvidence[] {
+  if (items == null) return [];
+  if (!Array.isArray(items)) {
+    throw new GuideBookingError("evidence must be an array", 400);
+  }
+  if (items.length > MAX_EVIDENCE_ITEMS) {
+    throw new GuideBookingError(
+      `At most ${MAX_EVIDENCE_ITEMS} evidence items`,
+      400,
+    );
+  }
+  return items.map((item) => {
+    const raw = String(item?.cid ?? item?.url ?? "").trim();
+    const url = isCid(raw) ? `ipfs://${raw}` : raw;
+    if (!/^(https:\/\/|ipfs:\/\/)\S+$/.test(url)) {
+      throw new GuideBookingError(
+        `Evidence must be an IPFS CID or an https:// link (got "${raw.slice(0, 60)}")`,
+        400,
+      );
+    }
+    return {
+      url,
+      description: tidy(item?.description, MAX_EVIDENCE_DESCRIPTION),
+      addedBy,
+      at,
+    };
+  });
+}
+
+function statementOf(value: unknown): string {
+  const statement = tidy(value, MAX_STATEMENT_LENGTH);
+  if (!statement) throw new GuideBookingError("statement required", 400);
+  return statement;
+}
+
+export function openGuideDispute(
+  b: GuideBooking,
+  input: { party: GuideParty; statement: unknown; evidence: unknown },
+  now: number,
+): GuideDispute {
+  if (b.dispute) {
+    throw new GuideBookingError("This booking has already been disputed");
+  }
+  requireStatus(b, now, ["booked", "marked_complete"], "dispute");
+  b.dispute = {
+    openedBy: input.party,
+    openedAt: now,
+    statement: statementOf(input.statement),
+    evidence: normalizeEvidence(input.evidence, input.party, now),
+  };
+  b.status = guideBookingStatus(b, now);
+  return b.dispute;
+}
+
+/** The other party's one answer, with its own proof. */
+export function respondToGuideDispute(
+  b: GuideBooking,
+  input: { party: GuideParty; statement: unknown; evidence: unknown },
+  now: number,
+) {
+  const d = b.dispute;
+  if (!d || d.decision) throw new GuideBookingError("No open dispute");
+  if (input.party === d.openedBy) {
+    throw new GuideBookingError("Only the other party can respond", 403);
+  }
+  if (d.response) throw new GuideBookingError("Already responded");
+  d.response = {
+    by: input.party,
+    at: now,
+    statement: statementOf(input.statement),
+  };
+  d.evidence.push(...normalizeEvidence(input.evidence, input.party, now));
+}
+
+/** What the admin signs for a decision. */
+export function disputeDecisionDetails(
+  id: string,
+  outcome: unknown,
+  reason: string,
+): string {
+  return `${id}:${outcome}:${reason}`;
+}
+
+/**
+ * Decide an open dispute. `release` restarts the auto-complete timer — never sooner than it was
+ * due — and returns the booking to where it was; `refund` leaves it for the caller to cancel
+ * on-chain and {@link recordCancellation} as the admin.
+ */
+export function resolveGuideDispute(
+  b: GuideBooking,
+  input: { outcome: unknown; reason: unknown; admin: string },
+  now: number,
+) {
+  const d = b.dispute;
+  if (!d || d.decision) throw new GuideBookingError("No open dispute");
+  if (input.outcome !== "release" && input.outcome !== "refund") {
+    throw new GuideBookingError("outcome must be release or refund", 400);
+  }
+  const reason = tidy(input.reason, MAX_STATEMENT_LENGTH);
+  if (!reason) throw new GuideBookingError("reason required", 400);
+  d.decision = {
+    outcome: input.outcome,
+    reason,
+    admin: input.admin.toLowerCase(),
+    at: now,
+  };
+  if (input.outcome === "release" && b.completion) {
+    b.completion.autoCompleteAt = Math.max(b.completion.autoCompleteAt, now);
+  }
+  b.status = guideBookingStatus(b, now);
+}
+
+/** A refund was decided but its cancellation has not landed on-chain yet. */
+export function refundPending(b: GuideBooking): boolean {
+  return b.dispute?.decision?.outcome === "refund" && !b.cancellation;
+}
+
+// ============================================================================
+// REVIEWS
+// ============================================================================
+
+/** The traveler confirms with a rating and a written review. */
+export function buildReview(
+  b: GuideBooking,
+  input: { rating: unknown; text: unknown },
+  now: number,
+): GuideReview {
+  requireStatus(b, now, ["marked_complete"], "confirm");
+  const rating = Number(input.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new GuideBookingError("rating must be 1-5 stars", 400);
+  }
+  return {
+    bookingId: b.id,
+    guideFid: b.guideFid,
+    travelerFid: b.travelerFid,
+    traveler: b.traveler,
+    rating,
+    text: tidy(input.text, MAX_REVIEW_LENGTH),
+    at: now,
+  };
+}
+
+export const chainRating = (stars: number) => stars * RATING_SCALE;
+
+export function replyToReview(r: GuideReview, text: unknown, now: number) {
+  if (r.reply) throw new GuideBookingError("Already replied");
+  const reply = tidy(text, MAX_REVIEW_LENGTH);
+  if (!reply) throw new GuideBookingError("text required", 400);
+  r.reply = { text: reply, at: now };
+}
+
+export function reviewSummary(reviews: GuideReview[]): {
+  count: number;
+  averageRating: number | null;
+} {
+  if (reviews.length === 0) return { count: 0, averageRating: null };
+  const total = reviews.reduce((sum, r) => sum + r.rating, 0);
+  return {
+    count: reviews.length,
+    averageRating: Math.round((total / reviews.length) * 100) / 100,
+  };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value == null) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getSlots(
+  redis: Pick<Redis, "hgetall">,
+  guideFid: number,
+): Promise<GuideSlot[]> {
+  const raw = await redis.hgetall<Record<string, unknown>>(
+    GUIDE_BOOKING_KEYS.slots(guideFid),
+  );
+  return Object.values(raw || {})
+    .map((v) => parseMaybeJson<GuideSlot>(v))
+    .filter((s): s is GuideSlot => !!s)
+    .sort((a, b) => a.start - b.start);
+}
+
+export async function addSlots(
+  redis: Pick<Redis, "hset">,
+  guideFid: number,
+  slots: GuideSlot[],
+): Promise<void> {
+  await redis.hset(
+    GUIDE_BOOKING_KEYS.slots(guideFid),
+    Object.fromEntries(slots.map((s) => [s.id, JSON.stringify(s)])),
+  );
+}
+
+export async function getSlotHolds(
+  redis: Pick<Redis, "hgetall">,
+  guideFid: number,
+): Promise<Record<string, unknown>> {
+  return (
+    (await redis.hgetall<Record<string, unknown>>(
+      GUIDE_BOOKING_KEYS.slotHolds(guideFid),
+    )) || {}
+  );
+}
+
+/** Removes an unpaid slot; false if a booking holds it. */
+export async function removeSlot(
+  redis: Pick<Redis, "hget" | "hdel">,
+  guideFid: number,
+  slotId: string,
+): Promise<boolean> {
+  if (
+    (await redis.hget(GUIDE_BOOKING_KEYS.slotHolds(guideFid), slotId)) != null
+  ) {
+    return false;
+  }
+  await redis.hdel(GUIDE_BOOKING_KEYS.slots(guideFid), slotId);
+  return true;
+}
+
+/** Take a slot for a booking. Returns whichever booking holds it afterwards. */
+export async function holdSlot(
+  redis: Pick<Redis, "hsetnx" | "hget">,
+  b: GuideBooking,
+): Promise<string> {
+  const key = GUIDE_BOOKING_KEYS.slotHolds(b.guideFid);
+  await redis.hsetnx(key, b.slotId, b.id);
+  return String(await redis.hget(key, b.slotId));
+}
+
+export async function releaseSlot(
+  redis: Pick<Redis, "hget" | "hdel">,
+  b: GuideBooking,
+): Promise<void> {
+  const key = GUIDE_BOOKING_KEYS.slotHolds(b.guideFid);
+  if (String(await redis.hget(key, b.slotId)) === b.id) {
+    await redis.hdel(key, b.slotId);
+  }
+}
+
+export async function nextGuideBookingId(redis: Pick<Redis, "incr">) {
+  return `GB-${await redis.incr(GUIDE_BOOKING_KEYS.seq)}`;
+}
+
+export async function getGuideBooking(
+  redis: Pick<Redis, "get">,
+  id: string,
+): Promise<GuideBooking | null> {
+  return parseMaybeJson<GuideBooking>(
+    await redis.get(GUIDE_BOOKING_KEYS.booking(id)),
+  );
+}
+
+export async function getGuideBookings(
+  redis: Pick<Redis, "mget">,
+  ids: string[],
+): Promise<GuideBooking[]> {
+  if (ids.length === 0) return [];
+  const raw = await redis.mget<unknown[]>(
+    ...ids.map((id) => GUIDE_BOOKING_KEYS.booking(id)),
+  );
+  return raw
+    .map((v) => parseMaybeJson<GuideBooking>(v))
+    .filter((b): b is GuideBooking => !!b);
+}
+
+export async function indexGuideBooking(
+  redis: Pick<Redis, "lpush">,
+  b: GuideBooking,
+): Promise<void> {
+  await redis.lpush(GUIDE_BOOKING_KEYS.byGuide(b.guideFid), b.id);
+  await redis.lpush(GUIDE_BOOKING_KEYS.byTraveler(b.traveler), b.id);
+}
+
+/** Saves the record and keeps the timer and open-dispute indexes in step with its status. */
+export async function saveGuideBooking(
+  redis: Pick<Redis, "set" | "zadd" | "zrem" | "sadd" | "srem">,
+  b: GuideBooking,
+  now: number,
+): Promise<void> {
+  b.status = guideBookingStatus(b, now);
+  await redis.set(GUIDE_BOOKING_KEYS.booking(b.id), JSON.stringify(b));
+  if (b.status === "marked_complete") {
+    await redis.zadd(GUIDE_BOOKING_KEYS.autoComplete, {
+      score: b.completion!.autoCompleteAt,
+      member: b.id,
+    });
+  } else {
+    await redis.zrem(GUIDE_BOOKING_KEYS.autoComplete, b.id);
+  }
+  if (b.status === "disputed" || refundPending(b)) {
+    await redis.sadd(GUIDE_BOOKING_KEYS.openDisputes, b.id);
+  } else {
+    await redis.srem(GUIDE_BOOKING_KEYS.openDisputes, b.id);
+  }
+}
+
+/** Serialise registry transactions per booking; false if one is already running. */
+export async function claimGuideBookingAction(
+  redis: Pick<Redis, "set">,
+  id: string,
+): Promise<boolean> {
+  return (
+    (await redis.set(GUIDE_BOOKING_KEYS.lock(id), "1", {
+      nx: true,
+      ex: ACTION_LOCK_SECONDS,
+    })) === "OK"
+  );
+}
+
+export async function releaseGuideBookingAction(
+  redis: Pick<Redis, "del">,
+  id: string,
+): Promise<void> {
+  await redis.del(GUIDE_BOOKING_KEYS.lock(id));
+}
+
+export async function getReviews(
+  redis: Pick<Redis, "hgetall">,
+  guideFid: number,
+): Promise<GuideReview[]> {
+  const raw = await redis.hgetall<Record<string, unknown>>(
+    GUIDE_BOOKING_KEYS.reviews(guideFid),
+  );
+  return Object.values(raw || {})
+    .map((v) => parseMaybeJson<GuideReview>(v))
+    .filter((r): r is GuideReview => !!r)
+    .sort((a, b) => b.at - a.at);
+}
+
+export async function saveReview(
+  redis: Pick<Redis, "hset">,
+  r: GuideReview,
+): Promise<void> {
+  await redis.hset(GUIDE_BOOKING_KEYS.reviews(r.guideFid), {
+    [r.bookingId]: JSON.stringify(r),
+  });
+}
@@ -0,0 +1,91 @@
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import TourGuideRegistryABI from "@/lib/abis/TourGuideRegistry.json";
+import { getUserSafeAddress, publicClient } from "@/lib/user-safe";
+import { DEFAULT_AUTO_COMPLETE_MS } from "@/lib/guide-booking";
+
+/**
+ * TourGuideRegistry reads and call data for the guide marketplace (lib/guide-booking.ts).
+ * Bookings are paid, confirmed and cancelled from the acting party's Safe, the same way
+ * execute-delegated's book_guide / mark_tour_complete / confirm_and_rate do.
+ */
+
+export const TOUR_GUIDE_REGISTRY = process.env
+  .NEXT_PUBLIC_TOUR_GUIDE_REGISTRY as Address;
+
+const abi = TourGuideRegistryABI.abi;
+
+export interface RegistryGuide {
+  guideFid: number;
+  guideAddress: string;
+  hourlyRateWei: bigint;
+  active: boolean;
+  suspended: boolean;
+}
+
+/** The guide as the registry has them, or null if the FID never registered. */
+export async function readGuide(
+  guideFid: number,
+): Promise<RegistryGuide | null> {
+  const g = (await publicClient.readContract({
+    address: TOUR_GUIDE_REGISTRY,
+    abi,
+    functionName: "guides",
+    args: [BigInt(guideFid)],
+  })) as readonly any[];
+  const guideAddress = String(g[1]).toLowerCase();
+  if (/^0x0+$/.test(guideAddress)) return null;
+  return {
+    guideFid,
+    guideAddress,
+    hourlyRateWei: BigInt(g[3]),
+    active: Boolean(g[13]),
+    suspended: Boolean(g[16]),
+  };
+}
+
+/**
+ * Whether `userAddress` acts for a registered guide. Guides register from their Safe, so the
+ * registry may hold either the wallet or its Safe.
+ */
+export async function actsForGuide(
+  userAddress: string,
+  guideAddress: string,
+): Promise<boolean> {
+  const user = userAddress.toLowerCase();
+  if (user === guideAddress) return true;
+  return (await getUserSafeAddress(user)).toLowerCase() === guideAddress;
+}
+
+export async function readAutoCompletePeriodMs(): Promise<number> {
+  try {
+    const seconds = (await publicClient.readContract({
+      address: TOUR_GUIDE_REGISTRY,
+      abi,
+      functionName: "AUTO_COMPLETE_PERIOD",
+    })) as bigint;
+    return Number(seconds) * 1000;
+  } catch (err: any) {
+    console.warn(
+      "[GuideRegistry] AUTO_COMPLETE_PERIOD read failed:",
+      err.message,
+    );
+    return DEFAULT_AUTO_COMPLETE_MS;
+  }
+}
+
+export async function canAutoComplete(bookingId: number): Promise<boolean> {
+  return (await publicClient.readContract({
+    address: TOUR_GUIDE_REGISTRY,
+    abi,
+    functionName: "canAutoComplete",
+    args: [BigInt(bookingId)],
+  })) as boolean;
+}
+
+export function registryCall(functionName: string, args: unknown[]) {
+  return {
+    to: TOUR_GUIDE_REGISTRY,
+    value: 0n,
+    data: encodeFunctionData({ abi, functionName, args }) as Hex,
+  };
+}
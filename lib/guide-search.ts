@@ -0,0 +1,200 @@
+import { formatEther, parseEther } from "viem";
+
+/**
+ * Guide search over the indexed `TourGuide` entity.
+ *
+ * The registry stores countries as an array but languages as the free text the guide typed
+ * ("English, Spanish / Català"), and Hasura cannot filter inside either, so the route fetches
+ * every active, unsuspended guide and this module filters and ranks them. Countries and
+ * languages match case-insensitively on whole entries; rates are WMON per hour.
+ *
+ * Ranking by rating uses a damped average — {@link RATING_PRIOR_WEIGHT} phantom ratings at
+ * {@link RATING_PRIOR_STARS} stars are mixed in — so one five-star tour does not outrank fifty
+ * four-and-a-half-star ones.
+ */
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const RATING_PRIOR_STARS = 4;
+export const RATING_PRIOR_WEIGHT = 3;
+const RATING_SCALE = 100;
+
+export const GUIDE_SORTS = [
+  "rating",
+  "price",
+  "price_desc",
+  "experience",
+] as const;
+export type GuideSort = (typeof GUIDE_SORTS)[number];
+
+export interface GuideListing {
+  guideFid: number;
+  guideAddress: string;
+  countries: string[];
+  languages: string[];
+  hourlyRateWei: string;
+  hourlyRateWMON: string;
+  /** 0–5 stars, two decimals; null until the first rating. */
+  averageRating: number | null;
+  ratingCount: number;
+  completedBookings: number;
+  username?: string;
+  displayName?: string;
+  pfpUrl?: string;
+  bio?: string;
+  location?: string;
+  transport?: string;
+}
+
+export interface GuideSearchQuery {
+  country?: string;
+  language?: string;
+  minRateWei?: bigint;
+  maxRateWei?: bigint;
+  minRating?: number;
+  sort: GuideSort;
+  limit: number;
+  offset: number;
+}
+
+export class GuideSearchError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = "GuideSearchError";
+  }
+}
+
+const fold = (s: string) => s.trim().toLowerCase();
+
+/** "English, Spanish / Català" → ["english", "spanish", "català"] */
+export function parseLanguages(raw: string | null | undefined): string[] {
+  return String(raw ?? "")
+    .split(/[,;/|]+/)
+    .map(fold)
+    .filter(Boolean);
+}
+
+function rate(value: string | null, field: string): bigint | undefined {
+  if (value == null || value === "") return undefined;
+  try {
+    const wei = parseEther(value);
+    if (wei < 0n) throw new Error();
+    return wei;
+  } catch {
+    throw new GuideSearchError(`${field} must be a WMON amount`);
+  }
+}
+
+export function parseGuideSearch(params: URLSearchParams): GuideSearchQuery {
+  const sort = (params.get("sort") || "rating") as GuideSort;
+  if (!GUIDE_SORTS.includes(sort)) {
+    throw new GuideSearchError(`sort must be ${GUIDE_SORTS.join(", ")}`);
+  }
+  const minRating = params.get("minRating");
+  if (
+    minRating != null &&
+    !(Number(minRating) >= 0 && Number(minRating) <= 5)
+  ) {
+    throw new GuideSearchError("minRating must be 0-5");
+  }
+  const query: GuideSearchQuery = {
+    sort,
+    limit: Math.min(
+      Math.max(Number(params.get("limit")) || DEFAULT_SEARCH_LIMIT, 1),
+      MAX_SEARCH_LIMIT,
+    ),
+    offset: Math.max(Math.floor(Number(params.get("offset")) || 0), 0),
+  };
+  const country = params.get("country")?.trim();
+  const language = params.get("language")?.trim();
+  const minRateWei = rate(params.get("minRate"), "minRate");
+  const maxRateWei = rate(params.get("maxRate"), "maxRate");
+  if (country) query.country = country;
+  if (language) query.language = language;
+  if (minRateWei !== undefined) query.minRateWei = minRateWei;
+  if (maxRateWei !== undefined) query.maxRateWei = maxRateWei;
+  if (minRating != null) query.minRating = Number(minRating);
+  return query;
+}
+
+/** An Envio `TourGuide` row as a listing. */
+export function toListing(row: any): GuideListing {
+  const wei = BigInt(row.hourlyRateWMON ?? 0);
+  const ratingCount = Number(row.ratingCount ?? 0);
+  const listing: GuideListing = {
+    guideFid: Number(row.guideFid),
+    guideAddress: String(row.guideAddress ?? "").toLowerCase(),
+    countries: (row.countries ?? []).map(String),
+    languages: parseLanguages(row.languages),
+    hourlyRateWei: wei.toString(),
+    hourlyRateWMON: formatEther(wei),
+    averageRating:
+      ratingCount > 0
+        ? Math.round(Number(row.averageRating ?? 0)) / RATING_SCALE
+        : null,
+    ratingCount,
+    completedBookings: Number(row.completedBookings ?? 0),
+  };
+  for (const field of [
+    "username",
+    "displayName",
+    "pfpUrl",
+    "bio",
+    "location",
+    "transport",
+  ] as const) {
+    if (row[field]) listing[field] = String(row[field]);
+  }
+  return listing;
+}
+
+export function rankingScore(g: GuideListing): number {
+  return (
+    ((g.averageRating ?? 0) * g.ratingCount +
+      RATING_PRIOR_STARS * RATING_PRIOR_WEIGHT) /
+    (g.ratingCount + RATING_PRIOR_WEIGHT)
+  );
+}
+
+function compare(sort: GuideSort) {
+  const price = (g: GuideListing) => BigInt(g.hourlyRateWei);
+  const byPrice = (a: GuideListing, b: GuideListing) =>
+    price(a) < price(b) ? -1 : price(a) > price(b) ? 1 : 0;
+  return (a: GuideListing, b: GuideListing): number => {
+    const primary =
+      sort === "price"
+        ? byPrice(a, b)
+        : sort === "price_desc"
+          ? byPrice(b, a)
+          : sort === "experience"
+            ? b.completedBookings - a.completedBookings
+            : rankingScore(b) - rankingScore(a);
+    return primary || a.guideFid - b.guideFid;
+  };
+}
+
+export function searchGuides(
+  guides: GuideListing[],
+  q: GuideSearchQuery,
+): { total: number; guides: GuideListing[] } {
+  const country = q.country && fold(q.country);
+  const language = q.language && fold(q.language);
+  const matches = guides.filter((g) => {
+    const wei = BigInt(g.hourlyRateWei);
+    if (country && !g.countries.some((c) => fold(c) === country)) return false;
+    if (language && !g.languages.includes(language)) return false;
+    if (q.minRateWei !== undefined && wei < q.minRateWei) return false;
+    if (q.maxRateWei !== undefined && wei > q.maxRateWei) return false;
+    if (q.minRating !== undefined && (g.averageRating ?? 0) < q.minRating) {
+      return false;
+    }
+    return true;
+  });
+  matches.sort(compare(q.sort));
+  return {
+    total: matches.length,
+    guides: matches.slice(q.offset, q.offset + q.limit),
+  };
+}
@@ -42,10 +42,15 @@ export interface ListenerStatsShape {
  *
  * Mirrors the cron exactly: delta songs, plus 5 points per completed 7-day
  * streak. Returns 0 when the listener has nothing new (the cron skips those).
+ *
+ * `weight` is the listener's risk weight from lib/listener-risk.ts — 1 for a
+ * clean address, less for one under review, 0 for one held or confirmed. Both
+ * callers must pass the same weight or the estimate and the chain disagree.
  */
 export function computeListenerPoints(
   stats: ListenerStatsShape | null | undefined,
   previousTotal: number,
+  weight: number = 1,
 ): number {
   if (!stats || typeof stats.totalSongsListened !== "number") return 0;
 
@@ -55,21 +60,59 @@ export function computeListenerPoints(
     delta += Math.floor(stats.currentStreak / 7) * 5;
   }
 
+  delta = Math.floor(delta * weight);
   return delta > 0 ? delta : 0;
 }
 
+/** The fields the heartbeat keeps to decide whether a song may be credited. */
+export interface ListenCreditShape {
+  lastRewardedSongId?: string;
+  lastRewardedStation?: string;
+  /** When the last credited song was due to end, epoch ms. */
+  listenCreditUntil?: number;
+}
+
+/**
+ * Whether a heartbeat may credit `songId` (one song on one station) as listened.
+ *
+ * Stats are one record per address, so points from every station land in the same
+ * totalSongsListened and are summed by construction. What has to be prevented is
+ * counting the same wall-clock minutes twice: two tabs on two stations would
+ * otherwise each credit a song per slot. A song on a DIFFERENT station than the
+ * last credited one is only creditable once that earlier song's slot is over.
+ * On the same station a new song is always creditable — the previous one ended
+ * or was replaced by a paid queue entry.
+ */
+export function canCreditListen(
+  stats: ListenCreditShape,
+  songId: string,
+  stationId: string,
+  now: number,
+): boolean {
+  if (stats.lastRewardedSongId === songId) return false;
+  if (!stats.lastRewardedStation || stats.lastRewardedStation === stationId) {
+    return true;
+  }
+  return now >= Number(stats.listenCreditUntil || 0);
+}
+
 /**
  * Sum of points across every listener — the denominator of the pro-rata split.
  */
 export function computeTotalPoints(
   allStats: Record<string, ListenerStatsShape> | null | undefined,
   snapshot: Record<string, number> | null | undefined,
+  weights?: Record<string, { weight: number }> | null,
 ): number {
   if (!allStats) return 0;
 
   let total = 0;
   for (const [address, stats] of Object.entries(allStats)) {
-    total += computeListenerPoints(stats, Number(snapshot?.[address] || 0));
+    total += computeListenerPoints(
+      stats,
+      Number(snapshot?.[address] || 0),
+      weights?.[address]?.weight ?? 1,
+    );
   }
   return total;
 }
@@ -100,3 +143,76 @@ export function estimatePayoutWei(
   if (totalPoints <= 0 || myPoints <= 0) return 0n;
   return (poolWei * BigInt(myPoints)) / BigInt(totalPoints);
 }
+
+/** One listener's line in a distribution. */
+export interface DistributionLine {
+  address: string;
+  /** DISTRIBUTION_SNAPSHOT_KEY before this distribution. */
+  previousTotal: number;
+  totalSongsListened: number;
+  /** Points before the risk weight. */
+  rawPoints: number;
+  weight: number;
+  points: number;
+  payoutWei: bigint;
+  /** Quarantined: paid nothing now, and the snapshot is left alone so the points carry over. */
+  held: boolean;
+}
+
+export interface DistributionPlan {
+  /** Every listener with raw points, sorted by address. */
+  lines: DistributionLine[];
+  totalPoints: number;
+  /** What DISTRIBUTION_SNAPSHOT_KEY is set to once the month is finalized. Held listeners are absent. */
+  snapshotAfter: Record<string, number>;
+}
+
+/**
+ * The whole distribution for a pool, computed once so the report the team
+ * approves and the transactions the cron sends are the same numbers.
+ *
+ * `standings` is the output of loadRiskStandings() in lib/listener-risk.ts.
+ */
+export function planDistribution(
+  allStats: Record<string, ListenerStatsShape> | null | undefined,
+  snapshot: Record<string, number> | null | undefined,
+  standings:
+    | Record<string, { weight: number; hold: boolean }>
+    | null
+    | undefined,
+  poolWei: bigint,
+): DistributionPlan {
+  const lines: DistributionLine[] = [];
+  const snapshotAfter: Record<string, number> = {};
+
+  for (const address of Object.keys(allStats || {}).sort()) {
+    const stats = allStats![address];
+    const previousTotal = Number(snapshot?.[address] || 0);
+    const standing = standings?.[address];
+    const held = !!standing?.hold;
+    const weight = held ? 0 : (standing?.weight ?? 1);
+
+    if (!held && stats && typeof stats.totalSongsListened === "number") {
+      snapshotAfter[address] = stats.totalSongsListened;
+    }
+
+    const rawPoints = computeListenerPoints(stats, previousTotal);
+    if (rawPoints <= 0) continue;
+    lines.push({
+      address,
+      previousTotal,
+      totalSongsListened: stats.totalSongsListened,
+      rawPoints,
+      weight,
+      points: computeListenerPoints(stats, previousTotal, weight),
+      payoutWei: 0n,
+      held,
+    });
+  }
+
+  const totalPoints = lines.reduce((sum, l) => sum + l.points, 0);
+  for (const line of lines) {
+    line.payoutWei = estimatePayoutWei(poolWei, line.points, totalPoints);
+  }
+  return { lines, totalPoints, snapshotAfter };
+}
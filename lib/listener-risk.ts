@@ -0,0 +1,643 @@
+import { createHash } from "crypto";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Listener risk scoring.
+ *
+ * lib/radio-session.ts proves that a heartbeat comes from the address it credits. It cannot
+ * prove there is a person behind it: one operator with a drawer of wallets can open a tab per
+ * address, and a script can heartbeat once per song, collect the credit and never play a second
+ * of audio. Both inflate listener points (the 20% WMON pool) and the on-chain plays
+ * recordPlaysForListeners() writes (the 70% artist pool).
+ *
+ * Every heartbeat is appended to a short per-address log. A listener's log is periodically
+ * reduced to a handful of features, and the features to a 0-100 score:
+ *
+ *   - fast beats      the client sends one heartbeat every 30s; many shorter gaps mean a second
+ *                     tab or a loop
+ *   - session churn   sessions last an hour; minting many is a script rotating tokens
+ *   - concurrency     several sessions heartbeating the same address at once
+ *   - shared IPs      many addresses heartbeating from one IP or /24 (/48 for IPv6). Nothing
+ *                     upstream resolves an ASN, so the network prefix from getClientIP() stands
+ *                     in for it
+ *   - listen-through  how much of each credited song's slot was actually heartbeated
+ *
+ * ## What a score does
+ *
+ *   clear       (< 40)   counted in full
+ *   review      (40-69)  points weighted by REVIEW_WEIGHT, and listed in the admin queue
+ *   quarantine  (>= 70)  points held out of the distribution without advancing the snapshot,
+ *                        and no on-chain plays; an admin clears or confirms
+ *
+ * An admin decision sticks until the score climbs REVIEW_MARGIN above what the admin saw.
+ * "confirmed" forfeits the held points; "cleared" releases them into the next distribution.
+ *
+ * Scoring is a pure function of the log, so `tools/replay-heartbeat-log.ts` can re-score a
+ * recorded log offline and `tools/verify-listener-risk.ts` pins the behaviour. Imports nothing
+ * from the project for that reason.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface HeartbeatEvent {
+  address: string;
+  at: number;
+  /** getClientIP(), or "unknown" when no proxy header was present. */
+  ip: string;
+  /** sessionTag() of the radio session token — never the bearer token itself. */
+  session: string;
+  stationId: string;
+  /** The song the beat landed in, or null when nothing was playing. */
+  songId: string | null;
+  /** That song's slot length, in seconds. */
+  songDuration?: number;
+  /** Whether this beat credited songId as listened. */
+  credited: boolean;
+}
+
+export interface RiskFeatures {
+  beats: number;
+  fastBeatRatio: number;
+  sessionsPerHour: number;
+  maxConcurrentSessions: number;
+  /** Other addresses seen on any of this address's IPs / networks in the window. */
+  sharedIpAddresses: number;
+  sharedNetworkAddresses: number;
+  /** Mean share of each credited song's slot that was heartbeated; null with too few. */
+  listenThrough: number | null;
+  creditedSongs: number;
+}
+
+export type RiskTier = "clear" | "review" | "quarantine";
+
+export interface RiskAssessment {
+  score: number;
+  tier: RiskTier;
+  reasons: string[];
+}
+
+export interface RiskReview {
+  decision: "cleared" | "confirmed";
+  by: string;
+  at: number;
+  note?: string;
+  /** The score the admin was looking at. */
+  scoreAtReview: number;
+}
+
+export interface ListenerRiskRecord extends RiskAssessment {
+  address: string;
+  features: RiskFeatures;
+  scoredAt: number;
+  review?: RiskReview;
+}
+
+/** What the distribution and play recording do with an address. */
+export interface RiskStanding {
+  /** Multiplier on listener points. 0 excludes the address from on-chain plays too. */
+  weight: number;
+  /** Keep the points pending (do not advance the snapshot) rather than forfeit them. */
+  hold: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RISK_LIMITS = {
+  /** HEARTBEAT_INTERVAL in LiveRadioModal. */
+  heartbeatIntervalMs: 30_000,
+  /** LISTENER_HEARTBEAT_EXPIRY in the radio routes. */
+  concurrencyWindowMs: 60_000,
+  /** A gap longer than this is a listener stepping away, not listening time. */
+  pauseMs: 10 * 60 * 1000,
+  windowMs: 24 * 60 * 60 * 1000,
+  maxEventsPerAddress: 1500,
+  eventTtlSeconds: 48 * 60 * 60,
+  rescoreIntervalMs: 5 * 60 * 1000,
+  /** Below this a log says nothing either way and scores 0. */
+  minBeats: 20,
+  minCreditedSongs: 5,
+} as const;
+
+export const RISK_THRESHOLDS = { review: 40, quarantine: 70 } as const;
+
+export const REVIEW_WEIGHT = 0.5;
+
+/** How far a reviewed score must rise before the address goes back in the queue. */
+export const REVIEW_MARGIN = 10;
+
+export const RISK_KEYS = {
+  /** List of HeartbeatEvent, oldest first, capped and expiring. */
+  beats: (address: string) => `live-radio:risk:beats:${address}`,
+  /** ZSET address -> last seen, per IP and per network prefix. */
+  ip: (ip: string) => `live-radio:risk:ip:${ip}`,
+  network: (network: string) => `live-radio:risk:net:${network}`,
+  /** Hash address -> ListenerRiskRecord. */
+  scores: "live-radio:risk:scores",
+  /** ZSET address -> score, for addresses above "clear" awaiting a decision. */
+  queue: "live-radio:risk:queue",
+} as const;
+
+const NO_STANDING: RiskStanding = { weight: 1, hold: false };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** A stable, non-reversible tag for a session token, safe to store in the log. */
+export function sessionTag(token: string): string {
+  return createHash("sha256").update(token).digest("hex").slice(0, 12);
+}
+
+/** /24 for IPv4, /48 for IPv6; null when the IP is unknown and must not cluster. */
+export function networkOf(ip: string): string | null {
+  if (!ip || ip === "unknown") return null;
+  const v4 = ip.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.\d{1,3}$/);
+  if (v4) return `${v4[1]}.${v4[2]}.${v4[3]}.0/24`;
+  if (!ip.includes(":")) return null;
+
+  const [head, tail = ""] = ip.toLowerCase().split("::");
+  const left = head ? head.split(":") : [];
+  const right = tail ? tail.split(":") : [];
+  const groups = ip.includes("::")
+    ? [
+        ...left,
+        ...Array(Math.max(0, 8 - left.length - right.length)).fill("0"),
+        ...right,
+      ]
+    : left;
+  return `${groups
+    .slice(0, 3)
+    .map((g) => g || "0")
+    .join(":")}::/48`;
+}
+
+function round(value: number, places: number = 3): number {
+  const f = 10 ** places;
+  return Math.round(value * f) / f;
+}
+
+// ============================================================================
+// FEATURES
+// ============================================================================
+
+/**
+ * Reduce one address's heartbeats to features. `events` may be in any order; `shared` counts
+ * other addresses on the same IPs and networks, which one address's log cannot see.
+ */
+export function extractRiskFeatures(
+  events: HeartbeatEvent[],
+  shared: { ip: number; network: number } = { ip: 0, network: 0 },
+): RiskFeatures {
+  const interval = RISK_LIMITS.heartbeatIntervalMs;
+  const beats = [...events].sort((a, b) => a.at - b.at);
+
+  // Gaps across every session: a second tab interleaves and halves them.
+  const gaps: number[] = [];
+  for (let i = 1; i < beats.length; i++)
+    gaps.push(beats[i].at - beats[i - 1].at);
+  const fastBeatRatio = gaps.length
+    ? gaps.filter((g) => g < interval / 3).length / gaps.length
+    : 0;
+
+  // Listening time: every gap short enough that the listener never stepped away.
+  const activeMs = gaps
+    .filter((g) => g <= RISK_LIMITS.pauseMs)
+    .reduce((s, g) => s + g, 0);
+  const sessions = new Set(beats.map((b) => b.session)).size;
+  const sessionsPerHour = round(
+    sessions / Math.max(1, activeMs / 3_600_000),
+    2,
+  );
+
+  // Most distinct sessions inside one expiry window.
+  let maxConcurrentSessions = beats.length ? 1 : 0;
+  const inWindow = new Map<string, number>();
+  let start = 0;
+  for (const beat of beats) {
+    inWindow.set(beat.session, (inWindow.get(beat.session) || 0) + 1);
+    while (beat.at - beats[start].at > RISK_LIMITS.concurrencyWindowMs) {
+      const s = beats[start++].session;
+      const n = (inWindow.get(s) || 0) - 1;
+      if (n > 0) inWindow.set(s, n);
+      else inWindow.delete(s);
+    }
+    maxConcurrentSessions = Math.max(maxConcurrentSessions, inWindow.size);
+  }
+
+  // Listen-through: distinct heartbeat slots per credited song, against the slots it ran.
+  const bySong = new Map<
+    string,
+    { duration: number; slots: Set<number>; credited: boolean }
+  >();
+  for (const beat of beats) {
+    if (!beat.songId) continue;
+    const song = bySong.get(beat.songId) || {
+      duration: Number(beat.songDuration || 0),
+      slots: new Set<number>(),
+      credited: false,
+    };
+    song.slots.add(Math.floor(beat.at / interval));
+    song.credited ||= beat.credited;
+    bySong.set(beat.songId, song);
+  }
+  const ratios = [...bySong.values()]
+    .filter((s) => s.credited)
+    .map((s) => {
+      const expected = Math.max(1, Math.floor((s.duration * 1000) / interval));
+      return Math.min(1, s.slots.size / expected);
+    });
+  const listenThrough =
+    ratios.length >= RISK_LIMITS.minCreditedSongs
+      ? round(ratios.reduce((s, r) => s + r, 0) / ratios.length)
+      : null;
+
+  return {
+    beats: beats.length,
+    fastBeatRatio: round(fastBeatRatio),
+    sessionsPerHour,
+    maxConcurrentSessions,
+    sharedIpAddresses: shared.ip,
+    sharedNetworkAddresses: shared.network,
+    listenThrough,
+    creditedSongs: ratios.length,
+  };
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Features to a score. Each signal adds a fixed amount and none reaches "review" alone: shared
+ * IPs are venues and mobile carriers, short listens are people changing their mind.
+ */
+export function assessRisk(f: RiskFeatures): RiskAssessment {
+  if (f.beats < RISK_LIMITS.minBeats) {
+    return { score: 0, tier: "clear", reasons: [] };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (f.fastBeatRatio > 0.5)
+    add(35, `${Math.round(f.fastBeatRatio * 100)}% of heartbeats arrive early`);
+  else if (f.fastBeatRatio > 0.2)
+    add(20, `${Math.round(f.fastBeatRatio * 100)}% of heartbeats arrive early`);
+
+  if (f.maxConcurrentSessions >= 3)
+    add(30, `${f.maxConcurrentSessions} sessions at once`);
+  else if (f.maxConcurrentSessions === 2) add(10, "2 sessions at once");
+
+  if (f.sessionsPerHour > 4)
+    add(20, `${f.sessionsPerHour} sessions per listening hour`);
+  else if (f.sessionsPerHour > 2)
+    add(10, `${f.sessionsPerHour} sessions per listening hour`);
+
+  if (f.sharedIpAddresses >= 10)
+    add(25, `IP shared with ${f.sharedIpAddresses} other listeners`);
+  else if (f.sharedIpAddresses >= 4)
+    add(10, `IP shared with ${f.sharedIpAddresses} other listeners`);
+  if (f.sharedNetworkAddresses >= 25) {
+    add(10, `network shared with ${f.sharedNetworkAddresses} other listeners`);
+  }
+
+  if (f.listenThrough !== null) {
+    if (f.listenThrough < 0.25)
+      add(35, `heard ${Math.round(f.listenThrough * 100)}% of credited songs`);
+    else if (f.listenThrough < 0.4)
+      add(15, `heard ${Math.round(f.listenThrough * 100)}% of credited songs`);
+  }
+
+  score = Math.min(100, score);
+  const tier: RiskTier =
+    score >= RISK_THRESHOLDS.quarantine
+      ? "quarantine"
+      : score >= RISK_THRESHOLDS.review
+        ? "review"
+        : "clear";
+  return { score, tier, reasons };
+}
+
+/** How a record is applied. A missing record is a clean one. */
+export function riskStanding(
+  record: ListenerRiskRecord | null | undefined,
+): RiskStanding {
+  if (!record) return NO_STANDING;
+  if (record.review?.decision === "confirmed")
+    return { weight: 0, hold: false };
+  if (record.review?.decision === "cleared") return NO_STANDING;
+  if (record.tier === "quarantine") return { weight: 0, hold: true };
+  if (record.tier === "review") return { weight: REVIEW_WEIGHT, hold: false };
+  return NO_STANDING;
+}
+
+/** Whether an earlier admin decision still stands against a new score. */
+export function reviewStillApplies(
+  review: RiskReview | undefined,
+  score: number,
+): boolean {
+  return !!review && score < review.scoreAtReview + REVIEW_MARGIN;
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/** JSON array or JSONL, as exported by the admin "detail" action. Malformed lines are skipped. */
+export function parseHeartbeatLog(text: string): HeartbeatEvent[] {
+  const trimmed = text.trim();
+  const rows: unknown[] = trimmed.startsWith("[")
+    ? JSON.parse(trimmed)
+    : trimmed
+        .split("\n")
+        .filter((l) => l.trim())
+        .map((l) => {
+          try {
+            return JSON.parse(l);
+          } catch {
+            return null;
+          }
+        });
+  return rows.filter(
+    (r): r is HeartbeatEvent =>
+      !!r &&
+      typeof (r as HeartbeatEvent).address === "string" &&
+      Number.isFinite((r as HeartbeatEvent).at) &&
+      typeof (r as HeartbeatEvent).session === "string",
+  );
+}
+
+/**
+ * Score every address in a recorded log, as production would have at `now` (default: the last
+ * event). IP and network sharing is counted from the log itself, so a log holding only some
+ * addresses under-counts it.
+ */
+export function replayHeartbeatLog(
+  events: HeartbeatEvent[],
+  now: number = events.reduce((max, e) => Math.max(max, e.at), 0),
+): Record<string, RiskAssessment & { features: RiskFeatures }> {
+  const inWindow = events.filter(
+    (e) => e.at <= now && e.at > now - RISK_LIMITS.windowMs,
+  );
+
+  const byAddress = new Map<string, HeartbeatEvent[]>();
+  const onIp = new Map<string, Set<string>>();
+  const onNetwork = new Map<string, Set<string>>();
+  const join = (
+    map: Map<string, Set<string>>,
+    key: string | null,
+    address: string,
+  ) => {
+    if (!key) return;
+    map.set(key, (map.get(key) || new Set()).add(address));
+  };
+  for (const e of inWindow) {
+    const address = e.address.toLowerCase();
+    byAddress.set(address, (byAddress.get(address) || []).concat(e));
+    join(onIp, e.ip === "unknown" ? null : e.ip, address);
+    join(onNetwork, networkOf(e.ip), address);
+  }
+
+  const result: Record<string, RiskAssessment & { features: RiskFeatures }> =
+    {};
+  for (const address of [...byAddress.keys()].sort()) {
+    const own = byAddress.get(address)!;
+    const others = (map: Map<string, Set<string>>, keys: (string | null)[]) => {
+      const seen = new Set<string>();
+      for (const k of keys)
+        for (const a of (k && map.get(k)) || []) seen.add(a);
+      seen.delete(address);
+      return seen.size;
+    };
+    const features = extractRiskFeatures(own, {
+      ip: others(
+        onIp,
+        own.map((e) => e.ip),
+      ),
+      network: others(
+        onNetwork,
+        own.map((e) => networkOf(e.ip)),
+      ),
+    });
+    result[address] = { ...assessRisk(features), features };
+  }
+  return result;
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export type RiskRedis = Pick<
+  Redis,
+  | "rpush"
+  | "ltrim"
+  | "lrange"
+  | "expire"
+  | "zadd"
+  | "zcard"
+  | "zrem"
+  | "zrange"
+  | "zremrangebyscore"
+  | "hget"
+  | "hset"
+  | "hgetall"
+>;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** Append one heartbeat to the address's log and to its IP and network clusters. */
+export async function recordHeartbeat(
+  redis: RiskRedis,
+  event: HeartbeatEvent,
+): Promise<void> {
+  const key = RISK_KEYS.beats(event.address);
+  await redis.rpush(key, JSON.stringify(event));
+  await redis.ltrim(key, -RISK_LIMITS.maxEventsPerAddress, -1);
+  await redis.expire(key, RISK_LIMITS.eventTtlSeconds);
+
+  const network = networkOf(event.ip);
+  const clusters = [
+    event.ip === "unknown" ? null : RISK_KEYS.ip(event.ip),
+    network ? RISK_KEYS.network(network) : null,
+  ];
+  for (const cluster of clusters) {
+    if (!cluster) continue;
+    await redis.zadd(cluster, { score: event.at, member: event.address });
+    await redis.expire(cluster, RISK_LIMITS.eventTtlSeconds);
+  }
+}
+
+/** The address's heartbeats inside the scoring window, oldest first. */
+export async function loadHeartbeats(
+  redis: RiskRedis,
+  address: string,
+  now: number,
+): Promise<HeartbeatEvent[]> {
+  const raw = await redis.lrange(RISK_KEYS.beats(address), 0, -1);
+  return raw
+    .map((r) => parseMaybeJson<HeartbeatEvent>(r))
+    .filter(
+      (e): e is HeartbeatEvent => !!e && e.at > now - RISK_LIMITS.windowMs,
+    );
+}
+
+async function countOthers(
+  redis: RiskRedis,
+  keys: string[],
+  address: string,
+  since: number,
+) {
+  const seen = new Set<string>();
+  for (const key of keys) {
+    await redis.zremrangebyscore(key, 0, since);
+    for (const member of await redis.zrange<string[]>(key, 0, -1))
+      seen.add(member);
+  }
+  seen.delete(address);
+  return seen.size;
+}
+
+export async function getRiskRecord(
+  redis: Pick<Redis, "hget">,
+  address: string,
+): Promise<ListenerRiskRecord | null> {
+  return parseMaybeJson<ListenerRiskRecord>(
+    await redis.hget(RISK_KEYS.scores, address),
+  );
+}
+
+/** Re-score one address from its stored log and file it in, or out of, the review queue. */
+export async function rescoreListener(
+  redis: RiskRedis,
+  address: string,
+  now: number,
+): Promise<ListenerRiskRecord> {
+  const events = await loadHeartbeats(redis, address, now);
+  const since = now - RISK_LIMITS.windowMs;
+  // The few most recent IPs are enough; a log can hold hundreds of mobile addresses.
+  const ips = [...new Set(events.map((e) => e.ip).reverse())]
+    .filter((ip) => ip !== "unknown")
+    .slice(0, 5);
+  const networks = [...new Set(ips.map(networkOf))].filter(
+    (n): n is string => !!n,
+  );
+
+  const features = extractRiskFeatures(events, {
+    ip: await countOthers(redis, ips.map(RISK_KEYS.ip), address, since),
+    network: await countOthers(
+      redis,
+      networks.map(RISK_KEYS.network),
+      address,
+      since,
+    ),
+  });
+  const previous = await getRiskRecord(redis, address);
+  const assessment = assessRisk(features);
+  const record: ListenerRiskRecord = {
+    address,
+    ...assessment,
+    features,
+    scoredAt: now,
+    review: reviewStillApplies(previous?.review, assessment.score)
+      ? previous?.review
+      : undefined,
+  };
+
+  await redis.hset(RISK_KEYS.scores, { [address]: record });
+  if (record.tier !== "clear" && !record.review) {
+    await redis.zadd(RISK_KEYS.queue, { score: record.score, member: address });
+  } else {
+    await redis.zrem(RISK_KEYS.queue, address);
+  }
+  if (record.tier !== "clear" && previous?.tier !== record.tier) {
+    console.log(
+      `[ListenerRisk] ${address} scored ${record.score} (${record.tier}): ${record.reasons.join("; ")}`,
+    );
+  }
+  return record;
+}
+
+/** Re-score when the stored record is older than rescoreIntervalMs. Called from the heartbeat. */
+export async function maybeRescoreListener(
+  redis: RiskRedis,
+  address: string,
+  now: number,
+): Promise<void> {
+  const record = await getRiskRecord(redis, address);
+  if (record && now - record.scoredAt < RISK_LIMITS.rescoreIntervalMs) return;
+  await rescoreListener(redis, address, now);
+}
+
+/** Every address whose standing is not the default, keyed by address. */
+export async function loadRiskStandings(
+  redis: Pick<Redis, "hgetall">,
+): Promise<Record<string, RiskStanding>> {
+  const raw =
+    (await redis.hgetall<Record<string, unknown>>(RISK_KEYS.scores)) || {};
+  const standings: Record<string, RiskStanding> = {};
+  for (const [address, value] of Object.entries(raw)) {
+    const standing = riskStanding(parseMaybeJson<ListenerRiskRecord>(value));
+    if (standing !== NO_STANDING) standings[address] = standing;
+  }
+  return standings;
+}
+
+/** Addresses that must not have plays written on-chain. */
+export async function loadExcludedListeners(
+  redis: Pick<Redis, "hgetall">,
+): Promise<Set<string>> {
+  const standings = await loadRiskStandings(redis);
+  return new Set(
+    Object.keys(standings).filter((a) => standings[a].weight === 0),
+  );
+}
+
+/** Highest score first. */
+export async function loadReviewQueue(
+  redis: RiskRedis,
+  limit: number = 50,
+): Promise<ListenerRiskRecord[]> {
+  const addresses = await redis.zrange<string[]>(
+    RISK_KEYS.queue,
+    0,
+    limit - 1,
+    { rev: true },
+  );
+  const records: ListenerRiskRecord[] = [];
+  for (const address of addresses) {
+    const record = await getRiskRecord(redis, address);
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+/** File an admin decision and take the address out of the queue. */
+export async function recordRiskReview(
+  redis: RiskRedis,
+  address: string,
+  review: Omit<RiskReview, "scoreAtReview">,
+): Promise<ListenerRiskRecord | null> {
+  const record = await getRiskRecord(redis, address);
+  if (!record) return null;
+  record.review = { ...review, scoreAtReview: record.score };
+  await redis.hset(RISK_KEYS.scores, { [address]: record });
+  await redis.zrem(RISK_KEYS.queue, address);
+  return record;
+}
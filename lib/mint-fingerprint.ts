@@ -0,0 +1,127 @@
+import type { Redis } from "@upstash/redis";
+import {
+  FINGERPRINT_VERSION,
+  fingerprintAudio,
+  getFingerprint,
+  linkFingerprint,
+  loadFingerprintIndex,
+  metadataAudioCid,
+  recordFingerprintFlag,
+  saveFingerprint,
+  screenUpload,
+  type AudioFingerprint,
+  type UploadScreening,
+} from "@/lib/audio-fingerprint";
+
+/**
+ * The fingerprint check at mint time (lib/audio-fingerprint.ts).
+ *
+ * The upload route screens the file it pins, but a mint only names a metadata uri, and nothing
+ * makes that uri one the upload route produced. So the mint paths screen the full track the
+ * metadata points at: from the index when it was uploaded here, otherwise by fetching and
+ * fingerprinting it, which also indexes it. Once the mint lands, {@link linkMint} gives the record
+ * its tokenId, so the recording blocks the next upload of it straight away rather than after the
+ * next run of tools/build-fingerprint-index.ts.
+ */
+
+const PINATA_GATEWAY =
+  process.env.PINATA_GATEWAY || "harlequin-used-hare-224.mypinata.cloud";
+
+export interface MintScreening {
+  /** The full track's CID, or null when the metadata names none (art). */
+  cid: string | null;
+  /** Null when the audio could not be read or fingerprinted. */
+  screening: UploadScreening | null;
+}
+
+function gatewayUrl(uri: string): string {
+  const cid = uri.match(/(?:ipfs:\/\/|\/ipfs\/)(.+)$/)?.[1];
+  return cid ? `https://${PINATA_GATEWAY}/ipfs/${cid}` : uri;
+}
+
+async function readAudioCid(tokenURI: string): Promise<string | null> {
+  const metadata = await (await fetchOk(gatewayUrl(tokenURI), 15000)).json();
+  return metadataAudioCid(metadata ?? {});
+}
+
+async function fetchOk(url: string, timeoutMs: number): Promise<Response> {
+  const res = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+  if (!res.ok) throw new Error(`${url}: HTTP ${res.status}`);
+  return res;
+}
+
+/**
+ * Screens the recording `tokenURI` points at for `artist`. Throws when the metadata or the audio
+ * cannot be fetched; the caller decides whether that stops the mint.
+ */
+export async function screenMint(
+  redis: Redis,
+  tokenURI: string,
+  artist: string,
+): Promise<MintScreening> {
+  const cid = await readAudioCid(tokenURI);
+  if (!cid) return { cid: null, screening: null };
+
+  const indexed = await getFingerprint(redis, cid);
+  let fingerprint: AudioFingerprint | null =
+    indexed?.version === FINGERPRINT_VERSION ? indexed : null;
+  const fresh = !fingerprint;
+  if (!fingerprint) {
+    const audio = await fetchOk(`https://${PINATA_GATEWAY}/ipfs/${cid}`, 60000);
+    fingerprint = fingerprintAudio(new Uint8Array(await audio.arrayBuffer()));
+  }
+
+  const owner = artist.toLowerCase();
+  const at = Date.now();
+  if (!fingerprint) {
+    await recordFingerprintFlag(redis, {
+      verdict: "unscanned",
+      artist: owner,
+      cid,
+      uri: tokenURI,
+      reason: "Audio format cannot be fingerprinted (MP3 and WAV only)",
+      at,
+    });
+    return { cid, screening: null };
+  }
+
+  const screening = screenUpload(
+    fingerprint,
+    await loadFingerprintIndex(redis),
+    owner,
+  );
+  if (fresh && screening.verdict !== "block") {
+    await saveFingerprint(redis, {
+      ...fingerprint,
+      cid,
+      tokenId: null,
+      artist: owner,
+      uri: tokenURI,
+      indexedAt: at,
+    });
+    if (screening.verdict === "flag") {
+      await recordFingerprintFlag(redis, {
+        verdict: "flag",
+        artist: owner,
+        cid,
+        uri: tokenURI,
+        reason: screening.reason!,
+        ...(screening.match ? { match: screening.match } : {}),
+        at,
+      });
+    }
+  }
+  return { cid, screening };
+}
+
+/** Links the master minted from `tokenURI` to its recording's record; false if it has none. */
+export async function linkMint(
+  redis: Redis,
+  tokenURI: string,
+  tokenId: string,
+  artist: string,
+): Promise<boolean> {
+  const cid = await readAudioCid(tokenURI);
+  if (!cid) return false;
+  return linkFingerprint(redis, cid, { tokenId, artist, uri: tokenURI });
+}
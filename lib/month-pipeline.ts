@@ -0,0 +1,428 @@
+import type { Redis } from "@upstash/redis";
+import {
+  WaitForTransactionReceiptTimeoutError,
+  type Hex,
+  type PublicClient,
+} from "viem";
+
+/**
+ * Resumable keeper pipelines for month-end money movement.
+ *
+ * finalize-month and distribute-listener-rewards each send a chain of owner-signed
+ * transactions for one month. Any of them can die halfway — an RPC timeout while waiting
+ * for a receipt, a nonce collision, a batch that reverts — and before this the only way
+ * back was reading explorer history and finishing by hand.
+ *
+ * A pipeline is the persisted state of one flow for one month: an ordered list of steps,
+ * each with the hash of the transaction that carried it. Every run walks the list from
+ * the top and, for each step that is not yet confirmed:
+ *
+ *   1. If a transaction was sent last time, wait for its receipt. Mined → confirmed.
+ *      Still unknown → the pipeline is "stuck" and nothing further is sent, because a
+ *      replacement could mine alongside the original.
+ *   2. Ask the contract whether the step's effect is already there (`applied`). If so it is
+ *      confirmed without a transaction — this is what makes a step done by hand, or by a
+ *      run whose record was lost, safe to walk past.
+ *   3. Otherwise send, record the hash before waiting, then wait.
+ *
+ * `applied` may also throw a PipelineError to refuse outright. The distribution's fund step
+ * does this when the month is funded with a different amount, so no run ever funds twice.
+ *
+ * One lock covers every pipeline: both flows sign from the same owner EOA, and two runs
+ * sending at once is exactly the nonce collision this exists to recover from.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PipelineFlow = "finalize" | "distribute";
+
+export type StepState = "pending" | "sent" | "confirmed" | "failed";
+
+export interface StepRecord {
+  name: string;
+  state: StepState;
+  txHash?: Hex;
+  /** Hashes of earlier attempts that reverted or were released by an admin. */
+  previousTxHashes?: Hex[];
+  /** Confirmed by reading contract state rather than by a receipt of ours. */
+  detected?: boolean;
+  attempts: number;
+  error?: string;
+  updatedAt: number;
+}
+
+export type PipelineStatus = "running" | "stuck" | "failed" | "completed";
+
+export interface MonthPipeline {
+  flow: PipelineFlow;
+  monthId: number;
+  /** What the run is executing — the distribution report id. Fixed once set. */
+  ref?: string;
+  status: PipelineStatus;
+  steps: StepRecord[];
+  startedAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+  error?: string;
+}
+
+export interface PipelineStep {
+  name: string;
+  /** Reads contract state. True when the step's effect is already on-chain. */
+  applied?: () => Promise<boolean>;
+  /** Sends the step's transaction and returns its hash without waiting for it. */
+  send?: () => Promise<Hex>;
+  /** Off-chain work for steps with no transaction. Must be safe to repeat. */
+  run?: () => Promise<void>;
+}
+
+export interface PipelineChain {
+  /** The receipt's status, or null when it did not arrive within the wait. */
+  wait: (hash: Hex) => Promise<"success" | "reverted" | null>;
+}
+
+export class PipelineError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "PipelineError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const PIPELINE_KEYS = {
+  pipeline: (flow: PipelineFlow, monthId: number) =>
+    `keeper:pipeline:${flow}:${monthId}`,
+  /** `${flow}:${monthId}` scored by last update, for the admin status view. */
+  index: "keeper:pipelines",
+  lock: "keeper:pipeline-lock",
+} as const;
+
+/** Matches the keeper job's timeout; a run that outlives it has been killed. */
+export const PIPELINE_LOCK_SECONDS = 600;
+
+/** How long one run waits on a receipt before calling the step stuck. */
+export const RECEIPT_TIMEOUT_MS = 90_000;
+
+// ============================================================================
+// STATE
+// ============================================================================
+
+export type PipelineRedis = Pick<
+  Redis,
+  "get" | "set" | "del" | "zadd" | "zrange"
+>;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getPipeline(
+  redis: Pick<Redis, "get">,
+  flow: PipelineFlow,
+  monthId: number,
+): Promise<MonthPipeline | null> {
+  return parseMaybeJson<MonthPipeline>(
+    await redis.get(PIPELINE_KEYS.pipeline(flow, monthId)),
+  );
+}
+
+export async function savePipeline(
+  redis: Pick<Redis, "set" | "zadd">,
+  pipeline: MonthPipeline,
+): Promise<void> {
+  await redis.set(
+    PIPELINE_KEYS.pipeline(pipeline.flow, pipeline.monthId),
+    JSON.stringify(pipeline),
+  );
+  await redis.zadd(PIPELINE_KEYS.index, {
+    score: pipeline.updatedAt,
+    member: `${pipeline.flow}:${pipeline.monthId}`,
+  });
+}
+
+/** Most recently updated pipelines first. */
+export async function listPipelines(
+  redis: Pick<Redis, "get" | "zrange">,
+  limit: number = 24,
+): Promise<MonthPipeline[]> {
+  const members = await redis.zrange<string[]>(
+    PIPELINE_KEYS.index,
+    0,
+    limit - 1,
+    { rev: true },
+  );
+  const pipelines: MonthPipeline[] = [];
+  for (const member of members) {
+    const [flow, monthId] = String(member).split(":");
+    const pipeline = await getPipeline(
+      redis,
+      flow as PipelineFlow,
+      Number(monthId),
+    );
+    if (pipeline) pipelines.push(pipeline);
+  }
+  return pipelines;
+}
+
+/** Step name → hash of the transaction that carried it. Detected steps have none. */
+export function pipelineTransactions(
+  pipeline: MonthPipeline,
+): Record<string, Hex> {
+  const transactions: Record<string, Hex> = {};
+  for (const step of pipeline.steps) {
+    if (step.txHash) transactions[step.name] = step.txHash;
+  }
+  return transactions;
+}
+
+export function isStepConfirmed(
+  pipeline: MonthPipeline | null,
+  name: string,
+): boolean {
+  return !!pipeline?.steps.find(
+    (s) => s.name === name && s.state === "confirmed",
+  );
+}
+
+/**
+ * Let a stuck step send again. Only for a transaction an admin has confirmed was
+ * dropped — if it is merely slow, both it and the replacement can land.
+ */
+export function releaseStep(
+  pipeline: MonthPipeline,
+  name: string,
+  now: number,
+): MonthPipeline {
+  const step = pipeline.steps.find((s) => s.name === name);
+  if (!step) throw new PipelineError(`No step "${name}"`, 404);
+  if (step.state !== "sent" || !step.txHash) {
+    throw new PipelineError(`Step "${name}" is ${step.state}, not sent`);
+  }
+  step.previousTxHashes = [...(step.previousTxHashes || []), step.txHash];
+  step.txHash = undefined;
+  step.state = "failed";
+  step.error = "Released by admin";
+  step.updatedAt = now;
+  pipeline.status = "failed";
+  pipeline.updatedAt = now;
+  return pipeline;
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+/** A PipelineChain over viem: a timeout is "no receipt yet", anything else is an error. */
+export function receiptChain(
+  client: Pick<PublicClient, "waitForTransactionReceipt">,
+  timeout: number = RECEIPT_TIMEOUT_MS,
+): PipelineChain {
+  return {
+    wait: async (hash) => {
+      try {
+        return (await client.waitForTransactionReceipt({ hash, timeout }))
+          .status;
+      } catch (error) {
+        if (error instanceof WaitForTransactionReceiptTimeoutError) return null;
+        throw error;
+      }
+    },
+  };
+}
+
+async function acquireLock(redis: PipelineRedis, token: string) {
+  const locked = await redis.set(PIPELINE_KEYS.lock, token, {
+    nx: true,
+    ex: PIPELINE_LOCK_SECONDS,
+  });
+  if (!locked) {
+    throw new PipelineError("Another keeper run is sending transactions");
+  }
+}
+
+async function releaseLock(redis: PipelineRedis, token: string) {
+  if ((await redis.get(PIPELINE_KEYS.lock)) === token) {
+    await redis.del(PIPELINE_KEYS.lock);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  const e = error as { shortMessage?: string; message?: string };
+  return e?.shortMessage || e?.message || String(error);
+}
+
+/**
+ * Run (or resume) one flow for one month. Returns the pipeline as persisted — its status
+ * says whether every step is confirmed. Throws a PipelineError only before anything is
+ * touched: the lock is held, or the month already belongs to a different `ref`.
+ */
+export async function runPipeline(
+  redis: PipelineRedis,
+  key: { flow: PipelineFlow; monthId: number; ref?: string },
+  steps: PipelineStep[],
+  chain: PipelineChain,
+  clock: () => number = Date.now,
+): Promise<MonthPipeline> {
+  const token = `${key.flow}:${key.monthId}:${clock()}:${Math.random()}`;
+  await acquireLock(redis, token);
+
+  try {
+    const now = clock();
+    const existing = await getPipeline(redis, key.flow, key.monthId);
+    if (existing?.ref && key.ref && existing.ref !== key.ref) {
+      throw new PipelineError(
+        `Month ${key.monthId} is already running ${existing.ref}, not ${key.ref}`,
+      );
+    }
+
+    const pipeline: MonthPipeline = existing || {
+      flow: key.flow,
+      monthId: key.monthId,
+      ref: key.ref,
+      status: "running",
+      steps: [],
+      startedAt: now,
+      updatedAt: now,
+    };
+    // A record started without a ref (an older run, or a flow that named none) takes it now
+    if (key.ref && !pipeline.ref) pipeline.ref = key.ref;
+    // Steps are derived from fixed inputs, so a resumed run asks for the same list; any
+    // new names are appended rather than reordering what already ran.
+    for (const step of steps) {
+      if (!pipeline.steps.some((s) => s.name === step.name)) {
+        pipeline.steps.push({
+          name: step.name,
+          state: "pending",
+          attempts: 0,
+          updatedAt: now,
+        });
+      }
+    }
+    if (
+      pipeline.status === "completed" &&
+      pipeline.steps.every((s) => s.state === "confirmed")
+    ) {
+      return pipeline;
+    }
+    pipeline.status = "running";
+    pipeline.error = undefined;
+
+    const save = async () => {
+      pipeline.updatedAt = clock();
+      await savePipeline(redis, pipeline);
+    };
+    const halt = async (
+      record: StepRecord,
+      status: "stuck" | "failed",
+      error: string,
+    ) => {
+      record.error = error;
+      record.updatedAt = clock();
+      pipeline.status = status;
+      pipeline.error = `${record.name}: ${error}`;
+      await save();
+      return pipeline;
+    };
+    await save();
+
+    for (const step of steps) {
+      const record = pipeline.steps.find((s) => s.name === step.name)!;
+      if (record.state === "confirmed") continue;
+
+      const confirm = async (detected: boolean) => {
+        record.state = "confirmed";
+        record.detected = detected || undefined;
+        record.error = undefined;
+        record.updatedAt = clock();
+        await save();
+      };
+
+      try {
+        if (record.state === "sent" && record.txHash) {
+          const outcome = await chain.wait(record.txHash);
+          if (outcome === "success") {
+            await confirm(false);
+            continue;
+          }
+          if (outcome === null) {
+            if (step.applied && (await step.applied())) {
+              await confirm(true);
+              continue;
+            }
+            return halt(
+              record,
+              "stuck",
+              `Transaction ${record.txHash} has no receipt yet; not sending a replacement`,
+            );
+          }
+          record.previousTxHashes = [
+            ...(record.previousTxHashes || []),
+            record.txHash,
+          ];
+          record.txHash = undefined;
+          record.state = "failed";
+        }
+
+        if (step.applied && (await step.applied())) {
+          await confirm(true);
+          continue;
+        }
+
+        record.attempts++;
+        if (!step.send) {
+          await step.run?.();
+          await confirm(false);
+          continue;
+        }
+
+        const hash = await step.send();
+        record.state = "sent";
+        record.txHash = hash;
+        record.updatedAt = clock();
+        await save();
+
+        const outcome = await chain.wait(hash);
+        if (outcome === "success") {
+          await confirm(false);
+          continue;
+        }
+        if (outcome === null) {
+          return halt(
+            record,
+            "stuck",
+            `Transaction ${hash} has no receipt yet; not sending a replacement`,
+          );
+        }
+        record.previousTxHashes = [...(record.previousTxHashes || []), hash];
+        record.txHash = undefined;
+        record.state = "failed";
+        return halt(record, "failed", `Transaction ${hash} reverted`);
+      } catch (error) {
+        // A send that threw never produced a hash, so the step is safe to retry.
+        if (record.state !== "sent") record.state = "failed";
+        return halt(record, "failed", errorMessage(error));
+      }
+    }
+
+    pipeline.status = "completed";
+    pipeline.finishedAt = clock();
+    await save();
+    return pipeline;
+  } finally {
+    await releaseLock(redis, token);
+  }
+}
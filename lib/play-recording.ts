@@ -59,13 +59,15 @@ export async function recordPlay(
 /**
  * Record plays for all active radio listeners.
  * Checks subscription status before recording.
+ * Addresses in `excluded` (quarantined by lib/listener-risk) are skipped.
  */
 export async function recordPlaysForListeners(
   redis: Redis,
   tokenId: string,
   duration: number,
   activeListenersKey: string,
-  heartbeatExpiry: number
+  heartbeatExpiry: number,
+  excluded: ReadonlySet<string> = new Set()
 ): Promise<{ recorded: number; total: number }> {
   if (!PLAY_ORACLE_ADDRESS || !ORACLE_PRIVATE_KEY) {
     console.log('[PlayRecording] Skipping batch: missing PLAY_ORACLE or DEPLOYER_PRIVATE_KEY');
@@ -102,6 +104,7 @@ export async function recordPlaysForListeners(
 
     let recorded = 0;
     for (const listener of listeners) {
+      if (excluded.has(listener)) continue;
       try {
         if (subscription) {
           const hasSub = await subscription.hasActiveSubscription(listener);
@@ -0,0 +1,526 @@
+import { randomBytes } from "crypto";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Personal playlists: named, ordered lists of masters that belong to a Farcaster user.
+ *
+ * ## Ownership and sharing
+ *
+ * A playlist has one owner (a FID) and up to {@link MAX_EDITORS} editors. The owner and editors
+ * can add, remove and reorder tracks; only the owner renames it, changes who may edit, changes
+ * its visibility or deletes it. Visibility is one of:
+ *
+ *   - `private` — the owner and editors only;
+ *   - `link` — anyone holding the share link (`/playlist/[id]`); ids are random, so it is not
+ *     listed anywhere;
+ *   - `public` — as `link`, and also listed on the owner's profile.
+ *
+ * ## Editing and versions
+ *
+ * Every change bumps `version`. Edits are sent as a batch of operations against the version the
+ * client last saw ({@link applyEdit}). Operations name tracks by tokenId rather than by position
+ * — a track appears at most once — so an edit made against an older version can still be applied
+ * on top of someone else's: an insert of a track already there is skipped, a remove or move of a
+ * track that has gone is skipped, and positions are clamped to the list as it now is. A `reorder`
+ * replaces the whole order and so only applies to the current version; against an older one the
+ * edit is refused with 409 and the client reloads. Writes to one playlist are serialised by a
+ * short lock ({@link withPlaylistLock}), so two edits never read the same version and both save.
+ *
+ * Tracks carry the metadata needed to play them (audio and cover URLs), captured when added, so
+ * a playlist can be queued to Live Radio or a venue without another catalogue lookup. Rights
+ * clearance is checked when it is queued, not when a track is added.
+ *
+ * Imports nothing from the project at runtime; `tools/verify-playlists.ts` runs it under node.
+ */
+
+export const MAX_PLAYLISTS_PER_OWNER = 50;
+export const MAX_TRACKS = 500;
+export const MAX_EDITORS = 20;
+export const MAX_OPS_PER_EDIT = 100;
+const MAX_NAME_LENGTH = 80;
+const MAX_DESCRIPTION_LENGTH = 500;
+/** How long one write may hold a playlist. */
+const LOCK_SECONDS = 5;
+
+export const PLAYLIST_VISIBILITIES = ["private", "link", "public"] as const;
+export type PlaylistVisibility = (typeof PLAYLIST_VISIBILITIES)[number];
+
+export const PLAYLIST_KEYS = {
+  playlist: (id: string) => `playlist:${id}`,
+  /** Set of playlist ids a FID owns. */
+  byOwner: (fid: number) => `playlist:owner:${fid}`,
+  /** Set of playlist ids a FID may edit without owning. */
+  byEditor: (fid: number) => `playlist:editor:${fid}`,
+  lock: (id: string) => `playlist:lock:${id}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PlaylistTrack {
+  tokenId: string;
+  name: string;
+  artist: string;
+  artistUsername?: string;
+  audioUrl: string;
+  imageUrl: string;
+  addedBy: number;
+  addedAt: number;
+}
+
+export interface Playlist {
+  id: string;
+  ownerFid: number;
+  name: string;
+  description: string;
+  visibility: PlaylistVisibility;
+  editors: number[];
+  tracks: PlaylistTrack[];
+  version: number;
+  createdAt: number;
+  updatedAt: number;
+  updatedBy: number;
+}
+
+export type PlaylistOp =
+  | {
+      op: "insert";
+      track: Omit<PlaylistTrack, "addedBy" | "addedAt">;
+      index?: number;
+    }
+  | { op: "remove"; tokenId: string }
+  | { op: "move"; tokenId: string; index: number }
+  | { op: "reorder"; order: string[] };
+
+export interface EditResult {
+  applied: number;
+  /** Operations that no longer made sense against the current version, with why. */
+  skipped: { index: number; reason: string }[];
+  /** True when the edit was made against an older version. */
+  rebased: boolean;
+}
+
+export interface PlaylistSummary {
+  id: string;
+  ownerFid: number;
+  name: string;
+  visibility: PlaylistVisibility;
+  collaborative: boolean;
+  trackCount: number;
+  coverImage: string;
+  version: number;
+  updatedAt: number;
+}
+
+export class PlaylistError extends Error {
+  readonly status: number;
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = "PlaylistError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+export function isEditor(p: Playlist, fid: number | null): boolean {
+  return !!fid && (p.ownerFid === fid || p.editors.includes(fid));
+}
+
+export function canView(p: Playlist, fid: number | null): boolean {
+  return p.visibility !== "private" || isEditor(p, fid);
+}
+
+export function summarize(p: Playlist): PlaylistSummary {
+  return {
+    id: p.id,
+    ownerFid: p.ownerFid,
+    name: p.name,
+    visibility: p.visibility,
+    collaborative: p.editors.length > 0,
+    trackCount: p.tracks.length,
+    coverImage: p.tracks.find((t) => t.imageUrl)?.imageUrl || "",
+    version: p.version,
+    updatedAt: p.updatedAt,
+  };
+}
+
+// ============================================================================
+// CREATE AND UPDATE
+// ============================================================================
+
+export function newPlaylistId(): string {
+  return `pl_${randomBytes(8).toString("hex")}`;
+}
+
+function tidy(value: unknown, max: number): string {
+  return String(value ?? "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, max);
+}
+
+export function createPlaylist(
+  id: string,
+  ownerFid: number,
+  input: { name?: unknown; description?: unknown; visibility?: unknown },
+  at: number,
+): Playlist {
+  const playlist: Playlist = {
+    id,
+    ownerFid,
+    name: "My Playlist",
+    description: "",
+    visibility: "private",
+    editors: [],
+    tracks: [],
+    version: 1,
+    createdAt: at,
+    updatedAt: at,
+    updatedBy: ownerFid,
+  };
+  applyDetails(playlist, input);
+  return playlist;
+}
+
+/** Rename, describe or change visibility. Owner only; the route checks. Mutates `p`. */
+export function updatePlaylist(
+  p: Playlist,
+  input: { name?: unknown; description?: unknown; visibility?: unknown },
+  by: number,
+  at: number,
+): void {
+  applyDetails(p, input);
+  p.version++;
+  p.updatedAt = at;
+  p.updatedBy = by;
+}
+
+function applyDetails(
+  p: Playlist,
+  input: { name?: unknown; description?: unknown; visibility?: unknown },
+): void {
+  if (input.name !== undefined) {
+    const name = tidy(input.name, MAX_NAME_LENGTH);
+    if (!name) throw new PlaylistError("Playlist name cannot be empty");
+    p.name = name;
+  }
+  if (input.description !== undefined) {
+    p.description = String(input.description ?? "")
+      .trim()
+      .slice(0, MAX_DESCRIPTION_LENGTH);
+  }
+  if (input.visibility !== undefined) {
+    if (
+      !PLAYLIST_VISIBILITIES.includes(input.visibility as PlaylistVisibility)
+    ) {
+      throw new PlaylistError("visibility must be private, link or public");
+    }
+    p.visibility = input.visibility as PlaylistVisibility;
+  }
+}
+
+/** Replace the editor list. Returns who was added and removed, for the editor index. */
+export function setEditors(
+  p: Playlist,
+  raw: unknown,
+  at: number,
+): { added: number[]; removed: number[] } {
+  if (!Array.isArray(raw))
+    throw new PlaylistError("editors must be a list of FIDs");
+  const editors: number[] = [];
+  for (const value of raw) {
+    const fid = Number(value);
+    if (!Number.isInteger(fid) || fid <= 0) {
+      throw new PlaylistError(`Not a FID: ${String(value).slice(0, 20)}`);
+    }
+    if (fid !== p.ownerFid && !editors.includes(fid)) editors.push(fid);
+  }
+  if (editors.length > MAX_EDITORS) {
+    throw new PlaylistError(`At most ${MAX_EDITORS} editors per playlist`);
+  }
+
+  const added = editors.filter((f) => !p.editors.includes(f));
+  const removed = p.editors.filter((f) => !editors.includes(f));
+  p.editors = editors;
+  p.version++;
+  p.updatedAt = at;
+  p.updatedBy = p.ownerFid;
+  return { added, removed };
+}
+
+// ============================================================================
+// EDITS
+// ============================================================================
+
+const TOKEN_ID = /^\d{1,20}$/;
+
+function parseTrack(raw: any): Omit<PlaylistTrack, "addedBy" | "addedAt"> {
+  const tokenId = String(raw?.tokenId ?? "");
+  if (!TOKEN_ID.test(tokenId))
+    throw new PlaylistError("track.tokenId is required");
+  const audioUrl = String(raw?.audioUrl ?? "").trim();
+  if (!/^(https:\/\/|ipfs:\/\/)\S+$/.test(audioUrl)) {
+    throw new PlaylistError(`track ${tokenId} needs an https or ipfs audioUrl`);
+  }
+  const imageUrl = String(raw?.imageUrl ?? "").trim();
+  const track: Omit<PlaylistTrack, "addedBy" | "addedAt"> = {
+    tokenId,
+    name: tidy(raw?.name, 200) || `Song #${tokenId}`,
+    artist: tidy(raw?.artist, 200) || "Unknown Artist",
+    audioUrl,
+    imageUrl: /^(https:\/\/|ipfs:\/\/)\S+$/.test(imageUrl) ? imageUrl : "",
+  };
+  const username = tidy(raw?.artistUsername, 64);
+  if (username) track.artistUsername = username;
+  return track;
+}
+
+/** Validate a batch of operations from a client. */
+export function parsePlaylistOps(raw: unknown): PlaylistOp[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new PlaylistError("ops must be a non-empty list");
+  }
+  if (raw.length > MAX_OPS_PER_EDIT) {
+    throw new PlaylistError(`At most ${MAX_OPS_PER_EDIT} operations per edit`);
+  }
+  return raw.map((op: any, i): PlaylistOp => {
+    const index =
+      op?.index === undefined || op?.index === null
+        ? undefined
+        : Number(op.index);
+    if (index !== undefined && (!Number.isInteger(index) || index < 0)) {
+      throw new PlaylistError(`ops[${i}].index must be a whole number`);
+    }
+    switch (op?.op) {
+      case "insert":
+        return { op: "insert", track: parseTrack(op.track), index };
+      case "remove":
+      case "move": {
+        const tokenId = String(op.tokenId ?? "");
+        if (!TOKEN_ID.test(tokenId)) {
+          throw new PlaylistError(`ops[${i}].tokenId is required`);
+        }
+        if (op.op === "remove") return { op: "remove", tokenId };
+        if (index === undefined)
+          throw new PlaylistError(`ops[${i}].index is required`);
+        return { op: "move", tokenId, index };
+      }
+      case "reorder": {
+        if (
+          !Array.isArray(op.order) ||
+          !op.order.every((t: unknown) => TOKEN_ID.test(String(t)))
+        ) {
+          throw new PlaylistError(`ops[${i}].order must be a list of tokenIds`);
+        }
+        return { op: "reorder", order: op.order.map(String) };
+      }
+      default:
+        throw new PlaylistError(
+          `ops[${i}].op must be insert, remove, move or reorder`,
+        );
+    }
+  });
+}
+
+/**
+ * Apply a batch of operations made against `baseVersion`. All or nothing: an operation that is
+ * invalid (rather than merely stale) refuses the whole batch and leaves `p` untouched. Mutates
+ * `p` on success; the version moves on only if something changed.
+ */
+export function applyEdit(
+  p: Playlist,
+  edit: { baseVersion: number; ops: PlaylistOp[]; by: number; at: number },
+): EditResult {
+  if (!Number.isInteger(edit.baseVersion) || edit.baseVersion < 1) {
+    throw new PlaylistError("baseVersion is required");
+  }
+  if (edit.baseVersion > p.version) {
+    throw new PlaylistError(
+      `Playlist is at version ${p.version}, not ${edit.baseVersion}`,
+    );
+  }
+  const rebased = edit.baseVersion < p.version;
+  const tracks = [...p.tracks];
+  const result: EditResult = { applied: 0, skipped: [], rebased };
+  const at = (tokenId: string) =>
+    tracks.findIndex((t) => t.tokenId === tokenId);
+  const clamp = (index: number | undefined, length: number) =>
+    index === undefined ? length : Math.min(index, length);
+
+  edit.ops.forEach((op, i) => {
+    if (op.op === "insert") {
+      if (at(op.track.tokenId) >= 0) {
+        result.skipped.push({
+          index: i,
+          reason: `${op.track.tokenId} is already in the playlist`,
+        });
+        return;
+      }
+      if (tracks.length >= MAX_TRACKS) {
+        throw new PlaylistError(
+          `A playlist holds at most ${MAX_TRACKS} tracks`,
+          409,
+        );
+      }
+      tracks.splice(clamp(op.index, tracks.length), 0, {
+        ...op.track,
+        addedBy: edit.by,
+        addedAt: edit.at,
+      });
+    } else if (op.op === "remove" || op.op === "move") {
+      const from = at(op.tokenId);
+      if (from < 0) {
+        result.skipped.push({
+          index: i,
+          reason: `${op.tokenId} is no longer in the playlist`,
+        });
+        return;
+      }
+      const [track] = tracks.splice(from, 1);
+      if (op.op === "move")
+        tracks.splice(clamp(op.index, tracks.length), 0, track);
+    } else {
+      if (rebased) {
+        throw new PlaylistError(
+          `Playlist changed since version ${edit.baseVersion}; reload it and reorder again`,
+          409,
+        );
+      }
+      const current = tracks.map((t) => t.tokenId);
+      if (
+        op.order.length !== current.length ||
+        new Set(op.order).size !== op.order.length ||
+        !op.order.every((id) => current.includes(id))
+      ) {
+        throw new PlaylistError(
+          "reorder must list every track in the playlist exactly once",
+        );
+      }
+      const byId = new Map(tracks.map((t) => [t.tokenId, t]));
+      tracks.splice(0, tracks.length, ...op.order.map((id) => byId.get(id)!));
+    }
+    result.applied++;
+  });
+
+  const changed =
+    tracks.length !== p.tracks.length ||
+    tracks.some((t, i) => t !== p.tracks[i]);
+  if (changed) {
+    p.tracks = tracks;
+    p.version++;
+    p.updatedAt = edit.at;
+    p.updatedBy = edit.by;
+  }
+  return result;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getPlaylist(
+  redis: Pick<Redis, "get">,
+  id: string,
+): Promise<Playlist | null> {
+  if (!/^pl_[0-9a-f]{16}$/.test(id)) return null;
+  return parseMaybeJson<Playlist>(await redis.get(PLAYLIST_KEYS.playlist(id)));
+}
+
+export async function getPlaylists(
+  redis: Pick<Redis, "get">,
+  ids: string[],
+): Promise<Playlist[]> {
+  const playlists = await Promise.all(ids.map((id) => getPlaylist(redis, id)));
+  return playlists
+    .filter((p): p is Playlist => p !== null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function listOwnedPlaylists(
+  redis: Pick<Redis, "get" | "smembers">,
+  fid: number,
+): Promise<Playlist[]> {
+  return getPlaylists(redis, await redis.smembers(PLAYLIST_KEYS.byOwner(fid)));
+}
+
+export async function listSharedPlaylists(
+  redis: Pick<Redis, "get" | "smembers">,
+  fid: number,
+): Promise<Playlist[]> {
+  const playlists = await getPlaylists(
+    redis,
+    await redis.smembers(PLAYLIST_KEYS.byEditor(fid)),
+  );
+  // The index can outlive an editor's removal by one failed write; the record decides.
+  return playlists.filter((p) => p.editors.includes(fid));
+}
+
+export async function savePlaylist(
+  redis: Pick<Redis, "set" | "sadd">,
+  p: Playlist,
+): Promise<void> {
+  await redis.set(PLAYLIST_KEYS.playlist(p.id), JSON.stringify(p));
+  await redis.sadd(PLAYLIST_KEYS.byOwner(p.ownerFid), p.id);
+}
+
+export async function updateEditorIndex(
+  redis: Pick<Redis, "sadd" | "srem">,
+  id: string,
+  change: { added: number[]; removed: number[] },
+): Promise<void> {
+  await Promise.all([
+    ...change.added.map((fid) => redis.sadd(PLAYLIST_KEYS.byEditor(fid), id)),
+    ...change.removed.map((fid) => redis.srem(PLAYLIST_KEYS.byEditor(fid), id)),
+  ]);
+}
+
+export async function deletePlaylist(
+  redis: Pick<Redis, "del" | "srem">,
+  p: Playlist,
+): Promise<void> {
+  await redis.del(PLAYLIST_KEYS.playlist(p.id));
+  await redis.srem(PLAYLIST_KEYS.byOwner(p.ownerFid), p.id);
+  await Promise.all(
+    p.editors.map((fid) => redis.srem(PLAYLIST_KEYS.byEditor(fid), p.id)),
+  );
+}
+
+/**
+ * Run `fn` holding the playlist's write lock. A write that finds it held gets a 409 and retries;
+ * the lock expires on its own if a request dies holding it.
+ */
+export async function withPlaylistLock<T>(
+  redis: Pick<Redis, "set" | "del">,
+  id: string,
+  fn: () => Promise<T>,
+): Promise<T> {
+  const locked = await redis.set(PLAYLIST_KEYS.lock(id), "1", {
+    nx: true,
+    ex: LOCK_SECONDS,
+  });
+  if (locked !== "OK") {
+    throw new PlaylistError(
+      "Playlist is being saved by someone else; try again",
+      409,
+    );
+  }
+  try {
+    return await fn();
+  } finally {
+    await redis.del(PLAYLIST_KEYS.lock(id));
+  }
+}
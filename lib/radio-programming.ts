@@ -0,0 +1,680 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Live Radio programming engine.
+ *
+ * The scheduler used to know two things: play the queued song, else pick uniformly at random
+ * from the Envio pool. That is fine for a jukebox and useless for a station — the same artist
+ * three times in an hour, a ballad at 1am on a Friday, and no way for the team to push new
+ * releases without a deploy.
+ *
+ * This module decides what the radio plays when nobody has paid to choose. It is driven by a
+ * declarative rules object stored in Redis as a named preset, so switching to a "Friday night"
+ * programme is an admin call, not a release:
+ *
+ *   - **separation** — minimum minutes between two plays of the same artist / the same track
+ *   - **no-repeat horizon** — a track in the last N entries of `live-radio:play-history` is out
+ *   - **dayparts** — genre/mood windows by weekday and hour, evaluated at a fixed UTC offset
+ *   - **rotation tiers** — weighted buckets (new releases, heavy rotation, deep cuts); a tier is
+ *     chosen by weight first, then a track uniformly within it
+ *   - **taste bias** — optionally, the track inside the tier leans towards what the people
+ *     listening right now like (lib/recommendations.ts)
+ *
+ * ## Rules bend before the radio goes silent
+ *
+ * A small catalogue cannot satisfy every rule at every hour, and dead air is worse than a
+ * repeat. When nothing passes, constraints are dropped one at a time in RELAXATION_ORDER and
+ * the decision records which ones were relaxed. Track separation is dropped last: a consecutive
+ * repeat lands inside MusicSubscriptionV5's 300s REPLAY_COOLDOWN and records no play at all, so
+ * it costs the artist money rather than just sounding poor.
+ *
+ * ## Why this file imports nothing from the project
+ *
+ * Same reason as `lib/envio-health.ts`: it is exercised directly by
+ * `tools/verify-radio-programming.ts` under plain node against a fake Redis and a fixed
+ * catalogue. Randomness and the clock are parameters for the same reason.
+ */
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const PROGRAMMING_KEYS = {
+  /** Name of the preset the scheduler is currently running. */
+  active: "live-radio:programming:active",
+  /** Hash: preset name -> ProgrammingRules. */
+  presets: "live-radio:programming:presets",
+  /** Hash: tokenId -> TrackTags. Envio has no genre or mood, so curators tag tracks here. */
+  trackTags: "live-radio:programming:track-tags",
+} as const;
+
+/**
+ * Must match the scheduler and app/api/live-radio/route.ts — both write this list. This is
+ * the main station's history; other stations keep their own (see lib/radio-stations.ts).
+ */
+export const PLAY_HISTORY_KEY = "live-radio:play-history";
+
+/** The scheduler trims play history to this many entries, which bounds the no-repeat horizon. */
+export const PLAY_HISTORY_LIMIT = 100;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A track the engine can choose. Callers map their own song shape onto this. */
+export interface ProgrammingTrack {
+  tokenId: string;
+  artist: string;
+  /** Wallet address where known. Separation compares on this before `artist`. */
+  artistAddress?: string;
+  /** Milliseconds since epoch. Only needed for `mintedWithinDays` tiers. */
+  mintedAt?: number;
+}
+
+export interface TrackTags {
+  genres?: string[];
+  moods?: string[];
+  /** Read by venue zone dayparts (lib/venue-zones.ts); radio ignores it. */
+  energy?: "low" | "medium" | "high";
+}
+
+/** The fields of a `live-radio:play-history` entry the engine reads. */
+export interface PlayHistoryEntry {
+  tokenId: string;
+  artist?: string;
+  artistAddress?: string;
+  playedAt: number;
+}
+
+export interface Daypart {
+  name: string;
+  /** 0 = Sunday. Omitted means every day. For a window that wraps midnight, the day it starts. */
+  days?: number[];
+  /** Inclusive, 0-23. */
+  startHour: number;
+  /** Exclusive, 1-24. Less than or equal to startHour means the window wraps past midnight. */
+  endHour: number;
+  /** A track matches when it carries any listed genre. Omitted means any genre. */
+  genres?: string[];
+  /** A track matches when it carries any listed mood. Omitted means any mood. */
+  moods?: string[];
+  /** Per-tier weight overrides while this daypart is active. */
+  tierWeights?: Record<string, number>;
+}
+
+export interface RotationTier {
+  id: string;
+  weight: number;
+  /** Curated membership, e.g. heavy rotation. */
+  tokenIds?: string[];
+  /** Minted within this many days, e.g. new releases. */
+  mintedWithinDays?: number;
+}
+
+export interface ProgrammingRules {
+  name: string;
+  separation: {
+    artistMinutes: number;
+    trackMinutes: number;
+  };
+  /** A track in the last N history entries is not picked. Capped by PLAY_HISTORY_LIMIT. */
+  noRepeatTracks: number;
+  /** Dayparts are evaluated at this offset from UTC, so "Friday 22:00" means local Friday. */
+  utcOffsetMinutes: number;
+  dayparts: Daypart[];
+  /**
+   * Checked in order; a track belongs to the first tier it matches. A tier with neither
+   * `tokenIds` nor `mintedWithinDays` matches everything, so put the catch-all last. Without
+   * one, tracks that match no tier are only played when no weighted tier has a candidate.
+   */
+  tiers: RotationTier[];
+  /**
+   * 0-1. Above 0, the track drawn inside a tier leans towards what the current listeners like
+   * (lib/recommendations.ts): at 1 a perfect match is TASTE_BIAS_SCALE + 1 times as likely as a
+   * track nobody listening has shown interest in. Absent or 0 keeps the draw uniform.
+   */
+  tasteBias?: number;
+}
+
+/** How far a tasteBias of 1 tilts the draw. See ProgrammingRules.tasteBias. */
+export const TASTE_BIAS_SCALE = 4;
+
+export type ProgrammingConstraint =
+  | "no_repeat"
+  | "artist_separation"
+  | "daypart"
+  | "track_separation";
+
+/** Dropped in this order when nothing in the catalogue satisfies every rule. */
+export const RELAXATION_ORDER: readonly ProgrammingConstraint[] = [
+  "no_repeat",
+  "artist_separation",
+  "daypart",
+  "track_separation",
+];
+
+export interface ProgrammingDecision<T extends ProgrammingTrack = ProgrammingTrack> {
+  track: T;
+  /** Tier the track was drawn from, or null when it matched none. */
+  tier: string | null;
+  daypart: string | null;
+  relaxed: ProgrammingConstraint[];
+  candidates: number;
+}
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+/**
+ * What runs when no preset is active. Track separation of 10 minutes keeps a repeat clear of
+ * the 300s replay cooldown with margin; the tiers reproduce roughly what the uniform picker did,
+ * with a nudge towards anything minted in the last fortnight.
+ */
+export const DEFAULT_PROGRAMMING_RULES: ProgrammingRules = {
+  name: "default",
+  separation: { artistMinutes: 20, trackMinutes: 10 },
+  noRepeatTracks: 10,
+  utcOffsetMinutes: 0,
+  dayparts: [],
+  tiers: [
+    { id: "new_releases", weight: 2, mintedWithinDays: 14 },
+    { id: "deep_cuts", weight: 1 },
+  ],
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+const PRESET_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,47}$/;
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isStringArray(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((s) => typeof s === "string");
+}
+
+/**
+ * Validate rules submitted through the admin route.
+ *
+ * Every error is collected rather than stopping at the first, because the person fixing a
+ * preset is editing JSON by hand and one round trip per typo is how presets stop being used.
+ */
+export function parseProgrammingRules(
+  raw: unknown,
+): { ok: true; rules: ProgrammingRules } | { ok: false; errors: string[] } {
+  const errors: string[] = [];
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, errors: ["rules must be an object"] };
+  }
+  const r = raw as Record<string, any>;
+
+  if (typeof r.name !== "string" || !PRESET_NAME_PATTERN.test(r.name)) {
+    errors.push("name must be 1-48 chars of a-z, 0-9 and '-'");
+  }
+
+  const sep = r.separation;
+  if (!sep || typeof sep !== "object") {
+    errors.push("separation is required");
+  } else {
+    if (!isFiniteNumber(sep.artistMinutes) || sep.artistMinutes < 0) {
+      errors.push("separation.artistMinutes must be a number >= 0");
+    }
+    if (!isFiniteNumber(sep.trackMinutes) || sep.trackMinutes < 0) {
+      errors.push("separation.trackMinutes must be a number >= 0");
+    }
+  }
+
+  if (
+    !Number.isInteger(r.noRepeatTracks) ||
+    r.noRepeatTracks < 0 ||
+    r.noRepeatTracks > PLAY_HISTORY_LIMIT
+  ) {
+    errors.push(`noRepeatTracks must be an integer 0-${PLAY_HISTORY_LIMIT}`);
+  }
+
+  if (
+    !Number.isInteger(r.utcOffsetMinutes) ||
+    Math.abs(r.utcOffsetMinutes) > 14 * 60
+  ) {
+    errors.push("utcOffsetMinutes must be an integer within ±840");
+  }
+
+  if (!Array.isArray(r.dayparts)) {
+    errors.push("dayparts must be an array");
+  } else {
+    r.dayparts.forEach((d: any, i: number) => {
+      const at = `dayparts[${i}]`;
+      if (!d || typeof d !== "object") {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (typeof d.name !== "string" || !d.name) errors.push(`${at}.name is required`);
+      if (!Number.isInteger(d.startHour) || d.startHour < 0 || d.startHour > 23) {
+        errors.push(`${at}.startHour must be an integer 0-23`);
+      }
+      if (!Number.isInteger(d.endHour) || d.endHour < 1 || d.endHour > 24) {
+        errors.push(`${at}.endHour must be an integer 1-24`);
+      }
+      if (
+        d.days !== undefined &&
+        !(Array.isArray(d.days) && d.days.every((n: unknown) => Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 6))
+      ) {
+        errors.push(`${at}.days must be weekday numbers 0-6`);
+      }
+      if (d.genres !== undefined && !isStringArray(d.genres)) {
+        errors.push(`${at}.genres must be an array of strings`);
+      }
+      if (d.moods !== undefined && !isStringArray(d.moods)) {
+        errors.push(`${at}.moods must be an array of strings`);
+      }
+      if (
+        d.tierWeights !== undefined &&
+        (typeof d.tierWeights !== "object" ||
+          !Object.values(d.tierWeights).every((w) => isFiniteNumber(w) && (w as number) >= 0))
+      ) {
+        errors.push(`${at}.tierWeights must map tier ids to numbers >= 0`);
+      }
+    });
+  }
+
+  if (!Array.isArray(r.tiers)) {
+    errors.push("tiers must be an array");
+  } else {
+    const seen = new Set<string>();
+    r.tiers.forEach((t: any, i: number) => {
+      const at = `tiers[${i}]`;
+      if (!t || typeof t !== "object") {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      if (typeof t.id !== "string" || !t.id) {
+        errors.push(`${at}.id is required`);
+      } else if (seen.has(t.id)) {
+        errors.push(`${at}.id "${t.id}" is duplicated`);
+      } else {
+        seen.add(t.id);
+      }
+      if (!isFiniteNumber(t.weight) || t.weight < 0) {
+        errors.push(`${at}.weight must be a number >= 0`);
+      }
+      if (t.tokenIds !== undefined && !isStringArray(t.tokenIds)) {
+        errors.push(`${at}.tokenIds must be an array of strings`);
+      }
+      if (
+        t.mintedWithinDays !== undefined &&
+        (!isFiniteNumber(t.mintedWithinDays) || t.mintedWithinDays <= 0)
+      ) {
+        errors.push(`${at}.mintedWithinDays must be a number > 0`);
+      }
+    });
+  }
+
+  if (
+    r.tasteBias !== undefined &&
+    (!isFiniteNumber(r.tasteBias) || r.tasteBias < 0 || r.tasteBias > 1)
+  ) {
+    errors.push("tasteBias must be a number 0-1");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    rules: {
+      name: r.name,
+      separation: {
+        artistMinutes: sep.artistMinutes,
+        trackMinutes: sep.trackMinutes,
+      },
+      noRepeatTracks: r.noRepeatTracks,
+      utcOffsetMinutes: r.utcOffsetMinutes,
+      dayparts: r.dayparts.map((d: Daypart) => ({
+        name: d.name,
+        days: d.days,
+        startHour: d.startHour,
+        endHour: d.endHour,
+        genres: d.genres,
+        moods: d.moods,
+        tierWeights: d.tierWeights,
+      })),
+      tiers: r.tiers.map((t: RotationTier) => ({
+        id: t.id,
+        weight: t.weight,
+        tokenIds: t.tokenIds?.map(String),
+        mintedWithinDays: t.mintedWithinDays,
+      })),
+      ...(r.tasteBias ? { tasteBias: r.tasteBias } : {}),
+    },
+  };
+}
+
+// ============================================================================
+// SELECTION
+// ============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+function lower(values: string[] | undefined): string[] {
+  return (values || []).map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+function artistKey(entry: { artist?: string; artistAddress?: string }): string {
+  return (entry.artistAddress || entry.artist || "").toLowerCase();
+}
+
+/** The daypart in force at `now`, or null. First match wins, so list specific shows first. */
+export function activeDaypart(
+  rules: ProgrammingRules,
+  now: number,
+): Daypart | null {
+  const local = new Date(now + rules.utcOffsetMinutes * MINUTE_MS);
+  const day = local.getUTCDay();
+  const hour = local.getUTCHours();
+
+  for (const d of rules.dayparts) {
+    const wraps = d.endHour <= d.startHour;
+    let startDay: number;
+    if (!wraps) {
+      if (hour < d.startHour || hour >= d.endHour) continue;
+      startDay = day;
+    } else if (hour >= d.startHour) {
+      startDay = day;
+    } else if (hour < d.endHour) {
+      // 02:00 Saturday inside a Friday 22:00-04:00 show belongs to Friday.
+      startDay = (day + 6) % 7;
+    } else {
+      continue;
+    }
+    if (d.days && d.days.length > 0 && !d.days.includes(startDay)) continue;
+    return d;
+  }
+  return null;
+}
+
+function tierFor(
+  track: ProgrammingTrack,
+  tiers: RotationTier[],
+  now: number,
+): RotationTier | null {
+  for (const tier of tiers) {
+    const curated = tier.tokenIds !== undefined;
+    const recent = tier.mintedWithinDays !== undefined;
+    if (!curated && !recent) return tier;
+    if (curated && tier.tokenIds!.includes(String(track.tokenId))) return tier;
+    if (
+      recent &&
+      track.mintedAt !== undefined &&
+      now - track.mintedAt <= tier.mintedWithinDays! * DAY_MS
+    ) {
+      return tier;
+    }
+  }
+  return null;
+}
+
+function matchesDaypart(
+  track: ProgrammingTrack,
+  daypart: Daypart,
+  tags: Record<string, TrackTags>,
+): boolean {
+  const genres = lower(daypart.genres);
+  const moods = lower(daypart.moods);
+  if (genres.length === 0 && moods.length === 0) return true;
+
+  const trackTags = tags[String(track.tokenId)] || {};
+  const trackGenres = lower(trackTags.genres);
+  const trackMoods = lower(trackTags.moods);
+  if (genres.length > 0 && !genres.some((g) => trackGenres.includes(g))) return false;
+  if (moods.length > 0 && !moods.some((m) => trackMoods.includes(m))) return false;
+  return true;
+}
+
+/**
+ * Choose the next track. Pure: the same inputs and the same `random` always give the same
+ * answer, which is what makes a programme reviewable before it goes live.
+ *
+ * `history` is newest first, as the scheduler writes it. Returns null only for an empty
+ * catalogue — every rule can be relaxed, an empty pool cannot.
+ */
+export function selectNextTrack<T extends ProgrammingTrack>(input: {
+  catalogue: T[];
+  history: PlayHistoryEntry[];
+  rules: ProgrammingRules;
+  tags?: Record<string, TrackTags>;
+  now: number;
+  random?: () => number;
+  /** tokenId -> 0-1 listener affinity, read only when `rules.tasteBias` is set. */
+  affinity?: Record<string, number>;
+}): ProgrammingDecision<T> | null {
+  const { catalogue, history, rules, now } = input;
+  const tags = input.tags || {};
+  const random = input.random || Math.random;
+  if (catalogue.length === 0) return null;
+
+  const daypart = activeDaypart(rules, now);
+
+  const horizon = new Set(
+    history
+      .slice(0, Math.min(rules.noRepeatTracks, PLAY_HISTORY_LIMIT))
+      .map((h) => String(h.tokenId)),
+  );
+  const artistCutoff = now - rules.separation.artistMinutes * MINUTE_MS;
+  const trackCutoff = now - rules.separation.trackMinutes * MINUTE_MS;
+  const recentArtists = new Set(
+    history.filter((h) => h.playedAt > artistCutoff).map(artistKey).filter(Boolean),
+  );
+  const recentTracks = new Set(
+    history.filter((h) => h.playedAt > trackCutoff).map((h) => String(h.tokenId)),
+  );
+  // Whatever played last is never repeated while anything else exists, whatever the rules
+  // say — trackMinutes: 0 must not be a way to walk into the replay cooldown.
+  if (history[0]) recentTracks.add(String(history[0].tokenId));
+
+  const passes: Record<ProgrammingConstraint, (t: T) => boolean> = {
+    no_repeat: (t) => !horizon.has(String(t.tokenId)),
+    artist_separation: (t) => !recentArtists.has(artistKey(t)),
+    daypart: (t) => !daypart || matchesDaypart(t, daypart, tags),
+    track_separation: (t) => !recentTracks.has(String(t.tokenId)),
+  };
+
+  const relaxed: ProgrammingConstraint[] = [];
+  let candidates: T[] = [];
+  for (let i = 0; i <= RELAXATION_ORDER.length; i++) {
+    const active = RELAXATION_ORDER.slice(i);
+    candidates = catalogue.filter((t) => active.every((c) => passes[c](t)));
+    if (candidates.length > 0) break;
+    if (i < RELAXATION_ORDER.length) relaxed.push(RELAXATION_ORDER[i]);
+  }
+
+  // Group by tier, then draw a tier by weight and a track uniformly inside it.
+  const byTier = new Map<string, T[]>();
+  for (const track of candidates) {
+    const tier = tierFor(track, rules.tiers, now);
+    if (!tier) continue;
+    const list = byTier.get(tier.id) || [];
+    list.push(track);
+    byTier.set(tier.id, list);
+  }
+
+  const weighted = rules.tiers
+    .filter((t) => byTier.has(t.id))
+    .map((t) => ({
+      id: t.id,
+      weight: daypart?.tierWeights?.[t.id] ?? t.weight,
+    }))
+    .filter((t) => t.weight > 0);
+  const totalWeight = weighted.reduce((sum, t) => sum + t.weight, 0);
+
+  let tierId: string | null = null;
+  let pool: T[];
+  if (totalWeight > 0) {
+    let roll = random() * totalWeight;
+    tierId = weighted[weighted.length - 1].id;
+    for (const t of weighted) {
+      if (roll < t.weight) {
+        tierId = t.id;
+        break;
+      }
+      roll -= t.weight;
+    }
+    pool = byTier.get(tierId)!;
+  } else {
+    // Every populated tier weighted to zero, or nothing tiered at all: fall back to every
+    // candidate rather than to silence.
+    pool = candidates;
+  }
+
+  // Every weight is 1 unless the preset asks for taste bias, and then this is exactly the old
+  // uniform draw: one roll, landing in slot floor(roll).
+  const bias = rules.tasteBias || 0;
+  const affinity = input.affinity || {};
+  const weights = pool.map(
+    (t) => 1 + TASTE_BIAS_SCALE * bias * (affinity[String(t.tokenId)] || 0),
+  );
+  let roll = random() * weights.reduce((sum, w) => sum + w, 0);
+  let track = pool[pool.length - 1];
+  for (let i = 0; i < pool.length; i++) {
+    if (roll < weights[i]) {
+      track = pool[i];
+      break;
+    }
+    roll -= weights[i];
+  }
+  return {
+    track,
+    tier: tierId,
+    daypart: daypart?.name ?? null,
+    relaxed,
+    candidates: candidates.length,
+  };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+/** The reads the engine needs. Narrow so a fake can stand in for Upstash in verification. */
+export type ProgrammingRedis = Pick<Redis, "get" | "hget" | "hgetall" | "lrange">;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The running preset. Anything missing or malformed falls back to the defaults: a broken
+ * preset should change what plays, never whether anything plays.
+ */
+export async function loadActiveRules(
+  redis: ProgrammingRedis,
+): Promise<ProgrammingRules> {
+  try {
+    const name = await redis.get<string>(PROGRAMMING_KEYS.active);
+    if (!name) return DEFAULT_PROGRAMMING_RULES;
+    const stored = parseMaybeJson(
+      await redis.hget(PROGRAMMING_KEYS.presets, String(name)),
+    );
+    if (!stored) {
+      console.warn(`[RadioProgramming] Preset "${name}" not found, using defaults`);
+      return DEFAULT_PROGRAMMING_RULES;
+    }
+    const parsed = parseProgrammingRules(stored);
+    if (!parsed.ok) {
+      console.warn(
+        `[RadioProgramming] Preset "${name}" is invalid, using defaults:`,
+        parsed.errors.join("; "),
+      );
+      return DEFAULT_PROGRAMMING_RULES;
+    }
+    return parsed.rules;
+  } catch (err) {
+    console.warn("[RadioProgramming] Rules lookup failed, using defaults:", err);
+    return DEFAULT_PROGRAMMING_RULES;
+  }
+}
+
+export async function loadTrackTags(
+  redis: ProgrammingRedis,
+): Promise<Record<string, TrackTags>> {
+  try {
+    const all = await redis.hgetall<Record<string, unknown>>(PROGRAMMING_KEYS.trackTags);
+    const tags: Record<string, TrackTags> = {};
+    for (const [tokenId, value] of Object.entries(all || {})) {
+      const parsed = parseMaybeJson<TrackTags>(value);
+      if (parsed) tags[tokenId] = parsed;
+    }
+    return tags;
+  } catch (err) {
+    console.warn("[RadioProgramming] Track tag lookup failed:", err);
+    return {};
+  }
+}
+
+/** Recent plays, newest first. Unparseable entries are skipped, not fatal. */
+export async function loadPlayHistory(
+  redis: ProgrammingRedis,
+  limit: number = PLAY_HISTORY_LIMIT,
+  historyKey: string = PLAY_HISTORY_KEY,
+): Promise<PlayHistoryEntry[]> {
+  try {
+    const raw = await redis.lrange<unknown>(historyKey, 0, limit - 1);
+    const entries: PlayHistoryEntry[] = [];
+    for (const item of raw) {
+      const parsed = parseMaybeJson<PlayHistoryEntry>(item);
+      if (parsed?.tokenId !== undefined && isFiniteNumber(Number(parsed.playedAt))) {
+        entries.push({ ...parsed, tokenId: String(parsed.tokenId), playedAt: Number(parsed.playedAt) });
+      }
+    }
+    return entries;
+  } catch (err) {
+    console.warn("[RadioProgramming] Play history lookup failed:", err);
+    return [];
+  }
+}
+
+/** Load rules, tags and history, then select. What the scheduler calls. */
+export async function programNextTrack<T extends ProgrammingTrack>(
+  redis: ProgrammingRedis,
+  catalogue: T[],
+  opts: {
+    now: number;
+    random?: () => number;
+    historyKey?: string;
+    /** Called only when the active preset sets tasteBias, so an unbiased pick costs no reads. */
+    affinity?: () => Promise<Record<string, number>>;
+  },
+): Promise<(ProgrammingDecision<T> & { rules: string }) | null> {
+  const [rules, tags, history] = await Promise.all([
+    loadActiveRules(redis),
+    loadTrackTags(redis),
+    loadPlayHistory(redis, PLAY_HISTORY_LIMIT, opts.historyKey),
+  ]);
+  let affinity: Record<string, number> | undefined;
+  if (rules.tasteBias && opts.affinity) {
+    try {
+      affinity = await opts.affinity();
+    } catch (err) {
+      console.warn("[RadioProgramming] Listener affinity lookup failed:", err);
+    }
+  }
+  const decision = selectNextTrack({
+    catalogue,
+    history,
+    rules,
+    tags,
+    now: opts.now,
+    random: opts.random,
+    affinity,
+  });
+  return decision ? { ...decision, rules: rules.name } : null;
+}
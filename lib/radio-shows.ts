@@ -0,0 +1,548 @@
+import { randomBytes } from "crypto";
+import { Redis } from "@upstash/redis";
+import { hasRightsClearance } from "@/lib/rights-declaration";
+
+/**
+ * Live Radio Shows — booked DJ takeover slots.
+ *
+ * The radio is otherwise a jukebox: paid queue first, then the programming engine. A show
+ * is a booked window in which the scheduler hands control to a host's setlist instead,
+ * then gives it back. Hosts are artists (anyone with an unburned master) or curators on an
+ * admin-managed allowlist.
+ *
+ * During a show:
+ *   - the host's pre-recorded intros play before the setlist item they were attached to;
+ *     they are ordinary VoiceNotes, uploaded through the same /api/upload-to-ipfs path as
+ *     listener shoutouts
+ *   - listener voice notes and paid queue entries are HELD, not dropped — they were paid
+ *     for, and play as soon as the show hands back
+ *   - every play-history entry carries the show's id, title and host, and each ended song
+ *     is appended to the show's own play log with the on-chain recording result
+ *
+ * A show never cuts a song mid-play. It takes over at the first song boundary inside its
+ * window and ends at the first boundary after the window closes or the setlist runs out,
+ * whichever comes first.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShowSetlistItem {
+  tokenId: string;
+  name: string;
+  artist: string;
+  artistAddress: string;
+  audioUrl: string;
+  imageUrl: string;
+}
+
+/** Same shape as the live-radio VoiceNote, so the scheduler plays it the same way. */
+export interface ShowIntro {
+  id: string;
+  userAddress: string;
+  userFid: number;
+  username?: string;
+  audioUrl: string;
+  duration: number;
+  message?: string;
+  createdAt: number;
+  played: boolean;
+  isAd: boolean;
+  /** Setlist index this intro plays before. */
+  beforeIndex: number;
+}
+
+export type ShowStatus = "scheduled" | "live" | "completed" | "cancelled";
+
+export interface RadioShow {
+  showId: string;
+  title: string;
+  description?: string;
+  hostAddress: string;
+  hostFid?: number;
+  hostName?: string;
+  startsAt: number;
+  endsAt: number;
+  setlist: ShowSetlistItem[];
+  intros: ShowIntro[];
+  status: ShowStatus;
+  /** Next setlist index to play. */
+  cursor: number;
+  /** Setlist index whose intro has already played, so it is not repeated. */
+  lastIntroIndex: number;
+  createdAt: number;
+  startedAt?: number;
+  endedAt?: number;
+  cancelledBy?: string;
+}
+
+/** What listeners see — no audio URLs for the unplayed setlist or the intros. */
+export interface ShowSummary {
+  showId: string;
+  title: string;
+  description?: string;
+  hostAddress: string;
+  hostFid?: number;
+  hostName?: string;
+  startsAt: number;
+  endsAt: number;
+  status: ShowStatus;
+  trackCount: number;
+}
+
+/** Attached to play-history entries and to the radio state while a show is on air. */
+export interface ShowTag {
+  showId: string;
+  title: string;
+  hostAddress: string;
+  hostName?: string;
+}
+
+export interface ShowPlayEntry {
+  tokenId: string;
+  name: string;
+  artistAddress: string;
+  startedAt: number;
+  endedAt: number;
+  recorded: number;
+  listeners: number;
+}
+
+// ============================================================================
+// CONSTANTS & KEYS
+// ============================================================================
+
+export const SHOW_LIMITS = {
+  minMinutes: 15,
+  maxMinutes: 180,
+  /** Booking closer than this to the start leaves no time to pre-load intros. */
+  minLeadMinutes: 10,
+  maxAheadDays: 60,
+  maxUpcomingPerHost: 3,
+  maxSetlist: 60,
+  maxIntroSeconds: 30,
+  maxTitleLength: 80,
+  maxDescriptionLength: 500,
+} as const;
+
+export const SHOW_KEYS = {
+  /** ZSET: showId scored by startsAt. The calendar. */
+  calendar: "live-radio:shows",
+  show: (showId: string) => `live-radio:show:${showId}`,
+  plays: (showId: string) => `live-radio:show-plays:${showId}`,
+  /** SET of curator addresses allowed to host without owning a master. */
+  curators: "live-radio:show-curators",
+  bookingLock: "live-radio:shows:booking-lock",
+} as const;
+
+const MINUTE_MS = 60 * 1000;
+const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT!;
+
+// ============================================================================
+// PURE HELPERS
+// ============================================================================
+
+export function toShowSummary(show: RadioShow): ShowSummary {
+  return {
+    showId: show.showId,
+    title: show.title,
+    description: show.description,
+    hostAddress: show.hostAddress,
+    hostFid: show.hostFid,
+    hostName: show.hostName,
+    startsAt: show.startsAt,
+    endsAt: show.endsAt,
+    status: show.status,
+    trackCount: show.setlist.length,
+  };
+}
+
+export function toShowTag(show: RadioShow): ShowTag {
+  return {
+    showId: show.showId,
+    title: show.title,
+    hostAddress: show.hostAddress,
+    hostName: show.hostName,
+  };
+}
+
+/** Returns an error message, or null when the slot is bookable on its own terms. */
+export function validateShowSlot(
+  startsAt: number,
+  endsAt: number,
+  now: number,
+): string | null {
+  if (!Number.isFinite(startsAt) || !Number.isFinite(endsAt)) {
+    return "startsAt and endsAt must be timestamps";
+  }
+  const minutes = (endsAt - startsAt) / MINUTE_MS;
+  if (minutes < SHOW_LIMITS.minMinutes || minutes > SHOW_LIMITS.maxMinutes) {
+    return `Shows run ${SHOW_LIMITS.minMinutes}-${SHOW_LIMITS.maxMinutes} minutes`;
+  }
+  if (startsAt < now + SHOW_LIMITS.minLeadMinutes * MINUTE_MS) {
+    return `Book at least ${SHOW_LIMITS.minLeadMinutes} minutes ahead`;
+  }
+  if (startsAt > now + SHOW_LIMITS.maxAheadDays * 24 * 60 * MINUTE_MS) {
+    return `Shows can be booked up to ${SHOW_LIMITS.maxAheadDays} days ahead`;
+  }
+  return null;
+}
+
+/** First active show overlapping [startsAt, endsAt), ignoring `exceptShowId`. */
+export function findOverlap(
+  shows: RadioShow[],
+  startsAt: number,
+  endsAt: number,
+  exceptShowId?: string,
+): RadioShow | null {
+  return (
+    shows.find(
+      (s) =>
+        s.showId !== exceptShowId &&
+        (s.status === "scheduled" || s.status === "live") &&
+        s.startsAt < endsAt &&
+        startsAt < s.endsAt,
+    ) || null
+  );
+}
+
+/**
+ * What the show plays next: a pending intro for the cursor's setlist item first, then the
+ * item itself. Null when the setlist is exhausted.
+ */
+export function nextShowItem(
+  show: RadioShow,
+): { intro: ShowIntro } | { song: ShowSetlistItem; index: number } | null {
+  if (show.cursor >= show.setlist.length) return null;
+  if (show.lastIntroIndex !== show.cursor) {
+    const intro = show.intros.find((i) => i.beforeIndex === show.cursor);
+    if (intro) return { intro };
+  }
+  return { song: show.setlist[show.cursor], index: show.cursor };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parse<T>(raw: unknown): T | null {
+  if (!raw) return null;
+  return typeof raw === "string" ? (JSON.parse(raw) as T) : (raw as T);
+}
+
+export async function getShow(
+  redis: Redis,
+  showId: string,
+): Promise<RadioShow | null> {
+  return parse<RadioShow>(await redis.get(SHOW_KEYS.show(showId)));
+}
+
+export async function saveShow(redis: Redis, show: RadioShow): Promise<void> {
+  await redis.set(SHOW_KEYS.show(show.showId), JSON.stringify(show));
+}
+
+/** Shows whose start falls in [from, to], in start order. */
+export async function listShows(
+  redis: Redis,
+  from: number,
+  to: number,
+): Promise<RadioShow[]> {
+  const ids = (await redis.zrange(SHOW_KEYS.calendar, from, to, {
+    byScore: true,
+  })) as string[];
+  if (ids.length === 0) return [];
+  const raw = await redis.mget<unknown[]>(...ids.map((id) => SHOW_KEYS.show(id)));
+  return raw
+    .map((r) => parse<RadioShow>(r))
+    .filter((s): s is RadioShow => s !== null);
+}
+
+/** Scheduled and live shows that have not ended yet — what listeners are shown. */
+export async function upcomingShows(
+  redis: Redis,
+  now: number,
+  limit: number = 10,
+): Promise<ShowSummary[]> {
+  const shows = await listShows(
+    redis,
+    now - SHOW_LIMITS.maxMinutes * MINUTE_MS,
+    now + SHOW_LIMITS.maxAheadDays * 24 * 60 * MINUTE_MS,
+  );
+  return shows
+    .filter(
+      (s) =>
+        (s.status === "scheduled" || s.status === "live") && s.endsAt > now,
+    )
+    .slice(0, limit)
+    .map(toShowSummary);
+}
+
+/**
+ * The show whose window contains `now`, or a live show still finishing its last song.
+ * Two reads on the scheduler's hot path: the calendar slice and the show records.
+ */
+export async function getOnAirShow(
+  redis: Redis,
+  now: number,
+): Promise<RadioShow | null> {
+  const shows = await listShows(
+    redis,
+    now - SHOW_LIMITS.maxMinutes * MINUTE_MS,
+    now,
+  );
+  return (
+    shows.find(
+      (s) =>
+        (s.status === "scheduled" || s.status === "live") &&
+        s.startsAt <= now &&
+        now < s.endsAt,
+    ) || null
+  );
+}
+
+// ============================================================================
+// BOOKING
+// ============================================================================
+
+/** Artists with at least one unburned master, or allowlisted curators. */
+export async function isEligibleHost(
+  redis: Redis,
+  address: string,
+): Promise<boolean> {
+  const addr = address.toLowerCase();
+  if (await redis.sismember(SHOW_KEYS.curators, addr)) return true;
+
+  try {
+    const response = await fetch(ENVIO_ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: `query HostMasters($address: String!) {
+          MusicNFT(where: {artist: {_eq: $address}, isBurned: {_eq: false}}, limit: 1) { tokenId }
+        }`,
+        variables: { address: addr },
+      }),
+    });
+    const data = await response.json();
+    return (data.data?.MusicNFT || []).length > 0;
+  } catch (err) {
+    console.error("[RadioShows] Host eligibility lookup failed:", err);
+    return false;
+  }
+}
+
+/**
+ * Resolve a setlist of tokenIds to playable tracks from the indexer.
+ *
+ * Audio URLs are never taken from the host: a booking is not paid per track like the queue
+ * is, so a client-supplied URL would let a host put anything on air. Tracks that are burned,
+ * have no audio or lack rights clearance are returned in `rejected`.
+ */
+export async function resolveSetlist(
+  redis: Redis,
+  tokenIds: string[],
+): Promise<{ setlist: ShowSetlistItem[]; rejected: string[] }> {
+  const wanted = tokenIds.map(String);
+  const unique = [...new Set(wanted)];
+  const response = await fetch(ENVIO_ENDPOINT, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      query: `query SetlistTracks($ids: [String!]) {
+        MusicNFT(where: {tokenId: {_in: $ids}, isBurned: {_eq: false}, fullAudioUrl: {_is_null: false}}) {
+          tokenId
+          name
+          artist
+          fullAudioUrl
+          imageUrl
+        }
+      }`,
+      variables: { ids: unique },
+    }),
+  });
+  const data = await response.json();
+  const byId = new Map<string, any>(
+    (data.data?.MusicNFT || []).map((s: any) => [String(s.tokenId), s]),
+  );
+
+  const cleared = new Set<string>();
+  for (const id of unique) {
+    if (byId.has(id) && (await hasRightsClearance(redis, id))) cleared.add(id);
+  }
+
+  const setlist: ShowSetlistItem[] = [];
+  const rejected: string[] = [];
+  for (const id of wanted) {
+    const song = byId.get(id);
+    if (!song || !cleared.has(id)) {
+      rejected.push(id);
+      continue;
+    }
+    setlist.push({
+      tokenId: id,
+      name: song.name || `Song #${id}`,
+      artist: song.artist || "Unknown Artist",
+      artistAddress: song.artist || "",
+      audioUrl: song.fullAudioUrl,
+      imageUrl: song.imageUrl || "",
+    });
+  }
+  return { setlist, rejected };
+}
+
+export class ShowBookingError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number = 400,
+  ) {
+    super(message);
+    this.name = "ShowBookingError";
+  }
+}
+
+/**
+ * Book a slot. Overlap and per-host checks run under a short Redis lock so two hosts
+ * racing for the same hour cannot both win.
+ */
+export async function bookShow(
+  redis: Redis,
+  input: {
+    hostAddress: string;
+    hostFid?: number;
+    hostName?: string;
+    title: string;
+    description?: string;
+    startsAt: number;
+    endsAt: number;
+    setlist: ShowSetlistItem[];
+  },
+  now: number = Date.now(),
+): Promise<RadioShow> {
+  const slotError = validateShowSlot(input.startsAt, input.endsAt, now);
+  if (slotError) throw new ShowBookingError(slotError);
+  if (input.setlist.length === 0) {
+    throw new ShowBookingError("A show needs at least one cleared track");
+  }
+
+  const locked = await redis.set(SHOW_KEYS.bookingLock, now, { nx: true, ex: 10 });
+  if (!locked) {
+    throw new ShowBookingError("Another booking is in progress, try again", 409);
+  }
+
+  try {
+    const nearby = await listShows(
+      redis,
+      input.startsAt - SHOW_LIMITS.maxMinutes * MINUTE_MS,
+      input.endsAt,
+    );
+    const clash = findOverlap(nearby, input.startsAt, input.endsAt);
+    if (clash) {
+      throw new ShowBookingError(
+        `Slot overlaps "${clash.title}" (${new Date(clash.startsAt).toISOString()})`,
+        409,
+      );
+    }
+
+    const host = input.hostAddress.toLowerCase();
+    const hostUpcoming = (await upcomingShows(redis, now, 100)).filter(
+      (s) => s.hostAddress === host,
+    );
+    if (hostUpcoming.length >= SHOW_LIMITS.maxUpcomingPerHost) {
+      throw new ShowBookingError(
+        `Hosts can hold at most ${SHOW_LIMITS.maxUpcomingPerHost} upcoming shows`,
+        409,
+      );
+    }
+
+    const show: RadioShow = {
+      showId: randomBytes(8).toString("hex"),
+      title: input.title.slice(0, SHOW_LIMITS.maxTitleLength),
+      description: input.description?.slice(0, SHOW_LIMITS.maxDescriptionLength),
+      hostAddress: host,
+      hostFid: input.hostFid,
+      hostName: input.hostName,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      setlist: input.setlist.slice(0, SHOW_LIMITS.maxSetlist),
+      intros: [],
+      status: "scheduled",
+      cursor: 0,
+      lastIntroIndex: -1,
+      createdAt: now,
+    };
+
+    await saveShow(redis, show);
+    await redis.zadd(SHOW_KEYS.calendar, {
+      score: show.startsAt,
+      member: show.showId,
+    });
+    console.log(
+      `[RadioShows] Booked "${show.title}" (${show.showId}) for ${host} at ${new Date(show.startsAt).toISOString()}`,
+    );
+    return show;
+  } finally {
+    await redis.del(SHOW_KEYS.bookingLock);
+  }
+}
+
+/** Shows can only be edited before they go on air. */
+export function assertEditable(show: RadioShow | null, hostAddress: string): RadioShow {
+  if (!show) throw new ShowBookingError("Show not found", 404);
+  if (show.hostAddress !== hostAddress.toLowerCase()) {
+    throw new ShowBookingError("Only the host can change this show", 403);
+  }
+  if (show.status !== "scheduled") {
+    throw new ShowBookingError(`Show is ${show.status} and can no longer be changed`, 409);
+  }
+  return show;
+}
+
+// ============================================================================
+// ON-AIR TRANSITIONS (called by the scheduler)
+// ============================================================================
+
+export async function markShowLive(
+  redis: Redis,
+  show: RadioShow,
+  now: number,
+): Promise<RadioShow> {
+  show.status = "live";
+  show.startedAt = show.startedAt || now;
+  await saveShow(redis, show);
+  console.log(`[RadioShows] "${show.title}" is on air`);
+  return show;
+}
+
+export async function completeShow(
+  redis: Redis,
+  showId: string,
+  now: number,
+): Promise<void> {
+  const show = await getShow(redis, showId);
+  if (!show || show.status === "completed" || show.status === "cancelled") return;
+  show.status = "completed";
+  show.endedAt = now;
+  await saveShow(redis, show);
+  console.log(
+    `[RadioShows] "${show.title}" completed after ${show.cursor}/${show.setlist.length} tracks`,
+  );
+}
+
+export async function recordShowPlay(
+  redis: Redis,
+  showId: string,
+  entry: ShowPlayEntry,
+): Promise<void> {
+  await redis.rpush(SHOW_KEYS.plays(showId), JSON.stringify(entry));
+}
+
+export async function getShowPlays(
+  redis: Redis,
+  showId: string,
+): Promise<ShowPlayEntry[]> {
+  const raw = await redis.lrange(SHOW_KEYS.plays(showId), 0, -1);
+  return raw
+    .map((r) => parse<ShowPlayEntry>(r))
+    .filter((e): e is ShowPlayEntry => e !== null);
+}
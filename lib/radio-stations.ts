@@ -0,0 +1,347 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Live Radio stations.
+ *
+ * The radio began as one station and every key it writes is a single global (`live-radio:state`,
+ * `live-radio:queue`, ...). This module turns those into one namespace per station, so genre,
+ * artist and region stations can run side by side with their own state, paid queue, voice
+ * notes, listener set and play history.
+ *
+ * ## The main station keeps the legacy keys
+ *
+ * `stationKeys("main")` returns exactly the keys that existed before stations did. Nothing has
+ * to be migrated, clients that never send a station id keep working, and the event manager —
+ * which mirrors on-chain LiveRadio events into the queue — keeps feeding the main station.
+ *
+ * ## What stays global
+ *
+ *   - listener stats (`live-radio:listener-stats`): one record per address, so points are
+ *     already summed across stations. computeListenerPoints() is unchanged; the heartbeat
+ *     decides whether a song may be credited at all via canCreditListen()
+ *   - song durations, programming presets and track tags: facts about a track, not a station
+ *   - shows (lib/radio-shows.ts): booked against the main station only
+ *
+ * ## One station per listener
+ *
+ * A listener heartbeats exactly one station at a time. moveListener() takes the address out of
+ * the previous station's active-listener ZSET when it appears on another, because that ZSET is
+ * the list recordPlaysForListeners() walks when it writes plays on-chain. An address in two
+ * sets would record two plays per song slot and take a double share of the artist pool.
+ *
+ * Imports nothing from the project so `tools/verify-radio-stations.ts` can run it under plain
+ * node, like lib/radio-programming.ts.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StationKind = "main" | "genre" | "artist" | "region";
+
+export interface StationConfig {
+  id: string;
+  name: string;
+  description?: string;
+  kind: StationKind;
+  /** genre: tracks whose curator tags include any of these (PROGRAMMING_KEYS.trackTags). */
+  genres?: string[];
+  /** artist: tracks by these artist addresses. */
+  artistAddresses?: string[];
+  /** region: tracks by artists holding a passport for one of these countries or regions. */
+  countryCodes?: string[];
+  regions?: string[];
+  createdAt: number;
+}
+
+export interface StationKeys {
+  state: string;
+  queue: string;
+  voiceNotes: string;
+  activeListeners: string;
+  playHistory: string;
+  playbackPhase: string;
+  schedulerLock: string;
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+export const MAIN_STATION_ID = "main";
+
+export const MAIN_STATION: StationConfig = {
+  id: MAIN_STATION_ID,
+  name: "EmpowerTours Radio",
+  kind: "main",
+  createdAt: 0,
+};
+
+export const STATION_KEYS = {
+  /** Hash: station id -> StationConfig. The main station is implicit and never stored. */
+  registry: "live-radio:stations",
+  /** Hash: listener address -> station id they last heartbeated. */
+  listenerStation: "live-radio:listener-station",
+} as const;
+
+export const MAX_STATIONS = 20;
+
+const STATION_ID_PATTERN = /^[a-z0-9][a-z0-9-]{1,31}$/;
+
+export function stationKeys(stationId: string): StationKeys {
+  if (stationId === MAIN_STATION_ID) {
+    return {
+      state: "live-radio:state",
+      queue: "live-radio:queue",
+      voiceNotes: "live-radio:voice-notes",
+      activeListeners: "live-radio:active-listeners-zset",
+      playHistory: "live-radio:play-history",
+      playbackPhase: "live-radio:playback-phase",
+      schedulerLock: "live-radio:scheduler-lock",
+    };
+  }
+  const base = `live-radio:station:${stationId}`;
+  return {
+    state: `${base}:state`,
+    queue: `${base}:queue`,
+    voiceNotes: `${base}:voice-notes`,
+    activeListeners: `${base}:active-listeners`,
+    playHistory: `${base}:play-history`,
+    playbackPhase: `${base}:playback-phase`,
+    schedulerLock: `${base}:scheduler-lock`,
+  };
+}
+
+/** SSE channel for a station. The main station keeps the original channel name. */
+export function stationChannel(stationId: string): string {
+  return stationId === MAIN_STATION_ID
+    ? "live-radio"
+    : `live-radio:${stationId}`;
+}
+
+/** Anything that is not a well-formed id means the main station. */
+export function normalizeStationId(raw: unknown): string {
+  if (typeof raw !== "string") return MAIN_STATION_ID;
+  const id = raw.trim().toLowerCase();
+  return STATION_ID_PATTERN.test(id) ? id : MAIN_STATION_ID;
+}
+
+// ============================================================================
+// CONFIG VALIDATION
+// ============================================================================
+
+function stringList(
+  value: unknown,
+  transform: (v: string) => string,
+): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((v): v is string => typeof v === "string")
+    .map((v) => transform(v.trim()))
+    .filter(Boolean);
+}
+
+/** Validate an admin-submitted station. Collects every error, like parseProgrammingRules. */
+export function parseStationConfig(
+  raw: unknown,
+  now: number,
+): { ok: true; station: StationConfig } | { ok: false; errors: string[] } {
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, errors: ["station must be an object"] };
+  }
+  const r = raw as Record<string, any>;
+  const errors: string[] = [];
+
+  const id = typeof r.id === "string" ? r.id.trim().toLowerCase() : "";
+  if (!STATION_ID_PATTERN.test(id)) {
+    errors.push("id must be 2-32 chars of a-z, 0-9 and '-'");
+  } else if (id === MAIN_STATION_ID) {
+    errors.push(`"${MAIN_STATION_ID}" is reserved`);
+  }
+
+  const name = typeof r.name === "string" ? r.name.trim() : "";
+  if (!name || name.length > 48) errors.push("name must be 1-48 chars");
+
+  const station: StationConfig = {
+    id,
+    name,
+    description:
+      typeof r.description === "string"
+        ? r.description.slice(0, 280)
+        : undefined,
+    kind: r.kind,
+    createdAt: Number.isFinite(r.createdAt) ? r.createdAt : now,
+  };
+
+  if (r.kind === "genre") {
+    station.genres = stringList(r.genres, (v) => v.toLowerCase());
+    if (station.genres.length === 0) errors.push("genre stations need genres");
+  } else if (r.kind === "artist") {
+    station.artistAddresses = stringList(r.artistAddresses, (v) =>
+      v.toLowerCase(),
+    );
+    if (
+      station.artistAddresses.length === 0 ||
+      station.artistAddresses.some((a) => !/^0x[a-f0-9]{40}$/.test(a))
+    ) {
+      errors.push("artist stations need artistAddresses (0x addresses)");
+    }
+  } else if (r.kind === "region") {
+    station.countryCodes = stringList(r.countryCodes, (v) => v.toUpperCase());
+    station.regions = stringList(r.regions, (v) => v);
+    if (station.countryCodes.length === 0 && station.regions.length === 0) {
+      errors.push("region stations need countryCodes or regions");
+    }
+  } else {
+    errors.push('kind must be "genre", "artist" or "region"');
+  }
+
+  return errors.length ? { ok: false, errors } : { ok: true, station };
+}
+
+// ============================================================================
+// CATALOGUE
+// ============================================================================
+
+/**
+ * Narrow the cleared pool to what a station plays. The main station plays everything.
+ * `regionArtists` is only read for region stations — see fetchRegionArtists().
+ */
+export function filterStationCatalogue<
+  T extends { tokenId: string; artistAddress?: string; artist: string },
+>(
+  station: StationConfig,
+  catalogue: T[],
+  ctx: {
+    tags?: Record<string, { genres?: string[] }>;
+    regionArtists?: Set<string>;
+  } = {},
+): T[] {
+  const artistOf = (t: T) => (t.artistAddress || t.artist || "").toLowerCase();
+
+  switch (station.kind) {
+    case "genre": {
+      const wanted = new Set(station.genres || []);
+      return catalogue.filter((t) =>
+        (ctx.tags?.[t.tokenId]?.genres || []).some((g) => wanted.has(g)),
+      );
+    }
+    case "artist": {
+      const wanted = new Set(station.artistAddresses || []);
+      return catalogue.filter((t) => wanted.has(artistOf(t)));
+    }
+    case "region": {
+      const wanted = ctx.regionArtists || new Set<string>();
+      return catalogue.filter((t) => wanted.has(artistOf(t)));
+    }
+    default:
+      return catalogue;
+  }
+}
+
+/** Artist addresses holding a passport for one of the station's countries or regions. */
+export async function fetchRegionArtists(
+  station: StationConfig,
+  envioEndpoint: string,
+): Promise<Set<string>> {
+  const codes = station.countryCodes || [];
+  const regions = station.regions || [];
+  if (codes.length === 0 && regions.length === 0) return new Set();
+
+  try {
+    const response = await fetch(envioEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: `query RegionPassports($codes: [String!], $regions: [String!]) {
+          PassportNFT(where: {_or: [{countryCode: {_in: $codes}}, {region: {_in: $regions}}]}, limit: 1000) {
+            owner
+          }
+        }`,
+        variables: { codes, regions },
+      }),
+    });
+    const data = await response.json();
+    return new Set(
+      (data.data?.PassportNFT || []).map((p: { owner: string }) =>
+        String(p.owner).toLowerCase(),
+      ),
+    );
+  } catch (err) {
+    console.error(
+      `[RadioStations] Passport lookup failed for ${station.id}:`,
+      err,
+    );
+    return new Set();
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export type StationRedis = Pick<
+  Redis,
+  "hget" | "hgetall" | "hset" | "zadd" | "zrem"
+>;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** The main station first, then the registry in creation order. */
+export async function loadStations(
+  redis: Pick<Redis, "hgetall">,
+): Promise<StationConfig[]> {
+  const raw =
+    (await redis.hgetall<Record<string, unknown>>(STATION_KEYS.registry)) || {};
+  const stations = Object.values(raw)
+    .map((v) => parseMaybeJson<StationConfig>(v))
+    .filter((s): s is StationConfig => s !== null && s.id !== MAIN_STATION_ID)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  return [MAIN_STATION, ...stations];
+}
+
+/** Null for an id that is not registered. */
+export async function getStation(
+  redis: Pick<Redis, "hget">,
+  stationId: string,
+): Promise<StationConfig | null> {
+  if (stationId === MAIN_STATION_ID) return MAIN_STATION;
+  return parseMaybeJson<StationConfig>(
+    await redis.hget(STATION_KEYS.registry, stationId),
+  );
+}
+
+/**
+ * Record a heartbeat on `stationId`, leaving whatever station the address was on before.
+ * Returns the previous station id, or null when this is the same station or the first one.
+ */
+export async function moveListener(
+  redis: StationRedis,
+  address: string,
+  stationId: string,
+  now: number,
+): Promise<string | null> {
+  const previous = await redis.hget<string>(
+    STATION_KEYS.listenerStation,
+    address,
+  );
+  if (previous !== stationId) {
+    if (previous) {
+      await redis.zrem(stationKeys(previous).activeListeners, address);
+    }
+    await redis.hset(STATION_KEYS.listenerStation, { [address]: stationId });
+  }
+  await redis.zadd(stationKeys(stationId).activeListeners, {
+    score: now,
+    member: address,
+  });
+  return previous && previous !== stationId ? previous : null;
+}
@@ -0,0 +1,799 @@
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Listener taste profiles and track recommendations.
+ *
+ * Discovery used to be a grid of everything plus whatever the radio drew at random. We already
+ * know a lot about what each listener likes, it was just scattered:
+ *
+ *   - subscription plays (PlayRecord) and radio queues (RadioQueuedSong), from Envio
+ *   - licenses bought (MusicLicense) and radio tips (RadioTip), from Envio
+ *   - paid skips (`skip_to_random`), logged to Redis by the live-radio route
+ *   - tracks added to playlists (lib/playlists.ts), attributed to whoever added them
+ *
+ * Each becomes a {@link TasteSignal}. A listener's **taste profile** is the sum of their signals
+ * per track, weighted by {@link SIGNAL_WEIGHTS}, decayed with a {@link HALF_LIFE_DAYS}-day half
+ * life and then log-damped, so the hundredth play of a favourite counts for less than the first
+ * license of something new. Skips are negative.
+ *
+ * The **model** is item-item cosine similarity over those profiles, shrunk towards zero for
+ * pairs few listeners share, keeping the top {@link NEIGHBOURS_PER_TRACK} per track. From it:
+ *
+ *   - "for you": neighbours of what the listener likes, minus what they already know or skipped
+ *   - "similar tracks": a track's neighbours
+ *   - "fans also like": other artists, ranked by how close their tracks sit to this artist's
+ *
+ * A cold listener, or one whose taste has no neighbours yet, gets the most popular tracks.
+ *
+ * ## Built offline
+ *
+ * Similarity is O(tracks² per listener), which is no work for a request path. The keeper
+ * (`/api/cron/build-recommendations`) loads every signal, builds profiles and the model here and
+ * stores both in Redis; the read endpoints only look things up. Everything above the REDIS
+ * section is pure and deterministic in its inputs, so `tools/verify-recommendations.ts` builds a
+ * model from fixture signals under plain node with no Envio or Redis at all.
+ *
+ * ## Radio
+ *
+ * {@link listenerAffinity} folds the current listeners' profiles into one 0–1 score per track.
+ * The programming engine (lib/radio-programming.ts) uses it to weight its draw when a preset
+ * sets `tasteBias`; it never filters, so a room full of one genre still hears the rotation.
+ */
+
+// ============================================================================
+// CONSTANTS & KEYS
+// ============================================================================
+
+export type SignalKind =
+  | "play"
+  | "radio_queue"
+  | "playlist"
+  | "tip"
+  | "license"
+  | "skip";
+
+/** What one signal is worth before decay. Money spent says more than a play. */
+export const SIGNAL_WEIGHTS: Record<SignalKind, number> = {
+  play: 1,
+  radio_queue: 2,
+  playlist: 3,
+  tip: 4,
+  license: 5,
+  skip: -3,
+};
+
+export const HALF_LIFE_DAYS = 45;
+/** Signals older than this many half lives weigh under 2% and are not loaded. */
+export const SIGNAL_WINDOW_HALF_LIVES = 6;
+/** A profile keeps its strongest tracks, by absolute affinity. */
+export const MAX_PROFILE_TRACKS = 200;
+export const NEIGHBOURS_PER_TRACK = 25;
+/** A pair shared by n listeners keeps n / (n + this) of its cosine. */
+export const SIMILARITY_SHRINKAGE = 3;
+export const SKIP_LOG_LIMIT = 5000;
+
+export const RECOMMENDATION_KEYS = {
+  /** JSON RecommendationModel, replaced whole by each build. */
+  model: "recs:model",
+  /** Hash: listener -> TasteProfile. */
+  profiles: "recs:profiles",
+  /** List of SkipEvent, newest first, capped at SKIP_LOG_LIMIT. */
+  skips: "recs:skips",
+} as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * One thing a listener did with a track. `listener` is a lowercase wallet address, or
+ * `fid:<n>` for a playlist editor whose FID has no known address.
+ */
+export interface TasteSignal {
+  listener: string;
+  tokenId: string;
+  kind: SignalKind;
+  /** Milliseconds since epoch. */
+  at: number;
+}
+
+export interface SkipEvent {
+  listener: string;
+  tokenId: string;
+  at: number;
+}
+
+/** A playable master. Tracks outside the catalogue (burned, art-only) are ignored. */
+export interface CatalogueTrack {
+  tokenId: string;
+  artist: string;
+  name?: string;
+  imageUrl?: string;
+}
+
+export interface TasteProfile {
+  listener: string;
+  /** tokenId -> affinity. Negative for tracks the listener skipped more than enjoyed. */
+  tracks: Record<string, number>;
+  /** Lowercase artist address -> summed track affinity. */
+  artists: Record<string, number>;
+  signals: number;
+  lastSignalAt: number;
+}
+
+export interface ModelTrack {
+  artist: string;
+  name?: string;
+  imageUrl?: string;
+  /** Summed positive affinity across listeners. The cold-start ranking. */
+  popularity: number;
+  /** [tokenId, similarity], most similar first. */
+  neighbours: [string, number][];
+}
+
+export interface RecommendationModel {
+  builtAt: number;
+  listeners: number;
+  signals: number;
+  tracks: Record<string, ModelTrack>;
+}
+
+export interface Recommendation {
+  tokenId: string;
+  artist: string;
+  name?: string;
+  imageUrl?: string;
+  score: number;
+  /** The liked track that contributed most, or null for a popularity pick. */
+  because: string | null;
+}
+
+export interface ArtistAffinity {
+  artist: string;
+  score: number;
+  /** The artist's tracks closest to the seed artist, best first. */
+  tokenIds: string[];
+}
+
+// ============================================================================
+// PROFILES
+// ============================================================================
+
+function round(n: number): number {
+  return Math.round(n * 10000) / 10000;
+}
+
+export function normalizeListener(listener: string): string {
+  return listener.trim().toLowerCase();
+}
+
+/** 1 now, 0.5 one half life ago. Signals from the future count as now. */
+export function decay(at: number, now: number): number {
+  return 0.5 ** (Math.max(0, now - at) / (HALF_LIFE_DAYS * DAY_MS));
+}
+
+function damp(sum: number): number {
+  return Math.sign(sum) * Math.log1p(Math.abs(sum));
+}
+
+/** Sort helper: score descending, then tokenId/artist ascending so equal scores are stable. */
+function byScore<T>(score: (x: T) => number, key: (x: T) => string) {
+  return (a: T, b: T) => score(b) - score(a) || key(a).localeCompare(key(b));
+}
+
+export function buildTasteProfiles(
+  signals: TasteSignal[],
+  catalogue: CatalogueTrack[],
+  now: number,
+): Record<string, TasteProfile> {
+  const artistOf = new Map(
+    catalogue.map((t) => [String(t.tokenId), t.artist.toLowerCase()]),
+  );
+  const sums = new Map<
+    string,
+    { tracks: Map<string, number>; signals: number; last: number }
+  >();
+
+  for (const s of signals) {
+    const tokenId = String(s.tokenId);
+    if (!artistOf.has(tokenId) || !(s.kind in SIGNAL_WEIGHTS)) continue;
+    const listener = normalizeListener(s.listener);
+    if (!listener) continue;
+    const entry = sums.get(listener) || {
+      tracks: new Map<string, number>(),
+      signals: 0,
+      last: 0,
+    };
+    entry.tracks.set(
+      tokenId,
+      (entry.tracks.get(tokenId) || 0) +
+        SIGNAL_WEIGHTS[s.kind] * decay(s.at, now),
+    );
+    entry.signals++;
+    entry.last = Math.max(entry.last, s.at);
+    sums.set(listener, entry);
+  }
+
+  const profiles: Record<string, TasteProfile> = {};
+  for (const [listener, entry] of sums) {
+    const kept = [...entry.tracks]
+      .map(([tokenId, sum]) => [tokenId, round(damp(sum))] as [string, number])
+      .filter(([, affinity]) => affinity !== 0)
+      .sort(
+        byScore(
+          ([, a]) => Math.abs(a),
+          ([t]) => t,
+        ),
+      )
+      .slice(0, MAX_PROFILE_TRACKS);
+    if (kept.length === 0) continue;
+
+    const tracks: Record<string, number> = {};
+    const artists: Record<string, number> = {};
+    for (const [tokenId, affinity] of kept) {
+      tracks[tokenId] = affinity;
+      const artist = artistOf.get(tokenId)!;
+      artists[artist] = round((artists[artist] || 0) + affinity);
+    }
+    profiles[listener] = {
+      listener,
+      tracks,
+      artists,
+      signals: entry.signals,
+      lastSignalAt: entry.last,
+    };
+  }
+  return profiles;
+}
+
+/** One profile from several, e.g. a wallet and the `fid:` key of the same person. */
+export function mergeProfiles(profiles: TasteProfile[]): TasteProfile | null {
+  if (profiles.length === 0) return null;
+  if (profiles.length === 1) return profiles[0];
+  const merged: TasteProfile = {
+    listener: profiles.map((p) => p.listener).join("+"),
+    tracks: {},
+    artists: {},
+    signals: 0,
+    lastSignalAt: 0,
+  };
+  for (const p of profiles) {
+    for (const [t, a] of Object.entries(p.tracks)) {
+      merged.tracks[t] = round((merged.tracks[t] || 0) + a);
+    }
+    for (const [artist, a] of Object.entries(p.artists)) {
+      merged.artists[artist] = round((merged.artists[artist] || 0) + a);
+    }
+    merged.signals += p.signals;
+    merged.lastSignalAt = Math.max(merged.lastSignalAt, p.lastSignalAt);
+  }
+  return merged;
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+export function buildModel(
+  profiles: Record<string, TasteProfile>,
+  catalogue: CatalogueTrack[],
+  now: number,
+): RecommendationModel {
+  const popularity = new Map<string, number>();
+  const norms = new Map<string, number>();
+  const pairs = new Map<string, Map<string, { dot: number; n: number }>>();
+  let signals = 0;
+
+  for (const profile of Object.values(profiles)) {
+    signals += profile.signals;
+    // Similarity is about what people like together; a skip is not co-listening.
+    const liked = Object.entries(profile.tracks).filter(([, a]) => a > 0);
+    for (const [t, a] of liked) {
+      popularity.set(t, (popularity.get(t) || 0) + a);
+      norms.set(t, (norms.get(t) || 0) + a * a);
+    }
+    for (let i = 0; i < liked.length; i++) {
+      for (let j = i + 1; j < liked.length; j++) {
+        const [t, a] = liked[i];
+        const [u, b] = liked[j];
+        for (const [x, y] of [
+          [t, u],
+          [u, t],
+        ]) {
+          const row =
+            pairs.get(x) || new Map<string, { dot: number; n: number }>();
+          const cell = row.get(y) || { dot: 0, n: 0 };
+          cell.dot += a * b;
+          cell.n++;
+          row.set(y, cell);
+          pairs.set(x, row);
+        }
+      }
+    }
+  }
+
+  const tracks: Record<string, ModelTrack> = {};
+  for (const track of catalogue) {
+    const tokenId = String(track.tokenId);
+    const row = pairs.get(tokenId);
+    const neighbours: [string, number][] = row
+      ? [...row]
+          .map(([u, { dot, n }]) => {
+            const cosine = dot / Math.sqrt(norms.get(tokenId)! * norms.get(u)!);
+            return [u, round(cosine * (n / (n + SIMILARITY_SHRINKAGE)))] as [
+              string,
+              number,
+            ];
+          })
+          .filter(([, sim]) => sim > 0)
+          .sort(
+            byScore(
+              ([, s]) => s,
+              ([u]) => u,
+            ),
+          )
+          .slice(0, NEIGHBOURS_PER_TRACK)
+      : [];
+    tracks[tokenId] = {
+      artist: track.artist.toLowerCase(),
+      ...(track.name ? { name: track.name } : {}),
+      ...(track.imageUrl ? { imageUrl: track.imageUrl } : {}),
+      popularity: round(popularity.get(tokenId) || 0),
+      neighbours,
+    };
+  }
+
+  return {
+    builtAt: now,
+    listeners: Object.keys(profiles).length,
+    signals,
+    tracks,
+  };
+}
+
+// ============================================================================
+// RECOMMENDING
+// ============================================================================
+
+function toRecommendation(
+  model: RecommendationModel,
+  tokenId: string,
+  score: number,
+  because: string | null,
+): Recommendation {
+  const t = model.tracks[tokenId];
+  return {
+    tokenId,
+    artist: t.artist,
+    ...(t.name ? { name: t.name } : {}),
+    ...(t.imageUrl ? { imageUrl: t.imageUrl } : {}),
+    score: round(score),
+    because,
+  };
+}
+
+/** The most popular tracks not in `exclude`. */
+export function popularTracks(
+  model: RecommendationModel,
+  limit: number,
+  exclude: ReadonlySet<string> = new Set(),
+): Recommendation[] {
+  return Object.entries(model.tracks)
+    .filter(([t, m]) => m.popularity > 0 && !exclude.has(t))
+    .sort(
+      byScore(
+        ([, m]) => m.popularity,
+        ([t]) => t,
+      ),
+    )
+    .slice(0, limit)
+    .map(([t, m]) => toRecommendation(model, t, m.popularity, null));
+}
+
+/**
+ * Tracks for one listener. Everything the profile already has an opinion on is left out, liked
+ * or skipped; a skipped track also pulls its neighbours down. Short lists are topped up with
+ * popular tracks, so the answer is only shorter than `limit` for a tiny catalogue.
+ */
+export function recommendForYou(
+  model: RecommendationModel,
+  profile: TasteProfile | null,
+  opts: { limit?: number; exclude?: string[] } = {},
+): Recommendation[] {
+  const limit = opts.limit ?? 20;
+  const known = new Set([
+    ...Object.keys(profile?.tracks || {}),
+    ...(opts.exclude || []).map(String),
+  ]);
+
+  const scores = new Map<string, number>();
+  const best = new Map<string, { from: string; contribution: number }>();
+  for (const [t, affinity] of Object.entries(profile?.tracks || {})) {
+    for (const [u, sim] of model.tracks[t]?.neighbours || []) {
+      if (known.has(u) || !model.tracks[u]) continue;
+      const contribution = affinity * sim;
+      scores.set(u, (scores.get(u) || 0) + contribution);
+      if (contribution > (best.get(u)?.contribution ?? 0)) {
+        best.set(u, { from: t, contribution });
+      }
+    }
+  }
+
+  const picks = [...scores]
+    .filter(([, score]) => score > 0)
+    .sort(
+      byScore(
+        ([, s]) => s,
+        ([u]) => u,
+      ),
+    )
+    .slice(0, limit)
+    .map(([u, score]) => toRecommendation(model, u, score, best.get(u)!.from));
+
+  if (picks.length < limit) {
+    // Popular tracks fill the gap, but not ones the listener's skips argued against
+    for (const [u, score] of scores) if (score < 0) known.add(u);
+    for (const p of picks) known.add(p.tokenId);
+    picks.push(...popularTracks(model, limit - picks.length, known));
+  }
+  return picks;
+}
+
+export function similarTracks(
+  model: RecommendationModel,
+  tokenId: string,
+  limit: number = 10,
+): Recommendation[] {
+  return (model.tracks[String(tokenId)]?.neighbours || [])
+    .filter(([u]) => model.tracks[u])
+    .slice(0, limit)
+    .map(([u, sim]) => toRecommendation(model, u, sim, String(tokenId)));
+}
+
+/** Other artists whose tracks sit closest to this artist's, summed over every pair. */
+export function fansAlsoLike(
+  model: RecommendationModel,
+  artist: string,
+  limit: number = 10,
+): ArtistAffinity[] {
+  const seed = artist.toLowerCase();
+  const byArtist = new Map<
+    string,
+    { score: number; tracks: Map<string, number> }
+  >();
+  for (const track of Object.values(model.tracks)) {
+    if (track.artist !== seed) continue;
+    for (const [u, sim] of track.neighbours) {
+      const other = model.tracks[u]?.artist;
+      if (!other || other === seed) continue;
+      const entry = byArtist.get(other) || { score: 0, tracks: new Map() };
+      entry.score += sim;
+      entry.tracks.set(u, Math.max(entry.tracks.get(u) || 0, sim));
+      byArtist.set(other, entry);
+    }
+  }
+  return [...byArtist]
+    .map(([other, { score, tracks }]) => ({
+      artist: other,
+      score: round(score),
+      tokenIds: [...tracks]
+        .sort(
+          byScore(
+            ([, s]) => s,
+            ([t]) => t,
+          ),
+        )
+        .map(([t]) => t),
+    }))
+    .sort(
+      byScore(
+        (a) => a.score,
+        (a) => a.artist,
+      ),
+    )
+    .slice(0, limit);
+}
+
+/**
+ * How much the people listening right now would like each track, 0–1. Each listener's own liked
+ * tracks and their "for you" list are scaled to their own best score, so one heavy listener
+ * cannot drown out the room, then averaged across listeners.
+ */
+export function listenerAffinity(
+  model: RecommendationModel,
+  profiles: TasteProfile[],
+): Record<string, number> {
+  const total = new Map<string, number>();
+  for (const profile of profiles) {
+    const mine = new Map<string, number>();
+    for (const [t, a] of Object.entries(profile.tracks)) {
+      if (a > 0 && model.tracks[t]) mine.set(t, a);
+    }
+    for (const r of recommendForYou(model, profile, {
+      limit: NEIGHBOURS_PER_TRACK,
+    })) {
+      if (r.because) mine.set(r.tokenId, r.score);
+    }
+    const top = Math.max(0, ...mine.values());
+    if (top === 0) continue;
+    for (const [t, score] of mine) {
+      total.set(t, (total.get(t) || 0) + score / top);
+    }
+  }
+
+  const affinity: Record<string, number> = {};
+  if (profiles.length === 0) return affinity;
+  for (const [t, sum] of total) affinity[t] = round(sum / profiles.length);
+  return affinity;
+}
+
+// ============================================================================
+// SIGNAL SOURCES
+// ============================================================================
+
+/** Playlist tracks as signals for whoever added them. Mirrors the Playlist shape in lib/playlists.ts. */
+export function playlistSignals(
+  playlists: {
+    tracks: { tokenId: string; addedBy: number; addedAt: number }[];
+  }[],
+  fidAddresses: Record<number, string>,
+): TasteSignal[] {
+  return playlists.flatMap((p) =>
+    p.tracks.map((t) => ({
+      listener: fidAddresses[t.addedBy] || `fid:${t.addedBy}`,
+      tokenId: String(t.tokenId),
+      kind: "playlist" as const,
+      at: t.addedAt,
+    })),
+  );
+}
+
+export function skipSignals(skips: SkipEvent[]): TasteSignal[] {
+  return skips.map((s) => ({
+    listener: s.listener,
+    tokenId: String(s.tokenId),
+    kind: "skip" as const,
+    at: s.at,
+  }));
+}
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+
+async function envioAll<T>(
+  endpoint: string,
+  entity: string,
+  query: string,
+  variables: Record<string, unknown>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const res = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      cache: "no-store",
+      body: JSON.stringify({
+        query,
+        variables: { ...variables, limit: PAGE_SIZE, offset: page * PAGE_SIZE },
+      }),
+    });
+    if (!res.ok) throw new Error(`Envio query failed: ${res.status}`);
+    const json = await res.json();
+    if (json.errors?.length)
+      throw new Error(`Envio: ${json.errors[0].message}`);
+    const batch: T[] = json.data?.[entity] || [];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+  return rows;
+}
+
+/** Envio Timestamps arrive as ISO strings, PlayRecord.timestamp as unix seconds. */
+function toMillis(value: unknown): number {
+  const s = String(value ?? "");
+  return /^\d+$/.test(s) ? Number(s) * 1000 : Date.parse(s) || 0;
+}
+
+/** Every playable master: minted, not burned, with audio. */
+export async function loadCatalogue(
+  endpoint: string,
+): Promise<CatalogueTrack[]> {
+  const rows = await envioAll<any>(
+    endpoint,
+    "MusicNFT",
+    `query ($limit: Int!, $offset: Int!) {
+      MusicNFT(
+        where: { isBurned: { _eq: false }, isArt: { _eq: false } }
+        order_by: { tokenId: asc }, limit: $limit, offset: $offset
+      ) { tokenId artist name imageUrl }
+    }`,
+    {},
+  );
+  return rows.map((r) => ({
+    tokenId: String(r.tokenId),
+    artist: String(r.artist || "").toLowerCase(),
+    ...(r.name ? { name: r.name } : {}),
+    ...(r.imageUrl ? { imageUrl: r.imageUrl } : {}),
+  }));
+}
+
+/**
+ * On-chain signals since `since` (ms), plus the FID -> address pairs the same rows reveal, which
+ * is how playlist signals (keyed by FID) land on the same profile as the wallet's plays.
+ */
+export async function loadChainSignals(
+  endpoint: string,
+  since: number,
+): Promise<{ signals: TasteSignal[]; fidAddresses: Record<number, string> }> {
+  const fromIso = new Date(since).toISOString();
+  const fromSeconds = String(Math.floor(since / 1000));
+
+  const [plays, queued, licenses, tips] = await Promise.all([
+    envioAll<any>(
+      endpoint,
+      "PlayRecord",
+      `query ($from: numeric!, $limit: Int!, $offset: Int!) {
+        PlayRecord(where: { timestamp: { _gte: $from } }, order_by: { timestamp: asc }, limit: $limit, offset: $offset) {
+          user masterTokenId timestamp
+        }
+      }`,
+      { from: fromSeconds },
+    ),
+    envioAll<any>(
+      endpoint,
+      "RadioQueuedSong",
+      `query ($from: timestamptz!, $limit: Int!, $offset: Int!) {
+        RadioQueuedSong(where: { queuedAt: { _gte: $from } }, order_by: { queuedAt: asc }, limit: $limit, offset: $offset) {
+          queuedBy queuedByFid masterTokenId queuedAt
+        }
+      }`,
+      { from: fromIso },
+    ),
+    envioAll<any>(
+      endpoint,
+      "MusicLicense",
+      `query ($from: timestamptz!, $limit: Int!, $offset: Int!) {
+        MusicLicense(where: { purchasedAt: { _gte: $from } }, order_by: { purchasedAt: asc }, limit: $limit, offset: $offset) {
+          licensee licenseeFid masterTokenId purchasedAt
+        }
+      }`,
+      { from: fromIso },
+    ),
+    envioAll<any>(
+      endpoint,
+      "RadioTip",
+      `query ($from: timestamptz!, $limit: Int!, $offset: Int!) {
+        RadioTip(where: { tippedAt: { _gte: $from } }, order_by: { tippedAt: asc }, limit: $limit, offset: $offset) {
+          tipper masterTokenId tippedAt
+        }
+      }`,
+      { from: fromIso },
+    ),
+  ]);
+
+  const fidAddresses: Record<number, string> = {};
+  const remember = (fid: unknown, address: unknown) => {
+    const n = Number(fid);
+    if (Number.isInteger(n) && n > 0 && address) {
+      fidAddresses[n] = String(address).toLowerCase();
+    }
+  };
+
+  const signals: TasteSignal[] = [
+    ...plays.map((r) => ({
+      listener: String(r.user),
+      tokenId: String(r.masterTokenId),
+      kind: "play" as const,
+      at: toMillis(r.timestamp),
+    })),
+    ...queued.map((r) => {
+      remember(r.queuedByFid, r.queuedBy);
+      return {
+        listener: String(r.queuedBy),
+        tokenId: String(r.masterTokenId),
+        kind: "radio_queue" as const,
+        at: toMillis(r.queuedAt),
+      };
+    }),
+    ...licenses.map((r) => {
+      remember(r.licenseeFid, r.licensee);
+      return {
+        listener: String(r.licensee),
+        tokenId: String(r.masterTokenId),
+        kind: "license" as const,
+        at: toMillis(r.purchasedAt),
+      };
+    }),
+    ...tips.map((r) => ({
+      listener: String(r.tipper),
+      tokenId: String(r.masterTokenId),
+      kind: "tip" as const,
+      at: toMillis(r.tippedAt),
+    })),
+  ];
+  return { signals, fidAddresses };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function loadModel(
+  redis: Pick<Redis, "get">,
+): Promise<RecommendationModel | null> {
+  return parseMaybeJson<RecommendationModel>(
+    await redis.get(RECOMMENDATION_KEYS.model),
+  );
+}
+
+export async function loadProfiles(
+  redis: Pick<Redis, "hget">,
+  listeners: string[],
+): Promise<TasteProfile[]> {
+  const found = await Promise.all(
+    listeners.map(async (l) =>
+      parseMaybeJson<TasteProfile>(
+        await redis.hget(RECOMMENDATION_KEYS.profiles, normalizeListener(l)),
+      ),
+    ),
+  );
+  return found.filter((p): p is TasteProfile => p !== null);
+}
+
+/**
+ * Replace the model and every profile. Profiles are written before the model, so a reader never
+ * sees a model that refers to a build whose profiles are not there yet.
+ */
+export async function saveRecommendations(
+  redis: Pick<Redis, "set" | "del" | "hset">,
+  profiles: Record<string, TasteProfile>,
+  model: RecommendationModel,
+): Promise<void> {
+  await redis.del(RECOMMENDATION_KEYS.profiles);
+  const entries = Object.entries(profiles);
+  for (let i = 0; i < entries.length; i += 100) {
+    await redis.hset(
+      RECOMMENDATION_KEYS.profiles,
+      Object.fromEntries(
+        entries.slice(i, i + 100).map(([l, p]) => [l, JSON.stringify(p)]),
+      ),
+    );
+  }
+  await redis.set(RECOMMENDATION_KEYS.model, JSON.stringify(model));
+}
+
+export async function recordSkip(
+  redis: Pick<Redis, "lpush" | "ltrim">,
+  skip: SkipEvent,
+): Promise<void> {
+  await redis.lpush(
+    RECOMMENDATION_KEYS.skips,
+    JSON.stringify({ ...skip, listener: normalizeListener(skip.listener) }),
+  );
+  await redis.ltrim(RECOMMENDATION_KEYS.skips, 0, SKIP_LOG_LIMIT - 1);
+}
+
+export async function loadSkips(
+  redis: Pick<Redis, "lrange">,
+): Promise<SkipEvent[]> {
+  const raw = await redis.lrange<unknown>(
+    RECOMMENDATION_KEYS.skips,
+    0,
+    SKIP_LOG_LIMIT - 1,
+  );
+  return raw
+    .map((item) => parseMaybeJson<SkipEvent>(item))
+    .filter((s): s is SkipEvent => !!s?.listener && s.tokenId !== undefined);
+}
@@ -1,5 +1,6 @@
 import { keccak256, encodePacked } from "viem";
 import { Redis } from "@upstash/redis";
+import type { SplitSheetRef } from "./split-sheet";
 
 /**
  * The version new declarations are signed under.
@@ -179,13 +180,21 @@ export interface RightsDeclaration {
 }
 
 export interface RightsStatus {
-  status: "cleared" | "pending" | "revoked";
+  status: "cleared" | "pending" | "revoked" | "disputed";
   version: string;
   agreementCid: string;
   agreementHash: string;
   declaration: RightsDeclaration;
   tokenId: string;
   storedAt: string;
+  /**
+   * The co-owner split sheet in force (lib/split-sheet.ts). Absent when the artist is the sole
+   * payee. Like the agreement hash, it is a hash of a signed document, not the document itself;
+   * every version stays readable under rights:splits:{tokenId}.
+   */
+  splitSheet?: SplitSheetRef;
+  /** What `status` was before a dispute opened, restored if every dispute is rejected. */
+  disputedFrom?: "cleared" | "pending";
 }
 
 export function generateAgreementHash(
@@ -353,10 +362,91 @@ export async function getRightsStatus(
     : (data as unknown as RightsStatus);
 }
 
+/**
+ * Point the rights record at a newly active split sheet. Legacy masters with no record get none:
+ * the sheet itself is still stored and enforced, there is just no declaration to attach it to.
+ */
+export async function recordSplitSheet(
+  redis: Redis,
+  tokenId: string,
+  ref: SplitSheetRef,
+): Promise<boolean> {
+  const status = await getRightsStatus(redis, tokenId);
+  if (!status) return false;
+  await redis.set(
+    `rights:status:${tokenId}`,
+    JSON.stringify({ ...status, splitSheet: ref }),
+  );
+  return true;
+}
+
+// =============================================
+// DISPUTE HOLDS
+// =============================================
+
+/**
+ * Hash: tokenId → "disputed" | "revoked", for masters taken out of play by a rights dispute
+ * (lib/rights-dispute.ts).
+ *
+ * A separate key rather than only the status record, because legacy masters have no record and
+ * would otherwise pass {@link hasRightsClearance} while disputed. Where a record exists its status
+ * is mirrored too, so readers that look only at the record (the venue catalog) agree.
+ */
+export const RIGHTS_HOLDS_KEY = "rights:holds";
+
+export type RightsHold = "disputed" | "revoked";
+
+/**
+ * Put a master on hold, revoke it, or lift the hold (`null`). Lifting restores the status the
+ * record had before the dispute; it never clears a record that was revoked some other way.
+ */
+export async function applyRightsHold(
+  redis: Redis,
+  tokenId: string,
+  hold: RightsHold | null,
+): Promise<void> {
+  if (hold) {
+    await redis.hset(RIGHTS_HOLDS_KEY, { [tokenId]: hold });
+  } else {
+    await redis.hdel(RIGHTS_HOLDS_KEY, tokenId);
+  }
+
+  const status = await getRightsStatus(redis, tokenId);
+  if (!status) return;
+  let next: RightsStatus = status;
+  if (
+    hold === "disputed" &&
+    (status.status === "cleared" || status.status === "pending")
+  ) {
+    next = { ...status, status: "disputed", disputedFrom: status.status };
+  } else if (hold === "revoked") {
+    next = { ...status, status: "revoked", disputedFrom: undefined };
+  } else if (hold === null && status.status === "disputed") {
+    next = {
+      ...status,
+      status: status.disputedFrom || "cleared",
+      disputedFrom: undefined,
+    };
+  }
+  if (next !== status) {
+    await redis.set(`rights:status:${tokenId}`, JSON.stringify(next));
+  }
+}
+
+/** Every master currently on hold, with why. */
+export async function getRightsHolds(
+  redis: Redis,
+): Promise<Record<string, RightsHold>> {
+  return (
+    (await redis.hgetall<Record<string, RightsHold>>(RIGHTS_HOLDS_KEY)) || {}
+  );
+}
+
 export async function hasRightsClearance(
   redis: Redis,
   tokenId: string,
 ): Promise<boolean> {
+  if (await redis.hget(RIGHTS_HOLDS_KEY, tokenId)) return false;
   const status = await getRightsStatus(redis, tokenId);
   // Legacy NFTs (no record) pass through
   if (!status) return true;
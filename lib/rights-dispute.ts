@@ -0,0 +1,716 @@
+import { keccak256, stringToBytes, type Hex } from "viem";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Rights disputes: a claim that a master should not be on the platform, and what came of it.
+ *
+ * The rights agreement promises revocation "within 48 hours"; this is the mechanism behind it.
+ *
+ * ## Filing takes the track out of play at once
+ *
+ * Anyone with a wallet can file against a tokenId, with a statement and links to evidence. The
+ * master goes on hold immediately (`applyRightsHold` in lib/rights-declaration.ts), which is what
+ * radio, the venue catalog and the VenueRegistry sync all consult. Filing costs nothing, so it is
+ * rate-limited per claimant rather than gated: an unsupported claim is rejected, and the hold is
+ * lifted, but a real one does not wait on anyone's review before the track stops playing.
+ *
+ * ## Everything is signed
+ *
+ * The claimant signs the filing, the artist signs the response, the admin signs the decision.
+ * Each signs a digest of exactly what they submitted, and every step lands in the dispute's log,
+ * so the record shows who said what and when without trusting the database.
+ *
+ * ## Claim holds are advisory
+ *
+ * The subscription contract pays a month's pool share to the artist who calls claim, one whole
+ * month at a time, and nothing can withhold part of it on-chain. So the hold lives only in the
+ * app's claim UI: while a dispute is holding, `/api/artist-claims` reports each unclaimed month in
+ * which the disputed master was played, with the share those plays represent
+ * ({@link claimHolds}), and the claim button leaves those months unclaimed. It does not stop the
+ * artist claiming from their own wallet, so it is not escrow. A rejected or withdrawn dispute
+ * releases the months. An upheld one keeps them marked until an admin records how the claimant
+ * was paid, whether or not the artist claimed in the meantime.
+ *
+ * ## Paid plays a hold cancels
+ *
+ * A listener who paid to queue a master that goes on hold before it airs has paid for nothing.
+ * The scheduler drops the entry, so it records a {@link RefundDue} with the payer and amount, and
+ * an admin lists the outstanding ones here and records each refund once it has been sent. A
+ * venue's jukebox records one the same way for a paid request it drops (`queueTopRequest`).
+ */
+
+export const MAX_EVIDENCE_ITEMS = 10;
+export const MAX_STATEMENT_LENGTH = 4000;
+const MAX_EVIDENCE_DESCRIPTION = 500;
+const MAX_REASON_LENGTH = 2000;
+/** Open disputes one claimant may have at once, across all masters. */
+export const MAX_OPEN_PER_CLAIMANT = 5;
+
+export const DISPUTE_GROUNDS = [
+  "copyright",
+  "impersonation",
+  "uncleared-sample",
+  "pro-registered",
+  "co-owner",
+  "other",
+] as const;
+export type DisputeGrounds = (typeof DISPUTE_GROUNDS)[number];
+
+export const DISPUTE_KEYS = {
+  dispute: (id: string) => `rights:dispute:${id}`,
+  seq: "rights:dispute:seq",
+  /** List of every dispute id against a master, newest first. */
+  byToken: (tokenId: string) => `rights:dispute:token:${tokenId}`,
+  /** Set of disputes awaiting a decision. */
+  open: "rights:dispute:open",
+  openByToken: (tokenId: string) => `rights:dispute:open:${tokenId}`,
+  openByClaimant: (claimant: string) =>
+    `rights:dispute:claimant:${claimant.toLowerCase()}`,
+  /** Set of disputes whose claim hold still marks an artist's unclaimed months. */
+  holding: (artist: string) => `rights:dispute:holding:${artist.toLowerCase()}`,
+  /** Hash of refund id → {@link RefundDue}, settled ones included. */
+  refunds: "rights:refunds",
+  /** Set of refund ids not yet sent. */
+  refundsDue: "rights:refunds:due",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeStatus =
+  | "open"
+  | "answered"
+  | "upheld"
+  | "rejected"
+  | "withdrawn";
+
+export type ClaimHoldState = "holding" | "released" | "settled";
+
+export interface DisputeEvidence {
+  url: string;
+  description: string;
+}
+
+/** What the claimant submits and signs. */
+export interface DisputeFiling {
+  tokenId: string;
+  claimant: string;
+  grounds: DisputeGrounds;
+  statement: string;
+  evidence: DisputeEvidence[];
+  /** ms. Part of the signed text, so a filing cannot be replayed later. */
+  filedAt: number;
+}
+
+export interface DisputeResponse {
+  statement: string;
+  evidence: DisputeEvidence[];
+  at: number;
+  digest: Hex;
+  signature: string;
+}
+
+export interface DisputeDecision {
+  outcome: "upheld" | "rejected";
+  reason: string;
+  admin: string;
+  at: number;
+  /** keccak256 of {@link decisionText}. */
+  hash: Hex;
+  signature: string;
+}
+
+export interface DisputeEvent {
+  at: number;
+  actor: string;
+  action:
+    | "filed"
+    | "responded"
+    | "upheld"
+    | "rejected"
+    | "withdrawn"
+    | "hold-settled";
+  note?: string;
+}
+
+export interface RightsDispute extends DisputeFiling {
+  id: string;
+  /** The master's artist when the dispute was filed, read on-chain. */
+  artist: string;
+  digest: Hex;
+  signature: string;
+  status: DisputeStatus;
+  response?: DisputeResponse;
+  decision?: DisputeDecision;
+  claimHold: ClaimHoldState;
+  claimHoldSettlement?: {
+    by: string;
+    at: number;
+    note: string;
+    txHash?: string;
+  };
+  log: DisputeEvent[];
+}
+
+/** A paid radio queue entry dropped unplayed because its master was no longer cleared. */
+export interface RefundDue {
+  /** The queue entry's id. */
+  id: string;
+  stationId: string;
+  tokenId: string;
+  queuedBy: string;
+  queuedByFid?: number;
+  /** WMON, as the queue entry recorded it. */
+  paidAmount: string;
+  queuedAt: number;
+  droppedAt: number;
+  refund?: { by: string; at: number; note: string; txHash?: string };
+}
+
+export class DisputeError extends Error {
+  readonly status: number;
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "DisputeError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// TEXT, DIGESTS, MESSAGES
+// ============================================================================
+
+const tidy = (text: unknown, max: number) =>
+  String(text ?? "")
+    .replace(/\r\n/g, "\n")
+    .trim()
+    .slice(0, max);
+
+/**
+ * Evidence is links, not uploads: the platform should not become the host of the very material
+ * a dispute is about. IPFS and https only, so every item can be opened by the reviewer.
+ */
+export function normalizeEvidence(items: unknown): DisputeEvidence[] {
+  if (!Array.isArray(items)) return [];
+  return items.slice(0, MAX_EVIDENCE_ITEMS).map((item) => ({
+    url: String(item?.url ?? "").trim(),
+    description: tidy(item?.description, MAX_EVIDENCE_DESCRIPTION),
+  }));
+}
+
+/** An error message, or null when the evidence list is acceptable. */
+export function validateEvidence(evidence: DisputeEvidence[]): string | null {
+  for (const e of evidence) {
+    if (!/^(https:\/\/|ipfs:\/\/)\S+$/.test(e.url)) {
+      return `Evidence links must be https:// or ipfs:// (got "${e.url.slice(0, 60)}")`;
+    }
+  }
+  return null;
+}
+
+function evidenceText(evidence: DisputeEvidence[]): string {
+  if (evidence.length === 0) return "Evidence: none";
+  return [
+    "Evidence:",
+    ...evidence.map(
+      (e, i) =>
+        `${i + 1}. ${e.url}${e.description ? ` | ${e.description}` : ""}`,
+    ),
+  ].join("\n");
+}
+
+export function filingText(f: DisputeFiling): string {
+  return [
+    "EMPOWERTOURS RIGHTS DISPUTE",
+    `Token ID: ${f.tokenId}`,
+    `Claimant: ${f.claimant.toLowerCase()}`,
+    `Grounds: ${f.grounds}`,
+    `Filed: ${new Date(f.filedAt).toISOString()}`,
+    "",
+    f.statement,
+    "",
+    evidenceText(f.evidence),
+  ].join("\n");
+}
+
+export function responseText(
+  disputeId: string,
+  r: Pick<DisputeResponse, "statement" | "evidence" | "at">,
+): string {
+  return [
+    "EMPOWERTOURS RIGHTS DISPUTE RESPONSE",
+    `Dispute: ${disputeId}`,
+    `Responded: ${new Date(r.at).toISOString()}`,
+    "",
+    r.statement,
+    "",
+    evidenceText(r.evidence),
+  ].join("\n");
+}
+
+/**
+ * The decision as recorded. It names the digests of the filing and response it was made on, so
+ * the hash pins the decision to the exact submissions the admin read.
+ */
+export function decisionText(
+  d: RightsDispute,
+  decision: Pick<DisputeDecision, "outcome" | "reason" | "admin" | "at">,
+): string {
+  return [
+    "EMPOWERTOURS RIGHTS DISPUTE DECISION",
+    `Dispute: ${d.id}`,
+    `Token ID: ${d.tokenId}`,
+    `Filing: ${d.digest}`,
+    `Response: ${d.response?.digest ?? "none"}`,
+    `Outcome: ${decision.outcome}`,
+    `Decided by: ${decision.admin.toLowerCase()}`,
+    `Decided: ${new Date(decision.at).toISOString()}`,
+    "",
+    decision.reason,
+  ].join("\n");
+}
+
+export const textDigest = (text: string): Hex => keccak256(stringToBytes(text));
+
+/** What the claimant's wallet signs. */
+export function filingMessage(f: DisputeFiling): string {
+  return [
+    "EmpowerTours Rights Dispute",
+    "",
+    `Action: file`,
+    `Token ID: ${f.tokenId}`,
+    `Grounds: ${f.grounds}`,
+    `Filing: ${textDigest(filingText(f))}`,
+    "",
+    "I declare that this claim is made in good faith.",
+  ].join("\n");
+}
+
+/** What the artist's wallet signs. */
+export function responseMessage(
+  disputeId: string,
+  r: Pick<DisputeResponse, "statement" | "evidence" | "at">,
+): string {
+  return [
+    "EmpowerTours Rights Dispute",
+    "",
+    `Action: respond`,
+    `Dispute: ${disputeId}`,
+    `Response: ${textDigest(responseText(disputeId, r))}`,
+  ].join("\n");
+}
+
+export function withdrawalMessage(disputeId: string, at: number): string {
+  return [
+    "EmpowerTours Rights Dispute",
+    "",
+    `Action: withdraw`,
+    `Dispute: ${disputeId}`,
+    `Timestamp: ${at}`,
+  ].join("\n");
+}
+
+/** Signed through authenticateAdminAction; the reason is covered by its digest. */
+export function decisionDetails(
+  disputeId: string,
+  outcome: DisputeDecision["outcome"],
+  reason: string,
+): string {
+  return `${disputeId} ${outcome} ${textDigest(tidy(reason, MAX_REASON_LENGTH))}`;
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/** Normalise and check a filing. Throws {@link DisputeError} (400) when it is not acceptable. */
+export function buildFiling(input: {
+  tokenId: unknown;
+  claimant: unknown;
+  grounds: unknown;
+  statement: unknown;
+  evidence: unknown;
+  filedAt: unknown;
+}): DisputeFiling {
+  const filing: DisputeFiling = {
+    tokenId: String(input.tokenId ?? ""),
+    claimant: String(input.claimant ?? "").toLowerCase(),
+    grounds: input.grounds as DisputeGrounds,
+    statement: tidy(input.statement, MAX_STATEMENT_LENGTH),
+    evidence: normalizeEvidence(input.evidence),
+    filedAt: Number(input.filedAt),
+  };
+  if (!/^\d+$/.test(filing.tokenId)) {
+    throw new DisputeError("tokenId is required", 400);
+  }
+  if (!/^0x[0-9a-f]{40}$/.test(filing.claimant)) {
+    throw new DisputeError("claimant must be a wallet address", 400);
+  }
+  if (!DISPUTE_GROUNDS.includes(filing.grounds)) {
+    throw new DisputeError(
+      `grounds must be one of: ${DISPUTE_GROUNDS.join(", ")}`,
+      400,
+    );
+  }
+  if (filing.statement.length < 20) {
+    throw new DisputeError("Describe the claim in at least 20 characters", 400);
+  }
+  const evidenceProblem = validateEvidence(filing.evidence);
+  if (evidenceProblem) throw new DisputeError(evidenceProblem, 400);
+  if (!Number.isFinite(filing.filedAt)) {
+    throw new DisputeError("filedAt is required", 400);
+  }
+  return filing;
+}
+
+export function openDispute(
+  id: string,
+  filing: DisputeFiling,
+  artist: string,
+  signature: string,
+): RightsDispute {
+  return {
+    ...filing,
+    id,
+    artist: artist.toLowerCase(),
+    digest: textDigest(filingText(filing)),
+    signature,
+    status: "open",
+    claimHold: "holding",
+    log: [{ at: filing.filedAt, actor: filing.claimant, action: "filed" }],
+  };
+}
+
+export const isOpen = (d: RightsDispute) =>
+  d.status === "open" || d.status === "answered";
+
+/** Normalise and check the artist's response, before it is signed or verified. */
+export function buildResponse(input: {
+  statement: unknown;
+  evidence: unknown;
+  at: unknown;
+}): Pick<DisputeResponse, "statement" | "evidence" | "at"> {
+  const response = {
+    statement: tidy(input.statement, MAX_STATEMENT_LENGTH),
+    evidence: normalizeEvidence(input.evidence),
+    at: Number(input.at),
+  };
+  if (!response.statement) {
+    throw new DisputeError("A response statement is required", 400);
+  }
+  const evidenceProblem = validateEvidence(response.evidence);
+  if (evidenceProblem) throw new DisputeError(evidenceProblem, 400);
+  if (!Number.isFinite(response.at)) {
+    throw new DisputeError("at is required", 400);
+  }
+  return response;
+}
+
+/** Record the artist's one response. Mutates `d`. */
+export function respondToDispute(
+  d: RightsDispute,
+  input: Pick<DisputeResponse, "statement" | "evidence" | "at">,
+  signature: string,
+): DisputeResponse {
+  if (!isOpen(d)) throw new DisputeError(`Dispute is ${d.status}`);
+  if (d.response) throw new DisputeError("The artist has already responded");
+  const response: DisputeResponse = {
+    ...input,
+    digest: textDigest(responseText(d.id, input)),
+    signature,
+  };
+  d.response = response;
+  d.status = "answered";
+  d.log.push({ at: input.at, actor: d.artist, action: "responded" });
+  return response;
+}
+
+/**
+ * Record the admin's decision. Mutates `d`. An upheld dispute keeps its claim hold — the
+ * claimant is owed that share — while a rejected one releases it to the artist.
+ */
+export function resolveDispute(
+  d: RightsDispute,
+  input: {
+    outcome: DisputeDecision["outcome"];
+    reason: unknown;
+    admin: string;
+    at: number;
+  },
+  signature: string,
+): DisputeDecision {
+  if (!isOpen(d)) throw new DisputeError(`Dispute is already ${d.status}`);
+  if (input.outcome !== "upheld" && input.outcome !== "rejected") {
+    throw new DisputeError('outcome must be "upheld" or "rejected"', 400);
+  }
+  const reason = tidy(input.reason, MAX_REASON_LENGTH);
+  if (!reason) throw new DisputeError("A decision needs a written reason", 400);
+
+  const base = {
+    outcome: input.outcome,
+    reason,
+    admin: input.admin.toLowerCase(),
+    at: input.at,
+  };
+  const decision: DisputeDecision = {
+    ...base,
+    hash: textDigest(decisionText(d, base)),
+    signature,
+  };
+  d.decision = decision;
+  d.status = input.outcome;
+  if (input.outcome === "rejected") d.claimHold = "released";
+  d.log.push({ at: input.at, actor: base.admin, action: input.outcome });
+  return decision;
+}
+
+/** The claimant drops the claim. Mutates `d`. */
+export function withdrawDispute(d: RightsDispute, at: number): void {
+  if (!isOpen(d)) throw new DisputeError(`Dispute is ${d.status}`);
+  d.status = "withdrawn";
+  d.claimHold = "released";
+  d.log.push({ at, actor: d.claimant, action: "withdrawn" });
+}
+
+/** After an upheld decision: how the held share reached the claimant. Mutates `d`. */
+export function settleClaimHold(
+  d: RightsDispute,
+  input: { by: string; at: number; note: unknown; txHash?: unknown },
+): void {
+  if (d.status !== "upheld" || d.claimHold !== "holding") {
+    throw new DisputeError(
+      "Only an upheld dispute's claim hold can be settled",
+    );
+  }
+  const note = tidy(input.note, MAX_REASON_LENGTH);
+  if (!note) throw new DisputeError("Describe how the claimant was paid", 400);
+  const txHash = input.txHash ? String(input.txHash).toLowerCase() : undefined;
+  if (txHash && !/^0x[0-9a-f]{64}$/.test(txHash)) {
+    throw new DisputeError("txHash is not a transaction hash", 400);
+  }
+  d.claimHold = "settled";
+  d.claimHoldSettlement = {
+    by: input.by.toLowerCase(),
+    at: input.at,
+    note,
+    txHash,
+  };
+  d.log.push({
+    at: input.at,
+    actor: input.by.toLowerCase(),
+    action: "hold-settled",
+    note,
+  });
+}
+
+/** True when the stored texts still hash to the digests that were signed. */
+export function verifyDisputeRecord(d: RightsDispute): boolean {
+  if (textDigest(filingText(d)) !== d.digest) return false;
+  if (
+    d.response &&
+    textDigest(responseText(d.id, d.response)) !== d.response.digest
+  ) {
+    return false;
+  }
+  if (
+    d.decision &&
+    textDigest(decisionText(d, d.decision)) !== d.decision.hash
+  ) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// CLAIM HOLDS
+// ============================================================================
+
+export interface UnclaimedMonth {
+  monthId: number;
+  /** The artist's plays in the month, as the contract counts them. */
+  playCount: number;
+  payoutWei: string;
+}
+
+export interface MonthHold {
+  monthId: number;
+  heldWei: string;
+  masters: string[];
+  disputeIds: string[];
+}
+
+/**
+ * Which of an artist's unclaimed months are held, and how much of each is the disputed
+ * masters' share. `trackPlays[monthId][tokenId]` comes from the indexer; a month whose disputed
+ * masters were never played is not held at all.
+ */
+export function claimHolds(
+  months: UnclaimedMonth[],
+  trackPlays: Record<number, Record<string, number>>,
+  disputes: RightsDispute[],
+): MonthHold[] {
+  const holding = disputes.filter((d) => d.claimHold === "holding");
+  const holds: MonthHold[] = [];
+  for (const m of months) {
+    const plays = trackPlays[m.monthId] || {};
+    const masters = [...new Set(holding.map((d) => d.tokenId))].filter(
+      (id) => (plays[id] || 0) > 0,
+    );
+    if (masters.length === 0 || m.playCount <= 0) continue;
+    const disputed = Math.min(
+      masters.reduce((sum, id) => sum + plays[id], 0),
+      m.playCount,
+    );
+    holds.push({
+      monthId: m.monthId,
+      heldWei: (
+        (BigInt(m.payoutWei) * BigInt(disputed)) /
+        BigInt(m.playCount)
+      ).toString(),
+      masters,
+      disputeIds: holding
+        .filter((d) => masters.includes(d.tokenId))
+        .map((d) => d.id),
+    });
+  }
+  return holds;
+}
+
+// ============================================================================
+// REFUNDS
+// ============================================================================
+
+/** Records that `r` was refunded; the note says how, the txHash where. */
+export function settleRefund(
+  r: RefundDue,
+  input: { by: string; at: number; note: unknown; txHash?: unknown },
+): void {
+  if (r.refund) throw new DisputeError("This refund was already recorded");
+  const note = tidy(input.note, MAX_REASON_LENGTH);
+  if (!note) throw new DisputeError("Describe how the refund was sent", 400);
+  const txHash = input.txHash ? String(input.txHash).toLowerCase() : undefined;
+  if (txHash && !/^0x[0-9a-f]{64}$/.test(txHash)) {
+    throw new DisputeError("txHash is not a transaction hash", 400);
+  }
+  r.refund = { by: input.by.toLowerCase(), at: input.at, note, txHash };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function nextDisputeId(redis: Pick<Redis, "incr">) {
+  return `RD-${await redis.incr(DISPUTE_KEYS.seq)}`;
+}
+
+export async function getDispute(
+  redis: Pick<Redis, "get">,
+  id: string,
+): Promise<RightsDispute | null> {
+  return parseMaybeJson<RightsDispute>(
+    await redis.get(DISPUTE_KEYS.dispute(id)),
+  );
+}
+
+export async function saveDispute(
+  redis: Pick<Redis, "set">,
+  d: RightsDispute,
+): Promise<void> {
+  await redis.set(DISPUTE_KEYS.dispute(d.id), JSON.stringify(d));
+}
+
+export async function getDisputes(
+  redis: Pick<Redis, "get">,
+  ids: string[],
+): Promise<RightsDispute[]> {
+  const disputes = await Promise.all(ids.map((id) => getDispute(redis, id)));
+  return disputes.filter((d): d is RightsDispute => d !== null);
+}
+
+/** Every dispute against a master, newest first. */
+export async function listTokenDisputes(
+  redis: Pick<Redis, "get" | "lrange">,
+  tokenId: string,
+): Promise<RightsDispute[]> {
+  return getDisputes(
+    redis,
+    await redis.lrange<string>(DISPUTE_KEYS.byToken(tokenId), 0, -1),
+  );
+}
+
+/** Disputes whose claim hold still marks some of an artist's unclaimed months. */
+export async function listHoldingDisputes(
+  redis: Pick<Redis, "get" | "smembers">,
+  artist: string,
+): Promise<RightsDispute[]> {
+  return getDisputes(redis, await redis.smembers(DISPUTE_KEYS.holding(artist)));
+}
+
+/**
+ * Drop a closed dispute from the open and holding indexes. Returns how many disputes are still
+ * open against the same master, so the caller knows whether its hold can be lifted.
+ */
+export async function closeDisputeIndexes(
+  redis: Pick<Redis, "srem" | "scard">,
+  d: RightsDispute,
+): Promise<number> {
+  await Promise.all([
+    redis.srem(DISPUTE_KEYS.open, d.id),
+    redis.srem(DISPUTE_KEYS.openByToken(d.tokenId), d.id),
+    redis.srem(DISPUTE_KEYS.openByClaimant(d.claimant), d.id),
+    d.claimHold === "holding"
+      ? Promise.resolve(0)
+      : redis.srem(DISPUTE_KEYS.holding(d.artist), d.id),
+  ]);
+  return redis.scard(DISPUTE_KEYS.openByToken(d.tokenId));
+}
+
+export async function recordRefundDue(
+  redis: Pick<Redis, "hset" | "sadd">,
+  r: RefundDue,
+): Promise<void> {
+  await redis.hset(DISPUTE_KEYS.refunds, { [r.id]: JSON.stringify(r) });
+  await redis.sadd(DISPUTE_KEYS.refundsDue, r.id);
+}
+
+export async function getRefund(
+  redis: Pick<Redis, "hget">,
+  id: string,
+): Promise<RefundDue | null> {
+  return parseMaybeJson<RefundDue>(await redis.hget(DISPUTE_KEYS.refunds, id));
+}
+
+/** Refunds not yet sent, oldest drop first. */
+export async function listRefundsDue(
+  redis: Pick<Redis, "smembers" | "hmget">,
+): Promise<RefundDue[]> {
+  const ids = await redis.smembers(DISPUTE_KEYS.refundsDue);
+  if (ids.length === 0) return [];
+  const values = await redis.hmget<Record<string, unknown>>(
+    DISPUTE_KEYS.refunds,
+    ...ids,
+  );
+  return ids
+    .map((id) => parseMaybeJson<RefundDue>(values?.[id]))
+    .filter((r): r is RefundDue => r !== null)
+    .sort((a, b) => a.droppedAt - b.droppedAt);
+}
+
+export async function saveSettledRefund(
+  redis: Pick<Redis, "hset" | "srem">,
+  r: RefundDue,
+): Promise<void> {
+  await redis.hset(DISPUTE_KEYS.refunds, { [r.id]: JSON.stringify(r) });
+  await redis.srem(DISPUTE_KEYS.refundsDue, r.id);
+}
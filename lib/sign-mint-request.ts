@@ -41,6 +41,23 @@ export interface SignMintRequestInput {
   }) => Promise<Hex>;
 }
 
+/**
+ * The fingerprint check execute-delegated makes before it mints (lib/mint-fingerprint.ts), made
+ * here first so a recording already on the platform is refused before the artist signs for it.
+ */
+async function screenRecording(artist: Address, uri: string): Promise<void> {
+  const res = await fetch("/api/mint-music/screen", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ artist, tokenURI: uri }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(body.error || "Could not check the track. Try again.");
+  }
+  if (body.verdict === "block") throw new Error(body.reason);
+}
+
 export async function signMintRequest(input: SignMintRequestInput): Promise<{
   mintRequest: Record<string, string | number>;
   mintSignature: Hex;
@@ -71,6 +88,7 @@ export async function signMintRequest(input: SignMintRequestInput): Promise<{
   // something reads as "the app is broken", not "that price was invalid".
   const problem = validateMintRequest(request);
   if (problem) throw new Error(problem);
+  if (input.nftType === 0) await screenRecording(input.artist, input.uri);
 
   const mintSignature = await input.signTypedData({
     domain: mintDomain(CHAIN_ID, salesController) as unknown as Record<
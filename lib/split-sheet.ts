@@ -0,0 +1,569 @@
+import { keccak256, stringToBytes, type Hex } from "viem";
+import type { Redis } from "@upstash/redis";
+import type { EarningsStatement } from "./earnings-statement";
+
+/**
+ * Split sheets: who owns a share of a master, in basis points.
+ *
+ * The contracts know one wallet per master — `originalArtist` — and pay it everything: the
+ * artist-pool claim, 90% of every license sale, every radio tip. A split sheet is the record of
+ * how that money is owed onwards to the producer, featured artist or co-writer, and the rights
+ * declaration now carries its hash the same way it carries the agreement hash.
+ *
+ * ## Signed by everyone it names
+ *
+ * The artist proposes a sheet and signs it; every other payee countersigns their own copy of the
+ * message (which states their share). A sheet becomes active only when the last payee signs, so
+ * nobody is listed on — or cut out of — a split they did not agree to. The signatures are the
+ * evidence and are kept with the sheet.
+ *
+ * ## Versioned, never edited
+ *
+ * Changing a split means proposing the next version. The old one stays readable and keeps
+ * governing the money earned while it was in force; the new one takes over from the moment it
+ * activates. A version proposed while another is still collecting signatures withdraws it.
+ *
+ * ## Settled by the artist, not routed
+ *
+ * Nothing here moves money on its own. The pool pays `msg.sender`, license sales and tips pay
+ * `originalArtist`, and none of the contracts takes a payee list or pays on anyone's behalf, so
+ * every payment lands whole in the artist's wallet and only that wallet can pass it on
+ * (lib/artist-claim.ts). A split sheet is the agreement and a ledger: for a month's statement,
+ * {@link splitTransfers} lists what each co-owner is owed and from which payment, and the artist
+ * pays it out. The settlement ledger records which of those have been paid, by transaction, so
+ * nothing is owed — or paid — twice. A co-owner is paid when the artist settles, and the signed
+ * sheet is their record of what is owed until then. Paying them directly needs payees in the
+ * contracts.
+ */
+
+export const SPLIT_TOTAL_BPS = 10_000;
+export const MAX_SPLIT_PAYEES = 10;
+const MAX_NAME_LENGTH = 60;
+
+export const SPLIT_ROLES = [
+  "artist",
+  "producer",
+  "featured-artist",
+  "co-writer",
+  "other",
+] as const;
+export type SplitRole = (typeof SPLIT_ROLES)[number];
+
+export const SPLIT_KEYS = {
+  sheet: (tokenId: string, version: number) =>
+    `rights:splits:${tokenId}:v${version}`,
+  latest: (tokenId: string) => `rights:splits:${tokenId}:latest`,
+  /** Set of masters an artist has ever proposed a sheet for. */
+  artistMasters: (artist: string) =>
+    `rights:splits:artist:${artist.toLowerCase()}`,
+  /** Hash: transfer key → settlement tx hash. */
+  settled: (artist: string, monthId: number) =>
+    `splits:settled:${artist.toLowerCase()}:${monthId}`,
+  /** A settlement tx can only be recorded once. */
+  settlementTx: (txHash: string) =>
+    `splits:settlement-tx:${txHash.toLowerCase()}`,
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SplitPayee {
+  address: string;
+  role: SplitRole;
+  /** Display name as the artist typed it. Part of the signed text. */
+  name?: string;
+  bps: number;
+}
+
+/** Everything the hash covers. */
+export interface SplitSheetBody {
+  tokenId: string;
+  version: number;
+  artist: string;
+  payees: SplitPayee[];
+  /** Hash of the active sheet this one replaces, or null for the first. */
+  supersedes: string | null;
+}
+
+export interface SplitSignature {
+  address: string;
+  signature: string;
+  signedAt: number;
+}
+
+export type SplitSheetStatus =
+  | "pending"
+  | "active"
+  | "superseded"
+  | "withdrawn";
+
+export interface SplitSheet extends SplitSheetBody {
+  hash: string;
+  status: SplitSheetStatus;
+  signatures: SplitSignature[];
+  createdAt: number;
+  activatedAt?: number;
+  /** When the next version activated, or this one was withdrawn. */
+  endedAt?: number;
+}
+
+/** What the rights record keeps about the sheet in force. */
+export interface SplitSheetRef {
+  version: number;
+  hash: string;
+  activatedAt: number;
+}
+
+export type SplitSource = "artist-pool" | "license" | "tip";
+
+export interface SplitTransfer {
+  /** Stable id of this obligation: one payee's share of one payment. */
+  key: string;
+  masterTokenId: string;
+  version: number;
+  payee: string;
+  role: SplitRole;
+  source: SplitSource;
+  /** The payment being split; null for the artist pool, which is claimed per month. */
+  sourceTxHash: string | null;
+  amountWei: string;
+  /** Settlement tx once paid. */
+  settledTxHash?: string;
+}
+
+export class SplitSheetError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "SplitSheetError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// TEXT, HASH, SIGNATURES
+// ============================================================================
+
+const pct = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+/** Names are free text inside a signed document: one line, bounded. */
+export function normalizePayeeName(name: unknown): string | undefined {
+  if (typeof name !== "string") return undefined;
+  const clean = name.replace(/\s+/g, " ").trim().slice(0, MAX_NAME_LENGTH);
+  return clean || undefined;
+}
+
+/**
+ * Reject a sheet that could not be paid out as written. Returns the first problem, or null.
+ *
+ * The artist must be on the sheet, as "artist": the artist's wallet is where every payment
+ * lands, and it absorbs the rounding dust when a payment is split.
+ */
+export function validateSplitPayees(
+  payees: SplitPayee[],
+  artist: string,
+): string | null {
+  if (!Array.isArray(payees) || payees.length === 0) {
+    return "A split sheet needs at least one payee";
+  }
+  if (payees.length > MAX_SPLIT_PAYEES) {
+    return `A split sheet can list at most ${MAX_SPLIT_PAYEES} payees`;
+  }
+  const seen = new Set<string>();
+  let total = 0;
+  for (const p of payees) {
+    if (!/^0x[0-9a-fA-F]{40}$/.test(p.address || "")) {
+      return `Invalid payee address: ${p.address}`;
+    }
+    const address = p.address.toLowerCase();
+    if (seen.has(address)) return `${address} is listed twice`;
+    seen.add(address);
+    if (!SPLIT_ROLES.includes(p.role)) return `Unknown role: ${p.role}`;
+    if ((p.role === "artist") !== (address === artist.toLowerCase())) {
+      return 'The master\'s artist, and only the artist, has the role "artist"';
+    }
+    if (!Number.isInteger(p.bps) || p.bps <= 0) {
+      return "Every share must be a whole number of basis points above zero";
+    }
+    total += p.bps;
+  }
+  if (!seen.has(artist.toLowerCase())) {
+    return "The master's artist must be on the split sheet";
+  }
+  if (total !== SPLIT_TOTAL_BPS) {
+    return `Shares add up to ${pct(total)}, not 100%`;
+  }
+  return null;
+}
+
+/** Lower-cased addresses, normalised names, artist first then largest share. */
+export function normalizeSplitPayees(payees: SplitPayee[]): SplitPayee[] {
+  return payees
+    .map((p) => {
+      const name = normalizePayeeName(p.name);
+      return {
+        address: p.address.toLowerCase(),
+        role: p.role,
+        ...(name ? { name } : {}),
+        bps: p.bps,
+      };
+    })
+    .sort(
+      (a, b) =>
+        Number(b.role === "artist") - Number(a.role === "artist") ||
+        b.bps - a.bps ||
+        a.address.localeCompare(b.address),
+    );
+}
+
+/** The document the hash is over. Rebuilt from the body, so it can always be re-verified. */
+export function splitSheetText(body: SplitSheetBody): string {
+  const lines = [
+    "EMPOWERTOURS SPLIT SHEET",
+    `Master token: #${body.tokenId}`,
+    `Version: ${body.version}`,
+    `Artist: ${body.artist.toLowerCase()}`,
+    `Supersedes: ${body.supersedes ?? "none"}`,
+    "",
+    "Each payee below is owed this share of every payment the Artist receives for the master:",
+    "the monthly artist-pool payout, license sales and radio tips.",
+    "",
+    ...body.payees.map(
+      (p, i) =>
+        `${i + 1}. ${p.address.toLowerCase()} | ${p.role} | ${pct(p.bps)} (${p.bps} bps)` +
+        (p.name ? ` | ${p.name}` : ""),
+    ),
+    "",
+    `TOTAL: ${pct(body.payees.reduce((sum, p) => sum + p.bps, 0))}`,
+  ];
+  return lines.join("\n");
+}
+
+export function splitSheetHash(body: SplitSheetBody): Hex {
+  return keccak256(stringToBytes(splitSheetText(body)));
+}
+
+/** True when the stored hash is the hash of the stored body. */
+export function verifySplitSheetHash(sheet: SplitSheet): boolean {
+  return splitSheetHash(sheet) === sheet.hash;
+}
+
+/** What `address` signs. Each payee's copy names their own share. */
+export function splitSignatureMessage(
+  body: SplitSheetBody,
+  hash: string,
+  address: string,
+): string {
+  const payee = body.payees.find(
+    (p) => p.address.toLowerCase() === address.toLowerCase(),
+  );
+  const share = payee ? `${pct(payee.bps)} (${payee.role})` : "none";
+  return `EmpowerTours Split Sheet
+
+Master token: #${body.tokenId}
+Version: ${body.version}
+Sheet hash: ${hash}
+Signer: ${address.toLowerCase()}
+Your share: ${share}
+
+I agree to this split sheet and to being paid my share of this master's earnings as listed.`;
+}
+
+/** Payees who have not signed yet. */
+export function missingSignatures(sheet: SplitSheet): string[] {
+  const signed = new Set(sheet.signatures.map((s) => s.address.toLowerCase()));
+  return sheet.payees
+    .map((p) => p.address.toLowerCase())
+    .filter((a) => !signed.has(a));
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * A new pending sheet. The artist's signature is verified by the caller and passed in, so the
+ * proposal is also the artist's own countersignature.
+ */
+export function proposeSplitSheet(
+  body: Omit<SplitSheetBody, "payees"> & { payees: SplitPayee[] },
+  artistSignature: string,
+  now: number,
+): SplitSheet {
+  const payees = normalizeSplitPayees(body.payees);
+  const problem = validateSplitPayees(payees, body.artist);
+  if (problem) throw new SplitSheetError(problem, 400);
+  const full: SplitSheetBody = {
+    ...body,
+    artist: body.artist.toLowerCase(),
+    payees,
+  };
+  return {
+    ...full,
+    hash: splitSheetHash(full),
+    status: "pending",
+    signatures: [
+      {
+        address: full.artist,
+        signature: artistSignature,
+        signedAt: now,
+      },
+    ],
+    createdAt: now,
+  };
+}
+
+/** Record a verified countersignature. Returns true when it completes the sheet. */
+export function addSplitSignature(
+  sheet: SplitSheet,
+  address: string,
+  signature: string,
+  now: number,
+): boolean {
+  const a = address.toLowerCase();
+  if (sheet.status !== "pending") {
+    throw new SplitSheetError(`Version ${sheet.version} is ${sheet.status}`);
+  }
+  if (!sheet.payees.some((p) => p.address === a)) {
+    throw new SplitSheetError(`${a} is not on this split sheet`, 403);
+  }
+  if (sheet.signatures.some((s) => s.address === a)) {
+    throw new SplitSheetError("Already signed");
+  }
+  sheet.signatures.push({ address: a, signature, signedAt: now });
+  return missingSignatures(sheet).length === 0;
+}
+
+/**
+ * Put a fully signed sheet in force. The previous active version ends at the same instant, so
+ * every moment is governed by at most one sheet. Returns every sheet that changed.
+ */
+export function activateSplitSheet(
+  sheets: SplitSheet[],
+  sheet: SplitSheet,
+  now: number,
+): SplitSheet[] {
+  const changed: SplitSheet[] = [];
+  for (const s of sheets) {
+    if (s.version !== sheet.version && s.status === "active") {
+      s.status = "superseded";
+      s.endedAt = now;
+      changed.push(s);
+    }
+  }
+  sheet.status = "active";
+  sheet.activatedAt = now;
+  changed.push(sheet);
+  return changed;
+}
+
+/** Pending versions a new proposal replaces. Returns the ones withdrawn. */
+export function withdrawPendingSheets(
+  sheets: SplitSheet[],
+  now: number,
+): SplitSheet[] {
+  const withdrawn = sheets.filter((s) => s.status === "pending");
+  for (const s of withdrawn) {
+    s.status = "withdrawn";
+    s.endedAt = now;
+  }
+  return withdrawn;
+}
+
+/** The sheet that governed money earned at `atMs`, if any. */
+export function sheetInForce(
+  sheets: SplitSheet[],
+  atMs: number,
+): SplitSheet | null {
+  return (
+    sheets.find(
+      (s) =>
+        s.activatedAt !== undefined &&
+        s.activatedAt <= atMs &&
+        (s.status === "active" ||
+          (s.status === "superseded" &&
+            s.endedAt !== undefined &&
+            atMs < s.endedAt)),
+    ) ?? null
+  );
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/** Floor each share; the rounding dust stays with the artist. */
+export function allocateSplit(
+  amountWei: bigint,
+  payees: SplitPayee[],
+): Map<string, bigint> {
+  const out = new Map<string, bigint>();
+  let given = 0n;
+  for (const p of payees) {
+    if (p.role === "artist") continue;
+    const share = (amountWei * BigInt(p.bps)) / BigInt(SPLIT_TOTAL_BPS);
+    out.set(p.address, share);
+    given += share;
+  }
+  const artist = payees.find((p) => p.role === "artist");
+  if (artist) out.set(artist.address, amountWei - given);
+  return out;
+}
+
+/**
+ * What the artist owes co-owners for one month's statement.
+ *
+ * Only money already in the artist's wallet is owed on: license sales and tips as they happened,
+ * the artist pool once claimed. The pool is one payment per artist, so it is first apportioned
+ * across masters by subscription plays — the same plays the contract paid on. Each payment is
+ * split by the sheet in force when it was earned; the pool by the one in force when the month
+ * closed. The artist's own share is not a transfer and is left out.
+ */
+export function splitTransfers(
+  statement: EarningsStatement,
+  sheetsByToken: Record<string, SplitSheet[]>,
+): SplitTransfer[] {
+  const transfers: SplitTransfer[] = [];
+  const route = (
+    source: SplitSource,
+    masterTokenId: string,
+    amountWei: bigint,
+    atMs: number,
+    sourceTxHash: string | null,
+  ) => {
+    const sheet = sheetInForce(sheetsByToken[masterTokenId] || [], atMs);
+    if (!sheet || amountWei <= 0n) return;
+    const shares = allocateSplit(amountWei, sheet.payees);
+    for (const p of sheet.payees) {
+      const amount = shares.get(p.address) || 0n;
+      if (p.role === "artist" || amount === 0n) continue;
+      const ref = sourceTxHash?.toLowerCase() ?? `month-${statement.monthId}`;
+      transfers.push({
+        key: `${source}:${ref}:${masterTokenId}:${p.address}`,
+        masterTokenId,
+        version: sheet.version,
+        payee: p.address,
+        role: p.role,
+        source,
+        sourceTxHash,
+        amountWei: amount.toString(),
+      });
+    }
+  };
+
+  const pool = statement.artistPool;
+  const poolPlays = statement.totals.subscriptionPlays;
+  if (pool.status === "claimed" && poolPlays > 0) {
+    const closedAt = Date.parse(statement.period.end) - 1;
+    const share = BigInt(pool.shareWei);
+    for (const track of statement.tracks) {
+      if (!track.subscriptionPlays) continue;
+      route(
+        "artist-pool",
+        track.masterTokenId,
+        (share * BigInt(track.subscriptionPlays)) / BigInt(poolPlays),
+        closedAt,
+        null,
+      );
+    }
+  }
+
+  for (const line of statement.lines) {
+    if (
+      (line.kind !== "license" && line.kind !== "tip") ||
+      !line.masterTokenId
+    ) {
+      continue;
+    }
+    route(
+      line.kind,
+      line.masterTokenId,
+      BigInt(line.amountWei),
+      line.at * 1000,
+      line.txHash,
+    );
+  }
+
+  return transfers;
+}
+
+/** Sum of unsettled transfers per payee — one payment each. */
+export function outstandingByPayee(
+  transfers: SplitTransfer[],
+): { payee: string; amountWei: string; keys: string[] }[] {
+  const byPayee = new Map<string, { amount: bigint; keys: string[] }>();
+  for (const t of transfers) {
+    if (t.settledTxHash) continue;
+    const entry = byPayee.get(t.payee) || { amount: 0n, keys: [] };
+    entry.amount += BigInt(t.amountWei);
+    entry.keys.push(t.key);
+    byPayee.set(t.payee, entry);
+  }
+  return [...byPayee.entries()].map(([payee, e]) => ({
+    payee,
+    amountWei: e.amount.toString(),
+    keys: e.keys,
+  }));
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getSplitSheet(
+  redis: Pick<Redis, "get">,
+  tokenId: string,
+  version: number,
+): Promise<SplitSheet | null> {
+  return parseMaybeJson<SplitSheet>(
+    await redis.get(SPLIT_KEYS.sheet(tokenId, version)),
+  );
+}
+
+export async function saveSplitSheet(
+  redis: Pick<Redis, "set">,
+  sheet: SplitSheet,
+): Promise<void> {
+  await redis.set(
+    SPLIT_KEYS.sheet(sheet.tokenId, sheet.version),
+    JSON.stringify(sheet),
+  );
+}
+
+/** Every version of a master's split sheet, newest first. */
+export async function listSplitSheets(
+  redis: Pick<Redis, "get">,
+  tokenId: string,
+): Promise<SplitSheet[]> {
+  const latest = Number(await redis.get(SPLIT_KEYS.latest(tokenId))) || 0;
+  const sheets = await Promise.all(
+    Array.from({ length: latest }, (_, i) =>
+      getSplitSheet(redis, tokenId, latest - i),
+    ),
+  );
+  return sheets.filter((s): s is SplitSheet => s !== null);
+}
+
+export async function getSettledTransfers(
+  redis: Pick<Redis, "hgetall">,
+  artist: string,
+  monthId: number,
+): Promise<Record<string, string>> {
+  return (
+    (await redis.hgetall<Record<string, string>>(
+      SPLIT_KEYS.settled(artist, monthId),
+    )) || {}
+  );
+}
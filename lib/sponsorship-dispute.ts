@@ -0,0 +1,583 @@
+import type { Redis } from "@upstash/redis";
+import type {
+  ReleaseDecision,
+  Sponsorship,
+  SponsorshipStatus,
+} from "./sponsorship";
+
+/**
+ * Sponsorship disputes: what happens when the sponsor or the host does not accept how the
+ * attendee vote is going.
+ *
+ * ## Opening locks the escrow
+ *
+ * Either party can open a dispute while the attendee vote is open, with a statement and links to
+ * evidence (a recording of the mention, the run sheet, photos of the banner). The sponsorship
+ * moves to `disputed`, which `canFinalize` refuses, so the Platform Safe holds the WMON until a
+ * decision exists. Both parties can add evidence until the panel closes.
+ *
+ * ## The panel
+ *
+ * Guests who checked in to the event, and platform admins, each propose what share of the escrow
+ * the host should receive (0–100%). A guest's vote weighs {@link GUEST_VOTE_WEIGHT}, an admin's
+ * {@link ADMIN_VOTE_WEIGHT}; neither party can sit on its own panel. When the panel closes the
+ * outcome is the weighted median — the share at least half the panel's weight asked for no more
+ * than — so one outlier cannot drag a split to an extreme. A panel that closes below
+ * {@link PANEL_QUORUM_WEIGHT} is decided by an admin's written ruling instead.
+ *
+ * ## Settlement
+ *
+ * `shouldReleaseFunds` in lib/sponsorship.ts reads the outcome through {@link disputeRelease}, and
+ * {@link splitPayout} turns the share into two WMON transfers. Every step — opening, evidence,
+ * votes, the decision, the payout — is appended to the dispute's log with its timestamp and actor.
+ */
+
+export const MAX_EVIDENCE_ITEMS = 10;
+export const MAX_STATEMENT_LENGTH = 4000;
+const MAX_EVIDENCE_DESCRIPTION = 500;
+const MAX_NOTE_LENGTH = 1000;
+
+/** How long the panel sits after a dispute is opened. */
+export const PANEL_WINDOW_MS = 48 * 60 * 60 * 1000;
+export const GUEST_VOTE_WEIGHT = 1;
+export const ADMIN_VOTE_WEIGHT = 3;
+/** Total vote weight the panel needs for its median to stand. */
+export const PANEL_QUORUM_WEIGHT = 3;
+export const FULL_SHARE_BPS = 10_000;
+
+export const SPONSORSHIP_DISPUTE_KEYS = {
+  dispute: (id: string) => `sponsorship:dispute:${id}`,
+  seq: "sponsorship:dispute:seq",
+  /** Set of disputes that are open or awaiting settlement. */
+  open: "sponsorship:dispute:open",
+};
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DisputeParty = "sponsor" | "host";
+export type PanelRole = "guest" | "admin";
+
+export interface DisputeEvidence {
+  url: string;
+  description: string;
+  addedBy: string;
+  at: number;
+}
+
+export interface PanelVote {
+  voter: string;
+  role: PanelRole;
+  weight: number;
+  /** Share of the escrow this panelist would pay the host, in basis points. */
+  hostShareBps: number;
+  note?: string;
+  at: number;
+}
+
+export interface DisputeOutcome {
+  hostShareBps: number;
+  decidedBy: "panel" | "admin";
+  /** The admin for a ruling; "panel" otherwise. */
+  decider: string;
+  reason: string;
+  totalWeight: number;
+  at: number;
+}
+
+export interface DisputeSettlement {
+  by: string;
+  at: number;
+  hostWei: string;
+  sponsorWei: string;
+  txHash: string | null;
+}
+
+export interface DisputeEvent {
+  at: number;
+  actor: string;
+  action:
+    | "opened"
+    | "evidence"
+    | "voted"
+    | "resolved"
+    | "ruled"
+    | "withdrawn"
+    | "settled";
+  note?: string;
+}
+
+export interface SponsorshipDispute {
+  id: string;
+  sponsorshipId: string;
+  openedBy: DisputeParty;
+  opener: string;
+  statement: string;
+  evidence: DisputeEvidence[];
+  openedAt: number;
+  panelClosesAt: number;
+  /** Restored if the dispute is withdrawn. */
+  statusBefore: SponsorshipStatus;
+  status: "open" | "resolved" | "withdrawn" | "settled";
+  votes: PanelVote[];
+  outcome?: DisputeOutcome;
+  settlement?: DisputeSettlement;
+  log: DisputeEvent[];
+}
+
+export class SponsorshipDisputeError extends Error {
+  readonly status: number;
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = "SponsorshipDisputeError";
+    this.status = status;
+  }
+}
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+const tidy = (text: unknown, max: number) =>
+  String(text ?? "")
+    .replace(/\r\n/g, "\n")
+    .trim()
+    .slice(0, max);
+
+const same = (a: string | null | undefined, b: string) =>
+  !!a && a.toLowerCase() === b.toLowerCase();
+
+export function partyOf(s: Sponsorship, address: string): DisputeParty | null {
+  if (same(s.sponsorAddress, address)) return "sponsor";
+  if (same(s.hostAddress, address)) return "host";
+  return null;
+}
+
+/** Who may sit on the panel: admins, and guests who checked in — never the parties themselves. */
+export function panelRole(
+  s: Sponsorship,
+  address: string,
+  isAdmin: boolean,
+): PanelRole | null {
+  if (partyOf(s, address)) return null;
+  if (isAdmin) return "admin";
+  if (s.checkedInGuests.some((g) => same(g, address))) return "guest";
+  return null;
+}
+
+/** Same window as `isVotingOpen` in lib/sponsorship.ts. */
+export function inVotingWindow(s: Sponsorship, now: number): boolean {
+  if (!s.votingDeadline) return false;
+  return now > (s.checkInEnd || 0) && now <= s.votingDeadline;
+}
+
+// ============================================================================
+// EVIDENCE
+// ============================================================================
+
+/** Links only, https:// or ipfs://, so every item can be opened by the panel. */
+export function normalizeEvidence(
+  items: unknown,
+  addedBy: string,
+  at: number,
+): DisputeEvidence[] {
+  if (!Array.isArray(items)) return [];
+  const evidence = items.slice(0, MAX_EVIDENCE_ITEMS).map((item) => ({
+    url: String(item?.url ?? "").trim(),
+    description: tidy(item?.description, MAX_EVIDENCE_DESCRIPTION),
+    addedBy: addedBy.toLowerCase(),
+    at,
+  }));
+  for (const e of evidence) {
+    if (!/^(https:\/\/|ipfs:\/\/)\S+$/.test(e.url)) {
+      throw new SponsorshipDisputeError(
+        `Evidence links must be https:// or ipfs:// (got "${e.url.slice(0, 60)}")`,
+        400,
+      );
+    }
+  }
+  return evidence;
+}
+
+// ============================================================================
+// LIFECYCLE
+// ============================================================================
+
+/**
+ * Open a dispute and lock the sponsorship. Mutates `s`: its status becomes `disputed` and it
+ * points at the new dispute.
+ */
+export function openDispute(
+  id: string,
+  s: Sponsorship,
+  input: { opener: string; statement: unknown; evidence: unknown; at: number },
+): SponsorshipDispute {
+  const party = partyOf(s, input.opener);
+  if (!party) {
+    throw new SponsorshipDisputeError(
+      "Only the sponsor or the host can open a dispute",
+      403,
+    );
+  }
+  if (s.status === "disputed") {
+    throw new SponsorshipDisputeError("This sponsorship is already disputed");
+  }
+  if (["completed", "refunded", "cancelled"].includes(s.status)) {
+    throw new SponsorshipDisputeError(`Sponsorship is already ${s.status}`);
+  }
+  if (!inVotingWindow(s, input.at)) {
+    throw new SponsorshipDisputeError(
+      "Disputes can only be opened while attendees are voting",
+    );
+  }
+
+  const statement = tidy(input.statement, MAX_STATEMENT_LENGTH);
+  if (statement.length < 20) {
+    throw new SponsorshipDisputeError(
+      "Describe the dispute in at least 20 characters",
+      400,
+    );
+  }
+  const opener = input.opener.toLowerCase();
+  const evidence = normalizeEvidence(input.evidence, opener, input.at);
+  if (evidence.length === 0) {
+    throw new SponsorshipDisputeError("Attach at least one evidence link", 400);
+  }
+
+  const dispute: SponsorshipDispute = {
+    id,
+    sponsorshipId: s.id,
+    openedBy: party,
+    opener,
+    statement,
+    evidence,
+    openedAt: input.at,
+    panelClosesAt: input.at + PANEL_WINDOW_MS,
+    statusBefore: s.status,
+    status: "open",
+    votes: [],
+    log: [{ at: input.at, actor: opener, action: "opened", note: party }],
+  };
+  s.status = "disputed";
+  s.disputeId = id;
+  return dispute;
+}
+
+/** Either party adds evidence while the panel sits. Mutates `d`. */
+export function addEvidence(
+  d: SponsorshipDispute,
+  s: Sponsorship,
+  input: { by: string; evidence: unknown; at: number },
+): DisputeEvidence[] {
+  if (d.status !== "open")
+    throw new SponsorshipDisputeError(`Dispute is ${d.status}`);
+  if (!partyOf(s, input.by)) {
+    throw new SponsorshipDisputeError("Only the parties can add evidence", 403);
+  }
+  if (input.at > d.panelClosesAt) {
+    throw new SponsorshipDisputeError("The panel has closed");
+  }
+  const added = normalizeEvidence(input.evidence, input.by, input.at);
+  if (added.length === 0)
+    throw new SponsorshipDisputeError("No evidence given", 400);
+  if (d.evidence.length + added.length > MAX_EVIDENCE_ITEMS * 2) {
+    throw new SponsorshipDisputeError(
+      "This dispute has as much evidence as it can hold",
+    );
+  }
+  d.evidence.push(...added);
+  d.log.push({
+    at: input.at,
+    actor: input.by.toLowerCase(),
+    action: "evidence",
+    note: `${added.length} item${added.length === 1 ? "" : "s"}`,
+  });
+  return added;
+}
+
+/** Record one panelist's proposed split. Mutates `d`. */
+export function castPanelVote(
+  d: SponsorshipDispute,
+  input: {
+    voter: string;
+    role: PanelRole;
+    hostShareBps: unknown;
+    note?: unknown;
+    at: number;
+  },
+): PanelVote {
+  if (d.status !== "open")
+    throw new SponsorshipDisputeError(`Dispute is ${d.status}`);
+  if (input.at > d.panelClosesAt) {
+    throw new SponsorshipDisputeError("The panel has closed");
+  }
+  const voter = input.voter.toLowerCase();
+  if (d.votes.some((v) => v.voter === voter)) {
+    throw new SponsorshipDisputeError("Already voted on this dispute");
+  }
+  const share = Number(input.hostShareBps);
+  if (!Number.isInteger(share) || share < 0 || share > FULL_SHARE_BPS) {
+    throw new SponsorshipDisputeError(
+      "hostShareBps must be a whole number from 0 to 10000",
+      400,
+    );
+  }
+
+  const vote: PanelVote = {
+    voter,
+    role: input.role,
+    weight: input.role === "admin" ? ADMIN_VOTE_WEIGHT : GUEST_VOTE_WEIGHT,
+    hostShareBps: share,
+    at: input.at,
+  };
+  const note = tidy(input.note, MAX_NOTE_LENGTH);
+  if (note) vote.note = note;
+  d.votes.push(vote);
+  d.log.push({
+    at: input.at,
+    actor: voter,
+    action: "voted",
+    note: `${input.role} ${share}bps`,
+  });
+  return vote;
+}
+
+export interface PanelTally {
+  totalWeight: number;
+  quorum: boolean;
+  /** Weighted median of the proposed shares; null before anyone votes. */
+  hostShareBps: number | null;
+}
+
+export function tallyPanel(d: Pick<SponsorshipDispute, "votes">): PanelTally {
+  const totalWeight = d.votes.reduce((sum, v) => sum + v.weight, 0);
+  const sorted = [...d.votes].sort((a, b) => a.hostShareBps - b.hostShareBps);
+  let seen = 0;
+  let median: number | null = null;
+  for (const v of sorted) {
+    seen += v.weight;
+    if (seen * 2 >= totalWeight) {
+      median = v.hostShareBps;
+      break;
+    }
+  }
+  return {
+    totalWeight,
+    quorum: totalWeight >= PANEL_QUORUM_WEIGHT,
+    hostShareBps: median,
+  };
+}
+
+/** Close the panel and record its outcome. Anyone may trigger it once the window is over. */
+export function resolveByPanel(
+  d: SponsorshipDispute,
+  at: number,
+): DisputeOutcome {
+  if (d.status !== "open")
+    throw new SponsorshipDisputeError(`Dispute is ${d.status}`);
+  if (at <= d.panelClosesAt) {
+    throw new SponsorshipDisputeError("The panel is still sitting");
+  }
+  const tally = tallyPanel(d);
+  if (!tally.quorum || tally.hostShareBps === null) {
+    throw new SponsorshipDisputeError(
+      `The panel closed without a quorum (${tally.totalWeight}/${PANEL_QUORUM_WEIGHT}); an admin must rule`,
+    );
+  }
+  const outcome: DisputeOutcome = {
+    hostShareBps: tally.hostShareBps,
+    decidedBy: "panel",
+    decider: "panel",
+    reason: `Weighted median of ${d.votes.length} panel vote${d.votes.length === 1 ? "" : "s"}`,
+    totalWeight: tally.totalWeight,
+    at,
+  };
+  d.outcome = outcome;
+  d.status = "resolved";
+  d.log.push({
+    at,
+    actor: "panel",
+    action: "resolved",
+    note: `${outcome.hostShareBps}bps to host`,
+  });
+  return outcome;
+}
+
+/** An admin decides a dispute whose panel closed without a quorum. Mutates `d`. */
+export function ruleByAdmin(
+  d: SponsorshipDispute,
+  input: { admin: string; hostShareBps: unknown; reason: unknown; at: number },
+): DisputeOutcome {
+  if (d.status !== "open")
+    throw new SponsorshipDisputeError(`Dispute is ${d.status}`);
+  if (input.at <= d.panelClosesAt) {
+    throw new SponsorshipDisputeError(
+      "The panel is still sitting; vote on it instead",
+    );
+  }
+  if (tallyPanel(d).quorum) {
+    throw new SponsorshipDisputeError(
+      "The panel reached a quorum; resolve it from its votes",
+    );
+  }
+  const share = Number(input.hostShareBps);
+  if (!Number.isInteger(share) || share < 0 || share > FULL_SHARE_BPS) {
+    throw new SponsorshipDisputeError(
+      "hostShareBps must be a whole number from 0 to 10000",
+      400,
+    );
+  }
+  const reason = tidy(input.reason, MAX_NOTE_LENGTH);
+  if (!reason)
+    throw new SponsorshipDisputeError("A ruling needs a written reason", 400);
+
+  const admin = input.admin.toLowerCase();
+  const outcome: DisputeOutcome = {
+    hostShareBps: share,
+    decidedBy: "admin",
+    decider: admin,
+    reason,
+    totalWeight: tallyPanel(d).totalWeight,
+    at: input.at,
+  };
+  d.outcome = outcome;
+  d.status = "resolved";
+  d.log.push({
+    at: input.at,
+    actor: admin,
+    action: "ruled",
+    note: `${share}bps to host`,
+  });
+  return outcome;
+}
+
+/**
+ * The opener drops the dispute before anyone on the panel has voted. Mutates both: the
+ * sponsorship goes back to the status it had, and the normal finalize path applies again.
+ */
+export function withdrawDispute(
+  d: SponsorshipDispute,
+  s: Sponsorship,
+  input: { by: string; at: number },
+): void {
+  if (d.status !== "open")
+    throw new SponsorshipDisputeError(`Dispute is ${d.status}`);
+  if (!same(d.opener, input.by)) {
+    throw new SponsorshipDisputeError(
+      "Only whoever opened the dispute can withdraw it",
+      403,
+    );
+  }
+  if (d.votes.length > 0) {
+    throw new SponsorshipDisputeError(
+      "The panel has started voting; the dispute must be decided",
+    );
+  }
+  d.status = "withdrawn";
+  s.status = d.statusBefore;
+  s.disputeId = null;
+  d.log.push({ at: input.at, actor: d.opener, action: "withdrawn" });
+}
+
+// ============================================================================
+// RELEASE
+// ============================================================================
+
+/** What the escrow should do while a sponsorship is disputed. */
+export function disputeRelease(d: SponsorshipDispute | null): ReleaseDecision {
+  if (!d || d.status === "open" || !d.outcome) {
+    return {
+      release: false,
+      locked: true,
+      hostShareBps: 0,
+      reason: "Disputed: funds are locked until the panel decides",
+    };
+  }
+  const { hostShareBps, decidedBy } = d.outcome;
+  const percent = hostShareBps / 100;
+  const by = decidedBy === "panel" ? "panel" : "admin ruling";
+  return {
+    release: hostShareBps > 0,
+    locked: false,
+    hostShareBps,
+    reason:
+      hostShareBps === FULL_SHARE_BPS
+        ? `Dispute decided by ${by}: released to host`
+        : hostShareBps === 0
+          ? `Dispute decided by ${by}: refunded to sponsor`
+          : `Dispute decided by ${by}: ${percent}% to host, ${100 - percent}% refunded to sponsor`,
+  };
+}
+
+/** The escrow after the platform fee, divided by the outcome. Rounding favours the sponsor. */
+export function splitPayout(
+  amountWei: string,
+  platformFeeWei: string,
+  hostShareBps: number,
+): { hostWei: string; sponsorWei: string } {
+  const fee = BigInt(platformFeeWei || "0");
+  const escrow = BigInt(amountWei) - fee;
+  if (escrow < 0n)
+    throw new SponsorshipDisputeError("Platform fee exceeds the escrow", 400);
+  const host = (escrow * BigInt(hostShareBps)) / BigInt(FULL_SHARE_BPS);
+  return { hostWei: host.toString(), sponsorWei: (escrow - host).toString() };
+}
+
+/** Record the payout made for a resolved dispute. Mutates `d`. */
+export function settleDispute(
+  d: SponsorshipDispute,
+  settlement: DisputeSettlement,
+): void {
+  if (d.status !== "resolved") {
+    throw new SponsorshipDisputeError("Only a resolved dispute can be settled");
+  }
+  d.status = "settled";
+  d.settlement = { ...settlement, by: settlement.by.toLowerCase() };
+  d.log.push({
+    at: settlement.at,
+    actor: settlement.by.toLowerCase(),
+    action: "settled",
+    note: settlement.txHash ?? undefined,
+  });
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function nextSponsorshipDisputeId(redis: Pick<Redis, "incr">) {
+  return `SD-${await redis.incr(SPONSORSHIP_DISPUTE_KEYS.seq)}`;
+}
+
+export async function getSponsorshipDispute(
+  redis: Pick<Redis, "get">,
+  id: string,
+): Promise<SponsorshipDispute | null> {
+  return parseMaybeJson<SponsorshipDispute>(
+    await redis.get(SPONSORSHIP_DISPUTE_KEYS.dispute(id)),
+  );
+}
+
+/** Saves the record and keeps the open index in step with its status. */
+export async function saveSponsorshipDispute(
+  redis: Pick<Redis, "set" | "sadd" | "srem">,
+  d: SponsorshipDispute,
+): Promise<void> {
+  await redis.set(SPONSORSHIP_DISPUTE_KEYS.dispute(d.id), JSON.stringify(d));
+  if (d.status === "open" || d.status === "resolved") {
+    await redis.sadd(SPONSORSHIP_DISPUTE_KEYS.open, d.id);
+  } else {
+    await redis.srem(SPONSORSHIP_DISPUTE_KEYS.open, d.id);
+  }
+}
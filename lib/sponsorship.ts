@@ -1,4 +1,5 @@
 import { redis } from './redis';
+import { disputeRelease, type SponsorshipDispute } from './sponsorship-dispute';
 
 /**
  * Sponsorship System Types and Utilities
@@ -19,7 +20,7 @@ export type SponsorshipStatus =
   | 'completed'          // Funds released to host
   | 'refunded'           // Funds returned to sponsor
   | 'cancelled'
-  | 'disputed';          // Escalated to DAO
+  | 'disputed';          // Party opened a dispute; funds locked until the panel decides
 
 export interface Sponsorship {
   id: string;
@@ -80,6 +81,18 @@ export interface Sponsorship {
   // Resolution
   resolvedAt: number | null;
   releaseTxHash: string | null;
+
+  // Dispute (lib/sponsorship-dispute.ts)
+  disputeId?: string | null;
+}
+
+export interface ReleaseDecision {
+  release: boolean;
+  reason: string;
+  /** Share of the escrow (after fee) that goes to the host; the rest is refunded. */
+  hostShareBps: number;
+  /** True while an open dispute holds the funds. */
+  locked?: boolean;
 }
 
 export interface SponsorshipVote {
@@ -241,16 +254,21 @@ export function isVotingOpen(sponsorship: Sponsorship): boolean {
   return now > (sponsorship.checkInEnd || 0) && now <= sponsorship.votingDeadline;
 }
 
-// Check if can finalize
-export function canFinalize(sponsorship: Sponsorship): boolean {
+// Check if can finalize (a disputed sponsorship only once its dispute is decided)
+export function canFinalize(sponsorship: Sponsorship, dispute?: SponsorshipDispute | null): boolean {
   if (!sponsorship.votingDeadline) return false;
+  if (sponsorship.status === 'disputed') return dispute?.status === 'resolved';
   const now = Date.now();
   return now > sponsorship.votingDeadline &&
          (sponsorship.status === 'voting' || sponsorship.status === 'checking_in' || sponsorship.status === 'active');
 }
 
-// Calculate release decision
-export function shouldReleaseFunds(sponsorship: Sponsorship): { release: boolean; reason: string } {
+// Calculate release decision; a disputed sponsorship follows its dispute's outcome
+export function shouldReleaseFunds(sponsorship: Sponsorship, dispute?: SponsorshipDispute | null): ReleaseDecision {
+  if (sponsorship.status === 'disputed' || sponsorship.disputeId) {
+    return disputeRelease(dispute ?? null);
+  }
+
   const minCheckins = Math.max(1, Math.floor(sponsorship.expectedGuests * 0.25)); // 25% minimum
   const totalVotes = sponsorship.yesVotes + sponsorship.noVotes;
 
@@ -258,6 +276,7 @@ export function shouldReleaseFunds(sponsorship: Sponsorship): { release: boolean
   if (sponsorship.checkedInCount < minCheckins) {
     return {
       release: false,
+      hostShareBps: 0,
       reason: `Insufficient check-ins: ${sponsorship.checkedInCount}/${minCheckins} required`
     };
   }
@@ -266,6 +285,7 @@ export function shouldReleaseFunds(sponsorship: Sponsorship): { release: boolean
   if (totalVotes === 0) {
     return {
       release: false,
+      hostShareBps: 0,
       reason: 'No votes cast by attendees'
     };
   }
@@ -274,6 +294,7 @@ export function shouldReleaseFunds(sponsorship: Sponsorship): { release: boolean
   if (sponsorship.noVotes >= sponsorship.yesVotes) {
     return {
       release: false,
+      hostShareBps: 0,
       reason: `Majority voted NO: ${sponsorship.noVotes} no vs ${sponsorship.yesVotes} yes`
     };
   }
@@ -281,6 +302,7 @@ export function shouldReleaseFunds(sponsorship: Sponsorship): { release: boolean
   // All conditions met
   return {
     release: true,
+    hostShareBps: 10000,
     reason: `Approved: ${sponsorship.yesVotes} yes vs ${sponsorship.noVotes} no, ${sponsorship.checkedInCount} check-ins`
   };
 }
@@ -7,12 +7,26 @@
  * Storage strategy:
  * - Individual keys: "stamp-image:{passportId}_{itineraryId}" -> ipfsHash
  * - Index key: "stamp-index:{passportId}" -> comma-separated itineraryIds
+ * - Collector stamps: "collector-stamps:{passportId}" -> hash of week -> CollectorStamp JSON
  */
 
 import { redis } from '@/lib/redis';
 
 const STAMP_PREFIX = 'stamp-image:';
 const INDEX_PREFIX = 'stamp-index:';
+const COLLECTOR_PREFIX = 'collector-stamps:';
+
+/**
+ * A Country Collector week completed by the passport's owner (lib/country-collector.ts).
+ */
+export interface CollectorStamp {
+  week: string;
+  countryCode: string;
+  countryName: string;
+  /** Unix seconds */
+  stampedAt: number;
+  stampImageIPFS?: string;
+}
 
 /**
  * Store an AI-generated stamp image IPFS hash for a passport+itinerary pair.
@@ -80,3 +94,44 @@ export async function getStampImages(
 
   return result;
 }
+
+/**
+ * Stamp a passport for a completed Country Collector week.
+ * One stamp per passport per week, so a repeated call overwrites rather than duplicates.
+ * Returns false if the store failed.
+ */
+export async function storeCollectorStamp(
+  passportTokenId: bigint,
+  stamp: CollectorStamp
+): Promise<boolean> {
+  try {
+    await redis.hset(`${COLLECTOR_PREFIX}${passportTokenId}`, {
+      [stamp.week]: JSON.stringify(stamp),
+    });
+    console.log('[StampImages] Collector stamp:', passportTokenId.toString(), '->', stamp.week, stamp.countryCode);
+    return true;
+  } catch (error) {
+    console.error('[StampImages] Failed to store collector stamp:', error);
+    return false;
+  }
+}
+
+/**
+ * Get all Country Collector stamps for a passport token, newest week first.
+ */
+export async function getCollectorStamps(
+  passportTokenId: bigint
+): Promise<CollectorStamp[]> {
+  try {
+    const raw = await redis.hgetall<Record<string, unknown>>(`${COLLECTOR_PREFIX}${passportTokenId}`);
+    if (!raw) return [];
+
+    // Upstash may hand back the JSON already parsed
+    return Object.values(raw)
+      .map(v => (typeof v === 'string' ? JSON.parse(v) : v) as CollectorStamp)
+      .sort((a, b) => b.week.localeCompare(a.week));
+  } catch (error) {
+    console.error('[StampImages] Failed to get collector stamps:', error);
+    return [];
+  }
+}
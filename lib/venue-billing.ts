@@ -0,0 +1,627 @@
+import { formatEther, parseEther, type Address, type Hex } from "viem";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Venue plans, usage metering and invoices.
+ *
+ * A venue needs an active MusicSubscription to register, but until now nothing said how much it
+ * may play. Every venue is on a plan ({@link VENUE_PLANS}) with a monthly WMON fee and limits:
+ *
+ *   - **zones** and **offline devices** are hard limits, checked when one is added;
+ *   - **hours** are metered per UTC calendar month. A plan either bills overage hours or, if it
+ *     has no overage rate, stops at its allowance.
+ *
+ * ## Metering
+ *
+ * Every play that reaches the venue's history is metered into the month it *started* in
+ * ({@link meterPlay}), so offline receipts count where they were played. Peak zones and devices
+ * are noted as they are added. If a venue changes plan mid-month, the month is billed at the
+ * most expensive plan it held ({@link billedPlan}).
+ *
+ * ## Invoices
+ *
+ * The scheduler issues last month's invoice on the first tick of a new month, once. It lists the
+ * plan fee and any overage, in WMON, payable to the treasury. The owner pays with an ordinary
+ * WMON transfer and submits the transaction hash; the transfer is matched from its logs. Plays
+ * that arrive after an invoice is issued (a device that was offline over month end) are still
+ * metered but do not reopen it.
+ *
+ * ## When playback stops
+ *
+ * {@link billingAccess} decides whether a venue may start new songs. It may not when:
+ *
+ *   - its owner's MusicSubscription has been inactive for {@link SUBSCRIPTION_GRACE_MS};
+ *   - an invoice is unpaid past its due date;
+ *   - its plan has no overage and this month's hours are used up.
+ *
+ * Stopping is graceful: the song playing finishes, then zones pause with the reason on their
+ * state, and the scheduler resumes them by itself once access is back. An unreadable
+ * subscription (RPC down, contract not configured) never stops the music.
+ *
+ * Pure apart from the Redis helpers at the bottom; `tools/verify-venue-billing.ts` runs it
+ * under node.
+ */
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+export type VenuePlanId = "starter" | "standard" | "multi";
+
+export interface VenuePlan {
+  id: VenuePlanId;
+  name: string;
+  /** WMON per calendar month, decimal string. */
+  monthlyWmon: string;
+  maxZones: number;
+  maxDevices: number;
+  /** Hours per month the fee covers; null for unlimited. */
+  includedHours: number | null;
+  /** WMON per hour beyond includedHours; null means playback stops there instead. */
+  overageWmonPerHour: string | null;
+}
+
+export const VENUE_PLANS: Record<VenuePlanId, VenuePlan> = {
+  starter: {
+    id: "starter",
+    name: "Starter",
+    monthlyWmon: "150",
+    maxZones: 1,
+    maxDevices: 1,
+    includedHours: 300,
+    overageWmonPerHour: null,
+  },
+  standard: {
+    id: "standard",
+    name: "Standard",
+    monthlyWmon: "400",
+    maxZones: 3,
+    maxDevices: 5,
+    includedHours: 900,
+    overageWmonPerHour: "0.5",
+  },
+  multi: {
+    id: "multi",
+    name: "Multi-zone",
+    monthlyWmon: "900",
+    maxZones: 8,
+    maxDevices: 20,
+    includedHours: null,
+    overageWmonPerHour: null,
+  },
+};
+
+/** New venues start here. */
+export const DEFAULT_PLAN_ID: VenuePlanId = "starter";
+/**
+ * Venues registered before plans existed. Standard covers what most of them run, and its
+ * overage rate means none of them is cut off mid-month by the change.
+ */
+export const LEGACY_PLAN_ID: VenuePlanId = "standard";
+
+/** How long playback continues after the owner's subscription lapses. */
+export const SUBSCRIPTION_GRACE_MS = 24 * 60 * 60 * 1000;
+/** How long an invoice stays payable before playback stops. */
+export const INVOICE_DUE_MS = 14 * 24 * 60 * 60 * 1000;
+/** Share of the hour allowance at which the dashboard starts warning. */
+export const HOURS_WARNING_SHARE = 0.8;
+/** How long a subscription read is trusted before the chain is asked again. */
+export const SUBSCRIPTION_CACHE_MS = 10 * 60 * 1000;
+
+export function isPlanId(value: unknown): value is VenuePlanId {
+  return typeof value === "string" && value in VENUE_PLANS;
+}
+
+export function planFor(id: string | undefined): VenuePlan {
+  return VENUE_PLANS[isPlanId(id) ? id : LEGACY_PLAN_ID];
+}
+
+/** Why a venue cannot move to `plan` with what it runs now, or null if it can. */
+export function planChangeBlocker(
+  plan: VenuePlan,
+  current: { zones: number; devices: number },
+): string | null {
+  if (current.zones > plan.maxZones)
+    return `${plan.name} allows ${plan.maxZones} zone(s); delete ${current.zones - plan.maxZones} first`;
+  if (current.devices > plan.maxDevices)
+    return `${plan.name} allows ${plan.maxDevices} device(s); revoke ${current.devices - plan.maxDevices} first`;
+  return null;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Billing periods are UTC calendar months, "YYYY-MM". */
+export function periodOf(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 7);
+}
+
+export function periodBounds(period: string): {
+  startMs: number;
+  endMs: number;
+} {
+  const [y, m] = period.split("-").map(Number);
+  return { startMs: Date.UTC(y, m - 1, 1), endMs: Date.UTC(y, m, 1) };
+}
+
+export function previousPeriod(period: string): string {
+  return periodOf(periodBounds(period).startMs - 1);
+}
+
+// ============================================================================
+// USAGE
+// ============================================================================
+
+export interface PeriodUsage {
+  period: string;
+  seconds: number;
+  plays: number;
+  zoneSeconds: Record<string, number>;
+  peakZones: number;
+  peakDevices: number;
+}
+
+/** Read the usage hash; absent fields are zero. */
+export function parseUsage(
+  period: string,
+  hash: Record<string, unknown> | null,
+): PeriodUsage {
+  const usage: PeriodUsage = {
+    period,
+    seconds: 0,
+    plays: 0,
+    zoneSeconds: {},
+    peakZones: 0,
+    peakDevices: 0,
+  };
+  for (const [field, raw] of Object.entries(hash || {})) {
+    const n = Number(raw) || 0;
+    if (field === "seconds") usage.seconds = n;
+    else if (field === "plays") usage.plays = n;
+    else if (field === "peakZones") usage.peakZones = n;
+    else if (field === "peakDevices") usage.peakDevices = n;
+    else if (field.startsWith("zone:")) usage.zoneSeconds[field.slice(5)] = n;
+  }
+  return usage;
+}
+
+/** One entry per plan change, oldest first. */
+export type PlanHistory = { plan: VenuePlanId; since: number }[];
+
+/**
+ * The plan a period is billed at: the dearest one held at any point in it. A venue with no
+ * history has only ever had `currentPlanId`.
+ */
+export function billedPlan(
+  period: string,
+  history: PlanHistory | undefined,
+  currentPlanId: string | undefined,
+): VenuePlan {
+  const { startMs, endMs } = periodBounds(period);
+  const held = (history || [])
+    .filter((h, i, all) => {
+      const until = all[i + 1]?.since ?? Infinity;
+      return h.since < endMs && until > startMs;
+    })
+    .map((h) => planFor(h.plan));
+  if (held.length === 0) held.push(planFor(currentPlanId));
+  return held.reduce((a, b) =>
+    parseEther(b.monthlyWmon) > parseEther(a.monthlyWmon) ? b : a,
+  );
+}
+
+export const hoursOf = (seconds: number) =>
+  Math.round((seconds / 3600) * 100) / 100;
+
+// ============================================================================
+// ACCESS
+// ============================================================================
+
+/** What the last subscription read said. `lapsedSince` is when it was first seen inactive. */
+export interface SubscriptionCheck {
+  active: boolean;
+  checkedAt: number;
+  lapsedSince?: number;
+}
+
+export type AccessBlock =
+  | "subscription_lapsed"
+  | "invoice_overdue"
+  | "hours_exhausted";
+
+export interface VenueAccess {
+  ok: boolean;
+  reason?: AccessBlock;
+  message?: string;
+  /** Things the owner should hear about before they stop the music. */
+  warnings: string[];
+  /** Seconds left in this month's allowance; null when unlimited or billed as overage. */
+  remainingSeconds: number | null;
+}
+
+export function billingAccess(input: {
+  plan: VenuePlan;
+  usage: PeriodUsage;
+  subscription: SubscriptionCheck | null;
+  overdue: Pick<VenueInvoice, "invoiceId" | "period" | "dueAt">[];
+  now: number;
+}): VenueAccess {
+  const { plan, usage, subscription, overdue, now } = input;
+  const warnings: string[] = [];
+
+  const capped =
+    plan.includedHours !== null && plan.overageWmonPerHour === null;
+  const allowance =
+    plan.includedHours === null ? null : plan.includedHours * 3600;
+  const remainingSeconds =
+    capped && allowance !== null
+      ? Math.max(0, allowance - usage.seconds)
+      : null;
+
+  if (subscription && !subscription.active) {
+    const since = subscription.lapsedSince ?? subscription.checkedAt;
+    if (now - since >= SUBSCRIPTION_GRACE_MS) {
+      return {
+        ok: false,
+        reason: "subscription_lapsed",
+        message:
+          "The owner's music subscription has lapsed. Renew it to resume playback.",
+        warnings,
+        remainingSeconds,
+      };
+    }
+    warnings.push(
+      `The owner's music subscription has lapsed; playback pauses ${new Date(since + SUBSCRIPTION_GRACE_MS).toISOString()} unless it is renewed.`,
+    );
+  }
+
+  if (overdue.length > 0) {
+    return {
+      ok: false,
+      reason: "invoice_overdue",
+      message: `Invoice for ${overdue.map((i) => i.period).join(", ")} is overdue. Pay it to resume playback.`,
+      warnings,
+      remainingSeconds,
+    };
+  }
+
+  if (allowance !== null) {
+    if (remainingSeconds === 0) {
+      return {
+        ok: false,
+        reason: "hours_exhausted",
+        message: `This month's ${plan.includedHours} hours on the ${plan.name} plan are used up. Upgrade to keep playing.`,
+        warnings,
+        remainingSeconds,
+      };
+    }
+    if (usage.seconds >= allowance * HOURS_WARNING_SHARE) {
+      warnings.push(
+        usage.seconds >= allowance
+          ? `Over this month's ${plan.includedHours} included hours; extra hours are billed at ${plan.overageWmonPerHour} WMON.`
+          : `${hoursOf(usage.seconds)} of ${plan.includedHours} included hours used this month.`,
+      );
+    }
+  }
+
+  return { ok: true, warnings, remainingSeconds };
+}
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitWmon: string;
+  amountWei: string;
+}
+
+export interface VenueInvoice {
+  invoiceId: string;
+  venueId: string;
+  period: string;
+  planId: VenuePlanId;
+  usage: PeriodUsage;
+  lines: InvoiceLine[];
+  totalWei: string;
+  /** WMON, to the treasury. */
+  token: Address;
+  payTo: Address;
+  issuedAt: number;
+  dueAt: number;
+  status: "open" | "paid";
+  payment?: { txHash: Hex; from: Address; amountWei: string; paidAt: number };
+}
+
+export function invoiceId(venueId: string, period: string): string {
+  return `${venueId}-${period}`;
+}
+
+export function buildInvoice(input: {
+  venueId: string;
+  usage: PeriodUsage;
+  planHistory: PlanHistory | undefined;
+  currentPlanId: string | undefined;
+  /** A period billing began part-way through pays for the days from then on. */
+  billingSince: number;
+  token: Address;
+  payTo: Address;
+  issuedAt: number;
+}): VenueInvoice {
+  const { usage } = input;
+  const plan = billedPlan(usage.period, input.planHistory, input.currentPlanId);
+  const { startMs, endMs } = periodBounds(usage.period);
+  const from = Math.min(Math.max(startMs, input.billingSince), endMs);
+  const days = Math.ceil((endMs - from) / DAY_MS);
+  const monthDays = Math.round((endMs - startMs) / DAY_MS);
+  const fee = parseEther(plan.monthlyWmon);
+  const lines: InvoiceLine[] = [
+    days >= monthDays
+      ? {
+          description: `${plan.name} plan, ${usage.period}`,
+          quantity: 1,
+          unitWmon: plan.monthlyWmon,
+          amountWei: fee.toString(),
+        }
+      : {
+          description: `${plan.name} plan, ${usage.period}, ${days} of ${monthDays} days`,
+          quantity: days,
+          unitWmon: formatEther(fee / BigInt(monthDays)),
+          amountWei: ((fee * BigInt(days)) / BigInt(monthDays)).toString(),
+        },
+  ];
+
+  if (plan.includedHours !== null && plan.overageWmonPerHour !== null) {
+    // Whole hours only, rounded up: a started hour is a billed hour
+    const over = Math.ceil(
+      Math.max(0, usage.seconds - plan.includedHours * 3600) / 3600,
+    );
+    if (over > 0) {
+      lines.push({
+        description: `Hours over the ${plan.includedHours} included`,
+        quantity: over,
+        unitWmon: plan.overageWmonPerHour,
+        amountWei: (
+          parseEther(plan.overageWmonPerHour) * BigInt(over)
+        ).toString(),
+      });
+    }
+  }
+
+  return {
+    invoiceId: invoiceId(input.venueId, usage.period),
+    venueId: input.venueId,
+    period: usage.period,
+    planId: plan.id,
+    usage,
+    lines,
+    totalWei: lines
+      .reduce((sum, l) => sum + BigInt(l.amountWei), 0n)
+      .toString(),
+    token: input.token,
+    payTo: input.payTo,
+    issuedAt: input.issuedAt,
+    dueAt: input.issuedAt + INVOICE_DUE_MS,
+    status: "open",
+  };
+}
+
+export const wmon = (wei: string) => `${formatEther(BigInt(wei))} WMON`;
+
+const TRANSFER_TOPIC =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+const topicAddress = (topic: string | undefined) =>
+  topic ? `0x${topic.slice(-40)}`.toLowerCase() : "";
+
+/**
+ * Total WMON moved from `from` to the invoice's treasury in one transaction's logs. Only
+ * ERC-20 Transfers of the invoice token count, so a transfer of some other token at the same
+ * addresses does not pay anything.
+ */
+export function invoicePaymentIn(
+  logs: readonly { address: string; topics: readonly string[]; data: string }[],
+  invoice: Pick<VenueInvoice, "token" | "payTo">,
+  from: string,
+): bigint {
+  let total = 0n;
+  for (const log of logs) {
+    if (log.address.toLowerCase() !== invoice.token.toLowerCase()) continue;
+    if (log.topics.length !== 3 || log.topics[0] !== TRANSFER_TOPIC) continue;
+    if (topicAddress(log.topics[1]) !== from.toLowerCase()) continue;
+    if (topicAddress(log.topics[2]) !== invoice.payTo.toLowerCase()) continue;
+    total += BigInt(log.data);
+  }
+  return total;
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export const BILLING_KEYS = {
+  /** Hash: seconds, plays, zone:<id>, peakZones, peakDevices. */
+  usage: (venueId: string, period: string) =>
+    `venue:usage:${venueId}:${period}`,
+  subscription: (venueId: string) => `venue:billing-subscription:${venueId}`,
+  invoice: (invoiceId: string) => `venue:invoice:${invoiceId}`,
+  /** Invoice ids, newest first. */
+  invoices: (venueId: string) => `venue:invoices:${venueId}`,
+  /** Set of unpaid invoice ids. */
+  openInvoices: (venueId: string) => `venue:invoices-open:${venueId}`,
+  /** A payment transaction, once spent on an invoice. */
+  paymentTx: (txHash: string) =>
+    `venue:invoice-payment:${txHash.toLowerCase()}`,
+} as const;
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function meterPlay(
+  redis: Pick<Redis, "hincrby">,
+  venueId: string,
+  zoneId: string,
+  seconds: number,
+  playedAt: number,
+): Promise<void> {
+  const key = BILLING_KEYS.usage(venueId, periodOf(playedAt));
+  const s = Math.max(0, Math.round(seconds));
+  await redis.hincrby(key, "seconds", s);
+  await redis.hincrby(key, `zone:${zoneId}`, s);
+  await redis.hincrby(key, "plays", 1);
+}
+
+/** Raise this month's peak zone or device count to `count` if it is higher. */
+export async function notePeak(
+  redis: Pick<Redis, "hget" | "hset">,
+  venueId: string,
+  field: "peakZones" | "peakDevices",
+  count: number,
+  now: number,
+): Promise<void> {
+  const key = BILLING_KEYS.usage(venueId, periodOf(now));
+  const current = Number(await redis.hget(key, field)) || 0;
+  if (count > current) await redis.hset(key, { [field]: count });
+}
+
+export async function getUsage(
+  redis: Pick<Redis, "hgetall">,
+  venueId: string,
+  period: string,
+): Promise<PeriodUsage> {
+  return parseUsage(
+    period,
+    await redis.hgetall<Record<string, unknown>>(
+      BILLING_KEYS.usage(venueId, period),
+    ),
+  );
+}
+
+export async function getSubscriptionCheck(
+  redis: Pick<Redis, "get">,
+  venueId: string,
+): Promise<SubscriptionCheck | null> {
+  return parseMaybeJson<SubscriptionCheck>(
+    await redis.get(BILLING_KEYS.subscription(venueId)),
+  );
+}
+
+/** Record a fresh read, keeping when the lapse started across reads. */
+export async function saveSubscriptionCheck(
+  redis: Pick<Redis, "set">,
+  venueId: string,
+  previous: SubscriptionCheck | null,
+  active: boolean,
+  now: number,
+): Promise<SubscriptionCheck> {
+  const check: SubscriptionCheck = active
+    ? { active, checkedAt: now }
+    : {
+        active,
+        checkedAt: now,
+        lapsedSince:
+          previous && !previous.active
+            ? (previous.lapsedSince ?? previous.checkedAt)
+            : now,
+      };
+  await redis.set(BILLING_KEYS.subscription(venueId), JSON.stringify(check));
+  return check;
+}
+
+/** Store a new invoice unless the period already has one. False when it did. */
+export async function issueInvoice(
+  redis: Pick<Redis, "set" | "lpush" | "sadd">,
+  invoice: VenueInvoice,
+): Promise<boolean> {
+  const created = await redis.set(
+    BILLING_KEYS.invoice(invoice.invoiceId),
+    JSON.stringify(invoice),
+    { nx: true },
+  );
+  if (!created) return false;
+  await redis.lpush(BILLING_KEYS.invoices(invoice.venueId), invoice.invoiceId);
+  await redis.sadd(
+    BILLING_KEYS.openInvoices(invoice.venueId),
+    invoice.invoiceId,
+  );
+  return true;
+}
+
+export async function getInvoice(
+  redis: Pick<Redis, "get">,
+  id: string,
+): Promise<VenueInvoice | null> {
+  return parseMaybeJson<VenueInvoice>(
+    await redis.get(BILLING_KEYS.invoice(id)),
+  );
+}
+
+export async function listInvoices(
+  redis: Pick<Redis, "get" | "lrange">,
+  venueId: string,
+  limit = 12,
+): Promise<VenueInvoice[]> {
+  const ids = await redis.lrange<string>(
+    BILLING_KEYS.invoices(venueId),
+    0,
+    limit - 1,
+  );
+  const invoices: VenueInvoice[] = [];
+  for (const id of ids) {
+    const invoice = await getInvoice(redis, String(id));
+    if (invoice) invoices.push(invoice);
+  }
+  return invoices;
+}
+
+export async function openInvoices(
+  redis: Pick<Redis, "get" | "smembers">,
+  venueId: string,
+): Promise<VenueInvoice[]> {
+  const ids = await redis.smembers(BILLING_KEYS.openInvoices(venueId));
+  const invoices: VenueInvoice[] = [];
+  for (const id of ids) {
+    const invoice = await getInvoice(redis, String(id));
+    if (invoice?.status === "open") invoices.push(invoice);
+  }
+  return invoices;
+}
+
+/**
+ * Spend a payment transaction on an invoice. False when the transaction already paid one,
+ * so the same transfer cannot be submitted twice.
+ */
+export async function markInvoicePaid(
+  redis: Pick<Redis, "set" | "srem">,
+  invoice: VenueInvoice,
+  payment: NonNullable<VenueInvoice["payment"]>,
+): Promise<boolean> {
+  const claimed = await redis.set(
+    BILLING_KEYS.paymentTx(payment.txHash),
+    invoice.invoiceId,
+    { nx: true },
+  );
+  if (!claimed) return false;
+  const paid: VenueInvoice = { ...invoice, status: "paid", payment };
+  await redis.set(
+    BILLING_KEYS.invoice(invoice.invoiceId),
+    JSON.stringify(paid),
+  );
+  await redis.srem(
+    BILLING_KEYS.openInvoices(invoice.venueId),
+    invoice.invoiceId,
+  );
+  return true;
+}
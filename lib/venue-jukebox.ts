@@ -0,0 +1,438 @@
+import { formatEther, parseEther } from "viem";
+import type { Redis } from "@upstash/redis";
+
+import type { RefundDue } from "./rights-dispute";
+import type { EnergyLevel, ZoneTrackTags } from "./venue-zones";
+
+/**
+ * Jukebox mode: patrons request and upvote songs for a venue.
+ *
+ * Off by default. A venue that turns it on gets a short link (lib/url-shortener.ts) to print as
+ * a QR code. It opens `/venue/[venueId]/jukebox`, where a patron signs in once, by Farcaster or
+ * wallet, and can browse the cleared catalogue, request a song or upvote one already requested.
+ *
+ * ## Limits
+ *
+ * The venue decides what patrons may ask for ({@link JukeboxSettings}):
+ *
+ *   - how many requests one patron may make in a rolling window;
+ *   - tracks it never takes requests for;
+ *   - an energy range, read from the curator tags zones already use — with a range set, a
+ *     track without an energy tag cannot be requested, as a daypart would not play it either;
+ *   - a WMON price per request, paid to the venue owner by a plain transfer, as invoices are
+ *     paid. Zero makes requests free. Votes are always free.
+ *
+ * ## Order
+ *
+ * Requests wait in a list ranked by votes, oldest first among equals ({@link rankRequests}). A
+ * song asked for twice is one request with two votes. They are not queued when made: when the
+ * jukebox zone's queue runs dry, the top request goes through `addToVenueQueue` and plays next
+ * (`popNextFromQueue` in lib/venue.ts). Songs staff queue always play first, and a request
+ * keeps gaining votes until its turn comes.
+ *
+ * Imports nothing from the project at runtime; `tools/verify-venue-jukebox.ts` runs it under node.
+ */
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export const MAX_PENDING_REQUESTS = 50;
+export const MAX_BANNED_TRACKS = 500;
+/** How long a patron stays signed in to a venue's jukebox. */
+export const PATRON_TTL_SECONDS = 12 * 60 * 60;
+/** How long a venue's QR short link lives before it is re-issued. */
+export const JUKEBOX_LINK_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export interface EnergyRange {
+  min: EnergyLevel;
+  max: EnergyLevel;
+}
+
+export interface JukeboxSettings {
+  enabled: boolean;
+  /** The zone requests play in; the main zone unless changed. */
+  zoneId: string;
+  requestsPerPatron: number;
+  windowMinutes: number;
+  bannedTokenIds: string[];
+  energy: EnergyRange | null;
+  /** Decimal WMON per request; "0" for free. */
+  priceWmon: string;
+  /** Short link id behind the venue's QR code, issued when the jukebox is first enabled. */
+  shortId?: string;
+}
+
+export const DEFAULT_JUKEBOX_SETTINGS: JukeboxSettings = {
+  enabled: false,
+  zoneId: "main",
+  requestsPerPatron: 3,
+  windowMinutes: 60,
+  bannedTokenIds: [],
+  energy: null,
+  priceWmon: "0",
+};
+
+const PRICE_PATTERN = /^\d{1,6}(\.\d{1,6})?$/;
+// ENERGY_LEVELS and the zone id pattern of lib/venue-zones.ts, repeated to keep this file
+// runnable on its own.
+const ENERGY_LEVELS: readonly EnergyLevel[] = ["low", "medium", "high"];
+const ZONE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,23}$/;
+
+/** Apply a partial settings update from the dashboard to `current`. */
+export function parseJukeboxSettings(
+  raw: unknown,
+  current: JukeboxSettings = DEFAULT_JUKEBOX_SETTINGS,
+): { ok: true; settings: JukeboxSettings } | { ok: false; errors: string[] } {
+  const body = (raw ?? {}) as Record<string, unknown>;
+  const errors: string[] = [];
+  const settings: JukeboxSettings = {
+    ...current,
+    bannedTokenIds: [...current.bannedTokenIds],
+  };
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== "boolean")
+      errors.push("enabled must be true or false");
+    else settings.enabled = body.enabled;
+  }
+  if (body.zoneId !== undefined) {
+    if (typeof body.zoneId !== "string" || !ZONE_ID_PATTERN.test(body.zoneId))
+      errors.push("zoneId must be a zone id");
+    else settings.zoneId = body.zoneId;
+  }
+  if (body.requestsPerPatron !== undefined) {
+    const n = Number(body.requestsPerPatron);
+    if (!Number.isInteger(n) || n < 1 || n > 20)
+      errors.push("requestsPerPatron must be 1-20");
+    else settings.requestsPerPatron = n;
+  }
+  if (body.windowMinutes !== undefined) {
+    const n = Number(body.windowMinutes);
+    if (!Number.isInteger(n) || n < 5 || n > 24 * 60)
+      errors.push("windowMinutes must be 5-1440");
+    else settings.windowMinutes = n;
+  }
+  if (body.bannedTokenIds !== undefined) {
+    if (
+      !Array.isArray(body.bannedTokenIds) ||
+      body.bannedTokenIds.length > MAX_BANNED_TRACKS ||
+      !body.bannedTokenIds.every((id) => /^\d+$/.test(String(id)))
+    )
+      errors.push(
+        `bannedTokenIds must list up to ${MAX_BANNED_TRACKS} token ids`,
+      );
+    else
+      settings.bannedTokenIds = [...new Set(body.bannedTokenIds.map(String))];
+  }
+  if (body.energy !== undefined) {
+    const energy = body.energy as Partial<EnergyRange> | null;
+    if (energy === null) settings.energy = null;
+    else if (
+      !ENERGY_LEVELS.includes(energy.min as EnergyLevel) ||
+      !ENERGY_LEVELS.includes(energy.max as EnergyLevel)
+    )
+      errors.push(
+        `energy.min and energy.max must be ${ENERGY_LEVELS.join(", ")}`,
+      );
+    else if (energyRank(energy.min!) > energyRank(energy.max!))
+      errors.push("energy.min must not be above energy.max");
+    else settings.energy = { min: energy.min!, max: energy.max! };
+  }
+  if (body.priceWmon !== undefined) {
+    const price = String(body.priceWmon).trim();
+    if (!PRICE_PATTERN.test(price))
+      errors.push("priceWmon must be a WMON amount, e.g. 0.5");
+    else settings.priceWmon = price;
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, settings };
+}
+
+export function requestPriceWei(
+  settings: Pick<JukeboxSettings, "priceWmon">,
+): bigint {
+  return parseEther(settings.priceWmon);
+}
+
+const energyRank = (level: EnergyLevel) => ENERGY_LEVELS.indexOf(level);
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/** A patron, as `fid:<n>` or a lowercased wallet address. */
+export type PatronId = string;
+
+export interface JukeboxRequest {
+  tokenId: string;
+  name: string;
+  artist: string;
+  artistAddress: string;
+  audioUrl: string;
+  imageUrl: string;
+  duration?: number;
+  zoneId: string;
+  requestedBy: PatronId;
+  requestedAt: number;
+  /** Everyone who asked for it, the requester first. */
+  voters: PatronId[];
+  payment?: { txHash: string; from: string; amountWei: string };
+}
+
+/** Votes first, then who asked earliest. */
+export function rankRequests(requests: JukeboxRequest[]): JukeboxRequest[] {
+  return [...requests].sort(
+    (a, b) =>
+      b.voters.length - a.voters.length ||
+      a.requestedAt - b.requestedAt ||
+      a.tokenId.localeCompare(b.tokenId),
+  );
+}
+
+/** Whether the venue takes requests for a track at all: not banned, inside the energy range. */
+export function isRequestable(
+  settings: Pick<JukeboxSettings, "bannedTokenIds" | "energy">,
+  tokenId: string,
+  tags: ZoneTrackTags | undefined,
+): boolean {
+  if (settings.bannedTokenIds.includes(tokenId)) return false;
+  if (!settings.energy) return true;
+  if (!tags?.energy) return false;
+  const rank = energyRank(tags.energy);
+  return (
+    rank >= energyRank(settings.energy.min) &&
+    rank <= energyRank(settings.energy.max)
+  );
+}
+
+/** How many of a patron's request times fall in the window ending `now`. */
+export function requestsInWindow(
+  times: number[],
+  windowMinutes: number,
+  now: number,
+): number {
+  return times.filter((t) => t > now - windowMinutes * 60_000).length;
+}
+
+/**
+ * Why a patron may not request `tokenId` right now, or null. Asking for a song already
+ * requested is a vote, so only the checks a vote also needs apply to it.
+ */
+export function requestBlocker(input: {
+  settings: JukeboxSettings;
+  tokenId: string;
+  tags: ZoneTrackTags | undefined;
+  /** The pending request for this track, if any. */
+  existing: JukeboxRequest | null;
+  pendingCount: number;
+  patron: PatronId;
+  patronRequestTimes: number[];
+  now: number;
+}): string | null {
+  const { settings, existing, patron } = input;
+  if (!settings.enabled) return "This venue is not taking requests right now";
+  if (!isRequestable(settings, input.tokenId, input.tags))
+    return "This venue does not take requests for that song";
+  if (existing) {
+    return existing.voters.includes(patron)
+      ? "You already asked for this one"
+      : null;
+  }
+  if (input.pendingCount >= MAX_PENDING_REQUESTS)
+    return "The request list is full; upvote a song already on it";
+  const used = requestsInWindow(
+    input.patronRequestTimes,
+    settings.windowMinutes,
+    input.now,
+  );
+  if (used >= settings.requestsPerPatron)
+    return `You can request ${settings.requestsPerPatron} song(s) every ${settings.windowMinutes} minutes`;
+  return null;
+}
+
+/**
+ * The refund owed for a paid request dropped before it played, as the radio records one for a
+ * paid queue entry a rights hold drops (lib/rights-dispute.ts); null when it was free.
+ */
+export function droppedRequestRefund(
+  venueId: string,
+  request: JukeboxRequest,
+  now: number,
+): RefundDue | null {
+  const { payment } = request;
+  if (!payment || BigInt(payment.amountWei) === 0n) return null;
+  const fid = request.requestedBy.match(/^fid:(\d+)$/)?.[1];
+  return {
+    id: `jukebox:${venueId}:${request.tokenId}:${request.requestedAt}`,
+    stationId: `venue:${venueId}`,
+    tokenId: request.tokenId,
+    queuedBy: payment.from.toLowerCase(),
+    ...(fid ? { queuedByFid: Number(fid) } : {}),
+    paidAmount: formatEther(BigInt(payment.amountWei)),
+    queuedAt: request.requestedAt,
+    droppedAt: now,
+  };
+}
+
+/** What a patron sees of a request: the count of votes, not who cast them. */
+export function publicRequest(request: JukeboxRequest, patron?: PatronId) {
+  const { voters, payment: _payment, requestedBy: _by, ...rest } = request;
+  return {
+    ...rest,
+    votes: voters.length,
+    ...(patron ? { voted: voters.includes(patron) } : {}),
+  };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export const JUKEBOX_KEYS = {
+  settings: (venueId: string) => `venue:jukebox:${venueId}`,
+  /** Hash: tokenId -> JukeboxRequest, the requests not yet queued. */
+  requests: (venueId: string) => `venue:jukebox-requests:${venueId}`,
+  /** List of a patron's request times, newest first. */
+  patronRequests: (venueId: string, patron: PatronId) =>
+    `venue:jukebox-patron-requests:${venueId}:${patron}`,
+  /** sha256 of a patron token -> JukeboxPatron. */
+  patron: (tokenHash: string) => `venue:jukebox-patron:${tokenHash}`,
+  /** A payment transaction, once spent on a request. */
+  paymentTx: (txHash: string) =>
+    `venue:jukebox-payment:${txHash.toLowerCase()}`,
+} as const;
+
+/** A signed-in patron, behind the token the jukebox page keeps. */
+export interface JukeboxPatron {
+  venueId: string;
+  patronId: PatronId;
+  /** Wallets a payment may come from. */
+  addresses: string[];
+}
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function getJukeboxSettings(
+  redis: Redis,
+  venueId: string,
+): Promise<JukeboxSettings> {
+  const stored = parseMaybeJson<Partial<JukeboxSettings>>(
+    await redis.get(JUKEBOX_KEYS.settings(venueId)),
+  );
+  return { ...DEFAULT_JUKEBOX_SETTINGS, ...stored };
+}
+
+export async function saveJukeboxSettings(
+  redis: Redis,
+  venueId: string,
+  settings: JukeboxSettings,
+): Promise<void> {
+  await redis.set(JUKEBOX_KEYS.settings(venueId), JSON.stringify(settings));
+}
+
+export async function listRequests(
+  redis: Redis,
+  venueId: string,
+): Promise<JukeboxRequest[]> {
+  const all =
+    (await redis.hgetall<Record<string, unknown>>(
+      JUKEBOX_KEYS.requests(venueId),
+    )) || {};
+  return rankRequests(
+    Object.values(all)
+      .map((v) => parseMaybeJson<JukeboxRequest>(v))
+      .filter((r): r is JukeboxRequest => !!r),
+  );
+}
+
+export async function getRequest(
+  redis: Redis,
+  venueId: string,
+  tokenId: string,
+): Promise<JukeboxRequest | null> {
+  return parseMaybeJson<JukeboxRequest>(
+    await redis.hget(JUKEBOX_KEYS.requests(venueId), tokenId),
+  );
+}
+
+export async function saveRequest(
+  redis: Redis,
+  venueId: string,
+  request: JukeboxRequest,
+): Promise<void> {
+  await redis.hset(JUKEBOX_KEYS.requests(venueId), {
+    [request.tokenId]: JSON.stringify(request),
+  });
+}
+
+export async function removeRequest(
+  redis: Redis,
+  venueId: string,
+  tokenId: string,
+): Promise<boolean> {
+  return (await redis.hdel(JUKEBOX_KEYS.requests(venueId), tokenId)) > 0;
+}
+
+export async function patronRequestTimes(
+  redis: Redis,
+  venueId: string,
+  patron: PatronId,
+): Promise<number[]> {
+  const raw = await redis.lrange(
+    JUKEBOX_KEYS.patronRequests(venueId, patron),
+    0,
+    19,
+  );
+  return raw.map(Number).filter(Number.isFinite);
+}
+
+export async function notePatronRequest(
+  redis: Redis,
+  venueId: string,
+  patron: PatronId,
+  at: number,
+): Promise<void> {
+  const key = JUKEBOX_KEYS.patronRequests(venueId, patron);
+  await redis.lpush(key, String(at));
+  await redis.ltrim(key, 0, 19);
+  await redis.expire(key, 24 * 60 * 60);
+}
+
+/** Spend a payment transaction on a request; false if it already paid for one. */
+export async function claimRequestPayment(
+  redis: Redis,
+  txHash: string,
+  venueId: string,
+): Promise<boolean> {
+  return !!(await redis.set(JUKEBOX_KEYS.paymentTx(txHash), venueId, {
+    nx: true,
+  }));
+}
+
+export async function savePatron(
+  redis: Redis,
+  tokenHash: string,
+  patron: JukeboxPatron,
+): Promise<void> {
+  await redis.set(JUKEBOX_KEYS.patron(tokenHash), JSON.stringify(patron), {
+    ex: PATRON_TTL_SECONDS,
+  });
+}
+
+export async function getPatron(
+  redis: Redis,
+  tokenHash: string,
+): Promise<JukeboxPatron | null> {
+  return parseMaybeJson<JukeboxPatron>(
+    await redis.get(JUKEBOX_KEYS.patron(tokenHash)),
+  );
+}
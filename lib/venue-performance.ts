@@ -0,0 +1,464 @@
+import {
+  keccak256,
+  stringToBytes,
+  verifyMessage,
+  type Address,
+  type Hex,
+} from "viem";
+import type { Redis } from "@upstash/redis";
+import type { RightsStatus } from "./rights-declaration";
+
+/**
+ * Venue public-performance reports.
+ *
+ * Venues pay for the catalogue because it is PRO-free. When a performing rights organization
+ * audits one, the venue has to show what it played and why none of it needed a PRO licence.
+ * A report covers one venue and a range of UTC days and lists every play with:
+ *
+ *   - when it started, for how long, and in which zone;
+ *   - the rights agreement version and hash the artist signed (`getRightsStatus`), and whether
+ *     that declaration says the artist is not a PRO member;
+ *   - the transaction that recorded it on-chain — a VenueRegistry batch, or PlayOracleV3 when
+ *     the registry is unavailable — or that it has not been submitted yet.
+ *
+ * ## Where plays come from
+ *
+ * `VENUE_KEYS.history` is trimmed to the last 100 songs per zone, so every history entry is
+ * also written to a per-venue log scored by start time ({@link PERFORMANCE_KEYS}.log), which is
+ * never trimmed. Reports read both and drop duplicates, so plays from before the log existed
+ * still appear while they are in the history. Each on-chain submission is recorded against the
+ * plays it carried once its transaction is mined.
+ *
+ * ## What is signed
+ *
+ * The CSV is the report. Its keccak256 is the report digest, which the keeper key signs, and
+ * that record is kept under the digest. The PDF is a rendering of the same rows that prints the
+ * digest and signature; its own hash is recorded too. Anyone holding either file can check it
+ * at `/api/venue/reports/verify` without a venue key.
+ *
+ * Like lib/venue-receipts.ts, nothing here is imported from the project at runtime, so
+ * `tools/verify-venue-performance.ts` runs it under node.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const REPORT_FORMAT = "empowertours-performance-report:v1";
+/** A quarter and then some: PRO audits usually ask for a quarter at a time. */
+export const MAX_REPORT_DAYS = 93;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const NON_PRO_DECLARATION =
+  "Every recording in this catalogue is licensed directly by its rights holder under the " +
+  "EmpowerTours Rights Agreement, in which the artist declares that they are not a member of " +
+  "any Performing Rights Organization (ASCAP, BMI, SESAC, GMR or any international " +
+  "equivalent) and have not registered the work with one, and grants public performance " +
+  "rights directly. No PRO licence is required for these performances.";
+
+export const PERFORMANCE_KEYS = {
+  /** Sorted set of PerformanceEntry JSON, scored by playedAt. Never trimmed. */
+  log: (venueId: string) => `venue:performance:${venueId}`,
+  /** Hash: playKey -> PlaySubmission. */
+  submissions: (venueId: string) => `venue:performance-tx:${venueId}`,
+  /** IssuedReport, by CSV digest. */
+  report: (digest: string) =>
+    `venue:performance-report:${digest.toLowerCase()}`,
+  /** PDF hash -> the digest of the CSV it renders. */
+  pdf: (pdfHash: string) =>
+    `venue:performance-report-pdf:${pdfHash.toLowerCase()}`,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PerformanceEntry {
+  zoneId: string;
+  tokenId: string;
+  name: string;
+  artist: string;
+  playedAt: number;
+  /** Seconds. */
+  duration: number;
+}
+
+export interface PlaySubmission {
+  txHash: string;
+  contract: "VenueRegistry" | "PlayOracleV3";
+  blockNumber: number | null;
+  sessionId: number | null;
+  submittedAt: number;
+}
+
+/** The part of a master's rights record a report prints. */
+export interface TrackRights {
+  tokenId: string;
+  status: RightsStatus["status"];
+  version: string;
+  agreementHash: string;
+  agreementCid: string;
+  notPro: boolean;
+}
+
+export interface PerformanceRow extends PerformanceEntry {
+  rights: TrackRights | null;
+  submission: PlaySubmission | null;
+}
+
+export interface PerformanceReport {
+  format: typeof REPORT_FORMAT;
+  venueId: string;
+  venueName: string;
+  ownerAddress: string;
+  /** Inclusive UTC days, YYYY-MM-DD. */
+  from: string;
+  to: string;
+  generatedAt: string;
+  rows: PerformanceRow[];
+  totals: {
+    plays: number;
+    seconds: number;
+    tracks: number;
+    onChain: number;
+    notSubmitted: number;
+    /** Plays of masters with no rights record, or one that does not declare non-PRO. */
+    undeclared: number;
+  };
+}
+
+/** What the verify endpoint returns for a digest. */
+export interface IssuedReport {
+  digest: Hex;
+  format: typeof REPORT_FORMAT;
+  venueId: string;
+  venueName: string;
+  from: string;
+  to: string;
+  generatedAt: string;
+  plays: number;
+  signer: Address;
+  signature: Hex;
+  pdfHash?: Hex;
+}
+
+// ============================================================================
+// RANGE
+// ============================================================================
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function parseDay(day: string): number | null {
+  if (!DAY_PATTERN.test(day)) return null;
+  const ms = Date.parse(`${day}T00:00:00Z`);
+  // Date.parse rolls 2026-02-30 over to March; a round trip catches it.
+  if (Number.isNaN(ms) || new Date(ms).toISOString().slice(0, 10) !== day)
+    return null;
+  return ms;
+}
+
+/** Inclusive UTC days to a half-open millisecond range. */
+export function parseReportRange(
+  from: string,
+  to: string,
+  now: number,
+):
+  | { ok: true; from: string; to: string; startMs: number; endMs: number }
+  | { ok: false; error: string } {
+  const startMs = parseDay(from);
+  const lastMs = parseDay(to);
+  if (startMs === null || lastMs === null)
+    return { ok: false, error: "from and to must be dates, YYYY-MM-DD" };
+  if (lastMs < startMs) return { ok: false, error: "to is before from" };
+  if (startMs > now) return { ok: false, error: "from is in the future" };
+  const days = (lastMs - startMs) / DAY_MS + 1;
+  if (days > MAX_REPORT_DAYS)
+    return {
+      ok: false,
+      error: `A report covers at most ${MAX_REPORT_DAYS} days`,
+    };
+  return { ok: true, from, to, startMs, endMs: lastMs + DAY_MS };
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/** Identifies one play across the log, the history and its submission. */
+export function playKey(p: {
+  zoneId: string;
+  tokenId: string;
+  playedAt: number;
+}): string {
+  return `${p.zoneId}:${p.tokenId}:${p.playedAt}`;
+}
+
+export function trackRights(status: RightsStatus): TrackRights {
+  return {
+    tokenId: status.tokenId,
+    status: status.status,
+    version: status.version || status.declaration?.version || "1.0",
+    agreementHash: status.agreementHash,
+    agreementCid: status.agreementCid,
+    notPro: status.declaration?.notPro === true,
+  };
+}
+
+/**
+ * Merge the log and history reads into one list, oldest first, dropping duplicates and plays
+ * outside `[startMs, endMs)`.
+ */
+export function mergePlays(
+  sources: PerformanceEntry[][],
+  startMs: number,
+  endMs: number,
+): PerformanceEntry[] {
+  const byKey = new Map<string, PerformanceEntry>();
+  for (const entry of sources.flat()) {
+    if (entry.playedAt < startMs || entry.playedAt >= endMs) continue;
+    if (!byKey.has(playKey(entry))) byKey.set(playKey(entry), entry);
+  }
+  return [...byKey.values()].sort(
+    (a, b) =>
+      a.playedAt - b.playedAt ||
+      (a.zoneId < b.zoneId ? -1 : a.zoneId > b.zoneId ? 1 : 0),
+  );
+}
+
+export function buildPerformanceReport(input: {
+  venue: { venueId: string; name: string; ownerAddress: string };
+  from: string;
+  to: string;
+  plays: PerformanceEntry[];
+  rights: Record<string, TrackRights | null>;
+  submissions: Record<string, PlaySubmission | null>;
+  generatedAt: number;
+}): PerformanceReport {
+  const rows: PerformanceRow[] = input.plays.map((p) => ({
+    ...p,
+    rights: input.rights[p.tokenId] ?? null,
+    submission: input.submissions[playKey(p)] ?? null,
+  }));
+  return {
+    format: REPORT_FORMAT,
+    venueId: input.venue.venueId,
+    venueName: input.venue.name,
+    ownerAddress: input.venue.ownerAddress,
+    from: input.from,
+    to: input.to,
+    generatedAt: new Date(input.generatedAt).toISOString(),
+    rows,
+    totals: {
+      plays: rows.length,
+      seconds: rows.reduce((sum, r) => sum + r.duration, 0),
+      tracks: new Set(rows.map((r) => r.tokenId)).size,
+      onChain: rows.filter((r) => r.submission).length,
+      notSubmitted: rows.filter((r) => !r.submission).length,
+      undeclared: rows.filter((r) => !r.rights?.notPro).length,
+    },
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+function csvCell(value: unknown): string {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = [
+  "played_at_utc",
+  "zone",
+  "master_token_id",
+  "track",
+  "artist",
+  "duration_seconds",
+  "rights_status",
+  "agreement_version",
+  "agreement_hash",
+  "agreement_cid",
+  "artist_declares_non_pro",
+  "on_chain_contract",
+  "tx_hash",
+  "block_number",
+];
+
+/**
+ * The report itself: a header block, a blank line, then one row per play. Byte-for-byte
+ * deterministic for a given report, since {@link reportDigest} is taken over it.
+ */
+export function performanceReportToCsv(report: PerformanceReport): string {
+  const t = report.totals;
+  const rows: unknown[][] = [
+    ["report", report.format],
+    ["venue_id", report.venueId],
+    ["venue_name", report.venueName],
+    ["venue_owner", report.ownerAddress],
+    ["from_utc", report.from],
+    ["to_utc", report.to],
+    ["generated_at", report.generatedAt],
+    ["declaration", NON_PRO_DECLARATION],
+    ["plays", t.plays],
+    ["seconds_played", t.seconds],
+    ["distinct_tracks", t.tracks],
+    ["plays_on_chain", t.onChain],
+    ["plays_not_yet_submitted", t.notSubmitted],
+    ["plays_without_non_pro_declaration", t.undeclared],
+    [],
+    CSV_COLUMNS,
+  ];
+  for (const r of report.rows) {
+    rows.push([
+      new Date(r.playedAt).toISOString(),
+      r.zoneId,
+      r.tokenId,
+      r.name,
+      r.artist,
+      r.duration,
+      r.rights?.status ?? "no record",
+      r.rights?.version ?? "",
+      r.rights?.agreementHash ?? "",
+      r.rights?.agreementCid ?? "",
+      r.rights ? (r.rights.notPro ? "yes" : "no") : "",
+      r.submission?.contract ?? "not submitted",
+      r.submission?.txHash ?? "",
+      r.submission?.blockNumber ?? "",
+    ]);
+  }
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+// ============================================================================
+// DIGEST AND SIGNATURE
+// ============================================================================
+
+/** keccak256 of a report file's bytes: the CSV's is the report digest. */
+export function reportDigest(file: string | Uint8Array): Hex {
+  return keccak256(typeof file === "string" ? stringToBytes(file) : file);
+}
+
+/** True when `issued` was signed by `expectedSigner` over its digest. */
+export async function verifyIssuedReport(
+  issued: IssuedReport,
+  expectedSigner: Address,
+): Promise<boolean> {
+  if (issued.signer.toLowerCase() !== expectedSigner.toLowerCase())
+    return false;
+  try {
+    return await verifyMessage({
+      address: issued.signer,
+      message: { raw: issued.digest },
+      signature: issued.signature,
+    });
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== "string") return value as T;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function logPerformance(
+  redis: Pick<Redis, "zadd">,
+  venueId: string,
+  entry: PerformanceEntry,
+): Promise<void> {
+  await redis.zadd(PERFORMANCE_KEYS.log(venueId), {
+    score: entry.playedAt,
+    member: JSON.stringify(entry),
+  });
+}
+
+export async function loggedPerformances(
+  redis: Pick<Redis, "zrange">,
+  venueId: string,
+  startMs: number,
+  endMs: number,
+): Promise<PerformanceEntry[]> {
+  // Upstash has no exclusive bound here; mergePlays drops anything at endMs.
+  const members = await redis.zrange<unknown[]>(
+    PERFORMANCE_KEYS.log(venueId),
+    startMs,
+    endMs,
+    { byScore: true },
+  );
+  return members
+    .map((m) => parseMaybeJson<PerformanceEntry>(m))
+    .filter((e): e is PerformanceEntry => !!e);
+}
+
+/** Record the mined transaction that carried `plays` on-chain. */
+export async function recordSubmission(
+  redis: Pick<Redis, "hset">,
+  venueId: string,
+  plays: { zoneId: string; tokenId: string; playedAt: number }[],
+  submission: PlaySubmission,
+): Promise<void> {
+  if (plays.length === 0) return;
+  const fields: Record<string, string> = {};
+  for (const p of plays) fields[playKey(p)] = JSON.stringify(submission);
+  await redis.hset(PERFORMANCE_KEYS.submissions(venueId), fields);
+}
+
+export async function playSubmissions(
+  redis: Pick<Redis, "hmget">,
+  venueId: string,
+  plays: PerformanceEntry[],
+): Promise<Record<string, PlaySubmission | null>> {
+  const out: Record<string, PlaySubmission | null> = {};
+  const keys = plays.map(playKey);
+  // hmget takes the fields as arguments; keep each call's argument list modest.
+  for (let i = 0; i < keys.length; i += 500) {
+    const chunk = keys.slice(i, i + 500);
+    const found =
+      (await redis.hmget<Record<string, unknown>>(
+        PERFORMANCE_KEYS.submissions(venueId),
+        ...chunk,
+      )) || {};
+    for (const key of chunk)
+      out[key] = parseMaybeJson<PlaySubmission>(found[key]);
+  }
+  return out;
+}
+
+export async function saveIssuedReport(
+  redis: Pick<Redis, "set">,
+  issued: IssuedReport,
+): Promise<void> {
+  await redis.set(
+    PERFORMANCE_KEYS.report(issued.digest),
+    JSON.stringify(issued),
+  );
+  if (issued.pdfHash)
+    await redis.set(PERFORMANCE_KEYS.pdf(issued.pdfHash), issued.digest);
+}
+
+/** Look a report up by its digest, or by the hash of a PDF rendering of it. */
+export async function findIssuedReport(
+  redis: Pick<Redis, "get">,
+  hash: string,
+): Promise<IssuedReport | null> {
+  const direct = parseMaybeJson<IssuedReport>(
+    await redis.get(PERFORMANCE_KEYS.report(hash)),
+  );
+  if (direct) return direct;
+  const digest = await redis.get<string>(PERFORMANCE_KEYS.pdf(hash));
+  if (!digest) return null;
+  return parseMaybeJson<IssuedReport>(
+    await redis.get(PERFORMANCE_KEYS.report(String(digest))),
+  );
+}
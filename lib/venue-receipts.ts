@@ -0,0 +1,464 @@
+import {
+  keccak256,
+  stringToBytes,
+  verifyMessage,
+  type Address,
+  type Hex,
+} from "viem";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Offline venue devices: signed playlist windows in, signed play receipts out.
+ *
+ * The polling device API (`app/api/venue/[venueId]/device`) needs the network for every song.
+ * A device on this protocol instead:
+ *
+ *   1. generates a secp256k1 key on first boot and registers its address against one zone
+ *      (`register_device`, with the venue or zone key);
+ *   2. downloads a **window** — the next `count` positions of the zone's play order, with audio
+ *      URLs to cache — signed by the server key it was told at registration;
+ *   3. plays the window through, online or not, signing a **receipt** for each song;
+ *   4. uploads the receipts whenever it is back online (`receipts`).
+ *
+ * ## Why a receipt counts as a play
+ *
+ * A window is a range of positions in the play order committed for the venue's session
+ * (`VenueSession.seedHash`), over the catalogue slice the zone was allowed at issue time. The
+ * server keeps the seed and that slice with the window. A receipt is accepted only if:
+ *
+ * - it is signed by the device the window was issued to, and that device is not revoked;
+ * - the stored seed still hashes to the committed seed hash;
+ * - its token is the one the seed puts at its position (`playOrderAt`), inside the window;
+ * - its position has not been receipted before;
+ * - its start falls inside the window's lifetime and not in the future;
+ * - its length is at least {@link MIN_PLAY_SECONDS} and no longer than the track;
+ * - it does not overlap another play from the same device.
+ *
+ * So a device can report that it played what it was told to, when it could have, once — and
+ * nothing else. The most a compromised device can do is claim a window it was issued was
+ * played in full, which is what an honest device left running would report anyway.
+ *
+ * ## Wire formats
+ *
+ * Both signed messages are colon-separated strings rather than JSON, so a microcontroller can
+ * build them byte-for-byte without a canonical JSON encoder. Devices sign with EIP-191
+ * `personal_sign`.
+ *
+ * Like lib/venue-zones.ts this module imports nothing from the project at runtime: the route
+ * passes the play-order lookup in, and `tools/verify-venue-receipts.ts` runs it under node.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RECEIPT_PROTOCOL = "empowertours-venue:v1";
+export const DEFAULT_WINDOW_SIZE = 50;
+export const MAX_WINDOW_SIZE = 200;
+/** How long a device may keep playing a window after downloading it. */
+export const WINDOW_TTL_MS = 72 * 60 * 60 * 1000;
+/** How long after a window expires its receipts are still accepted. */
+export const RECEIPT_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+/** The same floor the venue API applies before it records a skipped song. */
+export const MIN_PLAY_SECONDS = 30;
+/** Device clocks drift while offline. */
+export const CLOCK_SKEW_MS = 2 * 60 * 1000;
+const DURATION_SLACK_SECONDS = 15;
+/** Plays are timed by one clock, so only rounding separates back-to-back songs. */
+const OVERLAP_SLACK_MS = 5000;
+export const MAX_RECEIPTS_PER_UPLOAD = 500;
+
+export const RECEIPT_KEYS = {
+  /** Hash: device address -> VenueDevice. */
+  devices: (venueId: string) => `venue:devices:${venueId}`,
+  /** StoredWindow, expiring RECEIPT_GRACE_MS after the window does. */
+  window: (windowId: string) => `venue:window:${windowId}`,
+  /** Set of positions already receipted in a window. */
+  windowReceipts: (windowId: string) => `venue:window-receipts:${windowId}`,
+  /** Next unissued play-order position for a zone's windows. */
+  cursor: (venueId: string, zoneId: string) =>
+    `venue:window-cursor:${venueId}:${zoneId}`,
+} as const;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VenueDevice {
+  address: Address;
+  name: string;
+  zoneId: string;
+  registeredAt: number;
+  revokedAt?: number;
+  /** End (ms) of the latest play accepted from this device. */
+  lastPlayEnd?: number;
+}
+
+export interface WindowTrack {
+  index: number;
+  tokenId: string;
+  name: string;
+  artist: string;
+  audioUrl: string;
+  imageUrl: string;
+  /** Seconds. The longest receipt the track can carry, less slack. */
+  duration: number;
+}
+
+/** What the device receives and the server signs. */
+export interface PlaylistWindow {
+  windowId: string;
+  venueId: string;
+  zoneId: string;
+  device: Address;
+  sessionId: number;
+  seedHash: Hex;
+  startIndex: number;
+  count: number;
+  /** Daypart in force when the window was cut; it applies to the whole window. */
+  daypart: string | null;
+  volume: number;
+  issuedAt: number;
+  expiresAt: number;
+  tracks: WindowTrack[];
+}
+
+export interface SignedWindow {
+  window: PlaylistWindow;
+  signer: Address;
+  signature: Hex;
+}
+
+/** The server's copy. `seed` and `catalog` never leave Redis. */
+export interface StoredWindow {
+  window: PlaylistWindow;
+  /** The venue session seed (not the zone seed) the window was cut from. */
+  seed: Hex;
+  /** The zone's catalogue slice the play order indexes into, in order. */
+  catalog: string[];
+}
+
+export interface PlayReceipt {
+  windowId: string;
+  index: number;
+  tokenId: string;
+  /** ms since epoch, device clock. */
+  startedAt: number;
+  /** Seconds actually played. */
+  duration: number;
+  signature: Hex;
+}
+
+export type ReceiptRejection =
+  | "unknown_window"
+  | "wrong_device"
+  | "device_revoked"
+  | "bad_signature"
+  | "seed_mismatch"
+  | "out_of_window"
+  | "not_in_play_order"
+  | "duplicate"
+  | "too_short"
+  | "too_long"
+  | "outside_window_time"
+  | "in_future"
+  | "overlaps";
+
+export interface ReceiptVerdict {
+  accepted: PlayReceipt[];
+  rejected: { windowId: string; index: number; reason: ReceiptRejection }[];
+}
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/** keccak256 of the window's token ids, comma-joined, in position order. */
+export function windowTracksHash(tracks: { tokenId: string }[]): Hex {
+  return keccak256(stringToBytes(tracks.map((t) => t.tokenId).join(",")));
+}
+
+/** The message the server signs for a window. */
+export function windowMessage(w: PlaylistWindow): string {
+  return [
+    RECEIPT_PROTOCOL,
+    "window",
+    w.windowId,
+    w.venueId,
+    w.zoneId,
+    w.device.toLowerCase(),
+    w.sessionId,
+    w.seedHash,
+    w.startIndex,
+    w.count,
+    w.issuedAt,
+    w.expiresAt,
+    windowTracksHash(w.tracks),
+  ].join(":");
+}
+
+/** The message a device signs for one play. */
+export function receiptMessage(
+  venueId: string,
+  r: Omit<PlayReceipt, "signature">,
+): string {
+  return [
+    RECEIPT_PROTOCOL,
+    "receipt",
+    venueId,
+    r.windowId,
+    r.index,
+    r.tokenId,
+    r.startedAt,
+    r.duration,
+  ].join(":");
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/** Receipts from an upload body, or an error. Shape only; nothing is trusted yet. */
+export function parseReceipts(
+  raw: unknown,
+): { ok: true; receipts: PlayReceipt[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw))
+    return { ok: false, error: "receipts must be an array" };
+  if (raw.length > MAX_RECEIPTS_PER_UPLOAD) {
+    return {
+      ok: false,
+      error: `at most ${MAX_RECEIPTS_PER_UPLOAD} receipts per upload`,
+    };
+  }
+  const receipts: PlayReceipt[] = [];
+  for (const [i, r] of raw.entries()) {
+    if (
+      !r ||
+      typeof r.windowId !== "string" ||
+      !Number.isInteger(r.index) ||
+      typeof r.tokenId !== "string" ||
+      !Number.isInteger(r.startedAt) ||
+      !Number.isInteger(r.duration) ||
+      typeof r.signature !== "string" ||
+      !r.signature.startsWith("0x")
+    ) {
+      return { ok: false, error: `receipts[${i}] is malformed` };
+    }
+    receipts.push({
+      windowId: r.windowId,
+      index: r.index,
+      tokenId: r.tokenId,
+      startedAt: r.startedAt,
+      duration: r.duration,
+      signature: r.signature as Hex,
+    });
+  }
+  return { ok: true, receipts };
+}
+
+/**
+ * Check one window's receipts. Nothing is written: the caller claims each accepted position in
+ * `RECEIPT_KEYS.windowReceipts` before buffering the play, so two concurrent uploads of the same
+ * receipt cannot both count.
+ *
+ * @param tokenAt the token the window's seed puts at a position (see lib/venue-zones.ts)
+ * @param seen positions of this window already receipted
+ */
+export async function verifyWindowReceipts(opts: {
+  stored: StoredWindow;
+  device: VenueDevice;
+  receipts: PlayReceipt[];
+  seen: Set<number>;
+  now: number;
+  tokenAt: (index: number) => string | undefined;
+}): Promise<ReceiptVerdict> {
+  const { stored, device, receipts, now, tokenAt } = opts;
+  const { window } = stored;
+  const verdict: ReceiptVerdict = { accepted: [], rejected: [] };
+  const reject = (r: PlayReceipt, reason: ReceiptRejection) =>
+    verdict.rejected.push({ windowId: r.windowId, index: r.index, reason });
+
+  const windowWide: ReceiptRejection | null =
+    window.device.toLowerCase() !== device.address.toLowerCase()
+      ? "wrong_device"
+      : device.revokedAt !== undefined
+        ? "device_revoked"
+        : keccak256(stored.seed) !== window.seedHash
+          ? "seed_mismatch"
+          : null;
+  if (windowWide) {
+    receipts.forEach((r) => reject(r, windowWide));
+    return verdict;
+  }
+
+  const candidates: PlayReceipt[] = [];
+  const inBatch = new Set<number>();
+  for (const r of receipts) {
+    let valid = false;
+    try {
+      valid = await verifyMessage({
+        address: device.address,
+        message: receiptMessage(window.venueId, r),
+        signature: r.signature,
+      });
+    } catch {
+      valid = false;
+    }
+    if (!valid) {
+      reject(r, "bad_signature");
+      continue;
+    }
+
+    const track = window.tracks[r.index - window.startIndex];
+    if (!track || track.index !== r.index) {
+      reject(r, "out_of_window");
+    } else if (r.tokenId !== track.tokenId || r.tokenId !== tokenAt(r.index)) {
+      reject(r, "not_in_play_order");
+    } else if (opts.seen.has(r.index) || inBatch.has(r.index)) {
+      reject(r, "duplicate");
+    } else if (r.duration < MIN_PLAY_SECONDS) {
+      reject(r, "too_short");
+    } else if (r.duration > track.duration + DURATION_SLACK_SECONDS) {
+      reject(r, "too_long");
+    } else if (
+      r.startedAt < window.issuedAt - CLOCK_SKEW_MS ||
+      r.startedAt > window.expiresAt
+    ) {
+      reject(r, "outside_window_time");
+    } else if (r.startedAt + r.duration * 1000 > now + CLOCK_SKEW_MS) {
+      reject(r, "in_future");
+    } else {
+      inBatch.add(r.index);
+      candidates.push(r);
+    }
+  }
+
+  // One device plays one song at a time, so its plays cannot overlap each other or the last
+  // play it was credited for.
+  let lastEnd = device.lastPlayEnd ?? 0;
+  for (const r of candidates.sort((a, b) => a.startedAt - b.startedAt)) {
+    if (r.startedAt < lastEnd - OVERLAP_SLACK_MS) {
+      reject(r, "overlaps");
+      continue;
+    }
+    verdict.accepted.push(r);
+    lastEnd = r.startedAt + r.duration * 1000;
+  }
+  return verdict;
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
+  }
+  return value as T;
+}
+
+export async function getVenueDevice(
+  redis: Redis,
+  venueId: string,
+  address: string,
+): Promise<VenueDevice | null> {
+  return parseMaybeJson<VenueDevice>(
+    await redis.hget(RECEIPT_KEYS.devices(venueId), address.toLowerCase()),
+  );
+}
+
+export async function listVenueDevices(
+  redis: Redis,
+  venueId: string,
+): Promise<VenueDevice[]> {
+  const all =
+    (await redis.hgetall<Record<string, unknown>>(
+      RECEIPT_KEYS.devices(venueId),
+    )) || {};
+  return Object.values(all)
+    .map((v) => parseMaybeJson<VenueDevice>(v))
+    .filter((d): d is VenueDevice => !!d)
+    .sort((a, b) => a.registeredAt - b.registeredAt);
+}
+
+export async function saveVenueDevice(
+  redis: Redis,
+  venueId: string,
+  device: VenueDevice,
+): Promise<void> {
+  await redis.hset(RECEIPT_KEYS.devices(venueId), {
+    [device.address.toLowerCase()]: JSON.stringify(device),
+  });
+}
+
+/** Reserve `count` fresh play-order positions for a zone; returns the first. */
+export async function reserveWindowPositions(
+  redis: Redis,
+  venueId: string,
+  zoneId: string,
+  count: number,
+): Promise<number> {
+  const end = await redis.incrby(RECEIPT_KEYS.cursor(venueId, zoneId), count);
+  return end - count;
+}
+
+export async function saveStoredWindow(
+  redis: Redis,
+  stored: StoredWindow,
+): Promise<void> {
+  const ttlSeconds = Math.ceil(
+    (stored.window.expiresAt - stored.window.issuedAt + RECEIPT_GRACE_MS) /
+      1000,
+  );
+  await redis.set(
+    RECEIPT_KEYS.window(stored.window.windowId),
+    JSON.stringify(stored),
+    {
+      ex: ttlSeconds,
+    },
+  );
+}
+
+export async function getStoredWindow(
+  redis: Redis,
+  windowId: string,
+): Promise<StoredWindow | null> {
+  return parseMaybeJson<StoredWindow>(
+    await redis.get(RECEIPT_KEYS.window(windowId)),
+  );
+}
+
+/** Positions of a window already receipted. */
+export async function receiptedPositions(
+  redis: Redis,
+  windowId: string,
+): Promise<Set<number>> {
+  const members = await redis.smembers(RECEIPT_KEYS.windowReceipts(windowId));
+  return new Set(members.map(Number));
+}
+
+/**
+ * Claim a position. False when another upload got there first. The set lives as long as the
+ * window record does, which is as long as any receipt for it could be accepted.
+ */
+export async function claimReceipt(
+  redis: Redis,
+  stored: StoredWindow,
+  index: number,
+): Promise<boolean> {
+  const key = RECEIPT_KEYS.windowReceipts(stored.window.windowId);
+  const added = await redis.sadd(key, String(index));
+  if (added) {
+    await redis.expireat(
+      key,
+      Math.ceil((stored.window.expiresAt + RECEIPT_GRACE_MS) / 1000),
+    );
+  }
+  return added === 1;
+}
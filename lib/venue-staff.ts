@@ -0,0 +1,492 @@
+import { isAddress, type Address } from "viem";
+import type { Redis } from "@upstash/redis";
+
+/**
+ * Venue operator roles, staff accounts, named API keys and the audit log.
+ *
+ * A venue used to have one owner wallet and one API key, so anyone at the bar who could start
+ * the music could also rotate keys and download the rights report. Now every person who runs a
+ * venue is a **member** with a role, identified by a wallet, a Farcaster FID or both:
+ *
+ *   - **owner** — the wallet that registered the venue. Implicit, cannot be removed.
+ *   - **manager** — runs the venue day to day: schedules, keys, devices, reports, staff.
+ *   - **staff** — plays, pauses, skips and queues.
+ *
+ * A member's permissions default to their role's ({@link ROLE_PERMISSIONS}) and can be narrowed
+ * per member, never widened past the role.
+ *
+ * ## Keys
+ *
+ * Every request still authenticates with an API key (`X-Venue-Key` or `?key=`), so devices and
+ * players work unchanged. What changed is that a key belongs to a member: it acts with that
+ * member's permissions, optionally only in one zone, and can be revoked on its own. A member
+ * gets a key either from someone allowed to issue one, or by signing in from the dashboard with
+ * their wallet or Farcaster account (`claim_key`). The original venue key is the owner's key
+ * ({@link PRIMARY_KEY_ID}); a zone's own key acts as staff in that zone.
+ *
+ * ## Audit
+ *
+ * Every control and management action is appended to the venue's audit log with the member and
+ * key that did it. The log keeps the last {@link AUDIT_LIMIT} entries. Songs ending and devices
+ * polling are not actions anyone took, so they are not logged.
+ *
+ * Imports nothing from the project at runtime; `tools/verify-venue-staff.ts` runs it under node.
+ */
+
+// ============================================================================
+// ROLES AND PERMISSIONS
+// ============================================================================
+
+export type VenueRole = "owner" | "manager" | "staff";
+
+export const VENUE_PERMISSIONS = [
+  // Play and pause.
+  "playback",
+  "skip",
+  "queue",
+  // Create, edit and delete zones and their daypart schedules.
+  "schedule",
+  // Issue and revoke API keys, rotate zone keys.
+  "keys",
+  // Revoke offline devices.
+  "devices",
+  // Download public-performance reports.
+  "reports",
+  // Add and remove members of a lower role, and read the audit log.
+  "staff",
+  // Change plan and pay invoices.
+  "billing",
+] as const;
+
+export type VenuePermission = (typeof VENUE_PERMISSIONS)[number];
+
+export const ROLE_PERMISSIONS: Record<VenueRole, readonly VenuePermission[]> = {
+  owner: VENUE_PERMISSIONS,
+  manager: [
+    "playback",
+    "skip",
+    "queue",
+    "schedule",
+    "keys",
+    "devices",
+    "reports",
+    "staff",
+  ],
+  staff: ["playback", "skip", "queue"],
+};
+
+const RANK: Record<VenueRole, number> = { owner: 2, manager: 1, staff: 0 };
+
+export const OWNER_MEMBER_ID = "owner";
+/** The venue's original key, `Venue.apiKeyHash`. */
+export const PRIMARY_KEY_ID = "primary";
+export const AUDIT_LIMIT = 1000;
+export const MAX_MEMBERS = 50;
+export const MAX_KEYS = 100;
+
+export function isRole(value: unknown): value is VenueRole {
+  return typeof value === "string" && value in ROLE_PERMISSIONS;
+}
+
+// ============================================================================
+// MEMBERS
+// ============================================================================
+
+export interface VenueMember {
+  memberId: string;
+  role: VenueRole;
+  name: string;
+  /** Lowercased wallet that may sign in as this member. */
+  address?: Address;
+  fid?: number;
+  /** Narrowed permissions; absent means the role's. */
+  permissions?: VenuePermission[];
+  addedAt: number;
+  addedBy: string;
+  removedAt?: number;
+}
+
+/** The owner as a member, from the venue record. */
+export function ownerMember(venue: {
+  ownerAddress: string;
+  ownerFid?: number;
+  createdAt: string;
+}): VenueMember {
+  return {
+    memberId: OWNER_MEMBER_ID,
+    role: "owner",
+    name: "Owner",
+    address: venue.ownerAddress.toLowerCase() as Address,
+    ...(venue.ownerFid ? { fid: venue.ownerFid } : {}),
+    addedAt: Date.parse(venue.createdAt) || 0,
+    addedBy: OWNER_MEMBER_ID,
+  };
+}
+
+export function effectivePermissions(
+  member: Pick<VenueMember, "role" | "permissions">,
+): VenuePermission[] {
+  const ceiling = ROLE_PERMISSIONS[member.role];
+  return member.permissions
+    ? ceiling.filter((p) => member.permissions!.includes(p))
+    : [...ceiling];
+}
+
+export type MemberInput = Pick<
+  VenueMember,
+  "role" | "name" | "address" | "fid" | "permissions"
+>;
+
+/** Validate an add/update body. `partial` allows every field to be absent. */
+export function parseMemberInput(
+  raw: unknown,
+  partial = false,
+): { ok: true; input: Partial<MemberInput> } | { ok: false; error: string } {
+  const body = (raw ?? {}) as Record<string, unknown>;
+  const input: Partial<MemberInput> = {};
+
+  if (body.role !== undefined || !partial) {
+    if (body.role !== "manager" && body.role !== "staff")
+      return { ok: false, error: "role must be manager or staff" };
+    input.role = body.role;
+  }
+  if (body.name !== undefined || !partial) {
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > 60)
+      return { ok: false, error: "name required, up to 60 characters" };
+    input.name = name;
+  }
+  if (body.address !== undefined && body.address !== "") {
+    if (typeof body.address !== "string" || !isAddress(body.address))
+      return { ok: false, error: "address must be a wallet address" };
+    input.address = body.address.toLowerCase() as Address;
+  }
+  if (body.fid !== undefined && body.fid !== "") {
+    const fid = Number(body.fid);
+    if (!Number.isInteger(fid) || fid <= 0)
+      return { ok: false, error: "fid must be a Farcaster ID" };
+    input.fid = fid;
+  }
+  if (!partial && !input.address && !input.fid)
+    return {
+      ok: false,
+      error: "A member needs a wallet address or a Farcaster ID",
+    };
+  if (body.permissions !== undefined) {
+    if (
+      !Array.isArray(body.permissions) ||
+      !body.permissions.every((p) => VENUE_PERMISSIONS.includes(p))
+    )
+      return {
+        ok: false,
+        error: `permissions must be a list of ${VENUE_PERMISSIONS.join(", ")}`,
+      };
+    input.permissions = body.permissions as VenuePermission[];
+  }
+  return { ok: true, input };
+}
+
+/** The active member a signed-in wallet or FID belongs to, if any. */
+export function memberForIdentity(
+  members: VenueMember[],
+  identity: { addresses: string[]; fid?: number },
+): VenueMember | null {
+  const addresses = identity.addresses.map((a) => a.toLowerCase());
+  return (
+    members.find(
+      (m) =>
+        m.removedAt === undefined &&
+        ((m.address && addresses.includes(m.address)) ||
+          (identity.fid !== undefined && m.fid === identity.fid)),
+    ) ?? null
+  );
+}
+
+// ============================================================================
+// ACTORS
+// ============================================================================
+
+export interface VenueApiKey {
+  keyId: string;
+  name: string;
+  memberId: string;
+  /** Set for a key that only opens one zone. */
+  zoneId: string | null;
+  createdAt: number;
+  createdBy: string;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+/** Whoever is making a request, as far as the venue is concerned. */
+export interface VenueActor {
+  /** Null for a zone's own key, which belongs to no one. */
+  memberId: string | null;
+  name: string;
+  role: VenueRole;
+  permissions: VenuePermission[];
+  /** Null when signed in by wallet or Farcaster rather than a key. */
+  keyId: string | null;
+  /** The only zone the actor may control, or null for the whole venue. */
+  zoneId: string | null;
+}
+
+export function memberActor(
+  member: VenueMember,
+  key: Pick<VenueApiKey, "keyId" | "zoneId"> | null,
+): VenueActor {
+  return {
+    memberId: member.memberId,
+    name: member.name,
+    role: member.role,
+    permissions: effectivePermissions(member),
+    keyId: key?.keyId ?? null,
+    zoneId: key?.zoneId ?? null,
+  };
+}
+
+export function zoneKeyActor(zoneId: string): VenueActor {
+  return {
+    memberId: null,
+    name: `Zone key (${zoneId})`,
+    role: "staff",
+    permissions: [...ROLE_PERMISSIONS.staff],
+    keyId: `zone:${zoneId}`,
+    zoneId,
+  };
+}
+
+/** Whether the actor holds `permission`, in `zoneId` when the action is zone-bound. */
+export function can(
+  actor: VenueActor,
+  permission: VenuePermission,
+  zoneId?: string,
+): boolean {
+  if (!actor.permissions.includes(permission)) return false;
+  if (actor.zoneId === null) return true;
+  return zoneId !== undefined && actor.zoneId === zoneId;
+}
+
+/**
+ * Whether the actor may add, change or remove a member of `role`: managing members needs the
+ * staff permission, the whole venue, and a role above the member's.
+ */
+export function canManageRole(actor: VenueActor, role: VenueRole): boolean {
+  return can(actor, "staff") && RANK[actor.role] > RANK[role];
+}
+
+/**
+ * Whether the actor may issue or revoke a key for `member`: its own with the keys permission,
+ * anyone it could manage otherwise. Revoking one's own key needs nothing.
+ */
+export function canManageKeysOf(
+  actor: VenueActor,
+  member: Pick<VenueMember, "memberId" | "role">,
+): boolean {
+  if (!can(actor, "keys")) return false;
+  return (
+    actor.memberId === member.memberId || RANK[actor.role] > RANK[member.role]
+  );
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+export interface AuditEntry {
+  at: number;
+  memberId: string | null;
+  name: string;
+  keyId: string | null;
+  action: string;
+  zoneId?: string;
+  /** Short, human-readable: the song queued, the member added, the plan chosen. */
+  detail?: string;
+}
+
+export function auditEntry(
+  actor: VenueActor,
+  action: string,
+  extra: { zoneId?: string; detail?: string } = {},
+  at: number = Date.now(),
+): AuditEntry {
+  return {
+    at,
+    memberId: actor.memberId,
+    name: actor.name,
+    keyId: actor.keyId,
+    action,
+    ...(extra.zoneId ? { zoneId: extra.zoneId } : {}),
+    ...(extra.detail ? { detail: extra.detail.slice(0, 200) } : {}),
+  };
+}
+
+// ============================================================================
+// REDIS
+// ============================================================================
+
+export const STAFF_KEYS = {
+  /** Hash: memberId -> VenueMember. The owner is not stored here. */
+  members: (venueId: string) => `venue:members:${venueId}`,
+  /** Set of venueIds a wallet is a member of. */
+  memberVenues: (address: string) =>
+    `venue:member-venues:${address.toLowerCase()}`,
+  /** Hash: sha256 of the raw key -> StoredApiKey. */
+  keys: (venueId: string) => `venue:api-keys:${venueId}`,
+  /** List of AuditEntry, newest first. */
+  audit: (venueId: string) => `venue:audit:${venueId}`,
+} as const;
+
+interface StoredApiKey extends VenueApiKey {
+  hash: string;
+}
+
+function parseMaybeJson<T>(value: unknown): T | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") {
+    try {
+      return JSON.parse(value) as T;
+    } catch {
+      return null;
+    }
+  }
+  return value as T;
+}
+
+export async function listMembers(
+  redis: Redis,
+  venueId: string,
+): Promise<VenueMember[]> {
+  const all =
+    (await redis.hgetall<Record<string, unknown>>(
+      STAFF_KEYS.members(venueId),
+    )) || {};
+  return Object.values(all)
+    .map((v) => parseMaybeJson<VenueMember>(v))
+    .filter((m): m is VenueMember => !!m)
+    .sort((a, b) => a.addedAt - b.addedAt);
+}
+
+export async function getMember(
+  redis: Redis,
+  venueId: string,
+  memberId: string,
+): Promise<VenueMember | null> {
+  return parseMaybeJson<VenueMember>(
+    await redis.hget(STAFF_KEYS.members(venueId), memberId),
+  );
+}
+
+/** Store a member, moving the wallet index if its address changed. */
+export async function saveMember(
+  redis: Redis,
+  venueId: string,
+  member: VenueMember,
+  previous: VenueMember | null = null,
+): Promise<void> {
+  await redis.hset(STAFF_KEYS.members(venueId), {
+    [member.memberId]: JSON.stringify(member),
+  });
+  if (previous?.address && previous.address !== member.address) {
+    await redis.srem(STAFF_KEYS.memberVenues(previous.address), venueId);
+  }
+  if (member.address) {
+    if (member.removedAt === undefined) {
+      await redis.sadd(STAFF_KEYS.memberVenues(member.address), venueId);
+    } else {
+      await redis.srem(STAFF_KEYS.memberVenues(member.address), venueId);
+    }
+  }
+}
+
+export async function venuesForMember(
+  redis: Redis,
+  address: string,
+): Promise<string[]> {
+  return (await redis.smembers(STAFF_KEYS.memberVenues(address))).map(String);
+}
+
+export async function findApiKey(
+  redis: Redis,
+  venueId: string,
+  hash: string,
+): Promise<VenueApiKey | null> {
+  const stored = parseMaybeJson<StoredApiKey>(
+    await redis.hget(STAFF_KEYS.keys(venueId), hash),
+  );
+  if (!stored) return null;
+  const { hash: _hash, ...key } = stored;
+  return key;
+}
+
+async function storedKeys(
+  redis: Redis,
+  venueId: string,
+): Promise<StoredApiKey[]> {
+  const all =
+    (await redis.hgetall<Record<string, unknown>>(STAFF_KEYS.keys(venueId))) ||
+    {};
+  return Object.values(all)
+    .map((v) => parseMaybeJson<StoredApiKey>(v))
+    .filter((k): k is StoredApiKey => !!k)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Every named key, without its hash. */
+export async function listApiKeys(
+  redis: Redis,
+  venueId: string,
+): Promise<VenueApiKey[]> {
+  return (await storedKeys(redis, venueId)).map(
+    ({ hash: _hash, ...key }) => key,
+  );
+}
+
+export async function saveApiKey(
+  redis: Redis,
+  venueId: string,
+  hash: string,
+  key: VenueApiKey,
+): Promise<void> {
+  const stored: StoredApiKey = { ...key, hash };
+  await redis.hset(STAFF_KEYS.keys(venueId), {
+    [hash]: JSON.stringify(stored),
+  });
+}
+
+/** Revoke keys matching `match`; returns the ones newly revoked. */
+export async function revokeApiKeys(
+  redis: Redis,
+  venueId: string,
+  match: (key: VenueApiKey) => boolean,
+  now: number = Date.now(),
+): Promise<VenueApiKey[]> {
+  const revoked: VenueApiKey[] = [];
+  for (const { hash, ...key } of await storedKeys(redis, venueId)) {
+    if (key.revokedAt !== undefined || !match(key)) continue;
+    const updated = { ...key, revokedAt: now };
+    await saveApiKey(redis, venueId, hash, updated);
+    revoked.push(updated);
+  }
+  return revoked;
+}
+
+export async function logAudit(
+  redis: Redis,
+  venueId: string,
+  entry: AuditEntry,
+): Promise<void> {
+  await redis.lpush(STAFF_KEYS.audit(venueId), JSON.stringify(entry));
+  await redis.ltrim(STAFF_KEYS.audit(venueId), 0, AUDIT_LIMIT - 1);
+}
+
+export async function readAudit(
+  redis: Redis,
+  venueId: string,
+  limit = 100,
+): Promise<AuditEntry[]> {
+  const raw = await redis.lrange(STAFF_KEYS.audit(venueId), 0, limit - 1);
+  return raw
+    .map((v) => parseMaybeJson<AuditEntry>(v))
+    .filter((e): e is AuditEntry => !!e);
+}
@@ -0,0 +1,414 @@
+import { concatHex, keccak256, stringToHex, type Hex } from "viem";
+
+/**
+ * Venue zones: the bar, the patio and the lobby, each playing its own music.
+ *
+ * A venue used to be one player — one `VenuePlaybackState`, one queue. A zone is a player under
+ * a venue, with its own state, queue, history, play batch and device key, and a weekly schedule
+ * of dayparts that decides what it plays and how loud. `app/api/venue/scheduler` runs every zone
+ * of every active venue.
+ *
+ * ## The venue's existing player is the "main" zone
+ *
+ * {@link DEFAULT_ZONE_ID} keeps the Redis keys every venue already has (see `VENUE_KEYS` in
+ * lib/venue.ts), so venues registered before zones existed keep their state, queue and history,
+ * and devices that never send a zone keep driving the same player.
+ *
+ * ## Schedules
+ *
+ * Dayparts are evaluated in the venue's IANA time zone, not at a fixed offset as Live Radio's
+ * are (lib/radio-programming.ts): a patio that opens at 17:00 opens at 17:00 local on both sides
+ * of a daylight-saving change. Windows are minute-resolution and may wrap past midnight; the
+ * first daypart that matches wins.
+ *
+ * A daypart narrows the cleared catalogue by curator tags (`PROGRAMMING_KEYS.trackTags`, shared
+ * with radio) and sets the zone's volume. A daypart the catalogue cannot satisfy is relaxed —
+ * energy first, then genre — rather than leaving the zone silent.
+ *
+ * ## Seeds
+ *
+ * Every zone draws from the venue's one committed playlist seed, through {@link zoneSeed}. The
+ * main zone uses the seed itself, so its play order is what it was before zones; the others use
+ * a hash of the seed and the zone id, which anyone holding the revealed seed can recompute.
+ *
+ * Like lib/radio-programming.ts this imports nothing from the project, so
+ * `tools/verify-venue-zones.ts` runs it under plain node.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_ZONE_ID = "main";
+export const MAX_ZONES = 8;
+export const MAX_DAYPARTS = 32;
+export const DEFAULT_VOLUME = 70;
+
+export const ENERGY_LEVELS = ["low", "medium", "high"] as const;
+export type EnergyLevel = (typeof ENERGY_LEVELS)[number];
+
+const ZONE_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,23}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ZoneDaypart {
+  name: string;
+  /** 0 = Sunday. Omitted means every day. For a window that wraps midnight, the day it starts. */
+  days?: number[];
+  /** "HH:MM", inclusive. */
+  start: string;
+  /** "HH:MM", exclusive; "24:00" is midnight. At or before `start` the window wraps. */
+  end: string;
+  /** A track matches when it carries any listed genre. Omitted means any genre. */
+  genres?: string[];
+  /** A track matches when its energy tag is listed. Omitted means any energy. */
+  energy?: EnergyLevel[];
+  /** 0-100. Omitted means the schedule's default. */
+  volume?: number;
+}
+
+export interface ZoneSchedule {
+  /** IANA time zone, e.g. "Europe/Lisbon". */
+  timezone: string;
+  dayparts: ZoneDaypart[];
+  /** Volume outside every daypart, 0-100. */
+  defaultVolume: number;
+}
+
+export interface VenueZone {
+  zoneId: string;
+  name: string;
+  /** sha256 of the zone's device key. Empty for the main zone, which uses the venue key. */
+  apiKeyHash: string;
+  schedule: ZoneSchedule;
+  createdAt: string;
+}
+
+/** The fields of curator tags a daypart reads. Same shape as `TrackTags` in radio programming. */
+export interface ZoneTrackTags {
+  genres?: string[];
+  energy?: EnergyLevel;
+}
+
+export type ZoneRelaxation = "energy" | "genre";
+
+// ============================================================================
+// DEFAULTS
+// ============================================================================
+
+export const DEFAULT_ZONE_SCHEDULE: ZoneSchedule = {
+  timezone: "UTC",
+  dayparts: [],
+  defaultVolume: DEFAULT_VOLUME,
+};
+
+/** The main zone of a venue that has never saved one. */
+export function defaultMainZone(createdAt: string): VenueZone {
+  return {
+    zoneId: DEFAULT_ZONE_ID,
+    name: "Main",
+    apiKeyHash: "",
+    schedule: DEFAULT_ZONE_SCHEDULE,
+    createdAt,
+  };
+}
+
+/** A zone as owners and devices see it — without its key hash. */
+export function publicZone(zone: VenueZone): Omit<VenueZone, "apiKeyHash"> {
+  const { apiKeyHash: _hash, ...rest } = zone;
+  return rest;
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function isTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || !tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isVolume(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= 0 && (v as number) <= 100;
+}
+
+function tagList(values: string[] | undefined): string[] {
+  return (values || []).map((v) => v.trim().toLowerCase()).filter(Boolean);
+}
+
+/** A zone id from an explicit id or, failing that, the zone's name. */
+export function zoneIdFrom(raw: unknown, name: string): string {
+  const source = typeof raw === "string" && raw ? raw : name;
+  return source
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 24);
+}
+
+export function isZoneId(id: unknown): id is string {
+  return typeof id === "string" && ZONE_ID_PATTERN.test(id);
+}
+
+/**
+ * Validate a schedule submitted from the dashboard. Every error is collected, as with radio
+ * presets — the owner is editing by hand and deserves the whole list at once.
+ */
+export function parseZoneSchedule(
+  raw: unknown,
+): { ok: true; schedule: ZoneSchedule } | { ok: false; errors: string[] } {
+  if (!raw || typeof raw !== "object") {
+    return { ok: false, errors: ["schedule must be an object"] };
+  }
+  const r = raw as Record<string, any>;
+  const errors: string[] = [];
+
+  if (!isTimeZone(r.timezone)) {
+    errors.push('timezone must be an IANA time zone, e.g. "America/New_York"');
+  }
+  const defaultVolume = r.defaultVolume ?? DEFAULT_VOLUME;
+  if (!isVolume(defaultVolume)) {
+    errors.push("defaultVolume must be an integer 0-100");
+  }
+
+  const dayparts: ZoneDaypart[] = [];
+  if (!Array.isArray(r.dayparts)) {
+    errors.push("dayparts must be an array");
+  } else if (r.dayparts.length > MAX_DAYPARTS) {
+    errors.push(`at most ${MAX_DAYPARTS} dayparts`);
+  } else {
+    r.dayparts.forEach((d: any, i: number) => {
+      const at = `dayparts[${i}]`;
+      if (!d || typeof d !== "object") {
+        errors.push(`${at} must be an object`);
+        return;
+      }
+      const before = errors.length;
+      if (typeof d.name !== "string" || !d.name.trim()) {
+        errors.push(`${at}.name is required`);
+      }
+      if (
+        typeof d.start !== "string" ||
+        !TIME_PATTERN.test(d.start) ||
+        d.start === "24:00"
+      ) {
+        errors.push(`${at}.start must be "HH:MM"`);
+      }
+      if (typeof d.end !== "string" || !TIME_PATTERN.test(d.end)) {
+        errors.push(`${at}.end must be "HH:MM" (or "24:00")`);
+      }
+      if (
+        d.days !== undefined &&
+        !(
+          Array.isArray(d.days) &&
+          d.days.every(
+            (n: unknown) =>
+              Number.isInteger(n) && (n as number) >= 0 && (n as number) <= 6,
+          )
+        )
+      ) {
+        errors.push(`${at}.days must be weekday numbers 0-6`);
+      }
+      if (
+        d.genres !== undefined &&
+        !(
+          Array.isArray(d.genres) &&
+          d.genres.every((g: unknown) => typeof g === "string")
+        )
+      ) {
+        errors.push(`${at}.genres must be an array of strings`);
+      }
+      if (
+        d.energy !== undefined &&
+        !(
+          Array.isArray(d.energy) &&
+          d.energy.every((e: unknown) =>
+            ENERGY_LEVELS.includes(e as EnergyLevel),
+          )
+        )
+      ) {
+        errors.push(`${at}.energy must list ${ENERGY_LEVELS.join(", ")}`);
+      }
+      if (d.volume !== undefined && !isVolume(d.volume)) {
+        errors.push(`${at}.volume must be an integer 0-100`);
+      }
+      if (errors.length > before) return;
+
+      dayparts.push({
+        name: d.name.trim(),
+        ...(d.days ? { days: d.days } : {}),
+        start: d.start,
+        end: d.end,
+        ...(d.genres ? { genres: tagList(d.genres) } : {}),
+        ...(d.energy ? { energy: d.energy } : {}),
+        ...(d.volume !== undefined ? { volume: d.volume } : {}),
+      });
+    });
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    schedule: { timezone: r.timezone, dayparts, defaultVolume },
+  };
+}
+
+// ============================================================================
+// SCHEDULE EVALUATION
+// ============================================================================
+
+const minutes = (hhmm: string) =>
+  Number(hhmm.slice(0, 2)) * 60 + Number(hhmm.slice(3, 5));
+
+/** Weekday (0 = Sunday) and minute of the day at `now` in `timeZone`. */
+export function localClock(
+  now: number,
+  timeZone: string,
+): { day: number; minute: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(new Date(now));
+  const part = (type: string) =>
+    parts.find((p) => p.type === type)?.value || "0";
+  return {
+    day: WEEKDAYS.indexOf(part("weekday")),
+    minute: (Number(part("hour")) % 24) * 60 + Number(part("minute")),
+  };
+}
+
+/** The daypart in force at `now`, or null. First match wins, so list specific windows first. */
+export function activeZoneDaypart(
+  schedule: ZoneSchedule,
+  now: number,
+): ZoneDaypart | null {
+  const { day, minute } = localClock(now, schedule.timezone);
+  for (const d of schedule.dayparts) {
+    const start = minutes(d.start);
+    const end = minutes(d.end);
+    let startDay: number;
+    if (end > start) {
+      if (minute < start || minute >= end) continue;
+      startDay = day;
+    } else if (minute >= start) {
+      startDay = day;
+    } else if (minute < end) {
+      // 01:30 Saturday inside a Friday 22:00-02:00 window belongs to Friday.
+      startDay = (day + 6) % 7;
+    } else {
+      continue;
+    }
+    if (d.days && d.days.length > 0 && !d.days.includes(startDay)) continue;
+    return d;
+  }
+  return null;
+}
+
+/** Volume the zone should be at now. */
+export function zoneVolume(
+  schedule: ZoneSchedule,
+  daypart: ZoneDaypart | null,
+): number {
+  return daypart?.volume ?? schedule.defaultVolume;
+}
+
+/**
+ * The tracks a daypart allows, in catalogue order. Order matters: the scheduler indexes into
+ * this list with the zone's seed, so it must be the same list for the same inputs.
+ */
+export function zonePlaylist<T extends { tokenId: string }>(
+  catalogue: T[],
+  daypart: ZoneDaypart | null,
+  tags: Record<string, ZoneTrackTags>,
+): { tracks: T[]; relaxed: ZoneRelaxation[] } {
+  if (!daypart) return { tracks: catalogue, relaxed: [] };
+  const genres = tagList(daypart.genres);
+  const energy = daypart.energy || [];
+
+  const fits = (t: T, withEnergy: boolean) => {
+    const tag = tags[String(t.tokenId)] || {};
+    if (
+      genres.length > 0 &&
+      !tagList(tag.genres).some((g) => genres.includes(g))
+    ) {
+      return false;
+    }
+    if (
+      withEnergy &&
+      energy.length > 0 &&
+      !(tag.energy && energy.includes(tag.energy))
+    ) {
+      return false;
+    }
+    return true;
+  };
+
+  const strict = catalogue.filter((t) => fits(t, true));
+  if (strict.length > 0) return { tracks: strict, relaxed: [] };
+  if (energy.length > 0) {
+    const genreOnly = catalogue.filter((t) => fits(t, false));
+    if (genreOnly.length > 0) return { tracks: genreOnly, relaxed: ["energy"] };
+  }
+  return {
+    tracks: catalogue,
+    relaxed: [
+      ...(energy.length > 0 ? ["energy" as const] : []),
+      ...(genres.length > 0 ? ["genre" as const] : []),
+    ],
+  };
+}
+
+/**
+ * The token at position `index` of the play order a seed commits to.
+ * Same algorithm as VenueRegistry.derivePlayOrder() on-chain:
+ * uint256(keccak256(abi.encodePacked(seed, index))) % catalogSize.
+ */
+export function playOrderAt(
+  seed: string,
+  tokenIds: string[],
+  index: number,
+): string | undefined {
+  if (tokenIds.length === 0) return undefined;
+  const packed = keccak256(
+    `0x${seed.replace("0x", "")}${index.toString(16).padStart(64, "0")}` as Hex,
+  );
+  return tokenIds[Number(BigInt(packed) % BigInt(tokenIds.length))];
+}
+
+/**
+ * Derive a deterministic play order from a seed: positions 0 to count - 1.
+ * @param seed The 32-byte hex seed
+ * @param tokenIds Array of available token IDs
+ * @param count How many songs to pick
+ * @returns Ordered array of token IDs
+ */
+export function derivePlayOrder(
+  seed: string,
+  tokenIds: string[],
+  count: number,
+): string[] {
+  if (tokenIds.length === 0) return [];
+  return Array.from(
+    { length: count },
+    (_, i) => playOrderAt(seed, tokenIds, i) as string,
+  );
+}
+
+/** The seed a zone draws its play order from. See the module comment. */
+export function zoneSeed(seed: string, zoneId: string): string {
+  if (zoneId === DEFAULT_ZONE_ID) return seed;
+  return keccak256(concatHex([seed as Hex, stringToHex(zoneId)]));
+}
@@ -1,7 +1,70 @@
 import { Redis } from '@upstash/redis';
 import { randomBytes, createHash } from 'crypto';
-import { keccak256, toHex } from 'viem';
+import { createPublicClient, http, keccak256, parseAbi, toHex } from 'viem';
+import { activeChain } from '@/app/chains';
 import { getRightsStatus } from '@/lib/rights-declaration';
+import { recordRefundDue } from '@/lib/rights-dispute';
+import { loadTrackTags } from '@/lib/radio-programming';
+import { logPerformance } from '@/lib/venue-performance';
+import { listVenueDevices } from '@/lib/venue-receipts';
+import {
+  OWNER_MEMBER_ID,
+  PRIMARY_KEY_ID,
+  can,
+  findApiKey,
+  getMember,
+  memberActor,
+  ownerMember,
+  saveApiKey,
+  zoneKeyActor,
+  type VenueActor,
+  type VenueApiKey,
+  type VenuePermission,
+} from '@/lib/venue-staff';
+import {
+  BILLING_KEYS,
+  DEFAULT_PLAN_ID,
+  SUBSCRIPTION_CACHE_MS,
+  billingAccess,
+  buildInvoice,
+  getSubscriptionCheck,
+  getUsage,
+  invoiceId,
+  issueInvoice,
+  meterPlay,
+  notePeak,
+  openInvoices,
+  periodBounds,
+  periodOf,
+  planFor,
+  previousPeriod,
+  saveSubscriptionCheck,
+  type VenueInvoice,
+  type AccessBlock,
+  type PlanHistory,
+  type SubscriptionCheck,
+  type VenueAccess,
+  type VenuePlanId,
+} from '@/lib/venue-billing';
+import {
+  droppedRequestRefund,
+  getJukeboxSettings,
+  isRequestable,
+  listRequests,
+  removeRequest,
+  type JukeboxRequest,
+} from '@/lib/venue-jukebox';
+import {
+  DEFAULT_ZONE_ID,
+  MAX_ZONES,
+  activeZoneDaypart,
+  defaultMainZone,
+  isZoneId,
+  zoneIdFrom,
+  zonePlaylist,
+  type VenueZone,
+  type ZoneSchedule,
+} from '@/lib/venue-zones';
 
 /**
  * Venue Player — Core Module
@@ -10,6 +73,15 @@ import { getRightsStatus } from '@/lib/rights-declaration';
  * MusicSubscriptionV5, plays recorded via PlayOracleV3. Only
  * rights-cleared songs (status = 'cleared') are eligible.
  * Legacy NFTs without rights records are excluded.
+ *
+ * A venue plays in one or more zones (lib/venue-zones.ts). Playback
+ * state, queue, history and the play batch are per zone; the main zone
+ * keeps the original un-suffixed keys.
+ *
+ * What a venue may play is set by its plan (lib/venue-billing.ts). Who
+ * may do what is set by members and their keys (lib/venue-staff.ts).
+ * Patrons can request songs when the venue runs a jukebox
+ * (lib/venue-jukebox.ts).
  */
 
 // ============================================================================
@@ -25,6 +97,11 @@ export interface Venue {
   createdAt: string;
   isActive: boolean;
   settings: VenueSettings;
+  /** Absent on venues registered before plans: they bill as LEGACY_PLAN_ID. */
+  plan?: VenuePlanId;
+  planHistory?: PlanHistory;
+  /** When billing began; the first invoice is prorated from here. */
+  billingSince?: number;
 }
 
 export interface VenueSettings {
@@ -39,6 +116,13 @@ export interface VenuePlaybackState {
   songsPlayedToday: number;
   totalSongsPlayed: number;
   lastUpdated: number;
+  zoneId?: string;
+  /** Name of the zone daypart in force, if any. */
+  daypart?: string | null;
+  /** 0-100, from the zone's schedule. */
+  volume?: number;
+  /** Set when billing paused the zone; the scheduler resumes it when cleared. */
+  billingHold?: AccessBlock | null;
 }
 
 export interface VenueSong {
@@ -65,17 +149,26 @@ export interface VenueHistoryEntry {
 // REDIS KEY HELPERS
 // ============================================================================
 
+// Per-zone keys: the main zone keeps the key it had before zones existed.
+const zoned = (key: string, zoneId: string) =>
+  zoneId === DEFAULT_ZONE_ID ? key : `${key}:${zoneId}`;
+
 export const VENUE_KEYS = {
   info: (venueId: string) => `venue:info:${venueId}`,
   owner: (address: string) => `venue:owner:${address.toLowerCase()}`,
-  state: (venueId: string) => `venue:state:${venueId}`,
-  queue: (venueId: string) => `venue:queue:${venueId}`,
-  history: (venueId: string) => `venue:history:${venueId}`,
+  zones: (venueId: string) => `venue:zones:${venueId}`,
+  state: (venueId: string, zoneId: string = DEFAULT_ZONE_ID) =>
+    zoned(`venue:state:${venueId}`, zoneId),
+  queue: (venueId: string, zoneId: string = DEFAULT_ZONE_ID) =>
+    zoned(`venue:queue:${venueId}`, zoneId),
+  history: (venueId: string, zoneId: string = DEFAULT_ZONE_ID) =>
+    zoned(`venue:history:${venueId}`, zoneId),
   stats: (venueId: string) => `venue:stats:${venueId}`,
   schedulerLock: (venueId: string) => `venue:scheduler-lock:${venueId}`,
   activeVenues: 'venue:active-set',
   session: (venueId: string) => `venue:session:${venueId}`,
-  playBatch: (venueId: string) => `venue:playbatch:${venueId}`,
+  playBatch: (venueId: string, zoneId: string = DEFAULT_ZONE_ID) =>
+    zoned(`venue:playbatch:${venueId}`, zoneId),
   lastBatchSubmit: (venueId: string) => `venue:lastBatchSubmit:${venueId}`,
   mining: (venueId: string) => `venue:mining:${venueId}`,
   miningLeaderboard: 'venue:mining:leaderboard',
@@ -95,15 +188,94 @@ export function hashApiKey(raw: string): string {
   return createHash('sha256').update(raw).digest('hex');
 }
 
+// lastUsedAt is for the dashboard, not security; a polling device would
+// otherwise write on every request
+const KEY_TOUCH_MS = 60 * 60 * 1000;
+
+/**
+ * Who a key belongs to. The venue key is the owner's; a named key acts as
+ * its member, in its zone if it has one; a zone's own key acts as staff in
+ * that zone (checked only when `zoneId` is given). Null for an unknown or
+ * revoked key, or one whose member was removed.
+ */
+export async function getVenueActor(
+  redis: Redis,
+  venueId: string,
+  rawKey: string,
+  zoneId?: string
+): Promise<VenueActor | null> {
+  const venue = await getVenue(redis, venueId);
+  if (!venue) return null;
+  const hashed = hashApiKey(rawKey);
+  if (venue.apiKeyHash === hashed) {
+    return memberActor(ownerMember(venue), { keyId: PRIMARY_KEY_ID, zoneId: null });
+  }
+
+  const key = await findApiKey(redis, venueId, hashed);
+  if (key) {
+    if (key.revokedAt !== undefined) return null;
+    const member = key.memberId === OWNER_MEMBER_ID
+      ? ownerMember(venue)
+      : await getMember(redis, venueId, key.memberId);
+    if (!member || member.removedAt !== undefined) return null;
+    const now = Date.now();
+    if (!key.lastUsedAt || now - key.lastUsedAt > KEY_TOUCH_MS) {
+      await saveApiKey(redis, venueId, hashed, { ...key, lastUsedAt: now });
+    }
+    return memberActor(member, key);
+  }
+
+  if (zoneId) {
+    const zone = await getVenueZone(redis, venueId, zoneId);
+    if (zone?.apiKeyHash && zone.apiKeyHash === hashed) return zoneKeyActor(zoneId);
+  }
+  return null;
+}
+
+/**
+ * A key that opens the whole venue, holding `permission` if one is asked
+ * for. The original venue key passes everything.
+ */
 export async function verifyApiKey(
   redis: Redis,
   venueId: string,
+  rawKey: string,
+  permission?: VenuePermission
+): Promise<boolean> {
+  const actor = await getVenueActor(redis, venueId, rawKey);
+  return !!actor && actor.zoneId === null && (!permission || can(actor, permission));
+}
+
+/**
+ * Device access to one zone: a venue-wide key opens every zone, a zone's
+ * own key or a zone-bound named key opens only that zone.
+ */
+export async function verifyZoneKey(
+  redis: Redis,
+  venueId: string,
+  zoneId: string,
   rawKey: string
 ): Promise<boolean> {
-  const venue = await getVenue(redis, venueId);
-  if (!venue) return false;
-  const hashed = hashApiKey(rawKey);
-  return venue.apiKeyHash === hashed;
+  const actor = await getVenueActor(redis, venueId, rawKey, zoneId);
+  return !!actor && (actor.zoneId === null || actor.zoneId === zoneId);
+}
+
+/** Issue a named key for a member; the raw key is returned once. */
+export async function createVenueApiKey(
+  redis: Redis,
+  venueId: string,
+  input: Pick<VenueApiKey, 'name' | 'memberId' | 'zoneId' | 'createdBy'>
+): Promise<{ key: VenueApiKey; apiKey: string }> {
+  const { raw: apiKey, hashed } = generateApiKey();
+  const key: VenueApiKey = {
+    keyId: randomBytes(8).toString('hex'),
+    ...input,
+    createdAt: Date.now(),
+  };
+  await saveApiKey(redis, venueId, hashed, key);
+
+  console.log(`[Venue] Issued key ${key.keyId} "${key.name}" to ${key.memberId} at ${venueId}`);
+  return { key, apiKey };
 }
 
 // ============================================================================
@@ -139,6 +311,9 @@ export async function registerVenue(
       autoplay: true,
       shuffle: true,
     },
+    plan: DEFAULT_PLAN_ID,
+    planHistory: [{ plan: DEFAULT_PLAN_ID, since: Date.now() }],
+    billingSince: Date.now(),
   };
 
   // Store venue record and owner lookup
@@ -204,15 +379,295 @@ export async function regenerateApiKey(
   return apiKey;
 }
 
+// ============================================================================
+// BILLING
+// ============================================================================
+
+const SUBSCRIPTION_ABI = parseAbi([
+  'function hasActiveSubscription(address user) view returns (bool)',
+]);
+
+export async function setVenuePlan(
+  redis: Redis,
+  venueId: string,
+  planId: VenuePlanId
+): Promise<Venue | null> {
+  const venue = await getVenue(redis, venueId);
+  if (!venue) return null;
+
+  const now = Date.now();
+  // A legacy venue's history starts with the plan it was billed at all along
+  const history = venue.planHistory ?? [{ plan: planFor(venue.plan).id, since: venue.billingSince ?? 0 }];
+  venue.planHistory = [...history, { plan: planId, since: now }];
+  venue.plan = planId;
+  venue.billingSince = venue.billingSince ?? now;
+  await redis.set(VENUE_KEYS.info(venueId), JSON.stringify(venue));
+
+  console.log(`[Venue] ${venueId} moved to plan ${planId}`);
+  return venue;
+}
+
+/**
+ * The owner's MusicSubscription status, read at most every
+ * SUBSCRIPTION_CACHE_MS. Null when it cannot be known (no contract
+ * configured, or never read successfully), which never blocks playback.
+ */
+export async function checkVenueSubscription(
+  redis: Redis,
+  venue: Venue,
+  now: number = Date.now()
+): Promise<SubscriptionCheck | null> {
+  const previous = await getSubscriptionCheck(redis, venue.venueId);
+  if (previous && now - previous.checkedAt < SUBSCRIPTION_CACHE_MS) return previous;
+
+  const subscription = process.env.NEXT_PUBLIC_MUSIC_SUBSCRIPTION;
+  if (!subscription) return null;
+  try {
+    const client = createPublicClient({
+      chain: activeChain,
+      transport: http(process.env.NEXT_PUBLIC_MONAD_RPC || 'https://rpc.monad.xyz'),
+    });
+    const active = await client.readContract({
+      address: subscription as `0x${string}`,
+      abi: SUBSCRIPTION_ABI,
+      functionName: 'hasActiveSubscription',
+      args: [venue.ownerAddress as `0x${string}`],
+    });
+    return await saveSubscriptionCheck(redis, venue.venueId, previous, active, now);
+  } catch (err: any) {
+    console.warn(`[Venue] Subscription read failed for ${venue.venueId}:`, err.message?.slice(0, 80));
+    return previous;
+  }
+}
+
+/** Whether the venue may start new songs now, and what to warn about. */
+export async function getVenueAccess(
+  redis: Redis,
+  venue: Venue,
+  now: number = Date.now()
+): Promise<VenueAccess> {
+  const [usage, subscription, open] = await Promise.all([
+    getUsage(redis, venue.venueId, periodOf(now)),
+    checkVenueSubscription(redis, venue, now),
+    openInvoices(redis, venue.venueId),
+  ]);
+  return billingAccess({
+    plan: planFor(venue.plan),
+    usage,
+    subscription,
+    overdue: open.filter(invoice => invoice.dueAt <= now),
+    now,
+  });
+}
+
+/**
+ * Issue last month's invoice if it is due and not issued yet. A venue
+ * from before billing has no billingSince; its first call starts the
+ * clock instead, so it is never billed for time before plans existed.
+ */
+export async function issueDueInvoice(
+  redis: Redis,
+  venue: Venue,
+  now: number = Date.now()
+): Promise<VenueInvoice | null> {
+  if (venue.billingSince === undefined) {
+    venue.billingSince = now;
+    await redis.set(VENUE_KEYS.info(venue.venueId), JSON.stringify(venue));
+    return null;
+  }
+  const period = previousPeriod(periodOf(now));
+  if (periodBounds(period).endMs <= venue.billingSince) return null;
+  if (await redis.exists(BILLING_KEYS.invoice(invoiceId(venue.venueId, period)))) return null;
+
+  const token = process.env.NEXT_PUBLIC_WMON;
+  const payTo = process.env.TREASURY_ADDRESS;
+  if (!token || !payTo) return null;
+
+  // Peaks are only noted when something is added; what is still there counts too
+  const [usage, zones, devices] = await Promise.all([
+    getUsage(redis, venue.venueId, period),
+    getVenueZones(redis, venue.venueId),
+    listVenueDevices(redis, venue.venueId),
+  ]);
+  usage.peakZones = Math.max(usage.peakZones, zones.length);
+  usage.peakDevices = Math.max(usage.peakDevices, devices.filter(d => d.revokedAt === undefined).length);
+
+  const invoice = buildInvoice({
+    venueId: venue.venueId,
+    usage,
+    planHistory: venue.planHistory,
+    currentPlanId: venue.plan,
+    billingSince: venue.billingSince,
+    token: token as `0x${string}`,
+    payTo: payTo as `0x${string}`,
+    issuedAt: now,
+  });
+  if (!(await issueInvoice(redis, invoice))) return null;
+
+  console.log(`[Venue] Issued invoice ${invoice.invoiceId}: ${invoice.totalWei} wei`);
+  return invoice;
+}
+
+// ============================================================================
+// ZONES
+// ============================================================================
+
+function parseZone(raw: unknown): VenueZone {
+  return typeof raw === 'string' ? JSON.parse(raw) : raw as VenueZone;
+}
+
+/** SSE channel for one zone. The main zone keeps the venue's channel. */
+export function venueChannel(venueId: string, zoneId: string = DEFAULT_ZONE_ID): string {
+  return zoneId === DEFAULT_ZONE_ID ? `venue:${venueId}` : `venue:${venueId}:${zoneId}`;
+}
+
+/** Every zone of a venue, main first. Main exists whether or not it was ever saved. */
+export async function getVenueZones(redis: Redis, venueId: string): Promise<VenueZone[]> {
+  const all = (await redis.hgetall<Record<string, unknown>>(VENUE_KEYS.zones(venueId))) || {};
+  const zones = Object.values(all).map(parseZone);
+  const main = zones.find(z => z.zoneId === DEFAULT_ZONE_ID);
+  const rest = zones
+    .filter(z => z.zoneId !== DEFAULT_ZONE_ID)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  if (main) return [main, ...rest];
+
+  const venue = await getVenue(redis, venueId);
+  return [defaultMainZone(venue?.createdAt || new Date(0).toISOString()), ...rest];
+}
+
+export async function getVenueZone(
+  redis: Redis,
+  venueId: string,
+  zoneId: string
+): Promise<VenueZone | null> {
+  const raw = await redis.hget(VENUE_KEYS.zones(venueId), zoneId);
+  if (raw) return parseZone(raw);
+  if (zoneId !== DEFAULT_ZONE_ID) return null;
+  const venue = await getVenue(redis, venueId);
+  return venue ? defaultMainZone(venue.createdAt) : null;
+}
+
+/**
+ * Add a zone. Returns its device key — shown once, like the venue key.
+ * The schedule must already have been through parseZoneSchedule.
+ */
+export async function createVenueZone(
+  redis: Redis,
+  venueId: string,
+  input: { zoneId?: string; name: string; schedule: ZoneSchedule }
+): Promise<{ zone: VenueZone; apiKey: string }> {
+  const zoneId = zoneIdFrom(input.zoneId, input.name);
+  if (!isZoneId(zoneId)) {
+    throw new Error('Zone id must be 1-24 lowercase letters, digits or dashes');
+  }
+  const zones = await getVenueZones(redis, venueId);
+  if (zones.some(z => z.zoneId === zoneId)) {
+    throw new Error(`Zone "${zoneId}" already exists`);
+  }
+  if (zones.length >= MAX_ZONES) {
+    throw new Error(`A venue can have at most ${MAX_ZONES} zones`);
+  }
+  const plan = planFor((await getVenue(redis, venueId))?.plan);
+  if (zones.length >= plan.maxZones) {
+    throw new Error(`The ${plan.name} plan allows ${plan.maxZones} zone(s); change plan to add more`);
+  }
+
+  const { raw: apiKey, hashed: apiKeyHash } = generateApiKey();
+  const zone: VenueZone = {
+    zoneId,
+    name: input.name,
+    apiKeyHash,
+    schedule: input.schedule,
+    createdAt: new Date().toISOString(),
+  };
+  await redis.hset(VENUE_KEYS.zones(venueId), { [zoneId]: JSON.stringify(zone) });
+  await notePeak(redis, venueId, 'peakZones', zones.length + 1, Date.now());
+
+  console.log(`[Venue] Added zone "${zoneId}" to ${venueId}`);
+  return { zone, apiKey };
+}
+
+export async function updateVenueZone(
+  redis: Redis,
+  venueId: string,
+  zoneId: string,
+  changes: { name?: string; schedule?: ZoneSchedule }
+): Promise<VenueZone | null> {
+  const zone = await getVenueZone(redis, venueId, zoneId);
+  if (!zone) return null;
+
+  const updated: VenueZone = {
+    ...zone,
+    ...(changes.name ? { name: changes.name } : {}),
+    ...(changes.schedule ? { schedule: changes.schedule } : {}),
+  };
+  await redis.hset(VENUE_KEYS.zones(venueId), { [zoneId]: JSON.stringify(updated) });
+
+  console.log(`[Venue] Updated zone "${zoneId}" of ${venueId}`);
+  return updated;
+}
+
+/**
+ * Remove a zone and its state, queue and history. Plays it buffered but
+ * has not submitted yet move to the main zone's batch rather than being
+ * lost. The main zone cannot be removed.
+ */
+export async function deleteVenueZone(
+  redis: Redis,
+  venueId: string,
+  zoneId: string
+): Promise<boolean> {
+  if (zoneId === DEFAULT_ZONE_ID) return false;
+  const removed = await redis.hdel(VENUE_KEYS.zones(venueId), zoneId);
+  if (!removed) return false;
+
+  const pending = await redis.lrange(VENUE_KEYS.playBatch(venueId, zoneId), 0, -1);
+  if (pending.length > 0) {
+    await redis.rpush(
+      VENUE_KEYS.playBatch(venueId),
+      ...pending.map((p: any) => typeof p === 'string' ? p : JSON.stringify(p))
+    );
+  }
+  await redis.del(
+    VENUE_KEYS.state(venueId, zoneId),
+    VENUE_KEYS.queue(venueId, zoneId),
+    VENUE_KEYS.history(venueId, zoneId),
+    VENUE_KEYS.playBatch(venueId, zoneId)
+  );
+
+  console.log(`[Venue] Removed zone "${zoneId}" from ${venueId}`);
+  return true;
+}
+
+/** New device key for a zone. The main zone's key is the venue key. */
+export async function regenerateZoneKey(
+  redis: Redis,
+  venueId: string,
+  zoneId: string
+): Promise<string | null> {
+  if (zoneId === DEFAULT_ZONE_ID) return null;
+  const zone = await getVenueZone(redis, venueId, zoneId);
+  if (!zone) return null;
+
+  const { raw: apiKey, hashed: apiKeyHash } = generateApiKey();
+  await redis.hset(VENUE_KEYS.zones(venueId), {
+    [zoneId]: JSON.stringify({ ...zone, apiKeyHash }),
+  });
+
+  console.log(`[Venue] Regenerated key for zone "${zoneId}" of ${venueId}`);
+  return apiKey;
+}
+
 // ============================================================================
 // PLAYBACK STATE
 // ============================================================================
 
 export async function getVenuePlaybackState(
   redis: Redis,
-  venueId: string
+  venueId: string,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<VenuePlaybackState> {
-  const data = await redis.get<string>(VENUE_KEYS.state(venueId));
+  const data = await redis.get<string>(VENUE_KEYS.state(venueId, zoneId));
   if (!data) {
     return {
       currentSong: null,
@@ -228,10 +683,11 @@ export async function getVenuePlaybackState(
 export async function setVenuePlaybackState(
   redis: Redis,
   venueId: string,
-  state: VenuePlaybackState
+  state: VenuePlaybackState,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<void> {
   state.lastUpdated = Date.now();
-  await redis.set(VENUE_KEYS.state(venueId), JSON.stringify(state));
+  await redis.set(VENUE_KEYS.state(venueId, zoneId), JSON.stringify(state));
 }
 
 // ============================================================================
@@ -241,30 +697,89 @@ export async function setVenuePlaybackState(
 export async function addToVenueQueue(
   redis: Redis,
   venueId: string,
-  song: VenueSong
+  song: VenueSong,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<number> {
-  const length = await redis.rpush(VENUE_KEYS.queue(venueId), JSON.stringify(song));
+  const length = await redis.rpush(VENUE_KEYS.queue(venueId, zoneId), JSON.stringify(song));
   return length;
 }
 
 export async function getVenueQueue(
   redis: Redis,
   venueId: string,
-  limit: number = 20
+  limit: number = 20,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<VenueSong[]> {
-  const raw = await redis.lrange(VENUE_KEYS.queue(venueId), 0, limit - 1);
+  const raw = await redis.lrange(VENUE_KEYS.queue(venueId, zoneId), 0, limit - 1);
   return raw.map((item: any) => typeof item === 'string' ? JSON.parse(item) : item);
 }
 
+/**
+ * Next song off the zone's queue. When the queue is empty, the top
+ * jukebox request for the zone is queued first, so patron requests play
+ * only once nothing staff queued is waiting.
+ */
 export async function popNextFromQueue(
   redis: Redis,
-  venueId: string
+  venueId: string,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<VenueSong | null> {
-  const raw = await redis.lpop(VENUE_KEYS.queue(venueId));
+  let raw = await redis.lpop(VENUE_KEYS.queue(venueId, zoneId));
+  if (!raw && (await queueTopRequest(redis, venueId, zoneId))) {
+    raw = await redis.lpop(VENUE_KEYS.queue(venueId, zoneId));
+  }
   if (!raw) return null;
   return typeof raw === 'string' ? JSON.parse(raw) : raw as unknown as VenueSong;
 }
 
+// ============================================================================
+// JUKEBOX
+// ============================================================================
+
+/**
+ * Move the best-voted jukebox request for a zone into its queue. Requests
+ * whose rights lapsed, or that the venue has banned or moved out of range
+ * since they were made, are dropped on the way, and a paid one leaves a
+ * refund due for the admin, as a paid radio queue entry does.
+ */
+export async function queueTopRequest(
+  redis: Redis,
+  venueId: string,
+  zoneId: string
+): Promise<JukeboxRequest | null> {
+  const settings = await getJukeboxSettings(redis, venueId);
+  if (!settings.enabled || settings.zoneId !== zoneId) return null;
+
+  const requests = (await listRequests(redis, venueId)).filter(r => r.zoneId === zoneId);
+  if (requests.length === 0) return null;
+  const tags = settings.energy ? await loadTrackTags(redis) : {};
+
+  for (const request of requests) {
+    // Whoever removes the request first queues it
+    if (!(await removeRequest(redis, venueId, request.tokenId))) continue;
+    const rights = await getRightsStatus(redis, request.tokenId);
+    if (rights?.status !== 'cleared' || !isRequestable(settings, request.tokenId, tags[request.tokenId])) {
+      console.log(`[Venue] Dropped jukebox request for #${request.tokenId} at ${venueId}`);
+      const refund = droppedRequestRefund(venueId, request, Date.now());
+      if (refund) await recordRefundDue(redis, refund);
+      continue;
+    }
+    await addToVenueQueue(redis, venueId, {
+      tokenId: request.tokenId,
+      name: request.name,
+      artist: request.artist,
+      artistAddress: request.artistAddress,
+      audioUrl: request.audioUrl,
+      imageUrl: request.imageUrl,
+      duration: request.duration || 600,
+      startedAt: 0,
+    }, zoneId);
+    console.log(`[Venue] Queued jukebox request #${request.tokenId} (${request.voters.length} votes) at ${venueId}/${zoneId}`);
+    return request;
+  }
+  return null;
+}
+
 // ============================================================================
 // PLAY HISTORY
 // ============================================================================
@@ -272,18 +787,30 @@ export async function popNextFromQueue(
 export async function addToVenueHistory(
   redis: Redis,
   venueId: string,
-  entry: VenueHistoryEntry
+  entry: VenueHistoryEntry,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<void> {
-  await redis.lpush(VENUE_KEYS.history(venueId), JSON.stringify(entry));
-  await redis.ltrim(VENUE_KEYS.history(venueId), 0, 99);
+  await redis.lpush(VENUE_KEYS.history(venueId, zoneId), JSON.stringify(entry));
+  await redis.ltrim(VENUE_KEYS.history(venueId, zoneId), 0, 99);
+  // The history above is a rolling view; performance reports need every play.
+  await logPerformance(redis, venueId, {
+    zoneId,
+    tokenId: entry.tokenId,
+    name: entry.name,
+    artist: entry.artist,
+    playedAt: entry.playedAt,
+    duration: entry.duration,
+  });
+  await meterPlay(redis, venueId, zoneId, entry.duration, entry.playedAt);
 }
 
 export async function getVenueHistory(
   redis: Redis,
   venueId: string,
-  limit: number = 20
+  limit: number = 20,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<VenueHistoryEntry[]> {
-  const raw = await redis.lrange(VENUE_KEYS.history(venueId), 0, limit - 1);
+  const raw = await redis.lrange(VENUE_KEYS.history(venueId, zoneId), 0, limit - 1);
   return raw.map((item: any) => typeof item === 'string' ? JSON.parse(item) : item);
 }
 
@@ -379,6 +906,29 @@ export async function pickRandomClearedSong(
   return candidates[Math.floor(Math.random() * candidates.length)];
 }
 
+/**
+ * Pick a random cleared song a zone may play right now: within its
+ * current daypart's genres and energy, relaxed as the scheduler does
+ * when the catalogue has nothing that fits.
+ */
+export async function pickRandomZoneSong(
+  redis: Redis,
+  zone: VenueZone,
+  avoidTokenId?: string
+): Promise<CatalogSong | null> {
+  const daypart = activeZoneDaypart(zone.schedule, Date.now());
+  if (!daypart) return pickRandomClearedSong(redis, avoidTokenId);
+
+  const [catalog, tags] = await Promise.all([fetchClearedCatalog(redis), loadTrackTags(redis)]);
+  const { tracks } = zonePlaylist(catalog, daypart, tags);
+  if (tracks.length === 0) return null;
+
+  let candidates = avoidTokenId ? tracks.filter(s => s.tokenId !== avoidTokenId) : tracks;
+  if (candidates.length === 0) candidates = tracks;
+
+  return candidates[Math.floor(Math.random() * candidates.length)];
+}
+
 // ============================================================================
 // ACTIVE VENUES
 // ============================================================================
@@ -425,29 +975,9 @@ export function generatePlaylistSeed(): { seed: string; seedHash: string } {
   return { seed, seedHash };
 }
 
-/**
- * Derive a deterministic play order from a seed.
- * Same algorithm as VenueRegistry.derivePlayOrder() on-chain.
- * @param seed The 32-byte hex seed
- * @param tokenIds Array of available token IDs
- * @param count How many songs to pick
- * @returns Ordered array of token IDs
- */
-export function derivePlayOrder(seed: string, tokenIds: string[], count: number): string[] {
-  const result: string[] = [];
-  const catalogSize = tokenIds.length;
-  if (catalogSize === 0) return result;
-
-  for (let i = 0; i < count; i++) {
-    // Match on-chain: uint256(keccak256(abi.encodePacked(seed, index))) % catalogSize
-    const packed = keccak256(
-      `0x${seed.replace('0x', '')}${i.toString(16).padStart(64, '0')}` as `0x${string}`
-    );
-    const index = Number(BigInt(packed) % BigInt(catalogSize));
-    result.push(tokenIds[index]);
-  }
-  return result;
-}
+// The play order lives with the zone seeds in lib/venue-zones.ts, where
+// the device receipt checks can reach it without Redis.
+export { derivePlayOrder } from '@/lib/venue-zones';
 
 /**
  * Store active session data in Redis (seed kept secret until reveal).
@@ -480,19 +1010,25 @@ export interface BufferedPlay {
   tokenId: string;
   duration: number;
   playedAt: number;
+  /** Absent on plays buffered before zones existed. */
+  zoneId?: string;
 }
 
 /**
  * Buffer a play for later batch submission to VenueRegistry on-chain.
+ * `playedAt` is when the song started, matching its history entry, so
+ * the submission can be traced back to the play in performance reports.
  */
 export async function bufferPlay(
   redis: Redis,
   venueId: string,
   tokenId: string,
-  duration: number
+  duration: number,
+  zoneId: string = DEFAULT_ZONE_ID,
+  playedAt: number = Date.now()
 ): Promise<number> {
-  const entry: BufferedPlay = { tokenId, duration, playedAt: Date.now() };
-  return redis.rpush(VENUE_KEYS.playBatch(venueId), JSON.stringify(entry));
+  const entry: BufferedPlay = { tokenId, duration, playedAt, zoneId };
+  return redis.rpush(VENUE_KEYS.playBatch(venueId, zoneId), JSON.stringify(entry));
 }
 
 /**
@@ -500,13 +1036,14 @@ export async function bufferPlay(
  */
 export async function flushPlayBatch(
   redis: Redis,
-  venueId: string
+  venueId: string,
+  zoneId: string = DEFAULT_ZONE_ID
 ): Promise<BufferedPlay[]> {
-  const raw = await redis.lrange(VENUE_KEYS.playBatch(venueId), 0, -1);
+  const raw = await redis.lrange(VENUE_KEYS.playBatch(venueId, zoneId), 0, -1);
   if (raw.length === 0) return [];
 
   // Clear the buffer
-  await redis.del(VENUE_KEYS.playBatch(venueId));
+  await redis.del(VENUE_KEYS.playBatch(venueId, zoneId));
 
   return raw.map((item: any) => typeof item === 'string' ? JSON.parse(item) : item);
 }
@@ -0,0 +1,204 @@
+/**
+ * Build, or rebuild, the audio fingerprint index from the catalogue.
+ *
+ * Run: `node --experimental-strip-types tools/build-fingerprint-index.ts`
+ * Needs `NEXT_PUBLIC_ENVIO_ENDPOINT`, `UPSTASH_REDIS_REST_URL` and `UPSTASH_REDIS_REST_TOKEN`.
+ * `REBUILD=1` re-fingerprints every master (after a FINGERPRINT_VERSION bump); `DRY_RUN=1` reports
+ * what would change and writes nothing.
+ *
+ * The upload route (app/api/upload) fingerprints each new full track and indexes it under its
+ * CID with no tokenId, because the master does not exist yet; the mint links it
+ * (lib/mint-fingerprint.ts). This script catches any link the mint missed, and makes the index
+ * cover masters minted before fingerprinting existed:
+ *
+ * - a master whose CID is already indexed gets its tokenId and uri filled in;
+ * - a master whose CID is not is downloaded and fingerprinted;
+ * - an indexed master that is no longer in the catalogue (burned) is dropped, so a stolen copy
+ *   that was burned stops blocking the real artist's upload;
+ * - an unminted upload older than {@link PENDING_DAYS} days is dropped as abandoned.
+ *
+ * Safe to re-run. Nothing on-chain is touched.
+ */
+
+import { Redis } from "@upstash/redis";
+
+import {
+  FINGERPRINT_KEYS,
+  FINGERPRINT_VERSION,
+  fingerprintAudio,
+  loadFingerprintIndex,
+  saveFingerprint,
+  type FingerprintRecord,
+} from "../lib/audio-fingerprint.ts";
+
+const ENVIO = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT;
+const NFT_CONTRACT = process.env.NEXT_PUBLIC_NFT_CONTRACT?.toLowerCase();
+const REBUILD = process.env.REBUILD === "1";
+const DRY_RUN = process.env.DRY_RUN === "1";
+const PENDING_DAYS = 14;
+const PAGE = 500;
+
+/** Same order as tools/repin-master-metadata.ts: these CIDs are only reliably served by ours. */
+const GATEWAYS = [
+  process.env.PINATA_GATEWAY,
+  "harlequin-used-hare-224.mypinata.cloud",
+  "dweb.link",
+  "ipfs.io",
+].filter(Boolean) as string[];
+
+interface CatalogueMaster {
+  tokenId: string;
+  artist: string;
+  tokenURI: string;
+  fullAudioUrl: string;
+}
+
+function cidOf(url: string): string | null {
+  return url.match(/(?:ipfs:\/\/|\/ipfs\/)([A-Za-z0-9]+)/)?.[1] ?? null;
+}
+
+async function fetchCatalogue(): Promise<CatalogueMaster[]> {
+  const masters: CatalogueMaster[] = [];
+  for (let offset = 0; ; offset += PAGE) {
+    const res = await fetch(ENVIO!, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        query: `query Catalogue($offset: Int!, $limit: Int!) {
+          MusicNFT(
+            where: {isBurned: {_eq: false}, isArt: {_eq: false}, fullAudioUrl: {_is_null: false}}
+            order_by: {tokenId: asc}
+            limit: $limit
+            offset: $offset
+          ) { tokenId artist contract tokenURI fullAudioUrl }
+        }`,
+        variables: { offset, limit: PAGE },
+      }),
+      signal: AbortSignal.timeout(30000),
+    });
+    const json = await res.json();
+    if (json.errors) throw new Error(JSON.stringify(json.errors));
+    const rows: (CatalogueMaster & { contract: string })[] =
+      json.data?.MusicNFT ?? [];
+    masters.push(
+      ...rows.filter(
+        (r) => !NFT_CONTRACT || r.contract.toLowerCase() === NFT_CONTRACT,
+      ),
+    );
+    if (rows.length < PAGE) return masters;
+  }
+}
+
+/** Null rather than throwing: one unreachable file must not abandon the run. */
+async function fetchAudio(cid: string): Promise<Uint8Array | null> {
+  for (const g of GATEWAYS) {
+    try {
+      const res = await fetch(`https://${g}/ipfs/${cid}`, {
+        signal: AbortSignal.timeout(60000),
+        redirect: "follow",
+      });
+      if (res.ok) return new Uint8Array(await res.arrayBuffer());
+      console.log(`    ${g}: HTTP ${res.status}`);
+    } catch (e) {
+      console.log(`    ${g}: ${(e as Error).message}`);
+    }
+  }
+  return null;
+}
+
+if (!ENVIO || !process.env.UPSTASH_REDIS_REST_URL) {
+  console.error(
+    "NEXT_PUBLIC_ENVIO_ENDPOINT and UPSTASH_REDIS_REST_URL must be set. Nothing was read or written.",
+  );
+  process.exit(1);
+}
+
+const redis = new Redis({
+  url: process.env.UPSTASH_REDIS_REST_URL,
+  token: process.env.UPSTASH_REDIS_REST_TOKEN || "",
+});
+
+const existing = new Map(
+  (await loadFingerprintIndex(redis)).map((r) => [r.cid, r]),
+);
+const catalogue = await fetchCatalogue();
+console.log(
+  `${catalogue.length} masters in the catalogue, ${existing.size} records in the index${DRY_RUN ? " (dry run)" : ""}\n`,
+);
+
+const tally = { linked: 0, fingerprinted: 0, unreadable: 0, unchanged: 0 };
+const live = new Set<string>();
+
+for (const m of catalogue) {
+  const cid = cidOf(m.fullAudioUrl);
+  if (!cid) {
+    console.log(`#${m.tokenId}: no CID in ${m.fullAudioUrl}`);
+    tally.unreadable++;
+    continue;
+  }
+  live.add(cid);
+  const known = existing.get(cid);
+
+  if (known && known.version === FINGERPRINT_VERSION && !REBUILD) {
+    if (known.tokenId === m.tokenId) {
+      tally.unchanged++;
+      continue;
+    }
+    console.log(`#${m.tokenId}: linked ${cid}`);
+    if (!DRY_RUN) {
+      await saveFingerprint(redis, {
+        ...known,
+        tokenId: m.tokenId,
+        artist: m.artist.toLowerCase(),
+        uri: m.tokenURI,
+      });
+    }
+    tally.linked++;
+    continue;
+  }
+
+  console.log(`#${m.tokenId}: fingerprinting ${cid}`);
+  const audio = await fetchAudio(cid);
+  const fingerprint = audio && fingerprintAudio(audio);
+  if (!fingerprint) {
+    console.log(
+      audio ? "    not MP3/WAV, or too short" : "    could not fetch",
+    );
+    tally.unreadable++;
+    continue;
+  }
+  const record: FingerprintRecord = {
+    ...fingerprint,
+    cid,
+    tokenId: m.tokenId,
+    artist: m.artist.toLowerCase(),
+    uri: m.tokenURI,
+    indexedAt: Date.now(),
+  };
+  if (!DRY_RUN) await saveFingerprint(redis, record);
+  tally.fingerprinted++;
+}
+
+const cutoff = Date.now() - PENDING_DAYS * 24 * 60 * 60 * 1000;
+const stale = [...existing.values()].filter(
+  (r) => !live.has(r.cid) && (r.tokenId !== null || r.indexedAt < cutoff),
+);
+for (const r of stale) {
+  console.log(
+    r.tokenId !== null
+      ? `#${r.tokenId}: no longer in the catalogue, dropped ${r.cid}`
+      : `unminted upload by ${r.artist} from ${new Date(r.indexedAt).toISOString().slice(0, 10)}, dropped ${r.cid}`,
+  );
+}
+if (!DRY_RUN && stale.length > 0) {
+  await redis.hdel(FINGERPRINT_KEYS.index, ...stale.map((r) => r.cid));
+}
+
+console.log(
+  `\n${tally.fingerprinted} fingerprinted, ${tally.linked} linked, ${tally.unchanged} unchanged, ${tally.unreadable} unreadable, ${stale.length} dropped`,
+);
+if (tally.unreadable > 0) {
+  console.log(
+    "Unreadable masters are not in the index: uploads matching them will not be caught.",
+  );
+}
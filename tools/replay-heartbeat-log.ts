@@ -0,0 +1,42 @@
+/**
+ * Re-score a recorded Live Radio heartbeat log offline.
+ *
+ * Run: `node --experimental-strip-types tools/replay-heartbeat-log.ts <log.json|log.jsonl> [now-ms]`
+ *
+ * The log is what the admin "detail" action on /api/live-radio/risk returns as `log`, or any
+ * concatenation of those — a JSON array or one HeartbeatEvent per line. Scoring is a pure function
+ * of the log, so the output is what production would have filed at `now` (default: the last
+ * event). Use it to check a threshold change against real listeners before shipping it: replay
+ * the same logs on both sides of the change and diff the tiers.
+ *
+ * Sharing of IPs and networks is counted from the log itself, so a log of one address shows none.
+ */
+
+import { readFileSync } from "node:fs";
+import { parseHeartbeatLog, replayHeartbeatLog } from "../lib/listener-risk.ts";
+
+const path = process.argv[2];
+if (!path) {
+  console.error("usage: replay-heartbeat-log.ts <log.json|log.jsonl> [now-ms]");
+  process.exit(1);
+}
+
+const raw = readFileSync(path, "utf8");
+// The admin response can be saved whole; accept { log } as well as a bare log.
+let text = raw;
+try {
+  const whole = JSON.parse(raw);
+  if (Array.isArray(whole?.log)) text = JSON.stringify(whole.log);
+} catch {
+  // JSONL: parseHeartbeatLog reads it line by line.
+}
+
+const events = parseHeartbeatLog(text);
+const now = process.argv[3] ? Number(process.argv[3]) : undefined;
+const results = replayHeartbeatLog(events, now);
+
+console.log(`${events.length} heartbeats, ${Object.keys(results).length} addresses\n`);
+for (const [address, r] of Object.entries(results).sort((a, b) => b[1].score - a[1].score)) {
+  console.log(`${r.tier.padEnd(10)} ${String(r.score).padStart(3)}  ${address}`);
+  for (const reason of r.reasons) console.log(`               - ${reason}`);
+}
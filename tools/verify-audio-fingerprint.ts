@@ -0,0 +1,455 @@
+/**
+ * Pins the upload fingerprint in `lib/audio-fingerprint.ts`: that WAV and MP3 envelopes are read
+ * correctly, that a re-encoded, re-levelled or trimmed copy still matches its original, and that
+ * an unrelated track does not.
+ *
+ * The audio is synthetic — noise shaped by a random loudness curve, one curve per "song" — and
+ * the MP3s are frame headers and side info with global_gain following that curve, which is what
+ * an encoder produces and all the parser reads.
+ *
+ * Run: `node --experimental-strip-types tools/verify-audio-fingerprint.ts`
+ */
+
+import type { Redis } from "@upstash/redis";
+import {
+  BLOCK_BER,
+  FLAG_BER,
+  MIN_FRAMES,
+  audioEnvelope,
+  cutClip,
+  fingerprintAudio,
+  fingerprintBits,
+  findMatches,
+  getFingerprint,
+  linkFingerprint,
+  loadFingerprintIndex,
+  metadataAudioCid,
+  screenUpload,
+  packBits,
+  saveFingerprint,
+  sniffFormat,
+  unpackBits,
+  type AudioFingerprint,
+  type FingerprintRecord,
+} from "../lib/audio-fingerprint.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function rng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A song's loudness over time: notes of random length and level, in dB below full scale. */
+function loudnessCurve(seed: number, seconds: number): (t: number) => number {
+  const r = rng(seed);
+  const notes: [number, number][] = [];
+  for (let t = 0; t < seconds; t += 0.12 + r() * 0.4)
+    notes.push([t, -6 - r() * 30]);
+  return (t) => {
+    let lo = 0;
+    let hi = notes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (notes[mid][0] <= t) lo = mid;
+      else hi = mid - 1;
+    }
+    return notes[lo][1];
+  };
+}
+
+function wav(
+  curve: (t: number) => number,
+  o: {
+    seconds: number;
+    rate: number;
+    skip?: number;
+    gainDb?: number;
+    noise: number;
+  },
+): Uint8Array {
+  const samples = Math.floor(o.seconds * o.rate);
+  const b = new Uint8Array(44 + samples * 2);
+  const v = new DataView(b.buffer);
+  const tag = (p: number, s: string) =>
+    [...s].forEach((c, i) => (b[p + i] = c.charCodeAt(0)));
+  tag(0, "RIFF");
+  v.setUint32(4, 36 + samples * 2, true);
+  tag(8, "WAVE");
+  tag(12, "fmt ");
+  v.setUint32(16, 16, true);
+  v.setUint16(20, 1, true);
+  v.setUint16(22, 1, true);
+  v.setUint32(24, o.rate, true);
+  v.setUint32(28, o.rate * 2, true);
+  v.setUint16(32, 2, true);
+  v.setUint16(34, 16, true);
+  tag(36, "data");
+  v.setUint32(40, samples * 2, true);
+  const r = rng(o.noise);
+  for (let i = 0; i < samples; i++) {
+    const t = i / o.rate + (o.skip ?? 0);
+    const amp = 10 ** ((curve(t) + (o.gainDb ?? 0)) / 20);
+    const s = Math.max(-1, Math.min(1, amp * (r() * 2 - 1) * Math.sqrt(3)));
+    v.setInt16(44 + i * 2, Math.round(s * 32767), true);
+  }
+  return b;
+}
+
+/** MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo, preceded by an ID3 tag and a Xing frame. */
+function mp3(
+  curve: (t: number) => number,
+  o: { seconds: number; jitter: number },
+): Uint8Array {
+  const FRAME = 417;
+  const frames = Math.floor((o.seconds * 44100) / 1152);
+  const id3 = [
+    0x49,
+    0x44,
+    0x33,
+    4,
+    0,
+    0,
+    0,
+    0,
+    0,
+    20,
+    ...new Array(20).fill(0),
+  ];
+  const b = new Uint8Array(id3.length + (frames + 1) * FRAME);
+  b.set(id3, 0);
+  const r = rng(o.jitter);
+  for (let f = 0; f <= frames; f++) {
+    const p = id3.length + f * FRAME;
+    b.set([0xff, 0xfb, 0x90, 0x40], p);
+    if (f === 0) {
+      b.set([0x58, 0x69, 0x6e, 0x67], p + 4 + 32); // "Xing"
+      continue;
+    }
+    for (let g = 0; g < 2; g++) {
+      const t = ((f - 1) * 1152 + g * 576 + 288) / 44100;
+      for (let ch = 0; ch < 2; ch++) {
+        const gain = Math.round(210 + curve(t) / 1.505 + (r() - 0.5) * 2);
+        const bit = (p + 4) * 8 + 20 + (g * 2 + ch) * 59 + 21;
+        for (let i = 0; i < 8; i++) {
+          if ((gain >> (7 - i)) & 1)
+            b[(bit + i) >> 3] |= 0x80 >> ((bit + i) & 7);
+        }
+      }
+    }
+    // Leave a stray sync word in the audio data, as real files have.
+    b.set([0xff, 0xfb], p + 200);
+  }
+  return b;
+}
+
+const SONG_A = loudnessCurve(1, 200);
+const SONG_B = loudnessCurve(2, 200);
+const T0 = Date.UTC(2026, 9, 1);
+
+const print = (audio: Uint8Array) => fingerprintAudio(audio)!;
+const bitsOf = (f: AudioFingerprint) => unpackBits(f.bits, f.length);
+
+function record(
+  audio: Uint8Array,
+  cid: string,
+  artist: string,
+  tokenId: string | null,
+): FingerprintRecord {
+  return { ...print(audio), cid, artist, tokenId, indexedAt: T0 };
+}
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+const original = wav(SONG_A, { seconds: 120, rate: 22050, noise: 10 });
+const encoded = mp3(SONG_A, { seconds: 120, jitter: 11 });
+
+check(
+  "sniff: formats",
+  [
+    sniffFormat(original),
+    sniffFormat(encoded),
+    sniffFormat(new TextEncoder().encode("ftypM4A ")),
+  ],
+  ["wav", "mp3", null],
+);
+{
+  const e = audioEnvelope(original)!;
+  check(
+    "wav: duration and frame count",
+    [Math.round(e.durationSec), e.frames.length],
+    [120, 1199],
+  );
+  check("wav: loudness is in dBFS", Math.round(e.frames[0]) <= -6, true);
+}
+{
+  const e = audioEnvelope(encoded)!;
+  check(
+    "mp3: ID3 and Xing frame skipped, every frame read",
+    [e.format, e.sampleRate, Math.round(e.durationSec)],
+    ["mp3", 44100, 120],
+  );
+}
+check(
+  "unsupported format is not fingerprinted",
+  fingerprintAudio(new TextEncoder().encode("OggS".padEnd(4096, "\0"))),
+  null,
+);
+check(
+  "too short to fingerprint",
+  fingerprintAudio(
+    wav(SONG_A, { seconds: (MIN_FRAMES - 10) / 10, rate: 8000, noise: 1 }),
+  ),
+  null,
+);
+
+{
+  const bits = fingerprintBits([1, 2, 2, 1, 3]);
+  check("bits: louder than the surrounding second", [...bits], [0, 1, 1, 0, 1]);
+  const long = Uint8Array.from({ length: 37 }, (_, i) =>
+    (i * 7) % 3 === 0 ? 1 : 0,
+  );
+  check(
+    "bits: pack round trip",
+    [...unpackBits(packBits(long), 37)],
+    [...long],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+const ARTIST = "0xaaaa00000000000000000000000000000000000a";
+const OTHER = "0xbbbb00000000000000000000000000000000000b";
+
+const index: FingerprintRecord[] = [
+  record(original, "QmA", ARTIST, "7"),
+  record(
+    wav(SONG_B, { seconds: 150, rate: 22050, noise: 20 }),
+    "QmB",
+    OTHER,
+    "8",
+  ),
+];
+
+{
+  const matches = findMatches(bitsOf(print(encoded)), index);
+  check(
+    "mp3 of a WAV master: matched to it",
+    matches.map((m) => m.tokenId),
+    ["7"],
+  );
+  const s = screenUpload(print(encoded), index, OTHER);
+  check(
+    "mp3 of a WAV master: blocked for another artist",
+    [s.verdict, s.reason],
+    [
+      "block",
+      "This recording matches master #7 by another artist. If it is yours, file a rights dispute against that master.",
+    ],
+  );
+  check(
+    "mp3 of a WAV master: blocked for its own artist as a duplicate",
+    screenUpload(
+      print(encoded),
+      index,
+      ARTIST.toUpperCase().replace("0X", "0x"),
+    ).reason,
+    "This recording is already minted as your master #7.",
+  );
+}
+{
+  const copy = wav(SONG_A, {
+    seconds: 90,
+    rate: 44100,
+    skip: 12.37,
+    gainDb: -9,
+    noise: 99,
+  });
+  const [m] = findMatches(bitsOf(print(copy)), index);
+  check("trimmed, quieter, resampled copy: found", m?.tokenId, "7");
+  check("trimmed copy: offset located", Math.round(m?.offsetSec ?? 0), 12);
+  check(
+    "trimmed copy: under the block threshold",
+    (m?.ber ?? 1) <= BLOCK_BER,
+    true,
+  );
+}
+{
+  const other = print(
+    wav(loudnessCurve(3, 200), { seconds: 120, rate: 22050, noise: 30 }),
+  );
+  check("unrelated track: no match", findMatches(bitsOf(other), index), []);
+  check(
+    "unrelated track: clear",
+    screenUpload(other, index, OTHER).verdict,
+    "clear",
+  );
+  const [nearest] = findMatches(bitsOf(other), index, { maxBer: 1 });
+  check(
+    "unrelated track: nowhere near the flag threshold",
+    (nearest?.ber ?? 0.5) > FLAG_BER + 0.1,
+    true,
+  );
+}
+{
+  // A quarter of the bits flipped: related, but not confidently the same recording.
+  const r = rng(5);
+  const bits = bitsOf(index[0]).map((b) => (r() < 0.25 ? b ^ 1 : b));
+  const s = screenUpload({ ...index[0], bits: packBits(bits) }, index, OTHER);
+  check(
+    "between the thresholds: flagged",
+    [s.verdict, s.reason],
+    ["flag", "Sounds close to master #7"],
+  );
+}
+{
+  const pending = [{ ...index[0], tokenId: null }];
+  check(
+    "an unminted upload can only flag",
+    screenUpload(print(encoded), pending, OTHER).verdict,
+    "flag",
+  );
+  check(
+    "the uploader's own unminted upload is ignored",
+    screenUpload(print(encoded), pending, ARTIST).verdict,
+    "clear",
+  );
+}
+{
+  // A fake hash, enough for the index
+  const hashes: Record<string, Record<string, unknown>> = {};
+  const redis = {
+    hget: async (key: string, field: string) => hashes[key]?.[field] ?? null,
+    hset: async (key: string, values: Record<string, unknown>) => {
+      Object.assign((hashes[key] ??= {}), values);
+      return 1;
+    },
+    hgetall: async (key: string) => hashes[key] ?? null,
+  } as unknown as Pick<Redis, "hget" | "hset" | "hgetall">;
+  await saveFingerprint(redis, { ...index[0], tokenId: null });
+  check(
+    "before the mint links it: another artist's copy is only flagged",
+    screenUpload(print(encoded), await loadFingerprintIndex(redis), OTHER)
+      .verdict,
+    "flag",
+  );
+  const linked = await linkFingerprint(redis, "QmA", {
+    tokenId: "7",
+    artist: ARTIST.toUpperCase().replace("0X", "0x"),
+    uri: "ipfs://QmMeta",
+  });
+  const stored = await getFingerprint(redis, "QmA");
+  check(
+    "link: the record gets the master",
+    [linked, stored?.tokenId, stored?.artist, stored?.uri],
+    [true, "7", ARTIST, "ipfs://QmMeta"],
+  );
+  check(
+    "after: the copy is blocked",
+    screenUpload(print(encoded), await loadFingerprintIndex(redis), OTHER)
+      .verdict,
+    "block",
+  );
+  check(
+    "link: nothing indexed under that CID",
+    await linkFingerprint(redis, "QmNone", {
+      tokenId: "9",
+      artist: OTHER,
+      uri: "ipfs://QmOther",
+    }),
+    false,
+  );
+}
+check(
+  "records from an older algorithm are ignored",
+  findMatches(bitsOf(index[0]), [{ ...index[0], version: 0 }]),
+  [],
+);
+
+// ---------------------------------------------------------------------------
+// Clips
+// ---------------------------------------------------------------------------
+
+const has = (b: Uint8Array, s: string) =>
+  Buffer.from(b).includes(Buffer.from(s, "latin1"));
+{
+  // A WAV as tag editors leave it: a LIST/INFO chunk naming the song ahead of the samples.
+  const info = new TextEncoder().encode(
+    "LIST\x14\0\0\0INFOINAM\x08\0\0\0Song A\0\0",
+  );
+  const tagged = new Uint8Array(original.length + info.length);
+  tagged.set(original.subarray(0, 36), 0);
+  tagged.set(info, 36);
+  tagged.set(original.subarray(36), 36 + info.length);
+  check("tagged wav: carries the title", has(tagged, "Song A"), true);
+
+  const clip = cutClip(tagged, 50, 20)!;
+  check(
+    "wav clip: exact window, tags gone",
+    [clip.format, clip.startSec, clip.durationSec, has(clip.bytes, "LIST")],
+    ["wav", 50, 20, false],
+  );
+  const [m] = findMatches(bitsOf(print(clip.bytes)), index);
+  check(
+    "wav clip: still the same recording, at the offset it was cut from",
+    [m?.tokenId, Math.round(m?.offsetSec ?? 0)],
+    ["7", 50],
+  );
+}
+{
+  const clip = cutClip(encoded, 50, 20)!;
+  check(
+    "mp3 clip: snapped to frames, ID3 and Xing gone",
+    [
+      clip.format,
+      Math.abs(clip.startSec - 50) < 0.03,
+      Math.abs(clip.durationSec - 20) < 0.03,
+      has(clip.bytes, "ID3"),
+      has(clip.bytes, "Xing"),
+      audioEnvelope(clip.bytes)?.sampleRate,
+    ],
+    ["mp3", true, true, false, false, 44100],
+  );
+  check(
+    "clip past the end: nothing",
+    [cutClip(encoded, 500, 20), cutClip(original, 500, 20)],
+    [null, null],
+  );
+}
+
+check(
+  "metadata: the full track, else the preview, else nothing",
+  [
+    metadataAudioCid({
+      animation_url: "ipfs://QmPreview",
+      external_url: "ipfs://QmFull",
+    }),
+    metadataAudioCid({ animation_url: "https://gw.example/ipfs/QmPreview" }),
+    metadataAudioCid({ image: "ipfs://QmCover" } as any),
+  ],
+  ["QmFull", "QmPreview", null],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
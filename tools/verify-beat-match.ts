@@ -0,0 +1,451 @@
+/**
+ * Walks Beat Match authoring through `lib/beat-match.ts` — which tracks may be the song, where
+ * the clip is cut, what a clip URL must not give away, and the keeper's steps from scheduled to
+ * published. Clip cutting itself is pinned in verify-audio-fingerprint.ts. No chain, no Redis
+ * beyond a small fake.
+ *
+ * Run: `node --experimental-strip-types tools/verify-beat-match.ts`
+ */
+
+import {
+  BEAT_MATCH_KEYS,
+  BeatMatchError,
+  CLIP_SECONDS,
+  DAY_MS,
+  buildChallenge,
+  cancelChallenge,
+  challengeResult,
+  challengeWindow,
+  cidOf,
+  clipLeakBlocker,
+  clipStart,
+  dueAt,
+  eligibleTracks,
+  nextStep,
+  parseDay,
+  pickTrack,
+  publicChallenge,
+  saveChallenge,
+  scheduleBlocker,
+  trackBlocker,
+  type BeatMatchEligibility,
+  type BeatMatchTrack,
+} from "../lib/beat-match.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function throws(name: string, fn: () => unknown, message: RegExp) {
+  checks++;
+  try {
+    fn();
+    failures.push(`${name}\n     expected a throw matching ${message}`);
+  } catch (err: any) {
+    if (!(err instanceof BeatMatchError) || !message.test(err.message)) {
+      failures.push(`${name}\n     threw ${err?.message}`);
+    }
+  }
+}
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const DAY = "2026-10-19";
+const ARTIST = "0xa11ce";
+const AUDIO = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+const PREVIEW = "QmPreviewCid111111111111111111111111111111111";
+const CLIP = "bafkreiclipclipclipclipclipclipclipclipclipclipclipclipcl";
+const GATEWAY = "https://gateway.pinata.cloud/ipfs/";
+
+const track: BeatMatchTrack = {
+  tokenId: "42",
+  artist: ARTIST,
+  artistFid: 9,
+  artistUsername: "moonriver",
+  songTitle: "Lanterns Over Café",
+  fullAudioUrl: `ipfs://${AUDIO}`,
+  previewAudioUrl: `${GATEWAY}${PREVIEW}`,
+};
+const eligibility = (
+  over: Partial<BeatMatchEligibility> = {},
+): BeatMatchEligibility => ({
+  holds: {},
+  cleared: new Set(["42", "43"]),
+  usage: { tracks: {}, artists: {} },
+  ...over,
+});
+
+// ---- days ----
+check("day: valid", parseDay("2026-10-19"), "2026-10-19");
+throws("day: not a date", () => parseDay("2026-02-30"), /YYYY-MM-DD/);
+check("day: one UTC day in unix seconds", challengeWindow(DAY), {
+  startTime: Date.UTC(2026, 9, 19) / 1000,
+  endTime: Date.UTC(2026, 9, 20) / 1000,
+});
+check(
+  "cid: from ipfs:// and gateway URLs",
+  [
+    cidOf(track.fullAudioUrl),
+    cidOf(track.previewAudioUrl),
+    cidOf("https://x.io/a.mp3"),
+  ],
+  [AUDIO, PREVIEW, null],
+);
+
+// ---- eligibility ----
+check(
+  "eligible: cleared, unused",
+  trackBlocker(track, DAY, eligibility()),
+  null,
+);
+check(
+  "eligible: the reasons a track is out",
+  [
+    trackBlocker({ ...track, isArt: true }, DAY, eligibility()),
+    trackBlocker(
+      { ...track, fullAudioUrl: "https://cdn.example/a.mp3" },
+      DAY,
+      eligibility(),
+    ),
+    trackBlocker(track, DAY, eligibility({ holds: { "42": "disputed" } })),
+    trackBlocker(track, DAY, eligibility({ cleared: new Set() })),
+    trackBlocker({ ...track, artistUsername: undefined }, DAY, eligibility()),
+  ],
+  [
+    "Not a playable track",
+    "No full-length audio on IPFS",
+    "Rights disputed",
+    "Rights not cleared",
+    "Artist has no Farcaster username",
+  ],
+);
+check(
+  "cooldown: a track rests 90 days, either side of the day",
+  [
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({ usage: { tracks: { "42": "2026-08-01" }, artists: {} } }),
+    ),
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({ usage: { tracks: { "42": "2026-11-10" }, artists: {} } }),
+    ),
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({ usage: { tracks: { "42": "2026-07-01" }, artists: {} } }),
+    ),
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({ usage: { tracks: { "42": DAY }, artists: {} } }),
+    ),
+  ],
+  ["Song of 2026-08-01", "Song of 2026-11-10", null, null],
+);
+check(
+  "cooldown: an artist rests 14 days",
+  [
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({
+        usage: { tracks: {}, artists: { [ARTIST]: "2026-10-10" } },
+      }),
+    ),
+    trackBlocker(
+      track,
+      DAY,
+      eligibility({
+        usage: { tracks: {}, artists: { [ARTIST]: "2026-10-01" } },
+      }),
+    ),
+  ],
+  ["Artist featured on 2026-10-10", null],
+);
+{
+  const other = { ...track, tokenId: "43", artist: "0xb0b" };
+  const { eligible, excluded } = eligibleTracks(
+    [track, other, { ...track, tokenId: "44" }],
+    DAY,
+    eligibility(),
+  );
+  check(
+    "eligible: split with reasons",
+    [eligible.map((t) => t.tokenId), excluded],
+    [["42", "43"], [{ tokenId: "44", reason: "Rights not cleared" }]],
+  );
+  check(
+    "pick: random over the eligible, none when empty",
+    [
+      pickTrack(eligible, () => 0)?.tokenId,
+      pickTrack(eligible, () => 0.99)?.tokenId,
+      pickTrack([], () => 0),
+    ],
+    ["42", "43", null],
+  );
+}
+
+// ---- clip window ----
+check(
+  "clip: starts in the middle of the track",
+  [clipStart(200, () => 0), clipStart(200, () => 1)],
+  [60, 140 - CLIP_SECONDS],
+);
+throws(
+  "clip: a short track has no middle",
+  () => clipStart(45, () => 0.5),
+  /under 60 seconds/,
+);
+
+// ---- fairness ----
+const cids = new Set([AUDIO, PREVIEW]);
+check(
+  "leak: a neutral clip URL",
+  clipLeakBlocker(`${GATEWAY}${CLIP}`, CLIP, track, cids),
+  null,
+);
+check(
+  "leak: the clip is a catalogue file",
+  clipLeakBlocker(`${GATEWAY}${PREVIEW}`, PREVIEW, track, cids),
+  "Clip is a catalogue file, not a cut",
+);
+check(
+  "leak: what a URL must not carry",
+  [
+    clipLeakBlocker(`${GATEWAY}${CLIP}?src=${AUDIO}`, CLIP, track, cids),
+    clipLeakBlocker(
+      `${GATEWAY}${CLIP}?filename=track-42.mp3`,
+      CLIP,
+      track,
+      cids,
+    ),
+    clipLeakBlocker(`${GATEWAY}${CLIP}?by=${ARTIST}`, CLIP, track, cids),
+    clipLeakBlocker(`${GATEWAY}${CLIP}/MoonRiver.mp3`, CLIP, track, cids),
+    clipLeakBlocker(`${GATEWAY}${CLIP}/cafe-demo.mp3`, CLIP, track, cids),
+    clipLeakBlocker(
+      `${GATEWAY}${CLIP}/lanternsovercafe.mp3`,
+      CLIP,
+      track,
+      cids,
+    ),
+    clipLeakBlocker(`${GATEWAY}QmSomethingElse`, CLIP, track, cids),
+  ],
+  [
+    "Clip URL carries a catalogue CID",
+    "Clip URL carries the token id",
+    "Clip URL carries the artist address",
+    "Clip URL carries the artist's username",
+    "Clip URL carries a word of the title",
+    "Clip URL carries the title",
+    "Clip URL does not point at the clip",
+  ],
+);
+check(
+  "leak: a title word inside the clip's own CID does not count",
+  clipLeakBlocker(
+    `${GATEWAY}${CLIP}`,
+    CLIP,
+    { ...track, songTitle: "Clip" },
+    cids,
+  ),
+  null,
+);
+
+// ---- lifecycle ----
+const clip = {
+  cid: CLIP,
+  format: "mp3" as const,
+  startSec: 80,
+  durationSec: 15.02,
+};
+check(
+  "schedule: an empty future day",
+  scheduleBlocker("2026-10-25", null, NOW),
+  null,
+);
+check(
+  "schedule: the reasons a day is closed",
+  [
+    scheduleBlocker("2026-10-18", null, NOW),
+    scheduleBlocker("2026-12-25", null, NOW),
+    scheduleBlocker(DAY, buildChallenge(DAY, track, clip, "0xAD", NOW), NOW),
+  ],
+  [
+    "That day has passed",
+    "Schedule at most 30 days ahead",
+    "2026-10-19 already has a challenge",
+  ],
+);
+{
+  const c = buildChallenge(DAY, track, clip, "0xAD", NOW);
+  const { startTime, endTime } = challengeWindow(DAY);
+  check(
+    "build: scheduled with the answer and the day's window",
+    [c.status, c.artistUsername, c.scheduledBy, c.startTime, c.endTime],
+    ["scheduled", "moonriver", "0xad", startTime, endTime],
+  );
+  check(
+    "public: no answer before it is decided",
+    Object.keys(publicChallenge(c, GATEWAY + CLIP)).includes("answer"),
+    false,
+  );
+  check(
+    "keeper: look for it on-chain once the day starts",
+    [nextStep(c, startTime * 1000 - 1), nextStep(c, NOW), dueAt(c)],
+    [null, "resolve", startTime * 1000],
+  );
+  check(
+    "keeper: and still at the end of an uncreated day",
+    nextStep(c, endTime * 1000),
+    "resolve",
+  );
+
+  c.status = "created";
+  c.challengeId = "7";
+  check(
+    "keeper: record the result after endTime",
+    [nextStep(c, NOW), nextStep(c, endTime * 1000), dueAt(c)],
+    [null, "record", endTime * 1000],
+  );
+  throws(
+    "cancel: not once on-chain",
+    () => cancelChallenge(c, "0xad", "oops", NOW),
+    /on-chain/,
+  );
+
+  c.status = "finalized";
+  c.result = challengeResult(
+    {
+      winner: "0xW1NNER",
+      rewardAmount: "5000000000000000000",
+      totalGuesses: 3,
+    },
+    [{ correct: true }, { correct: false }, { correct: true }],
+  );
+  check("keeper: then publish", nextStep(c, endTime * 1000), "publish");
+  check(
+    "public: the answer once finalized",
+    (publicChallenge(c, GATEWAY + CLIP) as any).answer,
+    {
+      tokenId: "42",
+      songTitle: "Lanterns Over Café",
+      artistUsername: "moonriver",
+    },
+  );
+  check("result: winner and tallies", c.result, {
+    winner: "0xw1nner",
+    rewardAmount: "5000000000000000000",
+    totalGuesses: 3,
+    correctGuesses: 2,
+  });
+  check(
+    "result: the zero address is no winner",
+    challengeResult(
+      { winner: "0x0000000000000000000000000000000000000000" },
+      [],
+    ).winner,
+    null,
+  );
+  c.status = "published";
+  check(
+    "keeper: nothing left",
+    [nextStep(c, endTime * 1000), dueAt(c)],
+    [null, null],
+  );
+}
+{
+  const c = buildChallenge(DAY, track, clip, "0xad", NOW);
+  throws(
+    "cancel: a reason is required",
+    () => cancelChallenge(c, "0xad", " ", NOW),
+    /reason/,
+  );
+  cancelChallenge(c, "0xAD", "Wrong mix", NOW);
+  check(
+    "cancel: recorded",
+    [c.status, c.cancelled],
+    ["cancelled", { by: "0xad", reason: "Wrong mix", at: NOW }],
+  );
+  check(
+    "schedule: a cancelled day can be filled again",
+    scheduleBlocker(DAY, c, NOW),
+    null,
+  );
+}
+
+// ---- redis ----
+{
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const fake = {
+    set: async (k: string, v: string) => void strings.set(k, v),
+    hset: async (k: string, v: Record<string, string>) =>
+      void hashes.set(k, { ...hashes.get(k), ...v }),
+    hget: async (k: string, f: string) => hashes.get(k)?.[f] ?? null,
+    hdel: async (k: string, f: string) => {
+      const h = { ...hashes.get(k) };
+      delete h[f];
+      hashes.set(k, h);
+    },
+    zadd: async (k: string, m: { score: number; member: string }) =>
+      void zsets.set(k, (zsets.get(k) || new Map()).set(m.member, m.score)),
+    zrem: async (k: string, m: string) => void zsets.get(k)?.delete(m),
+  };
+  const redis = fake as any;
+
+  const later = buildChallenge("2026-10-30", track, clip, "0xad", NOW);
+  const c = buildChallenge(DAY, track, clip, "0xad", NOW);
+  await saveChallenge(redis, later);
+  await saveChallenge(redis, c);
+  check(
+    "save: scheduled and queued for the keeper",
+    [
+      [...zsets.get(BEAT_MATCH_KEYS.schedule)!.keys()],
+      zsets.get(BEAT_MATCH_KEYS.open)!.get(DAY),
+    ],
+    [["2026-10-30", DAY], c.startTime * 1000],
+  );
+  check(
+    "save: cooldowns keep the latest day",
+    [
+      hashes.get(BEAT_MATCH_KEYS.trackUses)!["42"],
+      hashes.get(BEAT_MATCH_KEYS.artistUses)![ARTIST],
+    ],
+    ["2026-10-30", "2026-10-30"],
+  );
+
+  cancelChallenge(later, "0xad", "Moved", NOW);
+  await saveChallenge(redis, later);
+  check(
+    "save: a cancelled day leaves the queue and gives its cooldowns back",
+    [
+      zsets.get(BEAT_MATCH_KEYS.open)!.has("2026-10-30"),
+      hashes.get(BEAT_MATCH_KEYS.trackUses)!["42"],
+    ],
+    [false, undefined],
+  );
+  await saveChallenge(redis, c);
+  check(
+    "save: the earlier day's use stands",
+    hashes.get(BEAT_MATCH_KEYS.trackUses)!["42"],
+    DAY,
+  );
+  check("window is a day", c.endTime - c.startTime, DAY_MS / 1000);
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,448 @@
+/**
+ * Walks the Country Collector generator through `lib/country-collector.ts` — which country a week
+ * goes to, whose music it features, which plays complete an artist, who gets a passport stamp,
+ * and the keeper's steps from scheduled to closed. No chain, no Redis beyond a small fake.
+ *
+ * Run: `node --experimental-strip-types tools/verify-country-collector.ts`
+ */
+
+import { ALL_COUNTRIES, getCountryByCode } from "../lib/passport/countries.ts";
+import {
+  COUNTRY_COLLECTOR_KEYS,
+  CountryCollectorError,
+  DAY_MS,
+  MIN_LISTEN_SECONDS,
+  STAMP_GRACE_DAYS,
+  WEEK_MS,
+  artistCountries,
+  buildWeek,
+  completionField,
+  completionsDue,
+  createParams,
+  countryFromLocation,
+  dueAt,
+  eligibleArtists,
+  holdersByCountry,
+  nextStep,
+  parseWeek,
+  pickArtists,
+  pickCountry,
+  recordCompletions,
+  recordStamp,
+  saveWeek,
+  skipWeek,
+  stampPassport,
+  stampsDue,
+  weekKey,
+  weekWindow,
+  type CollectorPassport,
+  type CollectorPlay,
+  type CollectorTrack,
+  type CollectorUsage,
+} from "../lib/country-collector.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function throws(name: string, fn: () => unknown, message: RegExp) {
+  checks++;
+  try {
+    fn();
+    failures.push(`${name}\n     expected a throw matching ${message}`);
+  } catch (err: any) {
+    if (!(err instanceof CountryCollectorError) || !message.test(err.message)) {
+      failures.push(`${name}\n     threw ${err?.message}`);
+    }
+  }
+}
+
+/** Steps through `values` in turn, for draws that must land somewhere known. */
+const sequence = (...values: number[]) => {
+  let i = 0;
+  return () => values[i++ % values.length];
+};
+
+const NOW = Date.UTC(2026, 9, 21, 12); // a Wednesday
+const WEEK = "2026-10-19";
+const passport = (
+  tokenId: string,
+  owner: string,
+  countryCode: string,
+  mintedAt: number = 1_700_000_000,
+): CollectorPassport => ({ tokenId, owner, countryCode, mintedAt });
+const noUsage = (): CollectorUsage => ({ countries: {}, artists: {} });
+
+// ---- weeks ----
+check("week: Wednesday belongs to its Monday", weekKey(NOW), WEEK);
+check("week: Monday midnight starts it", weekKey(Date.UTC(2026, 9, 19)), WEEK);
+check(
+  "week: Sunday night is still the same week",
+  weekKey(Date.UTC(2026, 9, 25, 23, 59)),
+  WEEK,
+);
+check("week: a year boundary", weekKey(Date.UTC(2027, 0, 1)), "2026-12-28");
+check("week: valid Monday", parseWeek(WEEK), WEEK);
+throws("week: not a Monday", () => parseWeek("2026-10-21"), /Monday/);
+check("week: seven UTC days in unix seconds", weekWindow(WEEK), {
+  startTime: Date.UTC(2026, 9, 19) / 1000,
+  endTime: Date.UTC(2026, 9, 26) / 1000,
+});
+
+// ---- countries ----
+check(
+  "location: the country named last in a place wins",
+  countryFromLocation("Atlanta, Georgia, USA", ALL_COUNTRIES),
+  "US",
+);
+check(
+  "location: of several places the first naming a country is home",
+  countryFromLocation(
+    "Chilpancingo, Mexico / Queens, New York / Web3 Native",
+    ALL_COUNTRIES,
+  ),
+  "MX",
+);
+check(
+  "location: the longer name wins where one contains another",
+  countryFromLocation(
+    "Kinshasa, Democratic Republic of the Congo",
+    ALL_COUNTRIES,
+  ),
+  "CD",
+);
+check(
+  "location: accents and case do not matter",
+  countryFromLocation("bogotá, COLOMBIA", ALL_COUNTRIES),
+  "CO",
+);
+check(
+  "location: words are matched whole",
+  countryFromLocation("Omaniac Records, Chadwick", ALL_COUNTRIES),
+  null,
+);
+check(
+  "location: none",
+  countryFromLocation("Web3 Native", ALL_COUNTRIES),
+  null,
+);
+
+const passports = [
+  passport("1", "0xp1", "MX"),
+  passport("2", "0xp2", "MX"),
+  passport("3", "0xp2", "us"),
+  passport("4", "0xp3", "MX"),
+  passport("5", "0xp4", "JP"),
+  passport("6", "0xart3", "JP", 1_600_000_000),
+  passport("7", "0xart3", "MX", 1_650_000_000),
+];
+check("holders: distinct owners per country", holdersByCountry(passports), {
+  MX: 4,
+  US: 1,
+  JP: 2,
+});
+check(
+  "artist country: EPK location first, earliest passport after, none left out",
+  artistCountries(
+    ["0xart1", "0xart2", "0xart3", "0xart4"],
+    { "0xart1": "Guadalajara, Mexico", "0xart2": "Somewhere" },
+    passports,
+    ALL_COUNTRIES,
+  ),
+  { "0xart1": "MX", "0xart3": "JP" },
+);
+
+// ---- the draw ----
+const track = (tokenId: string, artist: string): CollectorTrack => ({
+  tokenId,
+  artist,
+  songTitle: `Song ${tokenId}`,
+});
+const tracks = [
+  track("10", "0xA1"),
+  track("11", "0xa1"),
+  track("20", "0xa2"),
+  track("30", "0xa3"),
+  track("40", "0xa4"),
+];
+{
+  const usage = noUsage();
+  usage.artists["0xa4"] = "2026-10-05";
+  usage.artists["0xa3"] = "2026-09-14";
+  const byArtist = eligibleArtists(tracks, WEEK, usage);
+  check(
+    "artists: grouped case-insensitively; two weeks ago is in cooldown, five is not",
+    [...byArtist].map(([a, t]) => [a, t.map((x) => x.tokenId)]),
+    [
+      ["0xa1", ["10", "11"]],
+      ["0xa2", ["20"]],
+      ["0xa3", ["30"]],
+    ],
+  );
+  check(
+    "artists: three distinct, one track each, indexed 0-2",
+    pickArtists(byArtist, sequence(0.99, 0.99, 0, 0, 0, 0)),
+    [
+      { index: 0, tokenId: "30", artist: "0xa3", songTitle: "Song 30" },
+      { index: 1, tokenId: "10", artist: "0xa1", songTitle: "Song 10" },
+      { index: 2, tokenId: "20", artist: "0xa2", songTitle: "Song 20" },
+    ],
+  );
+  byArtist.delete("0xa3");
+  check(
+    "artists: two are not a week",
+    pickArtists(byArtist, Math.random),
+    null,
+  );
+}
+
+const holders = { MX: 3, US: 1, JP: 2 };
+const enough = { MX: 3, US: 4, JP: 2 };
+check(
+  "country: weighted by holders — the low ticket lands on the first",
+  pickCountry(holders, enough, WEEK, noUsage(), () => 0)?.countryCode,
+  "MX",
+);
+check(
+  "country: the top ticket lands past MX's three of four holders",
+  pickCountry(holders, enough, WEEK, noUsage(), () => 0.8)?.countryCode,
+  "US",
+);
+check(
+  "country: fewer than three artists keeps a country out of the draw",
+  pickCountry(holders, enough, WEEK, noUsage(), () => 0.99)?.countryCode,
+  "US",
+);
+check(
+  "country: one still in its cooldown is passed over",
+  pickCountry(
+    holders,
+    enough,
+    WEEK,
+    { countries: { MX: "2026-09-21" }, artists: {} },
+    () => 0,
+  ),
+  { countryCode: "US", cooldownWaived: false },
+);
+check(
+  "country: the cooldown is waived when nothing else can be drawn",
+  pickCountry(
+    { MX: 3 },
+    enough,
+    WEEK,
+    { countries: { MX: "2026-10-12" }, artists: {} },
+    () => 0,
+  ),
+  { countryCode: "MX", cooldownWaived: true },
+);
+check(
+  "country: no holders with artists, no draw",
+  pickCountry({ FR: 9 }, enough, WEEK, noUsage(), () => 0),
+  null,
+);
+
+const artists = [
+  { index: 0, tokenId: "10", artist: "0xa1", songTitle: "Song 10" },
+  { index: 1, tokenId: "20", artist: "0xa2", songTitle: "Song 20" },
+  { index: 2, tokenId: "30", artist: "0xa3", songTitle: "Song 30" },
+];
+const mexico = getCountryByCode("MX")!;
+throws(
+  "build: two artists are not a week",
+  () => buildWeek(WEEK, mexico, 3, artists.slice(0, 2), false, NOW),
+  /3 artists/,
+);
+
+// ---- completion ----
+{
+  const c = { ...buildWeek(WEEK, mexico, 3, artists, false, NOW), weekId: "7" };
+  const at = (day: number) => c.startTime + day * 86400;
+  const play = (
+    user: string,
+    masterTokenId: string,
+    timestamp: number,
+    duration: number = 180,
+  ): CollectorPlay => ({ user, masterTokenId, duration, timestamp });
+  const plays = [
+    play("0xBob", "20", at(2)),
+    play("0xbob", "10", at(1)),
+    play("0xbob", "10", at(3)),
+    play("0xcat", "30", at(1), MIN_LISTEN_SECONDS - 1),
+    play("0xcat", "20", c.startTime - 1),
+    play("0xcat", "99", at(1)),
+    play("0xdan", "30", at(1)),
+    play("0xbot", "10", at(1)),
+  ];
+  check(
+    "due: once per player and artist, oldest play first; skips, other weeks, other songs and excluded listeners do not count",
+    completionsDue(
+      c,
+      plays,
+      new Set([completionField("0xdan", 2)]),
+      new Set(["0xbot"]),
+    ),
+    [
+      { player: "0xbob", artistIndex: 0, artistId: "10" },
+      { player: "0xbob", artistIndex: 1, artistId: "20" },
+    ],
+  );
+
+  const done = new Set([
+    "0xbob:0",
+    "0xbob:1",
+    "0xbob:2",
+    "0xcat:0",
+    "0xcat:1",
+    "0xdan:0",
+    "0xdan:1",
+    "0xdan:2",
+  ]);
+  check(
+    "stamps: all three and not yet stamped",
+    stampsDue(done, new Set(["0xdan"])),
+    ["0xbob"],
+  );
+  check(
+    "stamp: on the passport for the week's country",
+    stampPassport(passports, "0xart3", "MX")?.tokenId,
+    "7",
+  );
+  check(
+    "stamp: else on the earliest passport",
+    stampPassport(passports, "0xart3", "US")?.tokenId,
+    "6",
+  );
+  check(
+    "stamp: no passport, no stamp",
+    stampPassport(passports, "0xbob", "MX"),
+    null,
+  );
+
+  // ---- lifecycle ----
+  const scheduled = buildWeek(WEEK, mexico, 3, artists, false, NOW);
+  check(
+    "step: scheduled before the week",
+    nextStep(scheduled, c.startTime * 1000 - 1),
+    null,
+  );
+  check(
+    "step: look for it on-chain once it starts, and still past its end",
+    [nextStep(scheduled, NOW), nextStep(scheduled, c.endTime * 1000)],
+    ["resolve", "resolve"],
+  );
+  check("step: the owner's create parameters", createParams(scheduled), {
+    country: "Mexico",
+    countryCode: "MX",
+    artistIds: scheduled.artists.map((a) => a.tokenId),
+  });
+  const created = { ...c, status: "created" as const };
+  check("step: created", nextStep(created, NOW), "sync");
+  check(
+    "step: stamps carry on after the week ends",
+    nextStep(created, c.endTime * 1000 + DAY_MS),
+    "sync",
+  );
+  check(
+    "step: closed once the grace period is over",
+    nextStep(created, c.endTime * 1000 + STAMP_GRACE_DAYS * DAY_MS),
+    "close",
+  );
+  check("due: a closed week is done", dueAt({ ...c, status: "closed" }), null);
+  const skipped = buildWeek(WEEK, mexico, 3, artists, false, NOW);
+  skipWeek(skipped, "ended", NOW);
+  throws(
+    "skip: only once",
+    () => skipWeek(skipped, "again", NOW),
+    /already skipped/,
+  );
+  check("window is a week", c.endTime - c.startTime, WEEK_MS / 1000);
+}
+
+// ---- redis ----
+{
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const fake = {
+    set: async (k: string, v: string) => void strings.set(k, v),
+    hset: async (k: string, v: Record<string, string>) =>
+      void hashes.set(k, { ...hashes.get(k), ...v }),
+    hsetnx: async (k: string, f: string, v: string) => {
+      if (hashes.get(k)?.[f] !== undefined) return 0;
+      hashes.set(k, { ...hashes.get(k), [f]: v });
+      return 1;
+    },
+    hget: async (k: string, f: string) => hashes.get(k)?.[f] ?? null,
+    hdel: async (k: string, f: string) => {
+      const h = { ...hashes.get(k) };
+      delete h[f];
+      hashes.set(k, h);
+    },
+    zadd: async (k: string, m: { score: number; member: string }) =>
+      void zsets.set(k, (zsets.get(k) || new Map()).set(m.member, m.score)),
+    zrem: async (k: string, m: string) => void zsets.get(k)?.delete(m),
+  };
+  const redis = fake as any;
+
+  const next = buildWeek("2026-10-26", mexico, 3, artists, false, NOW);
+  const c = buildWeek(WEEK, mexico, 3, artists, false, NOW);
+  await saveWeek(redis, next);
+  await saveWeek(redis, c);
+  check(
+    "save: listed, queued from its start, and its country and artists marked used",
+    [
+      [...zsets.get(COUNTRY_COLLECTOR_KEYS.weeks)!.keys()],
+      zsets.get(COUNTRY_COLLECTOR_KEYS.open)!.get(WEEK),
+      hashes.get(COUNTRY_COLLECTOR_KEYS.countryUses)!.MX,
+      hashes.get(COUNTRY_COLLECTOR_KEYS.artistUses)!["0xa2"],
+    ],
+    [["2026-10-26", WEEK], Date.UTC(2026, 9, 19), "2026-10-26", "2026-10-26"],
+  );
+
+  skipWeek(next, "ended", NOW);
+  await saveWeek(redis, next);
+  await saveWeek(redis, c);
+  check(
+    "save: a skipped week leaves the queue and gives its cooldowns back",
+    [
+      zsets.get(COUNTRY_COLLECTOR_KEYS.open)!.has("2026-10-26"),
+      hashes.get(COUNTRY_COLLECTOR_KEYS.countryUses)!.MX,
+    ],
+    [false, WEEK],
+  );
+
+  await recordCompletions(
+    redis,
+    WEEK,
+    [{ player: "0xBob", artistIndex: 2, artistId: "30" }],
+    "0xtx",
+  );
+  check(
+    "ledger: keyed by lowercase player and index",
+    hashes.get(COUNTRY_COLLECTOR_KEYS.completions(WEEK)),
+    { "0xbob:2": "0xtx" },
+  );
+  check(
+    "stamp ledger: once per player per week",
+    [
+      await recordStamp(redis, WEEK, "0xBob", "7"),
+      await recordStamp(redis, WEEK, "0xbob", "8"),
+      hashes.get(COUNTRY_COLLECTOR_KEYS.stamps(WEEK)),
+    ],
+    [true, false, { "0xbob": "7" }],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
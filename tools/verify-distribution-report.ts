@@ -0,0 +1,342 @@
+/**
+ * Pins the listener distribution report: what it pays, what it signs, and when it may execute.
+ *
+ * Run: `node --experimental-strip-types tools/verify-distribution-report.ts`
+ *
+ * A report is what the team approves before the reserve moves, and the keeper later executes
+ * it verbatim. So the checks below care about three things: the plan pays the same points the
+ * claim UI estimates, a report altered after signing no longer verifies, and an approved report
+ * refuses to run once the world it was priced against has moved.
+ */
+
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  REPORT_KEYS,
+  canonicalDigest,
+  canonicalJson,
+  diffReports,
+  executionBlocker,
+  listMonthReports,
+  previousMonthReport,
+  storeDraft,
+  toReportEntries,
+  verifySignedReport,
+  type DistributionReport,
+  type ReportRedis,
+  type SignedReport,
+} from "../lib/distribution-report.ts";
+import { computeListenerPoints, planDistribution } from "../lib/listener-points.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+// Anvil's first dev key — public, never funded on Monad.
+const keeper = privateKeyToAccount(
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+);
+const stranger = privateKeyToAccount(
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+);
+
+const A = "0x000000000000000000000000000000000000000a";
+const B = "0x000000000000000000000000000000000000000b";
+const C = "0x000000000000000000000000000000000000000c";
+const D = "0x000000000000000000000000000000000000000d";
+
+// ---------------------------------------------------------------------------
+// planDistribution
+// ---------------------------------------------------------------------------
+
+const stats = {
+  [B]: { totalSongsListened: 40, currentStreak: 14 }, // 30 new + 10 streak bonus
+  [A]: { totalSongsListened: 25, currentStreak: 0 }, // 25 new, under review
+  [C]: { totalSongsListened: 50, currentStreak: 0 }, // quarantined
+  [D]: { totalSongsListened: 12, currentStreak: 0 }, // nothing new
+};
+const snapshot = { [B]: 10, [C]: 20, [D]: 12 };
+const standings = { [A]: { weight: 0.5, hold: false }, [C]: { weight: 0, hold: true } };
+const pool = 1_000_000n;
+
+const plan = planDistribution(stats, snapshot, standings, pool);
+check("plan: lines sorted by address, idle listener omitted", plan.lines.map((l) => l.address), [A, B, C]);
+check("plan: points are weighted", plan.lines.map((l) => l.points), [12, 40, 0]);
+check("plan: raw points are before weight", plan.lines.map((l) => l.rawPoints), [25, 40, 30]);
+check("plan: held line is marked", plan.lines.map((l) => l.held), [false, false, true]);
+check("plan: total counts weighted points", plan.totalPoints, 52);
+check(
+  "plan: points match the claim UI's computeListenerPoints",
+  plan.lines[0].points,
+  computeListenerPoints(stats[A], 0, 0.5),
+);
+check(
+  "plan: payouts are pro-rata and never exceed the pool",
+  plan.lines.map((l) => l.payoutWei.toString()),
+  ["230769", "769230", "0"],
+);
+check(
+  "plan: held listeners keep their snapshot so the points carry over",
+  plan.snapshotAfter,
+  { [A]: 25, [B]: 40, [D]: 12 },
+);
+check("plan: no stats is an empty plan", planDistribution(null, null, null, pool), {
+  lines: [],
+  totalPoints: 0,
+  snapshotAfter: {},
+});
+
+const entries = toReportEntries(plan);
+check("entries: wei as strings", entries[1].payoutWei, "769230");
+check("entries: songs delta excludes the streak bonus", entries[1].songsDelta, 30);
+
+// ---------------------------------------------------------------------------
+// Digest and signature
+// ---------------------------------------------------------------------------
+
+check("canonical: keys sorted at every level", canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: null } }),
+  '{"a":{"c":null,"d":[2,{"e":0,"f":1}]},"b":1}');
+check("canonical: undefined fields dropped", canonicalJson({ a: undefined, b: 1 }), '{"b":1}');
+check(
+  "digest: independent of key order",
+  canonicalDigest({ x: 1, y: [1, 2] }) === canonicalDigest({ y: [1, 2], x: 1 }),
+  true,
+);
+check("digest: sensitive to array order", canonicalDigest([1, 2]) === canonicalDigest([2, 1]), false);
+
+function report(monthId: number, overrides: Partial<DistributionReport> = {}): DistributionReport {
+  return {
+    reportId: `${monthId}-test`,
+    monthId,
+    createdAt: 1_700_000_000_000,
+    chainId: 10143,
+    pool: "0x00000000000000000000000000000000000000f1",
+    subscription: "0x00000000000000000000000000000000000000f2",
+    reserve: {
+      balanceWei: pool.toString(),
+      percentage: 20,
+      percentageSource: "month-split",
+      monthRevenueWei: "5000000",
+      expectedFromRevenueWei: "1000000",
+    },
+    poolWei: pool.toString(),
+    totalPoints: plan.totalPoints,
+    listenerCount: entries.filter((e) => e.points > 0).length,
+    heldCount: entries.filter((e) => e.held).length,
+    entries,
+    snapshotDigest: canonicalDigest(snapshot),
+    snapshotAfter: plan.snapshotAfter,
+    diff: null,
+    ...overrides,
+  };
+}
+
+async function sign(r: DistributionReport, by = keeper): Promise<SignedReport> {
+  const digest = canonicalDigest(r);
+  return {
+    report: r,
+    digest,
+    signer: by.address,
+    signature: await by.signMessage({ message: { raw: digest } }),
+    status: "draft",
+  };
+}
+
+const signed = await sign(report(7));
+check("verify: fresh report", await verifySignedReport(signed, keeper.address), true);
+check(
+  "verify: survives a JSON round trip through Redis",
+  await verifySignedReport(JSON.parse(JSON.stringify(signed)), keeper.address),
+  true,
+);
+check(
+  "verify: status changes do not touch what was signed",
+  await verifySignedReport({ ...signed, status: "approved" }, keeper.address),
+  true,
+);
+
+const tampered: SignedReport = JSON.parse(JSON.stringify(signed));
+tampered.report.entries[0].points = 500;
+check("verify: edited points fail", await verifySignedReport(tampered, keeper.address), false);
+
+const redigested: SignedReport = { ...tampered, digest: canonicalDigest(tampered.report) };
+check("verify: edited points with a recomputed digest fail", await verifySignedReport(redigested, keeper.address), false);
+
+check("verify: wrong expected signer", await verifySignedReport(signed, stranger.address), false);
+const forged = await sign(report(7), stranger);
+check(
+  "verify: stranger's signature claiming the keeper",
+  await verifySignedReport({ ...forged, signer: keeper.address }, keeper.address),
+  false,
+);
+
+// ---------------------------------------------------------------------------
+// diffReports
+// ---------------------------------------------------------------------------
+
+const lastMonth = report(6, {
+  reportId: "6-test",
+  totalPoints: 30,
+  listenerCount: 2,
+  poolWei: "800000",
+  entries: [
+    { ...entries[1], points: 20 },
+    { ...entries[1], address: D, points: 10 },
+  ],
+});
+const diff = diffReports(report(7), lastMonth);
+check("diff: none without a previous report", diffReports(report(7), null), null);
+check("diff: header", [diff?.previousReportId, diff?.previousMonthId, diff?.poolWei], [
+  "6-test",
+  6,
+  { previous: "800000", current: "1000000" },
+]);
+check("diff: added and dropped", [diff?.added, diff?.dropped], [[A], [D]]);
+check("diff: largest change first, held listener's 0 is not a change", diff?.changed, [
+  { address: B, previous: 20, current: 40 },
+  { address: A, previous: 0, current: 12 },
+  { address: D, previous: 10, current: 0 },
+]);
+
+// ---------------------------------------------------------------------------
+// executionBlocker
+// ---------------------------------------------------------------------------
+
+const approved: SignedReport = {
+  ...signed,
+  status: "approved",
+  approval: { by: "0xadmin", at: 1, signature: "0x" },
+};
+const now = { monthId: 7, reserveBalanceWei: pool, snapshotDigest: canonicalDigest(snapshot) };
+
+check("blocker: approved and current", executionBlocker(approved, now), null);
+check("blocker: reserve grew since the draft", executionBlocker(approved, { ...now, reserveBalanceWei: pool * 2n }), null);
+check("blocker: draft", executionBlocker(signed, now), "Report is draft, not approved");
+check("blocker: already executed", executionBlocker({ ...approved, status: "executed" }, now), "Report is executed, not approved");
+check(
+  "blocker: approved without an approval record",
+  executionBlocker({ ...approved, approval: undefined }, now),
+  "Report has no approval on record",
+);
+check(
+  "blocker: wrong month",
+  executionBlocker(approved, { ...now, monthId: 8 }),
+  "Report is for month 7; month 8 is being distributed",
+);
+check(
+  "blocker: snapshot moved",
+  executionBlocker(approved, { ...now, snapshotDigest: canonicalDigest({ ...snapshot, [A]: 3 }) }),
+  "The distribution snapshot has moved since this report was drafted",
+);
+check(
+  "blocker: reserve shrank",
+  executionBlocker(approved, { ...now, reserveBalanceWei: pool - 1n }),
+  "The reserve no longer covers this report's pool",
+);
+
+const resuming = { withdrawn: true, snapshotWritten: false };
+check(
+  "blocker: a failed run resumes even though the reserve was withdrawn",
+  executionBlocker({ ...approved, status: "failed" }, { ...now, reserveBalanceWei: 0n, resume: resuming }),
+  null,
+);
+check(
+  "blocker: a failed run is not executable as a fresh one",
+  executionBlocker({ ...approved, status: "failed" }, now),
+  "Report is failed, not approved",
+);
+check(
+  "blocker: resuming before the withdraw still needs the reserve",
+  executionBlocker(approved, { ...now, reserveBalanceWei: 0n, resume: { ...resuming, withdrawn: false } }),
+  "The reserve no longer covers this report's pool",
+);
+check(
+  "blocker: resuming after the snapshot write ignores the moved snapshot",
+  executionBlocker(
+    { ...approved, status: "executing" },
+    { ...now, snapshotDigest: canonicalDigest({}), resume: { withdrawn: true, snapshotWritten: true } },
+  ),
+  null,
+);
+check(
+  "blocker: an executed report never resumes",
+  executionBlocker({ ...approved, status: "executed" }, { ...now, resume: resuming }),
+  "Report is executed, not approved",
+);
+
+// ---------------------------------------------------------------------------
+// Redis persistence
+// ---------------------------------------------------------------------------
+
+{
+  const kv = new Map<string, unknown>();
+  const lists = new Map<string, string[]>();
+  // Upstash deserialises JSON on read; mimic that so parseMaybeJson sees what production sees.
+  const redis = {
+    async get(key: string) {
+      const v = kv.get(key);
+      if (typeof v !== "string") return v ?? null;
+      try {
+        return JSON.parse(v);
+      } catch {
+        return v;
+      }
+    },
+    async set(key: string, value: unknown) {
+      kv.set(key, value);
+      return "OK";
+    },
+    async rpush(key: string, ...values: string[]) {
+      const list = lists.get(key) || [];
+      list.push(...values);
+      lists.set(key, list);
+      return list.length;
+    },
+    async lrange(key: string, start: number, stop: number) {
+      const list = lists.get(key) || [];
+      return list.slice(start, stop === -1 ? undefined : stop + 1);
+    },
+  } as unknown as ReportRedis;
+
+  const first = await sign(report(7, { reportId: "7-a" }));
+  const second = await sign(report(7, { reportId: "7-b" }));
+  await storeDraft(redis, first);
+  await storeDraft(redis, second);
+  check(
+    "store: a new draft supersedes the pending one",
+    (await listMonthReports(redis, 7)).map((r) => [r.report.reportId, r.status]),
+    [["7-a", "superseded"], ["7-b", "draft"]],
+  );
+
+  const b = (await listMonthReports(redis, 7))[1];
+  await redis.set(REPORT_KEYS.report("7-b"), JSON.stringify({ ...b, status: "approved" }));
+  await storeDraft(redis, await sign(report(7, { reportId: "7-c" })));
+  check(
+    "store: an approved report is not superseded by a dry run",
+    (await listMonthReports(redis, 7)).map((r) => r.status),
+    ["superseded", "approved", "draft"],
+  );
+  check(
+    "store: round-tripped report still verifies",
+    await verifySignedReport((await listMonthReports(redis, 7))[1], keeper.address),
+    true,
+  );
+
+  check("previous: latest draft when nothing executed", (await previousMonthReport(redis, 8))?.reportId, "7-c");
+  await redis.set(REPORT_KEYS.executed(7), "7-b");
+  check("previous: the executed report wins", (await previousMonthReport(redis, 8))?.reportId, "7-b");
+  check("previous: none for a month with no history", await previousMonthReport(redis, 3), null);
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,266 @@
+/**
+ * Pins the arithmetic and reconciliation of `lib/earnings-statement.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-earnings-statement.ts`
+ *
+ * One fixture month is built by hand with numbers that are easy to check on paper: 4 of 40
+ * plays against a 100 WMON pool is 10 WMON, a 10 WMON license pays the artist 9. Each later
+ * scenario changes one source and checks that exactly the matching reconciliation line flips.
+ */
+
+import {
+  LICENSE_ARTIST_PERCENTAGE,
+  MONTH_SECONDS,
+  buildStatement,
+  licenseArtistWei,
+  monthIdAt,
+  monthWindow,
+  poolShareWei,
+  statementToCsv,
+  type StatementSources,
+} from "../lib/earnings-statement.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+const E = 10n ** 18n;
+const wei = (n: number) => ((BigInt(Math.round(n * 1000)) * E) / 1000n).toString();
+const MONTH = 700;
+const S = MONTH * MONTH_SECONDS;
+const NOW = (S + 40 * 86400) * 1000;
+
+function fixture(): StatementSources {
+  return {
+    artist: "0xAAAA000000000000000000000000000000000001",
+    monthId: MONTH,
+    plays: [
+      { masterTokenId: "1", name: "Alpha", at: S + 10 },
+      { masterTokenId: "1", name: "Alpha", at: S + 20 },
+      { masterTokenId: "1", name: "Alpha", at: S + 30 },
+      { masterTokenId: "2", name: null, at: S + 40 },
+      { masterTokenId: "1", name: "Alpha", at: S - 1 }, // previous month
+    ],
+    radioPlays: [
+      { masterTokenId: "2", name: "Beta, the \"Remix\"", at: S + 50 },
+      { masterTokenId: "2", name: "Beta, the \"Remix\"", at: S + 60 },
+      { masterTokenId: "2", name: "Beta, the \"Remix\"", at: S + MONTH_SECONDS }, // next month
+    ],
+    licenses: [
+      {
+        licenseId: "11",
+        masterTokenId: "1",
+        name: "Alpha",
+        buyer: "0xbbbb",
+        priceWei: wei(10),
+        isCollector: false,
+        at: S + 100,
+        txHash: "0xLIC1",
+      },
+      {
+        licenseId: "12",
+        masterTokenId: "2",
+        name: null,
+        buyer: "0xcccc",
+        priceWei: wei(5),
+        isCollector: true,
+        at: S + 200,
+        txHash: "0xlic2",
+      },
+    ],
+    royalties: [
+      { masterTokenId: "1", amountWei: wei(9), at: S + 100, txHash: "0xlic1" },
+      { masterTokenId: "1", amountWei: wei(1), at: S + 300, txHash: "0xrenew" },
+    ],
+    tips: [
+      {
+        masterTokenId: "2",
+        name: null,
+        tipper: "0xdddd",
+        amountWei: wei(2),
+        at: S + 400,
+        txHash: "0xtip",
+      },
+    ],
+    distribution: {
+      totalRevenueWei: wei(200),
+      totalPlays: "40",
+      artistPoolWei: wei(100),
+      at: S + MONTH_SECONDS + 5,
+      txHash: "0xfinal",
+    },
+    payout: { amountWei: wei(10), playCount: "4", at: S + MONTH_SECONDS + 600, txHash: "0xclaim" },
+    toursRewards: [{ amountWei: wei(50), at: S + MONTH_SECONDS + 600, txHash: "0xclaim" }],
+    onChain: {
+      artistPlays: "4",
+      claimed: true,
+      monthTotalPlays: "40",
+      monthDistributedWei: wei(100),
+      monthFinalized: true,
+    },
+  };
+}
+
+const failed = (src: StatementSources) =>
+  buildStatement(src, NOW)
+    .reconciliation.checks.filter((c) => !c.ok)
+    .map((c) => c.name);
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+check("window: 30-day contract buckets", monthWindow(MONTH), { start: S, end: S + MONTH_SECONDS });
+check("monthIdAt: last second of the month", monthIdAt(S + MONTH_SECONDS - 1), MONTH);
+check("monthIdAt: first second of the next", monthIdAt(S + MONTH_SECONDS), MONTH + 1);
+check("license: artist keeps 90%", String(LICENSE_ARTIST_PERCENTAGE), "90");
+check("license: treasury fee rounds down, artist gets the dust", String(licenseArtistWei(1001n)), "901");
+check("pool: pro-rata floor", String(poolShareWei(1n, 100n, 3n)), "33");
+check("pool: no plays this month", String(poolShareWei(5n, 100n, 0n)), "0");
+
+// ---------------------------------------------------------------------------
+// A reconciled month
+// ---------------------------------------------------------------------------
+
+{
+  const st = buildStatement(fixture(), NOW);
+  check("artist lower-cased", st.artist, "0xaaaa000000000000000000000000000000000001");
+  check("period", st.period, { start: new Date(S * 1000).toISOString(), end: new Date((S + MONTH_SECONDS) * 1000).toISOString() });
+  check("tracks: plays per track, most played first, out-of-month plays dropped", st.tracks.map((t) => [t.masterTokenId, t.name, t.subscriptionPlays, t.radioPlays, t.licensesSold]), [
+    ["1", "Alpha", 3, 0, 1],
+    ["2", "Beta, the \"Remix\"", 1, 2, 1],
+  ]);
+  check("tracks: license and tip amounts", st.tracks.map((t) => [t.licenseWei, t.tipsWei]), [
+    [wei(10), "0"],
+    [wei(4.5), wei(2)],
+  ]);
+  check("pool", st.artistPool, {
+    status: "claimed",
+    artistPlays: "4",
+    totalPlays: "40",
+    artistPoolWei: wei(100),
+    shareWei: wei(10),
+    finalizeTxHash: "0xfinal",
+    claimTxHash: "0xclaim",
+  });
+  check("totals", st.totals, {
+    artistPoolWei: wei(10),
+    licenseWei: wei(14.5),
+    tipsWei: wei(2),
+    wmonWei: wei(26.5),
+    toursWei: wei(50),
+    subscriptionPlays: 4,
+    radioPlays: 2,
+  });
+  check("lines: chronological with tx hashes", st.lines.map((l) => [l.kind, l.amountWei, l.txHash]), [
+    ["license", wei(9), "0xLIC1"],
+    ["license", wei(4.5), "0xlic2"],
+    ["license", wei(1), "0xrenew"],
+    ["tip", wei(2), "0xtip"],
+    ["artist-pool", wei(10), "0xclaim"],
+    ["tours-reward", wei(50), "0xclaim"],
+  ]);
+  check("reconciles", st.reconciliation.ok, true);
+  check("every check ran", st.reconciliation.checks.length, 7);
+}
+
+// ---------------------------------------------------------------------------
+// Mismatches
+// ---------------------------------------------------------------------------
+
+{
+  const src = fixture();
+  src.payout!.amountWei = wei(11);
+  check("payout amount off", failed(src), ["ArtistPayout.amount is the pro-rata share of the artist pool"]);
+}
+{
+  const src = fixture();
+  src.plays.pop();
+  src.plays.shift();
+  check("indexer missed a play", failed(src), ["Indexed subscription plays match artistMonthlyPlays"]);
+}
+{
+  const src = fixture();
+  src.distribution!.artistPoolWei = wei(90);
+  check("distribution drifted from monthlyStats", failed(src), [
+    "MonthlyDistribution.artistPool matches monthlyStats.distributedAmount",
+    "ArtistPayout.amount is the pro-rata share of the artist pool",
+  ]);
+}
+{
+  const src = fixture();
+  src.royalties[0].amountWei = wei(7);
+  const st = buildStatement(src, NOW);
+  check("short royalty: statement shows what was paid", st.lines[0].amountWei, wei(7));
+  check("short royalty: flagged", failed(src), ["License royalties are 90% of price"]);
+}
+{
+  const src = fixture();
+  src.payout = null;
+  check("claimed on-chain but ArtistPayout missing", failed(src), ["ArtistPayout indexed exactly when the month is claimed on-chain"]);
+}
+{
+  const src = fixture();
+  src.distribution = null;
+  src.payout = null;
+  src.toursRewards = [];
+  src.onChain = { ...src.onChain!, claimed: false };
+  const st = buildStatement(src, NOW);
+  check("finalized on-chain but not indexed", failed(src), ["MonthlyDistribution indexed for a finalized month"]);
+  check("not finalized: no pool line", st.lines.some((l) => l.kind === "artist-pool"), false);
+  check("not finalized: status", st.artistPool.status, "not-finalized");
+}
+
+// ---------------------------------------------------------------------------
+// Unclaimed and offline
+// ---------------------------------------------------------------------------
+
+{
+  const src = fixture();
+  src.payout = null;
+  src.toursRewards = [];
+  src.onChain = { ...src.onChain!, claimed: false };
+  const st = buildStatement(src, NOW);
+  check("unclaimed: status and owed share", [st.artistPool.status, st.artistPool.shareWei, st.artistPool.claimTxHash], ["unclaimed", wei(10), null]);
+  check("unclaimed: pool line has no tx", st.lines.find((l) => l.kind === "artist-pool")?.txHash, null);
+  check("unclaimed: reconciles", st.reconciliation.ok, true);
+}
+{
+  const src = fixture();
+  src.onChain = null;
+  const st = buildStatement(src, NOW);
+  check("RPC down: only indexer-side checks", st.reconciliation.checks.map((c) => c.name), [
+    "ArtistPayout.amount is the pro-rata share of the artist pool",
+    "License royalties are 90% of price",
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+{
+  const csv = statementToCsv(buildStatement(fixture(), NOW));
+  const rows = csv.split("\r\n");
+  check("csv: header", rows[0], "section,date,master_token_id,track,description,subscription_plays,radio_plays,amount_wmon,amount_tours,tx_hash");
+  check("csv: quoted track name", rows[2], 'track,,2,"Beta, the ""Remix""","1 licenses, tips 2 WMON",1,2,6.5,,');
+  check("csv: license line", rows[3].split(",").slice(0, 4).concat(rows[3].split(",").slice(-3)), ["license", new Date((S + 100) * 1000).toISOString().slice(0, 10), "1", "Alpha", "9", "", "0xLIC1"]);
+  check("csv: tours in its own column", rows.find((r) => r.startsWith("tours-reward"))?.split(",").slice(-3), ["", "50", "0xclaim"]);
+  check("csv: total WMON", rows.find((r) => r.includes("Total WMON")), "total,,,,Total WMON,,,26.5,,");
+  check("csv: reconciliation rows", rows.filter((r) => r.startsWith('reconciliation,,,,"OK:')).length, 7);
+  check("csv: trailing newline", csv.endsWith("\r\n"), true);
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,385 @@
+/**
+ * Checks quotes, agreements, milestones and cancellation terms in `lib/epk/booking.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-epk-booking.ts`
+ *
+ * Money sits in escrow between two parties who may never meet, so these pin what each side was
+ * promised: the split of the fee, that the signed text covers the riders, the order milestones
+ * can be paid in, and where escrow goes when either side walks away.
+ */
+
+import {
+  BookingError,
+  addAgreementSignature,
+  agreementText,
+  artistKeepsFor,
+  bookingStatus,
+  buildQuote,
+  calendarEntries,
+  cancellationTerms,
+  depositDeadline,
+  depositLapsed,
+  draftAgreement,
+  fundingBlocker,
+  lapseBooking,
+  parseDepositMember,
+  parsePricing,
+  parseRefundPolicy,
+  releaseBlocker,
+  settlementCalls,
+} from "../lib/epk/booking.ts";
+import type {
+  BookingConfig,
+  BookingInquiry,
+  BookingMilestone,
+} from "../lib/epk/types.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+function thrown(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    return err instanceof BookingError ? err.message : `unexpected ${err}`;
+  }
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = Date.parse("2026-09-01T12:00:00Z");
+const ARTIST = "0x1111111111111111111111111111111111111111";
+const ORGANIZER = "0x2222222222222222222222222222222222222222";
+
+const config: BookingConfig = {
+  pricing: "From 1,000 WMON per set",
+  inquiryEnabled: true,
+  availableFor: [],
+  territories: [],
+  targetEvents: [],
+  minimumDeposit: "100",
+};
+
+const inquiry: BookingInquiry = {
+  id: "1-abc",
+  artistAddress: ARTIST,
+  name: "Ana",
+  email: "ana@example.com",
+  eventName: "Harbour Nights",
+  eventDate: "2026-10-31",
+  location: "Lisbon",
+  eventType: "Festival",
+  expectedAttendance: "800",
+  message: "Headline slot",
+  status: "inquiry",
+  createdAt: now,
+};
+
+// ---- pricing and quotes ----------------------------------------------------
+
+check("fee read from free-text pricing", parsePricing(config.pricing), "1000");
+check("no fee in 'Contact for rates'", parsePricing("Contact for rates"), null);
+
+const quote = buildQuote(config, inquiry.eventDate, { version: 1, now });
+check(
+  "30% deposit due in a week, balance 14 days before the show",
+  quote.milestones.map((m) => [m.kind, m.amount, m.dueDate]),
+  [
+    ["deposit", "300", "2026-09-08"],
+    ["balance", "700", "2026-10-17"],
+  ],
+);
+
+check(
+  "deposit never below the EPK's minimum, never above the fee",
+  [
+    buildQuote(config, inquiry.eventDate, {
+      fee: "200",
+      version: 1,
+      now,
+    }).milestones.map((m) => m.amount),
+    buildQuote(config, inquiry.eventDate, {
+      fee: "50",
+      version: 1,
+      now,
+    }).milestones.map((m) => m.amount),
+  ],
+  [["100", "100"], ["50"]],
+);
+
+check(
+  "unpriceable, past-dated and zero quotes are refused",
+  [
+    thrown(() =>
+      buildQuote(
+        { ...config, pricing: "Contact for rates" },
+        inquiry.eventDate,
+        { version: 1, now },
+      ),
+    ),
+    thrown(() => buildQuote(config, "2026-09-01", { version: 1, now })),
+    thrown(() =>
+      buildQuote(config, inquiry.eventDate, { fee: "0", version: 1, now }),
+    ),
+  ],
+  [
+    "Pricing does not state a fee; quote one",
+    "Too late to quote for this date",
+    "Fee must be more than zero",
+  ],
+);
+
+check(
+  "refund tiers are sorted and must not overlap",
+  [
+    parseRefundPolicy([
+      { daysBefore: 7, artistKeeps: "deposit" },
+      { daysBefore: 30, artistKeeps: "nothing" },
+    ]).map((t) => t.daysBefore),
+    thrown(() =>
+      parseRefundPolicy([
+        { daysBefore: 7, artistKeeps: "deposit" },
+        { daysBefore: 7, artistKeeps: "nothing" },
+      ]),
+    ),
+  ],
+  [[30, 7], "Two refund tiers start on the same day"],
+);
+
+// ---- agreement -------------------------------------------------------------
+
+const riders = {
+  artistName: "Harbour Band",
+  technicalRider: {
+    stage: { title: "Stage", items: ["8x6m stage"] },
+    sound: { title: "Sound", items: [] },
+  } as any,
+  hospitalityRider: {
+    catering: { title: "Catering", items: ["Vegan meals for 4"] },
+  } as any,
+};
+const text = agreementText(inquiry, quote, riders);
+check(
+  "agreement text carries the riders and the milestones",
+  [
+    "- 8x6m stage",
+    "- Vegan meals for 4",
+    "- deposit: 300 WMON, due 2026-09-08",
+  ].map((line) => text.split("\n").includes(line)),
+  [true, true, true],
+);
+
+const draft = draftAgreement(text, 1);
+check(
+  "the organizer cannot countersign before the artist signs",
+  thrown(() =>
+    addAgreementSignature(draft, {
+      role: "organizer",
+      address: ORGANIZER,
+      signature: "0x",
+      signedAt: now,
+    }),
+  ),
+  "The artist has not signed this agreement yet",
+);
+const agreement = addAgreementSignature(
+  addAgreementSignature(draft, {
+    role: "artist",
+    address: ARTIST,
+    signature: "0x",
+    signedAt: now,
+  }),
+  {
+    role: "organizer",
+    address: ORGANIZER,
+    signature: "0x",
+    signedAt: now + DAY,
+  },
+);
+check("both signatures make it agreed", agreement.agreedAt, now + DAY);
+
+// ---- milestones --------------------------------------------------------------
+
+function booking(statuses: BookingMilestone["status"][]): BookingInquiry {
+  return {
+    ...inquiry,
+    organizerAddress: ORGANIZER,
+    quote,
+    agreement,
+    milestones: quote.milestones.map((m, i) => ({
+      ...m,
+      status: statuses[i],
+      ...(statuses[i] === "escrowed" ? { escrowId: i + 10 } : {}),
+    })),
+  };
+}
+
+check(
+  "status follows the milestones",
+  [
+    bookingStatus({ ...inquiry, quote }),
+    bookingStatus(booking(["due", "due"])),
+    bookingStatus(booking(["escrowed", "due"])),
+    bookingStatus(booking(["escrowed", "escrowed"])),
+  ],
+  ["quoted", "agreed", "deposited", "confirmed"],
+);
+
+check(
+  "the balance waits for the deposit; release waits for the show",
+  [
+    fundingBlocker(booking(["due", "due"]), "balance", now),
+    fundingBlocker(booking(["escrowed", "due"]), "balance", now),
+    releaseBlocker(
+      booking(["escrowed", "escrowed"]),
+      Date.parse("2026-10-31T23:00:00Z"),
+    ),
+    releaseBlocker(
+      booking(["escrowed", "escrowed"]),
+      Date.parse("2026-11-01T09:00:00Z"),
+    ),
+  ],
+  ["Pay the deposit first", null, "Funds release the day after the show", null],
+);
+
+const afterDeposit = Date.parse("2026-09-09T00:00:00Z");
+check(
+  "an unpaid deposit lapses the day after it was due",
+  [
+    quote.milestones[0].dueDate,
+    new Date(depositDeadline(booking(["due", "due"]))!).toISOString(),
+    depositLapsed(booking(["due", "due"]), afterDeposit - 1),
+    depositLapsed(booking(["due", "due"]), afterDeposit),
+    depositLapsed(booking(["escrowed", "due"]), afterDeposit),
+    depositLapsed({ ...inquiry, quote }, afterDeposit),
+    fundingBlocker(booking(["due", "due"]), "deposit", afterDeposit),
+  ],
+  [
+    "2026-09-08",
+    "2026-09-09T00:00:00.000Z",
+    false,
+    true,
+    false,
+    false,
+    "The deposit was due by 2026-09-08",
+  ],
+);
+{
+  const lapsing = booking(["due", "due"]);
+  lapseBooking(lapsing, afterDeposit);
+  check(
+    "a lapsed booking is cancelled with nothing to settle",
+    [
+      bookingStatus(lapsing),
+      lapsing.milestones!.map((m) => m.status),
+      lapsing.cancellation?.lapsed,
+      lapsing.cancellation?.artistKeeps,
+    ],
+    ["cancelled", ["waived", "waived"], true, "nothing"],
+  );
+  check(
+    "only an overdue deposit lapses",
+    thrown(() => lapseBooking(booking(["due", "due"]), now)),
+    "The deposit is not overdue",
+  );
+}
+check(
+  "deposit keeper members split at the first colon",
+  parseDepositMember(`${ARTIST}:1767225600000-abc`),
+  { artist: ARTIST, id: "1767225600000-abc" },
+);
+
+// ---- cancellation --------------------------------------------------------------
+
+check(
+  "refund policy by days before the show",
+  [40, 30, 10, 2, -1].map((d) => artistKeepsFor(quote.refundPolicy, d)),
+  ["nothing", "nothing", "deposit", "everything", "everything"],
+);
+
+const funded = booking(["escrowed", "escrowed"]);
+check(
+  "organizer cancelling 10 days out: deposit released, balance refunded",
+  cancellationTerms(funded, "organizer", Date.parse("2026-10-21T12:00:00Z"))
+    .outcomes,
+  [
+    { kind: "deposit", outcome: "release" },
+    { kind: "balance", outcome: "refund" },
+  ],
+);
+check(
+  "artist cancelling refunds everything, unless the organizer missed a payment",
+  [
+    cancellationTerms(
+      funded,
+      "artist",
+      Date.parse("2026-10-21T12:00:00Z"),
+    ).outcomes.map((o) => o.outcome),
+    cancellationTerms(
+      booking(["escrowed", "due"]),
+      "artist",
+      Date.parse("2026-10-21T12:00:00Z"),
+    ).cancellation,
+  ],
+  [
+    ["refund", "refund"],
+    {
+      by: "artist",
+      at: Date.parse("2026-10-21T12:00:00Z"),
+      artistKeeps: "deposit",
+      organizerDefaulted: true,
+    },
+  ],
+);
+check(
+  "a release is confirm + complete by the artist; a refund is the organizer's",
+  [
+    settlementCalls(funded.milestones![0], "release").map(
+      (c) => `${c.party}:${c.functionName}`,
+    ),
+    settlementCalls(funded.milestones![1], "refund").map(
+      (c) => `${c.party}:${c.functionName}`,
+    ),
+    settlementCalls({ ...funded.milestones![1], status: "due" }, "refund"),
+  ],
+  [
+    ["artist:confirmBooking", "artist:completeBooking"],
+    ["organizer:requestRefund"],
+    [],
+  ],
+);
+
+// ---- calendar ----------------------------------------------------------------
+
+check(
+  "calendar lists upcoming dates in order, bookings and blocks apart",
+  calendarEntries(
+    {
+      "2026-12-01": "blocked",
+      "2026-10-31": "1-abc",
+      "2026-08-01": "old",
+      bad: "x",
+    },
+    "2026-09-01",
+  ),
+  [
+    { date: "2026-10-31", kind: "booked", inquiryId: "1-abc" },
+    { date: "2026-12-01", kind: "blocked" },
+  ],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
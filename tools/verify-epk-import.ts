@@ -0,0 +1,476 @@
+/**
+ * Runs the EPK importers in `lib/epk/import.ts` and `lib/epk/pdf-text.ts` against fixtures.
+ *
+ * Run: `node --experimental-strip-types tools/verify-epk-import.ts`
+ *
+ * Every fixture is built inline — a JSON kit from another tool, a two-page PDF (one page plain,
+ * one deflated), a pasted link list and a Farcaster profile — so nothing here needs the network.
+ * The checks pin where each piece lands in EPKMetadata, that merging never overwrites what the
+ * artist typed, and that validateEPK sees the merged result the editor would publish.
+ */
+
+import { deflateSync } from "zlib";
+import {
+  classifyLink,
+  importFromFarcaster,
+  importFromJSON,
+  importFromLinks,
+  importFromText,
+  mergeImport,
+  outletFromUrl,
+} from "../lib/epk/import.ts";
+import { extractPdfText } from "../lib/epk/pdf-text.ts";
+import { validateEPK } from "../lib/epk/utils.ts";
+import { RIDER_TEMPLATES, riderTemplate } from "../lib/epk/defaults.ts";
+import type { EPKMetadata } from "../lib/epk/types.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+// ---- fixtures ------------------------------------------------------------------
+
+const JSON_KIT = {
+  artistName: "Ana Lux",
+  biography: { long: "Ana Lux is a Lisbon DJ playing deep house and techno." },
+  genres: "Deep House, Techno",
+  basedIn: "Lisbon, Portugal",
+  pressQuotes: [
+    {
+      publication: "Mixmag",
+      headline: "Ones to watch",
+      link: "https://mixmag.net/feature/ones-to-watch",
+      quote: "A name to know.",
+    },
+    { headline: "Quote with no link" },
+  ],
+  videos: ["https://youtu.be/abc123"],
+  images: [{ url: "https://cdn.example.com/ana.jpg" }],
+  links: [
+    "https://x.com/analux",
+    { label: "Website", url: "https://analux.pt" },
+  ],
+  technicalRider: {
+    "Sound System": ["2x CDJ-3000", "DJM-900NXS2"],
+    backline: "- Booth monitors\n- Power at the booth",
+  },
+};
+
+/** A minimal PDF with one content stream per page; the second is FlateDecode. */
+function pdfFixture(): Uint8Array {
+  const page1 = [
+    "BT /F1 18 Tf 72 760 Td (Ana Lux - Press Kit) Tj ET",
+    "BT /F1 11 Tf 72 730 Td (Genre: Deep House, Techno) Tj",
+    "0 -14 Td (Based in Lisbon, Portugal) Tj",
+    "0 -28 Td (Biography) Tj",
+    "0 -14 Td [(Ana Lux plays long, ) -250 (hypnotic sets) ] TJ",
+    "0 -14 Td (across Europe \\(and beyond\\).) Tj",
+    "0 -28 Td (Press) Tj",
+    "0 -14 Td (Resident Advisor: Ana Lux interview https://ra.co/features/123) Tj ET",
+  ].join("\n");
+  const page2 = [
+    "BT /F1 11 Tf 1 0 0 1 72 760 Tm (Technical Rider) Tj",
+    "1 0 0 1 72 746 Tm (Stage) Tj",
+    "1 0 0 1 72 732 Tm (\\225 4m x 3m DJ riser) Tj",
+    "1 0 0 1 72 718 Tm (Catering:) Tj",
+    "1 0 0 1 72 704 Tm (- Vegan meal for 2) Tj ET",
+  ].join("\n");
+
+  const chunks: (string | Uint8Array)[] = ["%PDF-1.4\n"];
+  chunks.push(
+    `4 0 obj\n<< /Length ${page1.length} >>\nstream\n${page1}\nendstream\nendobj\n`,
+  );
+  const deflated = deflateSync(Buffer.from(page2, "latin1"));
+  chunks.push(
+    `5 0 obj\n<< /Length ${deflated.length} /Filter /FlateDecode >>\nstream\n`,
+    deflated,
+    "\nendstream\nendobj\n",
+  );
+  chunks.push(
+    "6 0 obj\n<< /Type /XObject /Subtype /Image /Length 4 >>\nstream\n(x) Tj\nendstream\nendobj\n",
+  );
+  chunks.push("trailer\n<< /Root 1 0 R >>\n%%EOF\n");
+  return Buffer.concat(
+    chunks.map((c) =>
+      typeof c === "string" ? Buffer.from(c, "latin1") : Buffer.from(c),
+    ),
+  );
+}
+
+/** A PDF whose FlateDecode streams each inflate to `sizes[i]` bytes of readable text. */
+function inflatingPdf(sizes: number[]): Uint8Array {
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")];
+  sizes.forEach((size, i) => {
+    const content = Buffer.alloc(size, " ");
+    content.write("BT (Readable) Tj ET", "latin1");
+    const deflated = deflateSync(content);
+    chunks.push(
+      Buffer.from(
+        `${i + 4} 0 obj\n<< /Length ${deflated.length} /Filter /FlateDecode >>\nstream\n`,
+        "latin1",
+      ),
+      deflated,
+      Buffer.from("\nendstream\nendobj\n", "latin1"),
+    );
+  });
+  return Buffer.concat(chunks);
+}
+
+const LINK_LIST = `
+Money Making Machine - https://rumble.com/v6zssqs-money-making-machine.html
+https://warpcast.com/analux
+DJ Mag: Lisbon's finest | https://djmag.com/news/lisbon
+https://open.spotify.com/artist/xyz
+not a link at all
+`;
+
+// ---- links ---------------------------------------------------------------------
+
+check(
+  "links are sorted by where they go",
+  [
+    classifyLink("https://www.youtube.com/watch?v=1"),
+    classifyLink("https://x.com/@analux/status/1"),
+    classifyLink("https://analux.pt", "Official website"),
+    classifyLink("https://analux.pt/press.png"),
+    classifyLink("https://mixmag.net/a"),
+  ],
+  [
+    { kind: "video", platform: "youtube" },
+    { kind: "social", key: "twitter", value: "analux" },
+    { kind: "social", key: "website", value: "https://analux.pt/" },
+    { kind: "photo" },
+    { kind: "press" },
+  ],
+);
+check(
+  "outlet names come from the host",
+  [
+    outletFromUrl("https://www.mixmag.net/x"),
+    outletFromUrl("https://ra.co/features/1"),
+  ],
+  ["Mixmag", "RA"],
+);
+
+// ---- JSON ----------------------------------------------------------------------
+
+const fromJson = importFromJSON(JSON_KIT);
+check("JSON: artist fields under their other names", fromJson.draft.artist, {
+  name: "Ana Lux",
+  bio: "Ana Lux is a Lisbon DJ playing deep house and techno.",
+  genre: ["Deep House", "Techno"],
+  location: "Lisbon, Portugal",
+});
+check(
+  "JSON: press mapped, the one without a link reported",
+  {
+    press: fromJson.draft.press,
+    warnings: fromJson.warnings,
+  },
+  {
+    press: [
+      {
+        outlet: "Mixmag",
+        title: "Ones to watch",
+        url: "https://mixmag.net/feature/ones-to-watch",
+        date: "",
+        excerpt: "A name to know.",
+      },
+    ],
+    warnings: ['Press item without a link skipped: "Quote with no link"'],
+  },
+);
+check(
+  "JSON: media, socials and rider sections",
+  [fromJson.draft.media, fromJson.draft.socials, fromJson.draft.technicalRider],
+  [
+    {
+      videos: [
+        { title: "Video", url: "https://youtu.be/abc123", platform: "youtube" },
+      ],
+      photos: ["https://cdn.example.com/ana.jpg"],
+    },
+    { twitter: "analux", website: "https://analux.pt/" },
+    {
+      sound: { title: "Sound System", items: ["2x CDJ-3000", "DJM-900NXS2"] },
+      backline: {
+        title: "Backline",
+        items: ["Booth monitors", "Power at the booth"],
+      },
+    },
+  ],
+);
+check("JSON: found list", fromJson.found, [
+  "name",
+  "bio",
+  "genres",
+  "location",
+  "1 press article",
+  "1 video",
+  "1 photo",
+  "socials (twitter, website)",
+  "2 rider sections",
+]);
+check(
+  "JSON: our own export round-trips",
+  importFromJSON({
+    artist: { name: "Ana", bio: "Bio", genre: ["House"], location: "Lisbon" },
+    press: [
+      {
+        outlet: "RA",
+        title: "T",
+        url: "https://ra.co/1",
+        date: "2024-01-01",
+        excerpt: "",
+      },
+    ],
+  }).draft,
+  {
+    artist: { name: "Ana", bio: "Bio", genre: ["House"], location: "Lisbon" },
+    press: [
+      {
+        outlet: "RA",
+        title: "T",
+        url: "https://ra.co/1",
+        date: "2024-01-01",
+        excerpt: "",
+      },
+    ],
+  },
+);
+check("JSON: not an object", importFromJSON([1, 2]).warnings, [
+  "The file is not a press kit object",
+]);
+
+// ---- PDF -----------------------------------------------------------------------
+
+const pdfText = extractPdfText(pdfFixture());
+check(
+  "PDF: text by line, escapes, kerning gaps and WinAnsi bullets read, images skipped",
+  pdfText.split("\n"),
+  [
+    "Ana Lux - Press Kit",
+    "Genre: Deep House, Techno",
+    "Based in Lisbon, Portugal",
+    "Biography",
+    "Ana Lux plays long, hypnotic sets",
+    "across Europe (and beyond).",
+    "Press",
+    "Resident Advisor: Ana Lux interview https://ra.co/features/123",
+    "Technical Rider",
+    "Stage",
+    "• 4m x 3m DJ riser",
+    "Catering:",
+    "- Vegan meal for 2",
+  ],
+);
+
+const MB = 1024 * 1024;
+check(
+  "PDF: inflating is capped per stream and across the file; over the cap reads as unreadable",
+  [
+    extractPdfText(inflatingPdf([3 * MB, 3 * MB])),
+    extractPdfText(inflatingPdf([5 * MB])),
+    extractPdfText(inflatingPdf([3 * MB, 3 * MB, 3 * MB])),
+  ],
+  ["Readable\nReadable", "", ""],
+);
+
+const fromPdf = importFromText(pdfText);
+check("PDF: headed sections land in the EPK", fromPdf.draft, {
+  artist: {
+    name: "Ana Lux",
+    bio: "Ana Lux plays long, hypnotic sets across Europe (and beyond).",
+    genre: ["Deep House", "Techno"],
+    location: "Lisbon, Portugal",
+  },
+  press: [
+    {
+      outlet: "Resident Advisor",
+      title: "Ana Lux interview",
+      url: "https://ra.co/features/123",
+      date: "",
+      excerpt: "",
+    },
+  ],
+  technicalRider: {
+    stage: { title: "Stage Requirements", items: ["4m x 3m DJ riser"] },
+  },
+  hospitalityRider: {
+    catering: { title: "Catering", items: ["Vegan meal for 2"] },
+  },
+});
+check(
+  "PDF: no text at all",
+  extractPdfText(Buffer.from("%PDF-1.4\n%%EOF")),
+  "",
+);
+check(
+  "text: missing name and bio are reported",
+  importFromText("Stage\n- Riser").warnings,
+  [
+    "Could not find the artist name",
+    'No section headed "Bio" or "About" was found',
+  ],
+);
+
+// ---- link list and Farcaster ---------------------------------------------------
+
+const fromLinks = importFromLinks(LINK_LIST);
+check(
+  "links: one per line, titled by the text beside them",
+  [
+    fromLinks.draft.media?.videos,
+    fromLinks.draft.press,
+    fromLinks.draft.socials,
+    fromLinks.warnings,
+  ],
+  [
+    [
+      {
+        title: "Money Making Machine",
+        url: "https://rumble.com/v6zssqs-money-making-machine.html",
+        platform: "rumble",
+      },
+    ],
+    [
+      {
+        outlet: "DJ Mag",
+        title: "Lisbon's finest",
+        url: "https://djmag.com/news/lisbon",
+        date: "",
+        excerpt: "",
+      },
+    ],
+    { farcaster: "analux", spotify: "https://open.spotify.com/artist/xyz" },
+    ["Line 6 has no link"],
+  ],
+);
+
+const fromFarcaster = importFromFarcaster({
+  fid: 4242,
+  username: "analux",
+  displayName: "Ana Lux",
+  bio: "DJ from Lisbon. New mix: https://soundcloud.com/analux/mix-1",
+  pfpUrl: "https://i.imgur.com/ana.png",
+  location: "Lisbon, Portugal",
+  twitter: "@analux",
+});
+check(
+  "farcaster: profile fields, links in the bio filed, short bio flagged",
+  [
+    fromFarcaster.draft.artist,
+    fromFarcaster.draft.socials,
+    fromFarcaster.warnings.length,
+  ],
+  [
+    {
+      name: "Ana Lux",
+      bio: "DJ from Lisbon. New mix:",
+      location: "Lisbon, Portugal",
+      profileImage: "https://i.imgur.com/ana.png",
+      farcasterFid: 4242,
+    },
+    {
+      farcaster: "analux",
+      twitter: "analux",
+      soundcloud: "https://soundcloud.com/analux/mix-1",
+    },
+    1,
+  ],
+);
+
+// ---- merge and validation --------------------------------------------------------
+
+const form = {
+  artist: {
+    name: "Ana Lux (typed)",
+    slug: "",
+    bio: "",
+    genre: [],
+    location: "Porto",
+  },
+  media: { videos: [], photos: [] },
+  press: [{ outlet: "", title: "", url: "", date: "", excerpt: "" }],
+  socials: {},
+  technicalRider: {
+    stage: { title: "Stage Requirements", items: ["Typed riser"] },
+  },
+} as unknown as Partial<EPKMetadata>;
+
+let merged = mergeImport(form, fromPdf.draft);
+merged = mergeImport(merged, fromLinks.draft);
+check(
+  "merge: typed fields kept, blanks filled",
+  [merged.artist?.name, merged.artist?.location, merged.artist?.genre],
+  ["Ana Lux (typed)", "Porto", ["Deep House", "Techno"]],
+);
+check(
+  "merge: empty press rows dropped, lists appended without duplicates",
+  [
+    merged.press?.map((a) => a.outlet),
+    mergeImport(merged, fromLinks.draft).press?.length,
+    merged.media?.videos.length,
+  ],
+  [["Resident Advisor", "DJ Mag"], 2, 1],
+);
+check(
+  "merge: a rider section the artist filled is not replaced",
+  merged.technicalRider?.stage.items,
+  ["Typed riser"],
+);
+check(
+  "validation: the import alone vs the merged form",
+  [
+    validateEPK(fromLinks.draft as Partial<EPKMetadata>).errors,
+    validateEPK(merged).valid,
+  ],
+  [
+    [
+      "Artist name is required",
+      "Artist bio is required",
+      "At least one genre is required",
+      "Location is required",
+    ],
+    true,
+  ],
+);
+
+// ---- rider templates -------------------------------------------------------------
+
+check(
+  "templates: solo DJ, full band, acoustic",
+  RIDER_TEMPLATES.map((t) => t.id),
+  ["solo-dj", "full-band", "acoustic"],
+);
+check(
+  "templates: every section filled in, acoustic leaves video empty",
+  RIDER_TEMPLATES.map((t) =>
+    [...Object.values(t.technicalRider), ...Object.values(t.hospitalityRider)]
+      .filter((s) => s.items.length === 0)
+      .map((s) => s.title),
+  ),
+  [["Video / LED"], [], ["Video / LED"]],
+);
+const copy = riderTemplate("full-band");
+copy.technicalRider.stage.items.push("edited");
+check(
+  "templates: a copy does not change the template",
+  RIDER_TEMPLATES[1].technicalRider.stage.items.includes("edited"),
+  false,
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,164 @@
+/**
+ * Checks the version list, diffs and publish guards in `lib/epk/versions.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-epk-versions.ts`
+ *
+ * History is the artist's way back after a bad edit, so these pin that every publish shows up
+ * once (whether the indexer saw it or not), that a diff names the exact fields that moved, and
+ * that a stale draft cannot quietly replace a newer publish.
+ */
+
+import {
+  changedSections,
+  diffEPK,
+  mergeVersions,
+  publishConflict,
+  rollbackBlocker,
+} from "../lib/epk/versions.ts";
+import type { EPKMetadata } from "../lib/epk/types.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const T = 1_790_000_000; // seconds
+
+// ---- version list ------------------------------------------------------------
+
+const versions = mergeVersions(
+  [
+    { ipfsCid: "Qm1", blockTimestamp: T },
+    { ipfsCid: "Qm2", blockTimestamp: T + 86_400 },
+    { ipfsCid: "Qm1", blockTimestamp: T + 2 * 86_400 },
+  ],
+  [
+    {
+      cid: "Qm3",
+      publishedAt: (T + 3 * 86_400) * 1000,
+      source: "publish",
+      txHash: null,
+    },
+    {
+      cid: "Qm1",
+      publishedAt: (T + 2 * 86_400 + 30) * 1000,
+      source: "rollback",
+      txHash: "0xabc",
+    },
+  ],
+);
+
+check(
+  "events and records merge into one list, newest first",
+  versions.map((v) => [v.number, v.cid, v.source, v.onChain]),
+  [
+    [4, "Qm3", "publish", false],
+    [3, "Qm1", "rollback", true],
+    [2, "Qm2", "publish", true],
+    [1, "Qm1", "publish", true],
+  ],
+);
+check("a matched record lends its tx hash", versions[1].txHash, "0xabc");
+
+check(
+  "rollback only to an earlier version of this EPK",
+  [
+    rollbackBlocker(versions, "Qm2"),
+    rollbackBlocker(versions, "Qm3"),
+    rollbackBlocker(versions, "QmOther"),
+  ],
+  [
+    null,
+    "That version is already live",
+    "That CID is not a version of this EPK",
+  ],
+);
+
+// ---- publish guard -------------------------------------------------------------
+
+check(
+  "a draft started from an older CID is refused; no base means no check",
+  [
+    publishConflict("Qm2", "Qm2"),
+    publishConflict(undefined, "Qm2") === null,
+    publishConflict("Qm1", "Qm2") !== null,
+    publishConflict(null, "Qm2") !== null,
+  ],
+  [null, true, true, true],
+);
+
+// ---- diff ----------------------------------------------------------------------
+
+const before = {
+  version: "1.0.0",
+  artist: {
+    name: "Ana",
+    slug: "ana",
+    bio: "Old bio",
+    genre: ["house"],
+    location: "Lisbon",
+  },
+  press: [{ outlet: "Mixmag", title: "One", url: "u", date: "", excerpt: "" }],
+  technicalRider: { stage: { title: "Stage", items: ["6x4m"] } },
+  onChain: { ipfsCid: "Qm1" },
+} as unknown as EPKMetadata;
+
+const after = {
+  ...before,
+  artist: { ...before.artist, bio: "New bio", genre: ["house", "techno"] },
+  press: [
+    ...before.press,
+    { outlet: "DJ Mag", title: "Two", url: "v", date: "", excerpt: "" },
+  ],
+  technicalRider: { stage: { title: "Stage", items: [] } },
+  onChain: { ipfsCid: "Qm2" },
+} as unknown as EPKMetadata;
+
+const changes = diffEPK(before, after);
+check(
+  "field-level changes, with string lists compared whole and onChain ignored",
+  changes.map((c) => [c.path, c.kind]),
+  [
+    ["artist.bio", "changed"],
+    ["artist.genre", "changed"],
+    ["press[1].outlet", "added"],
+    ["press[1].title", "added"],
+    ["press[1].url", "added"],
+    ["technicalRider.stage.items", "changed"],
+  ],
+);
+check("a change carries both values", changes[0], {
+  path: "artist.bio",
+  kind: "changed",
+  before: "Old bio",
+  after: "New bio",
+});
+check(
+  "removals are listed",
+  diffEPK(after, before).filter((c) => c.kind === "removed").length,
+  3,
+);
+check("sections touched", changedSections(changes), [
+  "artist",
+  "press",
+  "technicalRider",
+]);
+check(
+  "identical versions have no diff",
+  diffEPK(before, structuredClone(before)),
+  [],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,520 @@
+/**
+ * Walks guide bookings through `lib/guide-booking.ts` — slots, quotes, escrow, the auto-complete
+ * timer, disputes and reviews — and checks guide search in `lib/guide-search.ts`. No chain, no
+ * Redis beyond a small fake.
+ *
+ * Run: `node --experimental-strip-types tools/verify-guide-booking.ts`
+ */
+
+import {
+  GUIDE_BOOKING_KEYS,
+  GuideBookingError,
+  HOUR_MS,
+  buildReview,
+  cancelBlocker,
+  chainRating,
+  completionBlocker,
+  declineBooking,
+  dueAutoCompletions,
+  guideBookingStatus,
+  holdSlot,
+  markComplete,
+  normalizeEvidence,
+  openGuideDispute,
+  openSlots,
+  parseSlots,
+  paymentBlocker,
+  quoteBooking,
+  recordCompletion,
+  recordEscrow,
+  recordPaymentFailed,
+  recordPaymentSent,
+  refundPending,
+  releaseSlot,
+  replyToReview,
+  requestBooking,
+  resolveGuideDispute,
+  respondToGuideDispute,
+  reviewSummary,
+  saveGuideBooking,
+  type GuideBooking,
+} from "../lib/guide-booking.ts";
+import {
+  parseGuideSearch,
+  parseLanguages,
+  searchGuides,
+  toListing,
+} from "../lib/guide-search.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function throws(name: string, fn: () => unknown, message: RegExp) {
+  checks++;
+  try {
+    fn();
+    failures.push(`${name}\n     expected a throw matching ${message}`);
+  } catch (err: any) {
+    if (!(err instanceof GuideBookingError) || !message.test(err.message)) {
+      failures.push(`${name}\n     threw ${err?.message}`);
+    }
+  }
+}
+
+const NOW = Date.UTC(2026, 9, 19, 12);
+const GUIDE = "0x9a1de";
+const TRAVELER = "0x7ea7e1";
+const RATE = 10n ** 19n; // 10 WMON an hour
+const PROOF = "bafybeigdyrzt5sfp7udm7hu76uh7y26nf3efuylqabf3oclgtqy55fbzdi";
+const iso = (hoursFromNow: number) =>
+  new Date(NOW + hoursFromNow * HOUR_MS).toISOString();
+
+// ---- slots ----
+const [slot] = parseSlots([{ start: iso(24), end: iso(28) }], 77, [], NOW);
+check(
+  "slot: id and bounds",
+  [slot.id, slot.end - slot.start],
+  [slot.id, 4 * HOUR_MS],
+);
+throws(
+  "slot: overlap with an existing one",
+  () => parseSlots([{ start: iso(27), end: iso(30) }], 77, [slot], NOW),
+  /overlap/,
+);
+throws(
+  "slot: whole hours only",
+  () => parseSlots([{ start: iso(48), end: iso(49.5) }], 77, [], NOW),
+  /whole hours/,
+);
+throws(
+  "slot: not in the past",
+  () => parseSlots([{ start: iso(-2), end: iso(-1) }], 77, [], NOW),
+  /future/,
+);
+check(
+  "slot: held slots are not open",
+  openSlots([slot], { [slot.id]: "GB-9" }, NOW),
+  [],
+);
+
+// ---- request and quote ----
+const fresh = (id = "GB-1"): GuideBooking =>
+  requestBooking({
+    id,
+    slot,
+    guideAddress: GUIDE,
+    travelerFid: 5,
+    traveler: TRAVELER.toUpperCase().replace("0X", "0x"),
+    hours: 3,
+    note: "  Street food please ",
+    now: NOW,
+  });
+const b = fresh();
+check(
+  "request: lowercased, trimmed, requested",
+  [b.traveler, b.note, b.status],
+  [TRAVELER, "Street food please", "requested"],
+);
+throws(
+  "request: more hours than the slot",
+  () =>
+    requestBooking({
+      id: "GB-x",
+      slot,
+      guideAddress: GUIDE,
+      travelerFid: 5,
+      traveler: TRAVELER,
+      hours: 5,
+      now: NOW,
+    }),
+  /hours must be 1-4/,
+);
+throws(
+  "request: guide cannot book themselves",
+  () =>
+    requestBooking({
+      id: "GB-x",
+      slot,
+      guideAddress: GUIDE,
+      travelerFid: 5,
+      traveler: GUIDE,
+      hours: 1,
+      now: NOW,
+    }),
+  /themselves/,
+);
+
+const quote = quoteBooking(b, { hourlyRateWei: RATE, hours: 2 }, NOW);
+check(
+  "quote: hours × on-chain rate",
+  [quote.totalWei, b.status],
+  [(2n * RATE).toString(), "quoted"],
+);
+check(
+  "quote: expires after 48h, or at the slot if sooner",
+  quote.expiresAt,
+  slot.start,
+);
+check(
+  "quote: expired once the slot starts",
+  guideBookingStatus(b, slot.start),
+  "expired",
+);
+check(
+  "pay: refused when the rate moved",
+  paymentBlocker(b, RATE + 1n, NOW),
+  "The guide's rate has changed since the quote; ask for a new one",
+);
+check("pay: allowed at the quoted rate", paymentBlocker(b, RATE, NOW), null);
+
+const declined = fresh("GB-2");
+declineBooking(declined, "Fully booked", NOW);
+check(
+  "decline",
+  [declined.status, declined.declined?.reason],
+  ["declined", "Fully booked"],
+);
+throws(
+  "decline: no quoting after",
+  () => quoteBooking(declined, { hourlyRateWei: RATE }, NOW),
+  /declined/,
+);
+
+// ---- escrow and completion ----
+recordPaymentSent(b, "0xpay", NOW);
+check(
+  "pay: a sent payment holds the booking until its receipt is read",
+  [b.status, paymentBlocker(b, RATE, NOW), cancelBlocker(b, "traveler", NOW)],
+  ["paying", "This booking is paying", "This booking is paying"],
+);
+check(
+  "pay: a sent payment does not expire with the quote",
+  guideBookingStatus(b, slot.start),
+  "paying",
+);
+recordPaymentFailed(b, NOW);
+check(
+  "pay: a payment that booked nothing leaves the quote payable",
+  [b.status, paymentBlocker(b, RATE, NOW)],
+  ["quoted", null],
+);
+recordPaymentSent(b, "0xpay", NOW);
+recordEscrow(b, { bookingId: 41, txHash: "0xpay" }, NOW);
+check(
+  "escrow: booked for the quoted hours",
+  [b.status, b.hours, b.payment],
+  ["booked", 2, undefined],
+);
+check(
+  "cancel: either party before the tour",
+  cancelBlocker(b, "guide", NOW),
+  null,
+);
+check(
+  "cancel: traveler is sent to disputes after the start",
+  cancelBlocker(b, "traveler", slot.start),
+  "The tour has started; open a dispute instead",
+);
+check(
+  "complete: not before the tour",
+  completionBlocker(b, PROOF, NOW),
+  "The tour has not started yet",
+);
+const during = slot.start + HOUR_MS;
+check(
+  "complete: proof must be a CID",
+  completionBlocker(b, "photo.jpg", during),
+  "proofIPFS must be an IPFS CID",
+);
+markComplete(
+  b,
+  { proofIPFS: PROOF, txHash: "0xmark", autoCompletePeriodMs: 72 * HOUR_MS },
+  during,
+);
+check(
+  "complete: timer set",
+  [b.status, b.completion!.autoCompleteAt],
+  ["marked_complete", during + 72 * HOUR_MS],
+);
+check(
+  "timer: not due early",
+  dueAutoCompletions([b], during + 71 * HOUR_MS).length,
+  0,
+);
+check(
+  "timer: due after the period",
+  dueAutoCompletions([b], during + 72 * HOUR_MS).map((x) => x.id),
+  ["GB-1"],
+);
+
+// ---- disputes ----
+const disputed: GuideBooking = JSON.parse(JSON.stringify(b));
+const dAt = during + 10 * HOUR_MS;
+openGuideDispute(
+  disputed,
+  {
+    party: "traveler",
+    statement: "Guide left after 20 minutes",
+    evidence: [{ cid: PROOF, description: "Timestamped photo" }],
+  },
+  dAt,
+);
+check(
+  "dispute: stops the timer",
+  [
+    disputed.status,
+    dueAutoCompletions([disputed], during + 100 * HOUR_MS).length,
+  ],
+  ["disputed", 0],
+);
+check(
+  "dispute: uploaded proof becomes ipfs://",
+  disputed.dispute!.evidence[0].url,
+  `ipfs://${PROOF}`,
+);
+throws(
+  "dispute: only one per booking",
+  () =>
+    openGuideDispute(
+      disputed,
+      { party: "guide", statement: "No", evidence: [] },
+      dAt,
+    ),
+  /already been disputed/,
+);
+throws(
+  "dispute: evidence must be a link or CID",
+  () => normalizeEvidence([{ url: "javascript:alert(1)" }], "guide", dAt),
+  /IPFS CID or an https/,
+);
+throws(
+  "respond: not by the opener",
+  () =>
+    respondToGuideDispute(
+      disputed,
+      { party: "traveler", statement: "Again", evidence: [] },
+      dAt,
+    ),
+  /other party/,
+);
+respondToGuideDispute(
+  disputed,
+  {
+    party: "guide",
+    statement: "We walked the full route",
+    evidence: [{ url: "https://example.com/route.gpx", description: "GPS" }],
+  },
+  dAt + HOUR_MS,
+);
+check(
+  "respond: evidence from both sides",
+  disputed.dispute!.evidence.map((e) => e.addedBy),
+  ["traveler", "guide"],
+);
+
+const released: GuideBooking = JSON.parse(JSON.stringify(disputed));
+const decidedAt = during + 200 * HOUR_MS;
+resolveGuideDispute(
+  released,
+  { outcome: "release", reason: "Route confirmed", admin: "0xADMIN" },
+  decidedAt,
+);
+check(
+  "release: timer restarts, never before it was due",
+  [released.status, released.completion!.autoCompleteAt],
+  ["marked_complete", decidedAt],
+);
+const refunded: GuideBooking = JSON.parse(JSON.stringify(disputed));
+resolveGuideDispute(
+  refunded,
+  { outcome: "refund", reason: "No-show", admin: "0xADMIN" },
+  decidedAt,
+);
+check(
+  "refund: waits on the registry cancellation",
+  [refunded.status, refundPending(refunded)],
+  ["disputed", true],
+);
+
+// ---- reviews ----
+throws(
+  "review: stars 1-5",
+  () => buildReview(b, { rating: 6, text: "" }, during),
+  /1-5/,
+);
+const review = buildReview(b, { rating: 4, text: " Great tacos " }, during);
+check(
+  "review: on-chain rating",
+  [review.text, chainRating(review.rating)],
+  ["Great tacos", 400],
+);
+recordCompletion(b, "traveler", "0xconfirm", during);
+check(
+  "confirm: completed, timer gone",
+  [b.status, dueAutoCompletions([b], during + 100 * HOUR_MS).length],
+  ["completed", 0],
+);
+replyToReview(review, "Thanks!", during);
+throws(
+  "review: one reply",
+  () => replyToReview(review, "Again", during),
+  /Already/,
+);
+check(
+  "review summary",
+  reviewSummary([review, { ...review, rating: 5 }, { ...review, rating: 5 }]),
+  { count: 3, averageRating: 4.67 },
+);
+
+// ---- redis ----
+{
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const sets = new Map<string, Set<string>>();
+  const fake = {
+    set: async (k: string, v: string) => void strings.set(k, v),
+    hsetnx: async (k: string, f: string, v: string) => {
+      const h = hashes.get(k) || {};
+      if (f in h) return 0;
+      hashes.set(k, { ...h, [f]: v });
+      return 1;
+    },
+    hget: async (k: string, f: string) => hashes.get(k)?.[f] ?? null,
+    hdel: async (k: string, f: string) => {
+      const h = { ...hashes.get(k) };
+      delete h[f];
+      hashes.set(k, h);
+    },
+    zadd: async (k: string, m: { score: number; member: string }) =>
+      void zsets.set(k, (zsets.get(k) || new Map()).set(m.member, m.score)),
+    zrem: async (k: string, m: string) => void zsets.get(k)?.delete(m),
+    sadd: async (k: string, m: string) =>
+      void sets.set(k, (sets.get(k) || new Set()).add(m)),
+    srem: async (k: string, m: string) => void sets.get(k)?.delete(m),
+  };
+  const redis = fake as any;
+
+  const first = fresh("GB-10");
+  const second = fresh("GB-11");
+  check(
+    "hold: first payer takes the slot",
+    [await holdSlot(redis, first), await holdSlot(redis, second)],
+    ["GB-10", "GB-10"],
+  );
+  await releaseSlot(redis, second);
+  check(
+    "hold: only the holder releases",
+    await holdSlot(redis, second),
+    "GB-10",
+  );
+
+  await saveGuideBooking(redis, disputed, dAt);
+  check(
+    "save: disputed is indexed, off the timer",
+    [
+      sets.get(GUIDE_BOOKING_KEYS.openDisputes)?.has(disputed.id),
+      zsets.get(GUIDE_BOOKING_KEYS.autoComplete)?.has(disputed.id) ?? false,
+    ],
+    [true, false],
+  );
+  await saveGuideBooking(redis, released, decidedAt);
+  check(
+    "save: released goes back on the timer",
+    [
+      sets.get(GUIDE_BOOKING_KEYS.openDisputes)?.has(released.id),
+      zsets.get(GUIDE_BOOKING_KEYS.autoComplete)?.get(released.id),
+    ],
+    [false, decidedAt],
+  );
+}
+
+// ---- search ----
+const listings = [
+  {
+    guideFid: "1",
+    guideAddress: "0xONE",
+    countries: ["Japan", "Korea"],
+    languages: "English, 日本語",
+    hourlyRateWMON: (20n * 10n ** 18n).toString(),
+    averageRating: "500",
+    ratingCount: 1,
+    completedBookings: 1,
+    username: "kyoto",
+  },
+  {
+    guideFid: "2",
+    guideAddress: "0xTWO",
+    countries: ["japan"],
+    languages: "english / Spanish",
+    hourlyRateWMON: (12n * 10n ** 18n).toString(),
+    averageRating: "460",
+    ratingCount: 40,
+    completedBookings: 55,
+  },
+  {
+    guideFid: "3",
+    guideAddress: "0xTHREE",
+    countries: ["Mexico"],
+    languages: "Spanish",
+    hourlyRateWMON: (8n * 10n ** 18n).toString(),
+    averageRating: "0",
+    ratingCount: 0,
+    completedBookings: 0,
+  },
+].map(toListing);
+
+check(
+  "languages: free text split",
+  parseLanguages("English, Spanish / Català"),
+  ["english", "spanish", "català"],
+);
+check(
+  "listing: rating in stars, none before the first",
+  [
+    listings[0].averageRating,
+    listings[2].averageRating,
+    listings[0].hourlyRateWMON,
+  ],
+  [5, null, "20"],
+);
+const search = (qs: string) =>
+  searchGuides(listings, parseGuideSearch(new URLSearchParams(qs))).guides.map(
+    (g) => g.guideFid,
+  );
+check(
+  "search: country, case-insensitive; damped rating rank",
+  search("country=JAPAN"),
+  [2, 1],
+);
+check("search: language", search("language=spanish&sort=price"), [3, 2]);
+check("search: price band", search("minRate=10&maxRate=15"), [2]);
+check(
+  "search: minRating skips unrated",
+  search("minRating=4.5&sort=price_desc"),
+  [1, 2],
+);
+check("search: experience", search("sort=experience&limit=1"), [2]);
+checks++;
+try {
+  parseGuideSearch(new URLSearchParams("maxRate=lots"));
+  failures.push("search: bad rate\n     expected a throw");
+} catch (err: any) {
+  if (err.status !== 400)
+    failures.push(`search: bad rate\n     threw ${err.message}`);
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,366 @@
+/**
+ * Replays synthetic heartbeat logs through `lib/listener-risk.ts` and pins the outcome.
+ *
+ * Run: `node --experimental-strip-types tools/verify-listener-risk.ts`
+ *
+ * The scorer decides who is paid, so both of its failure directions cost real money: a farm
+ * that scores "clear" splits the pools with everyone else, and an honest listener who scores
+ * "quarantine" is not paid at all. The logs below cover the behaviours it was built for and the
+ * innocent ones that look like them — a venue on one IP, a household on one network, a listener
+ * who reconnects.
+ *
+ * Every log is generated from a seeded PRNG, written out as JSONL and parsed back, so the checks
+ * go through the same path as `tools/replay-heartbeat-log.ts` and run the same way every time.
+ */
+
+import {
+  RISK_KEYS,
+  RISK_THRESHOLDS,
+  assessRisk,
+  loadExcludedListeners,
+  loadReviewQueue,
+  loadRiskStandings,
+  networkOf,
+  parseHeartbeatLog,
+  recordHeartbeat,
+  recordRiskReview,
+  replayHeartbeatLog,
+  rescoreListener,
+  reviewStillApplies,
+  riskStanding,
+  type HeartbeatEvent,
+  type ListenerRiskRecord,
+  type RiskRedis,
+} from "../lib/listener-risk.ts";
+import { computeListenerPoints, computeTotalPoints } from "../lib/listener-points.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+// ---------------------------------------------------------------------------
+// Log generation
+// ---------------------------------------------------------------------------
+
+/** mulberry32 — small, seeded, good enough for jitter. */
+function prng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const T0 = Date.UTC(2026, 9, 1, 12);
+const SONG_SECONDS = 180;
+const MIN = 60_000;
+
+/** The song playing at `at`, on a station that plays back-to-back three-minute tracks. */
+function songAt(at: number) {
+  const index = Math.floor((at - T0) / (SONG_SECONDS * 1000));
+  return { id: `song-${index}`, duration: SONG_SECONDS };
+}
+
+/** A browser tab: one beat every 30s plus a little network jitter, credited once per song. */
+function tab(opts: {
+  address: string;
+  ip: string;
+  session: string;
+  from: number;
+  minutes: number;
+  offsetMs?: number;
+  seed: number;
+}): HeartbeatEvent[] {
+  const random = prng(opts.seed);
+  const events: HeartbeatEvent[] = [];
+  for (let t = opts.from + (opts.offsetMs || 0); t < opts.from + opts.minutes * MIN; t += 30_000) {
+    const at = t + Math.floor(random() * 1500);
+    const song = songAt(at);
+    events.push({
+      address: opts.address,
+      at,
+      ip: opts.ip,
+      session: opts.session,
+      stationId: "main",
+      songId: song.id,
+      songDuration: song.duration,
+      credited: false,
+    });
+  }
+  return events;
+}
+
+/** A script: one beat a second into each song, a fresh session every `rotate` songs. */
+function script(opts: { address: string; ip: string; songs: number; rotate: number }): HeartbeatEvent[] {
+  return Array.from({ length: opts.songs }, (_, i) => {
+    const at = T0 + i * SONG_SECONDS * 1000 + 1000;
+    return {
+      address: opts.address,
+      at,
+      ip: opts.ip,
+      session: `${opts.address}-s${Math.floor(i / opts.rotate)}`,
+      stationId: "main",
+      songId: songAt(at).id,
+      songDuration: SONG_SECONDS,
+      credited: false,
+    };
+  });
+}
+
+/** What the heartbeat route does: the first beat of each song on an address credits it. */
+function markCredits(events: HeartbeatEvent[]): HeartbeatEvent[] {
+  const seen = new Set<string>();
+  return [...events]
+    .sort((a, b) => a.at - b.at)
+    .map((e) => {
+      const key = `${e.address}:${e.songId}`;
+      const credited = !!e.songId && !seen.has(key);
+      seen.add(key);
+      return { ...e, credited };
+    });
+}
+
+/** Out to JSONL and back, as a recorded log would arrive. */
+function recorded(events: HeartbeatEvent[]): HeartbeatEvent[] {
+  return parseHeartbeatLog(markCredits(events).map((e) => JSON.stringify(e)).join("\n"));
+}
+
+const addr = (n: number) => `0x${n.toString(16).padStart(40, "0")}`;
+
+// ---------------------------------------------------------------------------
+// Scenarios
+// ---------------------------------------------------------------------------
+
+const honest = addr(1);
+const tabs = addr(2);
+const scripted = addr(3);
+const farm = Array.from({ length: 12 }, (_, i) => addr(100 + i));
+const venue = Array.from({ length: 12 }, (_, i) => addr(200 + i));
+const household = [addr(300), addr(301), addr(302)];
+
+const log = recorded([
+  ...tab({ address: honest, ip: "198.51.100.7", session: "h", from: T0, minutes: 120, seed: 1 }),
+  // A reconnect: the old tab's last beat and the new session's first overlap.
+  ...tab({ address: honest, ip: "198.51.100.7", session: "h2", from: T0 + 121 * MIN, minutes: 60, seed: 2 }),
+  ...[0, 1, 2, 3].flatMap((i) =>
+    tab({ address: tabs, ip: "192.0.2.44", session: `t${i}`, from: T0, minutes: 120, offsetMs: i * 7500, seed: 10 + i }),
+  ),
+  ...script({ address: scripted, ip: "203.0.113.9", songs: 480, rotate: 3 }),
+  ...farm.flatMap((a) => script({ address: a, ip: "100.64.0.1", songs: 480, rotate: 3 })),
+  ...venue.flatMap((a, i) =>
+    tab({ address: a, ip: "198.18.0.1", session: `v${i}`, from: T0, minutes: 90, seed: 50 + i }),
+  ),
+  ...household.flatMap((a, i) =>
+    tab({ address: a, ip: `198.19.4.${10 + i}`, session: `hh${i}`, from: T0, minutes: 90, seed: 80 + i }),
+  ),
+]);
+
+const results = replayHeartbeatLog(log);
+const tier = (a: string) => results[a]?.tier;
+
+check("honest: clear, nothing to say", [tier(honest), results[honest].reasons], ["clear", []]);
+check("honest: heard every credited song", (results[honest].features.listenThrough ?? 0) >= 0.9, true);
+check("honest: a reconnect is not a farm", results[honest].score < RISK_THRESHOLDS.review, true);
+
+check("many tabs, one wallet: review", tier(tabs), "review");
+check("many tabs: concurrency seen", results[tabs].features.maxConcurrentSessions, 4);
+check("many tabs: early beats seen", results[tabs].features.fastBeatRatio > 0.5, true);
+
+check("scripted client: review", tier(scripted), "review");
+check("scripted client: barely listens", (results[scripted].features.listenThrough ?? 1) < 0.25, true);
+
+check("wallet farm on one IP: every wallet quarantined", farm.map(tier), farm.map(() => "quarantine"));
+check("wallet farm: sees the other eleven", results[farm[0]].features.sharedIpAddresses, 11);
+
+check("venue wifi: shared IP alone stays clear", venue.map(tier), venue.map(() => "clear"));
+check("household: one /24 stays clear", household.map(tier), household.map(() => "clear"));
+
+const quiet = {
+  beats: 100,
+  fastBeatRatio: 0,
+  sessionsPerHour: 0,
+  maxConcurrentSessions: 1,
+  sharedIpAddresses: 0,
+  sharedNetworkAddresses: 0,
+  listenThrough: null,
+  creditedSongs: 0,
+};
+check(
+  "no single signal reaches review",
+  [
+    { fastBeatRatio: 1 },
+    { sessionsPerHour: 50 },
+    { maxConcurrentSessions: 20 },
+    { sharedIpAddresses: 500, sharedNetworkAddresses: 500 },
+    { listenThrough: 0, creditedSongs: 50 },
+  ].map((signal) => assessRisk({ ...quiet, ...signal }).tier),
+  Array(5).fill("clear"),
+);
+check(
+  "too few beats to judge",
+  replayHeartbeatLog(log.filter((e) => e.address === tabs).slice(0, 10))[tabs].score,
+  0,
+);
+
+// ---------------------------------------------------------------------------
+// Determinism and replay plumbing
+// ---------------------------------------------------------------------------
+
+const shuffled = [...log].sort((a, b) => (a.session < b.session ? 1 : -1) || b.at - a.at);
+check("order of the log does not matter", replayHeartbeatLog(shuffled), results);
+check(
+  "a JSON array parses like JSONL",
+  parseHeartbeatLog(JSON.stringify(log.slice(0, 50))),
+  log.slice(0, 50),
+);
+check("malformed lines are skipped", parseHeartbeatLog('{"nope":1}\nnot json\n').length, 0);
+
+const early = replayHeartbeatLog(log, T0 + 30 * MIN);
+check("`now` drops later events", early[honest].features.beats, 60);
+
+check(
+  "unknown IPs never cluster",
+  replayHeartbeatLog(
+    recorded(
+      venue.flatMap((a, i) => tab({ address: a, ip: "unknown", session: `u${i}`, from: T0, minutes: 30, seed: i })),
+    ),
+  )[venue[0]].features.sharedIpAddresses,
+  0,
+);
+check(
+  "networks: v4 /24, v6 /48, unknown none",
+  [networkOf("203.0.113.9"), networkOf("2001:db8::1"), networkOf("2001:db8:aa:bb::1"), networkOf("unknown")],
+  ["203.0.113.0/24", "2001:db8:0::/48", "2001:db8:aa::/48", null],
+);
+
+// ---------------------------------------------------------------------------
+// Standings and points
+// ---------------------------------------------------------------------------
+
+const record = (r: Partial<ListenerRiskRecord>) => ({ ...(r as ListenerRiskRecord) });
+check("standing: no record", riskStanding(null), { weight: 1, hold: false });
+check("standing: review halves", riskStanding(record({ tier: "review" })), { weight: 0.5, hold: false });
+check("standing: quarantine holds", riskStanding(record({ tier: "quarantine" })), { weight: 0, hold: true });
+check(
+  "standing: cleared by an admin",
+  riskStanding(record({ tier: "quarantine", review: { decision: "cleared", by: "a", at: 0, scoreAtReview: 80 } })),
+  { weight: 1, hold: false },
+);
+check(
+  "standing: confirmed forfeits",
+  riskStanding(record({ tier: "review", review: { decision: "confirmed", by: "a", at: 0, scoreAtReview: 50 } })),
+  { weight: 0, hold: false },
+);
+const review = { decision: "cleared" as const, by: "a", at: 0, scoreAtReview: 75 };
+check("review: sticks below the margin", reviewStillApplies(review, 84), true);
+check("review: lapses past it", reviewStillApplies(review, 85), false);
+
+const stats = { totalSongsListened: 31, currentStreak: 0 };
+check("points: unweighted", computeListenerPoints(stats, 1), 30);
+check("points: review weight floors", computeListenerPoints({ totalSongsListened: 11, currentStreak: 0 }, 0, 0.5), 5);
+check("points: held is zero", computeListenerPoints(stats, 1, 0), 0);
+check(
+  "points: the total applies the same weights",
+  computeTotalPoints({ a: stats, b: stats }, { a: 1, b: 1 }, { b: { weight: 0.5 } }),
+  45,
+);
+
+// ---------------------------------------------------------------------------
+// Redis: heartbeats in, queue and standings out
+// ---------------------------------------------------------------------------
+
+function fakeRedis() {
+  const lists: Record<string, string[]> = {};
+  const zsets: Record<string, Map<string, number>> = {};
+  const hashes: Record<string, Record<string, unknown>> = {};
+  const zsorted = (key: string) => [...(zsets[key] || new Map())].sort((a, b) => a[1] - b[1]);
+  const slice = <T>(items: T[], start: number, stop: number) =>
+    items.slice(start < 0 ? Math.max(0, items.length + start) : start, stop < 0 ? items.length + stop + 1 : stop + 1);
+  const fake = {
+    rpush: async (key: string, value: string) => (lists[key] ??= []).push(value),
+    ltrim: async (key: string, start: number, stop: number) => {
+      lists[key] = slice(lists[key] || [], start, stop);
+      return "OK";
+    },
+    lrange: async (key: string, start: number, stop: number) => slice(lists[key] || [], start, stop),
+    expire: async () => 1,
+    zadd: async (key: string, entry: { score: number; member: string }) => {
+      (zsets[key] ??= new Map()).set(entry.member, entry.score);
+      return 1;
+    },
+    zcard: async (key: string) => zsets[key]?.size ?? 0,
+    zrem: async (key: string, member: string) => (zsets[key]?.delete(member) ? 1 : 0),
+    zrange: async (key: string, start: number, stop: number, opts?: { rev?: boolean }) => {
+      const members = zsorted(key).map(([m]) => m);
+      return slice(opts?.rev ? members.reverse() : members, start, stop);
+    },
+    zremrangebyscore: async (key: string, min: number, max: number) => {
+      for (const [m, s] of zsorted(key)) if (s >= min && s <= max) zsets[key].delete(m);
+      return 0;
+    },
+    hget: async (key: string, field: string) => hashes[key]?.[field] ?? null,
+    hset: async (key: string, values: Record<string, unknown>) => {
+      hashes[key] = { ...hashes[key], ...JSON.parse(JSON.stringify(values)) };
+      return 1;
+    },
+    hgetall: async (key: string) => hashes[key] ?? null,
+  };
+  return { redis: fake as unknown as RiskRedis, lists, zsets };
+}
+
+{
+  const { redis, zsets } = fakeRedis();
+  const end = log.reduce((max, e) => Math.max(max, e.at), 0);
+  const stored = [honest, scripted, ...farm];
+  for (const e of log.filter((e) => stored.includes(e.address))) await recordHeartbeat(redis, e);
+  for (const a of stored) await rescoreListener(redis, a, end);
+
+  // Equal scores come back in whatever order Redis keeps them; compare those as sets.
+  const queue = await loadReviewQueue(redis);
+  check(
+    "queue: flagged addresses only, highest score first",
+    [queue.slice(0, 12).map((r) => r.address).sort(), queue.slice(12).map((r) => r.address)],
+    [farm, [scripted]],
+  );
+  check(
+    "queue: the scores match an offline replay",
+    queue.map((r) => r.score),
+    [...farm, scripted].map((a) => results[a].score),
+  );
+  check("queue: IP clusters are stored per IP", zsets[RISK_KEYS.ip("100.64.0.1")]?.size, 12);
+
+  const standings = await loadRiskStandings(redis);
+  check("standings: honest listener absent", honest in standings, false);
+  check("standings: the script is down-weighted", standings[scripted], { weight: 0.5, hold: false });
+  check("excluded from plays: the quarantined", [...(await loadExcludedListeners(redis))].sort(), farm);
+
+  await recordRiskReview(redis, farm[0], { decision: "cleared", by: "0xadmin", at: end });
+  await recordRiskReview(redis, farm[1], { decision: "confirmed", by: "0xadmin", at: end });
+  check(
+    "review: decided addresses leave the queue",
+    (await loadReviewQueue(redis)).map((r) => r.address).sort(),
+    [...farm.slice(2), scripted].sort(),
+  );
+  check("review: cleared is paid, confirmed is not", [
+    (await loadRiskStandings(redis))[farm[0]],
+    (await loadRiskStandings(redis))[farm[1]],
+  ], [undefined, { weight: 0, hold: false }]);
+
+  await rescoreListener(redis, farm[0], end);
+  check("review: survives a rescore at the same score", (await loadReviewQueue(redis)).length, 11);
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,370 @@
+/**
+ * Drives `lib/month-pipeline.ts` through the failures it exists for and pins what each run does.
+ *
+ * Run: `node --experimental-strip-types tools/verify-month-pipeline.ts`
+ *
+ * The chain is a fake: every step records how often it sent, receipts are scripted per hash,
+ * and `applied` reads a mutable "contract state". The property that matters in every scenario
+ * is the send count — a resumed run must never send a step whose effect already landed, and
+ * must never send a replacement for a transaction that may still mine.
+ */
+
+import {
+  PIPELINE_KEYS,
+  PipelineError,
+  getPipeline,
+  isStepConfirmed,
+  listPipelines,
+  pipelineTransactions,
+  releaseStep,
+  runPipeline,
+  savePipeline,
+  type PipelineChain,
+  type PipelineRedis,
+  type PipelineStep,
+} from "../lib/month-pipeline.ts";
+import type { Hex } from "viem";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+// ---------------------------------------------------------------------------
+// Fakes
+// ---------------------------------------------------------------------------
+
+function fakeRedis() {
+  const kv = new Map<string, unknown>();
+  const zsets = new Map<string, Map<string, number>>();
+  const redis = {
+    async get(key: string) {
+      const v = kv.get(key);
+      if (typeof v !== "string") return v ?? null;
+      try {
+        return JSON.parse(v);
+      } catch {
+        return v;
+      }
+    },
+    async set(key: string, value: unknown, opts?: { nx?: boolean }) {
+      if (opts?.nx && kv.has(key)) return null;
+      kv.set(key, value);
+      return "OK";
+    },
+    async del(key: string) {
+      return kv.delete(key) ? 1 : 0;
+    },
+    async zadd(key: string, entry: { score: number; member: string }) {
+      const z = zsets.get(key) || new Map();
+      z.set(entry.member, entry.score);
+      zsets.set(key, z);
+      return 1;
+    },
+    async zrange(key: string, start: number, stop: number, opts?: { rev?: boolean }) {
+      const members = [...(zsets.get(key) || new Map()).entries()]
+        .sort((a, b) => (opts?.rev ? b[1] - a[1] : a[1] - b[1]))
+        .map(([m]) => m);
+      return members.slice(start, stop + 1);
+    },
+  };
+  return { redis: redis as unknown as PipelineRedis, kv };
+}
+
+type Outcome = "success" | "reverted" | null;
+
+/** The fake chain numbers its transactions from 1, in send order. */
+const hashOf = (n: number) => `0x${n.toString(16).padStart(64, "0")}` as Hex;
+
+/**
+ * A three-step flow — withdraw, fund, finalize — over a fake contract. `receipts` scripts
+ * what waiting on a hash returns; unscripted hashes succeed. A successful receipt applies the
+ * step's effect, as mining would.
+ */
+function fakeFlow() {
+  const state = { withdrawn: false, funded: 0, finalized: false };
+  const sends: Record<string, number> = {};
+  const receipts = new Map<Hex, Outcome>();
+  const effects = new Map<Hex, () => void>();
+  const throwOnSend = new Set<string>();
+  let seq = 0;
+
+  const sender = (name: string, effect: () => void) => async () => {
+    if (throwOnSend.has(name)) throw new Error(`nonce too low (${name})`);
+    sends[name] = (sends[name] || 0) + 1;
+    const hash = hashOf(++seq);
+    effects.set(hash, effect);
+    return hash;
+  };
+
+  // As in the distribution route: withdraw is only redone while the month is unfunded.
+  const funded = async () => {
+    if (state.funded === 0) return false;
+    if (state.funded !== 100) {
+      throw new PipelineError(`funded with ${state.funded}, report pays 100; not funding again`);
+    }
+    return true;
+  };
+
+  const steps: PipelineStep[] = [
+    {
+      name: "withdraw",
+      applied: funded,
+      send: sender("withdraw", () => (state.withdrawn = true)),
+    },
+    {
+      name: "fund",
+      applied: funded,
+      send: sender("fund", () => (state.funded += 100)),
+    },
+    {
+      name: "finalize",
+      applied: async () => state.finalized,
+      send: sender("finalize", () => (state.finalized = true)),
+    },
+  ];
+
+  const chain: PipelineChain = {
+    wait: async (hash) => {
+      const outcome = receipts.has(hash) ? receipts.get(hash)! : "success";
+      if (outcome === "success") effects.get(hash)?.();
+      return outcome;
+    },
+  };
+
+  return { state, sends, receipts, throwOnSend, steps, chain };
+}
+
+let tick = 1_000;
+const clock = () => ++tick;
+const key = { flow: "distribute" as const, monthId: 690, ref: "690-a" };
+
+// ---------------------------------------------------------------------------
+// Straight through
+// ---------------------------------------------------------------------------
+
+{
+  const { redis, kv } = fakeRedis();
+  const f = fakeFlow();
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("clean: completed", p.status, "completed");
+  check("clean: every step sent once", f.sends, { withdraw: 1, fund: 1, finalize: 1 });
+  check("clean: hashes recorded per step", Object.keys(pipelineTransactions(p)), ["withdraw", "fund", "finalize"]);
+  check("clean: lock released", kv.has(PIPELINE_KEYS.lock), false);
+
+  const again = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("clean: a completed month sends nothing more", [again.status, f.sends], [
+    "completed",
+    { withdraw: 1, fund: 1, finalize: 1 },
+  ]);
+  check("clean: listed in the status index", (await listPipelines(redis)).map((x) => x.monthId), [690]);
+}
+
+// ---------------------------------------------------------------------------
+// Send fails midway, next run resumes
+// ---------------------------------------------------------------------------
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.throwOnSend.add("finalize");
+  const first = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("resume: failed at the step that threw", [first.status, first.error], [
+    "failed",
+    "finalize: nonce too low (finalize)",
+  ]);
+  check("resume: earlier steps stay confirmed", first.steps.map((s) => s.state), [
+    "confirmed",
+    "confirmed",
+    "failed",
+  ]);
+
+  f.throwOnSend.clear();
+  const second = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("resume: completes", second.status, "completed");
+  check("resume: withdraw and fund are not sent again", f.sends, { withdraw: 1, fund: 1, finalize: 1 });
+  check("resume: attempts counted", second.steps.map((s) => s.attempts), [1, 1, 2]);
+}
+
+// ---------------------------------------------------------------------------
+// Receipt timeout: stuck, then settled by the receipt or by contract state
+// ---------------------------------------------------------------------------
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.receipts.set(hashOf(2), null); // fund's tx
+  const first = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("stuck: halts on a missing receipt", first.status, "stuck");
+  check("stuck: the hash is on record", first.steps[1].state, "sent");
+  check("stuck: finalize not attempted", f.sends.finalize, undefined);
+
+  const second = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("stuck: stays stuck without resending", [second.status, f.sends.fund], ["stuck", 1]);
+
+  f.receipts.delete(hashOf(2));
+  const third = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("stuck: the late receipt confirms it", [third.status, f.sends.fund, f.state.funded], [
+    "completed",
+    1,
+    100,
+  ]);
+  check("stuck: confirmed by receipt, not detection", third.steps[1].detected, undefined);
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  const fundHash = hashOf(2);
+  f.receipts.set(fundHash, null);
+  await runPipeline(redis, key, f.steps, f.chain, clock);
+  // The RPC lost the receipt but the transfer landed.
+  f.state.funded = 100;
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("detected: a landed tx with no receipt is confirmed from state", [p.status, p.steps[1].detected], [
+    "completed",
+    true,
+  ]);
+  check("detected: and never re-funded", [f.sends.fund, f.state.funded], [1, 100]);
+}
+
+// ---------------------------------------------------------------------------
+// Release: an admin declares a stuck tx dropped
+// ---------------------------------------------------------------------------
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  const fundHash = hashOf(2);
+  f.receipts.set(fundHash, null);
+  await runPipeline(redis, key, f.steps, f.chain, clock);
+
+  const stuck = (await getPipeline(redis, "distribute", 690))!;
+  let refused = "";
+  try {
+    releaseStep(stuck, "withdraw", clock());
+  } catch (e) {
+    refused = (e as Error).message;
+  }
+  check("release: only a sent step", refused, 'Step "withdraw" is confirmed, not sent');
+
+  await savePipeline(redis, releaseStep(stuck, "fund", clock()));
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("release: the next run sends a replacement", [p.status, f.sends.fund], ["completed", 2]);
+  check("release: the dropped hash is kept", p.steps[1].previousTxHashes, [fundHash]);
+}
+
+// ---------------------------------------------------------------------------
+// Revert, double-fund refusal, steps done by hand
+// ---------------------------------------------------------------------------
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.receipts.set(hashOf(3), "reverted");
+  const first = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("revert: fails the step", [first.status, first.steps[2].state], ["failed", "failed"]);
+  const second = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("revert: retried next run", [second.status, f.sends.finalize], ["completed", 2]);
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.state.funded = 250; // someone funded by hand, with the wrong amount
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("double-fund: refused", [p.status, p.error], [
+    "failed",
+    "withdraw: funded with 250, report pays 100; not funding again",
+  ]);
+  check("double-fund: nothing sent", f.sends, {});
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.state.funded = 100; // withdraw and fund done by hand
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  check("by hand: completed", p.status, "completed");
+  check("by hand: only finalize sent", f.sends, { finalize: 1 });
+  check("by hand: detected steps marked", p.steps.map((s) => !!s.detected), [true, true, false]);
+  check("by hand: isStepConfirmed", [isStepConfirmed(p, "withdraw"), isStepConfirmed(null, "withdraw")], [
+    true,
+    false,
+  ]);
+}
+
+// ---------------------------------------------------------------------------
+// Off-chain steps, lock, and a different report for the same month
+// ---------------------------------------------------------------------------
+
+{
+  const { redis } = fakeRedis();
+  let writes = 0;
+  const steps: PipelineStep[] = [{ name: "snapshot", run: async () => void writes++ }];
+  const p = await runPipeline(redis, key, steps, { wait: async () => "success" }, clock);
+  check("off-chain: runs without a hash", [p.status, writes, pipelineTransactions(p)], ["completed", 1, {}]);
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  await redis.set(PIPELINE_KEYS.lock, "someone-else");
+  let error = "";
+  try {
+    await runPipeline(redis, key, f.steps, f.chain, clock);
+  } catch (e) {
+    error = e instanceof PipelineError ? `${e.status} ${e.message}` : String(e);
+  }
+  check("lock: a second run is refused", error, "409 Another keeper run is sending transactions");
+  check("lock: nothing sent", f.sends, {});
+  check("lock: someone else's lock is left alone", await redis.get(PIPELINE_KEYS.lock), "someone-else");
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.throwOnSend.add("fund");
+  await runPipeline(redis, key, f.steps, f.chain, clock);
+  let error = "";
+  try {
+    await runPipeline(redis, { ...key, ref: "690-b" }, f.steps, f.chain, clock);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  check("ref: a month started on one report cannot switch", error, "Month 690 is already running 690-a, not 690-b");
+}
+
+{
+  const { redis } = fakeRedis();
+  const f = fakeFlow();
+  f.throwOnSend.add("fund");
+  const { ref: _ref, ...unnamed } = key;
+  await runPipeline(redis, unnamed, f.steps, f.chain, clock);
+  f.throwOnSend.clear();
+  const p = await runPipeline(redis, key, f.steps, f.chain, clock);
+  let error = "";
+  try {
+    await runPipeline(redis, { ...key, ref: "690-b" }, f.steps, f.chain, clock);
+  } catch (e) {
+    error = (e as Error).message;
+  }
+  check(
+    "ref: a record started without one takes the next run's, and keeps it",
+    [p.ref, (await getPipeline(redis, "distribute", 690))?.ref, error],
+    ["690-a", "690-a", "Month 690 is already running 690-a, not 690-b"],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
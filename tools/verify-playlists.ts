@@ -0,0 +1,277 @@
+/**
+ * Pins the playlist rules in `lib/playlists.ts`: who may see and edit a playlist, how operations
+ * are validated, and how an edit made against an older version lands on a newer one.
+ *
+ * Run: `node --experimental-strip-types tools/verify-playlists.ts`
+ */
+
+import {
+  applyEdit,
+  canView,
+  createPlaylist,
+  isEditor,
+  parsePlaylistOps,
+  setEditors,
+  summarize,
+  updatePlaylist,
+  type Playlist,
+} from "../lib/playlists.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function thrown(fn: () => unknown): [string, number] | null {
+  try {
+    fn();
+    return null;
+  } catch (e) {
+    return [(e as Error).message, (e as { status?: number }).status ?? 0];
+  }
+}
+
+const OWNER = 100;
+const EDITOR = 200;
+const STRANGER = 300;
+const T0 = Date.UTC(2026, 9, 1, 12);
+
+const track = (tokenId: string) => ({
+  tokenId,
+  name: `Song ${tokenId}`,
+  artist: "Artist",
+  audioUrl: `ipfs://bafy/${tokenId}.mp3`,
+  imageUrl: `https://img.example/${tokenId}.jpg`,
+});
+const insert = (tokenId: string, index?: number) => ({
+  op: "insert",
+  track: track(tokenId),
+  index,
+});
+const order = (p: Playlist) => p.tracks.map((t) => t.tokenId);
+
+function seeded(): Playlist {
+  const p = createPlaylist(
+    "pl_0000000000000001",
+    OWNER,
+    { name: "  Late   night " },
+    T0,
+  );
+  applyEdit(p, {
+    baseVersion: 1,
+    ops: parsePlaylistOps([insert("1"), insert("2"), insert("3")]),
+    by: OWNER,
+    at: T0 + 1,
+  });
+  return p;
+}
+
+// ---- create, access ----
+{
+  const p = seeded();
+  check(
+    "create: tidied name, private",
+    [p.name, p.visibility, p.version],
+    ["Late night", "private", 2],
+  );
+  check("create: insert order", order(p), ["1", "2", "3"]);
+  check(
+    "access: private",
+    [canView(p, OWNER), canView(p, STRANGER), canView(p, null)],
+    [true, false, false],
+  );
+
+  const change = setEditors(p, [EDITOR, OWNER, EDITOR], T0 + 2);
+  check(
+    "editors: owner and duplicates dropped",
+    [p.editors, change],
+    [[EDITOR], { added: [EDITOR], removed: [] }],
+  );
+  check(
+    "access: editor",
+    [isEditor(p, EDITOR), canView(p, EDITOR)],
+    [true, true],
+  );
+
+  updatePlaylist(p, { visibility: "link" }, OWNER, T0 + 3);
+  check("access: link", canView(p, null), true);
+  check(
+    "update: bad visibility",
+    thrown(() => updatePlaylist(p, { visibility: "secret" }, OWNER, T0)),
+    ["visibility must be private, link or public", 400],
+  );
+  check("summary", summarize(p), {
+    id: "pl_0000000000000001",
+    ownerFid: OWNER,
+    name: "Late night",
+    visibility: "link",
+    collaborative: true,
+    trackCount: 3,
+    coverImage: "https://img.example/1.jpg",
+    version: 4,
+    updatedAt: T0 + 3,
+  });
+}
+
+// ---- validation ----
+check(
+  "ops: unknown op",
+  thrown(() => parsePlaylistOps([{ op: "shuffle" }])),
+  ["ops[0].op must be insert, remove, move or reorder", 400],
+);
+check(
+  "ops: audio must be a link",
+  thrown(() =>
+    parsePlaylistOps([
+      { op: "insert", track: { ...track("9"), audioUrl: "javascript:x" } },
+    ]),
+  )?.[0],
+  "track 9 needs an https or ipfs audioUrl",
+);
+check(
+  "ops: move needs an index",
+  thrown(() => parsePlaylistOps([{ op: "move", tokenId: "1" }]))?.[0],
+  "ops[0].index is required",
+);
+
+// ---- editing at the current version ----
+{
+  const p = seeded();
+  const result = applyEdit(p, {
+    baseVersion: 2,
+    ops: parsePlaylistOps([
+      insert("4", 0),
+      { op: "move", tokenId: "3", index: 1 },
+      { op: "remove", tokenId: "2" },
+    ]),
+    by: EDITOR,
+    at: T0 + 5,
+  });
+  check(
+    "edit: applied in order",
+    [order(p), p.version, result],
+    [["4", "3", "1"], 3, { applied: 3, skipped: [], rebased: false }],
+  );
+  check("edit: added by", p.tracks[0].addedBy, EDITOR);
+
+  applyEdit(p, {
+    baseVersion: 3,
+    ops: parsePlaylistOps([{ op: "reorder", order: ["1", "4", "3"] }]),
+    by: OWNER,
+    at: T0 + 6,
+  });
+  check("reorder: whole order", order(p), ["1", "4", "3"]);
+  check(
+    "reorder: must be a permutation",
+    thrown(() =>
+      applyEdit(p, {
+        baseVersion: 4,
+        ops: parsePlaylistOps([{ op: "reorder", order: ["1", "4"] }]),
+        by: OWNER,
+        at: T0,
+      }),
+    ),
+    ["reorder must list every track in the playlist exactly once", 400],
+  );
+  check(
+    "edit: future version",
+    thrown(() =>
+      applyEdit(p, {
+        baseVersion: 9,
+        ops: parsePlaylistOps([{ op: "remove", tokenId: "1" }]),
+        by: OWNER,
+        at: T0,
+      }),
+    )?.[0],
+    "Playlist is at version 4, not 9",
+  );
+  const noop = applyEdit(p, {
+    baseVersion: 4,
+    ops: parsePlaylistOps([insert("1")]),
+    by: OWNER,
+    at: T0 + 7,
+  });
+  check(
+    "edit: duplicate insert skipped, version kept",
+    [noop, p.version],
+    [
+      {
+        applied: 0,
+        skipped: [{ index: 0, reason: "1 is already in the playlist" }],
+        rebased: false,
+      },
+      4,
+    ],
+  );
+}
+
+// ---- editing against an older version ----
+{
+  const p = seeded();
+  // The owner removes 2 and moves 3 to the top (version 2 -> 3)
+  applyEdit(p, {
+    baseVersion: 2,
+    ops: parsePlaylistOps([
+      { op: "remove", tokenId: "2" },
+      { op: "move", tokenId: "3", index: 0 },
+    ]),
+    by: OWNER,
+    at: T0 + 10,
+  });
+  // The editor, still on version 2, moves 2 to the end and inserts 5 at position 2
+  const result = applyEdit(p, {
+    baseVersion: 2,
+    ops: parsePlaylistOps([
+      { op: "move", tokenId: "2", index: 2 },
+      insert("5", 2),
+    ]),
+    by: EDITOR,
+    at: T0 + 11,
+  });
+  check(
+    "rebase: stale move skipped, insert clamped",
+    [order(p), result],
+    [
+      ["3", "1", "5"],
+      {
+        applied: 1,
+        skipped: [{ index: 0, reason: "2 is no longer in the playlist" }],
+        rebased: true,
+      },
+    ],
+  );
+  const before = order(p);
+  check(
+    "rebase: reorder refused",
+    thrown(() =>
+      applyEdit(p, {
+        baseVersion: 3,
+        ops: parsePlaylistOps([
+          insert("6"),
+          { op: "reorder", order: ["1", "3", "5", "6"] },
+        ]),
+        by: EDITOR,
+        at: T0 + 12,
+      }),
+    ),
+    ["Playlist changed since version 3; reload it and reorder again", 409],
+  );
+  check(
+    "rebase: refused edit leaves playlist untouched",
+    [order(p), p.version],
+    [before, 4],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
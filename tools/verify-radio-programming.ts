@@ -0,0 +1,432 @@
+/**
+ * Checks the Live Radio programming engine in `lib/radio-programming.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-radio-programming.ts`
+ *
+ * The engine replaced a uniform random pick, so the things worth pinning are the ones the old
+ * picker got right by accident and a rules engine could get wrong on purpose:
+ *
+ *  1. **It never goes silent.** Every rule can be relaxed; only an empty catalogue yields null.
+ *  2. **It never repeats the track that just played** while anything else exists. That repeat
+ *     lands inside the 300s replay cooldown and the artist is paid nothing for it.
+ *  3. **A broken preset changes what plays, not whether anything plays.**
+ *
+ * Everything runs against a fixed catalogue and a fake Redis, with the clock and randomness
+ * passed in, so each check is deterministic.
+ */
+
+import {
+  activeDaypart,
+  loadActiveRules,
+  loadPlayHistory,
+  parseProgrammingRules,
+  programNextTrack,
+  selectNextTrack,
+  DEFAULT_PROGRAMMING_RULES,
+  PLAY_HISTORY_KEY,
+  PROGRAMMING_KEYS,
+  type PlayHistoryEntry,
+  type ProgrammingRedis,
+  type ProgrammingRules,
+  type ProgrammingTrack,
+} from "../lib/radio-programming.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+/** Upstash deserialises JSON on read; the fake does the same so both shapes are exercised. */
+function fakeRedis(seed: {
+  strings?: Record<string, unknown>;
+  hashes?: Record<string, Record<string, unknown>>;
+  lists?: Record<string, unknown[]>;
+}): ProgrammingRedis {
+  const fake = {
+    get: async (key: string) => seed.strings?.[key] ?? null,
+    hget: async (key: string, field: string) => seed.hashes?.[key]?.[field] ?? null,
+    hgetall: async (key: string) => seed.hashes?.[key] ?? null,
+    lrange: async (key: string, start: number, stop: number) =>
+      (seed.lists?.[key] || []).slice(start, stop < 0 ? undefined : stop + 1),
+  };
+  return fake as unknown as ProgrammingRedis;
+}
+
+/** A `random` that returns the given values in turn, then repeats the last. */
+function sequence(...values: number[]) {
+  let i = 0;
+  return () => values[Math.min(i++, values.length - 1)];
+}
+
+const MIN = 60 * 1000;
+const DAY = 24 * 60 * MIN;
+
+// Friday 2026-10-16 20:00 UTC.
+const FRIDAY_8PM = Date.UTC(2026, 9, 16, 20, 0);
+
+const CATALOGUE: ProgrammingTrack[] = [
+  { tokenId: "1", artist: "0xaaa", mintedAt: FRIDAY_8PM - 3 * DAY },
+  { tokenId: "2", artist: "0xaaa", mintedAt: FRIDAY_8PM - 200 * DAY },
+  { tokenId: "3", artist: "0xbbb", mintedAt: FRIDAY_8PM - 200 * DAY },
+  { tokenId: "4", artist: "0xccc", mintedAt: FRIDAY_8PM - 200 * DAY },
+  { tokenId: "5", artist: "0xddd", mintedAt: FRIDAY_8PM - 1 * DAY },
+];
+
+const TAGS = {
+  "3": { genres: ["House"], moods: ["energetic"] },
+  "4": { genres: ["house", "techno"], moods: ["dark"] },
+  "5": { genres: ["ambient"], moods: ["chill"] },
+};
+
+const FRIDAY_NIGHT: ProgrammingRules = {
+  name: "friday-night",
+  separation: { artistMinutes: 30, trackMinutes: 60 },
+  noRepeatTracks: 3,
+  utcOffsetMinutes: 0,
+  dayparts: [
+    {
+      name: "club",
+      days: [5],
+      startHour: 22,
+      endHour: 4,
+      genres: ["house"],
+      tierWeights: { new_releases: 0 },
+    },
+    { name: "evening", startHour: 18, endHour: 22, moods: ["chill", "energetic"] },
+  ],
+  tiers: [
+    { id: "heavy_rotation", weight: 5, tokenIds: ["4"] },
+    { id: "new_releases", weight: 3, mintedWithinDays: 14 },
+    { id: "deep_cuts", weight: 1 },
+  ],
+};
+
+const played = (tokenId: string, artist: string, minutesAgo: number): PlayHistoryEntry => ({
+  tokenId,
+  artist,
+  playedAt: FRIDAY_8PM - minutesAgo * MIN,
+});
+
+const ids = (tracks: { tokenId: string }[]) => tracks.map((t) => t.tokenId);
+
+// =====================================================================
+// Dayparts
+// =====================================================================
+
+const at = (d: number, h: number) => Date.UTC(2026, 9, d, h, 0);
+check("friday 20:00 is the evening daypart", activeDaypart(FRIDAY_NIGHT, at(16, 20))?.name, "evening");
+check("friday 23:00 is the club", activeDaypart(FRIDAY_NIGHT, at(16, 23))?.name, "club");
+// The point of "days means the day the window starts": 02:00 Saturday is still Friday's show.
+check("saturday 02:00 is still friday's club night", activeDaypart(FRIDAY_NIGHT, at(17, 2))?.name, "club");
+check("saturday 23:00 is not the club", activeDaypart(FRIDAY_NIGHT, at(17, 23))?.name ?? null, null);
+check("saturday 04:00 is past the end of the window", activeDaypart(FRIDAY_NIGHT, at(17, 4))?.name ?? null, null);
+check(
+  "the offset moves the clock: 21:00 UTC at +02:00 is 23:00 local",
+  activeDaypart({ ...FRIDAY_NIGHT, utcOffsetMinutes: 120 }, at(16, 21))?.name,
+  "club",
+);
+
+// =====================================================================
+// Selection
+// =====================================================================
+
+check(
+  "an empty catalogue is the only way to get null",
+  selectNextTrack({ catalogue: [], history: [], rules: FRIDAY_NIGHT, now: FRIDAY_8PM }),
+  null,
+);
+
+// Evening daypart wants chill or energetic: only 3 and 5 qualify. Token 3 is a deep cut,
+// token 5 a new release; a low roll lands on new_releases (weight 3 of 4).
+const evening = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: FRIDAY_8PM,
+  random: sequence(0.1, 0),
+});
+check("the daypart filters the pool", evening?.candidates, 2);
+check("a low roll picks the heavier tier", evening?.track.tokenId, "5");
+check("and reports it", [evening?.tier, evening?.daypart], ["new_releases", "evening"]);
+
+const eveningHigh = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: FRIDAY_8PM,
+  random: sequence(0.9, 0),
+});
+check("a high roll picks the lighter tier", eveningHigh?.track.tokenId, "3");
+
+// Club night: house only (3 and 4), and new releases weighted to zero for the daypart.
+const club = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: at(16, 23),
+  random: sequence(0, 0),
+});
+check("tag matching is case-insensitive", club?.candidates, 2);
+check("heavy rotation takes a curated track first", [club?.track.tokenId, club?.tier], ["4", "heavy_rotation"]);
+
+// Artist separation: 0xbbb played 10 minutes ago, so only 5 is left in the evening pool.
+const separated = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [played("2", "0xbbb", 10)],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: FRIDAY_8PM,
+  random: sequence(0.99, 0.99),
+});
+check("artist separation removes the recent artist", ids(separated ? [separated.track] : []), ["5"]);
+check("nothing had to be relaxed", separated?.relaxed, []);
+
+check(
+  "artist matching ignores case",
+  selectNextTrack({
+    catalogue: CATALOGUE,
+    history: [played("9", "0xBBB", 10)],
+    rules: FRIDAY_NIGHT,
+    tags: TAGS,
+    now: FRIDAY_8PM,
+    random: sequence(0.99, 0.99),
+  })?.track.tokenId,
+  "5",
+);
+
+// No-repeat horizon: 5 is the 3rd-newest entry, so it is out even though it played long ago.
+const horizon = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [played("1", "0xaaa", 200), played("2", "0xaaa", 300), played("5", "0xddd", 400)],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: FRIDAY_8PM,
+});
+check("the no-repeat horizon excludes by position, not time", horizon?.track.tokenId, "3");
+
+// =====================================================================
+// Relaxation
+// =====================================================================
+
+// Both evening tracks are blocked: 3 by the horizon, 5 by artist separation.
+const relaxOne = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [played("3", "0xbbb", 200), played("9", "0xddd", 5)],
+  rules: FRIDAY_NIGHT,
+  tags: TAGS,
+  now: FRIDAY_8PM,
+  random: sequence(0, 0),
+});
+check("the horizon is relaxed first", relaxOne?.relaxed, ["no_repeat", "artist_separation"]);
+
+// A one-track station must still play.
+const single = selectNextTrack({
+  catalogue: [CATALOGUE[0]],
+  history: [played("1", "0xaaa", 4)],
+  rules: FRIDAY_NIGHT,
+  now: FRIDAY_8PM,
+});
+check("a single-track catalogue repeats rather than going silent", single?.track.tokenId, "1");
+check("with every constraint relaxed", single?.relaxed, [
+  "no_repeat",
+  "artist_separation",
+  "daypart",
+  "track_separation",
+]);
+
+// trackMinutes 0 and no horizon: the immediate repeat is STILL ruled out.
+const noRules: ProgrammingRules = {
+  ...FRIDAY_NIGHT,
+  separation: { artistMinutes: 0, trackMinutes: 0 },
+  noRepeatTracks: 0,
+  dayparts: [],
+};
+const twoTracks = [CATALOGUE[2], CATALOGUE[3]];
+let repeats = 0;
+for (let r = 0; r < 1; r += 0.05) {
+  const pick = selectNextTrack({
+    catalogue: twoTracks,
+    history: [played("3", "0xbbb", 4)],
+    rules: noRules,
+    now: FRIDAY_8PM,
+    random: () => r,
+  });
+  if (pick?.track.tokenId === "3") repeats++;
+}
+check("the last-played track is never repeated while another exists", repeats, 0);
+
+// Every populated tier weighted to zero falls back to all candidates.
+const zeroed = selectNextTrack({
+  catalogue: CATALOGUE,
+  history: [],
+  rules: { ...noRules, tiers: [{ id: "only", weight: 0 }] },
+  now: FRIDAY_8PM,
+  random: sequence(0.99),
+});
+check("zero weight everywhere falls back instead of failing", [zeroed?.track.tokenId, zeroed?.tier], ["5", null]);
+
+// =====================================================================
+// Validation
+// =====================================================================
+
+check("the default rules validate", parseProgrammingRules(DEFAULT_PROGRAMMING_RULES).ok, true);
+check("the friday preset validates", parseProgrammingRules(FRIDAY_NIGHT).ok, true);
+
+const bad = parseProgrammingRules({
+  name: "Friday Night!",
+  separation: { artistMinutes: -1, trackMinutes: 5 },
+  noRepeatTracks: 500,
+  utcOffsetMinutes: 0,
+  dayparts: [{ name: "x", startHour: 25, endHour: 4, days: [7] }],
+  tiers: [
+    { id: "a", weight: 1 },
+    { id: "a", weight: -2 },
+  ],
+});
+check(
+  "every error is reported, not just the first",
+  bad.ok ? [] : bad.errors,
+  [
+    "name must be 1-48 chars of a-z, 0-9 and '-'",
+    "separation.artistMinutes must be a number >= 0",
+    "noRepeatTracks must be an integer 0-100",
+    "dayparts[0].startHour must be an integer 0-23",
+    "dayparts[0].days must be weekday numbers 0-6",
+    'tiers[1].id "a" is duplicated',
+    "tiers[1].weight must be a number >= 0",
+  ],
+);
+check("a non-object is rejected", parseProgrammingRules("friday").ok, false);
+
+// =====================================================================
+// Taste bias
+
+{
+  const flat: ProgrammingRules = {
+    ...DEFAULT_PROGRAMMING_RULES,
+    name: "flat",
+    noRepeatTracks: 0,
+    separation: { artistMinutes: 0, trackMinutes: 0 },
+    tiers: [{ id: "all", weight: 1 }],
+  };
+  const pair = CATALOGUE.slice(2, 4); // 3 and 4, different artists
+  const pick = (rules: ProgrammingRules, roll: number) =>
+    selectNextTrack({
+      catalogue: pair,
+      history: [],
+      rules,
+      now: FRIDAY_8PM,
+      random: sequence(0, roll),
+      affinity: { "4": 1 },
+    })?.track.tokenId;
+
+  check("without tasteBias the affinity is ignored", pick(flat, 0.4), "3");
+  // Weights 1 and 1 + 4 * 1: track 4 owns the roll from 1/6 up
+  const biased = { ...flat, tasteBias: 1 };
+  check(
+    "with tasteBias a liked track wins more of the roll",
+    [pick(biased, 0.1), pick(biased, 0.4)],
+    ["3", "4"],
+  );
+  check(
+    "tasteBias must be 0-1",
+    parseProgrammingRules({ ...biased, tasteBias: 2 }),
+    { ok: false, errors: ["tasteBias must be a number 0-1"] },
+  );
+}
+
+// =====================================================================
+// Redis
+// =====================================================================
+
+check("no active preset runs the defaults", (await loadActiveRules(fakeRedis({}))).name, "default");
+check(
+  "the active preset is loaded",
+  (
+    await loadActiveRules(
+      fakeRedis({
+        strings: { [PROGRAMMING_KEYS.active]: "friday-night" },
+        hashes: { [PROGRAMMING_KEYS.presets]: { "friday-night": FRIDAY_NIGHT } },
+      }),
+    )
+  ).name,
+  "friday-night",
+);
+check(
+  "a preset stored as a JSON string is loaded too",
+  (
+    await loadActiveRules(
+      fakeRedis({
+        strings: { [PROGRAMMING_KEYS.active]: "friday-night" },
+        hashes: { [PROGRAMMING_KEYS.presets]: { "friday-night": JSON.stringify(FRIDAY_NIGHT) } },
+      }),
+    )
+  ).name,
+  "friday-night",
+);
+check(
+  "a corrupt preset falls back to the defaults",
+  (
+    await loadActiveRules(
+      fakeRedis({
+        strings: { [PROGRAMMING_KEYS.active]: "broken" },
+        hashes: { [PROGRAMMING_KEYS.presets]: { broken: { name: "broken" } } },
+      }),
+    )
+  ).name,
+  "default",
+);
+check(
+  "an active name with no preset falls back to the defaults",
+  (await loadActiveRules(fakeRedis({ strings: { [PROGRAMMING_KEYS.active]: "gone" } }))).name,
+  "default",
+);
+
+const history = await loadPlayHistory(
+  fakeRedis({
+    lists: {
+      [PLAY_HISTORY_KEY]: [
+        JSON.stringify({ tokenId: 3, artist: "0xbbb", playedAt: FRIDAY_8PM }),
+        { tokenId: "4", artist: "0xccc", playedAt: FRIDAY_8PM - MIN },
+        "not json",
+        { name: "no token id", playedAt: 1 },
+      ],
+    },
+  }),
+);
+check("history parses both shapes and skips junk", ids(history), ["3", "4"]);
+
+// End to end through Redis: the club preset, with track 4 having just played.
+const live = await programNextTrack(
+  fakeRedis({
+    strings: { [PROGRAMMING_KEYS.active]: "friday-night" },
+    hashes: {
+      [PROGRAMMING_KEYS.presets]: { "friday-night": FRIDAY_NIGHT },
+      [PROGRAMMING_KEYS.trackTags]: TAGS,
+    },
+    lists: { [PLAY_HISTORY_KEY]: [{ tokenId: "4", artist: "0xccc", playedAt: at(16, 23) - 4 * MIN }] },
+  }),
+  CATALOGUE,
+  { now: at(16, 23), random: sequence(0, 0) },
+);
+check(
+  "end to end: the preset, tags and history all apply",
+  [live?.rules, live?.daypart, live?.track.tokenId, live?.relaxed],
+  ["friday-night", "club", "3", []],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,231 @@
+/**
+ * Checks the Live Radio station model in `lib/radio-stations.ts` and the cross-station credit
+ * rule in `lib/listener-points.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-radio-stations.ts`
+ *
+ * Stations multiply every per-station key, so what is worth pinning is what breaks quietly:
+ *
+ *  1. **The main station keeps its legacy keys and channel.** Anything else strands live state
+ *     and every client that never sends a station id.
+ *  2. **A listener is on one station at a time.** Two active-listener sets means two on-chain
+ *     plays per song slot.
+ *  3. **Hopping stations cannot double-credit points** within one song slot.
+ */
+
+import {
+  MAIN_STATION_ID,
+  STATION_KEYS,
+  filterStationCatalogue,
+  loadStations,
+  moveListener,
+  normalizeStationId,
+  parseStationConfig,
+  stationChannel,
+  stationKeys,
+  type StationConfig,
+  type StationRedis,
+} from "../lib/radio-stations.ts";
+import { canCreditListen } from "../lib/listener-points.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+/** Hashes and sorted sets only — all moveListener() and loadStations() touch. */
+function fakeRedis() {
+  const hashes: Record<string, Record<string, unknown>> = {};
+  const zsets: Record<string, Map<string, number>> = {};
+  const fake = {
+    hget: async (key: string, field: string) => hashes[key]?.[field] ?? null,
+    hgetall: async (key: string) => hashes[key] ?? null,
+    hset: async (key: string, values: Record<string, unknown>) => {
+      hashes[key] = { ...hashes[key], ...values };
+      return Object.keys(values).length;
+    },
+    zadd: async (key: string, entry: { score: number; member: string }) => {
+      (zsets[key] ??= new Map()).set(entry.member, entry.score);
+      return 1;
+    },
+    zrem: async (key: string, member: string) => (zsets[key]?.delete(member) ? 1 : 0),
+  };
+  const members = (key: string) => [...(zsets[key]?.keys() ?? [])].sort();
+  return { redis: fake as unknown as StationRedis, hashes, members };
+}
+
+// ---------------------------------------------------------------------------
+// Keys and ids
+// ---------------------------------------------------------------------------
+
+const main = stationKeys(MAIN_STATION_ID);
+check(
+  "main station: legacy keys",
+  [main.state, main.queue, main.voiceNotes, main.activeListeners, main.playHistory],
+  [
+    "live-radio:state",
+    "live-radio:queue",
+    "live-radio:voice-notes",
+    "live-radio:active-listeners-zset",
+    "live-radio:play-history",
+  ],
+);
+check("main station: legacy channel", stationChannel(MAIN_STATION_ID), "live-radio");
+
+const jazz = stationKeys("jazz");
+check("other stations: namespaced", jazz.queue, "live-radio:station:jazz:queue");
+check(
+  "other stations: no key shared with main",
+  Object.values(jazz).filter((k) => Object.values(main).includes(k)),
+  [],
+);
+check("other stations: own channel", stationChannel("jazz"), "live-radio:jazz");
+
+check("normalize: case and whitespace", normalizeStationId("  Jazz "), "jazz");
+check(
+  "normalize: malformed ids mean main",
+  [undefined, 7, "", "x", "../state", "a".repeat(40)].map(normalizeStationId),
+  Array(6).fill(MAIN_STATION_ID),
+);
+
+// ---------------------------------------------------------------------------
+// Config validation
+// ---------------------------------------------------------------------------
+
+const parsed = parseStationConfig(
+  { id: "Lagos-Nights", name: "Lagos Nights", kind: "region", countryCodes: ["ng", " gh "] },
+  1000,
+);
+check(
+  "config: a valid region station is normalised",
+  parsed.ok && [parsed.station.id, parsed.station.countryCodes, parsed.station.createdAt],
+  ["lagos-nights", ["NG", "GH"], 1000],
+);
+
+const bad = parseStationConfig({ id: "main", name: "", kind: "artist", artistAddresses: ["bob"] }, 0);
+check("config: every error is reported", bad.ok ? [] : bad.errors.length, 3);
+check(
+  "config: unknown kind is rejected",
+  parseStationConfig({ id: "abc", name: "A", kind: "podcast" }, 0).ok,
+  false,
+);
+check("config: non-object is rejected", parseStationConfig("jazz", 0).ok, false);
+
+// ---------------------------------------------------------------------------
+// Catalogue
+// ---------------------------------------------------------------------------
+
+const CATALOGUE = [
+  { tokenId: "1", artist: "0xAAA", artistAddress: "0xaaa" },
+  { tokenId: "2", artist: "0xbbb" },
+  { tokenId: "3", artist: "0xccc", artistAddress: "0xccc" },
+];
+const TAGS = { "1": { genres: ["jazz"] }, "3": { genres: ["afrobeats", "jazz"] } };
+
+const station = (s: Partial<StationConfig>): StationConfig => ({
+  id: "x1",
+  name: "X",
+  kind: "main",
+  createdAt: 0,
+  ...s,
+});
+const ids = (ts: { tokenId: string }[]) => ts.map((t) => t.tokenId);
+
+check(
+  "catalogue: main plays everything",
+  ids(filterStationCatalogue(station({ kind: "main" }), CATALOGUE)),
+  ["1", "2", "3"],
+);
+check(
+  "catalogue: genre uses curator tags",
+  ids(filterStationCatalogue(station({ kind: "genre", genres: ["jazz"] }), CATALOGUE, { tags: TAGS })),
+  ["1", "3"],
+);
+check(
+  "catalogue: genre without tags plays nothing",
+  ids(filterStationCatalogue(station({ kind: "genre", genres: ["jazz"] }), CATALOGUE)),
+  [],
+);
+check(
+  "catalogue: artist falls back to the artist field",
+  ids(filterStationCatalogue(station({ kind: "artist", artistAddresses: ["0xbbb"] }), CATALOGUE)),
+  ["2"],
+);
+check(
+  "catalogue: region uses the passport holders",
+  ids(
+    filterStationCatalogue(station({ kind: "region", countryCodes: ["NG"] }), CATALOGUE, {
+      regionArtists: new Set(["0xccc"]),
+    }),
+  ),
+  ["3"],
+);
+
+// ---------------------------------------------------------------------------
+// Listeners
+// ---------------------------------------------------------------------------
+
+{
+  const { redis, hashes, members } = fakeRedis();
+  const first = await moveListener(redis, "0xl1", MAIN_STATION_ID, 1);
+  const again = await moveListener(redis, "0xl1", MAIN_STATION_ID, 2);
+  const moved = await moveListener(redis, "0xl1", "jazz", 3);
+  check("move: first heartbeat has no previous station", first, null);
+  check("move: same station is not a move", again, null);
+  check("move: a hop reports where it came from", moved, MAIN_STATION_ID);
+  check(
+    "move: the listener is in exactly one set",
+    [members(main.activeListeners), members(jazz.activeListeners)],
+    [[], ["0xl1"]],
+  );
+  check("move: the station is remembered", hashes[STATION_KEYS.listenerStation]?.["0xl1"], "jazz");
+
+  await redis.hset(STATION_KEYS.registry, {
+    late: { id: "late", name: "Late", kind: "genre", createdAt: 20 },
+    early: JSON.stringify({ id: "early", name: "Early", kind: "genre", createdAt: 10 }),
+  });
+  check(
+    "stations: main first, then creation order, either encoding",
+    (await loadStations(redis as any)).map((s) => s.id),
+    ["main", "early", "late"],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Cross-station credit
+// ---------------------------------------------------------------------------
+
+check("credit: a fresh listener is credited", canCreditListen({}, "s1", "main", 0), true);
+check(
+  "credit: never the same song twice",
+  canCreditListen({ lastRewardedSongId: "s1", lastRewardedStation: "main" }, "s1", "main", 0),
+  false,
+);
+check(
+  "credit: next song on the same station",
+  canCreditListen({ lastRewardedSongId: "s1", lastRewardedStation: "main", listenCreditUntil: 500 }, "s2", "main", 100),
+  true,
+);
+check(
+  "credit: hopping inside the slot is not credited",
+  canCreditListen({ lastRewardedSongId: "s1", lastRewardedStation: "main", listenCreditUntil: 500 }, "jazz:9-1", "jazz", 100),
+  false,
+);
+check(
+  "credit: hopping after the slot is",
+  canCreditListen({ lastRewardedSongId: "s1", lastRewardedStation: "main", listenCreditUntil: 500 }, "jazz:9-1", "jazz", 500),
+  true,
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,282 @@
+/**
+ * Builds taste profiles and a similarity model from fixture signals and checks what
+ * `lib/recommendations.ts` recommends from them — no Envio, no Redis beyond a small fake.
+ *
+ * Run: `node --experimental-strip-types tools/verify-recommendations.ts`
+ *
+ * The fixture is three artists and four listeners: two who like artists A and B together, one
+ * who only likes C, and one who has heard a single A track and paid to skip a C track.
+ */
+
+import {
+  buildModel,
+  buildTasteProfiles,
+  decay,
+  fansAlsoLike,
+  listenerAffinity,
+  loadModel,
+  loadProfiles,
+  loadSkips,
+  mergeProfiles,
+  playlistSignals,
+  recommendForYou,
+  recordSkip,
+  saveRecommendations,
+  similarTracks,
+  skipSignals,
+  HALF_LIFE_DAYS,
+  SKIP_LOG_LIMIT,
+  type CatalogueTrack,
+  type SignalKind,
+  type TasteSignal,
+} from "../lib/recommendations.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19, 12);
+
+const A = "0xaaa";
+const B = "0xbbb";
+const C = "0xccc";
+const ALICE = "0xa11ce";
+const BOB = "0x00b0b";
+const CAROL = "0xca401";
+const DAVE = "0xda7e";
+
+const CATALOGUE: CatalogueTrack[] = [
+  { tokenId: "1", artist: A, name: "One" },
+  { tokenId: "2", artist: A },
+  { tokenId: "3", artist: B },
+  { tokenId: "4", artist: B },
+  { tokenId: "5", artist: C },
+  { tokenId: "6", artist: C },
+];
+
+const sig = (
+  listener: string,
+  tokenId: string,
+  kind: SignalKind,
+  daysAgo = 0,
+): TasteSignal => ({
+  listener,
+  tokenId,
+  kind,
+  at: NOW - daysAgo * DAY,
+});
+
+const SIGNALS: TasteSignal[] = [
+  sig(ALICE, "1", "play"),
+  sig(ALICE, "1", "play"),
+  sig(ALICE, "1", "play"),
+  sig(ALICE, "2", "license"),
+  sig(ALICE, "3", "tip"),
+  sig(BOB, "1", "play"),
+  sig(BOB, "2", "play"),
+  sig(BOB, "3", "play"),
+  sig(BOB, "4", "radio_queue", HALF_LIFE_DAYS),
+  sig(CAROL, "5", "play"),
+  sig(CAROL, "6", "license"),
+  sig(DAVE.toUpperCase().replace("0X", "0x"), "1", "play"),
+  sig(DAVE, "99", "license"), // burned, not in the catalogue
+  ...skipSignals([{ listener: DAVE, tokenId: "5", at: NOW }]),
+  // FID 42 is Carol's; the playlist lands on her wallet
+  ...playlistSignals(
+    [{ tracks: [{ tokenId: "5", addedBy: 42, addedAt: NOW }] }],
+    { 42: CAROL },
+  ),
+  ...playlistSignals(
+    [{ tracks: [{ tokenId: "6", addedBy: 7, addedAt: NOW }] }],
+    {},
+  ),
+];
+
+// ---- profiles ----
+check("decay: one half life", decay(NOW - HALF_LIFE_DAYS * DAY, NOW), 0.5);
+
+const profiles = buildTasteProfiles(SIGNALS, CATALOGUE, NOW);
+check(
+  "profiles: one per listener, addresses lowercased",
+  Object.keys(profiles).sort(),
+  [ALICE, BOB, CAROL, DAVE, "fid:7"].sort(),
+);
+check(
+  "profiles: log-damped sums, licenses over plays",
+  profiles[ALICE].tracks,
+  { "2": 1.7918, "3": 1.6094, "1": 1.3863 },
+);
+check("profiles: decayed queue", profiles[BOB].tracks["4"], 0.6931);
+check("profiles: artist affinity", profiles[ALICE].artists, {
+  [A]: 3.1781,
+  [B]: 1.6094,
+});
+check(
+  "profiles: skip is negative, off-catalogue dropped",
+  profiles[DAVE].tracks,
+  { "1": 0.6931, "5": -1.3863 },
+);
+check(
+  "profiles: playlist add on the mapped wallet",
+  profiles[CAROL].tracks["5"],
+  1.6094,
+);
+
+// ---- model ----
+const model = buildModel(profiles, CATALOGUE, NOW);
+check(
+  "model: neighbours come from co-listening only",
+  model.tracks["1"].neighbours.map(([t]) => t),
+  ["3", "2", "4"],
+);
+check(
+  "model: skips are not co-listening",
+  model.tracks["5"].neighbours.map(([t]) => t),
+  ["6"],
+);
+// cos(5, 6) is 0.79, but only Carol has both: 1 / (1 + 3) of it survives
+check("model: shrunk cosine", model.tracks["5"].neighbours, [["6", 0.1977]]);
+check(
+  "model: popularity",
+  [model.tracks["1"].popularity, model.tracks["4"].popularity],
+  [2.7725, 0.6931],
+);
+
+// ---- for you ----
+const forDave = recommendForYou(model, profiles[DAVE], { limit: 4 });
+check(
+  "for you: neighbours of liked tracks; no popular top-up the skip argues against",
+  forDave.map((r) => [r.tokenId, r.because]),
+  [
+    ["3", "1"],
+    ["2", "1"],
+    ["4", "1"],
+  ],
+);
+check(
+  "for you: nothing left to infer falls back to popular",
+  recommendForYou(model, profiles[BOB], { limit: 1 }).map((r) => [
+    r.tokenId,
+    r.because,
+  ]),
+  [["6", null]],
+);
+check(
+  "for you: cold start is popularity",
+  recommendForYou(model, null, { limit: 3 }).map((r) => r.tokenId),
+  ["6", "1", "2"],
+);
+check(
+  "for you: exclude",
+  recommendForYou(model, profiles[DAVE], { limit: 1, exclude: ["3"] }).map(
+    (r) => r.tokenId,
+  ),
+  ["2"],
+);
+check(
+  "merge: wallet and fid profiles add up",
+  mergeProfiles([profiles[CAROL], profiles["fid:7"]])?.tracks,
+  { "5": 1.6094, "6": 3.1781 },
+);
+
+// ---- similar, fans also like ----
+check(
+  "similar tracks",
+  similarTracks(model, "2", 2).map((r) => [r.tokenId, r.because]),
+  [
+    ["3", "2"],
+    ["1", "2"],
+  ],
+);
+check(
+  "similar: name passes through",
+  similarTracks(model, "2").find((r) => r.tokenId === "1")?.name,
+  "One",
+);
+check(
+  "fans also like: artists near A, not A itself, C unconnected",
+  fansAlsoLike(model, "0xAAA").map((a) => [a.artist, a.tokenIds]),
+  [[B, ["3", "4"]]],
+);
+
+// ---- radio affinity ----
+const room = listenerAffinity(model, [profiles[ALICE], profiles[CAROL]]);
+check(
+  "affinity: each listener's favourite scores 1 before averaging",
+  [room["2"], room["6"]],
+  [0.5, 0.5],
+);
+check(
+  "affinity: everything in 0-1",
+  Object.values(room).every((v) => v > 0 && v <= 1),
+  true,
+);
+check("affinity: nobody listening", listenerAffinity(model, []), {});
+
+// ---- redis ----
+{
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Record<string, string>>();
+  const lists = new Map<string, string[]>();
+  const fake = {
+    get: async (k: string) => strings.get(k) ?? null,
+    set: async (k: string, v: string) => void strings.set(k, v),
+    del: async (k: string) => void hashes.delete(k),
+    hset: async (k: string, v: Record<string, string>) =>
+      void hashes.set(k, { ...hashes.get(k), ...v }),
+    hget: async (k: string, f: string) => hashes.get(k)?.[f] ?? null,
+    lpush: async (k: string, v: string) =>
+      void lists.set(k, [v, ...(lists.get(k) || [])]),
+    ltrim: async (k: string, start: number, stop: number) =>
+      void lists.set(k, (lists.get(k) || []).slice(start, stop + 1)),
+    lrange: async (k: string, start: number, stop: number) =>
+      (lists.get(k) || []).slice(start, stop + 1),
+  };
+  const redis = fake as any;
+
+  await saveRecommendations(redis, profiles, model);
+  check(
+    "redis: model round trip",
+    (await loadModel(redis))?.tracks["5"],
+    model.tracks["5"],
+  );
+  check(
+    "redis: profiles by any-case address, unknown skipped",
+    (
+      await loadProfiles(redis, [
+        DAVE.toUpperCase().replace("0X", "0x"),
+        "0xnobody",
+      ])
+    ).map((p) => p.listener),
+    [DAVE],
+  );
+
+  for (let i = 0; i < SKIP_LOG_LIMIT + 2; i++) {
+    await recordSkip(redis, {
+      listener: "0xABC",
+      tokenId: String(i),
+      at: NOW + i,
+    });
+  }
+  const skips = await loadSkips(redis);
+  check(
+    "skips: newest first, capped, lowercased",
+    [skips.length, skips[0].tokenId, skips[0].listener],
+    [SKIP_LOG_LIMIT, String(SKIP_LOG_LIMIT + 1), "0xabc"],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,390 @@
+/**
+ * Pins the rights-dispute rules in `lib/rights-dispute.ts`: what a filing must contain, what each
+ * party signs, which transitions are allowed, and how much of an artist's unclaimed pool share a
+ * dispute holds.
+ *
+ * Run: `node --experimental-strip-types tools/verify-rights-dispute.ts`
+ */
+
+import {
+  buildFiling,
+  buildResponse,
+  decisionDetails,
+  claimHolds,
+  filingMessage,
+  openDispute,
+  resolveDispute,
+  respondToDispute,
+  settleClaimHold,
+  settleRefund,
+  textDigest,
+  verifyDisputeRecord,
+  withdrawDispute,
+  type RefundDue,
+  type RightsDispute,
+} from "../lib/rights-dispute.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function thrown(fn: () => unknown): [string, number] | null {
+  try {
+    fn();
+    return null;
+  } catch (e) {
+    return [(e as Error).message, (e as { status?: number }).status ?? 0];
+  }
+}
+
+const ARTIST = "0xaaaa00000000000000000000000000000000000a";
+const CLAIMANT = "0xCCCC00000000000000000000000000000000000C";
+const ADMIN = "0xdddd00000000000000000000000000000000000d";
+const T0 = Date.UTC(2026, 9, 1, 12);
+
+const input = {
+  tokenId: "42",
+  claimant: CLAIMANT,
+  grounds: "copyright",
+  statement: "  This is my recording, released on my label in 2024.\r\n  ",
+  evidence: [
+    { url: "https://example.com/release", description: " Label page " },
+    { url: "ipfs://bafyproof" },
+  ],
+  filedAt: T0,
+};
+
+// ---------------------------------------------------------------------------
+// Filing
+// ---------------------------------------------------------------------------
+
+const filing = buildFiling(input);
+check(
+  "filing: normalised",
+  [filing.claimant, filing.statement, filing.evidence],
+  [
+    CLAIMANT.toLowerCase(),
+    "This is my recording, released on my label in 2024.",
+    [
+      { url: "https://example.com/release", description: "Label page" },
+      { url: "ipfs://bafyproof", description: "" },
+    ],
+  ],
+);
+check(
+  "filing: unknown grounds",
+  thrown(() => buildFiling({ ...input, grounds: "vibes" }))?.[1],
+  400,
+);
+check(
+  "filing: statement too short",
+  thrown(() => buildFiling({ ...input, statement: "mine" })),
+  ["Describe the claim in at least 20 characters", 400],
+);
+check(
+  "filing: evidence must be a link",
+  thrown(() =>
+    buildFiling({ ...input, evidence: [{ url: "javascript:alert(1)" }] }),
+  )?.[0],
+  'Evidence links must be https:// or ipfs:// (got "javascript:alert(1)")',
+);
+check(
+  "filing: claimant must be an address",
+  thrown(() => buildFiling({ ...input, claimant: "alice" }))?.[0],
+  "claimant must be a wallet address",
+);
+check(
+  "filing: message names the digest",
+  filingMessage(filing)
+    .split("\n")
+    .filter((l) => l.startsWith("Filing:")).length,
+  1,
+);
+check(
+  "filing: message changes with the statement",
+  filingMessage(filing) ===
+    filingMessage(
+      buildFiling({
+        ...input,
+        statement: input.statement + " Also on Bandcamp.",
+      }),
+    ),
+  false,
+);
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+function fresh(): RightsDispute {
+  return openDispute(
+    "RD-1",
+    buildFiling(input),
+    ARTIST.toUpperCase().replace("0X", "0x"),
+    "0xsigC",
+  );
+}
+
+{
+  const d = fresh();
+  check(
+    "open: holding, logged, verifies",
+    [
+      d.status,
+      d.claimHold,
+      d.artist,
+      d.log.map((e) => e.action),
+      verifyDisputeRecord(d),
+    ],
+    ["open", "holding", ARTIST, ["filed"], true],
+  );
+
+  const r = buildResponse({
+    statement: " The claimant licensed it to me. ",
+    evidence: [{ url: "https://example.com/licence" }],
+    at: T0 + 1000,
+  });
+  respondToDispute(d, r, "0xsigA");
+  check(
+    "respond: answered, digest over the response",
+    [d.status, d.response?.statement, d.response?.digest.length],
+    ["answered", "The claimant licensed it to me.", 66],
+  );
+  check(
+    "respond: only once",
+    thrown(() => respondToDispute(d, r, "0xsigA")),
+    ["The artist has already responded", 409],
+  );
+  check(
+    "respond: empty refused",
+    thrown(() => buildResponse({ statement: "  ", evidence: [], at: T0 })),
+    ["A response statement is required", 400],
+  );
+
+  check(
+    "resolve: needs a reason",
+    thrown(() =>
+      resolveDispute(
+        d,
+        { outcome: "rejected", reason: " ", admin: ADMIN, at: T0 + 2000 },
+        "0xsigD",
+      ),
+    ),
+    ["A decision needs a written reason", 400],
+  );
+  const decision = resolveDispute(
+    d,
+    {
+      outcome: "rejected",
+      reason: "Licence provided.",
+      admin: ADMIN,
+      at: T0 + 2000,
+    },
+    "0xsigD",
+  );
+  check(
+    "reject: claim hold released, decision logged",
+    [d.status, d.claimHold, d.log.map((e) => e.action)],
+    ["rejected", "released", ["filed", "responded", "rejected"]],
+  );
+  check("reject: record verifies", verifyDisputeRecord(d), true);
+  check(
+    "resolve: admin signs the reason digest",
+    decisionDetails("RD-1", "rejected", " Licence provided. "),
+    `RD-1 rejected ${textDigest("Licence provided.")}`,
+  );
+  check(
+    "resolve: only once",
+    thrown(() =>
+      resolveDispute(
+        d,
+        { outcome: "upheld", reason: "x", admin: ADMIN, at: T0 + 3000 },
+        "0x",
+      ),
+    )?.[0],
+    "Dispute is already rejected",
+  );
+  check(
+    "withdraw: not after a decision",
+    thrown(() => withdrawDispute(d, T0 + 3000))?.[0],
+    "Dispute is rejected",
+  );
+
+  const tampered: RightsDispute = JSON.parse(JSON.stringify(d));
+  tampered.decision!.reason = "No licence.";
+  check(
+    "tampered decision no longer verifies",
+    verifyDisputeRecord(tampered),
+    false,
+  );
+  const rewritten: RightsDispute = JSON.parse(JSON.stringify(d));
+  rewritten.statement += " (edited)";
+  check(
+    "edited filing no longer verifies",
+    verifyDisputeRecord(rewritten),
+    false,
+  );
+  const swapped: RightsDispute = JSON.parse(JSON.stringify(d));
+  swapped.response!.digest = textDigest("another response");
+  check(
+    "decision is pinned to the response it was made on",
+    verifyDisputeRecord(swapped),
+    false,
+  );
+  check("decision hash recorded", decision.hash.length, 66);
+}
+{
+  const d = fresh();
+  check(
+    "upheld before a response",
+    resolveDispute(
+      d,
+      {
+        outcome: "upheld",
+        reason: "Registration certificate checks out.",
+        admin: ADMIN,
+        at: T0 + 5000,
+      },
+      "0x",
+    ).outcome,
+    "upheld",
+  );
+  check("upheld: claim hold keeps holding", d.claimHold, "holding");
+  check(
+    "settle: needs a note",
+    thrown(() => settleClaimHold(d, { by: ADMIN, at: T0 + 6000, note: "" })),
+    ["Describe how the claimant was paid", 400],
+  );
+  check(
+    "settle: bad tx hash",
+    thrown(() =>
+      settleClaimHold(d, {
+        by: ADMIN,
+        at: T0 + 6000,
+        note: "Paid",
+        txHash: "0x12",
+      }),
+    )?.[1],
+    400,
+  );
+  settleClaimHold(d, {
+    by: ADMIN,
+    at: T0 + 6000,
+    note: "Artist paid the claimant 12 WMON",
+  });
+  check(
+    "settle: settled",
+    [d.claimHold, d.log.at(-1)?.action],
+    ["settled", "hold-settled"],
+  );
+  check(
+    "settle: only once",
+    thrown(() =>
+      settleClaimHold(d, { by: ADMIN, at: T0 + 7000, note: "again" }),
+    )?.[1],
+    409,
+  );
+}
+{
+  const d = fresh();
+  withdrawDispute(d, T0 + 100);
+  check(
+    "withdraw: released",
+    [d.status, d.claimHold],
+    ["withdrawn", "released"],
+  );
+  check(
+    "settle: not for a withdrawn dispute",
+    thrown(() => settleClaimHold(d, { by: ADMIN, at: T0, note: "x" }))?.[0],
+    "Only an upheld dispute's claim hold can be settled",
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Claim holds
+// ---------------------------------------------------------------------------
+
+{
+  const a = fresh();
+  const b = { ...fresh(), id: "RD-2", tokenId: "43" };
+  const released = {
+    ...fresh(),
+    id: "RD-3",
+    tokenId: "44",
+    claimHold: "released" as const,
+  };
+  const months = [
+    { monthId: 700, playCount: 10, payoutWei: "1000" },
+    { monthId: 699, playCount: 4, payoutWei: "400" },
+    { monthId: 698, playCount: 5, payoutWei: "500" },
+  ];
+  const plays = {
+    700: { "42": 3, "43": 1, "44": 5 },
+    699: { "44": 4 },
+    698: { "42": 9 },
+  };
+  check(
+    "holds: per month, only holding disputes, only played masters",
+    claimHolds(months, plays, [a, b, released]),
+    [
+      {
+        monthId: 700,
+        heldWei: "400",
+        masters: ["42", "43"],
+        disputeIds: ["RD-1", "RD-2"],
+      },
+      { monthId: 698, heldWei: "500", masters: ["42"], disputeIds: ["RD-1"] },
+    ],
+  );
+  check("holds: none without disputes", claimHolds(months, plays, []), []);
+}
+
+// ---------------------------------------------------------------------------
+// Refunds
+// ---------------------------------------------------------------------------
+
+{
+  const r: RefundDue = {
+    id: "0xabc-42-1",
+    stationId: "main",
+    tokenId: "42",
+    queuedBy: "0xabc",
+    queuedByFid: 7,
+    paidAmount: "1",
+    queuedAt: T0,
+    droppedAt: T0 + 100,
+  };
+  check(
+    "refund: needs a note",
+    thrown(() => settleRefund(r, { by: ADMIN, at: T0 + 200, note: " " })),
+    ["Describe how the refund was sent", 400],
+  );
+  check(
+    "refund: txHash must be a hash",
+    thrown(() =>
+      settleRefund(r, { by: ADMIN, at: T0 + 200, note: "sent", txHash: "0x1" }),
+    ),
+    ["txHash is not a transaction hash", 400],
+  );
+  settleRefund(r, { by: ADMIN, at: T0 + 200, note: "sent 1 WMON" });
+  check("refund: recorded", r.refund?.note, "sent 1 WMON");
+  check(
+    "refund: only once",
+    thrown(() => settleRefund(r, { by: ADMIN, at: T0 + 300, note: "again" })),
+    ["This refund was already recorded", 409],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,473 @@
+/**
+ * Pins the split-sheet rules in `lib/split-sheet.ts`: what a valid sheet is, what gets hashed and
+ * signed, how versions hand over, and how a month's income is routed to co-owners.
+ *
+ * Run: `node --experimental-strip-types tools/verify-split-sheet.ts`
+ *
+ * The routing scenarios run through `buildStatement` from lib/earnings-statement.ts, so the
+ * transfers are computed from the same statement an artist downloads.
+ */
+
+import {
+  MONTH_SECONDS,
+  buildStatement,
+  type StatementSources,
+} from "../lib/earnings-statement.ts";
+import {
+  activateSplitSheet,
+  addSplitSignature,
+  allocateSplit,
+  missingSignatures,
+  normalizeSplitPayees,
+  outstandingByPayee,
+  proposeSplitSheet,
+  sheetInForce,
+  splitSheetHash,
+  splitSheetText,
+  splitSignatureMessage,
+  splitTransfers,
+  validateSplitPayees,
+  verifySplitSheetHash,
+  withdrawPendingSheets,
+  type SplitPayee,
+  type SplitSheet,
+} from "../lib/split-sheet.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function thrown(fn: () => unknown): string | null {
+  try {
+    fn();
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+}
+
+const ARTIST = "0xAAAA00000000000000000000000000000000000A";
+const A = ARTIST.toLowerCase();
+const PRODUCER = "0xbbbb00000000000000000000000000000000000b";
+const FEATURE = "0xcccc00000000000000000000000000000000000c";
+
+const payees = (
+  artistBps: number,
+  producerBps: number,
+  featureBps = 0,
+): SplitPayee[] => [
+  ...(featureBps
+    ? [{ address: FEATURE, role: "featured-artist" as const, bps: featureBps }]
+    : []),
+  {
+    address: PRODUCER,
+    role: "producer",
+    name: "  Beat   Maker ",
+    bps: producerBps,
+  },
+  { address: ARTIST, role: "artist", bps: artistBps },
+];
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+check("valid", validateSplitPayees(payees(7000, 3000), ARTIST), null);
+check(
+  "must total 100%",
+  validateSplitPayees(payees(7000, 2000), ARTIST),
+  "Shares add up to 90.00%, not 100%",
+);
+check(
+  "artist must be listed",
+  validateSplitPayees(
+    [{ address: PRODUCER, role: "producer", bps: 10_000 }],
+    ARTIST,
+  ),
+  "The master's artist must be on the split sheet",
+);
+check(
+  "only the artist is 'artist'",
+  validateSplitPayees(
+    [
+      { address: PRODUCER, role: "artist", bps: 5000 },
+      { address: ARTIST, role: "artist", bps: 5000 },
+    ],
+    ARTIST,
+  ),
+  'The master\'s artist, and only the artist, has the role "artist"',
+);
+check(
+  "no duplicates",
+  validateSplitPayees(
+    [
+      ...payees(5000, 2500),
+      {
+        address: PRODUCER.toUpperCase().replace("0X", "0x"),
+        role: "co-writer",
+        bps: 2500,
+      },
+    ],
+    ARTIST,
+  ),
+  `${PRODUCER} is listed twice`,
+);
+check(
+  "no zero shares",
+  validateSplitPayees(payees(10_000, 0), ARTIST),
+  "Every share must be a whole number of basis points above zero",
+);
+check(
+  "no fractional bps",
+  validateSplitPayees(payees(6999.5, 3000.5), ARTIST),
+  "Every share must be a whole number of basis points above zero",
+);
+
+// ---------------------------------------------------------------------------
+// Text, hash, signature message
+// ---------------------------------------------------------------------------
+
+const body = {
+  tokenId: "42",
+  version: 1,
+  artist: A,
+  payees: normalizeSplitPayees(payees(6000, 2500, 1500)),
+  supersedes: null,
+};
+check(
+  "normalised: artist first, then by share, names tidied",
+  body.payees.map((p) => [p.address, p.role, p.name ?? null, p.bps]),
+  [
+    [A, "artist", null, 6000],
+    [PRODUCER, "producer", "Beat Maker", 2500],
+    [FEATURE, "featured-artist", null, 1500],
+  ],
+);
+check(
+  "text lists every payee",
+  splitSheetText(body)
+    .split("\n")
+    .filter((l) => /^\d\. /.test(l)),
+  [
+    `1. ${A} | artist | 60.00% (6000 bps)`,
+    `2. ${PRODUCER} | producer | 25.00% (2500 bps) | Beat Maker`,
+    `3. ${FEATURE} | featured-artist | 15.00% (1500 bps)`,
+  ],
+);
+check(
+  "hash is stable",
+  splitSheetHash(body),
+  splitSheetHash({ ...body, payees: [...body.payees] }),
+);
+check(
+  "hash covers shares",
+  splitSheetHash(body) ===
+    splitSheetHash({
+      ...body,
+      payees: normalizeSplitPayees(payees(6100, 2400, 1500)),
+    }),
+  false,
+);
+check(
+  "hash covers predecessor",
+  splitSheetHash(body) === splitSheetHash({ ...body, supersedes: "0x01" }),
+  false,
+);
+check(
+  "message states the signer's share",
+  splitSignatureMessage(body, "0xhash", PRODUCER)
+    .split("\n")
+    .filter((l) => l.startsWith("Your share") || l.startsWith("Signer")),
+  [`Signer: ${PRODUCER}`, "Your share: 25.00% (producer)"],
+);
+
+// ---------------------------------------------------------------------------
+// Lifecycle
+// ---------------------------------------------------------------------------
+
+const T0 = Date.UTC(2026, 0, 1);
+const v1 = proposeSplitSheet(
+  {
+    tokenId: "42",
+    version: 1,
+    artist: ARTIST,
+    payees: payees(6000, 2500, 1500),
+    supersedes: null,
+  },
+  "0xsigA",
+  T0,
+);
+check(
+  "proposal: pending, artist has signed",
+  [v1.status, v1.signatures.map((s) => s.address)],
+  ["pending", [A]],
+);
+check("proposal: hash verifies", verifySplitSheetHash(v1), true);
+check("proposal: awaiting the others", missingSignatures(v1), [
+  PRODUCER,
+  FEATURE,
+]);
+check(
+  "proposal: invalid sheet refused",
+  thrown(() =>
+    proposeSplitSheet({ ...body, payees: payees(5000, 2500) }, "0x", T0),
+  ),
+  "Shares add up to 75.00%, not 100%",
+);
+check(
+  "sign: outsider refused",
+  thrown(() =>
+    addSplitSignature(
+      v1,
+      "0xdddd00000000000000000000000000000000000d",
+      "0x",
+      T0,
+    ),
+  ),
+  "0xdddd00000000000000000000000000000000000d is not on this split sheet",
+);
+check(
+  "sign: first co-owner does not complete",
+  addSplitSignature(v1, PRODUCER, "0xsigB", T0 + 1),
+  false,
+);
+check(
+  "sign: twice refused",
+  thrown(() => addSplitSignature(v1, PRODUCER, "0xsigB", T0 + 2)),
+  "Already signed",
+);
+check(
+  "sign: last co-owner completes",
+  addSplitSignature(
+    v1,
+    FEATURE.toUpperCase().replace("0X", "0x"),
+    "0xsigC",
+    T0 + 3,
+  ),
+  true,
+);
+
+const T1 = T0 + 10 * 86_400_000;
+activateSplitSheet([v1], v1, T1);
+check("activate", [v1.status, v1.activatedAt], ["active", T1]);
+
+const edited: SplitSheet = JSON.parse(JSON.stringify(v1));
+edited.payees[1].bps = 3500;
+edited.payees[0].bps = 5000;
+check("tampered sheet no longer verifies", verifySplitSheetHash(edited), false);
+
+const T2 = T1 + 30 * 86_400_000;
+const v2 = proposeSplitSheet(
+  {
+    tokenId: "42",
+    version: 2,
+    artist: ARTIST,
+    payees: payees(5000, 5000),
+    supersedes: v1.hash,
+  },
+  "0xsigA2",
+  T2 - 5,
+);
+const v3 = proposeSplitSheet(
+  {
+    tokenId: "42",
+    version: 3,
+    artist: ARTIST,
+    payees: payees(6000, 4000),
+    supersedes: v1.hash,
+  },
+  "0xsigA3",
+  T2 - 1,
+);
+check(
+  "newer proposal withdraws the pending one",
+  withdrawPendingSheets([v2, v1], T2 - 1).map((s) => [s.version, s.status]),
+  [[2, "withdrawn"]],
+);
+addSplitSignature(v3, PRODUCER, "0xsigB3", T2);
+const changed = activateSplitSheet([v2, v1, v3], v3, T2);
+check(
+  "activation supersedes the previous version",
+  changed.map((s) => [s.version, s.status, s.endedAt]),
+  [
+    [1, "superseded", T2],
+    [3, "active", undefined],
+  ],
+);
+const all = [v3, v2, v1];
+check("in force: before any sheet", sheetInForce(all, T1 - 1), null);
+check("in force: v1 window", sheetInForce(all, T1)?.version, 1);
+check("in force: v1 until the handover", sheetInForce(all, T2 - 1)?.version, 1);
+check("in force: v3 from the handover", sheetInForce(all, T2)?.version, 3);
+check(
+  "in force: withdrawn never governs",
+  all.filter((s) => s.status === "withdrawn").map((s) => s.version),
+  [2],
+);
+
+// ---------------------------------------------------------------------------
+// Allocation
+// ---------------------------------------------------------------------------
+
+{
+  const shares = allocateSplit(
+    1001n,
+    normalizeSplitPayees(payees(3334, 3333, 3333)),
+  );
+  check(
+    "allocation: floors, dust to the artist",
+    [...shares.entries()].map(([a, v]) => [a, v.toString()]),
+    [
+      [PRODUCER, "333"],
+      [FEATURE, "333"],
+      [A, "335"],
+    ],
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Routing a month
+// ---------------------------------------------------------------------------
+
+const E = 10n ** 18n;
+const MONTH = Math.floor(T1 / 1000 / MONTH_SECONDS) + 1;
+const S = MONTH * MONTH_SECONDS;
+const sources: StatementSources = {
+  artist: ARTIST,
+  monthId: MONTH,
+  plays: [
+    { masterTokenId: "42", name: "Split Song", at: S + 10 },
+    { masterTokenId: "42", name: "Split Song", at: S + 20 },
+    { masterTokenId: "42", name: "Split Song", at: S + 30 },
+    { masterTokenId: "7", name: "Solo Song", at: S + 40 },
+  ],
+  radioPlays: [],
+  licenses: [
+    {
+      licenseId: "1",
+      masterTokenId: "42",
+      name: "Split Song",
+      buyer: "0xee",
+      priceWei: (10n * E).toString(),
+      isCollector: false,
+      at: S + 100,
+      txHash: "0xLic",
+    },
+    {
+      licenseId: "2",
+      masterTokenId: "7",
+      name: "Solo Song",
+      buyer: "0xee",
+      priceWei: (10n * E).toString(),
+      isCollector: false,
+      at: S + 200,
+      txHash: "0xsolo",
+    },
+  ],
+  royalties: [],
+  tips: [
+    {
+      masterTokenId: "42",
+      name: "Split Song",
+      tipper: "0xff",
+      amountWei: (1n * E).toString(),
+      at: S + 300,
+      txHash: "0xtip",
+    },
+  ],
+  distribution: {
+    totalRevenueWei: "0",
+    totalPlays: "8",
+    artistPoolWei: (80n * E).toString(),
+    at: S + MONTH_SECONDS,
+    txHash: "0xfin",
+  },
+  payout: {
+    amountWei: (40n * E).toString(),
+    playCount: "4",
+    at: S + MONTH_SECONDS + 60,
+    txHash: "0xclaim",
+  },
+  toursRewards: [],
+  onChain: null,
+};
+const v1Only = {
+  "42": [{ ...v1, status: "active" as const, endedAt: undefined }],
+};
+
+{
+  const transfers = splitTransfers(buildStatement(sources), v1Only);
+  check(
+    "routing: only co-owners of split masters, artist share kept",
+    transfers.map((t) => [t.source, t.payee, t.amountWei]),
+    [
+      ["artist-pool", PRODUCER, ((30n * E * 2500n) / 10_000n).toString()],
+      ["artist-pool", FEATURE, ((30n * E * 1500n) / 10_000n).toString()],
+      ["license", PRODUCER, ((9n * E * 2500n) / 10_000n).toString()],
+      ["license", FEATURE, ((9n * E * 1500n) / 10_000n).toString()],
+      ["tip", PRODUCER, ((1n * E * 2500n) / 10_000n).toString()],
+      ["tip", FEATURE, ((1n * E * 1500n) / 10_000n).toString()],
+    ],
+  );
+  check(
+    "routing: keys name the payment",
+    transfers.map((t) => t.key).slice(0, 3),
+    [
+      `artist-pool:month-${MONTH}:42:${PRODUCER}`,
+      `artist-pool:month-${MONTH}:42:${FEATURE}`,
+      `license:0xlic:42:${PRODUCER}`,
+    ],
+  );
+
+  const settled = transfers.map((t) =>
+    t.payee === PRODUCER && t.source !== "tip"
+      ? { ...t, settledTxHash: "0xpaid" }
+      : t,
+  );
+  check(
+    "outstanding: one payment per payee, settled shares excluded",
+    outstandingByPayee(settled).map((o) => [
+      o.payee,
+      o.amountWei,
+      o.keys.length,
+    ]),
+    [
+      [FEATURE, ((40n * E * 1500n) / 10_000n).toString(), 3],
+      [PRODUCER, ((1n * E * 2500n) / 10_000n).toString(), 1],
+    ],
+  );
+}
+{
+  const unclaimed = { ...sources, payout: null };
+  check(
+    "routing: unclaimed pool is not routed",
+    splitTransfers(buildStatement(unclaimed), v1Only).some(
+      (t) => t.source === "artist-pool",
+    ),
+    false,
+  );
+}
+{
+  const early = {
+    "42": [{ ...v1, status: "active" as const, activatedAt: (S + 200) * 1000 }],
+  };
+  check(
+    "routing: income before activation stays with the artist",
+    splitTransfers(buildStatement(sources), early).map((t) => t.source),
+    ["artist-pool", "artist-pool", "tip", "tip"],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
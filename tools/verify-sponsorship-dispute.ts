@@ -0,0 +1,375 @@
+/**
+ * Pins the sponsorship-dispute rules in `lib/sponsorship-dispute.ts`: who may open a dispute and
+ * when, who sits on the panel, how weighted votes become a split, and what the escrow does at
+ * each stage.
+ *
+ * Run: `node --experimental-strip-types tools/verify-sponsorship-dispute.ts`
+ */
+
+import type { Sponsorship } from "../lib/sponsorship.ts";
+import {
+  PANEL_WINDOW_MS,
+  addEvidence,
+  castPanelVote,
+  disputeRelease,
+  openDispute,
+  panelRole,
+  resolveByPanel,
+  ruleByAdmin,
+  settleDispute,
+  splitPayout,
+  tallyPanel,
+  withdrawDispute,
+} from "../lib/sponsorship-dispute.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) failures.push(`${name}\n     expected ${e}\n     actual   ${a}`);
+}
+
+function thrown(fn: () => unknown): [string, number] | null {
+  try {
+    fn();
+    return null;
+  } catch (e) {
+    return [(e as Error).message, (e as { status?: number }).status ?? 0];
+  }
+}
+
+const SPONSOR = "0x5555000000000000000000000000000000000005";
+const HOST = "0x4444000000000000000000000000000000000004";
+const GUEST_A = "0xaaaa00000000000000000000000000000000000a";
+const GUEST_B = "0xbbbb00000000000000000000000000000000000b";
+const GUEST_C = "0xcccc00000000000000000000000000000000000c";
+const ADMIN = "0xdddd00000000000000000000000000000000000d";
+const CHECK_IN_END = Date.UTC(2026, 9, 1, 22);
+const T0 = CHECK_IN_END + 10 * 60 * 1000;
+const CLOSED = T0 + PANEL_WINDOW_MS + 1;
+
+function sponsorship(): Sponsorship {
+  return {
+    id: "sp-1",
+    sponsorAddress: SPONSOR,
+    sponsorFid: 1,
+    sponsorName: "Brand",
+    hostAddress: HOST,
+    hostFid: 2,
+    hostName: "Host",
+    amount: "1000000000000000000000",
+    amountDisplay: "1000",
+    platformFee: "50000000000000000000",
+    depositTxHash: null,
+    eventName: "Rooftop",
+    description: "",
+    venueName: "Roof",
+    city: "Lisbon",
+    country: "PT",
+    latitude: 0,
+    longitude: 0,
+    eventDate: null,
+    expectedGuests: 10,
+    eventOracleId: null,
+    stampImageIPFS: null,
+    claimCode: null,
+    checkInStart: CHECK_IN_END - 3 * 60 * 60 * 1000,
+    checkInEnd: CHECK_IN_END,
+    votingDeadline: CHECK_IN_END + 60 * 60 * 1000,
+    createdAt: CHECK_IN_END - 86_400_000,
+    claimedAt: null,
+    status: "voting",
+    checkedInCount: 3,
+    checkedInGuests: [
+      GUEST_A,
+      GUEST_B,
+      GUEST_C.toUpperCase().replace("0X", "0x"),
+    ],
+    yesVotes: 1,
+    noVotes: 2,
+    voters: [],
+    resolvedAt: null,
+    releaseTxHash: null,
+  };
+}
+
+const opening = {
+  opener: HOST,
+  statement:
+    "The banner was up all night and the MC read the sponsor line twice.",
+  evidence: [{ url: "https://example.com/photo.jpg", description: "Banner" }],
+  at: T0,
+};
+
+// ---- opening ----
+{
+  const s = sponsorship();
+  check(
+    "open: outsiders refused",
+    thrown(() => openDispute("SD-1", s, { ...opening, opener: GUEST_A })),
+    ["Only the sponsor or the host can open a dispute", 403],
+  );
+  check(
+    "open: only while attendees vote",
+    thrown(() => openDispute("SD-1", s, { ...opening, at: CHECK_IN_END - 1 })),
+    ["Disputes can only be opened while attendees are voting", 409],
+  );
+  check(
+    "open: evidence required",
+    thrown(() => openDispute("SD-1", s, { ...opening, evidence: [] })),
+    ["Attach at least one evidence link", 400],
+  );
+  check(
+    "open: evidence must be a link",
+    thrown(() =>
+      openDispute("SD-1", s, { ...opening, evidence: [{ url: "file:///x" }] }),
+    )?.[1],
+    400,
+  );
+
+  const d = openDispute("SD-1", s, opening);
+  check(
+    "open: sponsorship locked",
+    [s.status, s.disputeId],
+    ["disputed", "SD-1"],
+  );
+  check(
+    "open: party and log",
+    [d.openedBy, d.statusBefore, d.log],
+    [
+      "host",
+      "voting",
+      [{ at: T0, actor: HOST, action: "opened", note: "host" }],
+    ],
+  );
+  check("open: funds locked", disputeRelease(d), {
+    release: false,
+    locked: true,
+    hostShareBps: 0,
+    reason: "Disputed: funds are locked until the panel decides",
+  });
+  check(
+    "open: no second dispute",
+    thrown(() => openDispute("SD-2", s, { ...opening, opener: SPONSOR })),
+    ["This sponsorship is already disputed", 409],
+  );
+
+  addEvidence(d, s, {
+    by: SPONSOR,
+    evidence: [{ url: "ipfs://bafy/recording.mp3" }],
+    at: T0 + 1,
+  });
+  check(
+    "evidence: sponsor adds",
+    d.evidence.map((e) => e.addedBy),
+    [HOST, SPONSOR],
+  );
+  check(
+    "evidence: closed panel",
+    thrown(() =>
+      addEvidence(d, s, {
+        by: SPONSOR,
+        evidence: [{ url: "https://x.y/z" }],
+        at: CLOSED,
+      }),
+    ),
+    ["The panel has closed", 409],
+  );
+}
+
+// ---- panel ----
+{
+  const s = sponsorship();
+  check(
+    "panel: roles",
+    [
+      panelRole(s, GUEST_A, false),
+      panelRole(s, GUEST_C, false),
+      panelRole(s, HOST, false),
+      panelRole(s, HOST, true),
+      panelRole(s, ADMIN, true),
+      panelRole(s, ADMIN, false),
+    ],
+    ["guest", "guest", null, null, "admin", null],
+  );
+
+  const d = openDispute("SD-1", s, opening);
+  castPanelVote(d, {
+    voter: GUEST_A,
+    role: "guest",
+    hostShareBps: 0,
+    at: T0 + 1,
+  });
+  castPanelVote(d, {
+    voter: GUEST_B,
+    role: "guest",
+    hostShareBps: 10000,
+    at: T0 + 2,
+  });
+  castPanelVote(d, {
+    voter: ADMIN,
+    role: "admin",
+    hostShareBps: 6000,
+    at: T0 + 3,
+  });
+  check(
+    "panel: one vote each",
+    thrown(() =>
+      castPanelVote(d, {
+        voter: GUEST_A,
+        role: "guest",
+        hostShareBps: 1,
+        at: T0 + 4,
+      }),
+    ),
+    ["Already voted on this dispute", 409],
+  );
+  check(
+    "panel: share bounds",
+    thrown(() =>
+      castPanelVote(d, {
+        voter: GUEST_C,
+        role: "guest",
+        hostShareBps: 10001,
+        at: T0 + 4,
+      }),
+    )?.[1],
+    400,
+  );
+  check("panel: weighted median", tallyPanel(d), {
+    totalWeight: 5,
+    quorum: true,
+    hostShareBps: 6000,
+  });
+  check(
+    "panel: withdraw refused once voting started",
+    thrown(() => withdrawDispute(d, s, { by: HOST, at: T0 + 5 })),
+    ["The panel has started voting; the dispute must be decided", 409],
+  );
+  check(
+    "panel: cannot resolve early",
+    thrown(() => resolveByPanel(d, T0 + 5)),
+    ["The panel is still sitting", 409],
+  );
+  check(
+    "panel: admin cannot overrule a quorum",
+    thrown(() =>
+      ruleByAdmin(d, {
+        admin: ADMIN,
+        hostShareBps: 0,
+        reason: "x",
+        at: CLOSED,
+      }),
+    ),
+    ["The panel reached a quorum; resolve it from its votes", 409],
+  );
+
+  resolveByPanel(d, CLOSED);
+  check(
+    "resolve: outcome",
+    [d.status, d.outcome?.hostShareBps, d.outcome?.decidedBy],
+    ["resolved", 6000, "panel"],
+  );
+  check("resolve: split release", disputeRelease(d), {
+    release: true,
+    locked: false,
+    hostShareBps: 6000,
+    reason: "Dispute decided by panel: 60% to host, 40% refunded to sponsor",
+  });
+
+  const { hostWei, sponsorWei } = splitPayout(s.amount, s.platformFee, 6000);
+  check(
+    "split: after fee",
+    [hostWei, sponsorWei],
+    ["570000000000000000000", "380000000000000000000"],
+  );
+  check("split: rounds toward sponsor", splitPayout("10", "0", 3333), {
+    hostWei: "3",
+    sponsorWei: "7",
+  });
+
+  settleDispute(d, {
+    by: ADMIN,
+    at: CLOSED + 1,
+    hostWei,
+    sponsorWei,
+    txHash: "0xabc",
+  });
+  check(
+    "settle: audit trail",
+    d.log.map((e) => [e.action, e.at]),
+    [
+      ["opened", T0],
+      ["voted", T0 + 1],
+      ["voted", T0 + 2],
+      ["voted", T0 + 3],
+      ["resolved", CLOSED],
+      ["settled", CLOSED + 1],
+    ],
+  );
+}
+
+// ---- no quorum, withdrawal ----
+{
+  const s = sponsorship();
+  const d = openDispute("SD-1", s, { ...opening, opener: SPONSOR });
+  castPanelVote(d, {
+    voter: GUEST_A,
+    role: "guest",
+    hostShareBps: 2500,
+    at: T0 + 1,
+  });
+  check(
+    "quorum: panel cannot resolve",
+    thrown(() => resolveByPanel(d, CLOSED))?.[0],
+    "The panel closed without a quorum (1/3); an admin must rule",
+  );
+  check(
+    "rule: needs a reason",
+    thrown(() =>
+      ruleByAdmin(d, {
+        admin: ADMIN,
+        hostShareBps: 0,
+        reason: " ",
+        at: CLOSED,
+      }),
+    ),
+    ["A ruling needs a written reason", 400],
+  );
+  ruleByAdmin(d, {
+    admin: ADMIN,
+    hostShareBps: 0,
+    reason: "No evidence of the mention",
+    at: CLOSED,
+  });
+  check(
+    "rule: refund",
+    disputeRelease(d).reason,
+    "Dispute decided by admin ruling: refunded to sponsor",
+  );
+
+  const s2 = sponsorship();
+  const d2 = openDispute("SD-2", s2, opening);
+  check(
+    "withdraw: opener only",
+    thrown(() => withdrawDispute(d2, s2, { by: SPONSOR, at: T0 + 1 }))?.[1],
+    403,
+  );
+  withdrawDispute(d2, s2, { by: HOST, at: T0 + 1 });
+  check(
+    "withdraw: restores status",
+    [d2.status, s2.status, s2.disputeId],
+    ["withdrawn", "voting", null],
+  );
+}
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,304 @@
+/**
+ * Checks venue plans, metering and invoices in `lib/venue-billing.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-billing.ts`
+ *
+ * Billing touches two things a venue notices at once: the music stopping and the amount it is
+ * asked to pay. So what is pinned is when playback may start a song, which plan a month is billed
+ * at, what an invoice adds up to, and which transfers count as paying one.
+ */
+
+import { encodeAbiParameters, pad, parseEther } from "viem";
+
+import {
+  SUBSCRIPTION_GRACE_MS,
+  VENUE_PLANS,
+  billedPlan,
+  billingAccess,
+  buildInvoice,
+  invoicePaymentIn,
+  parseUsage,
+  periodBounds,
+  periodOf,
+  planChangeBlocker,
+  planFor,
+  previousPeriod,
+  type PeriodUsage,
+} from "../lib/venue-billing.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const utc = (iso: string) => Date.parse(iso);
+const HOUR = 3600;
+
+// ---------------------------------------------------------------------------
+// Periods and usage
+// ---------------------------------------------------------------------------
+
+check(
+  "periods are UTC months, and January's previous is last December",
+  [
+    periodOf(utc("2026-03-31T23:59:59Z")),
+    periodOf(utc("2026-04-01T00:00:00Z")),
+    previousPeriod("2026-01"),
+  ],
+  ["2026-03", "2026-04", "2025-12"],
+);
+check(
+  "a period runs from its first midnight to the next month's",
+  periodBounds("2026-02"),
+  { startMs: utc("2026-02-01T00:00:00Z"), endMs: utc("2026-03-01T00:00:00Z") },
+);
+check(
+  "the usage hash reads back with zone seconds split out and absent fields zero",
+  parseUsage("2026-04", {
+    seconds: "7200",
+    plays: 40,
+    "zone:main": "5400",
+    "zone:patio": 1800,
+    peakZones: "2",
+  }),
+  {
+    period: "2026-04",
+    seconds: 7200,
+    plays: 40,
+    zoneSeconds: { main: 5400, patio: 1800 },
+    peakZones: 2,
+    peakDevices: 0,
+  },
+);
+check(
+  "a venue from before plans is on the legacy plan",
+  [planFor(undefined).id, planFor("gold").id, planFor("starter").id],
+  ["standard", "standard", "starter"],
+);
+
+// ---------------------------------------------------------------------------
+// Access
+// ---------------------------------------------------------------------------
+
+const now = utc("2026-04-20T12:00:00Z");
+const usage = (hours: number): PeriodUsage => ({
+  ...parseUsage("2026-04", null),
+  seconds: hours * HOUR,
+});
+const access = (over: Partial<Parameters<typeof billingAccess>[0]>) =>
+  billingAccess({
+    plan: VENUE_PLANS.starter,
+    usage: usage(10),
+    subscription: { active: true, checkedAt: now },
+    overdue: [],
+    now,
+    ...over,
+  });
+
+check("a venue in good standing plays", access({}).ok, true);
+check(
+  "an unknown subscription never stops the music",
+  access({ subscription: null }).ok,
+  true,
+);
+const lapsedAt = now - SUBSCRIPTION_GRACE_MS + 1000;
+check(
+  "a lapsed subscription warns during the grace period, then stops playback",
+  [
+    access({
+      subscription: { active: false, checkedAt: now, lapsedSince: lapsedAt },
+    }),
+    access({
+      subscription: { active: false, checkedAt: now, lapsedSince: lapsedAt },
+      now: now + 1000,
+    }),
+  ].map((a) => [a.ok, a.reason ?? null, a.warnings.length]),
+  [
+    [true, null, 1],
+    [false, "subscription_lapsed", 0],
+  ],
+);
+check(
+  "an overdue invoice stops playback",
+  access({
+    overdue: [{ invoiceId: "v1-2026-03", period: "2026-03", dueAt: now }],
+  }).reason,
+  "invoice_overdue",
+);
+check(
+  "a capped plan warns near its allowance and stops at it",
+  [access({ usage: usage(250) }), access({ usage: usage(300) })].map((a) => [
+    a.ok,
+    a.reason ?? null,
+    a.warnings.length,
+    a.remainingSeconds,
+  ]),
+  [
+    [true, null, 1, 50 * HOUR],
+    [false, "hours_exhausted", 0, 0],
+  ],
+);
+check(
+  "a plan with overage or no allowance keeps playing past it",
+  [
+    access({ plan: VENUE_PLANS.standard, usage: usage(1000) }),
+    access({ plan: VENUE_PLANS.multi, usage: usage(5000) }),
+  ].map((a) => [a.ok, a.remainingSeconds, a.warnings.length]),
+  [
+    [true, null, 1],
+    [true, null, 0],
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Plans
+// ---------------------------------------------------------------------------
+
+check(
+  "a plan change is refused while the venue runs more than the plan allows",
+  [
+    planChangeBlocker(VENUE_PLANS.starter, { zones: 3, devices: 0 }),
+    planChangeBlocker(VENUE_PLANS.standard, { zones: 3, devices: 7 }),
+    planChangeBlocker(VENUE_PLANS.standard, { zones: 3, devices: 5 }),
+  ],
+  [
+    "Starter allows 1 zone(s); delete 2 first",
+    "Standard allows 5 device(s); revoke 2 first",
+    null,
+  ],
+);
+
+const history = [
+  { plan: "starter" as const, since: utc("2026-01-10T00:00:00Z") },
+  { plan: "multi" as const, since: utc("2026-03-15T00:00:00Z") },
+  { plan: "standard" as const, since: utc("2026-03-20T00:00:00Z") },
+];
+check(
+  "a month is billed at the dearest plan held in it, and never at a later one",
+  ["2026-02", "2026-03", "2026-04"].map(
+    (p) => billedPlan(p, history, "standard").id,
+  ),
+  ["starter", "multi", "standard"],
+);
+check(
+  "without history the current plan is billed",
+  billedPlan("2026-03", undefined, "multi").id,
+  "multi",
+);
+
+// ---------------------------------------------------------------------------
+// Invoices
+// ---------------------------------------------------------------------------
+
+const token = `0x${"aa".repeat(20)}` as const;
+const payTo = `0x${"bb".repeat(20)}` as const;
+const owner = `0x${"cc".repeat(20)}` as const;
+const invoiceFor = (
+  u: PeriodUsage,
+  plan: "starter" | "standard",
+  billingSince = 0,
+) =>
+  buildInvoice({
+    venueId: "v1",
+    usage: u,
+    planHistory: undefined,
+    currentPlanId: plan,
+    billingSince,
+    token,
+    payTo,
+    issuedAt: utc("2026-05-01T00:00:30Z"),
+  });
+
+const standard = invoiceFor(
+  { ...usage(0), seconds: 902 * HOUR + 1 },
+  "standard",
+);
+check(
+  "overage is billed per started hour on top of the fee",
+  [
+    standard.invoiceId,
+    standard.lines.map((l) => [l.quantity, l.unitWmon]),
+    standard.totalWei,
+  ],
+  [
+    "v1-2026-04",
+    [
+      [1, "400"],
+      [3, "0.5"],
+    ],
+    parseEther("401.5").toString(),
+  ],
+);
+check(
+  "a capped plan has no overage line",
+  invoiceFor(usage(300), "starter").totalWei,
+  parseEther("150").toString(),
+);
+check(
+  "billing that began mid-month pays for the days from then on",
+  invoiceFor(usage(10), "starter", utc("2026-04-21T09:00:00Z")).lines.map(
+    (l) => [l.quantity, l.amountWei],
+  ),
+  [[10, ((parseEther("150") * 10n) / 30n).toString()]],
+);
+check(
+  "an invoice is due fourteen days after it is issued",
+  standard.dueAt - standard.issuedAt,
+  14 * 24 * HOUR * 1000,
+);
+
+// ---------------------------------------------------------------------------
+// Payment
+// ---------------------------------------------------------------------------
+
+const TRANSFER =
+  "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+const transfer = (
+  contract: string,
+  from: string,
+  to: string,
+  amount: bigint,
+) => ({
+  address: contract,
+  topics: [
+    TRANSFER,
+    pad(from as `0x${string}`),
+    pad(to as `0x${string}`),
+  ] as string[],
+  data: encodeAbiParameters([{ type: "uint256" }], [amount]),
+});
+
+check(
+  "only WMON transfers from the owner to the treasury pay, summed",
+  invoicePaymentIn(
+    [
+      transfer(token, owner, payTo, parseEther("400")),
+      transfer(
+        token.toUpperCase().replace("0X", "0x"),
+        owner,
+        payTo,
+        parseEther("1.5"),
+      ),
+      transfer(`0x${"dd".repeat(20)}`, owner, payTo, parseEther("1000")),
+      transfer(token, `0x${"ee".repeat(20)}`, payTo, parseEther("1000")),
+      transfer(token, owner, `0x${"ee".repeat(20)}`, parseEther("1000")),
+    ],
+    standard,
+    owner,
+  ).toString(),
+  parseEther("401.5").toString(),
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,290 @@
+/**
+ * Checks jukebox settings, request limits and ranking in `lib/venue-jukebox.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-jukebox.ts`
+ *
+ * A jukebox is the venue's room handed to strangers with phones, so the pins are on the venue's
+ * side: what it can refuse, how often one patron may ask, and that the crowd's votes, not the
+ * loudest patron, decide what plays next.
+ */
+
+import {
+  DEFAULT_JUKEBOX_SETTINGS,
+  droppedRequestRefund,
+  MAX_PENDING_REQUESTS,
+  isRequestable,
+  parseJukeboxSettings,
+  publicRequest,
+  rankRequests,
+  requestBlocker,
+  requestPriceWei,
+  requestsInWindow,
+  type JukeboxRequest,
+  type JukeboxSettings,
+} from "../lib/venue-jukebox.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const MINUTE = 60_000;
+const now = Date.parse("2026-06-12T21:00:00Z");
+
+const on: JukeboxSettings = { ...DEFAULT_JUKEBOX_SETTINGS, enabled: true };
+
+const request = (
+  tokenId: string,
+  voters: string[],
+  requestedAt: number,
+): JukeboxRequest => ({
+  tokenId,
+  name: `Song ${tokenId}`,
+  artist: "A",
+  artistAddress: "",
+  audioUrl: "ipfs://a",
+  imageUrl: "",
+  zoneId: "main",
+  requestedBy: voters[0],
+  requestedAt,
+  voters,
+});
+
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+check(
+  "the jukebox is off until a venue turns it on",
+  DEFAULT_JUKEBOX_SETTINGS.enabled,
+  false,
+);
+const parsed = parseJukeboxSettings(
+  {
+    enabled: true,
+    zoneId: "patio",
+    requestsPerPatron: "2",
+    bannedTokenIds: [7, "7", "12"],
+    energy: { min: "medium", max: "high" },
+    priceWmon: "0.5",
+  },
+  { ...DEFAULT_JUKEBOX_SETTINGS, shortId: "abc12345" },
+);
+check(
+  "an update applies on top of the current settings and keeps the QR link",
+  parsed,
+  {
+    ok: true,
+    settings: {
+      ...DEFAULT_JUKEBOX_SETTINGS,
+      shortId: "abc12345",
+      enabled: true,
+      zoneId: "patio",
+      requestsPerPatron: 2,
+      bannedTokenIds: ["7", "12"],
+      energy: { min: "medium", max: "high" },
+      priceWmon: "0.5",
+    },
+  },
+);
+check(
+  "every bad field is reported",
+  parseJukeboxSettings({
+    enabled: "yes",
+    zoneId: "Patio",
+    requestsPerPatron: 0,
+    windowMinutes: 2,
+    bannedTokenIds: ["x"],
+    energy: { min: "high", max: "low" },
+    priceWmon: "-1",
+  }),
+  {
+    ok: false,
+    errors: [
+      "enabled must be true or false",
+      "zoneId must be a zone id",
+      "requestsPerPatron must be 1-20",
+      "windowMinutes must be 5-1440",
+      "bannedTokenIds must list up to 500 token ids",
+      "energy.min must not be above energy.max",
+      "priceWmon must be a WMON amount, e.g. 0.5",
+    ],
+  },
+);
+check(
+  "the price is decimal WMON",
+  [
+    requestPriceWei({ priceWmon: "0" }),
+    requestPriceWei({ priceWmon: "1.25" }),
+  ].map(String),
+  ["0", "1250000000000000000"],
+);
+
+// ---------------------------------------------------------------------------
+// What may be requested
+// ---------------------------------------------------------------------------
+
+const ranged = {
+  bannedTokenIds: ["3"],
+  energy: { min: "low", max: "medium" },
+} as const;
+check(
+  "banned tracks and tracks outside the energy range are refused; untagged ones too once a range is set",
+  [
+    isRequestable(
+      { ...ranged, bannedTokenIds: [...ranged.bannedTokenIds] },
+      "3",
+      { energy: "low" },
+    ),
+    isRequestable({ ...ranged, bannedTokenIds: [] }, "1", { energy: "medium" }),
+    isRequestable({ ...ranged, bannedTokenIds: [] }, "1", { energy: "high" }),
+    isRequestable({ ...ranged, bannedTokenIds: [] }, "1", undefined),
+    isRequestable({ bannedTokenIds: [], energy: null }, "1", undefined),
+  ],
+  [false, true, false, false, true],
+);
+check(
+  "only requests inside the rolling window count",
+  requestsInWindow(
+    [now - 5 * MINUTE, now - 59 * MINUTE, now - 60 * MINUTE],
+    60,
+    now,
+  ),
+  2,
+);
+
+const blocker = (over: Partial<Parameters<typeof requestBlocker>[0]>) =>
+  requestBlocker({
+    settings: on,
+    tokenId: "1",
+    tags: undefined,
+    existing: null,
+    pendingCount: 0,
+    patron: "fid:9",
+    patronRequestTimes: [],
+    now,
+    ...over,
+  });
+
+check("a patron within limits may request", blocker({}), null);
+check(
+  "a patron at the cap cannot request a new song but can still vote",
+  [
+    blocker({
+      patronRequestTimes: [now - MINUTE, now - 2 * MINUTE, now - 3 * MINUTE],
+    }),
+    blocker({
+      patronRequestTimes: [now - MINUTE, now - 2 * MINUTE, now - 3 * MINUTE],
+      existing: request("1", ["fid:1"], now),
+    }),
+  ],
+  ["You can request 3 song(s) every 60 minutes", null],
+);
+check(
+  "nobody votes twice, and a full list only takes votes",
+  [
+    blocker({ existing: request("1", ["fid:1", "fid:9"], now) }),
+    blocker({ pendingCount: MAX_PENDING_REQUESTS }),
+  ],
+  [
+    "You already asked for this one",
+    "The request list is full; upvote a song already on it",
+  ],
+);
+check(
+  "a venue that turned the jukebox off or banned the song takes neither requests nor votes",
+  [
+    blocker({ settings: DEFAULT_JUKEBOX_SETTINGS }),
+    blocker({
+      settings: { ...on, bannedTokenIds: ["1"] },
+      existing: request("1", ["fid:1"], now),
+    }),
+  ],
+  [
+    "This venue is not taking requests right now",
+    "This venue does not take requests for that song",
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Order
+// ---------------------------------------------------------------------------
+
+check(
+  "requests rank by votes, then by who asked first",
+  rankRequests([
+    request("1", ["a"], now - 3 * MINUTE),
+    request("2", ["b", "c"], now - MINUTE),
+    request("3", ["d"], now - 5 * MINUTE),
+    request("4", ["e", "f"], now - 2 * MINUTE),
+  ]).map((r) => r.tokenId),
+  ["4", "2", "3", "1"],
+);
+check(
+  "patrons see vote counts, not voters or payments",
+  publicRequest(
+    {
+      ...request("1", ["fid:1", "fid:9"], now),
+      payment: { txHash: "0x1", from: "0x2", amountWei: "1" },
+    },
+    "fid:9",
+  ),
+  {
+    tokenId: "1",
+    name: "Song 1",
+    artist: "A",
+    artistAddress: "",
+    audioUrl: "ipfs://a",
+    imageUrl: "",
+    zoneId: "main",
+    requestedAt: now,
+    votes: 2,
+    voted: true,
+  },
+);
+
+check(
+  "a dropped paid request leaves a refund for its payer; a free one does not",
+  [
+    droppedRequestRefund(
+      "v1",
+      {
+        ...request("7", ["fid:42", "fid:9"], now - MINUTE),
+        payment: {
+          txHash: "0x1",
+          from: "0xAbC0000000000000000000000000000000000001",
+          amountWei: "1250000000000000000",
+        },
+      },
+      now,
+    ),
+    droppedRequestRefund("v1", request("8", ["fid:1"], now), now),
+  ],
+  [
+    {
+      id: `jukebox:v1:7:${now - MINUTE}`,
+      stationId: "venue:v1",
+      tokenId: "7",
+      queuedBy: "0xabc0000000000000000000000000000000000001",
+      queuedByFid: 42,
+      paidAmount: "1.25",
+      queuedAt: now - MINUTE,
+      droppedAt: now,
+    },
+    null,
+  ],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
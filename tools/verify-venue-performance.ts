@@ -0,0 +1,275 @@
+/**
+ * Checks venue public-performance reports in `lib/venue-performance.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-performance.ts`
+ *
+ * A report is only worth anything if an auditor can trust it months later, so what is pinned
+ * here is what that trust rests on: every play in the period is listed exactly once, nothing
+ * from outside it is, the CSV is byte-for-byte reproducible so its hash means something, and a
+ * signature only verifies for the report it was made over.
+ */
+
+import { privateKeyToAccount } from "viem/accounts";
+
+import {
+  MAX_REPORT_DAYS,
+  buildPerformanceReport,
+  mergePlays,
+  parseReportRange,
+  performanceReportToCsv,
+  playKey,
+  reportDigest,
+  trackRights,
+  verifyIssuedReport,
+  type IssuedReport,
+  type PerformanceEntry,
+  type PlaySubmission,
+} from "../lib/venue-performance.ts";
+import type { RightsStatus } from "../lib/rights-declaration.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const utc = (iso: string) => Date.parse(iso);
+const now = utc("2026-06-15T12:00:00Z");
+
+// ---------------------------------------------------------------------------
+// Range
+// ---------------------------------------------------------------------------
+
+const april = parseReportRange("2026-04-01", "2026-04-30", now);
+check(
+  "a month is its first midnight to the next month's, end exclusive",
+  april.ok && [april.startMs, april.endMs],
+  [utc("2026-04-01T00:00:00Z"), utc("2026-05-01T00:00:00Z")],
+);
+check(
+  "impossible dates, reversed ranges, the future and over-long ranges are refused",
+  [
+    parseReportRange("2026-02-30", "2026-03-01", now),
+    parseReportRange("2026-04-30", "2026-04-01", now),
+    parseReportRange("2026-07-01", "2026-07-02", now),
+    parseReportRange("2026-01-01", "2026-06-01", now),
+    parseReportRange("4/1/2026", "2026-04-30", now),
+  ].map((r) => (r.ok ? "ok" : r.error)),
+  [
+    "from and to must be dates, YYYY-MM-DD",
+    "to is before from",
+    "from is in the future",
+    `A report covers at most ${MAX_REPORT_DAYS} days`,
+    "from and to must be dates, YYYY-MM-DD",
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Plays
+// ---------------------------------------------------------------------------
+
+const play = (
+  zoneId: string,
+  tokenId: string,
+  iso: string,
+  duration = 180,
+): PerformanceEntry => ({
+  zoneId,
+  tokenId,
+  name: `Track ${tokenId}`,
+  artist: "Artist, The",
+  playedAt: utc(iso),
+  duration,
+});
+
+const logged = [
+  play("main", "7", "2026-04-01T20:00:00Z"),
+  play("patio", "7", "2026-04-01T20:00:00Z"),
+  play("main", "8", "2026-04-30T23:59:00Z"),
+  play("main", "9", "2026-05-01T00:00:00Z"),
+];
+const history = [
+  play("main", "8", "2026-04-30T23:59:00Z"),
+  play("main", "6", "2026-04-01T19:57:00Z"),
+  play("main", "5", "2026-03-31T23:59:59Z"),
+];
+const plays = mergePlays(
+  [logged, history],
+  april.ok ? april.startMs : 0,
+  april.ok ? april.endMs : 0,
+);
+check(
+  "log and history merge once each, oldest first, inside the period only",
+  plays.map(playKey),
+  [
+    `main:6:${utc("2026-04-01T19:57:00Z")}`,
+    `main:7:${utc("2026-04-01T20:00:00Z")}`,
+    `patio:7:${utc("2026-04-01T20:00:00Z")}`,
+    `main:8:${utc("2026-04-30T23:59:00Z")}`,
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Report
+// ---------------------------------------------------------------------------
+
+const status = (
+  tokenId: string,
+  notPro: boolean,
+  version?: string,
+): RightsStatus =>
+  ({
+    status: "cleared",
+    version: version as string,
+    agreementCid: `bafy${tokenId}`,
+    agreementHash: `0x${tokenId.repeat(64)}`,
+    declaration: { notPro, version } as RightsStatus["declaration"],
+    tokenId,
+    storedAt: "",
+  }) as RightsStatus;
+
+check(
+  "a record from before versions were stored reads as 1.0",
+  trackRights(status("6", true)).version,
+  "1.0",
+);
+
+const submission: PlaySubmission = {
+  txHash: `0x${"ab".repeat(32)}`,
+  contract: "VenueRegistry",
+  blockNumber: 123,
+  sessionId: 4,
+  submittedAt: utc("2026-04-01T20:30:00Z"),
+};
+const input = {
+  venue: { venueId: "v1", name: "The Bar", ownerAddress: "0xowner" },
+  from: "2026-04-01",
+  to: "2026-04-30",
+  plays,
+  rights: {
+    "6": trackRights(status("6", true, "1.1")),
+    "7": trackRights(status("7", false, "1.1")),
+    "8": null,
+  },
+  submissions: {
+    [playKey(plays[0])]: submission,
+    [playKey(plays[1])]: submission,
+  },
+  generatedAt: now,
+};
+const report = buildPerformanceReport(input);
+check("totals", report.totals, {
+  plays: 4,
+  seconds: 720,
+  tracks: 3,
+  onChain: 2,
+  notSubmitted: 2,
+  undeclared: 3,
+});
+
+const csv = performanceReportToCsv(report);
+const lines = csv.split("\r\n");
+check(
+  "the CSV opens with the venue, period and declaration",
+  lines.slice(0, 6).map((l) => l.split(",")[0]),
+  ["report", "venue_id", "venue_name", "venue_owner", "from_utc", "to_utc"],
+);
+const firstPlay =
+  lines.indexOf(lines.find((l) => l.startsWith("played_at_utc"))!) + 1;
+check(
+  "a play row carries its agreement and transaction, with commas quoted",
+  lines[firstPlay],
+  [
+    "2026-04-01T19:57:00.000Z",
+    "main",
+    "6",
+    "Track 6",
+    '"Artist, The"',
+    "180",
+    "cleared",
+    "1.1",
+    `0x${"6".repeat(64)}`,
+    "bafy6",
+    "yes",
+    "VenueRegistry",
+    submission.txHash,
+    "123",
+  ].join(","),
+);
+check(
+  "a master with no rights record, not yet on-chain, says so",
+  lines[firstPlay + 3].endsWith(",180,no record,,,,,not submitted,,"),
+  true,
+);
+
+check(
+  "the same report always hashes the same",
+  reportDigest(performanceReportToCsv(buildPerformanceReport(input))),
+  reportDigest(csv),
+);
+check(
+  "and any change to a play changes the hash",
+  reportDigest(
+    performanceReportToCsv(
+      buildPerformanceReport({
+        ...input,
+        plays: plays.map((p, i) => (i === 2 ? { ...p, duration: 181 } : p)),
+      }),
+    ),
+  ) === reportDigest(csv),
+  false,
+);
+check(
+  "the CSV digest is the hash of the bytes an auditor downloads",
+  reportDigest(new TextEncoder().encode(csv)),
+  reportDigest(csv),
+);
+
+// ---------------------------------------------------------------------------
+// Signature
+// ---------------------------------------------------------------------------
+
+const keeper = privateKeyToAccount(`0x${"11".repeat(32)}`);
+const other = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const digest = reportDigest(csv);
+const issued: IssuedReport = {
+  digest,
+  format: report.format,
+  venueId: "v1",
+  venueName: "The Bar",
+  from: report.from,
+  to: report.to,
+  generatedAt: report.generatedAt,
+  plays: report.totals.plays,
+  signer: keeper.address,
+  signature: await keeper.signMessage({ message: { raw: digest } }),
+};
+check(
+  "the keeper's signature over the digest verifies",
+  await verifyIssuedReport(issued, keeper.address),
+  true,
+);
+check(
+  "not against another signer, nor for another digest",
+  [
+    await verifyIssuedReport(issued, other.address),
+    await verifyIssuedReport(
+      { ...issued, digest: reportDigest(`${csv} `) },
+      keeper.address,
+    ),
+  ],
+  [false, false],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
@@ -0,0 +1,317 @@
+/**
+ * Checks the offline venue device protocol in `lib/venue-receipts.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-receipts.ts`
+ *
+ * Every accepted receipt becomes a buffered play and, through the batch, an artist payout. So
+ * the checks are mostly refusals: each way a device could claim a play it did not make — a
+ * track it was not told to play, a position it already claimed, a time it could not have
+ * played, someone else's key — has to be turned away, and an honest offline day must not be.
+ *
+ * Keys, seed and clock are fixed, so every check is deterministic.
+ */
+
+import { encodePacked, keccak256, verifyMessage, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+
+import {
+  CLOCK_SKEW_MS,
+  MIN_PLAY_SECONDS,
+  WINDOW_TTL_MS,
+  parseReceipts,
+  receiptMessage,
+  verifyWindowReceipts,
+  windowMessage,
+  type PlayReceipt,
+  type PlaylistWindow,
+  type StoredWindow,
+  type VenueDevice,
+} from "../lib/venue-receipts.ts";
+import { derivePlayOrder, playOrderAt, zoneSeed } from "../lib/venue-zones.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const server = privateKeyToAccount(`0x${"11".repeat(32)}`);
+const deviceKey = privateKeyToAccount(`0x${"22".repeat(32)}`);
+const otherKey = privateKeyToAccount(`0x${"33".repeat(32)}`);
+
+// ---------------------------------------------------------------------------
+// Play order
+// ---------------------------------------------------------------------------
+
+const seed: Hex = `0x${"5e".repeat(32)}`;
+const catalog = ["11", "12", "13", "14", "15", "16", "17"];
+
+const onChain = (i: number) =>
+  catalog[
+    Number(
+      BigInt(
+        keccak256(encodePacked(["bytes32", "uint256"], [seed, BigInt(i)])),
+      ) % BigInt(catalog.length),
+    )
+  ];
+check(
+  "playOrderAt matches abi.encodePacked(seed, index) on-chain",
+  [0, 1, 2, 250].map((i) => playOrderAt(seed, catalog, i)),
+  [0, 1, 2, 250].map(onChain),
+);
+check(
+  "derivePlayOrder is playOrderAt from position 0",
+  derivePlayOrder(seed, catalog, 4),
+  [0, 1, 2, 3].map((i) => playOrderAt(seed, catalog, i)),
+);
+
+// ---------------------------------------------------------------------------
+// A window
+// ---------------------------------------------------------------------------
+
+const issuedAt = Date.parse("2026-05-01T18:00:00Z");
+const zoneId = "patio";
+const zSeed = zoneSeed(seed, zoneId);
+const startIndex = 40;
+const window: PlaylistWindow = {
+  windowId: "w1",
+  venueId: "venue-1",
+  zoneId,
+  device: deviceKey.address,
+  sessionId: 1,
+  seedHash: keccak256(seed),
+  startIndex,
+  count: 6,
+  daypart: null,
+  volume: 70,
+  issuedAt,
+  expiresAt: issuedAt + WINDOW_TTL_MS,
+  tracks: Array.from({ length: 6 }, (_, i) => ({
+    index: startIndex + i,
+    tokenId: playOrderAt(zSeed, catalog, startIndex + i) as string,
+    name: `Track ${i}`,
+    artist: "0xartist",
+    audioUrl: "",
+    imageUrl: "",
+    duration: 200,
+  })),
+};
+const stored: StoredWindow = { window, seed, catalog };
+const device: VenueDevice = {
+  address: deviceKey.address,
+  name: "Patio Pi",
+  zoneId,
+  registeredAt: issuedAt - 1000,
+};
+const tokenAt = (i: number) => playOrderAt(zSeed, catalog, i);
+
+const windowSignature = await server.signMessage({
+  message: windowMessage(window),
+});
+check(
+  "a device can check a window against the server address it was given",
+  await verifyMessage({
+    address: server.address,
+    message: windowMessage(window),
+    signature: windowSignature,
+  }),
+  true,
+);
+check(
+  "and a window with a swapped track no longer verifies",
+  await verifyMessage({
+    address: server.address,
+    message: windowMessage({
+      ...window,
+      tracks: [
+        { ...window.tracks[0], tokenId: "99" },
+        ...window.tracks.slice(1),
+      ],
+    }),
+    signature: windowSignature,
+  }),
+  false,
+);
+
+async function receipt(
+  index: number,
+  startMinutes: number,
+  opts: { tokenId?: string; duration?: number; key?: typeof deviceKey } = {},
+): Promise<PlayReceipt> {
+  const body = {
+    windowId: "w1",
+    index,
+    tokenId: opts.tokenId ?? window.tracks[index - startIndex]?.tokenId ?? "11",
+    startedAt: issuedAt + startMinutes * 60_000,
+    duration: opts.duration ?? 180,
+  };
+  const signature = await (opts.key ?? deviceKey).signMessage({
+    message: receiptMessage("venue-1", body),
+  });
+  return { ...body, signature };
+}
+
+const now = issuedAt + 24 * 60 * 60 * 1000;
+async function verify(
+  receipts: PlayReceipt[],
+  over: { stored?: StoredWindow; device?: VenueDevice; seen?: number[] } = {},
+) {
+  const v = await verifyWindowReceipts({
+    stored: over.stored ?? stored,
+    device: over.device ?? device,
+    receipts,
+    seen: new Set(over.seen ?? []),
+    now,
+    tokenAt,
+  });
+  return {
+    accepted: v.accepted.map((r) => r.index),
+    rejected: v.rejected.map((r) => `${r.index}:${r.reason}`),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Honest plays
+// ---------------------------------------------------------------------------
+
+check(
+  "an offline evening played in order is accepted in full",
+  await verify([
+    await receipt(40, 10),
+    await receipt(41, 14),
+    await receipt(42, 18),
+  ]),
+  { accepted: [40, 41, 42], rejected: [] },
+);
+check(
+  "uploaded out of order is fine; overlap is judged by start time",
+  await verify([await receipt(42, 18), await receipt(40, 10)]),
+  { accepted: [40, 42], rejected: [] },
+);
+check(
+  "a clock a minute behind the server is tolerated",
+  await verify([await receipt(40, -1)]),
+  { accepted: [40], rejected: [] },
+);
+
+// ---------------------------------------------------------------------------
+// Refusals
+// ---------------------------------------------------------------------------
+
+const wrongToken = window.tracks[0].tokenId === "11" ? "12" : "11";
+check(
+  "a track the seed did not put at that position",
+  await verify([await receipt(40, 10, { tokenId: wrongToken })]),
+  { accepted: [], rejected: ["40:not_in_play_order"] },
+);
+check(
+  "a position outside the window",
+  await verify([await receipt(46, 10), await receipt(39, 14)]),
+  { accepted: [], rejected: ["46:out_of_window", "39:out_of_window"] },
+);
+check(
+  "a receipt signed by another key",
+  await verify([await receipt(40, 10, { key: otherKey })]),
+  { accepted: [], rejected: ["40:bad_signature"] },
+);
+const edited = { ...(await receipt(40, 10)), duration: 200 };
+check("a receipt edited after signing", await verify([edited]), {
+  accepted: [],
+  rejected: ["40:bad_signature"],
+});
+check(
+  "the same position twice, in one upload or across uploads",
+  [
+    await verify([await receipt(40, 10), await receipt(40, 20)]),
+    await verify([await receipt(41, 10)], { seen: [41] }),
+  ],
+  [
+    { accepted: [40], rejected: ["40:duplicate"] },
+    { accepted: [], rejected: ["41:duplicate"] },
+  ],
+);
+check(
+  `shorter than ${MIN_PLAY_SECONDS}s, or longer than the track`,
+  await verify([
+    await receipt(40, 10, { duration: MIN_PLAY_SECONDS - 1 }),
+    await receipt(41, 20, { duration: 260 }),
+  ]),
+  { accepted: [], rejected: ["40:too_short", "41:too_long"] },
+);
+check(
+  "before the window was issued, after it expired, or in the future",
+  await verify([
+    await receipt(40, -(CLOCK_SKEW_MS / 60_000) - 1),
+    await receipt(41, WINDOW_TTL_MS / 60_000 + 1),
+    await receipt(42, 24 * 60),
+  ]),
+  {
+    accepted: [],
+    rejected: [
+      "40:outside_window_time",
+      "41:outside_window_time",
+      "42:in_future",
+    ],
+  },
+);
+check(
+  "two plays at once from one device",
+  await verify([await receipt(40, 10), await receipt(41, 11)]),
+  { accepted: [40], rejected: ["41:overlaps"] },
+);
+check(
+  "a play overlapping one already credited",
+  await verify([await receipt(41, 10)], {
+    device: { ...device, lastPlayEnd: issuedAt + 12 * 60_000 },
+  }),
+  { accepted: [], rejected: ["41:overlaps"] },
+);
+check(
+  "a stored seed that no longer matches the committed hash rejects the whole window",
+  await verify([await receipt(40, 10), await receipt(41, 14)], {
+    stored: { ...stored, seed: `0x${"00".repeat(32)}` },
+  }),
+  { accepted: [], rejected: ["40:seed_mismatch", "41:seed_mismatch"] },
+);
+check(
+  "a revoked device, or a window issued to a different one",
+  [
+    await verify([await receipt(40, 10)], {
+      device: { ...device, revokedAt: issuedAt },
+    }),
+    await verify([await receipt(40, 10)], {
+      device: { ...device, address: otherKey.address },
+    }),
+  ],
+  [
+    { accepted: [], rejected: ["40:device_revoked"] },
+    { accepted: [], rejected: ["40:wrong_device"] },
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Upload shape
+// ---------------------------------------------------------------------------
+
+check(
+  "malformed uploads are refused before any signature is checked",
+  [
+    parseReceipts({}).ok,
+    parseReceipts([{ windowId: "w1", index: "40" }]),
+    parseReceipts([await receipt(40, 10)]).ok,
+  ],
+  [false, { ok: false, error: "receipts[0] is malformed" }, true],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
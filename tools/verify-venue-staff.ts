@@ -0,0 +1,246 @@
+/**
+ * Checks venue roles, key scoping and audit entries in `lib/venue-staff.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-staff.ts`
+ *
+ * The point of members is that handing a tablet to the bar no longer hands over the venue. So
+ * what is pinned is the ceiling each role puts on its permissions, how a zone-bound key is kept
+ * inside its zone, who may manage whom, and which signed-in identity maps to which member.
+ */
+
+import {
+  ROLE_PERMISSIONS,
+  auditEntry,
+  can,
+  canManageKeysOf,
+  canManageRole,
+  effectivePermissions,
+  memberActor,
+  memberForIdentity,
+  ownerMember,
+  parseMemberInput,
+  zoneKeyActor,
+  type VenueMember,
+} from "../lib/venue-staff.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const wallet = (byte: string) => `0x${byte.repeat(20)}` as const;
+
+const member = (over: Partial<VenueMember>): VenueMember => ({
+  memberId: "m1",
+  role: "staff",
+  name: "Sam",
+  addedAt: 1,
+  addedBy: "owner",
+  ...over,
+});
+
+// ---------------------------------------------------------------------------
+// Roles and members
+// ---------------------------------------------------------------------------
+
+check(
+  "only the owner holds billing",
+  (["owner", "manager", "staff"] as const).map((r) =>
+    ROLE_PERMISSIONS[r].includes("billing"),
+  ),
+  [true, false, false],
+);
+check(
+  "narrowed permissions never reach past the role",
+  [
+    effectivePermissions({ role: "staff" }),
+    effectivePermissions({
+      role: "staff",
+      permissions: ["playback", "reports", "billing"],
+    }),
+    effectivePermissions({ role: "manager", permissions: ["reports"] }),
+  ],
+  [["playback", "skip", "queue"], ["playback"], ["reports"]],
+);
+check(
+  "the owner member comes from the venue record, lowercased",
+  ownerMember({
+    ownerAddress: wallet("AB"),
+    ownerFid: 7,
+    createdAt: "2026-01-01T00:00:00Z",
+  }),
+  {
+    memberId: "owner",
+    role: "owner",
+    name: "Owner",
+    address: wallet("ab"),
+    fid: 7,
+    addedAt: Date.parse("2026-01-01T00:00:00Z"),
+    addedBy: "owner",
+  },
+);
+check(
+  "a new member needs a lower role, a name and an identity",
+  [
+    parseMemberInput({ role: "owner", name: "A", fid: 1 }),
+    parseMemberInput({ role: "staff", name: "  ", fid: 1 }),
+    parseMemberInput({ role: "staff", name: "A" }),
+    parseMemberInput({ role: "staff", name: "A", address: "0x12" }),
+    parseMemberInput({ role: "staff", name: "A", fid: "1.5" }),
+    parseMemberInput({
+      role: "staff",
+      name: "A",
+      fid: 1,
+      permissions: ["playback", "launch"],
+    }),
+  ].map((r) => (r.ok ? "ok" : r.error)),
+  [
+    "role must be manager or staff",
+    "name required, up to 60 characters",
+    "A member needs a wallet address or a Farcaster ID",
+    "address must be a wallet address",
+    "fid must be a Farcaster ID",
+    "permissions must be a list of playback, skip, queue, schedule, keys, devices, reports, staff, billing",
+  ],
+);
+check(
+  "input is trimmed and typed; an update may carry only what changes",
+  [
+    parseMemberInput({
+      role: "manager",
+      name: " Alex ",
+      address: wallet("cd"),
+      fid: "42",
+    }),
+    parseMemberInput({ name: "Alex B" }, true),
+  ],
+  [
+    {
+      ok: true,
+      input: { role: "manager", name: "Alex", address: wallet("cd"), fid: 42 },
+    },
+    { ok: true, input: { name: "Alex B" } },
+  ],
+);
+
+const members = [
+  member({ memberId: "m1", address: wallet("01"), removedAt: 5 }),
+  member({ memberId: "m2", address: wallet("01") }),
+  member({ memberId: "m3", fid: 99 }),
+];
+check(
+  "a signed-in wallet or FID finds its active member, never a removed one",
+  [
+    memberForIdentity(members, { addresses: [wallet("01").toUpperCase()] }),
+    memberForIdentity(members, { addresses: [], fid: 99 }),
+    memberForIdentity(members.slice(0, 1), { addresses: [wallet("01")] }),
+  ].map((m) => m?.memberId ?? null),
+  ["m2", "m3", null],
+);
+
+// ---------------------------------------------------------------------------
+// Actors
+// ---------------------------------------------------------------------------
+
+const owner = memberActor(
+  ownerMember({ ownerAddress: wallet("aa"), createdAt: "" }),
+  { keyId: "primary", zoneId: null },
+);
+const manager = memberActor(member({ memberId: "mg", role: "manager" }), null);
+const staff = memberActor(member({ memberId: "st" }), {
+  keyId: "k1",
+  zoneId: null,
+});
+const patioStaff = memberActor(member({ memberId: "st" }), {
+  keyId: "k2",
+  zoneId: "patio",
+});
+
+check(
+  "a zone-bound actor acts only in its zone and never venue-wide",
+  [
+    can(patioStaff, "skip", "patio"),
+    can(patioStaff, "skip", "main"),
+    can(patioStaff, "skip"),
+    can(staff, "skip", "main"),
+    can(staff, "schedule", "main"),
+  ],
+  [true, false, false, true, false],
+);
+check(
+  "a zone's own key is staff in that zone",
+  [zoneKeyActor("bar"), can(zoneKeyActor("bar"), "queue", "bar")],
+  [
+    {
+      memberId: null,
+      name: "Zone key (bar)",
+      role: "staff",
+      permissions: ["playback", "skip", "queue"],
+      keyId: "zone:bar",
+      zoneId: "bar",
+    },
+    true,
+  ],
+);
+check(
+  "members are managed only from a higher role",
+  [
+    canManageRole(owner, "manager"),
+    canManageRole(manager, "staff"),
+    canManageRole(manager, "manager"),
+    canManageRole(staff, "staff"),
+  ],
+  [true, true, false, false],
+);
+check(
+  "keys are issued for oneself or for a lower role",
+  [
+    canManageKeysOf(manager, { memberId: "mg", role: "manager" }),
+    canManageKeysOf(manager, { memberId: "other", role: "manager" }),
+    canManageKeysOf(manager, { memberId: "st", role: "staff" }),
+    canManageKeysOf(staff, { memberId: "st", role: "staff" }),
+  ],
+  [true, false, true, false],
+);
+
+// ---------------------------------------------------------------------------
+// Audit
+// ---------------------------------------------------------------------------
+
+check(
+  "an audit entry names the member and key, with detail capped",
+  auditEntry(
+    patioStaff,
+    "queue_song",
+    { zoneId: "patio", detail: "x".repeat(300) },
+    10,
+  ),
+  {
+    at: 10,
+    memberId: "st",
+    name: "Sam",
+    keyId: "k2",
+    action: "queue_song",
+    zoneId: "patio",
+    detail: "x".repeat(200),
+  },
+);
+check(
+  "empty extras are left out",
+  Object.keys(auditEntry(owner, "set_plan", { detail: "" }, 10)),
+  ["at", "memberId", "name", "keyId", "action"],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");
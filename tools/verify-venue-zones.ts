@@ -0,0 +1,270 @@
+/**
+ * Checks venue zone schedules in `lib/venue-zones.ts`.
+ *
+ * Run: `node --experimental-strip-types tools/verify-venue-zones.ts`
+ *
+ * A zone's schedule is typed in by a bar owner and evaluated every 30 seconds by the scheduler,
+ * so the things pinned here are the ones an owner would notice from the floor:
+ *
+ *  1. **Dayparts follow the wall clock across daylight saving.** Happy hour at 17:00 is 17:00
+ *     local in March whichever side of the change it is.
+ *  2. **A late-night window belongs to the night it started.** 01:30 Saturday is Friday night.
+ *  3. **A daypart never silences a zone.** With nothing tagged to fit, it relaxes energy, then
+ *     genre, and plays the whole cleared catalogue.
+ *  4. **The main zone's play order is unchanged by zones existing**, and other zones differ.
+ */
+
+import {
+  DEFAULT_ZONE_ID,
+  activeZoneDaypart,
+  isZoneId,
+  localClock,
+  parseZoneSchedule,
+  publicZone,
+  zoneIdFrom,
+  zonePlaylist,
+  zoneSeed,
+  zoneVolume,
+  type ZoneSchedule,
+  type ZoneTrackTags,
+} from "../lib/venue-zones.ts";
+
+const failures: string[] = [];
+let checks = 0;
+
+function check(name: string, actual: unknown, expected: unknown) {
+  checks++;
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e)
+    failures.push(`${name}\n      expected ${e}\n      got      ${a}`);
+}
+
+const utc = (iso: string) => Date.parse(iso);
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+const parsed = parseZoneSchedule({
+  timezone: "America/New_York",
+  defaultVolume: 60,
+  dayparts: [
+    {
+      name: " Happy hour ",
+      days: [1, 2, 3, 4, 5],
+      start: "17:00",
+      end: "20:00",
+      genres: [" Funk", "SOUL"],
+      energy: ["high"],
+      volume: 85,
+    },
+    { name: "Late", start: "22:00", end: "02:00", volume: 40 },
+  ],
+});
+check("a valid schedule is accepted", parsed.ok, true);
+const schedule = (parsed as { schedule: ZoneSchedule }).schedule;
+check(
+  "names are trimmed and genres lower-cased",
+  [schedule.dayparts[0].name, schedule.dayparts[0].genres],
+  ["Happy hour", ["funk", "soul"]],
+);
+check(
+  "defaultVolume falls back to 70",
+  (
+    parseZoneSchedule({ timezone: "UTC", dayparts: [] }) as {
+      schedule: ZoneSchedule;
+    }
+  ).schedule.defaultVolume,
+  70,
+);
+
+const broken = parseZoneSchedule({
+  timezone: "Mars/Olympus",
+  defaultVolume: 120,
+  dayparts: [
+    { name: "", start: "5pm", end: "25:00", energy: ["loud"], volume: 50.5 },
+    { name: "ok", start: "24:00", end: "01:00", days: [7] },
+  ],
+});
+check(
+  "every error in a broken schedule is reported at once",
+  broken.ok ? [] : broken.errors,
+  [
+    'timezone must be an IANA time zone, e.g. "America/New_York"',
+    "defaultVolume must be an integer 0-100",
+    "dayparts[0].name is required",
+    'dayparts[0].start must be "HH:MM"',
+    'dayparts[0].end must be "HH:MM" (or "24:00")',
+    "dayparts[0].energy must list low, medium, high",
+    "dayparts[0].volume must be an integer 0-100",
+    'dayparts[1].start must be "HH:MM"',
+    "dayparts[1].days must be weekday numbers 0-6",
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+// US daylight saving starts Sunday 2026-03-08: New York is UTC-5 before, UTC-4 after.
+const at = (iso: string) => activeZoneDaypart(schedule, utc(iso))?.name ?? null;
+check(
+  "17:30 EST on Friday is happy hour",
+  at("2026-03-06T22:30:00Z"),
+  "Happy hour",
+);
+check(
+  "17:30 EDT on Monday is happy hour",
+  at("2026-03-09T21:30:00Z"),
+  "Happy hour",
+);
+check("16:30 EST on Friday is not", at("2026-03-06T21:30:00Z"), null);
+check("20:00 is the exclusive end", at("2026-03-10T00:00:00Z"), null);
+check("happy hour is weekdays only", at("2026-03-07T22:30:00Z"), null);
+check(
+  "localClock reads the venue's wall clock",
+  localClock(utc("2026-03-09T21:30:00Z"), "America/New_York"),
+  { day: 1, minute: 17 * 60 + 30 },
+);
+
+const late: ZoneSchedule = {
+  timezone: "UTC",
+  defaultVolume: 70,
+  dayparts: [
+    { name: "Friday late", days: [5], start: "22:00", end: "02:00" },
+    { name: "Evenings", start: "18:00", end: "24:00" },
+  ],
+};
+const lateAt = (iso: string) => activeZoneDaypart(late, utc(iso))?.name ?? null;
+check(
+  "23:00 Friday is Friday late",
+  lateAt("2026-03-06T23:00:00Z"),
+  "Friday late",
+);
+check(
+  "01:30 Saturday is still Friday late",
+  lateAt("2026-03-07T01:30:00Z"),
+  "Friday late",
+);
+check(
+  "01:30 Sunday is not: Saturday night is not listed",
+  lateAt("2026-03-08T01:30:00Z"),
+  null,
+);
+check(
+  "23:00 Saturday falls through to Evenings",
+  lateAt("2026-03-07T23:00:00Z"),
+  "Evenings",
+);
+
+check(
+  "volume comes from the daypart, else the schedule",
+  [
+    zoneVolume(
+      schedule,
+      activeZoneDaypart(schedule, utc("2026-03-06T22:30:00Z")),
+    ),
+    zoneVolume(
+      schedule,
+      activeZoneDaypart(schedule, utc("2026-03-06T12:00:00Z")),
+    ),
+  ],
+  [85, 60],
+);
+
+// ---------------------------------------------------------------------------
+// Catalogue slicing
+// ---------------------------------------------------------------------------
+
+const catalogue = ["1", "2", "3", "4"].map((tokenId) => ({ tokenId }));
+const tags: Record<string, ZoneTrackTags> = {
+  "1": { genres: ["funk"], energy: "high" },
+  "2": { genres: ["Soul"], energy: "low" },
+  "3": { genres: ["jazz"], energy: "high" },
+};
+const ids = (r: { tracks: { tokenId: string }[]; relaxed: string[] }) => [
+  r.tracks.map((t) => t.tokenId),
+  r.relaxed,
+];
+const happy = schedule.dayparts[0];
+
+check("no daypart plays everything", ids(zonePlaylist(catalogue, null, tags)), [
+  ["1", "2", "3", "4"],
+  [],
+]);
+check(
+  "genre and energy both apply",
+  ids(zonePlaylist(catalogue, happy, tags)),
+  [["1"], []],
+);
+check(
+  "energy is relaxed first",
+  ids(zonePlaylist(catalogue, { ...happy, energy: ["medium"] }, tags)),
+  [["1", "2"], ["energy"]],
+);
+check(
+  "then genre, leaving the whole catalogue",
+  ids(zonePlaylist(catalogue, { ...happy, genres: ["polka"] }, tags)),
+  [
+    ["1", "2", "3", "4"],
+    ["energy", "genre"],
+  ],
+);
+
+// ---------------------------------------------------------------------------
+// Seeds and ids
+// ---------------------------------------------------------------------------
+
+const seed = `0x${"ab".repeat(32)}`;
+check(
+  "the main zone uses the venue seed as is",
+  zoneSeed(seed, DEFAULT_ZONE_ID),
+  seed,
+);
+check(
+  "other zones get their own, stable seed",
+  [
+    zoneSeed(seed, "patio") === zoneSeed(seed, "patio"),
+    zoneSeed(seed, "patio") !== zoneSeed(seed, "lobby"),
+    zoneSeed(seed, "patio") !== seed,
+  ],
+  [true, true, true],
+);
+
+check(
+  "a zone id is derived from its name",
+  zoneIdFrom(undefined, "The Patio!"),
+  "the-patio",
+);
+check(
+  "zone ids are short lowercase slugs",
+  [
+    isZoneId("patio-2"),
+    isZoneId("Patio"),
+    isZoneId("-x"),
+    isZoneId("a".repeat(25)),
+  ],
+  [true, false, false, false],
+);
+check(
+  "publicZone drops the key hash",
+  Object.keys(
+    publicZone({
+      zoneId: "patio",
+      name: "Patio",
+      apiKeyHash: "x",
+      schedule,
+      createdAt: "",
+    }),
+  ),
+  ["zoneId", "name", "schedule", "createdAt"],
+);
+
+console.log(`\n${checks} checks run`);
+if (failures.length) {
+  console.error(`\n✗ ${failures.length} FAILED:\n`);
+  for (const f of failures) console.error(`  - ${f}\n`);
+  process.exit(1);
+}
+console.log("✓ all passed\n");